@@ -0,0 +1,768 @@
+/**
+ * Admin Assignment Page - Atribuição Automática de Tickets
+ * Estratégia de distribuição, turnos e especialidades dos técnicos e
+ * calendário de ausências (férias, folgas e licenças)
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+'use client';
+
+import type {
+  AssignmentRunSummary,
+  AssignmentSettings,
+  AssignmentStrategy,
+  TechnicianAbsence,
+  TechnicianAbsenceType,
+  TechnicianAvailability,
+  TechnicianSchedule,
+} from '@/types/assignment';
+import type { ValidationError } from '@/lib/validations/ticket-schemas';
+
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Button } from '@heroui/button';
+import { Card, CardBody, CardHeader } from '@heroui/card';
+import { Chip } from '@heroui/chip';
+import { Input } from '@heroui/input';
+import { Select, SelectItem } from '@heroui/select';
+import { Spinner } from '@heroui/spinner';
+import { Switch } from '@heroui/switch';
+import {
+  FiCalendar,
+  FiPlus,
+  FiRefreshCw,
+  FiSave,
+  FiShuffle,
+  FiTrash2,
+  FiUsers,
+} from 'react-icons/fi';
+import { Toaster, toast } from 'react-hot-toast';
+
+import { useTicketStore } from '@/lib/stores/ticket-store';
+import {
+  getActiveTechnicians,
+  getTechnicianSettingsMap,
+} from '@/lib/config/ticket-settings';
+import { getDefaultSchedule } from '@/lib/config/assignment';
+import {
+  ASSIGNMENT_STRATEGY_LABELS,
+  TECHNICIAN_ABSENCE_LABELS,
+} from '@/types/assignment';
+
+const pageVariants = {
+  initial: { opacity: 0 },
+  animate: {
+    opacity: 1,
+    transition: { duration: 0.4, ease: 'easeOut' },
+  },
+};
+
+const WEEK_DAYS = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+
+const STRATEGY_DESCRIPTIONS: Record<AssignmentStrategy, string> = {
+  round_robin: 'Cada ticket vai para o próximo técnico disponível da lista',
+  least_open: 'O técnico disponível com menos tickets abertos recebe o ticket',
+  skill:
+    'Especialidade encontrada no ticket define o técnico; sem correspondência, menor carga',
+};
+
+// Listas editadas como texto separado por vírgulas
+const toListValue = (values: string[]) => values.join(',');
+const fromListValue = (value: string) => value.split(',');
+
+// Conversão entre ISO e o valor do input datetime-local (horário do navegador)
+const toLocalInput = (iso: string) => {
+  const date = new Date(iso);
+
+  if (Number.isNaN(date.getTime())) return '';
+
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000)
+    .toISOString()
+    .slice(0, 16);
+};
+const fromLocalInput = (value: string) => {
+  const date = new Date(value);
+
+  return Number.isNaN(date.getTime()) ? '' : date.toISOString();
+};
+
+export default function AdminAssignmentPage() {
+  const { settings, fetchSettings } = useTicketStore();
+
+  const [draft, setDraft] = useState<AssignmentSettings | null>(null);
+  const [availability, setAvailability] = useState<TechnicianAvailability[]>(
+    []
+  );
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [errors, setErrors] = useState<ValidationError[]>([]);
+  const [run, setRun] = useState<AssignmentRunSummary | null>(null);
+
+  const technicians = getActiveTechnicians(settings);
+  const technicianMap = getTechnicianSettingsMap(settings);
+
+  const loadAvailability = async () => {
+    try {
+      const response = await fetch('/api/tickets/assignment');
+      const data = await response.json();
+
+      if (response.ok && data.success) setAvailability(data.data);
+    } catch (error) {
+      console.error('❌ Erro ao carregar disponibilidade:', error);
+    }
+  };
+
+  // Carregar configurações atuais do servidor
+  const loadSettings = async () => {
+    setIsLoading(true);
+
+    try {
+      const response = await fetch('/api/settings/assignment');
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Falha ao carregar configurações');
+      }
+
+      setDraft(data.data);
+      setErrors([]);
+      loadAvailability();
+    } catch (error) {
+      console.error('❌ Erro ao carregar configurações de atribuição:', error);
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : 'Erro ao carregar configurações'
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSettings();
+    loadSettings();
+  }, []);
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    setIsSaving(true);
+    setErrors([]);
+
+    try {
+      const response = await fetch('/api/settings/assignment', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...draft,
+          // Todo técnico ativo sai com turno explícito
+          schedules: technicians.map(technician => getSchedule(technician.id)),
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        if (Array.isArray(data.details)) {
+          setErrors(data.details);
+        }
+
+        throw new Error(
+          typeof data.details === 'string'
+            ? data.details
+            : data.error || 'Falha ao salvar configurações'
+        );
+      }
+
+      setDraft(data.data);
+      loadAvailability();
+      toast.success('✅ Configurações de atribuição salvas!');
+    } catch (error) {
+      console.error('❌ Erro ao salvar configurações de atribuição:', error);
+      toast.error(
+        error instanceof Error ? error.message : 'Erro ao salvar configurações'
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Distribui agora a fila sem responsável com as configurações salvas
+  const handleRun = async () => {
+    setIsRunning(true);
+
+    try {
+      const response = await fetch('/api/tickets/assignment', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.details || data.error || 'Falha na atribuição');
+      }
+
+      setRun(data.data);
+      loadAvailability();
+      toast.success(data.message);
+    } catch (error) {
+      console.error('❌ Erro ao distribuir tickets:', error);
+      toast.error(
+        error instanceof Error ? error.message : 'Erro ao distribuir tickets'
+      );
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  // Turno do técnico no rascunho (padrão do time se ainda não configurado)
+  const getSchedule = (technicianId: string): TechnicianSchedule =>
+    draft?.schedules.find(schedule => schedule.technicianId === technicianId) ||
+    getDefaultSchedule(technicianId);
+
+  // Atualizadores imutáveis do rascunho
+  const updateSchedule = (
+    technicianId: string,
+    updates: Partial<TechnicianSchedule>
+  ) => {
+    const schedule = { ...getSchedule(technicianId), ...updates };
+
+    setDraft(current =>
+      current
+        ? {
+            ...current,
+            schedules: [
+              ...current.schedules.filter(
+                item => item.technicianId !== technicianId
+              ),
+              schedule,
+            ],
+          }
+        : current
+    );
+  };
+
+  const toggleWorkDay = (technicianId: string, day: number) => {
+    const { workDays } = getSchedule(technicianId);
+
+    updateSchedule(technicianId, {
+      workDays: workDays.includes(day)
+        ? workDays.filter(item => item !== day)
+        : [...workDays, day].sort(),
+    });
+  };
+
+  const updateAbsence = (
+    absenceIndex: number,
+    updates: Partial<TechnicianAbsence>
+  ) => {
+    setDraft(current =>
+      current
+        ? {
+            ...current,
+            absences: current.absences.map((absence, index) =>
+              index === absenceIndex ? { ...absence, ...updates } : absence
+            ),
+          }
+        : current
+    );
+  };
+
+  const addAbsence = () => {
+    const startsAt = new Date();
+
+    startsAt.setHours(0, 0, 0, 0);
+
+    setDraft(current =>
+      current
+        ? {
+            ...current,
+            absences: [
+              ...current.absences,
+              {
+                id: '',
+                technicianId: technicians[0]?.id || '',
+                type: 'vacation',
+                startsAt: startsAt.toISOString(),
+                endsAt: new Date(
+                  startsAt.getTime() + 24 * 60 * 60 * 1000
+                ).toISOString(),
+              },
+            ],
+          }
+        : current
+    );
+  };
+
+  const removeAbsence = (absenceIndex: number) => {
+    setDraft(current =>
+      current
+        ? {
+            ...current,
+            absences: current.absences.filter(
+              (_, index) => index !== absenceIndex
+            ),
+          }
+        : current
+    );
+  };
+
+  // Erro de validação de um campo específico (ex: absences[0].endsAt)
+  const getFieldError = (field: string) =>
+    errors.find(error => error.field === field)?.message;
+
+  if (isLoading || !draft) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Spinner color="primary" size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <motion.div
+      animate="animate"
+      className="min-h-screen p-4 md:p-6 lg:p-8"
+      initial="initial"
+      variants={pageVariants}
+    >
+      <Toaster position="top-right" />
+      <div className="max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <header className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <div className="space-y-1">
+            <h1 className="text-3xl md:text-4xl font-bold text-foreground">
+              👥 Atribuição Automática
+            </h1>
+            <p className="text-foreground/70">
+              Distribui os tickets abertos sem responsável entre os técnicos
+              ativos que estão no turno e fora de ausências
+            </p>
+            {draft.updatedAt && (
+              <p className="text-xs text-foreground/50">
+                Última alteração:{' '}
+                {new Date(draft.updatedAt).toLocaleString('pt-BR')}
+              </p>
+            )}
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Button
+              isDisabled={isSaving}
+              startContent={<FiRefreshCw />}
+              variant="flat"
+              onPress={loadSettings}
+            >
+              Recarregar
+            </Button>
+            <Button
+              color="primary"
+              isLoading={isSaving}
+              startContent={!isSaving && <FiSave />}
+              onPress={handleSave}
+            >
+              Salvar
+            </Button>
+          </div>
+        </header>
+
+        {errors.length > 0 && (
+          <Card className="border border-danger/40">
+            <CardBody className="space-y-1">
+              {errors.map(error => (
+                <p key={error.field} className="text-sm text-danger">
+                  <span className="font-mono">{error.field}</span>:{' '}
+                  {error.message}
+                </p>
+              ))}
+            </CardBody>
+          </Card>
+        )}
+
+        {/* Estratégia */}
+        <Card className="liquid-glass">
+          <CardHeader className="flex flex-col md:flex-row md:items-center gap-3">
+            <div className="flex-1 flex items-center gap-2">
+              <FiShuffle className="text-xl text-primary" />
+              <h2 className="text-lg font-semibold text-foreground">
+                Distribuição
+              </h2>
+            </div>
+            <Button
+              color="warning"
+              isDisabled={isRunning}
+              isLoading={isRunning}
+              startContent={!isRunning && <FiShuffle />}
+              variant="flat"
+              onPress={handleRun}
+            >
+              Distribuir agora
+            </Button>
+          </CardHeader>
+
+          <CardBody className="space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-center">
+              <Select
+                disallowEmptySelection
+                description={STRATEGY_DESCRIPTIONS[draft.strategy]}
+                errorMessage={getFieldError('strategy')}
+                isInvalid={!!getFieldError('strategy')}
+                label="Estratégia"
+                selectedKeys={[draft.strategy]}
+                size="sm"
+                onSelectionChange={keys => {
+                  const strategy = Array.from(keys)[0];
+
+                  if (strategy) {
+                    setDraft({
+                      ...draft,
+                      strategy: String(strategy) as AssignmentStrategy,
+                    });
+                  }
+                }}
+              >
+                {Object.entries(ASSIGNMENT_STRATEGY_LABELS).map(
+                  ([key, label]) => (
+                    <SelectItem key={key}>{label}</SelectItem>
+                  )
+                )}
+              </Select>
+              <Switch
+                className="md:col-span-2"
+                isSelected={draft.autoAssign}
+                size="sm"
+                onValueChange={value =>
+                  setDraft({ ...draft, autoAssign: value })
+                }
+              >
+                Atribuir na chegada (webhook e sincronização)
+              </Switch>
+            </div>
+
+            {run && (
+              <div className="space-y-2">
+                <div className="flex flex-wrap gap-2">
+                  <Chip size="sm" variant="flat">
+                    {run.evaluated} sem responsável
+                  </Chip>
+                  <Chip color="success" size="sm" variant="flat">
+                    {run.assigned} atribuído(s)
+                  </Chip>
+                  {run.skipped > 0 && (
+                    <Chip color="warning" size="sm" variant="flat">
+                      {run.skipped} sem técnico disponível
+                    </Chip>
+                  )}
+                  {run.errors > 0 && (
+                    <Chip color="danger" size="sm" variant="flat">
+                      {run.errors} erro(s)
+                    </Chip>
+                  )}
+                </div>
+
+                {run.items.length === 0 && (
+                  <p className="text-sm text-foreground/50">
+                    Nenhum ticket aberto sem responsável
+                  </p>
+                )}
+
+                {run.items.map(item => (
+                  <div
+                    key={item.hubspotId}
+                    className="p-2 bg-content2 rounded-lg text-sm space-y-1"
+                  >
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-mono text-xs text-primary-600">
+                        #{item.hubspotId}
+                      </span>
+                      <span className="flex-1 truncate">{item.subject}</span>
+                      {item.technicianId && (
+                        <Chip
+                          color={item.error ? 'danger' : 'primary'}
+                          size="sm"
+                          variant="flat"
+                        >
+                          {technicianMap[item.technicianId]?.name ||
+                            item.technicianId}
+                        </Chip>
+                      )}
+                    </div>
+                    <p className="text-xs text-foreground/60">
+                      {item.reason}
+                      {item.error && ` • ${item.error}`}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardBody>
+        </Card>
+
+        {/* Técnicos */}
+        <Card className="liquid-glass">
+          <CardHeader className="flex items-center gap-2">
+            <FiUsers className="text-xl text-primary" />
+            <h2 className="text-lg font-semibold text-foreground">Técnicos</h2>
+            <Chip size="sm" variant="flat">
+              {availability.filter(item => item.available).length} de{' '}
+              {technicians.length} disponível(is) agora
+            </Chip>
+          </CardHeader>
+
+          <CardBody className="space-y-3">
+            <p className="text-xs text-foreground/60">
+              Horários no fuso do time (Brasília). Especialidades são trechos
+              procurados no assunto, na descrição e na categoria do ticket.
+            </p>
+
+            {technicians.map((technician, technicianIndex) => {
+              const schedule = getSchedule(technician.id);
+              const status = availability.find(
+                item => item.technicianId === technician.id
+              );
+              const schedulePath = `schedules[${technicianIndex}]`;
+
+              return (
+                <div
+                  key={technician.id}
+                  className="space-y-2 p-3 bg-content2 rounded-lg"
+                >
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium text-foreground">
+                      {technician.name}
+                    </span>
+                    <span className="text-xs text-foreground/50">
+                      {technician.role}
+                    </span>
+                    {status && (
+                      <>
+                        <Chip
+                          color={status.available ? 'success' : 'default'}
+                          size="sm"
+                          variant="flat"
+                        >
+                          {status.available ? 'Disponível' : status.reason}
+                        </Chip>
+                        <Chip size="sm" variant="flat">
+                          {status.openTickets} aberto(s)
+                        </Chip>
+                      </>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-2 md:grid-cols-12 gap-2 items-center">
+                    <Input
+                      className="col-span-2 md:col-span-5"
+                      label="Especialidades"
+                      placeholder="evento, inscrição"
+                      size="sm"
+                      value={toListValue(schedule.skills)}
+                      onValueChange={value =>
+                        updateSchedule(technician.id, {
+                          skills: fromListValue(value),
+                        })
+                      }
+                    />
+                    <Input
+                      className="md:col-span-1"
+                      label="Início"
+                      max={23}
+                      min={0}
+                      size="sm"
+                      type="number"
+                      value={String(schedule.shiftStartHour)}
+                      onValueChange={value =>
+                        updateSchedule(technician.id, {
+                          shiftStartHour: Number(value) || 0,
+                        })
+                      }
+                    />
+                    <Input
+                      className="md:col-span-1"
+                      errorMessage={getFieldError(
+                        `${schedulePath}.shiftEndHour`
+                      )}
+                      isInvalid={
+                        !!getFieldError(`${schedulePath}.shiftEndHour`)
+                      }
+                      label="Fim"
+                      max={24}
+                      min={1}
+                      size="sm"
+                      type="number"
+                      value={String(schedule.shiftEndHour)}
+                      onValueChange={value =>
+                        updateSchedule(technician.id, {
+                          shiftEndHour: Number(value) || 0,
+                        })
+                      }
+                    />
+                    <div className="col-span-2 md:col-span-5 flex flex-wrap gap-1">
+                      {WEEK_DAYS.map((label, day) => (
+                        <Chip
+                          key={label}
+                          as="button"
+                          color={
+                            schedule.workDays.includes(day)
+                              ? 'primary'
+                              : 'default'
+                          }
+                          size="sm"
+                          variant={
+                            schedule.workDays.includes(day) ? 'solid' : 'flat'
+                          }
+                          onClick={() => toggleWorkDay(technician.id, day)}
+                        >
+                          {label}
+                        </Chip>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </CardBody>
+        </Card>
+
+        {/* Ausências */}
+        <Card className="liquid-glass">
+          <CardHeader className="flex items-center gap-2">
+            <FiCalendar className="text-xl text-primary" />
+            <h2 className="text-lg font-semibold text-foreground">Ausências</h2>
+            <Chip size="sm" variant="flat">
+              {draft.absences.length} programada(s)
+            </Chip>
+          </CardHeader>
+
+          <CardBody className="space-y-3">
+            <p className="text-xs text-foreground/60">
+              Durante o período o técnico não recebe tickets. Ausências
+              encerradas deixam de aparecer aqui.
+            </p>
+
+            {draft.absences.length === 0 && (
+              <p className="text-sm text-foreground/50">
+                Nenhuma ausência programada
+              </p>
+            )}
+
+            {draft.absences.map((absence, absenceIndex) => {
+              const absencePath = `absences[${absenceIndex}]`;
+
+              return (
+                <div
+                  key={absence.id || `new-${absenceIndex}`}
+                  className="grid grid-cols-2 md:grid-cols-12 gap-2 items-center p-3 bg-content2 rounded-lg"
+                >
+                  <Select
+                    disallowEmptySelection
+                    className="md:col-span-2"
+                    errorMessage={getFieldError(`${absencePath}.technicianId`)}
+                    isInvalid={!!getFieldError(`${absencePath}.technicianId`)}
+                    label="Técnico"
+                    selectedKeys={
+                      absence.technicianId ? [absence.technicianId] : []
+                    }
+                    size="sm"
+                    onSelectionChange={keys =>
+                      updateAbsence(absenceIndex, {
+                        technicianId: String(Array.from(keys)[0] || ''),
+                      })
+                    }
+                  >
+                    {technicians.map(technician => (
+                      <SelectItem key={technician.id}>
+                        {technician.name}
+                      </SelectItem>
+                    ))}
+                  </Select>
+                  <Select
+                    disallowEmptySelection
+                    className="md:col-span-2"
+                    label="Tipo"
+                    selectedKeys={[absence.type]}
+                    size="sm"
+                    onSelectionChange={keys =>
+                      updateAbsence(absenceIndex, {
+                        type: String(
+                          Array.from(keys)[0] || absence.type
+                        ) as TechnicianAbsenceType,
+                      })
+                    }
+                  >
+                    {Object.entries(TECHNICIAN_ABSENCE_LABELS).map(
+                      ([key, label]) => (
+                        <SelectItem key={key}>{label}</SelectItem>
+                      )
+                    )}
+                  </Select>
+                  <Input
+                    className="md:col-span-2"
+                    errorMessage={getFieldError(`${absencePath}.startsAt`)}
+                    isInvalid={!!getFieldError(`${absencePath}.startsAt`)}
+                    label="Início"
+                    size="sm"
+                    type="datetime-local"
+                    value={toLocalInput(absence.startsAt)}
+                    onValueChange={value =>
+                      updateAbsence(absenceIndex, {
+                        startsAt: fromLocalInput(value),
+                      })
+                    }
+                  />
+                  <Input
+                    className="md:col-span-2"
+                    errorMessage={getFieldError(`${absencePath}.endsAt`)}
+                    isInvalid={!!getFieldError(`${absencePath}.endsAt`)}
+                    label="Fim"
+                    size="sm"
+                    type="datetime-local"
+                    value={toLocalInput(absence.endsAt)}
+                    onValueChange={value =>
+                      updateAbsence(absenceIndex, {
+                        endsAt: fromLocalInput(value),
+                      })
+                    }
+                  />
+                  <Input
+                    className="col-span-2 md:col-span-3"
+                    label="Observação"
+                    size="sm"
+                    value={absence.note || ''}
+                    onValueChange={value =>
+                      updateAbsence(absenceIndex, { note: value || undefined })
+                    }
+                  />
+                  <Button
+                    isIconOnly
+                    aria-label="Remover ausência"
+                    color="danger"
+                    size="sm"
+                    variant="light"
+                    onPress={() => removeAbsence(absenceIndex)}
+                  >
+                    <FiTrash2 />
+                  </Button>
+                </div>
+              );
+            })}
+
+            <Button
+              isDisabled={technicians.length === 0}
+              size="sm"
+              startContent={<FiPlus />}
+              variant="flat"
+              onPress={addAbsence}
+            >
+              Adicionar ausência
+            </Button>
+          </CardBody>
+        </Card>
+      </div>
+    </motion.div>
+  );
+}
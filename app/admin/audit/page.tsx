@@ -0,0 +1,373 @@
+/**
+ * Admin Audit Page - Log de Auditoria do Dashboard
+ * Quem criou, alterou ou excluiu projetos e tickets, com o diff por campo
+ * e a resposta do Trello/HubSpot
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+'use client';
+
+import type { AuditLogEntry } from '@/types/audit';
+
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Button } from '@heroui/button';
+import { Card, CardBody, CardHeader } from '@heroui/card';
+import { Chip } from '@heroui/chip';
+import { Input } from '@heroui/input';
+import { Select, SelectItem } from '@heroui/select';
+import { Spinner } from '@heroui/spinner';
+import { FiClipboard, FiRefreshCw, FiSearch } from 'react-icons/fi';
+import { Toaster, toast } from 'react-hot-toast';
+
+import {
+  AUDIT_ACTION_COLORS,
+  AUDIT_ACTION_LABELS,
+  AUDIT_ENTITY_LABELS,
+} from '@/types/audit';
+
+const PAGE_SIZE = 50;
+
+const ENTITY_FILTERS = [
+  { key: '', label: 'Todas as entidades' },
+  { key: 'ticket', label: 'Tickets' },
+  { key: 'project', label: 'Projetos' },
+];
+
+const ACTION_FILTERS = [
+  { key: '', label: 'Todas as ações' },
+  { key: 'create', label: 'Criação' },
+  { key: 'update', label: 'Alteração' },
+  { key: 'delete', label: 'Exclusão' },
+];
+
+interface AuditFilterState {
+  entityType: string;
+  action: string;
+  entityId: string;
+  actor: string;
+  dateFrom: string;
+  dateTo: string;
+}
+
+const EMPTY_FILTERS: AuditFilterState = {
+  entityType: '',
+  action: '',
+  entityId: '',
+  actor: '',
+  dateFrom: '',
+  dateTo: '',
+};
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined
+    ? '—'
+    : typeof value === 'string'
+      ? value
+      : JSON.stringify(value);
+
+const pageVariants = {
+  initial: { opacity: 0 },
+  animate: {
+    opacity: 1,
+    transition: { duration: 0.4, ease: 'easeOut' },
+  },
+};
+
+export default function AdminAuditPage() {
+  const [filters, setFilters] = useState<AuditFilterState>(EMPTY_FILTERS);
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Buscar entradas; `offset` > 0 acrescenta à lista atual
+  const loadEntries = async (offset = 0) => {
+    setIsLoading(true);
+
+    try {
+      const params = new URLSearchParams({
+        limit: String(PAGE_SIZE),
+        offset: String(offset),
+      });
+
+      if (filters.entityType) params.set('entityType', filters.entityType);
+      if (filters.action) params.set('action', filters.action);
+      if (filters.entityId.trim()) {
+        params.set('entityId', filters.entityId.trim());
+      }
+      if (filters.actor.trim()) params.set('actor', filters.actor.trim());
+      if (filters.dateFrom) {
+        params.set(
+          'dateFrom',
+          new Date(`${filters.dateFrom}T00:00:00`).toISOString()
+        );
+      }
+      if (filters.dateTo) {
+        params.set(
+          'dateTo',
+          new Date(`${filters.dateTo}T23:59:59.999`).toISOString()
+        );
+      }
+
+      const response = await fetch(`/api/audit?${params}`);
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(
+          data.details || data.error || 'Falha ao carregar auditoria'
+        );
+      }
+
+      setEntries(current =>
+        offset > 0 ? [...current, ...data.data.entries] : data.data.entries
+      );
+      setTotal(data.data.total);
+    } catch (error) {
+      console.error('❌ Erro ao carregar auditoria:', error);
+      toast.error(
+        error instanceof Error ? error.message : 'Erro ao carregar auditoria'
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadEntries();
+  }, [filters.entityType, filters.action]);
+
+  const updateFilter = (key: keyof AuditFilterState, value: string) =>
+    setFilters(current => ({ ...current, [key]: value }));
+
+  return (
+    <motion.div
+      animate="animate"
+      className="min-h-screen p-4 md:p-6 lg:p-8"
+      initial="initial"
+      variants={pageVariants}
+    >
+      <Toaster position="top-right" />
+      <div className="max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <header className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <div className="space-y-1">
+            <h1 className="text-3xl md:text-4xl font-bold text-foreground">
+              🧾 Auditoria
+            </h1>
+            <p className="text-foreground/70">
+              Criações, alterações e exclusões feitas pelo dashboard
+            </p>
+          </div>
+
+          <Button
+            isDisabled={isLoading}
+            startContent={<FiRefreshCw />}
+            variant="flat"
+            onPress={() => loadEntries()}
+          >
+            Recarregar
+          </Button>
+        </header>
+
+        {/* Filtros */}
+        <Card className="liquid-glass">
+          <CardBody>
+            <form
+              className="grid grid-cols-1 md:grid-cols-3 gap-3"
+              onSubmit={event => {
+                event.preventDefault();
+                loadEntries();
+              }}
+            >
+              <Select
+                aria-label="Filtrar por entidade"
+                selectedKeys={[filters.entityType]}
+                size="sm"
+                onSelectionChange={keys =>
+                  updateFilter('entityType', String(Array.from(keys)[0] ?? ''))
+                }
+              >
+                {ENTITY_FILTERS.map(filter => (
+                  <SelectItem key={filter.key}>{filter.label}</SelectItem>
+                ))}
+              </Select>
+              <Select
+                aria-label="Filtrar por ação"
+                selectedKeys={[filters.action]}
+                size="sm"
+                onSelectionChange={keys =>
+                  updateFilter('action', String(Array.from(keys)[0] ?? ''))
+                }
+              >
+                {ACTION_FILTERS.map(filter => (
+                  <SelectItem key={filter.key}>{filter.label}</SelectItem>
+                ))}
+              </Select>
+              <Input
+                label="ID (card do Trello ou ticket do HubSpot)"
+                size="sm"
+                value={filters.entityId}
+                onValueChange={value => updateFilter('entityId', value)}
+              />
+              <Input
+                label="Autor (e-mail)"
+                size="sm"
+                value={filters.actor}
+                onValueChange={value => updateFilter('actor', value)}
+              />
+              <Input
+                label="De"
+                size="sm"
+                type="date"
+                value={filters.dateFrom}
+                onValueChange={value => updateFilter('dateFrom', value)}
+              />
+              <Input
+                label="Até"
+                size="sm"
+                type="date"
+                value={filters.dateTo}
+                onValueChange={value => updateFilter('dateTo', value)}
+              />
+              <div className="md:col-span-3 flex justify-end gap-2">
+                <Button
+                  size="sm"
+                  variant="light"
+                  onPress={() => setFilters(EMPTY_FILTERS)}
+                >
+                  Limpar
+                </Button>
+                <Button
+                  color="primary"
+                  size="sm"
+                  startContent={<FiSearch />}
+                  type="submit"
+                >
+                  Buscar
+                </Button>
+              </div>
+            </form>
+          </CardBody>
+        </Card>
+
+        {/* Entradas */}
+        <Card className="liquid-glass">
+          <CardHeader className="flex items-center gap-2">
+            <FiClipboard className="text-xl text-primary" />
+            <h2 className="text-lg font-semibold text-foreground">Registros</h2>
+            <Chip size="sm" variant="flat">
+              {total}
+            </Chip>
+          </CardHeader>
+
+          <CardBody className="space-y-2">
+            {entries.length === 0 && isLoading ? (
+              <div className="flex justify-center py-8">
+                <Spinner color="primary" />
+              </div>
+            ) : entries.length === 0 ? (
+              <p className="text-center text-foreground/60 py-8">
+                Nenhum registro encontrado
+              </p>
+            ) : (
+              entries.map(entry => (
+                <div
+                  key={entry.id}
+                  className="p-3 bg-content2 rounded-lg space-y-2"
+                >
+                  <div className="flex flex-wrap items-center gap-3">
+                    <Chip
+                      color={AUDIT_ACTION_COLORS[entry.action]}
+                      size="sm"
+                      variant="flat"
+                    >
+                      {AUDIT_ACTION_LABELS[entry.action]}
+                    </Chip>
+                    <Chip size="sm" variant="bordered">
+                      {AUDIT_ENTITY_LABELS[entry.entityType]}
+                    </Chip>
+                    <span className="font-mono text-sm">{entry.entityId}</span>
+                    {!entry.success && (
+                      <Chip color="danger" size="sm" variant="dot">
+                        Falhou
+                      </Chip>
+                    )}
+                    <span className="text-sm text-foreground/70">
+                      {entry.actorEmail || 'anônimo'}
+                    </span>
+                    <span className="text-xs text-foreground/60 ml-auto">
+                      {new Date(entry.createdAt).toLocaleString('pt-BR')}
+                    </span>
+                    <Button
+                      size="sm"
+                      variant="light"
+                      onPress={() =>
+                        setExpandedId(expandedId === entry.id ? null : entry.id)
+                      }
+                    >
+                      Detalhes
+                    </Button>
+                  </div>
+
+                  {Object.keys(entry.changes).length > 0 && (
+                    <div className="space-y-1 text-sm">
+                      {Object.entries(entry.changes).map(([field, change]) => (
+                        <p key={field} className="break-all">
+                          <span className="font-semibold">{field}:</span>{' '}
+                          <span className="text-danger line-through">
+                            {formatValue(change.before)}
+                          </span>{' '}
+                          →{' '}
+                          <span className="text-success">
+                            {formatValue(change.after)}
+                          </span>
+                        </p>
+                      ))}
+                    </div>
+                  )}
+
+                  {entry.error && (
+                    <p className="text-sm text-danger font-mono break-all">
+                      {entry.error}
+                    </p>
+                  )}
+
+                  {expandedId === entry.id && (
+                    <div className="space-y-1">
+                      <p className="text-xs text-foreground/60">
+                        IP: {entry.ipAddress || '—'} · {entry.userAgent || '—'}
+                      </p>
+                      <pre className="text-xs bg-content3 p-2 rounded overflow-x-auto max-h-64">
+                        {JSON.stringify(
+                          entry.upstreamResponse ?? null,
+                          null,
+                          2
+                        )}
+                      </pre>
+                    </div>
+                  )}
+                </div>
+              ))
+            )}
+
+            {entries.length < total && (
+              <div className="flex justify-center pt-2">
+                <Button
+                  isLoading={isLoading}
+                  size="sm"
+                  variant="flat"
+                  onPress={() => loadEntries(entries.length)}
+                >
+                  Carregar mais
+                </Button>
+              </div>
+            )}
+          </CardBody>
+        </Card>
+      </div>
+    </motion.div>
+  );
+}
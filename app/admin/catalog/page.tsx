@@ -0,0 +1,582 @@
+/**
+ * Admin Catalog Page - Catálogo de Plataformas e Membros
+ * Gerencia as plataformas (labels do Trello) e os membros do time de projetos
+ * com seus vínculos no Trello e no HubSpot
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+'use client';
+
+import type {
+  CatalogMember,
+  CatalogPlatform,
+  ProjectCatalog,
+} from '@/types/catalog';
+import type { ValidationError } from '@/lib/validations/ticket-schemas';
+
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Button } from '@heroui/button';
+import { Card, CardBody, CardHeader } from '@heroui/card';
+import { Chip } from '@heroui/chip';
+import { Input } from '@heroui/input';
+import { Select, SelectItem } from '@heroui/select';
+import { Spinner } from '@heroui/spinner';
+import { Switch } from '@heroui/switch';
+import {
+  FiLayers,
+  FiPlus,
+  FiRefreshCw,
+  FiSave,
+  FiTrash2,
+  FiUsers,
+} from 'react-icons/fi';
+import { Toaster, toast } from 'react-hot-toast';
+
+import { PLATFORM_BADGE_CLASSES, TRELLO_LABEL_COLORS } from '@/types/catalog';
+import { useCatalogStore } from '@/lib/stores/catalog-store';
+
+const pageVariants = {
+  initial: { opacity: 0 },
+  animate: {
+    opacity: 1,
+    transition: { duration: 0.4, ease: 'easeOut' },
+  },
+};
+
+// Palavras-chave editadas como texto separado por vírgulas
+const toKeywordsValue = (keywords: string[]) => keywords.join(',');
+const fromKeywordsValue = (value: string) => value.split(',');
+
+export default function AdminCatalogPage() {
+  const { setCatalog } = useCatalogStore();
+
+  const [draft, setDraft] = useState<ProjectCatalog | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [errors, setErrors] = useState<ValidationError[]>([]);
+
+  // Carregar catálogo atual do servidor
+  const loadCatalog = async () => {
+    setIsLoading(true);
+
+    try {
+      const response = await fetch('/api/settings/catalog');
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Falha ao carregar catálogo');
+      }
+
+      setDraft(data.data);
+      setErrors([]);
+    } catch (error) {
+      console.error('❌ Erro ao carregar catálogo:', error);
+      toast.error(
+        error instanceof Error ? error.message : 'Erro ao carregar catálogo'
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadCatalog();
+  }, []);
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    setIsSaving(true);
+    setErrors([]);
+
+    try {
+      const response = await fetch('/api/settings/catalog', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(draft),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        if (Array.isArray(data.details)) {
+          setErrors(data.details);
+        }
+
+        throw new Error(
+          typeof data.details === 'string'
+            ? data.details
+            : data.error || 'Falha ao salvar catálogo'
+        );
+      }
+
+      setDraft(data.data);
+      setCatalog(data.data);
+      toast.success('✅ Catálogo salvo!');
+    } catch (error) {
+      console.error('❌ Erro ao salvar catálogo:', error);
+      toast.error(
+        error instanceof Error ? error.message : 'Erro ao salvar catálogo'
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Atualizadores imutáveis do rascunho
+  const updatePlatform = (
+    platformIndex: number,
+    updates: Partial<CatalogPlatform>
+  ) => {
+    setDraft(current =>
+      current
+        ? {
+            ...current,
+            platforms: current.platforms.map((platform, index) =>
+              index === platformIndex ? { ...platform, ...updates } : platform
+            ),
+          }
+        : current
+    );
+  };
+
+  const updateMember = (
+    memberIndex: number,
+    updates: Partial<CatalogMember>
+  ) => {
+    setDraft(current =>
+      current
+        ? {
+            ...current,
+            members: current.members.map((member, index) =>
+              index === memberIndex ? { ...member, ...updates } : member
+            ),
+          }
+        : current
+    );
+  };
+
+  const addPlatform = () => {
+    setDraft(current =>
+      current
+        ? {
+            ...current,
+            platforms: [
+              ...current.platforms,
+              {
+                id: '',
+                name: '',
+                keywords: [],
+                color: 'blue',
+                isDefault: false,
+                isActive: true,
+                displayOrder: current.platforms.length + 1,
+              },
+            ],
+          }
+        : current
+    );
+  };
+
+  const removePlatform = (platformIndex: number) => {
+    setDraft(current =>
+      current
+        ? {
+            ...current,
+            platforms: current.platforms.filter(
+              (_, index) => index !== platformIndex
+            ),
+          }
+        : current
+    );
+  };
+
+  const addMember = () => {
+    setDraft(current =>
+      current
+        ? {
+            ...current,
+            members: [
+              ...current.members,
+              {
+                id: '',
+                name: '',
+                keywords: [],
+                isDefault: false,
+                isActive: true,
+                displayOrder: current.members.length + 1,
+              },
+            ],
+          }
+        : current
+    );
+  };
+
+  const removeMember = (memberIndex: number) => {
+    setDraft(current =>
+      current
+        ? {
+            ...current,
+            members: current.members.filter(
+              (_, index) => index !== memberIndex
+            ),
+          }
+        : current
+    );
+  };
+
+  // Erro de validação de um campo específico (ex: members[0].hubspotOwnerId)
+  const getFieldError = (field: string) =>
+    errors.find(error => error.field === field)?.message;
+
+  if (isLoading || !draft) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Spinner color="primary" size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <motion.div
+      animate="animate"
+      className="min-h-screen p-4 md:p-6 lg:p-8"
+      initial="initial"
+      variants={pageVariants}
+    >
+      <Toaster position="top-right" />
+      <div className="max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <header className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <div className="space-y-1">
+            <h1 className="text-3xl md:text-4xl font-bold text-foreground">
+              🗂️ Catálogo de Projetos
+            </h1>
+            <p className="text-foreground/70">
+              Plataformas e membros do time, com o mapeamento para labels e
+              membros do Trello e owners do HubSpot
+            </p>
+            {draft.updatedAt && (
+              <p className="text-xs text-foreground/50">
+                Última alteração:{' '}
+                {new Date(draft.updatedAt).toLocaleString('pt-BR')}
+              </p>
+            )}
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Button
+              isDisabled={isSaving}
+              startContent={<FiRefreshCw />}
+              variant="flat"
+              onPress={loadCatalog}
+            >
+              Recarregar
+            </Button>
+            <Button
+              color="primary"
+              isLoading={isSaving}
+              startContent={!isSaving && <FiSave />}
+              onPress={handleSave}
+            >
+              Salvar
+            </Button>
+          </div>
+        </header>
+
+        {errors.length > 0 && (
+          <Card className="border border-danger/40">
+            <CardBody className="space-y-1">
+              {errors.map(error => (
+                <p key={error.field} className="text-sm text-danger">
+                  <span className="font-mono">{error.field}</span>:{' '}
+                  {error.message}
+                </p>
+              ))}
+            </CardBody>
+          </Card>
+        )}
+
+        {/* Plataformas */}
+        <Card className="liquid-glass">
+          <CardHeader className="flex items-center gap-2">
+            <FiLayers className="text-xl text-primary" />
+            <h2 className="text-lg font-semibold text-foreground">
+              Plataformas
+            </h2>
+            <Chip size="sm" variant="flat">
+              {draft.platforms.filter(platform => platform.isActive).length}{' '}
+              ativa(s)
+            </Chip>
+          </CardHeader>
+
+          <CardBody className="space-y-3">
+            <p className="text-xs text-foreground/60">
+              Red, yellow e green identificam a prioridade no Trello; prefira
+              outras cores para as plataformas.
+            </p>
+            {draft.platforms.map((platform, platformIndex) => {
+              const platformPath = `platforms[${platformIndex}]`;
+
+              return (
+                <div
+                  key={platformIndex}
+                  className="grid grid-cols-2 md:grid-cols-12 gap-2 items-center p-2 bg-content2 rounded-lg"
+                >
+                  <Input
+                    className="md:col-span-2"
+                    errorMessage={getFieldError(`${platformPath}.name`)}
+                    isInvalid={!!getFieldError(`${platformPath}.name`)}
+                    label="Nome"
+                    size="sm"
+                    value={platform.name}
+                    onValueChange={value =>
+                      updatePlatform(platformIndex, { name: value })
+                    }
+                  />
+                  <Input
+                    className="md:col-span-2"
+                    label="Label no Trello"
+                    placeholder={platform.name}
+                    size="sm"
+                    value={platform.trelloLabel || ''}
+                    onValueChange={value =>
+                      updatePlatform(platformIndex, {
+                        trelloLabel: value || undefined,
+                      })
+                    }
+                  />
+                  <Input
+                    className="md:col-span-3"
+                    label="Palavras-chave"
+                    placeholder="n8n, automação"
+                    size="sm"
+                    value={toKeywordsValue(platform.keywords)}
+                    onValueChange={value =>
+                      updatePlatform(platformIndex, {
+                        keywords: fromKeywordsValue(value),
+                      })
+                    }
+                  />
+                  <Select
+                    className="md:col-span-2"
+                    errorMessage={getFieldError(`${platformPath}.color`)}
+                    isInvalid={!!getFieldError(`${platformPath}.color`)}
+                    label="Cor"
+                    selectedKeys={[platform.color]}
+                    size="sm"
+                    onSelectionChange={keys => {
+                      const color = Array.from(keys)[0];
+
+                      if (color) {
+                        updatePlatform(platformIndex, {
+                          color: String(color),
+                        });
+                      }
+                    }}
+                  >
+                    {TRELLO_LABEL_COLORS.map(color => (
+                      <SelectItem
+                        key={color}
+                        startContent={
+                          <span
+                            className={`w-3 h-3 rounded ${PLATFORM_BADGE_CLASSES[color]}`}
+                          />
+                        }
+                      >
+                        {color}
+                      </SelectItem>
+                    ))}
+                  </Select>
+                  <Input
+                    label="Ordem"
+                    size="sm"
+                    type="number"
+                    value={String(platform.displayOrder)}
+                    onValueChange={value =>
+                      updatePlatform(platformIndex, {
+                        displayOrder: Number(value) || 0,
+                      })
+                    }
+                  />
+                  <div className="flex flex-col gap-1">
+                    <Switch
+                      isSelected={platform.isActive}
+                      size="sm"
+                      onValueChange={value =>
+                        updatePlatform(platformIndex, { isActive: value })
+                      }
+                    >
+                      Ativa
+                    </Switch>
+                    <Switch
+                      isSelected={platform.isDefault}
+                      size="sm"
+                      onValueChange={value =>
+                        updatePlatform(platformIndex, { isDefault: value })
+                      }
+                    >
+                      Padrão
+                    </Switch>
+                  </div>
+                  <Button
+                    isIconOnly
+                    aria-label="Remover plataforma"
+                    color="danger"
+                    size="sm"
+                    variant="light"
+                    onPress={() => removePlatform(platformIndex)}
+                  >
+                    <FiTrash2 />
+                  </Button>
+                </div>
+              );
+            })}
+
+            <Button
+              size="sm"
+              startContent={<FiPlus />}
+              variant="flat"
+              onPress={addPlatform}
+            >
+              Adicionar plataforma
+            </Button>
+          </CardBody>
+        </Card>
+
+        {/* Membros */}
+        <Card className="liquid-glass">
+          <CardHeader className="flex items-center gap-2">
+            <FiUsers className="text-xl text-primary" />
+            <h2 className="text-lg font-semibold text-foreground">
+              Membros do time
+            </h2>
+            <Chip size="sm" variant="flat">
+              {draft.members.filter(member => member.isActive).length} ativo(s)
+            </Chip>
+          </CardHeader>
+
+          <CardBody className="space-y-3">
+            {draft.members.map((member, memberIndex) => {
+              const memberPath = `members[${memberIndex}]`;
+
+              return (
+                <div
+                  key={memberIndex}
+                  className="grid grid-cols-2 md:grid-cols-12 gap-2 items-center p-2 bg-content2 rounded-lg"
+                >
+                  <Input
+                    className="md:col-span-2"
+                    errorMessage={getFieldError(`${memberPath}.name`)}
+                    isInvalid={!!getFieldError(`${memberPath}.name`)}
+                    label="Nome"
+                    size="sm"
+                    value={member.name}
+                    onValueChange={value =>
+                      updateMember(memberIndex, { name: value })
+                    }
+                  />
+                  <Input
+                    className="md:col-span-2"
+                    label="E-mail"
+                    size="sm"
+                    type="email"
+                    value={member.email || ''}
+                    onValueChange={value =>
+                      updateMember(memberIndex, { email: value || undefined })
+                    }
+                  />
+                  <Input
+                    className="md:col-span-2"
+                    label="Trello (ID do membro)"
+                    size="sm"
+                    value={member.trelloMemberId || ''}
+                    onValueChange={value =>
+                      updateMember(memberIndex, {
+                        trelloMemberId: value || undefined,
+                      })
+                    }
+                  />
+                  <Input
+                    label="Username"
+                    size="sm"
+                    value={member.trelloUsername || ''}
+                    onValueChange={value =>
+                      updateMember(memberIndex, {
+                        trelloUsername: value || undefined,
+                      })
+                    }
+                  />
+                  <Input
+                    className="md:col-span-2"
+                    errorMessage={getFieldError(`${memberPath}.hubspotOwnerId`)}
+                    isInvalid={!!getFieldError(`${memberPath}.hubspotOwnerId`)}
+                    label="Owner ID (HubSpot)"
+                    size="sm"
+                    value={member.hubspotOwnerId || ''}
+                    onValueChange={value =>
+                      updateMember(memberIndex, {
+                        hubspotOwnerId: value || undefined,
+                      })
+                    }
+                  />
+                  <Input
+                    label="Palavras-chave"
+                    size="sm"
+                    value={toKeywordsValue(member.keywords)}
+                    onValueChange={value =>
+                      updateMember(memberIndex, {
+                        keywords: fromKeywordsValue(value),
+                      })
+                    }
+                  />
+                  <div className="flex flex-col gap-1">
+                    <Switch
+                      isSelected={member.isActive}
+                      size="sm"
+                      onValueChange={value =>
+                        updateMember(memberIndex, { isActive: value })
+                      }
+                    >
+                      Ativo
+                    </Switch>
+                    <Switch
+                      isSelected={member.isDefault}
+                      size="sm"
+                      onValueChange={value =>
+                        updateMember(memberIndex, { isDefault: value })
+                      }
+                    >
+                      Padrão
+                    </Switch>
+                  </div>
+                  <Button
+                    isIconOnly
+                    aria-label="Remover membro"
+                    color="danger"
+                    size="sm"
+                    variant="light"
+                    onPress={() => removeMember(memberIndex)}
+                  >
+                    <FiTrash2 />
+                  </Button>
+                </div>
+              );
+            })}
+
+            <Button
+              size="sm"
+              startContent={<FiPlus />}
+              variant="flat"
+              onPress={addMember}
+            >
+              Adicionar membro
+            </Button>
+          </CardBody>
+        </Card>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,706 @@
+/**
+ * Admin Settings Page - Configurações do Sistema de Tickets
+ * Gerencia pipelines, estágios e técnicos usados pelo Kanban e pela sincronização
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+'use client';
+
+import type {
+  PipelineSetting,
+  StageSetting,
+  TechnicianSetting,
+  TicketSystemSettings,
+} from '@/types/settings';
+import type { ValidationError } from '@/lib/validations/ticket-schemas';
+
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Button } from '@heroui/button';
+import { Card, CardBody, CardHeader } from '@heroui/card';
+import { Chip } from '@heroui/chip';
+import { Input } from '@heroui/input';
+import { Select, SelectItem } from '@heroui/select';
+import { Spinner } from '@heroui/spinner';
+import { Switch } from '@heroui/switch';
+import {
+  FiPlus,
+  FiRefreshCw,
+  FiSave,
+  FiSettings,
+  FiTrash2,
+  FiUsers,
+} from 'react-icons/fi';
+import { Toaster, toast } from 'react-hot-toast';
+
+import { useTicketStore } from '@/lib/stores/ticket-store';
+import { STAGE_ROLES, STAGE_ROLE_LABELS } from '@/types/settings';
+
+// Classes de cor disponíveis para as colunas do Kanban
+const STAGE_COLOR_OPTIONS = [
+  'bg-blue-500',
+  'bg-red-600',
+  'bg-orange-500',
+  'bg-yellow-500',
+  'bg-green-500',
+  'bg-emerald-600',
+  'bg-purple-500',
+  'bg-gray-400',
+  'bg-gray-500',
+  'bg-slate-500',
+];
+
+// Cores do tema HeroUI para os avatares dos técnicos
+const TECHNICIAN_COLOR_OPTIONS = [
+  'primary',
+  'secondary',
+  'success',
+  'warning',
+  'danger',
+  'default',
+];
+
+const pageVariants = {
+  initial: { opacity: 0 },
+  animate: {
+    opacity: 1,
+    transition: { duration: 0.4, ease: 'easeOut' },
+  },
+};
+
+export default function AdminSettingsPage() {
+  const { setSettings } = useTicketStore();
+
+  const [draft, setDraft] = useState<TicketSystemSettings | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [errors, setErrors] = useState<ValidationError[]>([]);
+
+  // Carregar configurações atuais do servidor
+  const loadSettings = async () => {
+    setIsLoading(true);
+
+    try {
+      const response = await fetch('/api/settings/tickets');
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Falha ao carregar configurações');
+      }
+
+      setDraft(data.data);
+      setErrors([]);
+    } catch (error) {
+      console.error('❌ Erro ao carregar configurações:', error);
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : 'Erro ao carregar configurações'
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    setIsSaving(true);
+    setErrors([]);
+
+    try {
+      const response = await fetch('/api/settings/tickets', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(draft),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        if (Array.isArray(data.details)) {
+          setErrors(data.details);
+        }
+
+        throw new Error(
+          typeof data.details === 'string'
+            ? data.details
+            : data.error || 'Falha ao salvar configurações'
+        );
+      }
+
+      setDraft(data.data);
+      setSettings(data.data);
+      toast.success('✅ Configurações salvas!');
+    } catch (error) {
+      console.error('❌ Erro ao salvar configurações:', error);
+      toast.error(
+        error instanceof Error ? error.message : 'Erro ao salvar configurações'
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Atualizadores imutáveis do rascunho
+  const updatePipeline = (
+    pipelineIndex: number,
+    updates: Partial<PipelineSetting>
+  ) => {
+    setDraft(current =>
+      current
+        ? {
+            ...current,
+            pipelines: current.pipelines.map((pipeline, index) =>
+              index === pipelineIndex ? { ...pipeline, ...updates } : pipeline
+            ),
+          }
+        : current
+    );
+  };
+
+  const updateStage = (
+    pipelineIndex: number,
+    stageIndex: number,
+    updates: Partial<StageSetting>
+  ) => {
+    const pipeline = draft?.pipelines[pipelineIndex];
+
+    if (!pipeline) return;
+
+    updatePipeline(pipelineIndex, {
+      stages: pipeline.stages.map((stage, index) =>
+        index === stageIndex ? { ...stage, ...updates } : stage
+      ),
+    });
+  };
+
+  const updateTechnician = (
+    technicianIndex: number,
+    updates: Partial<TechnicianSetting>
+  ) => {
+    setDraft(current =>
+      current
+        ? {
+            ...current,
+            technicians: current.technicians.map((technician, index) =>
+              index === technicianIndex
+                ? { ...technician, ...updates }
+                : technician
+            ),
+          }
+        : current
+    );
+  };
+
+  const addPipeline = () => {
+    setDraft(current =>
+      current
+        ? {
+            ...current,
+            pipelines: [
+              ...current.pipelines,
+              { id: '', label: '', isActive: true, stages: [] },
+            ],
+          }
+        : current
+    );
+  };
+
+  const removePipeline = (pipelineIndex: number) => {
+    setDraft(current =>
+      current
+        ? {
+            ...current,
+            pipelines: current.pipelines.filter(
+              (_, index) => index !== pipelineIndex
+            ),
+          }
+        : current
+    );
+  };
+
+  const addStage = (pipelineIndex: number) => {
+    const pipeline = draft?.pipelines[pipelineIndex];
+
+    if (!pipeline) return;
+
+    updatePipeline(pipelineIndex, {
+      stages: [
+        ...pipeline.stages,
+        {
+          id: '',
+          pipelineId: pipeline.id,
+          label: '',
+          color: 'bg-gray-500',
+          displayOrder: pipeline.stages.length + 1,
+          isVisible: true,
+          isClosed: false,
+          excludeFromSync: false,
+        },
+      ],
+    });
+  };
+
+  const removeStage = (pipelineIndex: number, stageIndex: number) => {
+    const pipeline = draft?.pipelines[pipelineIndex];
+
+    if (!pipeline) return;
+
+    updatePipeline(pipelineIndex, {
+      stages: pipeline.stages.filter((_, index) => index !== stageIndex),
+    });
+  };
+
+  const addTechnician = () => {
+    setDraft(current =>
+      current
+        ? {
+            ...current,
+            technicians: [
+              ...current.technicians,
+              {
+                id: '',
+                name: '',
+                role: 'Analista N2',
+                color: 'primary',
+                avatar: '',
+                displayOrder: current.technicians.length + 1,
+                isActive: true,
+              },
+            ],
+          }
+        : current
+    );
+  };
+
+  const removeTechnician = (technicianIndex: number) => {
+    setDraft(current =>
+      current
+        ? {
+            ...current,
+            technicians: current.technicians.filter(
+              (_, index) => index !== technicianIndex
+            ),
+          }
+        : current
+    );
+  };
+
+  // Erro de validação de um campo específico (ex: pipelines[0].stages[1].id)
+  const getFieldError = (field: string) =>
+    errors.find(error => error.field === field)?.message;
+
+  if (isLoading || !draft) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Spinner color="primary" size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <motion.div
+      animate="animate"
+      className="min-h-screen p-4 md:p-6 lg:p-8"
+      initial="initial"
+      variants={pageVariants}
+    >
+      <Toaster position="top-right" />
+      <div className="max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <header className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <div className="space-y-1">
+            <h1 className="text-3xl md:text-4xl font-bold text-foreground">
+              ⚙️ Configurações de Tickets
+            </h1>
+            <p className="text-foreground/70">
+              Pipelines, estágios e técnicos usados pelo Kanban e pela
+              sincronização com o HubSpot
+            </p>
+            {draft.updatedAt && (
+              <p className="text-xs text-foreground/50">
+                Última alteração:{' '}
+                {new Date(draft.updatedAt).toLocaleString('pt-BR')}
+              </p>
+            )}
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Button
+              isDisabled={isSaving}
+              startContent={<FiRefreshCw />}
+              variant="flat"
+              onPress={loadSettings}
+            >
+              Recarregar
+            </Button>
+            <Button
+              color="primary"
+              isLoading={isSaving}
+              startContent={!isSaving && <FiSave />}
+              onPress={handleSave}
+            >
+              Salvar
+            </Button>
+          </div>
+        </header>
+
+        {errors.length > 0 && (
+          <Card className="border border-danger/40">
+            <CardBody className="space-y-1">
+              {errors.map(error => (
+                <p key={error.field} className="text-sm text-danger">
+                  <span className="font-mono">{error.field}</span>:{' '}
+                  {error.message}
+                </p>
+              ))}
+            </CardBody>
+          </Card>
+        )}
+
+        {/* Pipelines e estágios */}
+        {draft.pipelines.map((pipeline, pipelineIndex) => {
+          const pipelinePath = `pipelines[${pipelineIndex}]`;
+
+          return (
+            <Card key={pipelineIndex} className="liquid-glass">
+              <CardHeader className="flex flex-col md:flex-row gap-3 md:items-end">
+                <FiSettings className="text-xl text-primary hidden md:block mb-3" />
+                <Input
+                  className="md:max-w-[200px]"
+                  errorMessage={getFieldError(`${pipelinePath}.id`)}
+                  isInvalid={!!getFieldError(`${pipelinePath}.id`)}
+                  label="ID da Pipeline (HubSpot)"
+                  size="sm"
+                  value={pipeline.id}
+                  onValueChange={value =>
+                    updatePipeline(pipelineIndex, {
+                      id: value,
+                      stages: pipeline.stages.map(stage => ({
+                        ...stage,
+                        pipelineId: value,
+                      })),
+                    })
+                  }
+                />
+                <Input
+                  errorMessage={getFieldError(`${pipelinePath}.label`)}
+                  isInvalid={!!getFieldError(`${pipelinePath}.label`)}
+                  label="Nome"
+                  size="sm"
+                  value={pipeline.label}
+                  onValueChange={value =>
+                    updatePipeline(pipelineIndex, { label: value })
+                  }
+                />
+                <Switch
+                  isSelected={pipeline.isActive}
+                  size="sm"
+                  onValueChange={value =>
+                    updatePipeline(pipelineIndex, { isActive: value })
+                  }
+                >
+                  Ativa
+                </Switch>
+                <Button
+                  isIconOnly
+                  aria-label="Remover pipeline"
+                  color="danger"
+                  size="sm"
+                  variant="light"
+                  onPress={() => removePipeline(pipelineIndex)}
+                >
+                  <FiTrash2 />
+                </Button>
+              </CardHeader>
+
+              <CardBody className="space-y-3">
+                {pipeline.stages.map((stage, stageIndex) => {
+                  const stagePath = `${pipelinePath}.stages[${stageIndex}]`;
+
+                  return (
+                    <div
+                      key={stageIndex}
+                      className="grid grid-cols-2 md:grid-cols-12 gap-2 items-center p-2 bg-content2 rounded-lg"
+                    >
+                      <div
+                        className={`hidden md:block w-3 h-10 rounded ${stage.color}`}
+                      />
+                      <Input
+                        className="md:col-span-2"
+                        errorMessage={getFieldError(`${stagePath}.id`)}
+                        isInvalid={!!getFieldError(`${stagePath}.id`)}
+                        label="ID do Estágio"
+                        size="sm"
+                        value={stage.id}
+                        onValueChange={value =>
+                          updateStage(pipelineIndex, stageIndex, { id: value })
+                        }
+                      />
+                      <Input
+                        className="md:col-span-2"
+                        errorMessage={getFieldError(`${stagePath}.label`)}
+                        isInvalid={!!getFieldError(`${stagePath}.label`)}
+                        label="Nome"
+                        size="sm"
+                        value={stage.label}
+                        onValueChange={value =>
+                          updateStage(pipelineIndex, stageIndex, {
+                            label: value,
+                          })
+                        }
+                      />
+                      <Select
+                        className="md:col-span-2"
+                        label="Cor"
+                        selectedKeys={[stage.color]}
+                        size="sm"
+                        onSelectionChange={keys => {
+                          const color = Array.from(keys)[0];
+
+                          if (color) {
+                            updateStage(pipelineIndex, stageIndex, {
+                              color: String(color),
+                            });
+                          }
+                        }}
+                      >
+                        {STAGE_COLOR_OPTIONS.map(color => (
+                          <SelectItem
+                            key={color}
+                            startContent={
+                              <span className={`w-3 h-3 rounded ${color}`} />
+                            }
+                          >
+                            {color}
+                          </SelectItem>
+                        ))}
+                      </Select>
+                      <Input
+                        label="Ordem"
+                        size="sm"
+                        type="number"
+                        value={String(stage.displayOrder)}
+                        onValueChange={value =>
+                          updateStage(pipelineIndex, stageIndex, {
+                            displayOrder: Number(value) || 0,
+                          })
+                        }
+                      />
+                      <div className="md:col-span-3 flex flex-wrap gap-3">
+                        <Switch
+                          isSelected={stage.isVisible}
+                          size="sm"
+                          onValueChange={value =>
+                            updateStage(pipelineIndex, stageIndex, {
+                              isVisible: value,
+                            })
+                          }
+                        >
+                          Visível
+                        </Switch>
+                        <Switch
+                          isSelected={stage.isClosed}
+                          size="sm"
+                          onValueChange={value =>
+                            updateStage(pipelineIndex, stageIndex, {
+                              isClosed: value,
+                            })
+                          }
+                        >
+                          Fechado
+                        </Switch>
+                        <Switch
+                          isSelected={stage.excludeFromSync}
+                          size="sm"
+                          onValueChange={value =>
+                            updateStage(pipelineIndex, stageIndex, {
+                              excludeFromSync: value,
+                            })
+                          }
+                        >
+                          Fora da sync
+                        </Switch>
+                        <Select
+                          aria-label="Papel do estágio"
+                          className="w-48"
+                          placeholder="Sem papel"
+                          selectedKeys={stage.role ? [stage.role] : []}
+                          size="sm"
+                          onSelectionChange={keys => {
+                            const selected = Array.from(keys)[0];
+
+                            updateStage(pipelineIndex, stageIndex, {
+                              role: STAGE_ROLES.find(role => role === selected),
+                            });
+                          }}
+                        >
+                          {STAGE_ROLES.map(role => (
+                            <SelectItem key={role}>
+                              {STAGE_ROLE_LABELS[role]}
+                            </SelectItem>
+                          ))}
+                        </Select>
+                      </div>
+                      <Button
+                        isIconOnly
+                        aria-label="Remover estágio"
+                        color="danger"
+                        size="sm"
+                        variant="light"
+                        onPress={() => removeStage(pipelineIndex, stageIndex)}
+                      >
+                        <FiTrash2 />
+                      </Button>
+                    </div>
+                  );
+                })}
+
+                <Button
+                  size="sm"
+                  startContent={<FiPlus />}
+                  variant="flat"
+                  onPress={() => addStage(pipelineIndex)}
+                >
+                  Adicionar estágio
+                </Button>
+              </CardBody>
+            </Card>
+          );
+        })}
+
+        <Button
+          startContent={<FiPlus />}
+          variant="bordered"
+          onPress={addPipeline}
+        >
+          Adicionar pipeline
+        </Button>
+
+        {/* Técnicos */}
+        <Card className="liquid-glass">
+          <CardHeader className="flex items-center gap-2">
+            <FiUsers className="text-xl text-primary" />
+            <h2 className="text-lg font-semibold text-foreground">Técnicos</h2>
+            <Chip size="sm" variant="flat">
+              {
+                draft.technicians.filter(technician => technician.isActive)
+                  .length
+              }{' '}
+              ativo(s)
+            </Chip>
+          </CardHeader>
+
+          <CardBody className="space-y-3">
+            {draft.technicians.map((technician, technicianIndex) => {
+              const technicianPath = `technicians[${technicianIndex}]`;
+
+              return (
+                <div
+                  key={technicianIndex}
+                  className="grid grid-cols-2 md:grid-cols-12 gap-2 items-center p-2 bg-content2 rounded-lg"
+                >
+                  <Input
+                    className="md:col-span-2"
+                    errorMessage={getFieldError(`${technicianPath}.id`)}
+                    isInvalid={!!getFieldError(`${technicianPath}.id`)}
+                    label="Owner ID (HubSpot)"
+                    size="sm"
+                    value={technician.id}
+                    onValueChange={value =>
+                      updateTechnician(technicianIndex, { id: value })
+                    }
+                  />
+                  <Input
+                    className="md:col-span-3"
+                    errorMessage={getFieldError(`${technicianPath}.name`)}
+                    isInvalid={!!getFieldError(`${technicianPath}.name`)}
+                    label="Nome"
+                    size="sm"
+                    value={technician.name}
+                    onValueChange={value =>
+                      updateTechnician(technicianIndex, { name: value })
+                    }
+                  />
+                  <Input
+                    className="md:col-span-2"
+                    label="Função"
+                    size="sm"
+                    value={technician.role}
+                    onValueChange={value =>
+                      updateTechnician(technicianIndex, { role: value })
+                    }
+                  />
+                  <Select
+                    className="md:col-span-2"
+                    label="Cor"
+                    selectedKeys={[technician.color]}
+                    size="sm"
+                    onSelectionChange={keys => {
+                      const color = Array.from(keys)[0];
+
+                      if (color) {
+                        updateTechnician(technicianIndex, {
+                          color: String(color),
+                        });
+                      }
+                    }}
+                  >
+                    {TECHNICIAN_COLOR_OPTIONS.map(color => (
+                      <SelectItem key={color}>{color}</SelectItem>
+                    ))}
+                  </Select>
+                  <Input
+                    label="Ordem"
+                    size="sm"
+                    type="number"
+                    value={String(technician.displayOrder)}
+                    onValueChange={value =>
+                      updateTechnician(technicianIndex, {
+                        displayOrder: Number(value) || 0,
+                      })
+                    }
+                  />
+                  <Switch
+                    isSelected={technician.isActive}
+                    size="sm"
+                    onValueChange={value =>
+                      updateTechnician(technicianIndex, { isActive: value })
+                    }
+                  >
+                    Ativo
+                  </Switch>
+                  <Button
+                    isIconOnly
+                    aria-label="Remover técnico"
+                    color="danger"
+                    size="sm"
+                    variant="light"
+                    onPress={() => removeTechnician(technicianIndex)}
+                  >
+                    <FiTrash2 />
+                  </Button>
+                </div>
+              );
+            })}
+
+            <Button
+              size="sm"
+              startContent={<FiPlus />}
+              variant="flat"
+              onPress={addTechnician}
+            >
+              Adicionar técnico
+            </Button>
+          </CardBody>
+        </Card>
+      </div>
+    </motion.div>
+  );
+}
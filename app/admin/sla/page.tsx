@@ -0,0 +1,543 @@
+/**
+ * Admin SLA Page - Política de SLA dos Tickets
+ * Metas de primeira resposta e resolução por prioridade e por estágio,
+ * horário comercial e estágios em que o relógio fica pausado
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+'use client';
+
+import type { SlaPolicy, SlaTarget } from '@/types/sla';
+import type { TicketPriority } from '@/types/ticket';
+import type { ValidationError } from '@/lib/validations/ticket-schemas';
+
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Button } from '@heroui/button';
+import { Card, CardBody, CardHeader } from '@heroui/card';
+import { Chip } from '@heroui/chip';
+import { Input } from '@heroui/input';
+import { Spinner } from '@heroui/spinner';
+import { Switch } from '@heroui/switch';
+import { FiClock, FiFlag, FiLayers, FiRefreshCw, FiSave } from 'react-icons/fi';
+import { Toaster, toast } from 'react-hot-toast';
+
+import { useTicketStore } from '@/lib/stores/ticket-store';
+import { getActiveStages } from '@/lib/config/ticket-settings';
+import { VALID_PRIORITIES } from '@/lib/validations/ticket-schemas';
+import { TICKET_PRIORITY_LABELS } from '@/types/ticket';
+
+const pageVariants = {
+  initial: { opacity: 0 },
+  animate: {
+    opacity: 1,
+    transition: { duration: 0.4, ease: 'easeOut' },
+  },
+};
+
+const WEEK_DAYS = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+
+// Listas editadas como texto separado por vírgulas
+const toListValue = (values: string[]) => values.join(',');
+const fromListValue = (value: string) => value.split(',');
+
+export default function AdminSlaPage() {
+  const { settings, fetchSettings, fetchSlaPolicy } = useTicketStore();
+
+  const [draft, setDraft] = useState<SlaPolicy | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [errors, setErrors] = useState<ValidationError[]>([]);
+
+  // Estágios fechados encerram o relógio (definidos em Configurações)
+  const stages = getActiveStages(settings).filter(stage => !stage.isClosed);
+
+  // Carregar política atual do servidor
+  const loadPolicy = async () => {
+    setIsLoading(true);
+
+    try {
+      const response = await fetch('/api/settings/sla');
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Falha ao carregar política de SLA');
+      }
+
+      setDraft(data.data);
+      setErrors([]);
+    } catch (error) {
+      console.error('❌ Erro ao carregar política de SLA:', error);
+      toast.error(
+        error instanceof Error ? error.message : 'Erro ao carregar política'
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSettings();
+    loadPolicy();
+  }, []);
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    setIsSaving(true);
+    setErrors([]);
+
+    try {
+      const response = await fetch('/api/settings/sla', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(draft),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        if (Array.isArray(data.details)) {
+          setErrors(data.details);
+        }
+
+        throw new Error(
+          typeof data.details === 'string'
+            ? data.details
+            : data.error || 'Falha ao salvar política de SLA'
+        );
+      }
+
+      setDraft(data.data);
+      fetchSlaPolicy();
+      toast.success('✅ Política de SLA salva!');
+    } catch (error) {
+      console.error('❌ Erro ao salvar política de SLA:', error);
+      toast.error(
+        error instanceof Error ? error.message : 'Erro ao salvar política'
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Atualizadores imutáveis do rascunho
+  const updatePriorityTarget = (
+    priority: TicketPriority,
+    updates: Partial<SlaTarget>
+  ) => {
+    setDraft(current =>
+      current
+        ? {
+            ...current,
+            priorityTargets: {
+              ...current.priorityTargets,
+              [priority]: { ...current.priorityTargets[priority], ...updates },
+            },
+          }
+        : current
+    );
+  };
+
+  // Sem meta própria, o estágio usa a meta da prioridade do ticket
+  const toggleStageTarget = (stageId: string, enabled: boolean) => {
+    setDraft(current => {
+      if (!current) return current;
+
+      const stageTargets = { ...current.stageTargets };
+
+      if (enabled) {
+        stageTargets[stageId] = current.priorityTargets.MEDIUM;
+      } else {
+        delete stageTargets[stageId];
+      }
+
+      return { ...current, stageTargets };
+    });
+  };
+
+  const updateStageTarget = (stageId: string, updates: Partial<SlaTarget>) => {
+    setDraft(current =>
+      current && current.stageTargets[stageId]
+        ? {
+            ...current,
+            stageTargets: {
+              ...current.stageTargets,
+              [stageId]: { ...current.stageTargets[stageId], ...updates },
+            },
+          }
+        : current
+    );
+  };
+
+  const togglePauseStage = (stageId: string, paused: boolean) => {
+    setDraft(current =>
+      current
+        ? {
+            ...current,
+            pauseStageIds: paused
+              ? [...current.pauseStageIds, stageId]
+              : current.pauseStageIds.filter(id => id !== stageId),
+          }
+        : current
+    );
+  };
+
+  const toggleWorkingDay = (day: number) => {
+    setDraft(current => {
+      if (!current) return current;
+
+      const { workingDays } = current.businessHours;
+
+      return {
+        ...current,
+        businessHours: {
+          ...current.businessHours,
+          workingDays: workingDays.includes(day)
+            ? workingDays.filter(item => item !== day)
+            : [...workingDays, day].sort(),
+        },
+      };
+    });
+  };
+
+  // Erro de validação de um campo específico (ex: priorityTargets.HIGH.resolutionHours)
+  const getFieldError = (field: string) =>
+    errors.find(error => error.field === field)?.message;
+
+  // Campos de meta (horas) compartilhados por prioridade e estágio
+  const renderTargetFields = (
+    target: SlaTarget,
+    path: string,
+    onChange: (updates: Partial<SlaTarget>) => void
+  ) => (
+    <>
+      <Input
+        className="md:col-span-3"
+        errorMessage={getFieldError(`${path}.firstResponseHours`)}
+        isInvalid={!!getFieldError(`${path}.firstResponseHours`)}
+        label="1ª resposta (h)"
+        min={0}
+        size="sm"
+        step={0.5}
+        type="number"
+        value={String(target.firstResponseHours)}
+        onValueChange={value =>
+          onChange({ firstResponseHours: Number(value) || 0 })
+        }
+      />
+      <Input
+        className="md:col-span-3"
+        errorMessage={getFieldError(`${path}.resolutionHours`)}
+        isInvalid={!!getFieldError(`${path}.resolutionHours`)}
+        label="Resolução (h)"
+        min={0}
+        size="sm"
+        step={0.5}
+        type="number"
+        value={String(target.resolutionHours)}
+        onValueChange={value =>
+          onChange({ resolutionHours: Number(value) || 0 })
+        }
+      />
+      <Switch
+        className="md:col-span-3"
+        isSelected={target.useBusinessHours}
+        size="sm"
+        onValueChange={value => onChange({ useBusinessHours: value })}
+      >
+        Horário comercial
+      </Switch>
+    </>
+  );
+
+  if (isLoading || !draft) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Spinner color="primary" size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <motion.div
+      animate="animate"
+      className="min-h-screen p-4 md:p-6 lg:p-8"
+      initial="initial"
+      variants={pageVariants}
+    >
+      <Toaster position="top-right" />
+      <div className="max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <header className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <div className="space-y-1">
+            <h1 className="text-3xl md:text-4xl font-bold text-foreground">
+              ⏱️ Política de SLA
+            </h1>
+            <p className="text-foreground/70">
+              Metas usadas pelos cards, filtros e estatísticas de tickets.
+              Estágios fechados (Configurações) encerram o relógio
+            </p>
+            {draft.updatedAt && (
+              <p className="text-xs text-foreground/50">
+                Última alteração:{' '}
+                {new Date(draft.updatedAt).toLocaleString('pt-BR')}
+              </p>
+            )}
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Button
+              isDisabled={isSaving}
+              startContent={<FiRefreshCw />}
+              variant="flat"
+              onPress={loadPolicy}
+            >
+              Recarregar
+            </Button>
+            <Button
+              color="primary"
+              isLoading={isSaving}
+              startContent={!isSaving && <FiSave />}
+              onPress={handleSave}
+            >
+              Salvar
+            </Button>
+          </div>
+        </header>
+
+        {errors.length > 0 && (
+          <Card className="border border-danger/40">
+            <CardBody className="space-y-1">
+              {errors.map(error => (
+                <p key={error.field} className="text-sm text-danger">
+                  <span className="font-mono">{error.field}</span>:{' '}
+                  {error.message}
+                </p>
+              ))}
+            </CardBody>
+          </Card>
+        )}
+
+        {/* Horário comercial */}
+        <Card className="liquid-glass">
+          <CardHeader className="flex items-center gap-2">
+            <FiClock className="text-xl text-primary" />
+            <h2 className="text-lg font-semibold text-foreground">
+              Horário comercial
+            </h2>
+          </CardHeader>
+
+          <CardBody className="space-y-3">
+            <div className="grid grid-cols-2 md:grid-cols-12 gap-2 items-center">
+              <Input
+                className="col-span-2 md:col-span-4"
+                label="Nome da política"
+                size="sm"
+                value={draft.name}
+                onValueChange={value => setDraft({ ...draft, name: value })}
+              />
+              <Input
+                className="md:col-span-2"
+                label="Início"
+                max={23}
+                min={0}
+                size="sm"
+                type="number"
+                value={String(draft.businessHours.startHour)}
+                onValueChange={value =>
+                  setDraft({
+                    ...draft,
+                    businessHours: {
+                      ...draft.businessHours,
+                      startHour: Number(value) || 0,
+                    },
+                  })
+                }
+              />
+              <Input
+                className="md:col-span-2"
+                errorMessage={getFieldError('businessHours.endHour')}
+                isInvalid={!!getFieldError('businessHours.endHour')}
+                label="Fim"
+                max={24}
+                min={1}
+                size="sm"
+                type="number"
+                value={String(draft.businessHours.endHour)}
+                onValueChange={value =>
+                  setDraft({
+                    ...draft,
+                    businessHours: {
+                      ...draft.businessHours,
+                      endHour: Number(value) || 0,
+                    },
+                  })
+                }
+              />
+              <Input
+                className="col-span-2 md:col-span-4"
+                description="Fração consumida da meta para marcar o ticket em risco"
+                errorMessage={getFieldError('atRiskThreshold')}
+                isInvalid={!!getFieldError('atRiskThreshold')}
+                label="Em risco a partir de (%)"
+                max={99}
+                min={1}
+                size="sm"
+                type="number"
+                value={String(Math.round(draft.atRiskThreshold * 100))}
+                onValueChange={value =>
+                  setDraft({
+                    ...draft,
+                    atRiskThreshold: (Number(value) || 0) / 100,
+                  })
+                }
+              />
+            </div>
+
+            <div className="flex flex-wrap items-center gap-1">
+              {WEEK_DAYS.map((label, day) => {
+                const isWorkingDay =
+                  draft.businessHours.workingDays.includes(day);
+
+                return (
+                  <Chip
+                    key={label}
+                    as="button"
+                    color={isWorkingDay ? 'primary' : 'default'}
+                    size="sm"
+                    variant={isWorkingDay ? 'solid' : 'flat'}
+                    onClick={() => toggleWorkingDay(day)}
+                  >
+                    {label}
+                  </Chip>
+                );
+              })}
+            </div>
+
+            <Input
+              description="Datas no formato AAAA-MM-DD, separadas por vírgula"
+              errorMessage={getFieldError('businessHours.holidays')}
+              isInvalid={!!getFieldError('businessHours.holidays')}
+              label="Feriados"
+              placeholder="2026-12-25, 2027-01-01"
+              size="sm"
+              value={toListValue(draft.businessHours.holidays)}
+              onValueChange={value =>
+                setDraft({
+                  ...draft,
+                  businessHours: {
+                    ...draft.businessHours,
+                    holidays: fromListValue(value),
+                  },
+                })
+              }
+            />
+          </CardBody>
+        </Card>
+
+        {/* Metas por prioridade */}
+        <Card className="liquid-glass">
+          <CardHeader className="flex items-center gap-2">
+            <FiFlag className="text-xl text-primary" />
+            <h2 className="text-lg font-semibold text-foreground">
+              Metas por prioridade
+            </h2>
+          </CardHeader>
+
+          <CardBody className="space-y-2">
+            {VALID_PRIORITIES.map(priority => (
+              <div
+                key={priority}
+                className="grid grid-cols-2 md:grid-cols-12 gap-2 items-center p-3 bg-content2 rounded-lg"
+              >
+                <span className="col-span-2 md:col-span-3 font-medium text-foreground">
+                  {TICKET_PRIORITY_LABELS[priority]}
+                </span>
+                {renderTargetFields(
+                  draft.priorityTargets[priority],
+                  `priorityTargets.${priority}`,
+                  updates => updatePriorityTarget(priority, updates)
+                )}
+              </div>
+            ))}
+          </CardBody>
+        </Card>
+
+        {/* Metas e pausas por estágio */}
+        <Card className="liquid-glass">
+          <CardHeader className="flex items-center gap-2">
+            <FiLayers className="text-xl text-primary" />
+            <h2 className="text-lg font-semibold text-foreground">Estágios</h2>
+            <Chip size="sm" variant="flat">
+              {Object.keys(draft.stageTargets).length} com meta própria
+            </Chip>
+          </CardHeader>
+
+          <CardBody className="space-y-2">
+            <p className="text-xs text-foreground/60">
+              A meta do estágio tem precedência sobre a da prioridade. Em
+              estágios de pausa (ex: aguardando cliente) o relógio não avança; o
+              tempo já passado neles é descontado pelo histórico do ticket.
+              Estágios com o papel &quot;Aguardando cliente&quot; em
+              Configurações também pausam o relógio.
+            </p>
+
+            {stages.length === 0 && (
+              <p className="text-sm text-foreground/50">
+                Nenhum estágio aberto nas pipelines ativas
+              </p>
+            )}
+
+            {stages.map(stage => {
+              const target = draft.stageTargets[stage.id];
+
+              return (
+                <div
+                  key={stage.id}
+                  className="space-y-2 p-3 bg-content2 rounded-lg"
+                >
+                  <div className="flex flex-wrap items-center gap-3">
+                    <span className="font-medium text-foreground">
+                      {stage.label}
+                    </span>
+                    <span className="font-mono text-xs text-foreground/50">
+                      {stage.id}
+                    </span>
+                    <Switch
+                      isSelected={!!target}
+                      size="sm"
+                      onValueChange={value =>
+                        toggleStageTarget(stage.id, value)
+                      }
+                    >
+                      Meta própria
+                    </Switch>
+                    <Switch
+                      isSelected={draft.pauseStageIds.includes(stage.id)}
+                      size="sm"
+                      onValueChange={value => togglePauseStage(stage.id, value)}
+                    >
+                      Pausa o relógio
+                    </Switch>
+                  </div>
+
+                  {target && (
+                    <div className="grid grid-cols-2 md:grid-cols-12 gap-2 items-center">
+                      {renderTargetFields(
+                        target,
+                        `stageTargets.${stage.id}`,
+                        updates => updateStageTarget(stage.id, updates)
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </CardBody>
+        </Card>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,691 @@
+/**
+ * Admin Triage Page - Regras de Triagem Automática
+ * Gerencia as regras aplicadas aos tickets que chegam na Triagem N2 e simula
+ * o resultado nos tickets parados no estágio
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+'use client';
+
+import type { TicketPriority } from '@/types/ticket';
+import type {
+  TriageActions,
+  TriageConditions,
+  TriageRule,
+  TriageRuleSet,
+  TriageRunSummary,
+} from '@/types/triage';
+import type { ValidationError } from '@/lib/validations/ticket-schemas';
+
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Button } from '@heroui/button';
+import { Card, CardBody, CardHeader } from '@heroui/card';
+import { Chip } from '@heroui/chip';
+import { Input } from '@heroui/input';
+import { Select, SelectItem } from '@heroui/select';
+import { Spinner } from '@heroui/spinner';
+import { Switch } from '@heroui/switch';
+import {
+  FiPlay,
+  FiPlus,
+  FiRefreshCw,
+  FiSave,
+  FiTrash2,
+  FiZap,
+} from 'react-icons/fi';
+import { Toaster, toast } from 'react-hot-toast';
+
+import { useTicketStore } from '@/lib/stores/ticket-store';
+import {
+  getActiveStages,
+  getActiveTechnicians,
+  getStageIdByRole,
+  getStageSettingsMap,
+  getTechnicianSettingsMap,
+} from '@/lib/config/ticket-settings';
+import { TRIAGE_CHANGE_LABELS } from '@/types/triage';
+import { TICKET_PRIORITY_LABELS } from '@/types/ticket';
+
+const pageVariants = {
+  initial: { opacity: 0 },
+  animate: {
+    opacity: 1,
+    transition: { duration: 0.4, ease: 'easeOut' },
+  },
+};
+
+// Listas editadas como texto separado por vírgulas
+const toListValue = (values: string[]) => values.join(',');
+const fromListValue = (value: string) => value.split(',');
+
+const CONDITION_FIELDS: Array<{
+  key: keyof TriageConditions;
+  label: string;
+  placeholder: string;
+}> = [
+  {
+    key: 'keywords',
+    label: 'Palavras-chave (assunto ou descrição)',
+    placeholder: 'evento, credenciamento',
+  },
+  { key: 'categories', label: 'Categorias', placeholder: 'PRODUCT_ISSUE' },
+  { key: 'sourceTypes', label: 'Origens', placeholder: 'EMAIL, CHAT' },
+  { key: 'tags', label: 'Tags', placeholder: 'vip' },
+];
+
+export default function AdminTriagePage() {
+  const { settings, fetchSettings } = useTicketStore();
+
+  const [draft, setDraft] = useState<TriageRuleSet | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [errors, setErrors] = useState<ValidationError[]>([]);
+  const [run, setRun] = useState<
+    (TriageRunSummary & { dryRun: boolean }) | null
+  >(null);
+
+  const stages = getActiveStages(settings);
+  const technicians = getActiveTechnicians(settings);
+  const stageMap = getStageSettingsMap(settings);
+  const technicianMap = getTechnicianSettingsMap(settings);
+  const triageStageId = getStageIdByRole(settings, 'triage');
+  const triageStageLabel =
+    (triageStageId && stageMap[triageStageId]?.label) || 'Triagem N2';
+
+  // Carregar regras atuais do servidor
+  const loadRules = async () => {
+    setIsLoading(true);
+
+    try {
+      const response = await fetch('/api/settings/triage');
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Falha ao carregar regras');
+      }
+
+      setDraft(data.data);
+      setErrors([]);
+    } catch (error) {
+      console.error('❌ Erro ao carregar regras de triagem:', error);
+      toast.error(
+        error instanceof Error ? error.message : 'Erro ao carregar regras'
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSettings();
+    loadRules();
+  }, []);
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    setIsSaving(true);
+    setErrors([]);
+
+    try {
+      const response = await fetch('/api/settings/triage', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(draft),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        if (Array.isArray(data.details)) {
+          setErrors(data.details);
+        }
+
+        throw new Error(
+          typeof data.details === 'string'
+            ? data.details
+            : data.error || 'Falha ao salvar regras'
+        );
+      }
+
+      setDraft(data.data);
+      toast.success('✅ Regras de triagem salvas!');
+    } catch (error) {
+      console.error('❌ Erro ao salvar regras de triagem:', error);
+      toast.error(
+        error instanceof Error ? error.message : 'Erro ao salvar regras'
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Simulação não grava nada; execução aplica as regras ativas fora de simulação
+  const handleRun = async (dryRun: boolean) => {
+    setIsRunning(true);
+
+    try {
+      const response = await fetch('/api/settings/triage/run', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ dryRun }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.details || data.error || 'Falha na triagem');
+      }
+
+      setRun({ ...data.data, dryRun });
+      toast.success(data.message);
+    } catch (error) {
+      console.error('❌ Erro ao executar triagem:', error);
+      toast.error(
+        error instanceof Error ? error.message : 'Erro ao executar triagem'
+      );
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  // Atualizadores imutáveis do rascunho
+  const updateRule = (ruleIndex: number, updates: Partial<TriageRule>) => {
+    setDraft(current =>
+      current
+        ? {
+            ...current,
+            rules: current.rules.map((rule, index) =>
+              index === ruleIndex ? { ...rule, ...updates } : rule
+            ),
+          }
+        : current
+    );
+  };
+
+  const updateConditions = (
+    ruleIndex: number,
+    updates: Partial<TriageConditions>
+  ) => {
+    const rule = draft?.rules[ruleIndex];
+
+    if (rule) {
+      updateRule(ruleIndex, { conditions: { ...rule.conditions, ...updates } });
+    }
+  };
+
+  const updateActions = (
+    ruleIndex: number,
+    updates: Partial<TriageActions>
+  ) => {
+    const rule = draft?.rules[ruleIndex];
+
+    if (rule) {
+      updateRule(ruleIndex, { actions: { ...rule.actions, ...updates } });
+    }
+  };
+
+  const addRule = () => {
+    setDraft(current =>
+      current
+        ? {
+            ...current,
+            rules: [
+              ...current.rules,
+              {
+                id: '',
+                name: '',
+                conditions: {
+                  keywords: [],
+                  categories: [],
+                  sourceTypes: [],
+                  tags: [],
+                },
+                actions: { addTags: [] },
+                isActive: true,
+                dryRun: true,
+                displayOrder: current.rules.length + 1,
+              },
+            ],
+          }
+        : current
+    );
+  };
+
+  const removeRule = (ruleIndex: number) => {
+    setDraft(current =>
+      current
+        ? {
+            ...current,
+            rules: current.rules.filter((_, index) => index !== ruleIndex),
+          }
+        : current
+    );
+  };
+
+  // Erro de validação de um campo específico (ex: rules[0].actions)
+  const getFieldError = (field: string) =>
+    errors.find(error => error.field === field)?.message;
+
+  // Seleção única: clicar de novo no item selecionado volta para "Não alterar"
+  const selectedKey = (keys: Iterable<unknown>): string | undefined => {
+    const key = Array.from(keys)[0];
+
+    return key ? String(key) : undefined;
+  };
+
+  const formatChangeValue = (field: string, value?: string | string[]) => {
+    if (Array.isArray(value)) return value.join(', ') || '—';
+    if (!value) return '—';
+    if (field === 'pipelineStageId') return stageMap[value]?.label || value;
+    if (field === 'hubspotOwnerId') return technicianMap[value]?.name || value;
+    if (field === 'priority') {
+      return TICKET_PRIORITY_LABELS[value as TicketPriority] || value;
+    }
+
+    return value;
+  };
+
+  if (isLoading || !draft) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Spinner color="primary" size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <motion.div
+      animate="animate"
+      className="min-h-screen p-4 md:p-6 lg:p-8"
+      initial="initial"
+      variants={pageVariants}
+    >
+      <Toaster position="top-right" />
+      <div className="max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <header className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <div className="space-y-1">
+            <h1 className="text-3xl md:text-4xl font-bold text-foreground">
+              🧭 Triagem Automática
+            </h1>
+            <p className="text-foreground/70">
+              Regras aplicadas aos tickets que chegam em {triageStageLabel}; a
+              primeira regra compatível (pela ordem) define estágio, prioridade,
+              técnico e tags no HubSpot
+            </p>
+            {!triageStageId && (
+              <p className="text-xs text-warning">
+                Nenhum estágio com o papel &quot;Triagem automática&quot; em
+                Configurações: as regras não serão aplicadas
+              </p>
+            )}
+            {draft.updatedAt && (
+              <p className="text-xs text-foreground/50">
+                Última alteração:{' '}
+                {new Date(draft.updatedAt).toLocaleString('pt-BR')}
+              </p>
+            )}
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Button
+              isDisabled={isSaving}
+              startContent={<FiRefreshCw />}
+              variant="flat"
+              onPress={loadRules}
+            >
+              Recarregar
+            </Button>
+            <Button
+              color="primary"
+              isLoading={isSaving}
+              startContent={!isSaving && <FiSave />}
+              onPress={handleSave}
+            >
+              Salvar
+            </Button>
+          </div>
+        </header>
+
+        {errors.length > 0 && (
+          <Card className="border border-danger/40">
+            <CardBody className="space-y-1">
+              {errors.map(error => (
+                <p key={error.field} className="text-sm text-danger">
+                  <span className="font-mono">{error.field}</span>:{' '}
+                  {error.message}
+                </p>
+              ))}
+            </CardBody>
+          </Card>
+        )}
+
+        {/* Regras */}
+        <Card className="liquid-glass">
+          <CardHeader className="flex items-center gap-2">
+            <FiZap className="text-xl text-primary" />
+            <h2 className="text-lg font-semibold text-foreground">Regras</h2>
+            <Chip size="sm" variant="flat">
+              {draft.rules.filter(rule => rule.isActive).length} ativa(s)
+            </Chip>
+          </CardHeader>
+
+          <CardBody className="space-y-3">
+            <p className="text-xs text-foreground/60">
+              Em cada grupo basta um dos valores (separados por vírgula); todos
+              os grupos preenchidos precisam ser atendidos. Regras em simulação
+              apenas registram no ticket o que fariam.
+            </p>
+
+            {draft.rules.length === 0 && (
+              <p className="text-sm text-foreground/50">
+                Nenhuma regra cadastrada
+              </p>
+            )}
+
+            {draft.rules.map((rule, ruleIndex) => {
+              const rulePath = `rules[${ruleIndex}]`;
+
+              return (
+                <div
+                  key={rule.id || `new-${ruleIndex}`}
+                  className="space-y-2 p-3 bg-content2 rounded-lg"
+                >
+                  <div className="grid grid-cols-2 md:grid-cols-12 gap-2 items-center">
+                    <Input
+                      className="md:col-span-3"
+                      errorMessage={getFieldError(`${rulePath}.name`)}
+                      isInvalid={!!getFieldError(`${rulePath}.name`)}
+                      label="Nome"
+                      size="sm"
+                      value={rule.name}
+                      onValueChange={value =>
+                        updateRule(ruleIndex, { name: value })
+                      }
+                    />
+                    <Input
+                      className="md:col-span-5"
+                      label="Descrição"
+                      size="sm"
+                      value={rule.description || ''}
+                      onValueChange={value =>
+                        updateRule(ruleIndex, {
+                          description: value || undefined,
+                        })
+                      }
+                    />
+                    <Input
+                      label="Ordem"
+                      size="sm"
+                      type="number"
+                      value={String(rule.displayOrder)}
+                      onValueChange={value =>
+                        updateRule(ruleIndex, {
+                          displayOrder: Number(value) || 0,
+                        })
+                      }
+                    />
+                    <div className="flex flex-col gap-1 md:col-span-2">
+                      <Switch
+                        isSelected={rule.isActive}
+                        size="sm"
+                        onValueChange={value =>
+                          updateRule(ruleIndex, { isActive: value })
+                        }
+                      >
+                        Ativa
+                      </Switch>
+                      <Switch
+                        color="warning"
+                        isSelected={rule.dryRun}
+                        size="sm"
+                        onValueChange={value =>
+                          updateRule(ruleIndex, { dryRun: value })
+                        }
+                      >
+                        Simulação
+                      </Switch>
+                    </div>
+                    <Button
+                      isIconOnly
+                      aria-label="Remover regra"
+                      color="danger"
+                      size="sm"
+                      variant="light"
+                      onPress={() => removeRule(ruleIndex)}
+                    >
+                      <FiTrash2 />
+                    </Button>
+                  </div>
+
+                  <p className="text-xs font-semibold text-foreground/60">
+                    Condições
+                  </p>
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+                    {CONDITION_FIELDS.map(field => (
+                      <Input
+                        key={field.key}
+                        errorMessage={
+                          field.key === 'keywords'
+                            ? getFieldError(`${rulePath}.conditions`)
+                            : undefined
+                        }
+                        isInvalid={!!getFieldError(`${rulePath}.conditions`)}
+                        label={field.label}
+                        placeholder={field.placeholder}
+                        size="sm"
+                        value={toListValue(rule.conditions[field.key])}
+                        onValueChange={value =>
+                          updateConditions(ruleIndex, {
+                            [field.key]: fromListValue(value),
+                          })
+                        }
+                      />
+                    ))}
+                  </div>
+
+                  <p className="text-xs font-semibold text-foreground/60">
+                    Ações
+                  </p>
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+                    <Select
+                      errorMessage={getFieldError(`${rulePath}.actions`)}
+                      isInvalid={!!getFieldError(`${rulePath}.actions`)}
+                      label="Mover para"
+                      placeholder="Não alterar"
+                      selectedKeys={
+                        rule.actions.pipelineStageId
+                          ? [rule.actions.pipelineStageId]
+                          : []
+                      }
+                      size="sm"
+                      onSelectionChange={keys =>
+                        updateActions(ruleIndex, {
+                          pipelineStageId: selectedKey(keys),
+                        })
+                      }
+                    >
+                      {stages
+                        .filter(stage => stage.id !== triageStageId)
+                        .map(stage => (
+                          <SelectItem key={stage.id}>{stage.label}</SelectItem>
+                        ))}
+                    </Select>
+                    <Select
+                      label="Prioridade"
+                      placeholder="Não alterar"
+                      selectedKeys={
+                        rule.actions.priority ? [rule.actions.priority] : []
+                      }
+                      size="sm"
+                      onSelectionChange={keys =>
+                        updateActions(ruleIndex, {
+                          priority: selectedKey(keys) as
+                            | TicketPriority
+                            | undefined,
+                        })
+                      }
+                    >
+                      {Object.entries(TICKET_PRIORITY_LABELS).map(
+                        ([key, label]) => (
+                          <SelectItem key={key}>{label}</SelectItem>
+                        )
+                      )}
+                    </Select>
+                    <Select
+                      label="Técnico"
+                      placeholder="Não alterar"
+                      selectedKeys={
+                        rule.actions.hubspotOwnerId
+                          ? [rule.actions.hubspotOwnerId]
+                          : []
+                      }
+                      size="sm"
+                      onSelectionChange={keys =>
+                        updateActions(ruleIndex, {
+                          hubspotOwnerId: selectedKey(keys),
+                        })
+                      }
+                    >
+                      {technicians.map(technician => (
+                        <SelectItem key={technician.id}>
+                          {technician.name}
+                        </SelectItem>
+                      ))}
+                    </Select>
+                    <Input
+                      label="Adicionar tags"
+                      size="sm"
+                      value={toListValue(rule.actions.addTags)}
+                      onValueChange={value =>
+                        updateActions(ruleIndex, {
+                          addTags: fromListValue(value),
+                        })
+                      }
+                    />
+                  </div>
+                </div>
+              );
+            })}
+
+            <Button
+              size="sm"
+              startContent={<FiPlus />}
+              variant="flat"
+              onPress={addRule}
+            >
+              Adicionar regra
+            </Button>
+          </CardBody>
+        </Card>
+
+        {/* Simulação e execução manual */}
+        <Card className="liquid-glass">
+          <CardHeader className="flex flex-col md:flex-row md:items-center gap-3">
+            <div className="flex-1">
+              <h2 className="text-lg font-semibold text-foreground">
+                Testar nos tickets da triagem
+              </h2>
+              <p className="text-xs text-foreground/60">
+                Usa as regras salvas. A simulação não altera nada; a execução
+                aplica as regras ativas fora de simulação no HubSpot
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                isDisabled={isRunning}
+                isLoading={isRunning}
+                startContent={!isRunning && <FiPlay />}
+                variant="flat"
+                onPress={() => handleRun(true)}
+              >
+                Simular
+              </Button>
+              <Button
+                color="warning"
+                isDisabled={isRunning}
+                startContent={<FiZap />}
+                variant="flat"
+                onPress={() => handleRun(false)}
+              >
+                Executar agora
+              </Button>
+            </div>
+          </CardHeader>
+
+          {run && (
+            <CardBody className="space-y-3">
+              <div className="flex flex-wrap gap-2">
+                <Chip size="sm" variant="flat">
+                  {run.evaluated} avaliado(s)
+                </Chip>
+                <Chip color="primary" size="sm" variant="flat">
+                  {run.matched} com regra
+                </Chip>
+                {!run.dryRun && (
+                  <Chip color="success" size="sm" variant="flat">
+                    {run.applied} aplicado(s)
+                  </Chip>
+                )}
+                {run.errors > 0 && (
+                  <Chip color="danger" size="sm" variant="flat">
+                    {run.errors} erro(s)
+                  </Chip>
+                )}
+              </div>
+
+              {run.items.length === 0 && (
+                <p className="text-sm text-foreground/50">
+                  Nenhum ticket pendente de triagem
+                </p>
+              )}
+
+              {run.items.map(item => (
+                <div
+                  key={item.hubspotId}
+                  className="p-2 bg-content2 rounded-lg text-sm space-y-1"
+                >
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-mono text-xs text-primary-600">
+                      #{item.hubspotId}
+                    </span>
+                    <span className="flex-1 truncate">{item.subject}</span>
+                    {item.result ? (
+                      <Chip
+                        color={item.result.error ? 'danger' : 'primary'}
+                        size="sm"
+                        variant="flat"
+                      >
+                        {item.result.ruleName}
+                      </Chip>
+                    ) : (
+                      <span className="text-xs text-foreground/50">
+                        Nenhuma regra compatível
+                      </span>
+                    )}
+                  </div>
+                  {item.result && (
+                    <p className="text-xs text-foreground/60">
+                      {item.result.reasons.join(' • ')}
+                      {item.result.changes.map(change => (
+                        <span key={change.field}>
+                          {' '}
+                          • {TRIAGE_CHANGE_LABELS[change.field]}:{' '}
+                          {formatChangeValue(change.field, change.to)}
+                        </span>
+                      ))}
+                      {item.result.error && ` • ${item.result.error}`}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </CardBody>
+          )}
+        </Card>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,238 @@
+/**
+ * Admin Users Page - Papéis e vínculos de usuários
+ * Define o papel de cada usuário e seu vínculo com um owner do HubSpot
+ * ("meus tickets") e com um membro do time ("meus projetos")
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+'use client';
+
+import type { UserProfile, UserProfileUpdate, UserRole } from '@/types/auth';
+
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Button } from '@heroui/button';
+import { Card, CardBody } from '@heroui/card';
+import { Chip } from '@heroui/chip';
+import { Select, SelectItem } from '@heroui/select';
+import { Spinner } from '@heroui/spinner';
+import { FiRefreshCw, FiUsers } from 'react-icons/fi';
+import { Toaster, toast } from 'react-hot-toast';
+
+import { getUsers, updateUser } from '@/lib/api/client-auth';
+import { getActiveMembers } from '@/lib/config/project-catalog';
+import { useProjectCatalog } from '@/lib/stores/catalog-store';
+import { USER_ROLES, USER_ROLE_COLORS, USER_ROLE_LABELS } from '@/types/auth';
+
+// Opção "Sem vínculo" remove o vínculo
+const UNLINKED = 'none';
+
+interface OwnerOption {
+  id: string;
+  name: string;
+}
+
+const pageVariants = {
+  initial: { opacity: 0 },
+  animate: {
+    opacity: 1,
+    transition: { duration: 0.4, ease: 'easeOut' },
+  },
+};
+
+export default function AdminUsersPage() {
+  const [users, setUsers] = useState<UserProfile[]>([]);
+  const [owners, setOwners] = useState<OwnerOption[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const teamMembers = getActiveMembers(useProjectCatalog()).map(
+    member => member.name
+  );
+
+  // Carregar usuários e owners disponíveis
+  const loadUsers = async () => {
+    setIsLoading(true);
+
+    try {
+      const [profiles, ownersResponse] = await Promise.all([
+        getUsers(),
+        fetch('/api/hubspot/owners').then(response => response.json()),
+      ]);
+
+      setUsers(profiles);
+      setOwners(
+        ownersResponse.success
+          ? ownersResponse.data.map(
+              (owner: { id: string; fullName: string }) => ({
+                id: owner.id,
+                name: owner.fullName,
+              })
+            )
+          : []
+      );
+    } catch (error) {
+      console.error('❌ Erro ao carregar usuários:', error);
+      toast.error(
+        error instanceof Error ? error.message : 'Erro ao carregar usuários'
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  const handleUpdate = async (userId: string, update: UserProfileUpdate) => {
+    setSavingId(userId);
+
+    try {
+      const profile = await updateUser(userId, update);
+
+      setUsers(current =>
+        current.map(user => (user.id === userId ? profile : user))
+      );
+      toast.success('✅ Usuário atualizado');
+    } catch (error) {
+      console.error('❌ Erro ao atualizar usuário:', error);
+      toast.error(
+        error instanceof Error ? error.message : 'Erro ao atualizar usuário'
+      );
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <motion.div
+      animate="animate"
+      className="min-h-screen p-4 md:p-6 lg:p-8"
+      initial="initial"
+      variants={pageVariants}
+    >
+      <Toaster position="top-right" />
+      <div className="max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <header className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <div className="space-y-1">
+            <h1 className="text-3xl md:text-4xl font-bold text-foreground">
+              👤 Usuários
+            </h1>
+            <p className="text-foreground/70">
+              Papéis de acesso e vínculos com o HubSpot e o time de projetos
+            </p>
+          </div>
+
+          <Button
+            isDisabled={isLoading}
+            startContent={<FiRefreshCw />}
+            variant="flat"
+            onPress={loadUsers}
+          >
+            Recarregar
+          </Button>
+        </header>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Spinner label="Carregando usuários..." />
+          </div>
+        ) : users.length === 0 ? (
+          <Card className="liquid-glass">
+            <CardBody className="flex flex-col items-center gap-2 py-12 text-foreground/60">
+              <FiUsers className="text-3xl" />
+              <p>Nenhum usuário fez login ainda</p>
+            </CardBody>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {users.map(user => (
+              <Card key={user.id} className="liquid-glass">
+                <CardBody className="grid grid-cols-1 md:grid-cols-4 gap-4 items-center">
+                  <div className="space-y-1">
+                    <p className="font-semibold">{user.name || user.email}</p>
+                    <p className="text-xs text-foreground/60">{user.email}</p>
+                    <Chip
+                      color={USER_ROLE_COLORS[user.role]}
+                      size="sm"
+                      variant="flat"
+                    >
+                      {USER_ROLE_LABELS[user.role]}
+                    </Chip>
+                  </div>
+
+                  <Select
+                    isDisabled={savingId === user.id}
+                    label="Papel"
+                    selectedKeys={[user.role]}
+                    size="sm"
+                    onSelectionChange={keys => {
+                      const role = Array.from(keys)[0] as UserRole;
+
+                      if (role && role !== user.role) {
+                        handleUpdate(user.id, { role });
+                      }
+                    }}
+                  >
+                    {USER_ROLES.map(role => (
+                      <SelectItem key={role}>
+                        {USER_ROLE_LABELS[role]}
+                      </SelectItem>
+                    ))}
+                  </Select>
+
+                  <Select
+                    isDisabled={savingId === user.id}
+                    label="Owner no HubSpot"
+                    selectedKeys={[user.hubspotOwnerId || UNLINKED]}
+                    size="sm"
+                    onSelectionChange={keys => {
+                      const key = Array.from(keys)[0] as string;
+
+                      if (key && key !== (user.hubspotOwnerId || UNLINKED)) {
+                        handleUpdate(user.id, {
+                          hubspotOwnerId: key === UNLINKED ? null : key,
+                        });
+                      }
+                    }}
+                  >
+                    {[{ id: UNLINKED, name: 'Sem vínculo' }, ...owners].map(
+                      owner => (
+                        <SelectItem key={owner.id}>{owner.name}</SelectItem>
+                      )
+                    )}
+                  </Select>
+
+                  <Select
+                    isDisabled={savingId === user.id}
+                    label="Membro do time"
+                    selectedKeys={[user.teamMember || UNLINKED]}
+                    size="sm"
+                    onSelectionChange={keys => {
+                      const key = Array.from(keys)[0] as string;
+
+                      if (key && key !== (user.teamMember || UNLINKED)) {
+                        handleUpdate(user.id, {
+                          teamMember: key === UNLINKED ? null : key,
+                        });
+                      }
+                    }}
+                  >
+                    {[UNLINKED, ...teamMembers].map(member => (
+                      <SelectItem key={member}>
+                        {member === UNLINKED ? 'Sem vínculo' : member}
+                      </SelectItem>
+                    ))}
+                  </Select>
+                </CardBody>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+}
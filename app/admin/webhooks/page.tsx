@@ -0,0 +1,454 @@
+/**
+ * Admin Webhooks Page - Fila de Eventos de Webhook
+ * Lista eventos com falha, permite replay e exibe estatísticas de processamento
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+'use client';
+
+import type { WebhookStats } from '@/lib/api/webhook-handler';
+import type {
+  WebhookEventStatus,
+  WebhookQueueEvent,
+  WebhookQueueStats,
+} from '@/types/webhook-queue';
+
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Button } from '@heroui/button';
+import { Card, CardBody, CardHeader } from '@heroui/card';
+import { Checkbox } from '@heroui/checkbox';
+import { Chip } from '@heroui/chip';
+import { Select, SelectItem } from '@heroui/select';
+import { Spinner } from '@heroui/spinner';
+import { FiActivity, FiInbox, FiRefreshCw, FiRotateCcw } from 'react-icons/fi';
+import { Toaster, toast } from 'react-hot-toast';
+
+import {
+  WEBHOOK_STATUS_COLORS,
+  WEBHOOK_STATUS_LABELS,
+} from '@/types/webhook-queue';
+
+// Filtros de status disponíveis no painel
+const STATUS_FILTERS: { key: string; label: string }[] = [
+  { key: 'FAILED,DEAD', label: 'Com falha (retry + dead-letter)' },
+  { key: 'DEAD', label: 'Dead-letter' },
+  { key: 'FAILED', label: 'Aguardando retry' },
+  { key: 'PENDING,PROCESSING', label: 'Pendentes' },
+  { key: 'SUCCEEDED', label: 'Processados' },
+  { key: '', label: 'Todos' },
+];
+
+const REPLAYABLE_STATUSES: WebhookEventStatus[] = ['FAILED', 'DEAD'];
+
+interface HandlerHealth {
+  status: 'healthy' | 'degraded' | 'unhealthy';
+  queueSize: number;
+  successRate: number;
+  averageProcessingTime: number;
+  lastProcessed: string;
+}
+
+const pageVariants = {
+  initial: { opacity: 0 },
+  animate: {
+    opacity: 1,
+    transition: { duration: 0.4, ease: 'easeOut' },
+  },
+};
+
+export default function AdminWebhooksPage() {
+  const [statusFilter, setStatusFilter] = useState('FAILED,DEAD');
+  const [events, setEvents] = useState<WebhookQueueEvent[]>([]);
+  const [total, setTotal] = useState(0);
+  const [queueStats, setQueueStats] = useState<WebhookQueueStats | null>(null);
+  const [handlerStats, setHandlerStats] = useState<WebhookStats | null>(null);
+  const [health, setHealth] = useState<HandlerHealth | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isReplaying, setIsReplaying] = useState(false);
+
+  // Carregar eventos e estatísticas do servidor
+  const loadEvents = async () => {
+    setIsLoading(true);
+
+    try {
+      const params = new URLSearchParams({ limit: '100' });
+
+      if (statusFilter) params.set('status', statusFilter);
+
+      const response = await fetch(`/api/webhooks/events?${params}`);
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Falha ao carregar eventos');
+      }
+
+      setEvents(data.data.events);
+      setTotal(data.data.total);
+      setQueueStats(data.data.queueStats);
+      setHandlerStats(data.data.handlerStats);
+      setHealth(data.data.health);
+      setSelectedIds(new Set());
+    } catch (error) {
+      console.error('❌ Erro ao carregar eventos de webhook:', error);
+      toast.error(
+        error instanceof Error ? error.message : 'Erro ao carregar eventos'
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadEvents();
+  }, [statusFilter]);
+
+  const replayableEvents = events.filter(event =>
+    REPLAYABLE_STATUSES.includes(event.status)
+  );
+
+  const toggleSelected = (id: string, isSelected: boolean) => {
+    setSelectedIds(current => {
+      const next = new Set(current);
+
+      if (isSelected) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+
+      return next;
+    });
+  };
+
+  const toggleAll = (isSelected: boolean) => {
+    setSelectedIds(
+      isSelected
+        ? new Set(replayableEvents.map(event => event.id))
+        : new Set<string>()
+    );
+  };
+
+  const handleReplay = async (ids: string[]) => {
+    if (ids.length === 0) return;
+
+    setIsReplaying(true);
+
+    try {
+      const response = await fetch('/api/webhooks/events/replay', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.details || data.error || 'Falha no replay');
+      }
+
+      if (data.data.failed + data.data.dead > 0) {
+        toast.error(`⚠️ ${data.message}`);
+      } else {
+        toast.success(`✅ ${data.message}`);
+      }
+
+      await loadEvents();
+    } catch (error) {
+      console.error('❌ Erro ao reprocessar eventos:', error);
+      toast.error(
+        error instanceof Error ? error.message : 'Erro ao reprocessar eventos'
+      );
+    } finally {
+      setIsReplaying(false);
+    }
+  };
+
+  const statCards = [
+    {
+      label: 'Pendentes',
+      value:
+        (queueStats?.byStatus.PENDING || 0) +
+        (queueStats?.byStatus.PROCESSING || 0),
+      color: 'text-foreground',
+    },
+    {
+      label: 'Aguardando retry',
+      value: queueStats?.byStatus.FAILED || 0,
+      color: 'text-warning',
+    },
+    {
+      label: 'Dead-letter',
+      value: queueStats?.byStatus.DEAD || 0,
+      color: 'text-danger',
+    },
+    {
+      label: 'Processados',
+      value: queueStats?.byStatus.SUCCEEDED || 0,
+      color: 'text-success',
+    },
+  ];
+
+  return (
+    <motion.div
+      animate="animate"
+      className="min-h-screen p-4 md:p-6 lg:p-8"
+      initial="initial"
+      variants={pageVariants}
+    >
+      <Toaster position="top-right" />
+      <div className="max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <header className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <div className="space-y-1">
+            <h1 className="text-3xl md:text-4xl font-bold text-foreground">
+              📨 Fila de Webhooks
+            </h1>
+            <p className="text-foreground/70">
+              Eventos do Trello e do HubSpot persistidos antes do processamento
+            </p>
+            {queueStats?.oldestPendingAt && (
+              <p className="text-xs text-foreground/50">
+                Pendente mais antigo:{' '}
+                {new Date(queueStats.oldestPendingAt).toLocaleString('pt-BR')}
+              </p>
+            )}
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Button
+              isDisabled={isLoading || isReplaying}
+              startContent={<FiRefreshCw />}
+              variant="flat"
+              onPress={loadEvents}
+            >
+              Recarregar
+            </Button>
+            <Button
+              color="primary"
+              isDisabled={selectedIds.size === 0}
+              isLoading={isReplaying}
+              startContent={!isReplaying && <FiRotateCcw />}
+              onPress={() => handleReplay(Array.from(selectedIds))}
+            >
+              Reprocessar ({selectedIds.size})
+            </Button>
+          </div>
+        </header>
+
+        {/* Estatísticas da fila */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {statCards.map(stat => (
+            <Card key={stat.label} className="liquid-glass">
+              <CardBody className="text-center">
+                <p className={`text-2xl font-bold ${stat.color}`}>
+                  {stat.value}
+                </p>
+                <p className="text-sm text-foreground/60">{stat.label}</p>
+              </CardBody>
+            </Card>
+          ))}
+        </div>
+
+        {/* Estatísticas do pipeline de eventos */}
+        {handlerStats && health && (
+          <Card className="liquid-glass">
+            <CardHeader className="flex items-center gap-2">
+              <FiActivity className="text-xl text-primary" />
+              <h2 className="text-lg font-semibold text-foreground">
+                Pipeline de eventos
+              </h2>
+              <Chip
+                color={
+                  health.status === 'healthy'
+                    ? 'success'
+                    : health.status === 'degraded'
+                      ? 'warning'
+                      : 'danger'
+                }
+                size="sm"
+                variant="flat"
+              >
+                {health.status}
+              </Chip>
+            </CardHeader>
+            <CardBody className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div>
+                <p className="text-foreground/60">Processados</p>
+                <p className="font-semibold">
+                  {handlerStats.successfulProcessed}/
+                  {handlerStats.totalProcessed}
+                </p>
+              </div>
+              <div>
+                <p className="text-foreground/60">Taxa de sucesso</p>
+                <p className="font-semibold">
+                  {health.successRate.toFixed(1)}%
+                </p>
+              </div>
+              <div>
+                <p className="text-foreground/60">Tempo médio</p>
+                <p className="font-semibold">
+                  {Math.round(handlerStats.averageProcessingTime)} ms
+                </p>
+              </div>
+              <div>
+                <p className="text-foreground/60">Último evento</p>
+                <p className="font-semibold">
+                  {new Date(handlerStats.lastProcessed).toLocaleString('pt-BR')}
+                </p>
+              </div>
+              {Object.keys(handlerStats.eventTypes).length > 0 && (
+                <div className="col-span-2 md:col-span-4 flex flex-wrap gap-2">
+                  {Object.entries(handlerStats.eventTypes).map(
+                    ([type, count]) => (
+                      <Chip key={type} size="sm" variant="flat">
+                        {type}: {count}
+                      </Chip>
+                    )
+                  )}
+                </div>
+              )}
+            </CardBody>
+          </Card>
+        )}
+
+        {/* Eventos */}
+        <Card className="liquid-glass">
+          <CardHeader className="flex flex-col md:flex-row gap-3 md:items-center md:justify-between">
+            <div className="flex items-center gap-2">
+              <FiInbox className="text-xl text-primary" />
+              <h2 className="text-lg font-semibold text-foreground">Eventos</h2>
+              <Chip size="sm" variant="flat">
+                {total}
+              </Chip>
+            </div>
+            <div className="flex items-center gap-3">
+              <Checkbox
+                isDisabled={replayableEvents.length === 0}
+                isSelected={
+                  replayableEvents.length > 0 &&
+                  selectedIds.size === replayableEvents.length
+                }
+                size="sm"
+                onValueChange={toggleAll}
+              >
+                Selecionar todos
+              </Checkbox>
+              <Select
+                aria-label="Filtrar por status"
+                className="md:w-[280px]"
+                selectedKeys={[statusFilter]}
+                size="sm"
+                onSelectionChange={keys => {
+                  const key = Array.from(keys)[0];
+
+                  setStatusFilter(key === undefined ? '' : String(key));
+                }}
+              >
+                {STATUS_FILTERS.map(filter => (
+                  <SelectItem key={filter.key}>{filter.label}</SelectItem>
+                ))}
+              </Select>
+            </div>
+          </CardHeader>
+
+          <CardBody className="space-y-2">
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Spinner color="primary" />
+              </div>
+            ) : events.length === 0 ? (
+              <p className="text-center text-foreground/60 py-8">
+                Nenhum evento encontrado
+              </p>
+            ) : (
+              events.map(event => {
+                const isReplayable = REPLAYABLE_STATUSES.includes(event.status);
+
+                return (
+                  <div
+                    key={event.id}
+                    className="p-3 bg-content2 rounded-lg space-y-2"
+                  >
+                    <div className="flex flex-wrap items-center gap-3">
+                      <Checkbox
+                        aria-label="Selecionar evento"
+                        isDisabled={!isReplayable}
+                        isSelected={selectedIds.has(event.id)}
+                        size="sm"
+                        onValueChange={value => toggleSelected(event.id, value)}
+                      />
+                      <Chip
+                        color={WEBHOOK_STATUS_COLORS[event.status]}
+                        size="sm"
+                        variant="flat"
+                      >
+                        {WEBHOOK_STATUS_LABELS[event.status]}
+                      </Chip>
+                      <Chip size="sm" variant="bordered">
+                        {event.source}
+                      </Chip>
+                      <span className="font-mono text-sm">
+                        {event.eventType || '—'}
+                      </span>
+                      <span className="text-xs text-foreground/60">
+                        {event.attempts}/{queueStats?.maxAttempts} tentativa(s)
+                      </span>
+                      <span className="text-xs text-foreground/60 ml-auto">
+                        {new Date(event.createdAt).toLocaleString('pt-BR')}
+                      </span>
+                      <Button
+                        size="sm"
+                        variant="light"
+                        onPress={() =>
+                          setExpandedId(
+                            expandedId === event.id ? null : event.id
+                          )
+                        }
+                      >
+                        Payload
+                      </Button>
+                      {isReplayable && (
+                        <Button
+                          isIconOnly
+                          aria-label="Reprocessar evento"
+                          isDisabled={isReplaying}
+                          size="sm"
+                          variant="flat"
+                          onPress={() => handleReplay([event.id])}
+                        >
+                          <FiRotateCcw />
+                        </Button>
+                      )}
+                    </div>
+
+                    {event.lastError && (
+                      <p className="text-sm text-danger font-mono break-all">
+                        {event.lastError}
+                      </p>
+                    )}
+                    {event.status === 'FAILED' && (
+                      <p className="text-xs text-foreground/50">
+                        Próxima tentativa:{' '}
+                        {new Date(event.nextAttemptAt).toLocaleString('pt-BR')}
+                      </p>
+                    )}
+                    {expandedId === event.id && (
+                      <pre className="text-xs bg-content3 p-2 rounded overflow-x-auto max-h-64">
+                        {JSON.stringify(event.payload, null, 2)}
+                      </pre>
+                    )}
+                  </div>
+                );
+              })
+            )}
+          </CardBody>
+        </Card>
+      </div>
+    </motion.div>
+  );
+}
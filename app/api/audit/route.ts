@@ -0,0 +1,95 @@
+/**
+ * API Route para o Log de Auditoria
+ * Busca mutações de projetos e tickets por entidade, autor e período
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { requireRole } from '@/lib/auth/guards';
+import {
+  auditLogService,
+  isAuditAction,
+  isAuditEntityType,
+} from '@/lib/services/audit-log';
+
+// GET /api/audit?entityType=ticket&entityId=...&actor=...&dateFrom=...&dateTo=...
+export async function GET(request: NextRequest) {
+  const denied = requireRole(request, 'admin');
+
+  if (denied) return denied;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const entityType = searchParams.get('entityType') || undefined;
+    const action = searchParams.get('action') || undefined;
+    const dateFrom = searchParams.get('dateFrom') || undefined;
+    const dateTo = searchParams.get('dateTo') || undefined;
+
+    if (entityType && !isAuditEntityType(entityType)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Dados inválidos',
+          details: 'entityType deve ser "project" ou "ticket"',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (action && !isAuditAction(action)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Dados inválidos',
+          details: 'action deve ser "create", "update" ou "delete"',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (
+      (dateFrom && isNaN(Date.parse(dateFrom))) ||
+      (dateTo && isNaN(Date.parse(dateTo)))
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Dados inválidos',
+          details: 'Datas devem estar no formato ISO (ex: 2025-01-31)',
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await auditLogService.search({
+      entityType: isAuditEntityType(entityType) ? entityType : undefined,
+      entityId: searchParams.get('entityId') || undefined,
+      action: isAuditAction(action) ? action : undefined,
+      actor: searchParams.get('actor') || undefined,
+      dateFrom,
+      dateTo,
+      limit: Math.min(Number(searchParams.get('limit')) || 50, 200),
+      offset: Number(searchParams.get('offset')) || 0,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: `${result.total} registro(s) de auditoria`,
+    });
+  } catch (error) {
+    console.error('❌ GET /api/audit error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Erro ao buscar auditoria',
+        details: error instanceof Error ? error.message : 'Erro desconhecido',
+      },
+      { status: 500 }
+    );
+  }
+}
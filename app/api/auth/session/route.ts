@@ -0,0 +1,107 @@
+/**
+ * API Route para Sessão de Usuário
+ * Login, usuário atual e logout via Supabase Auth (cookies httpOnly)
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getRequestUser } from '@/lib/auth/guards';
+import { clearSessionCookies, setSessionCookies } from '@/lib/auth/session';
+import { userProfileService } from '@/lib/services/user-profiles';
+
+// GET /api/auth/session - Usuário autenticado e seu perfil
+export async function GET(request: NextRequest) {
+  const user = getRequestUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Não autenticado',
+        details: 'Nenhuma sessão ativa',
+      },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const profile = await userProfileService.getProfile(user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: { user, profile },
+      message: 'Sessão ativa',
+    });
+  } catch (error) {
+    console.error('❌ GET /api/auth/session error:', error);
+
+    // Perfil indisponível não invalida a sessão
+    return NextResponse.json({
+      success: true,
+      data: { user, profile: null },
+      message: 'Sessão ativa (perfil indisponível)',
+    });
+  }
+}
+
+// POST /api/auth/session - Login { email, password }
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const email = typeof body?.email === 'string' ? body.email.trim() : '';
+    const password = typeof body?.password === 'string' ? body.password : '';
+
+    if (!email || !password) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Dados inválidos',
+          details: 'Informe "email" e "password"',
+        },
+        { status: 400 }
+      );
+    }
+
+    console.log(`🔐 POST /api/auth/session - Login de ${email}`);
+
+    const { session, profile } = await userProfileService.signIn(
+      email,
+      password
+    );
+    const response = NextResponse.json({
+      success: true,
+      data: { profile },
+      message: 'Login realizado',
+    });
+
+    setSessionCookies(response, session);
+
+    return response;
+  } catch (error) {
+    console.error('❌ POST /api/auth/session error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Falha no login',
+        details: error instanceof Error ? error.message : 'Erro desconhecido',
+      },
+      { status: 401 }
+    );
+  }
+}
+
+// DELETE /api/auth/session - Logout
+export async function DELETE() {
+  const response = NextResponse.json({
+    success: true,
+    message: 'Sessão encerrada',
+  });
+
+  clearSessionCookies(response);
+
+  return response;
+}
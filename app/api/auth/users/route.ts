@@ -0,0 +1,113 @@
+/**
+ * API Route para Gestão de Usuários
+ * Papéis e vínculos com owners do HubSpot e membros do time (admin)
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { requireRole } from '@/lib/auth/guards';
+import { findMember } from '@/lib/config/project-catalog';
+import { projectCatalogService } from '@/lib/services/project-catalog';
+import { userProfileService } from '@/lib/services/user-profiles';
+import { USER_ROLES, UserProfileUpdate } from '@/types/auth';
+
+// GET /api/auth/users - Listar perfis
+export async function GET(request: NextRequest) {
+  const denied = requireRole(request, 'admin');
+
+  if (denied) return denied;
+
+  try {
+    const users = await userProfileService.listProfiles();
+
+    return NextResponse.json({
+      success: true,
+      data: users,
+      message: `${users.length} usuário(s) encontrado(s)`,
+    });
+  } catch (error) {
+    console.error('❌ GET /api/auth/users error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Erro ao buscar usuários',
+        details: error instanceof Error ? error.message : 'Erro desconhecido',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/auth/users - Atualizar { userId, role?, hubspotOwnerId?, teamMember? }
+export async function PUT(request: NextRequest) {
+  const denied = requireRole(request, 'admin');
+
+  if (denied) return denied;
+
+  try {
+    const body = await request.json();
+    const userId = typeof body?.userId === 'string' ? body.userId : null;
+    const update: UserProfileUpdate = {};
+
+    if (body?.role !== undefined) update.role = body.role;
+    if (body?.hubspotOwnerId !== undefined) {
+      update.hubspotOwnerId = body.hubspotOwnerId;
+    }
+    if (body?.teamMember !== undefined) update.teamMember = body.teamMember;
+
+    const catalog = await projectCatalogService.getCatalog();
+
+    if (
+      !userId ||
+      (update.role !== undefined && !USER_ROLES.includes(update.role)) ||
+      (update.teamMember && !findMember(catalog, update.teamMember)) ||
+      (update.hubspotOwnerId && typeof update.hubspotOwnerId !== 'string')
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Dados inválidos',
+          details:
+            'Informe "userId" e um papel, owner ou membro do time válidos',
+        },
+        { status: 400 }
+      );
+    }
+
+    console.log(`👤 PUT /api/auth/users - ${userId}`, update);
+
+    const profile = await userProfileService.updateProfile(userId, update);
+
+    if (!profile) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Usuário não encontrado',
+          details: `Nenhum perfil com ID ${userId}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: profile,
+      message: 'Usuário atualizado',
+    });
+  } catch (error) {
+    console.error('❌ PUT /api/auth/users error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Erro ao atualizar usuário',
+        details: error instanceof Error ? error.message : 'Erro desconhecido',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,13 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+
+import { requireRole } from '@/lib/auth/guards';
+
+// Apenas presença/tamanho das variáveis: valores nunca são expostos
+export async function GET(request: NextRequest) {
+  const denied = requireRole(request, 'admin');
+
+  if (denied) return denied;
 
-export async function GET() {
   try {
     const envInfo = {
       DATABASE_URL: process.env.DATABASE_URL
@@ -9,6 +16,12 @@ export async function GET() {
       DIRECT_URL: process.env.DIRECT_URL
         ? 'SET (length: ' + process.env.DIRECT_URL.length + ')'
         : 'NOT SET',
+      TRELLO_API_KEY: process.env.TRELLO_API_KEY
+        ? 'SET (length: ' + process.env.TRELLO_API_KEY.length + ')'
+        : 'NOT SET',
+      TRELLO_API_TOKEN: process.env.TRELLO_API_TOKEN
+        ? 'SET (length: ' + process.env.TRELLO_API_TOKEN.length + ')'
+        : 'NOT SET',
       HUBSPOT_ACCESS_TOKEN: process.env.HUBSPOT_ACCESS_TOKEN
         ? 'SET (length: ' + process.env.HUBSPOT_ACCESS_TOKEN.length + ')'
         : 'NOT SET',
@@ -21,14 +34,6 @@ export async function GET() {
           ')'
         : 'NOT SET',
       NODE_ENV: process.env.NODE_ENV,
-      // Mostrar apenas os primeiros e últimos caracteres da DATABASE_URL para debug
-      DATABASE_URL_PREVIEW: process.env.DATABASE_URL
-        ? process.env.DATABASE_URL.substring(0, 30) +
-          '...' +
-          process.env.DATABASE_URL.substring(
-            process.env.DATABASE_URL.length - 30
-          )
-        : 'NOT SET',
     };
 
     return NextResponse.json({
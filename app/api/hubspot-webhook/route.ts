@@ -0,0 +1,126 @@
+/**
+ * API Route para Webhooks do HubSpot
+ * Recebe eventos de criação, alteração e exclusão de tickets
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type { Prisma } from '@prisma/client';
+import type { HubSpotWebhookEvent } from '@/types/hubspot-webhook';
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { hubspotWebhookService } from '@/lib/services/hubspot-webhook';
+import { webhookQueueService } from '@/lib/services/webhook-queue';
+
+// POST /api/hubspot-webhook - Receber lote de eventos de tickets
+export async function POST(request: NextRequest) {
+  try {
+    if (!hubspotWebhookService.isConfigured()) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Configuração incompleta',
+          details:
+            'HUBSPOT_CLIENT_SECRET não configurado. Não é possível validar a assinatura.',
+        },
+        { status: 503 }
+      );
+    }
+
+    // A assinatura é calculada sobre o corpo bruto
+    const rawBody = await request.text();
+
+    const verification = hubspotWebhookService.verifySignature({
+      method: request.method,
+      // URL pública registrada no app (pode diferir atrás de proxy)
+      uri: process.env.HUBSPOT_WEBHOOK_URL || request.url,
+      body: rawBody,
+      signature: request.headers.get('x-hubspot-signature-v3'),
+      timestamp: request.headers.get('x-hubspot-request-timestamp'),
+    });
+
+    if (!verification.valid) {
+      console.warn('⚠️ Webhook HubSpot rejeitado:', verification.reason);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Assinatura inválida',
+          details: verification.reason,
+        },
+        { status: 401 }
+      );
+    }
+
+    let events: HubSpotWebhookEvent[];
+    // Corpo de cada evento exatamente como recebido, para a fila
+    let payloads: Prisma.InputJsonValue[];
+
+    try {
+      const payload = JSON.parse(rawBody);
+      const items = Array.isArray(payload) ? payload : [payload];
+
+      events = items;
+      payloads = items;
+    } catch {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Payload inválido',
+          details: 'O corpo da requisição deve ser um array JSON de eventos',
+        },
+        { status: 400 }
+      );
+    }
+
+    console.log(`📨 POST /api/hubspot-webhook - ${events.length} evento(s)`);
+
+    // Persistir antes de processar: falhas ficam na fila para retry
+    const queued = await webhookQueueService.enqueue(
+      events.map((event, index) => ({
+        source: 'hubspot' as const,
+        externalId: String(event.eventId),
+        eventType: event.subscriptionType,
+        payload: payloads[index],
+      }))
+    );
+
+    // Processamento oportunista; o worker drena o que sobrar
+    const drain = await webhookQueueService.drain();
+
+    return NextResponse.json({
+      success: true,
+      data: { received: events.length, queued, drain },
+      message: `${queued} evento(s) enfileirado(s)`,
+    });
+  } catch (error) {
+    console.error('❌ POST /api/hubspot-webhook error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Erro ao processar webhook',
+        details: error instanceof Error ? error.message : 'Erro desconhecido',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// GET /api/hubspot-webhook - Verificar se o endpoint está ativo
+export async function GET(_request: NextRequest) {
+  return NextResponse.json({
+    success: true,
+    data: {
+      configured: hubspotWebhookService.isConfigured(),
+      subscriptions: [
+        'ticket.creation',
+        'ticket.propertyChange',
+        'ticket.deletion',
+      ],
+    },
+    message: 'HubSpot webhook endpoint ativo',
+  });
+}
@@ -9,6 +9,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 
 import { hubspotApi } from '@/lib/services/hubspot-api';
+import { ticketSettingsService } from '@/lib/services/ticket-settings';
+import { getActiveTechnicians } from '@/lib/config/ticket-settings';
 
 // GET /api/hubspot/owners - Buscar apenas os técnicos autorizados
 export async function GET(_request: NextRequest) {
@@ -27,15 +29,18 @@ export async function GET(_request: NextRequest) {
           : owner.email,
     }));
 
+    const settings = await ticketSettingsService.getSettings();
+
     const response = {
       success: true,
       data: owners,
       message: `${owners.length} técnicos autorizados encontrados`,
-      authorizedOwners: {
-        'Felipe Teixeira': { id: '1514631054', role: 'Analista N2 Eventos' },
-        'Tiago Triani': { id: '360834054', role: 'Analista N2' },
-        'Guilherme Souza': { id: '1727693927', role: 'Analista N2' },
-      },
+      authorizedOwners: Object.fromEntries(
+        getActiveTechnicians(settings).map(technician => [
+          technician.name,
+          { id: technician.id, role: technician.role },
+        ])
+      ),
     };
 
     return NextResponse.json(response);
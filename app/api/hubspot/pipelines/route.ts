@@ -10,23 +10,21 @@ import { NextRequest, NextResponse } from 'next/server';
 
 import { hubspotApi } from '@/lib/services/hubspot-api';
 
-// GET /api/hubspot/pipelines - Buscar apenas a pipeline específica do sistema
+// GET /api/hubspot/pipelines - Buscar as pipelines ativas do sistema
 export async function GET(_request: NextRequest) {
   try {
-    console.log(
-      '🚰 GET /api/hubspot/pipelines - Sistema específico (634240100)'
-    );
+    console.log('🚰 GET /api/hubspot/pipelines - Pipelines ativas do sistema');
 
-    // Buscar apenas a pipeline específica do sistema (mais eficiente)
-    const systemPipeline = await hubspotApi.getSystemPipeline();
+    // Buscar apenas as pipelines ativas nas configurações
+    const systemPipelines = await hubspotApi.getSystemPipelines();
 
     const response = {
       success: true,
-      data: [systemPipeline], // Retornar como array para manter compatibilidade
-      message: 'Pipeline do sistema encontrada',
+      data: systemPipelines,
+      message: `${systemPipelines.length} pipeline(s) do sistema encontrada(s)`,
       systemInfo: {
-        pipelineId: '634240100',
-        description: 'Pipeline específica para tickets do sistema inPatch',
+        pipelineIds: systemPipelines.map(pipeline => pipeline.id),
+        description: 'Pipelines configuradas para tickets do sistema inPatch',
       },
     };
 
@@ -0,0 +1,111 @@
+/**
+ * API Route para Atividades de Projetos
+ * Histórico combinado (ações do card no Trello + sincronizações locais) e
+ * publicação de comentários no card
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getRequestUser } from '@/lib/auth/guards';
+import { auditLogService } from '@/lib/services/audit-log';
+import { projectActivityService } from '@/lib/services/project-activity';
+import { APIError } from '@/lib/utils/validation';
+
+// GET /api/projects/activity?trelloCardId=...
+export async function GET(request: NextRequest) {
+  const cardId = request.nextUrl.searchParams.get('trelloCardId');
+
+  if (!cardId) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Dados inválidos',
+        details: 'Informe "trelloCardId"',
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const feed = await projectActivityService.getActivity(cardId);
+
+    return NextResponse.json({
+      success: true,
+      data: feed,
+      message: `${feed.items.length} atividade(s) encontrada(s)`,
+    });
+  } catch (error) {
+    console.error('❌ GET /api/projects/activity error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Erro ao buscar atividades',
+        details: error instanceof Error ? error.message : 'Erro desconhecido',
+      },
+      { status: error instanceof APIError ? error.statusCode : 500 }
+    );
+  }
+}
+
+// POST /api/projects/activity - { trelloCardId, text }
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const cardId =
+      typeof body?.trelloCardId === 'string' ? body.trelloCardId : null;
+    const text = typeof body?.text === 'string' ? body.text : null;
+
+    if (!cardId || !text?.trim()) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Dados inválidos',
+          details: 'Informe "trelloCardId" e "text"',
+        },
+        { status: 400 }
+      );
+    }
+
+    console.log(`💬 POST /api/projects/activity - comentário em ${cardId}`);
+
+    const comment = await projectActivityService.addComment(
+      cardId,
+      text,
+      getRequestUser(request)?.email
+    );
+
+    await auditLogService.record(request, {
+      entityType: 'project',
+      entityId: cardId,
+      action: 'update',
+      before: { comment: null },
+      after: { comment: comment.text },
+      upstreamSystem: 'trello',
+      upstreamResponse: { actionId: comment.id },
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: comment,
+        message: 'Comentário publicado no Trello',
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('❌ POST /api/projects/activity error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Erro ao publicar comentário',
+        details: error instanceof Error ? error.message : 'Erro desconhecido',
+      },
+      { status: error instanceof APIError ? error.statusCode : 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * API Route para Arquivos de Anexos
+ * Serve as cópias gravadas pelo armazenamento local (PROJECT_STORAGE_DRIVER=local);
+ * com o Supabase Storage as URLs públicas do bucket são usadas diretamente
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getFileStorage } from '@/lib/storage/file-storage';
+
+// Tipos exibidos no navegador; os demais são sempre baixados
+const INLINE_CONTENT_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+];
+
+// GET /api/projects/attachments/file?path=<card>/<anexo>.<extensão>
+export async function GET(request: NextRequest) {
+  const filePath = request.nextUrl.searchParams.get('path');
+
+  if (!filePath) {
+    return NextResponse.json(
+      { success: false, error: 'Informe "path"' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const file = await getFileStorage().read(filePath);
+
+    if (!file) {
+      return NextResponse.json(
+        { success: false, error: 'Arquivo não encontrado' },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(file.data, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': INLINE_CONTENT_TYPES.includes(file.contentType)
+          ? 'inline'
+          : 'attachment',
+        // Arquivos enviados por usuários nunca executam na origem do app
+        'Content-Security-Policy': 'sandbox',
+        'X-Content-Type-Options': 'nosniff',
+        // O caminho inclui o ID do anexo: o conteúdo nunca muda
+        'Cache-Control': 'private, max-age=31536000, immutable',
+      },
+    });
+  } catch (error) {
+    console.error('❌ GET /api/projects/attachments/file error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Erro ao ler arquivo',
+        details: error instanceof Error ? error.message : 'Erro desconhecido',
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * API Route para Anexos de Projetos
+ * Lista os anexos do card e recebe uploads, que são anexados ao card do
+ * Trello e, quando imagens, copiados para o armazenamento (miniaturas e capa)
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getRequestUser } from '@/lib/auth/guards';
+import { auditLogService } from '@/lib/services/audit-log';
+import { projectAttachmentService } from '@/lib/services/project-attachments';
+import { APIError } from '@/lib/utils/validation';
+
+function errorResponse(error: unknown, message: string) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      details: error instanceof Error ? error.message : 'Erro desconhecido',
+    },
+    { status: error instanceof APIError ? error.statusCode : 500 }
+  );
+}
+
+// GET /api/projects/attachments?trelloCardId=...
+export async function GET(request: NextRequest) {
+  const cardId = request.nextUrl.searchParams.get('trelloCardId');
+
+  if (!cardId) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Dados inválidos',
+        details: 'Informe "trelloCardId"',
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const attachments = await projectAttachmentService.getAttachments(cardId);
+
+    return NextResponse.json({
+      success: true,
+      data: attachments,
+      message: `${attachments.length} anexo(s) encontrado(s)`,
+    });
+  } catch (error) {
+    console.error('❌ GET /api/projects/attachments error:', error);
+
+    return errorResponse(error, 'Erro ao buscar anexos');
+  }
+}
+
+// POST /api/projects/attachments - multipart { trelloCardId, file, setCover }
+export async function POST(request: NextRequest) {
+  try {
+    const form = await request.formData();
+    const cardId = form.get('trelloCardId');
+    const file = form.get('file');
+    const setCover = form.get('setCover') === 'true';
+
+    if (typeof cardId !== 'string' || !cardId || !(file instanceof File)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Dados inválidos',
+          details: 'Envie "trelloCardId" e "file" (multipart/form-data)',
+        },
+        { status: 400 }
+      );
+    }
+
+    console.log(
+      `📎 POST /api/projects/attachments - ${file.name} → ${cardId}${setCover ? ' (capa)' : ''}`
+    );
+
+    const attachment = await projectAttachmentService.uploadAttachment(cardId, {
+      file,
+      name: file.name,
+      setCover,
+      uploadedBy: getRequestUser(request)?.email,
+    });
+
+    await auditLogService.record(request, {
+      entityType: 'project',
+      entityId: cardId,
+      action: 'update',
+      before: { attachment: null },
+      after: {
+        attachment: attachment.name,
+        ...(setCover ? { imageUrl: attachment.url } : {}),
+      },
+      upstreamSystem: 'trello',
+      upstreamResponse: { attachmentId: attachment.id, isCover: setCover },
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: attachment,
+        message: setCover
+          ? 'Imagem anexada e definida como capa no Trello'
+          : 'Arquivo anexado ao card do Trello',
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('❌ POST /api/projects/attachments error:', error);
+
+    return errorResponse(error, 'Erro ao enviar anexo');
+  }
+}
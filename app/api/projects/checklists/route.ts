@@ -0,0 +1,79 @@
+/**
+ * API Route para Checklists de Projetos
+ * Marca/desmarca itens no card do Trello e devolve o projeto com o
+ * progresso recalculado a partir dos checklists
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type { CheckItemState } from '@/types/project';
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { auditLogService } from '@/lib/services/audit-log';
+import { projectSyncService } from '@/lib/services/project-sync';
+import { APIError } from '@/lib/utils/validation';
+
+const STATES: CheckItemState[] = ['complete', 'incomplete'];
+
+// PUT /api/projects/checklists - { trelloCardId, checkItemId, state }
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const cardId =
+      typeof body?.trelloCardId === 'string' ? body.trelloCardId : null;
+    const checkItemId =
+      typeof body?.checkItemId === 'string' ? body.checkItemId : null;
+    const state = body?.state as CheckItemState;
+
+    if (!cardId || !checkItemId || !STATES.includes(state)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Dados inválidos',
+          details:
+            'Informe "trelloCardId", "checkItemId" e "state" ("complete" ou "incomplete")',
+        },
+        { status: 400 }
+      );
+    }
+
+    console.log(
+      `☑️ PUT /api/projects/checklists - ${cardId}/${checkItemId} → ${state}`
+    );
+
+    const { before, project } = await projectSyncService.toggleCheckItem(
+      cardId,
+      checkItemId,
+      state
+    );
+
+    await auditLogService.record(request, {
+      entityType: 'project',
+      entityId: cardId,
+      action: 'update',
+      before,
+      after: project,
+      upstreamSystem: 'trello',
+      upstreamResponse: { checkItemId, state },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: project,
+      message: `Item ${state === 'complete' ? 'concluído' : 'reaberto'} · progresso ${project.progress}%`,
+    });
+  } catch (error) {
+    console.error('❌ PUT /api/projects/checklists error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Erro ao atualizar checklist',
+        details: error instanceof Error ? error.message : 'Erro desconhecido',
+      },
+      { status: error instanceof APIError ? error.statusCode : 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * API Route para Conflitos de Sincronização de Projetos
+ * Lista e resolve edições simultâneas entre Trello e inPatch
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type {
+  ConflictResolution,
+  ProjectSyncConflictStatus,
+} from '@/types/project-sync';
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { databaseService } from '@/lib/database/prisma';
+import { projectSyncService } from '@/lib/services/project-sync';
+
+const RESOLUTIONS: ConflictResolution[] = ['trello', 'local'];
+
+// GET /api/projects/conflicts?trelloCardId=...&status=OPEN
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = (searchParams.get('status') ||
+      'OPEN') as ProjectSyncConflictStatus;
+
+    const conflicts = await databaseService.getSyncConflicts({
+      projectId: searchParams.get('projectId') || undefined,
+      trelloCardId: searchParams.get('trelloCardId') || undefined,
+      status: status === 'RESOLVED' ? 'RESOLVED' : 'OPEN',
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: conflicts,
+      message: `${conflicts.length} conflito(s) encontrado(s)`,
+    });
+  } catch (error) {
+    console.error('❌ GET /api/projects/conflicts error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Erro ao buscar conflitos',
+        details: error instanceof Error ? error.message : 'Erro desconhecido',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/conflicts - Resolver conflito { conflictId, resolution }
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const conflictId =
+      typeof body?.conflictId === 'string' ? body.conflictId : null;
+    const resolution = body?.resolution as ConflictResolution;
+
+    if (!conflictId || !RESOLUTIONS.includes(resolution)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Dados inválidos',
+          details: 'Informe "conflictId" e "resolution" ("trello" ou "local")',
+        },
+        { status: 400 }
+      );
+    }
+
+    console.log(
+      `🔀 POST /api/projects/conflicts - ${conflictId} → ${resolution}`
+    );
+
+    const conflict = await projectSyncService.resolveConflict(
+      conflictId,
+      resolution,
+      typeof body.resolvedBy === 'string' ? body.resolvedBy : undefined
+    );
+
+    if (!conflict) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Conflito não encontrado',
+          details: `Nenhum conflito com ID ${conflictId}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: conflict,
+      message: 'Conflito resolvido',
+    });
+  } catch (error) {
+    console.error('❌ POST /api/projects/conflicts error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Erro ao resolver conflito',
+        details: error instanceof Error ? error.message : 'Erro desconhecido',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * API Route para Dependências entre Projetos
+ * Vínculos "bloqueia / bloqueado por", espelhados como anexos no Trello
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getRequestUser } from '@/lib/auth/guards';
+import { auditLogService } from '@/lib/services/audit-log';
+import { projectDependencyService } from '@/lib/services/project-dependencies';
+import { APIError } from '@/lib/utils/validation';
+
+// Sem banco não há onde guardar os vínculos
+function databaseUnavailable() {
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Configuração incompleta',
+      details:
+        'DATABASE_URL não configurado. Dependências não podem ser persistidas.',
+    },
+    { status: 503 }
+  );
+}
+
+function errorResponse(error: unknown, message: string) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      details: error instanceof Error ? error.message : 'Erro desconhecido',
+    },
+    { status: error instanceof APIError ? error.statusCode : 500 }
+  );
+}
+
+// Cards que bloqueiam o projeto, para a auditoria
+async function getBlockedBy(cardId: string): Promise<string[]> {
+  const { blockedBy } = await projectDependencyService.getDependencies(cardId);
+
+  return blockedBy.map(ref => ref.trelloCardId);
+}
+
+// GET /api/projects/dependencies?trelloCardId=...
+export async function GET(request: NextRequest) {
+  const cardId = request.nextUrl.searchParams.get('trelloCardId');
+
+  if (!cardId) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Dados inválidos',
+        details: 'Informe "trelloCardId"',
+      },
+      { status: 400 }
+    );
+  }
+
+  if (!process.env.DATABASE_URL) return databaseUnavailable();
+
+  try {
+    const dependencies = await projectDependencyService.getDependencies(cardId);
+
+    return NextResponse.json({
+      success: true,
+      data: dependencies,
+      message: `${dependencies.blocks.length + dependencies.blockedBy.length} dependência(s) encontrada(s)`,
+    });
+  } catch (error) {
+    console.error('❌ GET /api/projects/dependencies error:', error);
+
+    return errorResponse(error, 'Erro ao buscar dependências');
+  }
+}
+
+// POST /api/projects/dependencies - { blockerCardId, blockedCardId }
+export async function POST(request: NextRequest) {
+  if (!process.env.DATABASE_URL) return databaseUnavailable();
+
+  try {
+    const body = await request.json();
+    const blockerCardId =
+      typeof body?.blockerCardId === 'string' ? body.blockerCardId : null;
+    const blockedCardId =
+      typeof body?.blockedCardId === 'string' ? body.blockedCardId : null;
+
+    if (!blockerCardId || !blockedCardId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Dados inválidos',
+          details: 'Informe "blockerCardId" e "blockedCardId"',
+        },
+        { status: 400 }
+      );
+    }
+
+    console.log(
+      `🔗 POST /api/projects/dependencies - ${blockerCardId} → ${blockedCardId}`
+    );
+
+    const before = await getBlockedBy(blockedCardId);
+    const dependency = await projectDependencyService.addDependency(
+      blockerCardId,
+      blockedCardId,
+      getRequestUser(request)?.email
+    );
+
+    await auditLogService.record(request, {
+      entityType: 'project',
+      entityId: blockedCardId,
+      action: 'update',
+      before: { blockedBy: before },
+      after: { blockedBy: [...before, blockerCardId] },
+      upstreamSystem: 'trello',
+      upstreamResponse: { mirrored: dependency.mirrored },
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: dependency,
+        message: dependency.mirrored
+          ? 'Dependência criada e anexada aos cards do Trello'
+          : 'Dependência criada (anexos do Trello pendentes)',
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('❌ POST /api/projects/dependencies error:', error);
+
+    return errorResponse(error, 'Erro ao criar dependência');
+  }
+}
+
+// DELETE /api/projects/dependencies?blockerCardId=...&blockedCardId=...
+export async function DELETE(request: NextRequest) {
+  if (!process.env.DATABASE_URL) return databaseUnavailable();
+
+  const { searchParams } = request.nextUrl;
+  const blockerCardId = searchParams.get('blockerCardId');
+  const blockedCardId = searchParams.get('blockedCardId');
+
+  if (!blockerCardId || !blockedCardId) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Dados inválidos',
+        details: 'Informe "blockerCardId" e "blockedCardId"',
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const before = await getBlockedBy(blockedCardId);
+    const removed = await projectDependencyService.removeDependency(
+      blockerCardId,
+      blockedCardId
+    );
+
+    if (!removed) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Dependência não encontrada',
+          details: `${blockerCardId} não bloqueia ${blockedCardId}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    await auditLogService.record(request, {
+      entityType: 'project',
+      entityId: blockedCardId,
+      action: 'update',
+      before: { blockedBy: before },
+      after: { blockedBy: before.filter(cardId => cardId !== blockerCardId) },
+      upstreamSystem: 'trello',
+      upstreamResponse: { deleted: true },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: null,
+      message: 'Dependência removida',
+    });
+  } catch (error) {
+    console.error('❌ DELETE /api/projects/dependencies error:', error);
+
+    return errorResponse(error, 'Erro ao remover dependência');
+  }
+}
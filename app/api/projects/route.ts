@@ -2,7 +2,17 @@ import type { Project, ProjectStatus } from '@/types/project';
 
 import { NextRequest, NextResponse } from 'next/server';
 
+import { getRequestUser, requireRole } from '@/lib/auth/guards';
+import {
+  getDefaultMemberNames,
+  getDefaultPlatformNames,
+} from '@/lib/config/project-catalog';
+import { auditLogService } from '@/lib/services/audit-log';
+import { projectCatalogService } from '@/lib/services/project-catalog';
+import { projectSyncService } from '@/lib/services/project-sync';
+import { userProfileService } from '@/lib/services/user-profiles';
 import { trelloApi } from '@/lib/trello';
+import { validateProject } from '@/lib/utils/validation';
 
 // Helper to map status -> listId using current board lists
 async function getListIdForStatus(
@@ -65,24 +75,79 @@ async function getListIdForStatus(
   return sorted[Math.floor(sorted.length / 2)].id;
 }
 
-export async function POST(req: NextRequest) {
+// Estado atual do card para a auditoria (null se indisponível)
+async function getProjectSnapshot(cardId: string): Promise<Project | null> {
   try {
-    const body = await req.json();
-    const {
-      title,
-      description = '',
-      status = 'a-fazer',
-      estimatedEndDate,
-    }: Partial<Project> = body;
-
-    if (!title || typeof title !== 'string' || title.trim().length === 0) {
+    const [card, catalog] = await Promise.all([
+      trelloApi.getCard(cardId),
+      projectCatalogService.getCatalog(),
+    ]);
+
+    return trelloApi.transformCardsToProjects([card], catalog)[0] || null;
+  } catch {
+    return null;
+  }
+}
+
+// GET /api/projects - Projetos servidos do banco (Trello apenas como fallback)
+// ?mine=true - apenas projetos do membro do time vinculado ao usuário
+export async function GET(req: NextRequest) {
+  try {
+    const { projects, source } = await projectSyncService.listProjects();
+
+    if (req.nextUrl.searchParams.get('mine') === 'true') {
+      const user = getRequestUser(req);
+      const member = user
+        ? await userProfileService.getTeamMember(user.id)
+        : null;
+
       return NextResponse.json(
-        { error: 'Título é obrigatório' },
-        { status: 400 }
+        {
+          projects: member
+            ? projects.filter(project => project.responsible.includes(member))
+            : [],
+          source,
+        },
+        { status: 200 }
       );
     }
 
-    const listId = await getListIdForStatus(status as ProjectStatus);
+    return NextResponse.json({ projects, source }, { status: 200 });
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error?.message || 'Erro ao carregar projetos' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body: Partial<Project> = await req.json();
+    const catalog = await projectCatalogService.getCatalog();
+    const status = body.status || 'a-fazer';
+    const draft: Omit<Project, 'id'> = {
+      title: body.title || '',
+      description: body.description || '',
+      progress: body.progress ?? 0,
+      platforms: body.platforms ?? getDefaultPlatformNames(catalog),
+      responsible: body.responsible ?? getDefaultMemberNames(catalog),
+      startDate: body.startDate || new Date().toISOString(),
+      estimatedEndDate:
+        body.estimatedEndDate ||
+        new Date(Date.now() + 7 * 24 * 3600 * 1000).toISOString(),
+      status,
+      priority: body.priority || 'medium',
+      labels: body.labels || [],
+      imageUrl: body.imageUrl || undefined,
+    };
+    const { isValid, errors } = validateProject(draft, catalog);
+
+    if (!isValid) {
+      return NextResponse.json({ error: errors.join('; ') }, { status: 400 });
+    }
+
+    const listId = await getListIdForStatus(status);
 
     if (!listId) {
       return NextResponse.json(
@@ -94,42 +159,39 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const newCard = await trelloApi.createCard(listId, {
-      title,
-      description,
-      progress: 0,
-      platforms: ['Backoffice'],
-      responsible: ['Guilherme Souza'],
-      startDate: new Date().toISOString(),
-      estimatedEndDate:
-        estimatedEndDate ||
-        new Date(Date.now() + 7 * 24 * 3600 * 1000).toISOString(),
-      status: status as ProjectStatus,
-      priority: 'medium',
-      labels: [],
-      trelloCardId: undefined,
-      imageUrl: undefined,
-      createdAt: undefined,
-      updatedAt: undefined,
-      id: '' as any, // omitted by signature
-    } as Omit<Project, 'id'>);
-
-    const project = trelloApi.transformCardsToProjects([newCard])[0];
+    const newCard = await trelloApi.createCard(listId, draft);
+    const project = trelloApi.transformCardsToProjects([newCard], catalog)[0];
+
+    await auditLogService.record(req, {
+      entityType: 'project',
+      entityId: newCard.id,
+      action: 'create',
+      after: project,
+      upstreamSystem: 'trello',
+      upstreamResponse: newCard,
+    });
 
     return NextResponse.json({ project }, { status: 201 });
   } catch (error: any) {
     return NextResponse.json(
       { error: error?.message || 'Erro ao criar projeto' },
-      { status: 500 }
+      // 422: responsável sem membro correspondente no quadro do Trello
+      { status: error?.statusCode === 422 ? 422 : 500 }
     );
   }
 }
 
 export async function PUT(req: NextRequest) {
+  let cardId: string | undefined;
+  let before: Project | null = null;
+  let updates: Partial<Project> = {};
+
   try {
     const body = await req.json();
-    const { id, trelloCardId, ...updates }: Partial<Project> = body;
-    const cardId = trelloCardId || id;
+    const { id, trelloCardId, ...rest }: Partial<Project> = body;
+
+    cardId = trelloCardId || id;
+    updates = rest;
 
     if (!cardId) {
       return NextResponse.json(
@@ -138,24 +200,72 @@ export async function PUT(req: NextRequest) {
       );
     }
 
-    const updatedCard = await trelloApi.updateCard(cardId, updates);
-    const project = trelloApi.transformCardsToProjects([updatedCard])[0];
+    before = await getProjectSnapshot(cardId);
+
+    const catalog = await projectCatalogService.getCatalog();
+
+    // Campos ausentes vêm do card atual; prazo vencido só é rejeitado
+    // quando está sendo alterado
+    const { isValid, errors } = validateProject(
+      { ...before, ...updates, estimatedEndDate: updates.estimatedEndDate },
+      catalog
+    );
+
+    if (!isValid) {
+      return NextResponse.json({ error: errors.join('; ') }, { status: 400 });
+    }
+
+    const updatedCard = await projectSyncService.updateProject(cardId, updates);
+    const project = trelloApi.transformCardsToProjects(
+      [updatedCard],
+      catalog
+    )[0];
+
+    await auditLogService.record(req, {
+      entityType: 'project',
+      entityId: cardId,
+      action: 'update',
+      before,
+      after: project,
+      upstreamSystem: 'trello',
+      upstreamResponse: updatedCard,
+    });
 
     return NextResponse.json({ project }, { status: 200 });
   } catch (error: any) {
+    if (cardId) {
+      await auditLogService.record(req, {
+        entityType: 'project',
+        entityId: cardId,
+        action: 'update',
+        before,
+        after: { ...before, ...updates },
+        upstreamSystem: 'trello',
+        error,
+      });
+    }
+
     return NextResponse.json(
       { error: error?.message || 'Erro ao atualizar projeto' },
-      { status: 500 }
+      { status: error?.statusCode === 422 ? 422 : 500 }
     );
   }
 }
 
 export async function DELETE(req: NextRequest) {
+  const denied = requireRole(req, 'admin');
+
+  if (denied) return denied;
+
+  let cardId: string | null = null;
+  let before: Project | null = null;
+
   try {
     const { searchParams } = new URL(req.url);
     const id = searchParams.get('id');
     const trelloCardId = searchParams.get('trelloCardId');
-    const cardId = trelloCardId || id;
+
+    cardId = trelloCardId || id;
 
     if (!cardId) {
       return NextResponse.json(
@@ -164,10 +274,32 @@ export async function DELETE(req: NextRequest) {
       );
     }
 
+    before = await getProjectSnapshot(cardId);
+
     await trelloApi.deleteCard(cardId);
 
+    await auditLogService.record(req, {
+      entityType: 'project',
+      entityId: cardId,
+      action: 'delete',
+      before,
+      upstreamSystem: 'trello',
+      upstreamResponse: { deleted: true },
+    });
+
     return NextResponse.json({ success: true }, { status: 200 });
   } catch (error: any) {
+    if (cardId) {
+      await auditLogService.record(req, {
+        entityType: 'project',
+        entityId: cardId,
+        action: 'delete',
+        before,
+        upstreamSystem: 'trello',
+        error,
+      });
+    }
+
     return NextResponse.json(
       { error: error?.message || 'Erro ao deletar projeto' },
       { status: 500 }
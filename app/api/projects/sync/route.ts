@@ -0,0 +1,37 @@
+/**
+ * API Route para Sincronização de Projetos com o Trello
+ * Executa no servidor a leitura do quadro e a reconciliação com o banco
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import { NextResponse } from 'next/server';
+
+import { projectSyncService } from '@/lib/services/project-sync';
+
+// POST /api/projects/sync - Sincronização completa Trello → banco
+export async function POST() {
+  try {
+    console.log('🔄 POST /api/projects/sync - Sincronização iniciada');
+
+    const result = await projectSyncService.syncBoard();
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: `Sincronização concluída: ${result.synced} projetos sincronizados`,
+    });
+  } catch (error) {
+    console.error('❌ POST /api/projects/sync error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Erro na sincronização',
+        details: error instanceof Error ? error.message : 'Erro desconhecido',
+      },
+      { status: 500 }
+    );
+  }
+}
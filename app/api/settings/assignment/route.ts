@@ -0,0 +1,98 @@
+/**
+ * API Route para as Configurações de Atribuição Automática
+ * Estratégia de distribuição, turnos e ausências dos técnicos
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { requireRole } from '@/lib/auth/guards';
+import { ticketAssignmentService } from '@/lib/services/ticket-assignment';
+import { validateAssignmentSettings } from '@/lib/validations/settings-schemas';
+
+// GET /api/settings/assignment - Buscar configurações atuais
+export async function GET(_request: NextRequest) {
+  try {
+    console.log('⚙️ GET /api/settings/assignment');
+
+    const settings = await ticketAssignmentService.getSettings();
+
+    return NextResponse.json({
+      success: true,
+      data: settings,
+      message: 'Configurações de atribuição carregadas',
+    });
+  } catch (error) {
+    console.error('❌ GET /api/settings/assignment error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Erro ao carregar configurações de atribuição',
+        details: error instanceof Error ? error.message : 'Erro desconhecido',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/settings/assignment - Substituir configurações
+export async function PUT(request: NextRequest) {
+  const denied = requireRole(request, 'admin');
+
+  if (denied) return denied;
+
+  try {
+    if (!process.env.DATABASE_URL) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Configuração incompleta',
+          details:
+            'DATABASE_URL não configurado. As configurações não podem ser persistidas.',
+        },
+        { status: 503 }
+      );
+    }
+
+    const body = await request.json();
+
+    console.log('⚙️ PUT /api/settings/assignment');
+
+    const validationResult = validateAssignmentSettings(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: validationResult.error,
+          details: validationResult.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const settings = await ticketAssignmentService.saveSettings(
+      validationResult.data!
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: settings,
+      message: 'Configurações de atribuição salvas com sucesso',
+    });
+  } catch (error) {
+    console.error('❌ PUT /api/settings/assignment error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Erro ao salvar configurações de atribuição',
+        details: error instanceof Error ? error.message : 'Erro desconhecido',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * API Route para o Catálogo de Projetos
+ * Plataformas e membros do time com mapeamento para Trello e HubSpot
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { requireRole } from '@/lib/auth/guards';
+import { projectCatalogService } from '@/lib/services/project-catalog';
+import { validateProjectCatalog } from '@/lib/validations/settings-schemas';
+
+// GET /api/settings/catalog - Buscar catálogo atual
+export async function GET(_request: NextRequest) {
+  try {
+    console.log('⚙️ GET /api/settings/catalog');
+
+    const catalog = await projectCatalogService.getCatalog();
+
+    return NextResponse.json({
+      success: true,
+      data: catalog,
+      message: 'Catálogo carregado',
+    });
+  } catch (error) {
+    console.error('❌ GET /api/settings/catalog error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Erro ao carregar catálogo',
+        details: error instanceof Error ? error.message : 'Erro desconhecido',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/settings/catalog - Substituir catálogo
+export async function PUT(request: NextRequest) {
+  const denied = requireRole(request, 'admin');
+
+  if (denied) return denied;
+
+  try {
+    if (!process.env.DATABASE_URL) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Configuração incompleta',
+          details:
+            'DATABASE_URL não configurado. O catálogo não pode ser persistido.',
+        },
+        { status: 503 }
+      );
+    }
+
+    const body = await request.json();
+
+    console.log('⚙️ PUT /api/settings/catalog');
+
+    const validationResult = validateProjectCatalog(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: validationResult.error,
+          details: validationResult.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const catalog = await projectCatalogService.saveCatalog(
+      validationResult.data!
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: catalog,
+      message: 'Catálogo salvo com sucesso',
+    });
+  } catch (error) {
+    console.error('❌ PUT /api/settings/catalog error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Erro ao salvar catálogo',
+        details: error instanceof Error ? error.message : 'Erro desconhecido',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * API Route para a Política de SLA
+ * Metas por prioridade e por estágio, horário comercial e estágios de pausa
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { requireRole } from '@/lib/auth/guards';
+import { slaPolicyService } from '@/lib/services/sla-policy';
+import { validateSlaPolicy } from '@/lib/validations/settings-schemas';
+
+// GET /api/settings/sla - Buscar política atual
+export async function GET(_request: NextRequest) {
+  try {
+    console.log('⏱️ GET /api/settings/sla');
+
+    const policy = await slaPolicyService.getPolicy();
+
+    return NextResponse.json({
+      success: true,
+      data: policy,
+      message: 'Política de SLA carregada',
+    });
+  } catch (error) {
+    console.error('❌ GET /api/settings/sla error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Erro ao carregar política de SLA',
+        details: error instanceof Error ? error.message : 'Erro desconhecido',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/settings/sla - Substituir política
+export async function PUT(request: NextRequest) {
+  const denied = requireRole(request, 'admin');
+
+  if (denied) return denied;
+
+  try {
+    if (!process.env.DATABASE_URL) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Configuração incompleta',
+          details:
+            'DATABASE_URL não configurado. A política não pode ser persistida.',
+        },
+        { status: 503 }
+      );
+    }
+
+    const body = await request.json();
+
+    console.log('⏱️ PUT /api/settings/sla');
+
+    const validationResult = validateSlaPolicy(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: validationResult.error,
+          details: validationResult.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const policy = await slaPolicyService.savePolicy(validationResult.data!);
+
+    return NextResponse.json({
+      success: true,
+      data: policy,
+      message: 'Política de SLA salva com sucesso',
+    });
+  } catch (error) {
+    console.error('❌ PUT /api/settings/sla error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Erro ao salvar política de SLA',
+        details: error instanceof Error ? error.message : 'Erro desconhecido',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * API Route para Configurações do Sistema de Tickets
+ * Pipelines, estágios e técnicos gerenciados pelo painel admin
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { requireRole } from '@/lib/auth/guards';
+import { ticketSettingsService } from '@/lib/services/ticket-settings';
+import { hubspotApi } from '@/lib/services/hubspot-api';
+import { validateTicketSettings } from '@/lib/validations/settings-schemas';
+
+// GET /api/settings/tickets - Buscar configurações atuais
+export async function GET(_request: NextRequest) {
+  try {
+    console.log('⚙️ GET /api/settings/tickets');
+
+    const settings = await ticketSettingsService.getSettings();
+
+    return NextResponse.json({
+      success: true,
+      data: settings,
+      message: 'Configurações carregadas',
+    });
+  } catch (error) {
+    console.error('❌ GET /api/settings/tickets error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Erro ao carregar configurações',
+        details: error instanceof Error ? error.message : 'Erro desconhecido',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/settings/tickets - Substituir configurações
+export async function PUT(request: NextRequest) {
+  const denied = requireRole(request, 'admin');
+
+  if (denied) return denied;
+
+  try {
+    if (!process.env.DATABASE_URL) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Configuração incompleta',
+          details:
+            'DATABASE_URL não configurado. As configurações não podem ser persistidas.',
+        },
+        { status: 503 }
+      );
+    }
+
+    const body = await request.json();
+
+    console.log('⚙️ PUT /api/settings/tickets');
+
+    const validationResult = validateTicketSettings(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: validationResult.error,
+          details: validationResult.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const settings = await ticketSettingsService.saveSettings(
+      validationResult.data!
+    );
+
+    // Filtros e owners do HubSpot dependem das configurações
+    hubspotApi.clearCache();
+
+    return NextResponse.json({
+      success: true,
+      data: settings,
+      message: 'Configurações salvas com sucesso',
+    });
+  } catch (error) {
+    console.error('❌ PUT /api/settings/tickets error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Erro ao salvar configurações',
+        details: error instanceof Error ? error.message : 'Erro desconhecido',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * API Route para as Regras de Triagem Automática
+ * Condições e ações aplicadas aos tickets que chegam na Triagem N2
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { requireRole } from '@/lib/auth/guards';
+import { ticketTriageService } from '@/lib/services/ticket-triage';
+import { validateTriageRules } from '@/lib/validations/settings-schemas';
+
+// GET /api/settings/triage - Buscar regras atuais
+export async function GET(_request: NextRequest) {
+  try {
+    console.log('⚙️ GET /api/settings/triage');
+
+    const ruleSet = await ticketTriageService.getRules();
+
+    return NextResponse.json({
+      success: true,
+      data: ruleSet,
+      message: `${ruleSet.rules.length} regra(s) de triagem`,
+    });
+  } catch (error) {
+    console.error('❌ GET /api/settings/triage error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Erro ao carregar regras de triagem',
+        details: error instanceof Error ? error.message : 'Erro desconhecido',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/settings/triage - Substituir regras
+export async function PUT(request: NextRequest) {
+  const denied = requireRole(request, 'admin');
+
+  if (denied) return denied;
+
+  try {
+    if (!process.env.DATABASE_URL) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Configuração incompleta',
+          details:
+            'DATABASE_URL não configurado. As regras não podem ser persistidas.',
+        },
+        { status: 503 }
+      );
+    }
+
+    const body = await request.json();
+
+    console.log('⚙️ PUT /api/settings/triage');
+
+    const validationResult = validateTriageRules(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: validationResult.error,
+          details: validationResult.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const ruleSet = await ticketTriageService.saveRules(validationResult.data!);
+
+    return NextResponse.json({
+      success: true,
+      data: ruleSet,
+      message: 'Regras de triagem salvas com sucesso',
+    });
+  } catch (error) {
+    console.error('❌ PUT /api/settings/triage error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Erro ao salvar regras de triagem',
+        details: error instanceof Error ? error.message : 'Erro desconhecido',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * API Route para Execução Manual da Triagem
+ * Simula ou aplica as regras nos tickets parados na Triagem N2
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { requireRole } from '@/lib/auth/guards';
+import { ticketTriageService } from '@/lib/services/ticket-triage';
+
+// POST /api/settings/triage/run - { hubspotIds?, dryRun?, force? }
+// dryRun (padrão) apenas mostra o que cada regra faria, sem gravar nada
+export async function POST(request: NextRequest) {
+  const denied = requireRole(request, 'admin');
+
+  if (denied) return denied;
+
+  try {
+    if (!process.env.DATABASE_URL) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Configuração incompleta',
+          details:
+            'DATABASE_URL não configurado. A triagem usa a cópia local dos tickets.',
+        },
+        { status: 503 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const hubspotIds = Array.isArray(body.hubspotIds)
+      ? body.hubspotIds.map(String)
+      : undefined;
+    const dryRun = body.dryRun !== false;
+
+    console.log(
+      `🧭 POST /api/settings/triage/run - ${dryRun ? 'Simulação' : 'Execução'}${body.force ? ' (forçada)' : ''}`
+    );
+
+    const summary = await ticketTriageService.triageTickets(hubspotIds, {
+      source: 'manual',
+      dryRun,
+      force: dryRun || body.force === true,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: summary,
+      message: dryRun
+        ? `${summary.matched} de ${summary.evaluated} ticket(s) seriam triados`
+        : `${summary.applied} ticket(s) triado(s)`,
+    });
+  } catch (error) {
+    console.error('❌ POST /api/settings/triage/run error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Erro ao executar triagem',
+        details: error instanceof Error ? error.message : 'Erro desconhecido',
+      },
+      { status: 500 }
+    );
+  }
+}
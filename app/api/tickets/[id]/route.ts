@@ -6,13 +6,33 @@
  * @version 1.0.0
  */
 
-import type { UpdateTicketData } from '@/types/ticket';
+import type { Ticket, UpdateTicketData } from '@/types/ticket';
 
 import { NextRequest, NextResponse } from 'next/server';
 
+import { getRequestUser, requireRole } from '@/lib/auth/guards';
+import { auditLogService } from '@/lib/services/audit-log';
 import { hubspotApi } from '@/lib/services/hubspot-api';
+import { ticketSettingsService } from '@/lib/services/ticket-settings';
+import { ticketStageHistoryService } from '@/lib/services/ticket-stage-history';
+import {
+  validateUpdateTicket,
+  sanitizeTicketInput,
+} from '@/lib/validations/ticket-schemas';
 import { transformHubSpotToLocal } from '@/types/ticket';
 
+// Estado atual do ticket para a auditoria (null se indisponível)
+async function getTicketSnapshot(ticketId: string): Promise<Ticket | null> {
+  try {
+    return transformHubSpotToLocal(
+      await hubspotApi.getTicketById(ticketId),
+      await ticketSettingsService.getSettings()
+    );
+  } catch {
+    return null;
+  }
+}
+
 // GET /api/tickets/[id] - Buscar ticket por ID
 export async function GET(
   request: NextRequest,
@@ -31,7 +51,10 @@ export async function GET(
     const hubspotTicket = await hubspotApi.getTicketById(ticketId);
 
     // Transformar para formato local
-    const ticket = transformHubSpotToLocal(hubspotTicket);
+    const ticket = transformHubSpotToLocal(
+      hubspotTicket,
+      await ticketSettingsService.getSettings()
+    );
 
     const response = {
       success: true,
@@ -72,6 +95,8 @@ export async function PATCH(
   { params }: { params: Promise<{ id: string }> }
 ) {
   let ticketId: string | undefined;
+  let before: Ticket | null = null;
+  let updateData: UpdateTicketData = {};
 
   try {
     const { id } = await params;
@@ -81,25 +106,21 @@ export async function PATCH(
 
     console.log(`🎫 PATCH /api/tickets/${ticketId} - Body:`, body);
 
-    const updateData: UpdateTicketData = {
-      subject: body.subject,
-      content: body.content,
-      priority: body.priority,
-      status: body.status,
-      category: body.category,
-      pipelineStageId: body.pipelineStageId,
-      hubspotOwnerId: body.hubspotOwnerId,
-      sourceType: body.sourceType,
-      tags: body.tags,
-      closedAt: body.closedAt,
-    };
+    // Sanitizar e validar apenas os campos enviados
+    const validationResult = validateUpdateTicket(sanitizeTicketInput(body));
 
-    // Remover campos undefined
-    Object.keys(updateData).forEach(key => {
-      if (updateData[key as keyof UpdateTicketData] === undefined) {
-        delete updateData[key as keyof UpdateTicketData];
-      }
-    });
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: validationResult.error,
+          details: validationResult.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    updateData = validationResult.data!;
 
     // Preparar dados para HubSpot
     const hubspotProperties: any = {};
@@ -121,13 +142,38 @@ export async function PATCH(
     if (updateData.closedAt)
       hubspotProperties.closedate = new Date(updateData.closedAt).getTime();
 
+    before = await getTicketSnapshot(ticketId);
+
     // Atualizar ticket no HubSpot
     const hubspotTicket = await hubspotApi.updateTicket(ticketId, {
       properties: hubspotProperties,
     });
 
     // Transformar para formato local
-    const ticket = transformHubSpotToLocal(hubspotTicket);
+    const ticket = transformHubSpotToLocal(
+      hubspotTicket,
+      await ticketSettingsService.getSettings()
+    );
+
+    // Movimentos do Kanban e do painel entram na linha do tempo com o autor
+    if (updateData.pipelineStageId) {
+      await ticketStageHistoryService.recordTransition({
+        hubspotId: ticketId,
+        toStageId: ticket.pipelineStageId,
+        source: 'dashboard',
+        changedBy: getRequestUser(request)?.email,
+      });
+    }
+
+    await auditLogService.record(request, {
+      entityType: 'ticket',
+      entityId: ticketId,
+      action: 'update',
+      before,
+      after: ticket,
+      upstreamSystem: 'hubspot',
+      upstreamResponse: hubspotTicket,
+    });
 
     const response = {
       success: true,
@@ -137,6 +183,19 @@ export async function PATCH(
 
     return NextResponse.json(response);
   } catch (error) {
+    // Falhas de validação não chegam aqui; só tentativas rejeitadas na origem
+    if (ticketId && Object.keys(updateData).length > 0) {
+      await auditLogService.record(request, {
+        entityType: 'ticket',
+        entityId: ticketId,
+        action: 'update',
+        before,
+        after: { ...before, ...updateData },
+        upstreamSystem: 'hubspot',
+        error,
+      });
+    }
+
     console.error(
       `❌ PATCH /api/tickets/${ticketId || 'unknown'} error:`,
       error
@@ -169,7 +228,12 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const denied = requireRole(request, 'admin');
+
+  if (denied) return denied;
+
   let ticketId: string | undefined;
+  let before: Ticket | null = null;
 
   try {
     const { id } = await params;
@@ -178,9 +242,20 @@ export async function DELETE(
 
     console.log(`🎫 DELETE /api/tickets/${ticketId}`);
 
+    before = await getTicketSnapshot(ticketId);
+
     // Deletar ticket no HubSpot
     await hubspotApi.deleteTicket(ticketId);
 
+    await auditLogService.record(request, {
+      entityType: 'ticket',
+      entityId: ticketId,
+      action: 'delete',
+      before,
+      upstreamSystem: 'hubspot',
+      upstreamResponse: { deleted: true },
+    });
+
     const response = {
       success: true,
       message: 'Ticket deletado com sucesso',
@@ -188,6 +263,17 @@ export async function DELETE(
 
     return NextResponse.json(response);
   } catch (error) {
+    if (ticketId) {
+      await auditLogService.record(request, {
+        entityType: 'ticket',
+        entityId: ticketId,
+        action: 'delete',
+        before,
+        upstreamSystem: 'hubspot',
+        error,
+      });
+    }
+
     console.error(
       `❌ DELETE /api/tickets/${ticketId || 'unknown'} error:`,
       error
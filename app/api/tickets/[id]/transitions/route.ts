@@ -0,0 +1,40 @@
+/**
+ * API Route para Linha do Tempo do Ticket
+ * Transições de estágio com a permanência em cada um
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { ticketStageHistoryService } from '@/lib/services/ticket-stage-history';
+
+// GET /api/tickets/[id]/transitions - id é o ID do HubSpot
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const timeline = await ticketStageHistoryService.getTimeline(id);
+
+    return NextResponse.json({
+      success: true,
+      data: timeline,
+      message: `${timeline.transitions.length} transição(ões) encontrada(s)`,
+    });
+  } catch (error) {
+    console.error(`❌ GET /api/tickets/${id}/transitions error:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Erro ao buscar histórico de estágios',
+        details: error instanceof Error ? error.message : 'Erro desconhecido',
+      },
+      { status: 500 }
+    );
+  }
+}
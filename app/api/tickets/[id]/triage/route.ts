@@ -0,0 +1,42 @@
+/**
+ * API Route para a Triagem Automática do Ticket
+ * Explicação da regra que disparou e das alterações feitas
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { ticketTriageService } from '@/lib/services/ticket-triage';
+
+// GET /api/tickets/[id]/triage - id é o ID do HubSpot
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const triage = await ticketTriageService.getTicketTriage(id);
+
+    return NextResponse.json({
+      success: true,
+      data: triage,
+      message: triage.result
+        ? `Triado pela regra "${triage.result.ruleName}"`
+        : 'Nenhuma regra de triagem aplicada',
+    });
+  } catch (error) {
+    console.error(`❌ GET /api/tickets/${id}/triage error:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Erro ao buscar triagem do ticket',
+        details: error instanceof Error ? error.message : 'Erro desconhecido',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * API Route para Analytics de Tickets
+ * Métricas agregadas no servidor sobre a cópia local dos tickets
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { ticketAnalyticsService } from '@/lib/services/ticket-analytics';
+import { APIError } from '@/lib/utils/validation';
+
+// GET /api/tickets/analytics?dateFrom=&dateTo=&ownerId=&granularity=day|week
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+
+  try {
+    const analytics = await ticketAnalyticsService.getAnalytics({
+      dateFrom: searchParams.get('dateFrom') || undefined,
+      dateTo: searchParams.get('dateTo') || undefined,
+      ownerId: searchParams.get('ownerId') || undefined,
+      granularity: searchParams.get('granularity') === 'week' ? 'week' : 'day',
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: analytics,
+      message: `${analytics.totals.created} criado(s) e ${analytics.totals.resolved} resolvido(s) no período`,
+    });
+  } catch (error) {
+    console.error('❌ GET /api/tickets/analytics error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Erro ao calcular analytics de tickets',
+        details: error instanceof Error ? error.message : 'Erro desconhecido',
+      },
+      { status: error instanceof APIError ? error.statusCode : 500 }
+    );
+  }
+}
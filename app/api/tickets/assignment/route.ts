@@ -0,0 +1,101 @@
+/**
+ * API Route para Atribuição de Tickets
+ * Disponibilidade dos técnicos e distribuição manual dos tickets sem responsável
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type { AssignmentStrategy } from '@/types/assignment';
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { ASSIGNMENT_STRATEGY_LABELS } from '@/types/assignment';
+import { ticketAssignmentService } from '@/lib/services/ticket-assignment';
+
+// GET /api/tickets/assignment - Disponibilidade e carga de cada técnico
+export async function GET(_request: NextRequest) {
+  try {
+    console.log('👥 GET /api/tickets/assignment');
+
+    const availability = await ticketAssignmentService.getAvailability();
+
+    return NextResponse.json({
+      success: true,
+      data: availability,
+      message: `${availability.filter(item => item.available).length} de ${availability.length} técnico(s) disponível(is)`,
+    });
+  } catch (error) {
+    console.error('❌ GET /api/tickets/assignment error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Erro ao carregar disponibilidade dos técnicos',
+        details: error instanceof Error ? error.message : 'Erro desconhecido',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/tickets/assignment - { hubspotIds?, strategy? }
+// Sem IDs, distribui todos os tickets abertos sem responsável
+export async function POST(request: NextRequest) {
+  try {
+    if (!process.env.DATABASE_URL) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Configuração incompleta',
+          details:
+            'DATABASE_URL não configurado. A atribuição usa a cópia local dos tickets.',
+        },
+        { status: 503 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const hubspotIds = Array.isArray(body.hubspotIds)
+      ? body.hubspotIds.map(String)
+      : undefined;
+    const strategy = body.strategy as AssignmentStrategy | undefined;
+
+    if (strategy && !ASSIGNMENT_STRATEGY_LABELS[strategy]) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Estratégia inválida',
+          details: `Use uma das opções: ${Object.keys(ASSIGNMENT_STRATEGY_LABELS).join(', ')}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    console.log(
+      `👥 POST /api/tickets/assignment - ${hubspotIds ? `${hubspotIds.length} ticket(s)` : 'fila completa'}`
+    );
+
+    const summary = await ticketAssignmentService.assignTickets(hubspotIds, {
+      source: 'manual',
+      strategy,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: summary,
+      message: `${summary.assigned} de ${summary.evaluated} ticket(s) atribuído(s)`,
+    });
+  } catch (error) {
+    console.error('❌ POST /api/tickets/assignment error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Erro ao atribuir tickets',
+        details: error instanceof Error ? error.message : 'Erro desconhecido',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,220 @@
+/**
+ * API Route para Ações em Lote - HubSpot Integration
+ * Aplica a mesma alteração (estágio, técnico, prioridade, tags ou
+ * Desconsiderar) aos tickets selecionados no Kanban via batch update
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type {
+  BatchTicketResult,
+  BatchTicketUpdate,
+  Ticket,
+} from '@/types/ticket';
+import type { BatchUpdateTicketInput } from '@/lib/services/hubspot-api';
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getRequestUser } from '@/lib/auth/guards';
+import { auditLogService } from '@/lib/services/audit-log';
+import { hubspotApi } from '@/lib/services/hubspot-api';
+import { ticketDatabaseService } from '@/lib/services/ticket-database';
+import { ticketSettingsService } from '@/lib/services/ticket-settings';
+import { ticketStageHistoryService } from '@/lib/services/ticket-stage-history';
+import { getStageIdByRole } from '@/lib/config/ticket-settings';
+import { validateBatchTicketRequest } from '@/lib/validations/ticket-schemas';
+import { transformHubSpotToLocal } from '@/types/ticket';
+
+// Alteração local equivalente ao que foi enviado ao HubSpot
+function buildTicketUpdate(
+  ticket: Ticket,
+  updates: BatchTicketUpdate,
+  discardedStageId?: string
+): Partial<Ticket> {
+  const changes: Partial<Ticket> = {};
+
+  if (updates.discard) changes.pipelineStageId = discardedStageId;
+  if (updates.pipelineStageId) {
+    changes.pipelineStageId = updates.pipelineStageId;
+  }
+  if (updates.hubspotOwnerId !== undefined) {
+    changes.hubspotOwnerId = updates.hubspotOwnerId || undefined;
+  }
+  if (updates.priority) changes.priority = updates.priority;
+  if (updates.addTags) {
+    changes.tags = [...new Set([...(ticket.tags || []), ...updates.addTags])];
+  }
+
+  return changes;
+}
+
+function buildHubSpotProperties(
+  changes: Partial<Ticket>
+): BatchUpdateTicketInput['properties'] {
+  const properties: BatchUpdateTicketInput['properties'] = {};
+
+  if (changes.pipelineStageId) {
+    properties.hs_pipeline_stage = changes.pipelineStageId;
+  }
+  if ('hubspotOwnerId' in changes) {
+    properties.hubspot_owner_id = changes.hubspotOwnerId || '';
+  }
+  if (changes.priority) properties.hs_ticket_priority = changes.priority;
+  if (changes.tags) properties.tags = changes.tags.join(', ');
+
+  return properties;
+}
+
+// POST /api/tickets/batch - { hubspotIds, updates }
+// Responde sempre com o resultado de cada ticket (sucesso ou erro)
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validationResult = validateBatchTicketRequest(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: validationResult.error,
+          details: validationResult.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { hubspotIds, updates } = validationResult.data!;
+
+    // Destino de "Desconsiderar": estágio com papel "discarded" nas configurações
+    const settings = await ticketSettingsService.getSettings();
+    const discardedStageId = updates.discard
+      ? getStageIdByRole(settings, 'discarded')
+      : undefined;
+
+    if (updates.discard && !discardedStageId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Configuração incompleta',
+          details:
+            'Nenhum estágio com o papel "Desconsiderados" em Configurações',
+        },
+        { status: 400 }
+      );
+    }
+
+    console.log(
+      `🎫 POST /api/tickets/batch - ${hubspotIds.length} ticket(s):`,
+      updates
+    );
+
+    // Estado atual (auditoria e tags existentes) em leituras de até 100 IDs
+    const currentTickets = new Map(
+      (await hubspotApi.getTicketsByIds(hubspotIds)).map(hubspotTicket => {
+        const ticket = transformHubSpotToLocal(hubspotTicket, settings);
+
+        return [ticket.hubspotId, ticket];
+      })
+    );
+
+    const results = new Map<string, BatchTicketResult>();
+    const changesById = new Map<string, Partial<Ticket>>();
+    const inputs: BatchUpdateTicketInput[] = [];
+
+    for (const hubspotId of hubspotIds) {
+      const ticket = currentTickets.get(hubspotId);
+
+      if (!ticket) {
+        results.set(hubspotId, {
+          hubspotId,
+          success: false,
+          error: 'Ticket não encontrado no HubSpot',
+        });
+        continue;
+      }
+
+      const changes = buildTicketUpdate(ticket, updates, discardedStageId);
+
+      changesById.set(hubspotId, changes);
+      inputs.push({
+        id: hubspotId,
+        properties: buildHubSpotProperties(changes),
+      });
+    }
+
+    const outcome = await hubspotApi.batchUpdateTickets(inputs);
+    const failures = new Map(
+      outcome.errors.map(error => [error.id, error.message])
+    );
+    const updatedIds = new Set(outcome.results.map(ticket => ticket.id));
+    const changedBy = getRequestUser(request)?.email;
+
+    for (const input of inputs) {
+      const before = currentTickets.get(input.id)!;
+      const after = { ...before, ...changesById.get(input.id) };
+      const error =
+        failures.get(input.id) ||
+        (updatedIds.has(input.id) ? undefined : 'Sem resposta do HubSpot');
+
+      if (!error && before.pipelineStageId !== after.pipelineStageId) {
+        await ticketStageHistoryService.recordTransition({
+          hubspotId: input.id,
+          toStageId: after.pipelineStageId,
+          source: 'dashboard',
+          changedBy,
+        });
+      }
+
+      // Cópia local reflete o lote sem esperar o webhook
+      if (!error) {
+        await ticketDatabaseService.applyLocalChanges(
+          input.id,
+          changesById.get(input.id)!
+        );
+      }
+
+      await auditLogService.record(request, {
+        entityType: 'ticket',
+        entityId: input.id,
+        action: 'update',
+        before,
+        after,
+        upstreamSystem: 'hubspot',
+        error: error ? new Error(error) : undefined,
+      });
+
+      results.set(
+        input.id,
+        error
+          ? { hubspotId: input.id, success: false, error }
+          : { hubspotId: input.id, success: true, ticket: after }
+      );
+    }
+
+    // Mesma ordem da seleção
+    const orderedResults = hubspotIds.map(hubspotId => results.get(hubspotId)!);
+    const succeeded = orderedResults.filter(result => result.success).length;
+    const failed = orderedResults.length - succeeded;
+
+    return NextResponse.json({
+      success: true,
+      data: { results: orderedResults, succeeded, failed },
+      message:
+        failed > 0
+          ? `${succeeded} ticket(s) atualizado(s), ${failed} com erro`
+          : `${succeeded} ticket(s) atualizado(s)`,
+    });
+  } catch (error) {
+    console.error('❌ POST /api/tickets/batch error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Erro ao atualizar tickets em lote',
+        details: error instanceof Error ? error.message : 'Erro desconhecido',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -14,33 +14,23 @@ import type {
 
 import { NextRequest, NextResponse } from 'next/server';
 
+import { getRequestUser } from '@/lib/auth/guards';
+import { auditLogService } from '@/lib/services/audit-log';
 import { hubspotApi } from '@/lib/services/hubspot-api';
 import { transformHubSpotToLocal } from '@/types/ticket';
 import { ticketDatabaseService } from '@/lib/services/ticket-database';
+import { ticketSettingsService } from '@/lib/services/ticket-settings';
+import { userProfileService } from '@/lib/services/user-profiles';
+import {
+  getActivePipelineIds,
+  getAuthorizedOwnerIds,
+  getVisibleStageIds,
+} from '@/lib/config/ticket-settings';
 import {
   validateCreateTicket,
   sanitizeTicketInput,
 } from '@/lib/validations/ticket-schemas';
 
-// Constantes de configuração do sistema (manter sincronizado com hubspot-api.ts)
-const SYSTEM_CONFIG = {
-  TICKETS_PIPELINE_ID: '634240100',
-  CLOSED_TICKETS_STAGE_ID: '1028692851',
-  // Técnicos autorizados do sistema
-  AUTHORIZED_OWNERS: ['1514631054', '360834054', '1727693927'],
-  // Stages permitidos no sistema inPatch
-  ALLOWED_STAGES: [
-    '1110524173', // Triagem N2
-    '1060950860', // P0|Crítico
-    '1060950861', // P1|Alta
-    '1060950862', // P2|Média
-    '1060950863', // P3|Baixa
-    '1060950864', // P4|Trivial
-    '936942379', // Resolvido
-    '1028692851', // Desconsiderado
-  ],
-} as const;
-
 // GET /api/tickets - Buscar tickets com filtros
 export async function GET(request: NextRequest) {
   try {
@@ -71,19 +61,45 @@ export async function GET(request: NextRequest) {
       dateTo: searchParams.get('dateTo') || undefined,
     };
 
+    // "Meus tickets": ownerId=me usa o owner vinculado ao usuário
+    if (filters.ownerId === 'me') {
+      const user = getRequestUser(request);
+      const ownerId = user
+        ? await userProfileService.getHubspotOwnerId(user.id)
+        : null;
+
+      if (!ownerId) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Owner não vinculado',
+            details: 'Seu usuário não está vinculado a um owner do HubSpot',
+          },
+          { status: 400 }
+        );
+      }
+
+      filters.ownerId = ownerId;
+    }
+
     const limit = parseInt(searchParams.get('limit') || '100');
     const after = searchParams.get('after') || undefined;
 
     console.log('🎫 GET /api/tickets - Filters:', filters);
 
+    // Configurações gerenciadas (pipelines, stages e técnicos)
+    const settings = await ticketSettingsService.getSettings();
+    const allowedStageIds = getVisibleStageIds(settings);
+    const authorizedOwnerIds = getAuthorizedOwnerIds(settings);
+
     // Construir filtros para HubSpot
     const hubspotFilters: HubSpotSearchFilter[] = [];
 
-    // FILTRO OBRIGATÓRIO: Apenas pipeline específica
+    // FILTRO OBRIGATÓRIO: Apenas pipelines ativas
     hubspotFilters.push({
       propertyName: 'hs_pipeline',
-      operator: 'EQ',
-      value: SYSTEM_CONFIG.TICKETS_PIPELINE_ID,
+      operator: 'IN',
+      values: getActivePipelineIds(settings),
     });
 
     // FILTRO: Incluir apenas stages do sistema inPatch
@@ -91,17 +107,16 @@ export async function GET(request: NextRequest) {
     hubspotFilters.push({
       propertyName: 'hs_pipeline_stage',
       operator: 'IN',
-      values: [...SYSTEM_CONFIG.ALLOWED_STAGES], // Spread operator para evitar referência circular
-    });
-
-    // FILTRO OBRIGATÓRIO: Apenas tickets com técnico atribuído
-    hubspotFilters.push({
-      propertyName: 'hubspot_owner_id',
-      operator: 'HAS_PROPERTY',
+      values: allowedStageIds,
     });
 
-    // Filtro por owner
-    if (filters.ownerId && typeof filters.ownerId === 'string') {
+    // Filtro por owner ("unassigned" = fila sem responsável)
+    if (filters.ownerId === 'unassigned') {
+      hubspotFilters.push({
+        propertyName: 'hubspot_owner_id',
+        operator: 'NOT_HAS_PROPERTY',
+      });
+    } else if (filters.ownerId && typeof filters.ownerId === 'string') {
       hubspotFilters.push({
         propertyName: 'hubspot_owner_id',
         operator: 'EQ',
@@ -197,20 +212,16 @@ export async function GET(request: NextRequest) {
 
           // Filtrar tickets conforme critérios do sistema inPatch
           const filteredTickets = localTickets.filter(ticket => {
-            // Deve ter técnico atribuído
-            if (!ticket.hubspotOwnerId) return false;
-
-            // Técnico deve estar autorizado
+            // Sem responsável entra na fila de atribuição; com responsável,
+            // o técnico deve estar autorizado
             if (
-              !SYSTEM_CONFIG.AUTHORIZED_OWNERS.includes(
-                ticket.hubspotOwnerId as any
-              )
+              ticket.hubspotOwnerId &&
+              !authorizedOwnerIds.includes(ticket.hubspotOwnerId)
             )
               return false;
 
             // Deve estar em um dos stages permitidos
-            if (!SYSTEM_CONFIG.ALLOWED_STAGES.includes(ticket.pipelineStageId as any))
-              return false;
+            if (!allowedStageIds.includes(ticket.pipelineStageId)) return false;
 
             return true;
           });
@@ -247,20 +258,20 @@ export async function GET(request: NextRequest) {
     );
 
     // Transformar e filtrar conforme critérios do sistema inPatch
-    const allTickets = hubspotResponse.results.map(transformHubSpotToLocal);
+    const allTickets = hubspotResponse.results.map(hubspotTicket =>
+      transformHubSpotToLocal(hubspotTicket, settings)
+    );
     const authorizedTickets = allTickets.filter(ticket => {
-      // Deve ter técnico atribuído
-      if (!ticket.hubspotOwnerId) return false;
-
-      // Técnico deve estar autorizado
+      // Sem responsável entra na fila de atribuição; com responsável,
+      // o técnico deve estar autorizado
       if (
-        !SYSTEM_CONFIG.AUTHORIZED_OWNERS.includes(ticket.hubspotOwnerId as any)
+        ticket.hubspotOwnerId &&
+        !authorizedOwnerIds.includes(ticket.hubspotOwnerId)
       )
         return false;
 
       // Deve estar em um dos stages permitidos
-      if (!SYSTEM_CONFIG.ALLOWED_STAGES.includes(ticket.pipelineStageId as any))
-        return false;
+      if (!allowedStageIds.includes(ticket.pipelineStageId)) return false;
 
       return true;
     });
@@ -269,7 +280,10 @@ export async function GET(request: NextRequest) {
     if (process.env.DATABASE_URL) {
       setImmediate(async () => {
         try {
-          await ticketDatabaseService.syncFromHubSpot(filters);
+          // Incremental e sem reconciliação para poupar o rate limit
+          await ticketDatabaseService.syncFromHubSpot(filters, {
+            reconcile: false,
+          });
           console.log('✅ Sincronização em background concluída');
         } catch (syncError) {
           console.warn('⚠️ Erro na sincronização em background:', syncError);
@@ -346,11 +360,11 @@ export async function POST(request: NextRequest) {
     const ticketData = validationResult.data!;
 
     // Validar se o técnico é autorizado (se especificado)
+    const settings = await ticketSettingsService.getSettings();
+
     if (
       ticketData.hubspotOwnerId &&
-      !SYSTEM_CONFIG.AUTHORIZED_OWNERS.includes(
-        ticketData.hubspotOwnerId as any
-      )
+      !getAuthorizedOwnerIds(settings).includes(ticketData.hubspotOwnerId)
     ) {
       return NextResponse.json(
         {
@@ -369,6 +383,15 @@ export async function POST(request: NextRequest) {
       if (process.env.DATABASE_URL) {
         const ticket = await ticketDatabaseService.createTicket(ticketData);
 
+        await auditLogService.record(request, {
+          entityType: 'ticket',
+          entityId: ticket.hubspotId,
+          action: 'create',
+          after: ticket,
+          upstreamSystem: 'hubspot',
+          upstreamResponse: ticket,
+        });
+
         const response = {
           success: true,
           data: { ticket },
@@ -418,7 +441,16 @@ export async function POST(request: NextRequest) {
       });
 
       // Transformar dados do HubSpot para formato local
-      const ticket = transformHubSpotToLocal(hubspotTicket);
+      const ticket = transformHubSpotToLocal(hubspotTicket, settings);
+
+      await auditLogService.record(request, {
+        entityType: 'ticket',
+        entityId: ticket.hubspotId,
+        action: 'create',
+        after: ticket,
+        upstreamSystem: 'hubspot',
+        upstreamResponse: hubspotTicket,
+      });
 
       const response = {
         success: true,
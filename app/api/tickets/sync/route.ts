@@ -11,12 +11,21 @@ import { NextRequest, NextResponse } from 'next/server';
 import { ticketDatabaseService } from '@/lib/services/ticket-database';
 
 // POST /api/tickets/sync - Forçar sincronização manual
-export async function POST(_request: NextRequest) {
+// ?mode=full relê todos os tickets; padrão é incremental (marca d'água)
+export async function POST(request: NextRequest) {
   try {
-    console.log('🔄 POST /api/tickets/sync - Sincronização manual iniciada');
+    const mode =
+      request.nextUrl.searchParams.get('mode') === 'full'
+        ? 'full'
+        : 'incremental';
 
-    // Executar sincronização completa
-    const syncStats = await ticketDatabaseService.syncFromHubSpot();
+    console.log(
+      `🔄 POST /api/tickets/sync - Sincronização manual iniciada (${mode})`
+    );
+
+    const syncStats = await ticketDatabaseService.syncFromHubSpot(undefined, {
+      mode,
+    });
 
     const response = {
       success: true,
@@ -48,7 +57,10 @@ export async function GET(_request: NextRequest) {
     console.log('📊 GET /api/tickets/sync - Verificando status');
 
     // Tentar buscar tickets locais para verificar se há dados
-    const localTickets = await ticketDatabaseService.getLocalTickets();
+    const [localTickets, syncStates] = await Promise.all([
+      ticketDatabaseService.getLocalTickets(),
+      ticketDatabaseService.getSyncStates(),
+    ]);
 
     const response = {
       success: true,
@@ -56,6 +68,7 @@ export async function GET(_request: NextRequest) {
         localTicketsCount: localTickets.length,
         lastCheck: new Date().toISOString(),
         hasLocalData: localTickets.length > 0,
+        pipelines: syncStates,
       },
       message: `${localTickets.length} tickets no banco local`,
     };
@@ -0,0 +1,79 @@
+/**
+ * API Route para Transições de Estágio dos Tickets
+ * Permanência agregada por estágio e backfill a partir do histórico do HubSpot
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { ticketStageHistoryService } from '@/lib/services/ticket-stage-history';
+import { APIError } from '@/lib/utils/validation';
+
+// GET /api/tickets/transitions?dateFrom=&dateTo=&ownerId= - Permanência por estágio
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+
+  try {
+    const stats = await ticketStageHistoryService.getStageDwellStats({
+      dateFrom: searchParams.get('dateFrom') || undefined,
+      dateTo: searchParams.get('dateTo') || undefined,
+      ownerId: searchParams.get('ownerId') || undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: stats,
+      message: `Permanência calculada para ${stats.length} estágio(s)`,
+    });
+  } catch (error) {
+    console.error('❌ GET /api/tickets/transitions error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Erro ao calcular permanência por estágio',
+        details: error instanceof Error ? error.message : 'Erro desconhecido',
+      },
+      { status: error instanceof APIError ? error.statusCode : 500 }
+    );
+  }
+}
+
+// POST /api/tickets/transitions - Backfill { hubspotIds?, force?, limit? }
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const hubspotIds = Array.isArray(body.hubspotIds)
+      ? body.hubspotIds.map(String)
+      : undefined;
+
+    console.log(
+      `🕓 POST /api/tickets/transitions - Backfill${body.force ? ' (forçado)' : ''}`
+    );
+
+    const stats = await ticketStageHistoryService.backfillFromHubSpot({
+      hubspotIds,
+      force: body.force === true,
+      limit: typeof body.limit === 'number' ? body.limit : undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { stats, timestamp: new Date().toISOString() },
+      message: `Histórico reconstruído para ${stats.tickets} ticket(s)`,
+    });
+  } catch (error) {
+    console.error('❌ POST /api/tickets/transitions error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Erro ao reconstruir histórico de estágios',
+        details: error instanceof Error ? error.message : 'Erro desconhecido',
+      },
+      { status: error instanceof APIError ? error.statusCode : 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { requireRole } from '@/lib/auth/guards';
+import { trelloApi } from '@/lib/trello';
+
+// Register the board webhook server-side (idempotent).
+// The callback URL comes from the environment so clients cannot point
+// board activity at arbitrary URLs.
+export async function POST(request: NextRequest) {
+  const denied = requireRole(request, 'admin');
+
+  if (denied) return denied;
+
+  try {
+    const callbackURL = process.env.TRELLO_WEBHOOK_CALLBACK_URL;
+
+    if (!callbackURL) {
+      return NextResponse.json(
+        { error: 'TRELLO_WEBHOOK_CALLBACK_URL not configured' },
+        { status: 503 }
+      );
+    }
+
+    const webhooks = await trelloApi.getWebhooks();
+    const existing = webhooks.find(
+      webhook => webhook.callbackURL === callbackURL
+    );
+
+    if (existing) {
+      return NextResponse.json({ success: true, created: false });
+    }
+
+    await trelloApi.createWebhook(callbackURL);
+
+    return NextResponse.json({ success: true, created: true }, { status: 201 });
+  } catch (error) {
+    if (process.env.NODE_ENV === 'development') {
+      console.error('Failed to register Trello webhook:', error);
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to register webhook' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,55 @@
+import type { Prisma } from '@prisma/client';
+import type { TrelloWebhookPayload } from '@/types/webhook-pipeline';
+
 import { NextRequest, NextResponse } from 'next/server';
 
-import { trelloSyncService } from '@/lib/services/trello-sync';
+import {
+  verifyTrelloWebhookSignature,
+  webhookHandler,
+} from '@/lib/api/webhook-handler';
+import { webhookQueueService } from '@/lib/services/webhook-queue';
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
+    const secret = process.env.TRELLO_WEBHOOK_SECRET;
+
+    if (!secret) {
+      return NextResponse.json(
+        { error: 'Webhook secret not configured' },
+        { status: 503 }
+      );
+    }
+
+    // Signature is computed over the raw body + the registered callback URL
+    const rawBody = await request.text();
+    const callbackURL = process.env.TRELLO_WEBHOOK_CALLBACK_URL || request.url;
+
+    if (
+      !verifyTrelloWebhookSignature(
+        rawBody,
+        callbackURL,
+        request.headers.get('x-trello-webhook'),
+        secret
+      )
+    ) {
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+
+    let body: TrelloWebhookPayload;
+    // Same parsed body, kept as JSON for the queue
+    let payload: Prisma.InputJsonValue;
+
+    try {
+      const parsed = JSON.parse(rawBody);
+
+      body = parsed;
+      payload = parsed;
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid webhook payload' },
+        { status: 400 }
+      );
+    }
 
     // Validate webhook payload
     if (!body.action || !body.model) {
@@ -24,30 +69,20 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // Filter relevant actions
-    const relevantActions = [
-      'createCard',
-      'updateCard',
-      'deleteCard',
-      'moveCardFromBoard',
-      'moveCardToBoard',
-      'addChecklistToCard',
-      'updateCheckItemStateOnCard',
-    ];
-
-    if (relevantActions.includes(body.action.type)) {
-      // Trigger sync in background
-      setTimeout(async () => {
-        try {
-          await trelloSyncService.syncFromTrello();
-          // Sync completed successfully
-        } catch {
-          // Handle sync errors silently in production
-        }
-      }, 1000); // Small delay to ensure Trello data is consistent
-    }
+    // Persist first so a failed delivery can be retried from the queue
+    await webhookQueueService.enqueue([
+      {
+        source: 'trello',
+        externalId: body.action.id,
+        eventType: body.action.type,
+        payload,
+      },
+    ]);
+
+    // Process opportunistically; failures stay queued for the worker
+    const drain = await webhookQueueService.drain();
 
-    return NextResponse.json({ success: true });
+    return NextResponse.json({ success: true, data: drain });
   } catch (error) {
     // Log errors only in development
     if (process.env.NODE_ENV === 'development') {
@@ -61,7 +96,14 @@ export async function POST(request: NextRequest) {
   }
 }
 
+// Trello probes the callback URL with HEAD when the webhook is created
+export async function HEAD(_request: NextRequest) {
+  return new NextResponse(null, { status: 200 });
+}
+
 export async function GET(_request: NextRequest) {
-  // Handle Trello webhook verification
-  return NextResponse.json({ message: 'Trello webhook endpoint active' });
+  return NextResponse.json({
+    message: 'Trello webhook endpoint active',
+    health: webhookHandler.getHealthStatus(),
+  });
 }
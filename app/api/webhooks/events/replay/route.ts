@@ -0,0 +1,60 @@
+/**
+ * API Route para Replay de Eventos de Webhook
+ * Reenfileira eventos com falha ou em dead-letter
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { requireRole } from '@/lib/auth/guards';
+import { webhookQueueService } from '@/lib/services/webhook-queue';
+
+// POST /api/webhooks/events/replay - Reprocessar eventos selecionados
+export async function POST(request: NextRequest) {
+  const denied = requireRole(request, 'admin');
+
+  if (denied) return denied;
+
+  try {
+    const body = await request.json();
+    const ids = Array.isArray(body?.ids)
+      ? body.ids.filter((id: unknown) => typeof id === 'string')
+      : [];
+
+    if (ids.length === 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Dados inválidos',
+          details: 'Informe ao menos um ID de evento em "ids"',
+        },
+        { status: 400 }
+      );
+    }
+
+    console.log(
+      `🔁 POST /api/webhooks/events/replay - ${ids.length} evento(s)`
+    );
+
+    const result = await webhookQueueService.replay(ids);
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: `${result.succeeded} de ${ids.length} evento(s) reprocessado(s)`,
+    });
+  } catch (error) {
+    console.error('❌ POST /api/webhooks/events/replay error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Erro ao reprocessar eventos',
+        details: error instanceof Error ? error.message : 'Erro desconhecido',
+      },
+      { status: 500 }
+    );
+  }
+}
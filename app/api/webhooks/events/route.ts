@@ -0,0 +1,64 @@
+/**
+ * API Route para Eventos da Fila de Webhooks
+ * Lista eventos persistidos e estatísticas para o painel admin
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type { WebhookEventStatus, WebhookSource } from '@/types/webhook-queue';
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { requireRole } from '@/lib/auth/guards';
+import { webhookHandler } from '@/lib/api/webhook-handler';
+import { webhookQueueService } from '@/lib/services/webhook-queue';
+
+// GET /api/webhooks/events - Listar eventos (?status=FAILED,DEAD&source=trello)
+export async function GET(request: NextRequest) {
+  const denied = requireRole(request, 'admin');
+
+  if (denied) return denied;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status')?.split(',').filter(Boolean) as
+      | WebhookEventStatus[]
+      | undefined;
+    const source = (searchParams.get('source') || undefined) as
+      | WebhookSource
+      | undefined;
+    const limit = Number(searchParams.get('limit')) || 50;
+    const offset = Number(searchParams.get('offset')) || 0;
+
+    console.log('📋 GET /api/webhooks/events', { status, source });
+
+    const [{ events, total }, queueStats] = await Promise.all([
+      webhookQueueService.listEvents({ status, source, limit, offset }),
+      webhookQueueService.getStats(),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        events,
+        total,
+        queueStats,
+        handlerStats: webhookHandler.getStats(),
+        health: webhookHandler.getHealthStatus(),
+      },
+      message: `${events.length} evento(s) encontrado(s)`,
+    });
+  } catch (error) {
+    console.error('❌ GET /api/webhooks/events error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Erro ao listar eventos de webhook',
+        details: error instanceof Error ? error.message : 'Erro desconhecido',
+      },
+      { status: 500 }
+    );
+  }
+}
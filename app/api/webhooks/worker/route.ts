@@ -0,0 +1,74 @@
+/**
+ * API Route para o Worker da Fila de Webhooks
+ * Drena eventos pendentes e reprocessa falhas com backoff exponencial
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { webhookQueueService } from '@/lib/services/webhook-queue';
+
+// GET /api/webhooks/worker - Drenar a fila (Vercel Cron, ver vercel.json)
+export async function GET(request: NextRequest) {
+  return drainQueue(request);
+}
+
+// POST /api/webhooks/worker - Drenar a fila (chamado por cron externo)
+export async function POST(request: NextRequest) {
+  return drainQueue(request);
+}
+
+async function drainQueue(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+
+    // Rota pública: sem segredo configurado, ninguém pode acionar o worker
+    if (!cronSecret) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Configuração incompleta',
+          details: 'CRON_SECRET não configurado',
+        },
+        { status: 503 }
+      );
+    }
+
+    if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Não autorizado',
+          details: 'Token do worker inválido',
+        },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Number(searchParams.get('limit')) || undefined;
+
+    console.log(`⚙️ ${request.method} /api/webhooks/worker`);
+
+    const result = await webhookQueueService.drain({ limit });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: `${result.claimed} evento(s) processado(s)`,
+    });
+  } catch (error) {
+    console.error(`❌ ${request.method} /api/webhooks/worker error:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Erro ao drenar fila de webhooks',
+        details: error instanceof Error ? error.message : 'Erro desconhecido',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Login Page - Acesso ao inPatch via Supabase Auth
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+'use client';
+
+import { FormEvent, Suspense, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Button } from '@heroui/button';
+import { Card, CardBody, CardHeader } from '@heroui/card';
+import { Input } from '@heroui/input';
+import { FiLock, FiLogIn, FiMail } from 'react-icons/fi';
+
+import { signIn } from '@/lib/api/client-auth';
+
+function LoginForm() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Apenas caminhos internos para evitar open redirect
+  const redirectParam = searchParams.get('redirect') || '/';
+  const redirectTo =
+    redirectParam.startsWith('/') && !redirectParam.startsWith('//')
+      ? redirectParam
+      : '/';
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await signIn(email, password);
+      router.replace(redirectTo);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Falha no login');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader className="flex flex-col items-start gap-1 px-6 pt-6">
+        <h1 className="text-2xl font-bold">Entrar</h1>
+        <p className="text-sm text-default-500">
+          Use sua conta do time de Suporte
+        </p>
+      </CardHeader>
+      <CardBody className="px-6 pb-6">
+        <form className="flex flex-col gap-4" onSubmit={handleSubmit}>
+          <Input
+            isRequired
+            autoComplete="email"
+            label="E-mail"
+            startContent={<FiMail className="text-default-400" />}
+            type="email"
+            value={email}
+            onValueChange={setEmail}
+          />
+          <Input
+            isRequired
+            autoComplete="current-password"
+            label="Senha"
+            startContent={<FiLock className="text-default-400" />}
+            type="password"
+            value={password}
+            onValueChange={setPassword}
+          />
+          {error && <p className="text-sm text-danger">{error}</p>}
+          <Button
+            color="primary"
+            isLoading={isSubmitting}
+            startContent={!isSubmitting && <FiLogIn />}
+            type="submit"
+          >
+            Entrar
+          </Button>
+        </form>
+      </CardBody>
+    </Card>
+  );
+}
+
+export default function LoginPage() {
+  return (
+    <div className="flex justify-center py-16">
+      <Suspense fallback={null}>
+        <LoginForm />
+      </Suspense>
+    </div>
+  );
+}
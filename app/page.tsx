@@ -2,7 +2,14 @@
 
 import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
-import { FiRefreshCw, FiTrendingUp, FiUsers, FiActivity } from 'react-icons/fi';
+import {
+  FiRefreshCw,
+  FiTrendingUp,
+  FiUsers,
+  FiActivity,
+  FiGrid,
+  FiBarChart2,
+} from 'react-icons/fi';
 import { Button } from '@heroui/button';
 import { Toaster, toast } from 'react-hot-toast';
 
@@ -23,17 +30,21 @@ import {
 import { title, subtitle } from '@/components/primitives';
 import { useProjectStore } from '@/lib/store';
 import { ProjectEditor } from '@/components/project-editor';
+import { ProjectTimeline } from '@/components/project-timeline';
 
 export default function Home() {
   const [selectedProject, setSelectedProject] = useState<Project | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isEditorOpen, setIsEditorOpen] = useState(false);
   const [editorProject, setEditorProject] = useState<Project | null>(null);
+  const [viewMode, setViewMode] = useState<'cards' | 'timeline'>('cards');
 
   const {
     loading,
     error,
     lastUpdated,
+    projects,
+    setProjects,
     fetchProjects,
     refreshProjects,
     getFilteredProjects,
@@ -139,6 +150,66 @@ export default function Home() {
     }
   };
 
+  // Prazo alterado na linha do tempo: atualização otimista + PUT (Trello `due`)
+  const handleDueDateChange = async (
+    project: Project,
+    estimatedEndDate: string
+  ) => {
+    const previous = projects;
+
+    setProjects(
+      projects.map(item =>
+        item.id === project.id ? { ...item, estimatedEndDate } : item
+      )
+    );
+
+    try {
+      const { updateProject } = await import('@/lib/api/client-projects');
+      const { project: updated } = await updateProject({
+        id: project.id,
+        trelloCardId: project.trelloCardId || project.id,
+        estimatedEndDate,
+      });
+
+      // O card relido não traz dependências nem checklists: só o prazo muda
+      setProjects(
+        useProjectStore
+          .getState()
+          .projects.map(item =>
+            item.id === project.id
+              ? { ...item, estimatedEndDate: updated.estimatedEndDate }
+              : item
+          )
+      );
+      toast.success(
+        `Prazo atualizado para ${new Date(estimatedEndDate).toLocaleDateString('pt-BR')}`
+      );
+    } catch (e: any) {
+      setProjects(previous);
+      toast.error(e?.message || 'Falha ao atualizar prazo');
+    }
+  };
+
+  // Item de checklist alternado no modal: progresso recalculado no servidor
+  const handleChecklistUpdated = (updated: Project) => {
+    const merge = (item: Project) => ({
+      ...item,
+      progress: updated.progress,
+      checklists: updated.checklists,
+    });
+    const isSameCard = (item: Project) =>
+      (item.trelloCardId || item.id) === updated.trelloCardId;
+
+    setProjects(
+      useProjectStore
+        .getState()
+        .projects.map(item => (isSameCard(item) ? merge(item) : item))
+    );
+    setSelectedProject(current =>
+      current && isSameCard(current) ? merge(current) : current
+    );
+  };
+
   const handleEditorSaved = async () => {
     await refreshProjects();
   };
@@ -259,6 +330,24 @@ export default function Home() {
             {lastUpdated && `Última atualização: ${lastUpdated}`}
           </div>
           <div className="flex items-center gap-2 order-1 sm:order-2">
+            <Button
+              isIconOnly
+              aria-label="Visualizar em cards"
+              color={viewMode === 'cards' ? 'primary' : 'default'}
+              variant={viewMode === 'cards' ? 'solid' : 'flat'}
+              onClick={() => setViewMode('cards')}
+            >
+              <FiGrid className="w-4 h-4" />
+            </Button>
+            <Button
+              isIconOnly
+              aria-label="Visualizar linha do tempo"
+              color={viewMode === 'timeline' ? 'primary' : 'default'}
+              variant={viewMode === 'timeline' ? 'solid' : 'flat'}
+              onClick={() => setViewMode('timeline')}
+            >
+              <FiBarChart2 className="w-4 h-4" />
+            </Button>
             <Button color="default" variant="flat" onClick={handleCreateNew}>
               Novo Projeto
             </Button>
@@ -278,9 +367,23 @@ export default function Home() {
           </div>
         </motion.div>
 
-        {/* Projects Grouped by Status */}
+        {/* Projects Grouped by Status (or Timeline) */}
         {loading ? (
           <ProjectGridSkeleton count={6} />
+        ) : viewMode === 'timeline' ? (
+          filteredProjects.length > 0 && (
+            <motion.div
+              animate={{ opacity: 1 }}
+              initial={{ opacity: 0 }}
+              transition={{ delay: 0.2 }}
+            >
+              <ProjectTimeline
+                projects={filteredProjects}
+                onDueDateChange={handleDueDateChange}
+                onProjectClick={handleProjectClick}
+              />
+            </motion.div>
+          )
         ) : (
           <motion.div
             animate={{ opacity: 1 }}
@@ -334,9 +437,13 @@ export default function Home() {
         <ProjectDetailModal
           isOpen={isModalOpen}
           project={selectedProject}
+          onAttachmentsChanged={refreshProjects}
           onClose={handleCloseModal}
+          onConflictResolved={refreshProjects}
           onDelete={handleDeleteProject}
+          onDependenciesChanged={refreshProjects}
           onEdit={handleEditProject}
+          onProjectUpdated={handleChecklistUpdated}
         />
 
         {/* Project Editor Modal */}
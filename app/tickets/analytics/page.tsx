@@ -0,0 +1,600 @@
+/**
+ * Ticket Analytics Page - Métricas históricas dos tickets
+ * Criados x resolvidos, tempo até o fechamento por prioridade e técnico,
+ * idade do backlog, reaberturas e permanência por estágio
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+'use client';
+
+import type {
+  AnalyticsGranularity,
+  TicketAnalytics,
+  TimeToCloseStats,
+} from '@/types/ticket-analytics';
+
+import { useEffect, useState } from 'react';
+import NextLink from 'next/link';
+import { motion } from 'framer-motion';
+import { Button } from '@heroui/button';
+import { Card, CardBody, CardHeader } from '@heroui/card';
+import { Chip } from '@heroui/chip';
+import { Input } from '@heroui/input';
+import { Select, SelectItem } from '@heroui/select';
+import { Spinner } from '@heroui/spinner';
+import {
+  FiArrowLeft,
+  FiBarChart2,
+  FiCheckCircle,
+  FiClock,
+  FiInbox,
+  FiPlusCircle,
+  FiRefreshCw,
+  FiRotateCcw,
+} from 'react-icons/fi';
+import { Toaster, toast } from 'react-hot-toast';
+
+import { useTicketStore } from '@/lib/stores/ticket-store';
+import {
+  getActiveTechnicians,
+  getStageSettingsMap,
+  getTechnicianSettingsMap,
+} from '@/lib/config/ticket-settings';
+import { formatDwellMinutes } from '@/lib/utils/ticket-timeline';
+import { TICKET_PRIORITY_LABELS } from '@/types/ticket';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface AnalyticsFilterState {
+  dateFrom: string;
+  dateTo: string;
+  ownerId: string;
+  granularity: AnalyticsGranularity;
+}
+
+const toDateInput = (date: Date) =>
+  new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000)
+    .toISOString()
+    .substring(0, 10);
+
+const getDefaultFilters = (): AnalyticsFilterState => ({
+  dateFrom: toDateInput(new Date(Date.now() - 29 * DAY_MS)),
+  dateTo: toDateInput(new Date()),
+  ownerId: '',
+  granularity: 'day',
+});
+
+// Horas até 2 dias; acima disso, dias
+const formatHours = (hours: number) =>
+  hours < 48 ? `${hours}h` : `${(hours / 24).toFixed(1)}d`;
+
+const formatPeriod = (period: string, granularity: AnalyticsGranularity) => {
+  const [, month, day] = period.split('-');
+
+  return granularity === 'week' ? `sem ${day}/${month}` : `${day}/${month}`;
+};
+
+const pageVariants = {
+  initial: { opacity: 0 },
+  animate: {
+    opacity: 1,
+    transition: { duration: 0.4, ease: 'easeOut' },
+  },
+};
+
+function TimeToCloseTable({
+  rows,
+  label,
+}: {
+  rows: Array<TimeToCloseStats & { label: string }>;
+  label: string;
+}) {
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs text-foreground/50">
+          <th className="pb-2 font-medium">{label}</th>
+          <th className="pb-2 font-medium text-right">Tickets</th>
+          <th className="pb-2 font-medium text-right">Média</th>
+          <th className="pb-2 font-medium text-right">Mediana</th>
+          <th className="pb-2 font-medium text-right">p90</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(row => (
+          <tr key={row.key} className="border-t border-divider">
+            <td className="py-2 text-foreground">{row.label}</td>
+            <td className="py-2 text-right">{row.count}</td>
+            <td className="py-2 text-right">
+              {row.count > 0 ? formatHours(row.avgHours) : '—'}
+            </td>
+            <td className="py-2 text-right font-medium">
+              {row.count > 0 ? formatHours(row.medianHours) : '—'}
+            </td>
+            <td className="py-2 text-right">
+              {row.count > 0 ? formatHours(row.p90Hours) : '—'}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default function TicketAnalyticsPage() {
+  const { settings, fetchSettings } = useTicketStore();
+  const [filters, setFilters] =
+    useState<AnalyticsFilterState>(getDefaultFilters);
+  const [analytics, setAnalytics] = useState<TicketAnalytics | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const technicians = getActiveTechnicians(settings);
+  const technicianMap = getTechnicianSettingsMap(settings);
+  const stageMap = getStageSettingsMap(settings);
+
+  const ownerLabel = (ownerId: string) =>
+    ownerId === 'unassigned'
+      ? 'Não Atribuído'
+      : technicianMap[ownerId]?.name || `Técnico ${ownerId.slice(-4)}`;
+
+  const loadAnalytics = async () => {
+    setIsLoading(true);
+
+    try {
+      const params = new URLSearchParams({ granularity: filters.granularity });
+
+      if (filters.dateFrom) params.set('dateFrom', filters.dateFrom);
+      if (filters.dateTo) params.set('dateTo', filters.dateTo);
+      if (filters.ownerId) params.set('ownerId', filters.ownerId);
+
+      const response = await fetch(`/api/tickets/analytics?${params}`);
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(
+          data.details || data.error || 'Falha ao carregar analytics'
+        );
+      }
+
+      setAnalytics(data.data);
+    } catch (error) {
+      console.error('❌ Erro ao carregar analytics:', error);
+      toast.error(
+        error instanceof Error ? error.message : 'Erro ao carregar analytics'
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  useEffect(() => {
+    loadAnalytics();
+  }, [filters]);
+
+  const updateFilter = <K extends keyof AnalyticsFilterState>(
+    key: K,
+    value: AnalyticsFilterState[K]
+  ) => setFilters(current => ({ ...current, [key]: value }));
+
+  const maxThroughput = analytics
+    ? Math.max(
+        1,
+        ...analytics.throughput.map(point =>
+          Math.max(point.created, point.resolved)
+        )
+      )
+    : 1;
+  const maxBacklog = analytics
+    ? Math.max(1, ...analytics.backlogAge.map(bucket => bucket.count))
+    : 1;
+
+  const kpis = analytics
+    ? [
+        {
+          key: 'created',
+          label: 'Criados',
+          value: String(analytics.totals.created),
+          icon: <FiPlusCircle className="text-primary-500" />,
+        },
+        {
+          key: 'resolved',
+          label: 'Resolvidos',
+          value: String(analytics.totals.resolved),
+          icon: <FiCheckCircle className="text-success-500" />,
+        },
+        {
+          key: 'time-to-close',
+          label: `Mediana até fechar (p90 ${formatHours(analytics.totals.timeToClose.p90Hours)})`,
+          value:
+            analytics.totals.timeToClose.count > 0
+              ? formatHours(analytics.totals.timeToClose.medianHours)
+              : '—',
+          icon: <FiClock className="text-warning-500" />,
+        },
+        {
+          key: 'backlog',
+          label: 'Backlog atual',
+          value: String(analytics.totals.backlog),
+          icon: <FiInbox className="text-secondary-500" />,
+        },
+        {
+          key: 'reopened',
+          label: 'Reabertos',
+          value: String(analytics.totals.reopened),
+          icon: <FiRotateCcw className="text-danger-500" />,
+        },
+      ]
+    : [];
+
+  return (
+    <motion.div
+      animate="animate"
+      className="min-h-screen p-4 md:p-6 lg:p-8"
+      initial="initial"
+      variants={pageVariants}
+    >
+      <Toaster position="top-right" />
+      <div className="max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <header className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <div className="space-y-1">
+            <h1 className="text-3xl md:text-4xl font-bold text-foreground">
+              📈 Analytics de Tickets
+            </h1>
+            <p className="text-foreground/70">
+              Vazão, tempo até o fechamento e backlog a partir da cópia local do
+              HubSpot
+            </p>
+          </div>
+
+          <div className="flex gap-2">
+            <Button
+              as={NextLink}
+              href="/tickets"
+              startContent={<FiArrowLeft />}
+              variant="light"
+            >
+              Kanban
+            </Button>
+            <Button
+              isDisabled={isLoading}
+              startContent={<FiRefreshCw />}
+              variant="flat"
+              onPress={loadAnalytics}
+            >
+              Recarregar
+            </Button>
+          </div>
+        </header>
+
+        {/* Filtros */}
+        <Card className="liquid-glass">
+          <CardBody className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <Input
+              label="De"
+              size="sm"
+              type="date"
+              value={filters.dateFrom}
+              onValueChange={value => updateFilter('dateFrom', value)}
+            />
+            <Input
+              label="Até"
+              size="sm"
+              type="date"
+              value={filters.dateTo}
+              onValueChange={value => updateFilter('dateTo', value)}
+            />
+            <Select
+              label="Técnico"
+              placeholder="Todos"
+              selectedKeys={filters.ownerId ? [filters.ownerId] : []}
+              size="sm"
+              onSelectionChange={keys =>
+                updateFilter('ownerId', String(Array.from(keys)[0] ?? ''))
+              }
+            >
+              {[
+                ...technicians.map(technician => (
+                  <SelectItem key={technician.id}>{technician.name}</SelectItem>
+                )),
+                <SelectItem key="unassigned">Não Atribuído</SelectItem>,
+              ]}
+            </Select>
+            <Select
+              disallowEmptySelection
+              label="Agrupar por"
+              selectedKeys={[filters.granularity]}
+              size="sm"
+              onSelectionChange={keys =>
+                updateFilter(
+                  'granularity',
+                  Array.from(keys)[0] === 'week' ? 'week' : 'day'
+                )
+              }
+            >
+              <SelectItem key="day">Dia</SelectItem>
+              <SelectItem key="week">Semana</SelectItem>
+            </Select>
+          </CardBody>
+        </Card>
+
+        {!analytics && isLoading && (
+          <div className="flex justify-center py-12">
+            <Spinner color="primary" />
+          </div>
+        )}
+
+        {analytics && (
+          <>
+            {/* Indicadores */}
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              {kpis.map(kpi => (
+                <Card key={kpi.key} className="liquid-glass">
+                  <CardBody className="p-4">
+                    <div className="flex items-center gap-2 text-xl">
+                      {kpi.icon}
+                      <span className="text-2xl font-bold text-foreground">
+                        {kpi.value}
+                      </span>
+                    </div>
+                    <p className="text-xs text-foreground/60 mt-1">
+                      {kpi.label}
+                    </p>
+                  </CardBody>
+                </Card>
+              ))}
+            </div>
+
+            {/* Criados x resolvidos */}
+            <Card className="liquid-glass">
+              <CardHeader className="flex items-center gap-2">
+                <FiBarChart2 className="text-xl text-primary" />
+                <h2 className="text-lg font-semibold text-foreground">
+                  Criados x Resolvidos
+                </h2>
+                <div className="ml-auto flex gap-2">
+                  <Chip color="primary" size="sm" variant="dot">
+                    Criados
+                  </Chip>
+                  <Chip color="success" size="sm" variant="dot">
+                    Resolvidos
+                  </Chip>
+                </div>
+              </CardHeader>
+              <CardBody>
+                <div className="flex items-end gap-2 h-48 overflow-x-auto pb-6">
+                  {analytics.throughput.map(point => (
+                    <div
+                      key={point.period}
+                      className="relative flex flex-col items-center justify-end h-full min-w-[28px] flex-1"
+                      title={`${formatPeriod(point.period, analytics.range.granularity)}: ${point.created} criado(s), ${point.resolved} resolvido(s)`}
+                    >
+                      <div className="flex items-end gap-0.5 h-full">
+                        <div
+                          className="w-2.5 rounded-t bg-primary-500"
+                          style={{
+                            height: `${(point.created / maxThroughput) * 100}%`,
+                          }}
+                        />
+                        <div
+                          className="w-2.5 rounded-t bg-success-500"
+                          style={{
+                            height: `${(point.resolved / maxThroughput) * 100}%`,
+                          }}
+                        />
+                      </div>
+                      <span className="absolute -bottom-5 text-[10px] text-foreground/50 whitespace-nowrap">
+                        {formatPeriod(
+                          point.period,
+                          analytics.range.granularity
+                        )}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </CardBody>
+            </Card>
+
+            {/* Tempo até o fechamento */}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card className="liquid-glass">
+                <CardHeader>
+                  <h2 className="text-lg font-semibold text-foreground">
+                    Tempo até fechar por prioridade
+                  </h2>
+                </CardHeader>
+                <CardBody>
+                  <TimeToCloseTable
+                    label="Prioridade"
+                    rows={analytics.timeToCloseByPriority.map(row => ({
+                      ...row,
+                      label: TICKET_PRIORITY_LABELS[row.key],
+                    }))}
+                  />
+                </CardBody>
+              </Card>
+              <Card className="liquid-glass">
+                <CardHeader>
+                  <h2 className="text-lg font-semibold text-foreground">
+                    Tempo até fechar por técnico
+                  </h2>
+                </CardHeader>
+                <CardBody>
+                  {analytics.timeToCloseByOwner.length === 0 ? (
+                    <p className="text-sm text-foreground/60">
+                      Nenhum ticket resolvido no período
+                    </p>
+                  ) : (
+                    <TimeToCloseTable
+                      label="Técnico"
+                      rows={analytics.timeToCloseByOwner.map(row => ({
+                        ...row,
+                        label: ownerLabel(row.key),
+                      }))}
+                    />
+                  )}
+                </CardBody>
+              </Card>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {/* Idade do backlog */}
+              <Card className="liquid-glass">
+                <CardHeader className="flex flex-col items-start">
+                  <h2 className="text-lg font-semibold text-foreground">
+                    Idade do backlog
+                  </h2>
+                  <p className="text-xs text-foreground/50">
+                    Tickets abertos agora, pela data de criação
+                  </p>
+                </CardHeader>
+                <CardBody className="space-y-2">
+                  {analytics.backlogAge.map(bucket => (
+                    <div key={bucket.key} className="flex items-center gap-3">
+                      <span className="w-28 text-sm text-foreground/70">
+                        {bucket.label}
+                      </span>
+                      <div className="flex-1 bg-content3 rounded-full h-2">
+                        <div
+                          className="h-2 rounded-full bg-secondary-500"
+                          style={{
+                            width: `${(bucket.count / maxBacklog) * 100}%`,
+                          }}
+                        />
+                      </div>
+                      <span className="w-8 text-right text-sm font-medium">
+                        {bucket.count}
+                      </span>
+                    </div>
+                  ))}
+                </CardBody>
+              </Card>
+
+              {/* Permanência por estágio */}
+              <Card className="liquid-glass">
+                <CardHeader className="flex flex-col items-start">
+                  <h2 className="text-lg font-semibold text-foreground">
+                    Permanência por estágio
+                  </h2>
+                  <p className="text-xs text-foreground/50">
+                    Passagens concluídas no período
+                  </p>
+                </CardHeader>
+                <CardBody>
+                  {analytics.stageDwell.length === 0 ? (
+                    <p className="text-sm text-foreground/60">
+                      Nenhuma transição registrada no período
+                    </p>
+                  ) : (
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-xs text-foreground/50">
+                          <th className="pb-2 font-medium">Estágio</th>
+                          <th className="pb-2 font-medium text-right">
+                            Passagens
+                          </th>
+                          <th className="pb-2 font-medium text-right">
+                            Mediana
+                          </th>
+                          <th className="pb-2 font-medium text-right">p90</th>
+                          <th className="pb-2 font-medium text-right">Agora</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {[...analytics.stageDwell]
+                          .sort(
+                            (a, b) =>
+                              (stageMap[a.stageId]?.displayOrder ?? 99) -
+                              (stageMap[b.stageId]?.displayOrder ?? 99)
+                          )
+                          .map(stage => (
+                            <tr
+                              key={stage.stageId}
+                              className="border-t border-divider"
+                            >
+                              <td className="py-2 text-foreground">
+                                {stageMap[stage.stageId]?.label ||
+                                  `Estágio ${stage.stageId}`}
+                              </td>
+                              <td className="py-2 text-right">
+                                {stage.visits}
+                              </td>
+                              <td className="py-2 text-right font-medium">
+                                {stage.visits > 0
+                                  ? formatDwellMinutes(stage.medianMinutes)
+                                  : '—'}
+                              </td>
+                              <td className="py-2 text-right">
+                                {stage.visits > 0
+                                  ? formatDwellMinutes(stage.p90Minutes)
+                                  : '—'}
+                              </td>
+                              <td className="py-2 text-right">
+                                {stage.currentTickets}
+                              </td>
+                            </tr>
+                          ))}
+                      </tbody>
+                    </table>
+                  )}
+                </CardBody>
+              </Card>
+            </div>
+
+            {/* Reabertos */}
+            <Card className="liquid-glass">
+              <CardHeader className="flex items-center gap-2">
+                <FiRotateCcw className="text-xl text-danger" />
+                <h2 className="text-lg font-semibold text-foreground">
+                  Tickets reabertos
+                </h2>
+                <Chip size="sm" variant="flat">
+                  {analytics.totals.reopened}
+                </Chip>
+              </CardHeader>
+              <CardBody className="space-y-2">
+                {analytics.reopened.length === 0 ? (
+                  <p className="text-sm text-foreground/60">
+                    Nenhum ticket reaberto no período
+                  </p>
+                ) : (
+                  analytics.reopened.map(ticket => (
+                    <NextLink
+                      key={ticket.hubspotId}
+                      className="flex flex-wrap items-center gap-3 p-3 bg-content2 rounded-lg hover:bg-content3 transition-colors"
+                      href={`/tickets?ticket=${ticket.hubspotId}`}
+                    >
+                      <span className="font-mono text-xs text-primary-600">
+                        #{ticket.hubspotId}
+                      </span>
+                      <span className="flex-1 text-sm text-foreground truncate">
+                        {ticket.subject}
+                      </span>
+                      <span className="text-xs text-foreground/60">
+                        {ownerLabel(ticket.hubspotOwnerId || 'unassigned')}
+                      </span>
+                      <Chip color="danger" size="sm" variant="flat">
+                        {ticket.reopenCount}×
+                      </Chip>
+                      <span className="text-xs text-foreground/50">
+                        {new Date(ticket.lastReopenedAt).toLocaleDateString(
+                          'pt-BR'
+                        )}
+                      </span>
+                    </NextLink>
+                  ))
+                )}
+              </CardBody>
+            </Card>
+          </>
+        )}
+      </div>
+    </motion.div>
+  );
+}
@@ -8,18 +8,26 @@
 
 'use client';
 
-import { useEffect, useState } from 'react';
+import { Suspense, useEffect, useState } from 'react';
+import NextLink from 'next/link';
 import { motion } from 'framer-motion';
 import { Spinner } from '@heroui/spinner';
 import { Button } from '@heroui/button';
 import { Card, CardBody } from '@heroui/card';
-import { FiAlertCircle, FiRefreshCw, FiFilter } from 'react-icons/fi';
+import {
+  FiAlertCircle,
+  FiBarChart2,
+  FiRefreshCw,
+  FiFilter,
+} from 'react-icons/fi';
 import { Chip } from '@heroui/chip';
-import { toast } from 'react-hot-toast';
+import { Toaster, toast } from 'react-hot-toast';
 
 import { useTicketStore } from '@/lib/stores/ticket-store';
+import { getActiveTechnicians } from '@/lib/config/ticket-settings';
 import { TicketKanbanBoard } from '@/components/tickets/ticket-kanban-board';
 import { TicketFilters } from '@/components/tickets/ticket-filters';
+import { TicketDetailModal } from '@/components/tickets/ticket-detail-modal';
 import { CreateTicketButton } from '@/components/tickets/create-ticket-button';
 import { RefreshButton } from '@/components/tickets/refresh-button';
 import { ConnectionStatus } from '@/components/tickets/connection-status';
@@ -92,7 +100,10 @@ export default function TicketsPage() {
     fetchTickets,
     fetchPipelines,
     fetchOwners,
+    fetchSettings,
+    fetchSlaPolicy,
     refreshData,
+    settings,
   } = useTicketStore();
 
   // Inicialização da página
@@ -103,6 +114,8 @@ export default function TicketsPage() {
 
         // Buscar dados iniciais em paralelo
         await Promise.all([
+          fetchSettings(),
+          fetchSlaPolicy(),
           fetchPipelines(),
           fetchOwners(),
           fetchTickets(true), // refresh = true
@@ -167,6 +180,7 @@ export default function TicketsPage() {
       initial="initial"
       variants={pageVariants}
     >
+      <Toaster position="top-right" />
       <div className="max-w-full mx-auto space-y-6">
         {/* Header */}
         <motion.header
@@ -190,6 +204,14 @@ export default function TicketsPage() {
           </div>
 
           <div className="flex items-center gap-3">
+            <Button
+              as={NextLink}
+              href="/tickets/analytics"
+              startContent={<FiBarChart2 />}
+              variant="flat"
+            >
+              Analytics
+            </Button>
             <RefreshButton loading={loading} onRefresh={handleRefresh} />
             <CreateTicketButton />
           </div>
@@ -281,6 +303,11 @@ export default function TicketsPage() {
           </TicketErrorBoundary>
         </motion.main>
 
+        {/* Painel de detalhes (deep link ?ticket=<hubspotId>) */}
+        <Suspense fallback={null}>
+          <TicketDetailModal />
+        </Suspense>
+
         {/* Footer com informações técnicas */}
         <motion.footer
           animate={{ opacity: 1 }}
@@ -289,8 +316,10 @@ export default function TicketsPage() {
           transition={{ delay: 0.8 }}
         >
           <p>
-            inPatch HelpDesk • Integração HubSpot CRM API v3 • Técnicos: Felipe
-            Teixeira, Tiago Triani, Guilherme Souza
+            inPatch HelpDesk • Integração HubSpot CRM API v3 • Técnicos:{' '}
+            {getActiveTechnicians(settings)
+              .map(technician => technician.name)
+              .join(', ')}
           </p>
         </motion.footer>
       </div>
@@ -10,6 +10,7 @@ import clsx from 'clsx';
 
 import { siteConfig } from '@/config/site';
 import { ThemeSwitch } from '@/components/theme-switch';
+import { UserMenu } from '@/components/user-menu';
 import { Logo } from '@/components/icons';
 
 export const Navbar = () => {
@@ -44,7 +45,8 @@ export const Navbar = () => {
         className="hidden sm:flex basis-1/5 sm:basis-full"
         justify="end"
       >
-        <NavbarItem className="hidden sm:flex gap-2">
+        <NavbarItem className="hidden sm:flex gap-2 items-center">
+          <UserMenu />
           <ThemeSwitch />
         </NavbarItem>
       </NavbarContent>
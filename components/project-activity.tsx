@@ -0,0 +1,225 @@
+'use client';
+
+import type { IconType } from 'react-icons';
+import type {
+  Project,
+  ProjectActivityItem,
+  ProjectActivityType,
+} from '@/types/project';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@heroui/button';
+import { Chip } from '@heroui/chip';
+import { Textarea } from '@heroui/input';
+import { Spinner } from '@heroui/spinner';
+import {
+  FiActivity,
+  FiArrowRight,
+  FiCheckSquare,
+  FiMessageSquare,
+  FiPaperclip,
+  FiPlusCircle,
+  FiRefreshCw,
+  FiTrello,
+} from 'react-icons/fi';
+import toast from 'react-hot-toast';
+
+import {
+  getProjectActivity,
+  postProjectComment,
+} from '@/lib/api/client-projects';
+
+interface ProjectActivityProps {
+  project: Project;
+}
+
+const activityIcons: Record<ProjectActivityType, IconType> = {
+  comment: FiMessageSquare,
+  move: FiArrowRight,
+  checklist: FiCheckSquare,
+  attachment: FiPaperclip,
+  created: FiPlusCircle,
+  sync: FiRefreshCw,
+};
+
+const INITIAL_VISIBLE = 10;
+
+const formatActivityDate = (date: string) =>
+  new Date(date).toLocaleString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export const ProjectActivity = ({ project }: ProjectActivityProps) => {
+  const [items, setItems] = useState<ProjectActivityItem[]>([]);
+  const [trelloAvailable, setTrelloAvailable] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [comment, setComment] = useState('');
+  const [posting, setPosting] = useState(false);
+  const [showAll, setShowAll] = useState(false);
+
+  const cardId = project.trelloCardId || project.id;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setLoading(true);
+    setShowAll(false);
+    getProjectActivity(cardId)
+      .then(feed => {
+        if (cancelled) return;
+        setItems(feed.items);
+        setTrelloAvailable(feed.trelloAvailable);
+      })
+      .catch(() => {
+        if (cancelled) return;
+        setItems([]);
+        setTrelloAvailable(false);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cardId]);
+
+  const handleComment = async () => {
+    if (!comment.trim() || !project.trelloCardId) return;
+
+    setPosting(true);
+
+    try {
+      const created = await postProjectComment(project.trelloCardId, comment);
+
+      setItems(current => [created, ...current]);
+      setComment('');
+      toast.success('Comentário publicado no Trello');
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Falha ao publicar comentário'
+      );
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const visibleItems = showAll ? items : items.slice(0, INITIAL_VISIBLE);
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-3">
+        <FiActivity className="w-5 h-5 text-primary-600" />
+        <h3 className="text-lg font-semibold text-foreground">Atividades</h3>
+        {items.length > 0 && (
+          <Chip size="sm" variant="flat">
+            {items.length}
+          </Chip>
+        )}
+      </div>
+
+      {project.trelloCardId && (
+        <div className="flex flex-col gap-2 mb-4">
+          <Textarea
+            isDisabled={posting}
+            maxRows={6}
+            minRows={2}
+            placeholder="Escreva um comentário para o card do Trello"
+            value={comment}
+            onValueChange={setComment}
+          />
+          <div className="flex justify-end">
+            <Button
+              color="primary"
+              isDisabled={!comment.trim()}
+              isLoading={posting}
+              size="sm"
+              startContent={!posting && <FiMessageSquare className="w-4 h-4" />}
+              variant="flat"
+              onPress={handleComment}
+            >
+              Comentar
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {!trelloAvailable && !loading && (
+        <p className="flex items-center gap-1 text-xs text-warning-600 mb-2">
+          <FiTrello className="w-3 h-3" />
+          Atividades do Trello indisponíveis no momento
+        </p>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-2">
+          <Spinner size="sm" />
+        </div>
+      ) : items.length === 0 ? (
+        <p className="text-sm text-default-500">Nenhuma atividade registrada</p>
+      ) : (
+        <ol className="space-y-3">
+          {visibleItems.map(item => {
+            const Icon = activityIcons[item.type];
+
+            return (
+              <li key={`${item.source}-${item.id}`} className="flex gap-3">
+                <div
+                  className={`mt-0.5 flex h-7 w-7 shrink-0 items-center justify-center rounded-full ${
+                    item.success === false
+                      ? 'bg-danger-100 text-danger-600'
+                      : 'bg-primary-100 text-primary-600'
+                  }`}
+                >
+                  <Icon className="w-3.5 h-3.5" />
+                </div>
+                <div className="min-w-0 flex-1">
+                  <div className="flex flex-wrap items-center gap-x-2 text-xs text-default-500">
+                    <span className="font-medium text-default-700">
+                      {item.author || 'Trello'}
+                    </span>
+                    <span>{formatActivityDate(item.date)}</span>
+                    {item.source === 'local' && <span>· inPatch</span>}
+                  </div>
+                  {item.type === 'comment' ? (
+                    <p className="liquid-glass mt-1 px-3 py-2 text-sm text-default-700 whitespace-pre-wrap break-words">
+                      {item.text}
+                    </p>
+                  ) : item.url ? (
+                    <a
+                      className="text-sm text-primary-600 hover:underline break-words"
+                      href={item.url}
+                      rel="noopener noreferrer"
+                      target="_blank"
+                    >
+                      {item.text}
+                    </a>
+                  ) : (
+                    <p className="text-sm text-default-600 break-words">
+                      {item.text}
+                    </p>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {items.length > INITIAL_VISIBLE && (
+        <Button
+          className="mt-3"
+          size="sm"
+          variant="light"
+          onPress={() => setShowAll(value => !value)}
+        >
+          {showAll ? 'Mostrar menos' : `Mostrar todas (${items.length})`}
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,212 @@
+'use client';
+
+import type { Project, ProjectAttachment } from '@/types/project';
+
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@heroui/button';
+import { Checkbox } from '@heroui/checkbox';
+import { Chip } from '@heroui/chip';
+import { Spinner } from '@heroui/spinner';
+import { FiFile, FiImage, FiPaperclip, FiUpload } from 'react-icons/fi';
+import toast from 'react-hot-toast';
+
+import {
+  getProjectAttachments,
+  uploadProjectAttachment,
+} from '@/lib/api/client-projects';
+import {
+  isImageAttachment,
+  MAX_ATTACHMENT_BYTES,
+} from '@/lib/utils/trello-fields';
+
+interface ProjectAttachmentsProps {
+  project: Project;
+  onChanged?: () => void;
+}
+
+const formatBytes = (bytes?: number) => {
+  if (!bytes) return null;
+  if (bytes < 1024 * 1024) return `${Math.ceil(bytes / 1024)} KB`;
+
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+export const ProjectAttachments = ({
+  project,
+  onChanged,
+}: ProjectAttachmentsProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [attachments, setAttachments] = useState<ProjectAttachment[]>(
+    project.attachments || []
+  );
+  const [loading, setLoading] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [setCover, setSetCover] = useState(false);
+
+  const cardId = project.trelloCardId || project.id;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setAttachments(project.attachments || []);
+    setLoading(true);
+    getProjectAttachments(cardId)
+      .then(items => {
+        if (!cancelled) setAttachments(items);
+      })
+      .catch(() => {
+        // Mantém os anexos recebidos com o projeto
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cardId]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file || !project.trelloCardId) return;
+
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+      toast.error(
+        `Arquivo excede ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB (limite do Trello)`
+      );
+
+      return;
+    }
+
+    const cover = setCover && file.type.startsWith('image/');
+
+    setUploading(true);
+
+    try {
+      const attachment = await uploadProjectAttachment(
+        project.trelloCardId,
+        file,
+        cover
+      );
+
+      setAttachments(current => [
+        attachment,
+        ...current.map(item => (cover ? { ...item, isCover: false } : item)),
+      ]);
+      setSetCover(false);
+      toast.success(
+        cover
+          ? 'Imagem enviada e definida como capa'
+          : 'Arquivo anexado ao card'
+      );
+      onChanged?.();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Falha ao enviar anexo'
+      );
+    } finally {
+      setUploading(false);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-3">
+        <FiPaperclip className="w-5 h-5 text-primary-600" />
+        <h3 className="text-lg font-semibold text-foreground">Anexos</h3>
+        {attachments.length > 0 && (
+          <Chip size="sm" variant="flat">
+            {attachments.length}
+          </Chip>
+        )}
+        {loading && <Spinner size="sm" />}
+      </div>
+
+      {attachments.length === 0 ? (
+        <p className="text-sm text-default-500 mb-3">Nenhum anexo</p>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 mb-3">
+          {attachments.map(attachment => {
+            const isImage = isImageAttachment(attachment);
+            const size = formatBytes(attachment.bytes);
+
+            return (
+              <a
+                key={attachment.id}
+                className="liquid-glass overflow-hidden block hover:ring-2 hover:ring-primary-500 transition-shadow"
+                href={attachment.previewUrl || attachment.url}
+                rel="noopener noreferrer"
+                target="_blank"
+                title={attachment.name}
+              >
+                <div className="relative h-24 bg-default-100 dark:bg-default-800 flex items-center justify-center">
+                  {attachment.previewUrl ? (
+                    <img
+                      alt={attachment.name}
+                      className="w-full h-full object-cover"
+                      loading="lazy"
+                      src={attachment.previewUrl}
+                    />
+                  ) : isImage ? (
+                    <FiImage className="w-8 h-8 text-default-400" />
+                  ) : (
+                    <FiFile className="w-8 h-8 text-default-400" />
+                  )}
+                  {attachment.isCover && (
+                    <Chip
+                      className="absolute top-2 left-2"
+                      color="primary"
+                      size="sm"
+                    >
+                      Capa
+                    </Chip>
+                  )}
+                </div>
+                <div className="px-2 py-1">
+                  <div className="truncate text-xs font-medium text-foreground">
+                    {attachment.name}
+                  </div>
+                  <div className="text-xs text-default-500">
+                    {new Date(attachment.attachedAt).toLocaleDateString(
+                      'pt-BR'
+                    )}
+                    {size && ` · ${size}`}
+                  </div>
+                </div>
+              </a>
+            );
+          })}
+        </div>
+      )}
+
+      {project.trelloCardId && (
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            ref={inputRef}
+            className="hidden"
+            type="file"
+            onChange={event => handleFile(event.target.files?.[0])}
+          />
+          <Button
+            color="primary"
+            isLoading={uploading}
+            size="sm"
+            startContent={!uploading && <FiUpload className="w-4 h-4" />}
+            variant="flat"
+            onPress={() => inputRef.current?.click()}
+          >
+            Enviar arquivo
+          </Button>
+          <Checkbox
+            isDisabled={uploading}
+            isSelected={setCover}
+            size="sm"
+            onValueChange={setSetCover}
+          >
+            <span className="text-sm">Usar imagem como capa</span>
+          </Checkbox>
+        </div>
+      )}
+    </div>
+  );
+};
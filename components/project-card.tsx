@@ -6,14 +6,12 @@ import {
   FiTrendingUp,
   FiClock,
   FiCheckCircle,
+  FiPaperclip,
 } from 'react-icons/fi';
 
-import {
-  Project,
-  Platform,
-  STATUS_LABELS,
-  PRIORITY_LABELS,
-} from '@/types/project';
+import { Project, STATUS_LABELS, PRIORITY_LABELS } from '@/types/project';
+import { getPlatformBadgeClass } from '@/lib/config/project-catalog';
+import { useProjectCatalog } from '@/lib/stores/catalog-store';
 
 interface ProjectCardProps {
   project: Project;
@@ -21,14 +19,6 @@ interface ProjectCardProps {
   onClick?: (project: Project) => void;
 }
 
-const platformColors: Record<Platform, string> = {
-  N8N: 'bg-purple-500/80 text-white',
-  Jira: 'bg-blue-500/80 text-white',
-  Hubspot: 'bg-orange-500/80 text-white',
-  Backoffice: 'bg-green-500/80 text-white',
-  'Google Workspace': 'bg-red-500/80 text-white',
-};
-
 const priorityColors = {
   low: 'text-green-500 bg-green-500',
   medium: 'text-yellow-500 bg-yellow-500',
@@ -49,6 +39,7 @@ const statusColors = {
 
 export const ProjectCard = ({ project, index, onClick }: ProjectCardProps) => {
   const StatusIcon = statusIcons[project.status] || FiClock;
+  const catalog = useProjectCatalog();
 
   // Validate project data
   if (!project || !project.id) {
@@ -63,13 +54,19 @@ export const ProjectCard = ({ project, index, onClick }: ProjectCardProps) => {
     title: project.title || 'Projeto sem título',
     description: project.description || 'Sem descrição',
     progress: Math.max(0, Math.min(100, project.progress || 0)),
-    platforms: project.platforms || ['Backoffice'],
-    responsible: project.responsible || ['Guilherme Souza'],
+    platforms: project.platforms || [],
+    responsible: project.responsible || [],
     labels: project.labels || [],
     priority: project.priority || 'medium',
     status: project.status || 'a-fazer',
   };
 
+  // Miniaturas das demais imagens (a capa já ocupa o topo do card)
+  const attachments = project.attachments || [];
+  const thumbnails = attachments.filter(
+    attachment => attachment.previewUrl && !attachment.isCover
+  );
+
   console.log('📋 ProjectCard: Rendering project', {
     id: safeProject.id,
     title: safeProject.title,
@@ -99,6 +96,14 @@ export const ProjectCard = ({ project, index, onClick }: ProjectCardProps) => {
       <div className="liquid-glass hover:shadow-xl hover:shadow-primary-500/10 transition-all duration-300 p-6 h-full focus-within:ring-2 focus-within:ring-primary-500 focus-within:ring-offset-2 focus-within:ring-offset-background">
         {/* Project Image */}
         <div className="w-full h-48 bg-gradient-to-br from-primary-100 to-primary-200 dark:from-primary-900 dark:to-primary-800 rounded-lg mb-4 relative overflow-hidden">
+          {safeProject.imageUrl && (
+            <img
+              alt={`Capa do projeto ${safeProject.title}`}
+              className="absolute inset-0 w-full h-full object-cover"
+              loading="lazy"
+              src={safeProject.imageUrl}
+            />
+          )}
           <div className="absolute inset-0 bg-gradient-to-t from-black/20 to-transparent" />
           <div
             className="absolute top-3 right-3"
@@ -129,6 +134,29 @@ export const ProjectCard = ({ project, index, onClick }: ProjectCardProps) => {
             </p>
           </div>
 
+          {/* Attachments */}
+          {attachments.length > 0 && (
+            <div className="flex items-center gap-2">
+              {thumbnails.slice(0, 4).map(attachment => (
+                <img
+                  key={attachment.id}
+                  alt={attachment.name}
+                  className="w-10 h-10 rounded-md object-cover border border-divider"
+                  loading="lazy"
+                  src={attachment.previewUrl}
+                  title={attachment.name}
+                />
+              ))}
+              <span
+                className="flex items-center gap-1 text-xs text-default-500"
+                title={`${attachments.length} anexo(s)`}
+              >
+                <FiPaperclip className="w-3 h-3" />
+                {attachments.length}
+              </span>
+            </div>
+          )}
+
           {/* Progress */}
           <div className="space-y-2">
             <div className="flex justify-between items-center">
@@ -159,7 +187,7 @@ export const ProjectCard = ({ project, index, onClick }: ProjectCardProps) => {
               <motion.span
                 key={platform}
                 animate={{ opacity: 1, scale: 1 }}
-                className={`px-2 py-1 rounded-md text-xs font-medium ${platformColors[platform]} backdrop-blur-sm`}
+                className={`px-2 py-1 rounded-md text-xs font-medium ${getPlatformBadgeClass(catalog, platform)} backdrop-blur-sm`}
                 initial={{ opacity: 0, scale: 0.8 }}
                 transition={{ delay: index * 0.1 + platformIndex * 0.05 + 0.5 }}
               >
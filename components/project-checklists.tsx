@@ -0,0 +1,144 @@
+'use client';
+
+import type {
+  CheckItemState,
+  Project,
+  ProjectChecklist,
+  ProjectCheckItem,
+} from '@/types/project';
+
+import { useEffect, useState } from 'react';
+import { Checkbox } from '@heroui/checkbox';
+import { Chip } from '@heroui/chip';
+import { FiCalendar, FiCheckSquare, FiUser } from 'react-icons/fi';
+import toast from 'react-hot-toast';
+
+import { toggleProjectCheckItem } from '@/lib/api/client-projects';
+
+interface ProjectChecklistsProps {
+  project: Project;
+  onUpdated?: (project: Project) => void;
+}
+
+const countCompleted = (checklist: ProjectChecklist) =>
+  checklist.checkItems.filter(item => item.state === 'complete').length;
+
+const withItemState = (
+  checklists: ProjectChecklist[],
+  checkItemId: string,
+  state: CheckItemState
+) =>
+  checklists.map(checklist => ({
+    ...checklist,
+    checkItems: checklist.checkItems.map(item =>
+      item.id === checkItemId ? { ...item, state } : item
+    ),
+  }));
+
+export const ProjectChecklists = ({
+  project,
+  onUpdated,
+}: ProjectChecklistsProps) => {
+  const [checklists, setChecklists] = useState<ProjectChecklist[]>(
+    project.checklists || []
+  );
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setChecklists(project.checklists || []);
+  }, [project.checklists]);
+
+  const cardId = project.trelloCardId || project.id;
+
+  const handleToggle = async (item: ProjectCheckItem, checked: boolean) => {
+    const state: CheckItemState = checked ? 'complete' : 'incomplete';
+    const previous = checklists;
+
+    // Otimista: o card é relido pelo servidor e substitui este estado
+    setChecklists(withItemState(checklists, item.id, state));
+    setPendingId(item.id);
+
+    try {
+      const updated = await toggleProjectCheckItem(cardId, item.id, state);
+
+      if (updated.checklists) setChecklists(updated.checklists);
+      onUpdated?.(updated);
+    } catch (error) {
+      setChecklists(previous);
+      toast.error(
+        error instanceof Error ? error.message : 'Falha ao atualizar checklist'
+      );
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  if (checklists.length === 0) return null;
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-3">
+        <FiCheckSquare className="w-5 h-5 text-primary-600" />
+        <h3 className="text-lg font-semibold text-foreground">Checklists</h3>
+      </div>
+
+      <div className="space-y-4">
+        {checklists.map(checklist => (
+          <div key={checklist.id} className="liquid-glass p-4 space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="font-medium text-foreground">
+                {checklist.name}
+              </span>
+              <span className="text-xs text-default-500">
+                {countCompleted(checklist)}/{checklist.checkItems.length}
+              </span>
+            </div>
+
+            {checklist.checkItems.map(item => {
+              const isComplete = item.state === 'complete';
+              const isLate =
+                !isComplete &&
+                !!item.dueDate &&
+                new Date(item.dueDate).getTime() < Date.now();
+
+              return (
+                <div
+                  key={item.id}
+                  className="flex flex-wrap items-center justify-between gap-2"
+                >
+                  <Checkbox
+                    isDisabled={!project.trelloCardId || pendingId !== null}
+                    isSelected={isComplete}
+                    lineThrough={isComplete}
+                    size="sm"
+                    onValueChange={checked => handleToggle(item, checked)}
+                  >
+                    <span className="text-sm">{item.name}</span>
+                  </Checkbox>
+                  <div className="flex items-center gap-2">
+                    {item.assignee && (
+                      <span className="flex items-center gap-1 text-xs text-default-500">
+                        <FiUser className="w-3 h-3" />
+                        {item.assignee}
+                      </span>
+                    )}
+                    {item.dueDate && (
+                      <Chip
+                        color={isLate ? 'danger' : 'default'}
+                        size="sm"
+                        startContent={<FiCalendar className="w-3 h-3" />}
+                        variant="flat"
+                      >
+                        {new Date(item.dueDate).toLocaleDateString('pt-BR')}
+                      </Chip>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,272 @@
+'use client';
+
+import type {
+  Project,
+  ProjectDependencies as ProjectDependencyLinks,
+  ProjectDependencyRef,
+} from '@/types/project';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@heroui/button';
+import { Chip } from '@heroui/chip';
+import { Select, SelectItem } from '@heroui/select';
+import { Spinner } from '@heroui/spinner';
+import { FiAlertTriangle, FiLink, FiTrello, FiX } from 'react-icons/fi';
+import toast from 'react-hot-toast';
+
+import {
+  addProjectDependency,
+  getProjectDependencies,
+  removeProjectDependency,
+} from '@/lib/api/client-projects';
+import { useProjectStore } from '@/lib/store';
+import {
+  finishesBeforeBlocker,
+  getProjectKey,
+} from '@/lib/utils/project-timeline';
+import { STATUS_LABELS } from '@/types/project';
+
+type LinkDirection = 'blockedBy' | 'blocks';
+
+interface ProjectDependenciesProps {
+  project: Project;
+  onChanged?: () => void;
+}
+
+const directionLabels: Record<LinkDirection, string> = {
+  blockedBy: 'Bloqueado por',
+  blocks: 'Bloqueia',
+};
+
+const EMPTY_LINKS: ProjectDependencyLinks = { blocks: [], blockedBy: [] };
+
+export const ProjectDependencies = ({
+  project,
+  onChanged,
+}: ProjectDependenciesProps) => {
+  const projects = useProjectStore(state => state.projects);
+  const [links, setLinks] = useState<ProjectDependencyLinks>(EMPTY_LINKS);
+  const [loading, setLoading] = useState(false);
+  const [unavailable, setUnavailable] = useState(false);
+  const [direction, setDirection] = useState<LinkDirection>('blockedBy');
+  const [targetKey, setTargetKey] = useState<string>('');
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+
+  const projectKey = getProjectKey(project);
+
+  const loadLinks = async () => {
+    try {
+      setLinks(await getProjectDependencies(projectKey));
+      setUnavailable(false);
+    } catch {
+      // Banco indisponível: vínculos não podem ser lidos nem criados
+      setLinks(EMPTY_LINKS);
+      setUnavailable(true);
+    }
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    setTargetKey('');
+    loadLinks().finally(() => setLoading(false));
+  }, [projectKey]);
+
+  const linkedKeys = new Set(
+    [...links.blocks, ...links.blockedBy].map(ref => ref.trelloCardId)
+  );
+  const candidates = projects.filter(
+    item =>
+      getProjectKey(item) !== projectKey && !linkedKeys.has(getProjectKey(item))
+  );
+
+  const handleAdd = async () => {
+    if (!targetKey) return;
+
+    const [blockerCardId, blockedCardId] =
+      direction === 'blockedBy'
+        ? [targetKey, projectKey]
+        : [projectKey, targetKey];
+
+    setSavingKey('new');
+
+    try {
+      const dependency = await addProjectDependency(
+        blockerCardId,
+        blockedCardId
+      );
+
+      toast.success(
+        dependency.mirrored
+          ? 'Dependência criada e anexada no Trello'
+          : 'Dependência criada (anexos do Trello pendentes)'
+      );
+      setTargetKey('');
+      await loadLinks();
+      onChanged?.();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Falha ao criar dependência'
+      );
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  const handleRemove = async (
+    ref: ProjectDependencyRef,
+    linkDirection: LinkDirection
+  ) => {
+    const [blockerCardId, blockedCardId] =
+      linkDirection === 'blockedBy'
+        ? [ref.trelloCardId, projectKey]
+        : [projectKey, ref.trelloCardId];
+
+    setSavingKey(ref.dependencyId);
+
+    try {
+      await removeProjectDependency(blockerCardId, blockedCardId);
+      toast.success('Dependência removida');
+      await loadLinks();
+      onChanged?.();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Falha ao remover dependência'
+      );
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-2">
+        <Spinner size="sm" />
+      </div>
+    );
+  }
+
+  if (unavailable) return null;
+
+  const renderRef = (
+    ref: ProjectDependencyRef,
+    linkDirection: LinkDirection
+  ) => {
+    // Bloqueado termina antes do bloqueador: prazo inviável
+    const lateSchedule =
+      linkDirection === 'blockedBy'
+        ? finishesBeforeBlocker(project, ref)
+        : finishesBeforeBlocker(ref, project);
+
+    return (
+      <div
+        key={ref.dependencyId}
+        className="flex items-center justify-between gap-2 liquid-glass px-3 py-2"
+      >
+        <div className="min-w-0">
+          <div className="truncate text-sm font-medium text-foreground">
+            {ref.title}
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-xs text-default-500">
+            <span>{STATUS_LABELS[ref.status]}</span>
+            <span>
+              Prazo {new Date(ref.estimatedEndDate).toLocaleDateString('pt-BR')}
+            </span>
+            {lateSchedule && (
+              <span className="flex items-center gap-1 text-warning-600">
+                <FiAlertTriangle className="w-3 h-3" />
+                {linkDirection === 'blockedBy'
+                  ? 'Termina depois deste projeto'
+                  : 'Termina antes deste projeto'}
+              </span>
+            )}
+            {!ref.mirrored && (
+              <span className="flex items-center gap-1">
+                <FiTrello className="w-3 h-3" />
+                Sem anexo no Trello
+              </span>
+            )}
+          </div>
+        </div>
+        <Button
+          isIconOnly
+          aria-label="Remover dependência"
+          isDisabled={savingKey !== null}
+          isLoading={savingKey === ref.dependencyId}
+          size="sm"
+          variant="light"
+          onPress={() => handleRemove(ref, linkDirection)}
+        >
+          <FiX className="w-4 h-4" />
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-3">
+        <FiLink className="w-5 h-5 text-primary-600" />
+        <h3 className="text-lg font-semibold text-foreground">Dependências</h3>
+        {linkedKeys.size > 0 && (
+          <Chip size="sm" variant="flat">
+            {linkedKeys.size}
+          </Chip>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        {(['blockedBy', 'blocks'] as LinkDirection[]).map(linkDirection => (
+          <div key={linkDirection} className="space-y-2">
+            <span className="text-sm font-medium text-default-700">
+              {directionLabels[linkDirection]}
+            </span>
+            {links[linkDirection].length === 0 ? (
+              <p className="text-sm text-default-500">Nenhum projeto</p>
+            ) : (
+              links[linkDirection].map(ref => renderRef(ref, linkDirection))
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-2 sm:items-end">
+        <Select
+          className="sm:max-w-[180px]"
+          label="Vínculo"
+          selectedKeys={[direction]}
+          size="sm"
+          onSelectionChange={keys =>
+            setDirection((Array.from(keys)[0] as LinkDirection) || 'blockedBy')
+          }
+        >
+          {(['blockedBy', 'blocks'] as LinkDirection[]).map(key => (
+            <SelectItem key={key}>{directionLabels[key]}</SelectItem>
+          ))}
+        </Select>
+        <Select
+          isDisabled={candidates.length === 0}
+          label="Projeto"
+          placeholder="Selecione um projeto"
+          selectedKeys={targetKey ? [targetKey] : []}
+          size="sm"
+          onSelectionChange={keys =>
+            setTargetKey((Array.from(keys)[0] as string) || '')
+          }
+        >
+          {candidates.map(item => (
+            <SelectItem key={getProjectKey(item)}>{item.title}</SelectItem>
+          ))}
+        </Select>
+        <Button
+          color="primary"
+          isDisabled={!targetKey || savingKey !== null}
+          isLoading={savingKey === 'new'}
+          variant="flat"
+          onPress={handleAdd}
+        >
+          Vincular
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -19,11 +19,22 @@ import {
   FiExternalLink,
 } from 'react-icons/fi';
 
-import { Project, Platform } from '@/types/project';
+import { Project } from '@/types/project';
+import { getPlatformBadgeClass } from '@/lib/config/project-catalog';
+import { useProjectCatalog } from '@/lib/stores/catalog-store';
+import { ProjectSyncConflicts } from '@/components/project-sync-conflicts';
+import { ProjectDependencies } from '@/components/project-dependencies';
+import { ProjectChecklists } from '@/components/project-checklists';
+import { ProjectActivity } from '@/components/project-activity';
+import { ProjectAttachments } from '@/components/project-attachments';
 
 interface ActionHandlers {
   onEdit?: (project: Project) => void;
   onDelete?: (project: Project) => void;
+  onConflictResolved?: () => void;
+  onDependenciesChanged?: () => void;
+  onProjectUpdated?: (project: Project) => void;
+  onAttachmentsChanged?: () => void;
 }
 
 interface ProjectDetailModalProps extends ActionHandlers {
@@ -32,14 +43,6 @@ interface ProjectDetailModalProps extends ActionHandlers {
   onClose: () => void;
 }
 
-const platformColors: Record<Platform, string> = {
-  N8N: 'bg-purple-500/80 text-white',
-  Jira: 'bg-blue-500/80 text-white',
-  Hubspot: 'bg-orange-500/80 text-white',
-  Backoffice: 'bg-green-500/80 text-white',
-  'Google Workspace': 'bg-red-500/80 text-white',
-};
-
 const priorityColors = {
   low: 'text-green-500 bg-green-500/10',
   medium: 'text-yellow-500 bg-yellow-500/10',
@@ -76,7 +79,13 @@ export const ProjectDetailModal = ({
   onClose,
   onEdit,
   onDelete,
+  onConflictResolved,
+  onDependenciesChanged,
+  onProjectUpdated,
+  onAttachmentsChanged,
 }: ProjectDetailModalProps) => {
+  const catalog = useProjectCatalog();
+
   if (!project) return null;
 
   const StatusIcon = statusIcons[project.status];
@@ -130,6 +139,12 @@ export const ProjectDetailModal = ({
 
         <ModalBody>
           <div className="space-y-6">
+            {/* Sync Conflicts */}
+            <ProjectSyncConflicts
+              trelloCardId={project.trelloCardId}
+              onResolved={onConflictResolved}
+            />
+
             {/* Project Image */}
             <div className="w-full h-48 bg-gradient-to-br from-primary-100 to-primary-200 dark:from-primary-900 dark:to-primary-800 rounded-lg relative overflow-hidden">
               <div className="absolute inset-0 bg-gradient-to-t from-black/20 to-transparent" />
@@ -172,6 +187,9 @@ export const ProjectDetailModal = ({
               </div>
             </div>
 
+            {/* Checklists */}
+            <ProjectChecklists project={project} onUpdated={onProjectUpdated} />
+
             {/* Description */}
             <div>
               <h3 className="text-lg font-semibold text-foreground mb-2">
@@ -192,7 +210,7 @@ export const ProjectDetailModal = ({
                   <motion.span
                     key={platform}
                     animate={{ opacity: 1, scale: 1 }}
-                    className={`px-3 py-1 rounded-lg text-sm font-medium ${platformColors[platform]} backdrop-blur-sm`}
+                    className={`px-3 py-1 rounded-lg text-sm font-medium ${getPlatformBadgeClass(catalog, platform)} backdrop-blur-sm`}
                     initial={{ opacity: 0, scale: 0.8 }}
                     transition={{ delay: index * 0.1 }}
                   >
@@ -202,6 +220,18 @@ export const ProjectDetailModal = ({
               </div>
             </div>
 
+            {/* Attachments */}
+            <ProjectAttachments
+              project={project}
+              onChanged={onAttachmentsChanged}
+            />
+
+            {/* Dependencies */}
+            <ProjectDependencies
+              project={project}
+              onChanged={onDependenciesChanged}
+            />
+
             {/* Project Details Grid */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div className="liquid-glass p-4">
@@ -244,6 +274,9 @@ export const ProjectDetailModal = ({
                 </p>
               </div>
             </div>
+
+            {/* Activity Feed */}
+            <ProjectActivity project={project} />
           </div>
         </ModalBody>
 
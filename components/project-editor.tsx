@@ -1,8 +1,15 @@
 'use client';
 
-import type { Project, ProjectStatus } from '@/types/project';
+import type { ProjectCatalog } from '@/types/catalog';
+import type {
+  Platform,
+  Project,
+  ProjectPriority,
+  ProjectStatus,
+  TeamMember,
+} from '@/types/project';
 
-import { useState, useMemo } from 'react';
+import { useEffect, useState } from 'react';
 import {
   Modal,
   ModalContent,
@@ -11,10 +18,21 @@ import {
   ModalFooter,
 } from '@heroui/modal';
 import { Button } from '@heroui/button';
+import { Chip } from '@heroui/chip';
 import { Input } from '@heroui/input';
 import { Select, SelectItem } from '@heroui/select';
 import { toast } from 'react-hot-toast';
 
+import { PRIORITY_LABELS } from '@/types/project';
+import {
+  getActiveMembers,
+  getActivePlatforms,
+  getDefaultPlatformNames,
+} from '@/lib/config/project-catalog';
+import { useProjectCatalog } from '@/lib/stores/catalog-store';
+import { getFreeLabels, isManagedLabel } from '@/lib/utils/trello-fields';
+import { validateProject } from '@/lib/utils/validation';
+
 export interface ProjectEditorProps {
   isOpen: boolean;
   project?: Project | null;
@@ -28,60 +46,161 @@ const statusOptions: { value: ProjectStatus; label: string }[] = [
   { value: 'concluido', label: 'Concluído' },
 ];
 
+const priorityOptions = (Object.keys(PRIORITY_LABELS) as ProjectPriority[]).map(
+  value => ({ value, label: PRIORITY_LABELS[value] })
+);
+
+// Campos editáveis; `labels` guarda apenas as labels livres do card
+type ProjectForm = Pick<
+  Project,
+  | 'title'
+  | 'description'
+  | 'status'
+  | 'priority'
+  | 'progress'
+  | 'platforms'
+  | 'responsible'
+  | 'startDate'
+  | 'estimatedEndDate'
+> & { labels: string[]; imageUrl: string };
+
+function toForm(
+  project: Project | null | undefined,
+  catalog: ProjectCatalog
+): ProjectForm {
+  return {
+    title: project?.title ?? '',
+    description: project?.description ?? '',
+    status: project?.status ?? 'a-fazer',
+    priority: project?.priority ?? 'medium',
+    progress: project?.progress ?? 0,
+    platforms: project?.platforms ?? getDefaultPlatformNames(catalog),
+    responsible: project?.responsible ?? [],
+    startDate: project?.startDate ?? new Date().toISOString(),
+    estimatedEndDate:
+      project?.estimatedEndDate ??
+      new Date(Date.now() + 7 * 24 * 3600 * 1000).toISOString(),
+    labels: getFreeLabels(project?.labels, catalog),
+    imageUrl: project?.imageUrl ?? '',
+  };
+}
+
+// ISO → valor do input datetime-local (horário local)
+function toLocalInputValue(iso: string): string {
+  const date = new Date(iso);
+
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000)
+    .toISOString()
+    .slice(0, 16);
+}
+
 export function ProjectEditor({
   isOpen,
   project,
   onClose,
   onSaved,
 }: ProjectEditorProps) {
-  const [title, setTitle] = useState(project?.title ?? '');
-  const [description, setDescription] = useState(project?.description ?? '');
-  const [status, setStatus] = useState<ProjectStatus>(
-    project?.status ?? 'a-fazer'
-  );
-  const [estimatedEndDate, setEstimatedEndDate] = useState<string>(
-    project?.estimatedEndDate ??
-      new Date(Date.now() + 7 * 24 * 3600 * 1000).toISOString()
-  );
+  const catalog = useProjectCatalog();
+  const [form, setForm] = useState<ProjectForm>(() => toForm(project, catalog));
+  const [labelDraft, setLabelDraft] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
   const isEdit = !!project;
+  // Itens inativos continuam visíveis quando já atribuídos ao projeto
+  const platformOptions: Platform[] = [
+    ...new Set([
+      ...getActivePlatforms(catalog).map(platform => platform.name),
+      ...form.platforms,
+    ]),
+  ];
+  const memberOptions: TeamMember[] = [
+    ...new Set([
+      ...getActiveMembers(catalog).map(member => member.name),
+      ...form.responsible,
+    ]),
+  ];
 
-  // Reset fields when modal changes
-  useMemo(
-    () => ({ projectId: project?.id || project?.trelloCardId || '' }),
-    [project]
-  );
+  // Reset fields when modal opens for another project
+  useEffect(() => {
+    if (isOpen) {
+      setForm(toForm(project, catalog));
+      setLabelDraft('');
+    }
+    // Catálogo atualizado não deve descartar a edição em andamento
+  }, [isOpen, project]);
+
+  const updateField = <K extends keyof ProjectForm>(
+    key: K,
+    value: ProjectForm[K]
+  ) => setForm(current => ({ ...current, [key]: value }));
+
+  function addLabel() {
+    const label = labelDraft.trim();
+
+    if (!label) return;
+
+    // Plataforma, prioridade e progresso têm campos próprios
+    if (isManagedLabel(label, catalog)) {
+      toast.error('Use os campos de plataforma, prioridade ou progresso');
+
+      return;
+    }
+
+    if (!form.labels.includes(label)) {
+      updateField('labels', [...form.labels, label]);
+    }
+    setLabelDraft('');
+  }
+
+  // Na edição, apenas os campos alterados são enviados
+  function getChanges(): Partial<Project> {
+    const initial = toForm(project, catalog);
+
+    return (Object.keys(form) as (keyof ProjectForm)[]).reduce(
+      (changes, key) =>
+        JSON.stringify(form[key]) === JSON.stringify(initial[key])
+          ? changes
+          : { ...changes, [key]: form[key] },
+      {} as Partial<Project>
+    );
+  }
 
   // Use dynamic import to avoid SSR issues when used
   async function handleSubmit() {
+    const changes = isEdit ? getChanges() : { ...form };
+    const { isValid, errors } = validateProject(
+      isEdit
+        ? // Prazo vencido só é rejeitado quando está sendo alterado
+          { ...project, ...changes, estimatedEndDate: changes.estimatedEndDate }
+        : changes,
+      catalog
+    );
+
+    if (!isValid) {
+      toast.error(errors.join('\n'));
+
+      return;
+    }
+
+    setIsSaving(true);
+
     try {
       const { createProject, updateProject } = await import(
         '@/lib/api/client-projects'
       );
 
-      if (!title.trim()) {
-        toast.error('Informe um título válido');
-
-        return;
-      }
-
       if (isEdit && project) {
         const { project: updated } = await updateProject({
           id: project.id,
           trelloCardId: project.trelloCardId || project.id,
-          title,
-          description,
-          status,
-          estimatedEndDate,
+          ...changes,
         });
 
         toast.success('Projeto atualizado!');
         onSaved?.(updated);
       } else {
         const { project: created } = await createProject({
-          title,
-          description,
-          status,
-          estimatedEndDate,
+          ...form,
+          imageUrl: form.imageUrl || undefined,
         });
 
         toast.success('Projeto criado!');
@@ -91,6 +210,8 @@ export function ProjectEditor({
       onClose();
     } catch (e: any) {
       toast.error(e?.message || 'Falha ao salvar');
+    } finally {
+      setIsSaving(false);
     }
   }
 
@@ -99,7 +220,7 @@ export function ProjectEditor({
       classNames={{ base: 'bg-background/95 backdrop-blur-md' }}
       isOpen={isOpen}
       scrollBehavior="inside"
-      size="lg"
+      size="2xl"
       onClose={onClose}
     >
       <ModalContent>
@@ -112,45 +233,152 @@ export function ProjectEditor({
               autoFocus
               label="Título"
               placeholder="Nome do projeto"
-              value={title}
-              onValueChange={setTitle}
+              value={form.title}
+              onValueChange={value => updateField('title', value)}
             />
             <Input
               label="Descrição"
               placeholder="Descrição do projeto"
-              value={description}
-              onValueChange={setDescription}
+              value={form.description}
+              onValueChange={value => updateField('description', value)}
+            />
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Select
+                label="Status"
+                selectedKeys={[form.status]}
+                onSelectionChange={keys =>
+                  updateField('status', Array.from(keys)[0] as ProjectStatus)
+                }
+              >
+                {statusOptions.map(opt => (
+                  <SelectItem key={opt.value}>{opt.label}</SelectItem>
+                ))}
+              </Select>
+              <Select
+                label="Prioridade"
+                selectedKeys={[form.priority]}
+                onSelectionChange={keys =>
+                  updateField(
+                    'priority',
+                    Array.from(keys)[0] as ProjectPriority
+                  )
+                }
+              >
+                {priorityOptions.map(opt => (
+                  <SelectItem key={opt.value}>{opt.label}</SelectItem>
+                ))}
+              </Select>
+              <Select
+                label="Plataformas"
+                selectedKeys={form.platforms}
+                selectionMode="multiple"
+                onSelectionChange={keys =>
+                  updateField('platforms', Array.from(keys) as Platform[])
+                }
+              >
+                {platformOptions.map(platform => (
+                  <SelectItem key={platform}>{platform}</SelectItem>
+                ))}
+              </Select>
+              <Select
+                label="Responsáveis"
+                selectedKeys={form.responsible}
+                selectionMode="multiple"
+                onSelectionChange={keys =>
+                  updateField('responsible', Array.from(keys) as TeamMember[])
+                }
+              >
+                {memberOptions.map(member => (
+                  <SelectItem key={member}>{member}</SelectItem>
+                ))}
+              </Select>
+              <Input
+                label="Início"
+                type="datetime-local"
+                value={toLocalInputValue(form.startDate)}
+                onChange={e => {
+                  // value is local time; convert to ISO by creating Date
+                  if (e.target.value) {
+                    updateField(
+                      'startDate',
+                      new Date(e.target.value).toISOString()
+                    );
+                  }
+                }}
+              />
+              <Input
+                label="Prazo estimado"
+                type="datetime-local"
+                value={toLocalInputValue(form.estimatedEndDate)}
+                onChange={e => {
+                  if (e.target.value) {
+                    updateField(
+                      'estimatedEndDate',
+                      new Date(e.target.value).toISOString()
+                    );
+                  }
+                }}
+              />
+            </div>
+            <Input
+              description="Cards com checklist no Trello usam o progresso do checklist"
+              endContent={<span className="text-sm text-default-400">%</span>}
+              label="Progresso"
+              max={100}
+              min={0}
+              step={5}
+              type="number"
+              value={String(form.progress)}
+              onValueChange={value => updateField('progress', Number(value))}
             />
-            <Select
-              label="Status"
-              selectedKeys={[status]}
-              onSelectionChange={keys =>
-                setStatus(Array.from(keys)[0] as ProjectStatus)
-              }
-            >
-              {statusOptions.map(opt => (
-                <SelectItem key={opt.value}>{opt.label}</SelectItem>
-              ))}
-            </Select>
             <Input
-              label="Prazo estimado"
-              type="datetime-local"
-              value={new Date(estimatedEndDate).toISOString().slice(0, 16)}
-              onChange={e => {
-                const v = e.target.value;
-                // value is local time; convert to ISO by creating Date
-                const iso = new Date(v).toISOString();
-
-                setEstimatedEndDate(iso);
-              }}
+              label="Imagem de capa"
+              placeholder="https://..."
+              type="url"
+              value={form.imageUrl}
+              onValueChange={value => updateField('imageUrl', value)}
             />
+            <div className="space-y-2">
+              <Input
+                description="Pressione Enter para adicionar"
+                label="Labels"
+                placeholder="Nova label"
+                value={labelDraft}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    addLabel();
+                  }
+                }}
+                onValueChange={setLabelDraft}
+              />
+              {form.labels.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {form.labels.map(label => (
+                    <Chip
+                      key={label}
+                      size="sm"
+                      variant="flat"
+                      onClose={() =>
+                        updateField(
+                          'labels',
+                          form.labels.filter(item => item !== label)
+                        )
+                      }
+                    >
+                      {label}
+                    </Chip>
+                  ))}
+                </div>
+              )}
+            </div>
           </div>
         </ModalBody>
         <ModalFooter>
           <Button variant="light" onPress={onClose}>
             Cancelar
           </Button>
-          <Button color="primary" onPress={handleSubmit}>
+          <Button color="primary" isLoading={isSaving} onPress={handleSubmit}>
             {isEdit ? 'Salvar alterações' : 'Criar projeto'}
           </Button>
         </ModalFooter>
@@ -6,7 +6,12 @@ import { Button } from '@heroui/button';
 import { Chip } from '@heroui/chip';
 import { FiSearch, FiX, FiFilter } from 'react-icons/fi';
 
+import {
+  getActiveMembers,
+  getActivePlatforms,
+} from '@/lib/config/project-catalog';
 import { useProjectStore } from '@/lib/store';
+import { useProjectCatalog } from '@/lib/stores/catalog-store';
 
 const statusOptions = [
   { key: 'all', label: 'Todos os Status' },
@@ -15,23 +20,23 @@ const statusOptions = [
   { key: 'concluido', label: 'Concluído' },
 ];
 
-const platformOptions = [
-  { key: 'all', label: 'Todas as Plataformas' },
-  { key: 'N8N', label: 'N8N' },
-  { key: 'Jira', label: 'Jira' },
-  { key: 'Hubspot', label: 'Hubspot' },
-  { key: 'Backoffice', label: 'Backoffice' },
-  { key: 'Google Workspace', label: 'Google Workspace' },
-];
-
-const responsibleOptions = [
-  { key: 'all', label: 'Todos os Responsáveis' },
-  { key: 'Guilherme Souza', label: 'Guilherme Souza' },
-  { key: 'Felipe Braat', label: 'Felipe Braat' },
-  { key: 'Tiago Triani', label: 'Tiago Triani' },
-];
-
 export const ProjectFilters = () => {
+  const catalog = useProjectCatalog();
+  const platformOptions = [
+    { key: 'all', label: 'Todas as Plataformas' },
+    ...getActivePlatforms(catalog).map(platform => ({
+      key: platform.name,
+      label: platform.name,
+    })),
+  ];
+  const responsibleOptions = [
+    { key: 'all', label: 'Todos os Responsáveis' },
+    ...getActiveMembers(catalog).map(member => ({
+      key: member.name,
+      label: member.name,
+    })),
+  ];
+
   const {
     searchQuery,
     statusFilter,
@@ -0,0 +1,197 @@
+'use client';
+
+import type {
+  ConflictResolution,
+  ProjectSyncConflict,
+  SyncableProjectField,
+  SyncFieldValue,
+} from '@/types/project-sync';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@heroui/button';
+import { Chip } from '@heroui/chip';
+import { Spinner } from '@heroui/spinner';
+import { FiAlertTriangle, FiHome, FiTrello } from 'react-icons/fi';
+import toast from 'react-hot-toast';
+
+import {
+  getProjectConflicts,
+  resolveProjectConflict,
+} from '@/lib/api/client-projects';
+import { parseSyncList } from '@/lib/utils/project-field-sync';
+import { SYNC_FIELD_LABELS } from '@/types/project-sync';
+
+interface ProjectSyncConflictsProps {
+  trelloCardId?: string;
+  onResolved?: () => void;
+}
+
+const statusLabels: Record<string, string> = {
+  A_FAZER: 'A Fazer',
+  EM_ANDAMENTO: 'Em Andamento',
+  CONCLUIDO: 'Concluído',
+};
+
+const priorityLabels: Record<string, string> = {
+  LOW: 'Baixa',
+  MEDIUM: 'Média',
+  HIGH: 'Alta',
+};
+
+const formatValue = (field: SyncableProjectField, value: SyncFieldValue) => {
+  if (!value) return '—';
+  if (field === 'status') return statusLabels[value] || value;
+  if (field === 'priority') return priorityLabels[value] || value;
+  if (field === 'progress') return `${value}%`;
+  if (field === 'estimatedEndDate' || field === 'startDate') {
+    return new Date(`${value}T12:00:00.000Z`).toLocaleDateString('pt-BR');
+  }
+  if (field === 'platforms' || field === 'responsible' || field === 'labels') {
+    return parseSyncList(value).join(', ') || '—';
+  }
+
+  return value;
+};
+
+const formatTimestamp = (value?: string) =>
+  value ? new Date(value).toLocaleString('pt-BR') : 'data desconhecida';
+
+export const ProjectSyncConflicts = ({
+  trelloCardId,
+  onResolved,
+}: ProjectSyncConflictsProps) => {
+  const [conflicts, setConflicts] = useState<ProjectSyncConflict[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!trelloCardId) {
+      setConflicts([]);
+
+      return;
+    }
+
+    let cancelled = false;
+
+    setLoading(true);
+    getProjectConflicts(trelloCardId)
+      .then(data => {
+        if (!cancelled) setConflicts(data);
+      })
+      .catch(() => {
+        // Banco indisponível: sem fila de conflitos
+        if (!cancelled) setConflicts([]);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [trelloCardId]);
+
+  const handleResolve = async (
+    conflict: ProjectSyncConflict,
+    resolution: ConflictResolution
+  ) => {
+    setResolvingId(conflict.id);
+
+    try {
+      await resolveProjectConflict(conflict.id, resolution);
+      setConflicts(current => current.filter(item => item.id !== conflict.id));
+      toast.success(
+        `${SYNC_FIELD_LABELS[conflict.field]}: ${
+          resolution === 'local'
+            ? 'valor local enviado ao Trello'
+            : 'valor do Trello aplicado'
+        }`
+      );
+      onResolved?.();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Falha ao resolver conflito'
+      );
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-2">
+        <Spinner size="sm" />
+      </div>
+    );
+  }
+
+  if (conflicts.length === 0) return null;
+
+  return (
+    <div className="rounded-lg border border-warning-300 bg-warning-50/50 dark:bg-warning-900/10 p-4 space-y-4">
+      <div className="flex items-center gap-2">
+        <FiAlertTriangle className="w-5 h-5 text-warning-600" />
+        <h3 className="text-lg font-semibold text-foreground">
+          Conflitos de sincronização
+        </h3>
+        <Chip color="warning" size="sm" variant="flat">
+          {conflicts.length}
+        </Chip>
+      </div>
+      <p className="text-sm text-default-600">
+        Estes campos foram alterados no inPatch e no Trello desde a última
+        sincronização. Escolha qual valor deve prevalecer.
+      </p>
+
+      {conflicts.map(conflict => (
+        <div key={conflict.id} className="liquid-glass p-3 space-y-3">
+          <span className="text-sm font-medium text-foreground">
+            {SYNC_FIELD_LABELS[conflict.field]}
+          </span>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <div className="flex items-center gap-1 text-xs text-default-500">
+                <FiHome className="w-3 h-3" />
+                Local · {formatTimestamp(conflict.localUpdatedAt)}
+              </div>
+              <p className="text-sm text-default-700 break-words">
+                {formatValue(conflict.field, conflict.localValue)}
+              </p>
+            </div>
+            <div className="space-y-1">
+              <div className="flex items-center gap-1 text-xs text-default-500">
+                <FiTrello className="w-3 h-3" />
+                Trello · {formatTimestamp(conflict.trelloUpdatedAt)}
+              </div>
+              <p className="text-sm text-default-700 break-words">
+                {formatValue(conflict.field, conflict.trelloValue)}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button
+              isDisabled={resolvingId !== null}
+              isLoading={resolvingId === conflict.id}
+              size="sm"
+              variant="flat"
+              onPress={() => handleResolve(conflict, 'local')}
+            >
+              Manter local
+            </Button>
+            <Button
+              color="primary"
+              isDisabled={resolvingId !== null}
+              size="sm"
+              variant="flat"
+              onPress={() => handleResolve(conflict, 'trello')}
+            >
+              Usar Trello
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,339 @@
+'use client';
+
+import type {
+  KeyboardEvent as ReactKeyboardEvent,
+  PointerEvent as ReactPointerEvent,
+} from 'react';
+import type { TimelineScale } from '@/types/timeline';
+
+import { useMemo, useState } from 'react';
+import { Button } from '@heroui/button';
+import { Chip } from '@heroui/chip';
+import { FiAlertTriangle, FiLink } from 'react-icons/fi';
+
+import { Project, STATUS_LABELS } from '@/types/project';
+import {
+  TIMELINE_SCALES,
+  buildTimelineTicks,
+  daysFromStart,
+  getBarGeometry,
+  getDependencyWarnings,
+  getProjectKey,
+  getTimelineRange,
+  isProjectOverdue,
+  shiftDueDate,
+} from '@/lib/utils/project-timeline';
+import { useProjectStore } from '@/lib/store';
+
+interface ProjectTimelineProps {
+  projects: Project[];
+  onProjectClick?: (project: Project) => void;
+  onDueDateChange?: (project: Project, estimatedEndDate: string) => void;
+}
+
+interface DragState {
+  projectId: string;
+  originX: number;
+  deltaDays: number;
+}
+
+const NAME_COLUMN_WIDTH = 220;
+
+const statusBarColors = {
+  'a-fazer': 'bg-blue-500/30',
+  'em-andamento': 'bg-orange-500/30',
+  concluido: 'bg-green-500/30',
+};
+
+const statusFillColors = {
+  'a-fazer': 'bg-blue-500',
+  'em-andamento': 'bg-orange-500',
+  concluido: 'bg-green-500',
+};
+
+export const ProjectTimeline = ({
+  projects,
+  onProjectClick,
+  onDueDateChange,
+}: ProjectTimelineProps) => {
+  const [scale, setScale] = useState<TimelineScale>('month');
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const allProjects = useProjectStore(state => state.projects);
+
+  const today = useMemo(() => new Date(), []);
+  const { dayWidth } = TIMELINE_SCALES[scale];
+
+  // Ordem cronológica pelo início; projetos sem datas válidas ficam de fora
+  const rows = useMemo(
+    () =>
+      projects
+        .filter(
+          project =>
+            !isNaN(new Date(project.startDate).getTime()) &&
+            !isNaN(new Date(project.estimatedEndDate).getTime())
+        )
+        .sort(
+          (a, b) =>
+            new Date(a.startDate).getTime() - new Date(b.startDate).getTime()
+        ),
+    [projects]
+  );
+
+  const range = useMemo(
+    () => getTimelineRange(rows, scale, today),
+    [rows, scale, today]
+  );
+  const ticks = useMemo(() => buildTimelineTicks(range, scale), [range, scale]);
+  const dependencyWarnings = useMemo(
+    () => getDependencyWarnings(rows, allProjects),
+    [rows, allProjects]
+  );
+  const timelineWidth = range.days * dayWidth;
+  const todayOffset = daysFromStart(range, today) * dayWidth;
+
+  const handleResizeStart = (
+    event: ReactPointerEvent<HTMLDivElement>,
+    project: Project
+  ) => {
+    if (!onDueDateChange) return;
+
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDrag({ projectId: project.id, originX: event.clientX, deltaDays: 0 });
+  };
+
+  const handleResizeMove = (event: ReactPointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+
+    const deltaDays = Math.round((event.clientX - drag.originX) / dayWidth);
+
+    if (deltaDays !== drag.deltaDays) {
+      setDrag({ ...drag, deltaDays });
+    }
+  };
+
+  const handleResizeEnd = (
+    event: ReactPointerEvent<HTMLDivElement>,
+    project: Project
+  ) => {
+    if (!drag) return;
+
+    event.currentTarget.releasePointerCapture(event.pointerId);
+    setDrag(null);
+
+    const newEnd = shiftDueDate(project, drag.deltaDays);
+
+    if (
+      onDueDateChange &&
+      newEnd.getTime() !== new Date(project.estimatedEndDate).getTime()
+    ) {
+      onDueDateChange(project, newEnd.toISOString());
+    }
+  };
+
+  // Teclado: setas movem o prazo um dia por vez
+  const handleResizeKey = (
+    event: ReactKeyboardEvent<HTMLDivElement>,
+    project: Project
+  ) => {
+    const step = { ArrowLeft: -1, ArrowRight: 1 }[event.key];
+
+    event.stopPropagation();
+    if (!step || !onDueDateChange) return;
+
+    event.preventDefault();
+    onDueDateChange(project, shiftDueDate(project, step).toISOString());
+  };
+
+  if (rows.length === 0) {
+    return (
+      <div className="liquid-glass p-8 text-center text-default-600">
+        Nenhum projeto com datas de início e prazo para exibir na linha do
+        tempo.
+      </div>
+    );
+  }
+
+  return (
+    <div className="liquid-glass p-4">
+      {/* Escala */}
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-2">
+          {(Object.keys(TIMELINE_SCALES) as TimelineScale[]).map(key => (
+            <Button
+              key={key}
+              color={scale === key ? 'primary' : 'default'}
+              size="sm"
+              variant={scale === key ? 'solid' : 'flat'}
+              onClick={() => setScale(key)}
+            >
+              {TIMELINE_SCALES[key].label}
+            </Button>
+          ))}
+        </div>
+        {onDueDateChange && (
+          <span className="text-xs text-default-500">
+            Arraste o fim da barra para alterar o prazo
+          </span>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <div
+          className="relative"
+          style={{ width: NAME_COLUMN_WIDTH + timelineWidth }}
+        >
+          {/* Cabeçalho */}
+          <div className="flex border-b border-default-200">
+            <div
+              className="sticky left-0 z-20 shrink-0 bg-content1 px-3 py-2 text-xs font-semibold text-default-600"
+              style={{ width: NAME_COLUMN_WIDTH }}
+            >
+              Projeto
+            </div>
+            <div className="relative h-8" style={{ width: timelineWidth }}>
+              {ticks.map(tick => (
+                <div
+                  key={tick.key}
+                  className="absolute top-0 h-full border-l border-default-200 px-1 text-[10px] leading-8 text-default-500 truncate"
+                  style={{
+                    left: tick.offsetDays * dayWidth,
+                    width: tick.spanDays * dayWidth,
+                  }}
+                >
+                  {tick.label}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Linhas */}
+          {rows.map(project => {
+            const overdue = isProjectOverdue(project, today);
+            const lateBlockers = dependencyWarnings.get(getProjectKey(project));
+            const isDragging = drag?.projectId === project.id;
+            const previewEnd = isDragging
+              ? shiftDueDate(project, drag.deltaDays)
+              : undefined;
+            const { offsetDays, spanDays } = getBarGeometry(
+              project,
+              range,
+              previewEnd
+            );
+            const progress = Math.max(0, Math.min(100, project.progress || 0));
+
+            return (
+              <div
+                key={project.id}
+                className="flex border-b border-default-100"
+              >
+                <button
+                  className="sticky left-0 z-20 shrink-0 bg-content1 px-3 py-2 text-left"
+                  style={{ width: NAME_COLUMN_WIDTH }}
+                  type="button"
+                  onClick={() => onProjectClick?.(project)}
+                >
+                  <div className="truncate text-sm font-medium text-foreground">
+                    {project.title}
+                  </div>
+                  <div className="flex items-center gap-1 text-xs text-default-500">
+                    {STATUS_LABELS[project.status]}
+                    {overdue && (
+                      <Chip
+                        color="danger"
+                        size="sm"
+                        startContent={<FiAlertTriangle className="w-3 h-3" />}
+                        variant="flat"
+                      >
+                        Atrasado
+                      </Chip>
+                    )}
+                    {lateBlockers && (
+                      <Chip
+                        color="warning"
+                        size="sm"
+                        startContent={<FiLink className="w-3 h-3" />}
+                        title={`Termina antes de: ${lateBlockers
+                          .map(blocker => blocker.title)
+                          .join(', ')}`}
+                        variant="flat"
+                      >
+                        Dependência
+                      </Chip>
+                    )}
+                  </div>
+                </button>
+
+                <div className="relative h-14" style={{ width: timelineWidth }}>
+                  <div
+                    className={`absolute top-3 h-8 cursor-pointer overflow-hidden rounded-md ${
+                      statusBarColors[project.status] || 'bg-default-300'
+                    } ${
+                      overdue
+                        ? 'ring-2 ring-red-500'
+                        : lateBlockers
+                          ? 'ring-2 ring-warning'
+                          : ''
+                    } ${isDragging ? 'opacity-80' : ''}`}
+                    role="button"
+                    style={{
+                      left: offsetDays * dayWidth,
+                      width: spanDays * dayWidth,
+                    }}
+                    tabIndex={0}
+                    title={`${project.title} — ${progress}% · prazo ${(
+                      previewEnd || new Date(project.estimatedEndDate)
+                    ).toLocaleDateString('pt-BR')}`}
+                    onClick={() => onProjectClick?.(project)}
+                    onKeyDown={event => {
+                      if (event.key === 'Enter') onProjectClick?.(project);
+                    }}
+                  >
+                    {/* Progresso */}
+                    <div
+                      className={`h-full ${
+                        statusFillColors[project.status] || 'bg-default-500'
+                      }`}
+                      style={{ width: `${progress}%` }}
+                    />
+                    <span className="absolute inset-0 flex items-center px-2 text-xs font-medium text-foreground truncate">
+                      {progress}%
+                    </span>
+
+                    {/* Alça de prazo */}
+                    {onDueDateChange && (
+                      <div
+                        aria-label="Alterar prazo"
+                        className="absolute right-0 top-0 h-full w-2 cursor-ew-resize bg-foreground/20 hover:bg-foreground/40"
+                        role="separator"
+                        tabIndex={0}
+                        onClick={event => event.stopPropagation()}
+                        onKeyDown={event => handleResizeKey(event, project)}
+                        onPointerCancel={() => setDrag(null)}
+                        onPointerDown={event =>
+                          handleResizeStart(event, project)
+                        }
+                        onPointerMove={handleResizeMove}
+                        onPointerUp={event => handleResizeEnd(event, project)}
+                      />
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+
+          {/* Hoje */}
+          <div
+            className="pointer-events-none absolute top-0 bottom-0 z-10 w-px bg-danger"
+            style={{ left: NAME_COLUMN_WIDTH + todayOffset }}
+          >
+            <span className="absolute top-0 left-1 rounded bg-danger px-1 text-[10px] text-white">
+              Hoje
+            </span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
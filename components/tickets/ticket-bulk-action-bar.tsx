@@ -0,0 +1,240 @@
+/**
+ * Ticket Bulk Action Bar - Ações em Lote
+ * Barra flutuante para alterar estágio, técnico, prioridade e tags dos
+ * tickets selecionados no Kanban, ou desconsiderá-los de uma vez
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+'use client';
+
+import type { BatchTicketUpdate, TicketPriority } from '@/types/ticket';
+
+import { useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Button } from '@heroui/button';
+import { Input } from '@heroui/input';
+import { Select, SelectItem } from '@heroui/select';
+import { FiSlash, FiTag, FiX } from 'react-icons/fi';
+import { toast } from 'react-hot-toast';
+
+import { useTicketStore } from '@/lib/stores/ticket-store';
+import {
+  getActiveStages,
+  getActiveTechnicians,
+  getStageIdByRole,
+} from '@/lib/config/ticket-settings';
+import { TICKET_PRIORITY_LABELS } from '@/types/ticket';
+
+export function TicketBulkActionBar() {
+  const [tagsInput, setTagsInput] = useState('');
+  const [isApplying, setIsApplying] = useState(false);
+
+  const {
+    selectedTicketIds,
+    settings,
+    batchUpdateTickets,
+    clearTicketSelection,
+  } = useTicketStore();
+
+  const stages = useMemo(() => getActiveStages(settings), [settings]);
+  const technicians = useMemo(() => getActiveTechnicians(settings), [settings]);
+  const canDiscard = !!getStageIdByRole(settings, 'discarded');
+
+  const count = selectedTicketIds.length;
+
+  // Aplicar a mesma alteração a todos os selecionados
+  const applyUpdates = async (updates: BatchTicketUpdate) => {
+    setIsApplying(true);
+
+    try {
+      const { succeeded, failed, results } = await batchUpdateTickets(
+        selectedTicketIds,
+        updates
+      );
+
+      if (succeeded > 0) {
+        toast.success(`${succeeded} ticket(s) atualizado(s)`);
+      }
+      if (failed > 0) {
+        const firstError = results.find(result => !result.success)?.error;
+
+        toast.error(
+          `${failed} ticket(s) não puderam ser atualizados${
+            firstError ? `: ${firstError}` : ''
+          }`
+        );
+      }
+
+      return failed === 0;
+    } catch (error) {
+      toast.error(
+        `Não foi possível atualizar os tickets: ${
+          error instanceof Error ? error.message : 'Erro desconhecido'
+        }`
+      );
+
+      return false;
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const handleAddTags = async () => {
+    const addTags = tagsInput
+      .split(',')
+      .map(tag => tag.trim())
+      .filter(Boolean);
+
+    if (addTags.length === 0) return;
+
+    if (await applyUpdates({ addTags })) setTagsInput('');
+  };
+
+  const handleDiscard = () => {
+    if (!confirm(`Desconsiderar ${count} ticket(s) selecionado(s)?`)) return;
+
+    applyUpdates({ discard: true });
+  };
+
+  return (
+    <AnimatePresence>
+      {count > 0 && (
+        <motion.div
+          animate={{ opacity: 1, y: 0 }}
+          className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 w-[min(1100px,calc(100%-2rem))]"
+          exit={{ opacity: 0, y: 20 }}
+          initial={{ opacity: 0, y: 20 }}
+          transition={{ duration: 0.2, ease: 'easeOut' }}
+        >
+          <div className="liquid-glass rounded-2xl border border-divider/50 shadow-2xl p-3">
+            <div className="flex flex-wrap items-center gap-3">
+              {/* Contagem */}
+              <div className="flex items-center gap-2 pr-2">
+                <span className="text-sm font-semibold text-foreground">
+                  {count} selecionado{count !== 1 ? 's' : ''}
+                </span>
+                <Button
+                  isIconOnly
+                  aria-label="Limpar seleção"
+                  isDisabled={isApplying}
+                  size="sm"
+                  variant="light"
+                  onPress={clearTicketSelection}
+                >
+                  <FiX />
+                </Button>
+              </div>
+
+              {/* Estágio */}
+              <Select
+                aria-label="Mover para estágio"
+                className="w-44"
+                isDisabled={isApplying}
+                placeholder="Mover para..."
+                selectedKeys={[]}
+                size="sm"
+                onSelectionChange={keys => {
+                  const value = Array.from(keys)[0];
+
+                  if (value) applyUpdates({ pipelineStageId: String(value) });
+                }}
+              >
+                {stages.map(stage => (
+                  <SelectItem key={stage.id}>{stage.label}</SelectItem>
+                ))}
+              </Select>
+
+              {/* Técnico */}
+              <Select
+                aria-label="Atribuir técnico"
+                className="w-44"
+                isDisabled={isApplying}
+                placeholder="Atribuir a..."
+                selectedKeys={[]}
+                size="sm"
+                onSelectionChange={keys => {
+                  const value = Array.from(keys)[0];
+
+                  if (!value) return;
+                  applyUpdates({
+                    hubspotOwnerId: value === 'unassigned' ? '' : String(value),
+                  });
+                }}
+              >
+                {[
+                  ...technicians.map(technician => (
+                    <SelectItem key={technician.id}>
+                      {technician.name}
+                    </SelectItem>
+                  )),
+                  <SelectItem key="unassigned">Não Atribuído</SelectItem>,
+                ]}
+              </Select>
+
+              {/* Prioridade */}
+              <Select
+                aria-label="Alterar prioridade"
+                className="w-40"
+                isDisabled={isApplying}
+                placeholder="Prioridade..."
+                selectedKeys={[]}
+                size="sm"
+                onSelectionChange={keys => {
+                  const value = Array.from(keys)[0];
+
+                  if (value)
+                    applyUpdates({ priority: String(value) as TicketPriority });
+                }}
+              >
+                {Object.entries(TICKET_PRIORITY_LABELS).map(([key, label]) => (
+                  <SelectItem key={key}>{label}</SelectItem>
+                ))}
+              </Select>
+
+              {/* Tags */}
+              <div className="flex items-center gap-2">
+                <Input
+                  aria-label="Adicionar tags"
+                  className="w-44"
+                  isDisabled={isApplying}
+                  placeholder="tag1, tag2"
+                  size="sm"
+                  startContent={<FiTag className="text-sm" />}
+                  value={tagsInput}
+                  onKeyDown={event => {
+                    if (event.key === 'Enter') handleAddTags();
+                  }}
+                  onValueChange={setTagsInput}
+                />
+                <Button
+                  isDisabled={isApplying || !tagsInput.trim()}
+                  size="sm"
+                  variant="flat"
+                  onPress={handleAddTags}
+                >
+                  Adicionar
+                </Button>
+              </div>
+
+              {/* Desconsiderar */}
+              <Button
+                className="ml-auto"
+                color="danger"
+                isDisabled={!canDiscard}
+                isLoading={isApplying}
+                size="sm"
+                startContent={!isApplying && <FiSlash />}
+                variant="flat"
+                onPress={handleDiscard}
+              >
+                Desconsiderar
+              </Button>
+            </div>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
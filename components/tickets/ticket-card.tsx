@@ -10,7 +10,8 @@
 
 import type { Ticket } from '@/types/ticket';
 
-import { useState } from 'react';
+import { DragEvent, MouseEvent, useState } from 'react';
+import { useRouter } from 'next/navigation';
 import { motion } from 'framer-motion';
 import { Card, CardHeader, CardBody, CardFooter } from '@heroui/card';
 import { Chip } from '@heroui/chip';
@@ -18,6 +19,7 @@ import { Chip } from '@heroui/chip';
 import { Button } from '@heroui/button';
 // import { Tooltip } from '@heroui/tooltip'; // Not available in current HeroUI version
 import {
+  FiCheck,
   FiClock,
   FiTag,
   FiExternalLink,
@@ -26,11 +28,27 @@ import {
   FiMoreVertical,
 } from 'react-icons/fi';
 
+import {
+  TICKET_EDIT_QUERY_PARAM,
+  TICKET_QUERY_PARAM,
+} from './ticket-detail-modal';
+
+import { getSlaStageIds } from '@/lib/config/ticket-settings';
+import { useTicketStore } from '@/lib/stores/ticket-store';
+import { evaluateTicketSla, formatSlaDuration } from '@/lib/utils/sla-engine';
+import { SLA_STATE_COLORS, SLA_STATE_LABELS } from '@/types/sla';
 import { TICKET_PRIORITY_LABELS, TICKET_STATUS_LABELS } from '@/types/ticket';
 
+// Tipo MIME usado no dataTransfer do drag & drop entre colunas
+export const TICKET_DRAG_TYPE = 'application/x-inpatch-ticket';
+
 interface TicketCardProps {
   ticket: Ticket;
   viewMode: 'stage' | 'owner' | 'priority';
+  isDraggable?: boolean;
+  isSelected?: boolean;
+  isSelectionActive?: boolean; // Há tickets selecionados no board
+  onSelect?: (range: boolean) => void; // range = shift-click
   technicianInfo?: {
     name: string;
     role: string;
@@ -82,9 +100,15 @@ const statusIcons = {
 export function TicketCard({
   ticket,
   viewMode,
+  isDraggable = false,
+  isSelected = false,
+  isSelectionActive = false,
+  onSelect,
   technicianInfo,
 }: TicketCardProps) {
+  const router = useRouter();
   const [isHovered, setIsHovered] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
 
   // Calcular tempo desde criação
   const getTimeAgo = (date: string) => {
@@ -106,19 +130,19 @@ export function TicketCard({
     return `${diffInWeeks}sem atrás`;
   };
 
-  // Determinar se o ticket está atrasado (mais de 72h aberto)
-  const isOverdue = () => {
-    const now = new Date();
-    const created = new Date(ticket.createdAt);
-    const diffInHours = (now.getTime() - created.getTime()) / (1000 * 60 * 60);
-
-    return diffInHours > 72 && !['closed', 'resolved'].includes(ticket.status);
-  };
+  // SLA do ticket (política configurada, por prioridade/estágio)
+  const slaPolicy = useTicketStore(state => state.slaPolicy);
+  const settings = useTicketStore(state => state.settings);
+  const sla = evaluateTicketSla(ticket, slaPolicy, getSlaStageIds(settings));
+  const isOverdue = sla.state === 'breached';
+  const slaClock =
+    sla.firstResponse.state === sla.state ? sla.firstResponse : sla.resolution;
 
   // Determinar urgência visual
   const getUrgencyLevel = () => {
     if (ticket.priority === 'URGENT') return 'urgent';
-    if (isOverdue()) return 'overdue';
+    if (isOverdue) return 'overdue';
+    if (sla.state === 'at_risk') return 'atRisk';
     if (ticket.priority === 'HIGH') return 'high';
 
     return 'normal';
@@ -130,6 +154,7 @@ export function TicketCard({
   const urgencyStyles = {
     urgent: 'border-danger-200/50 bg-content1/80 backdrop-blur-md',
     overdue: 'border-warning-200/50 bg-content1/80 backdrop-blur-md',
+    atRisk: 'border-yellow-200/50 bg-content1/80 backdrop-blur-md',
     high: 'border-orange-200/50 bg-content1/80 backdrop-blur-md',
     normal: 'border-divider/30 bg-content1/80 backdrop-blur-md',
   };
@@ -137,6 +162,7 @@ export function TicketCard({
   const urgencyIndicator = {
     urgent: 'bg-danger-500',
     overdue: 'bg-warning-500',
+    atRisk: 'bg-yellow-400',
     high: 'bg-orange-500',
     normal: 'bg-success-500',
   };
@@ -148,16 +174,48 @@ export function TicketCard({
     window.open(hubspotUrl, '_blank');
   };
 
+  // Abrir painel de detalhes via deep link (?ticket=<hubspotId>)
+  const openTicketPanel = (edit: boolean) => {
+    const params = new URLSearchParams({
+      [TICKET_QUERY_PARAM]: ticket.hubspotId,
+    });
+
+    if (edit) params.set(TICKET_EDIT_QUERY_PARAM, '1');
+    router.push(`/tickets?${params}`, { scroll: false });
+  };
+
   // Handler para editar ticket
   const handleEditTicket = () => {
-    // TODO: Implementar modal de edição
-    console.log('Editar ticket:', ticket.id);
+    openTicketPanel(true);
+  };
+
+  // Handler para click no card (ignora cliques nos botões de ação)
+  // Shift/Ctrl/Cmd-click seleciona; com seleção ativa, o click alterna
+  const handleCardClick = (event: MouseEvent<Element>) => {
+    if ((event.target as Element).closest('button')) return;
+
+    const isSelectClick =
+      event.shiftKey || event.ctrlKey || event.metaKey || isSelectionActive;
+
+    if (onSelect && isSelectClick) {
+      event.preventDefault();
+      onSelect(event.shiftKey);
+
+      return;
+    }
+
+    openTicketPanel(false);
   };
 
-  // Handler para click no card
-  const handleCardClick = () => {
-    // TODO: Implementar modal de detalhes ou navegação
-    console.log('Visualizar detalhes do ticket:', ticket.id);
+  // Handlers de drag & drop (HTML5 nativo)
+  const handleDragStart = (event: DragEvent<HTMLDivElement>) => {
+    event.dataTransfer.setData(TICKET_DRAG_TYPE, ticket.hubspotId);
+    event.dataTransfer.effectAllowed = 'move';
+    setIsDragging(true);
+  };
+
+  const handleDragEnd = () => {
+    setIsDragging(false);
   };
 
   // Handler para mais ações
@@ -180,13 +238,29 @@ export function TicketCard({
           relative transition-all duration-300 cursor-pointer backdrop-blur-sm
           ${urgencyStyles[urgencyLevel]}
           ${isHovered ? 'shadow-xl shadow-primary-500/10 scale-[1.02]' : 'shadow-md'}
+          ${isDraggable ? 'active:cursor-grabbing' : ''}
+          ${isDragging ? 'opacity-50' : ''}
+          ${isSelected ? 'ring-2 ring-primary-500' : ''}
           border-l-4 border-l-transparent hover:border-l-primary-400
           rounded-2xl overflow-hidden
         `}
+        draggable={isDraggable}
         onClick={handleCardClick}
+        onDragEnd={handleDragEnd}
+        onDragStart={handleDragStart}
         onMouseEnter={() => setIsHovered(true)}
         onMouseLeave={() => setIsHovered(false)}
       >
+        {/* Indicador de Seleção */}
+        {isSelected && (
+          <div
+            aria-label="Ticket selecionado"
+            className="absolute top-2 left-2 z-20 w-5 h-5 bg-primary-500 rounded-full shadow-lg flex items-center justify-center"
+          >
+            <FiCheck className="text-xs text-white" />
+          </div>
+        )}
+
         {/* Indicador de Urgência Moderno */}
         <div
           aria-label={`Nível de urgência: ${urgencyLevel}`}
@@ -348,13 +422,27 @@ export function TicketCard({
                 <span className="text-xs font-medium text-foreground/70">
                   {getTimeAgo(ticket.createdAt)}
                 </span>
-                {isOverdue() && (
+                {isOverdue && (
                   <FiAlertCircle
                     className="text-warning-500 animate-pulse"
-                    title="Ticket em atraso"
+                    title="SLA estourado"
                   />
                 )}
               </div>
+
+              {/* Estado do SLA (oculto quando no prazo) */}
+              {sla.state !== 'ok' && (
+                <Chip
+                  className="text-xs"
+                  color={SLA_STATE_COLORS[sla.state]}
+                  size="sm"
+                  variant="flat"
+                >
+                  SLA {SLA_STATE_LABELS[sla.state]}
+                  {(sla.state === 'at_risk' || sla.state === 'breached') &&
+                    ` · ${formatSlaDuration(slaClock.remainingMinutes)}`}
+                </Chip>
+              )}
             </div>
 
             {/* Ações com novo layout */}
@@ -0,0 +1,588 @@
+/**
+ * Ticket Detail Modal - Painel de Detalhes e Edição
+ * Painel deep-linkable (/tickets?ticket=<hubspotId>) com visualização e edição
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+'use client';
+
+import type { Ticket, TicketPriority } from '@/types/ticket';
+import type { ValidationError } from '@/lib/validations/ticket-schemas';
+
+import { useEffect, useMemo, useState } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import {
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+} from '@heroui/modal';
+import { Button } from '@heroui/button';
+import { Chip } from '@heroui/chip';
+import { Input, Textarea } from '@heroui/input';
+import { Select, SelectItem } from '@heroui/select';
+import { Spinner } from '@heroui/spinner';
+import {
+  FiClock,
+  FiEdit3,
+  FiExternalLink,
+  FiLink,
+  FiTag,
+  FiUser,
+} from 'react-icons/fi';
+import { toast } from 'react-hot-toast';
+
+import { TicketStageTimeline } from './ticket-stage-timeline';
+import { TicketTriageInfo } from './ticket-triage-info';
+
+import { useTicketStore } from '@/lib/stores/ticket-store';
+import { validateUpdateTicket } from '@/lib/validations/ticket-schemas';
+import { TICKET_PRIORITY_LABELS, TICKET_STATUS_LABELS } from '@/types/ticket';
+
+// Parâmetros de URL usados pelo deep link
+export const TICKET_QUERY_PARAM = 'ticket';
+export const TICKET_EDIT_QUERY_PARAM = 'edit';
+
+interface TicketFormState {
+  subject: string;
+  content: string;
+  priority: TicketPriority;
+  category: string;
+  sourceType: string;
+  tags: string;
+  pipelineStageId: string;
+  hubspotOwnerId: string;
+}
+
+const toFormState = (ticket: Ticket): TicketFormState => ({
+  subject: ticket.subject,
+  content: ticket.content || '',
+  priority: ticket.priority,
+  category: ticket.category || '',
+  sourceType: ticket.sourceType || '',
+  tags: (ticket.tags || []).join(', '),
+  pipelineStageId: ticket.pipelineStageId,
+  hubspotOwnerId: ticket.hubspotOwnerId || '',
+});
+
+// Só os campos alterados vão para o PATCH (string vazia limpa o campo)
+const getChangedFields = (
+  ticket: Ticket,
+  form: TicketFormState
+): Record<string, unknown> => {
+  const original = toFormState(ticket);
+  const changes: Record<string, unknown> = {};
+
+  (Object.keys(form) as Array<keyof TicketFormState>).forEach(field => {
+    if (form[field] !== original[field]) changes[field] = form[field];
+  });
+
+  if (typeof changes.tags === 'string') {
+    changes.tags = changes.tags.split(',');
+  }
+
+  return changes;
+};
+
+const formatDateTime = (date?: string) => {
+  if (!date) return '—';
+
+  const parsed = new Date(date);
+
+  return isNaN(parsed.getTime()) ? '—' : parsed.toLocaleString('pt-BR');
+};
+
+export function TicketDetailModal() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const ticketParam = searchParams.get(TICKET_QUERY_PARAM);
+  const editParam = searchParams.get(TICKET_EDIT_QUERY_PARAM) === '1';
+
+  const { pipelines, owners, getTicketById, updateTicketById } =
+    useTicketStore();
+
+  const storeTicket = ticketParam ? getTicketById(ticketParam) : undefined;
+  const [remoteTicket, setRemoteTicket] = useState<Ticket | null>(null);
+  const [isFetching, setIsFetching] = useState(false);
+  const [fetchError, setFetchError] = useState<string | null>(null);
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [form, setForm] = useState<TicketFormState | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<ValidationError[]>([]);
+
+  const ticket = storeTicket || remoteTicket;
+
+  // Buscar no HubSpot quando o ticket não estiver no store (ex: link colado)
+  useEffect(() => {
+    if (!ticketParam || storeTicket) return;
+
+    let cancelled = false;
+
+    setIsFetching(true);
+    setFetchError(null);
+
+    fetch(`/api/tickets/${ticketParam}`)
+      .then(response => response.json())
+      .then(data => {
+        if (cancelled) return;
+        if (!data.success) {
+          throw new Error(data.error || 'Ticket não encontrado');
+        }
+        setRemoteTicket(data.data);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('❌ Erro ao carregar ticket:', error);
+        setFetchError(
+          error instanceof Error ? error.message : 'Erro ao carregar ticket'
+        );
+      })
+      .finally(() => {
+        if (!cancelled) setIsFetching(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [ticketParam, storeTicket]);
+
+  // Sincronizar modo de edição com a URL ao abrir
+  useEffect(() => {
+    setIsEditing(editParam);
+    setFieldErrors([]);
+  }, [ticketParam, editParam]);
+
+  useEffect(() => {
+    if (ticket && !isEditing) {
+      setForm(toFormState(ticket));
+    }
+  }, [ticket, isEditing]);
+
+  const stages = useMemo(
+    () =>
+      pipelines
+        .filter(pipeline => !ticket || pipeline.id === ticket.pipelineId)
+        .flatMap(pipeline => pipeline.stages)
+        .sort((a, b) => a.displayOrder - b.displayOrder),
+    [pipelines, ticket]
+  );
+
+  const stageLabel = (stageId: string) =>
+    stages.find(stage => stage.id === stageId)?.label || `Estágio ${stageId}`;
+
+  const ownerLabel = (ownerId?: string) => {
+    if (!ownerId) return 'Não Atribuído';
+
+    const owner = owners.find(o => o.id === ownerId);
+
+    return owner?.fullName || `Técnico ${ownerId.slice(-4)}`;
+  };
+
+  const handleClose = () => {
+    const params = new URLSearchParams(searchParams.toString());
+
+    params.delete(TICKET_QUERY_PARAM);
+    params.delete(TICKET_EDIT_QUERY_PARAM);
+    const query = params.toString();
+
+    setRemoteTicket(null);
+    setFetchError(null);
+    router.replace(query ? `${pathname}?${query}` : pathname, {
+      scroll: false,
+    });
+  };
+
+  const handleCopyLink = async () => {
+    if (!ticket) return;
+
+    const url = `${window.location.origin}${pathname}?${TICKET_QUERY_PARAM}=${ticket.hubspotId}`;
+
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success('Link do ticket copiado!');
+    } catch {
+      toast.error('Não foi possível copiar o link');
+    }
+  };
+
+  const handleOpenInHubSpot = () => {
+    if (!ticket) return;
+
+    window.open(
+      `https://app.hubspot.com/contacts/tickets/${ticket.hubspotId}`,
+      '_blank'
+    );
+  };
+
+  const handleCancelEdit = () => {
+    setIsEditing(false);
+    setFieldErrors([]);
+    if (ticket) setForm(toFormState(ticket));
+  };
+
+  const updateField = <K extends keyof TicketFormState>(
+    field: K,
+    value: TicketFormState[K]
+  ) => {
+    setForm(current => (current ? { ...current, [field]: value } : current));
+    setFieldErrors(errors => errors.filter(error => error.field !== field));
+  };
+
+  const getFieldError = (field: keyof TicketFormState) =>
+    fieldErrors.find(error => error.field === field)?.message;
+
+  const handleSave = async () => {
+    if (!ticket || !form) return;
+
+    if (!form.subject.trim()) {
+      setFieldErrors([
+        { field: 'subject', message: 'Título é obrigatório', value: '' },
+      ]);
+
+      return;
+    }
+
+    const changes = getChangedFields(ticket, form);
+
+    if (Object.keys(changes).length === 0) {
+      setIsEditing(false);
+
+      return;
+    }
+
+    const validationResult = validateUpdateTicket(changes);
+
+    if (!validationResult.success) {
+      setFieldErrors(validationResult.errors || []);
+      toast.error(validationResult.error || 'Dados inválidos');
+
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      const updatedTicket = await updateTicketById(
+        ticket.hubspotId,
+        validationResult.data!
+      );
+
+      if (!storeTicket) setRemoteTicket(updatedTicket);
+      setIsEditing(false);
+      toast.success('Ticket atualizado!');
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Falha ao atualizar ticket'
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      classNames={{
+        backdrop:
+          'bg-gradient-to-t from-zinc-900 to-zinc-900/10 backdrop-opacity-20',
+      }}
+      isOpen={!!ticketParam}
+      placement="center"
+      scrollBehavior="inside"
+      size="3xl"
+      onOpenChange={open => !open && handleClose()}
+    >
+      <ModalContent>
+        {() => (
+          <>
+            <ModalHeader className="flex flex-col gap-2">
+              {ticket ? (
+                <>
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="text-xs font-semibold text-primary-600 dark:text-primary-400">
+                      #{ticket.hubspotId}
+                    </span>
+                    <Chip size="sm" variant="flat">
+                      {TICKET_STATUS_LABELS[ticket.status]}
+                    </Chip>
+                    <Chip color="warning" size="sm" variant="flat">
+                      {TICKET_PRIORITY_LABELS[ticket.priority]}
+                    </Chip>
+                  </div>
+                  <h2 className="text-xl font-bold text-foreground">
+                    {ticket.subject}
+                  </h2>
+                </>
+              ) : (
+                <h2 className="text-xl font-bold text-foreground">
+                  Ticket #{ticketParam}
+                </h2>
+              )}
+            </ModalHeader>
+
+            <ModalBody>
+              {isFetching && !ticket && (
+                <div className="flex items-center justify-center py-12">
+                  <Spinner color="primary" />
+                </div>
+              )}
+
+              {fetchError && !ticket && (
+                <p className="text-sm text-danger-500 py-6 text-center">
+                  {fetchError}
+                </p>
+              )}
+
+              {ticket && !isEditing && (
+                <div className="space-y-6">
+                  {/* Conteúdo completo */}
+                  <section>
+                    <h3 className="text-sm font-semibold text-foreground/70 mb-2">
+                      Descrição
+                    </h3>
+                    <p className="text-sm text-foreground whitespace-pre-wrap leading-relaxed">
+                      {ticket.content || 'Sem descrição'}
+                    </p>
+                  </section>
+
+                  {/* Metadados */}
+                  <section className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div>
+                      <p className="text-xs text-foreground/50">Estágio</p>
+                      <p className="text-sm font-medium text-foreground">
+                        {stageLabel(ticket.pipelineStageId)}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-foreground/50 flex items-center gap-1">
+                        <FiUser /> Técnico
+                      </p>
+                      <p className="text-sm font-medium text-foreground">
+                        {ownerLabel(ticket.hubspotOwnerId)}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-foreground/50">Categoria</p>
+                      <p className="text-sm font-medium text-foreground">
+                        {ticket.category || '—'}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-foreground/50">Origem</p>
+                      <p className="text-sm font-medium text-foreground">
+                        {ticket.sourceType || '—'}
+                      </p>
+                    </div>
+                  </section>
+
+                  {/* Tags */}
+                  <section>
+                    <h3 className="text-sm font-semibold text-foreground/70 mb-2 flex items-center gap-1">
+                      <FiTag /> Tags
+                    </h3>
+                    {ticket.tags && ticket.tags.length > 0 ? (
+                      <div className="flex flex-wrap gap-1.5">
+                        {ticket.tags.map(tag => (
+                          <Chip key={tag} size="sm" variant="flat">
+                            {tag}
+                          </Chip>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-foreground/50">Sem tags</p>
+                    )}
+                  </section>
+
+                  {/* Histórico e timestamps */}
+                  <section>
+                    <h3 className="text-sm font-semibold text-foreground/70 mb-2 flex items-center gap-1">
+                      <FiClock /> Histórico
+                    </h3>
+                    <ul className="space-y-2 text-sm">
+                      <li className="flex justify-between gap-4">
+                        <span className="text-foreground/60">Criado</span>
+                        <span>{formatDateTime(ticket.createdAt)}</span>
+                      </li>
+                      <li className="flex justify-between gap-4">
+                        <span className="text-foreground/60">
+                          Última atualização (
+                          {stageLabel(ticket.pipelineStageId)})
+                        </span>
+                        <span>{formatDateTime(ticket.updatedAt)}</span>
+                      </li>
+                      {ticket.closedAt && (
+                        <li className="flex justify-between gap-4">
+                          <span className="text-foreground/60">Fechado</span>
+                          <span>{formatDateTime(ticket.closedAt)}</span>
+                        </li>
+                      )}
+                    </ul>
+                  </section>
+
+                  <TicketStageTimeline
+                    currentStageId={ticket.pipelineStageId}
+                    hubspotId={ticket.hubspotId}
+                    stageLabel={stageLabel}
+                  />
+
+                  <TicketTriageInfo
+                    currentStageId={ticket.pipelineStageId}
+                    hubspotId={ticket.hubspotId}
+                    ownerLabel={ownerLabel}
+                    stageLabel={stageLabel}
+                  />
+                </div>
+              )}
+
+              {ticket && isEditing && form && (
+                <div className="space-y-4">
+                  <Input
+                    isRequired
+                    errorMessage={getFieldError('subject')}
+                    isInvalid={!!getFieldError('subject')}
+                    label="Título"
+                    value={form.subject}
+                    onValueChange={value => updateField('subject', value)}
+                  />
+                  <Textarea
+                    label="Descrição"
+                    minRows={4}
+                    value={form.content}
+                    onValueChange={value => updateField('content', value)}
+                  />
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <Select
+                      disallowEmptySelection
+                      label="Prioridade"
+                      selectedKeys={[form.priority]}
+                      onSelectionChange={keys => {
+                        const value = Array.from(keys)[0];
+
+                        if (value) {
+                          updateField('priority', String(value) as any);
+                        }
+                      }}
+                    >
+                      {Object.entries(TICKET_PRIORITY_LABELS).map(
+                        ([key, label]) => (
+                          <SelectItem key={key}>{label}</SelectItem>
+                        )
+                      )}
+                    </Select>
+                    <Select
+                      disallowEmptySelection
+                      errorMessage={getFieldError('pipelineStageId')}
+                      isInvalid={!!getFieldError('pipelineStageId')}
+                      label="Estágio"
+                      selectedKeys={[form.pipelineStageId]}
+                      onSelectionChange={keys => {
+                        const value = Array.from(keys)[0];
+
+                        if (value) {
+                          updateField('pipelineStageId', String(value));
+                        }
+                      }}
+                    >
+                      {stages.map(stage => (
+                        <SelectItem key={stage.id}>{stage.label}</SelectItem>
+                      ))}
+                    </Select>
+                    <Select
+                      label="Técnico"
+                      placeholder="Não Atribuído"
+                      selectedKeys={
+                        form.hubspotOwnerId ? [form.hubspotOwnerId] : []
+                      }
+                      onSelectionChange={keys => {
+                        const value = Array.from(keys)[0];
+
+                        updateField(
+                          'hubspotOwnerId',
+                          value ? String(value) : ''
+                        );
+                      }}
+                    >
+                      {owners.map(owner => (
+                        <SelectItem key={owner.id}>{owner.fullName}</SelectItem>
+                      ))}
+                    </Select>
+                    <Input
+                      label="Categoria"
+                      value={form.category}
+                      onValueChange={value => updateField('category', value)}
+                    />
+                    <Input
+                      label="Origem"
+                      value={form.sourceType}
+                      onValueChange={value => updateField('sourceType', value)}
+                    />
+                    <Input
+                      description="Separe as tags por vírgula"
+                      label="Tags"
+                      value={form.tags}
+                      onValueChange={value => updateField('tags', value)}
+                    />
+                  </div>
+                </div>
+              )}
+            </ModalBody>
+
+            <ModalFooter className="flex justify-between">
+              <div className="flex gap-2">
+                <Button
+                  isDisabled={!ticket}
+                  startContent={<FiLink />}
+                  variant="light"
+                  onPress={handleCopyLink}
+                >
+                  Copiar link
+                </Button>
+                <Button
+                  isDisabled={!ticket}
+                  startContent={<FiExternalLink />}
+                  variant="light"
+                  onPress={handleOpenInHubSpot}
+                >
+                  HubSpot
+                </Button>
+              </div>
+
+              {isEditing ? (
+                <div className="flex gap-2">
+                  <Button
+                    isDisabled={isSaving}
+                    variant="light"
+                    onPress={handleCancelEdit}
+                  >
+                    Cancelar
+                  </Button>
+                  <Button
+                    color="primary"
+                    isLoading={isSaving}
+                    onPress={handleSave}
+                  >
+                    Salvar
+                  </Button>
+                </div>
+              ) : (
+                <Button
+                  color="primary"
+                  isDisabled={!ticket}
+                  startContent={<FiEdit3 />}
+                  onPress={() => setIsEditing(true)}
+                >
+                  Editar
+                </Button>
+              )}
+            </ModalFooter>
+          </>
+        )}
+      </ModalContent>
+    </Modal>
+  );
+}
@@ -8,6 +8,8 @@
 
 'use client';
 
+import type { SlaState } from '@/types/sla';
+
 import { useState } from 'react';
 import { motion } from 'framer-motion';
 import { Card, CardBody } from '@heroui/card';
@@ -22,9 +24,12 @@ import {
   FiUser,
   FiClock,
   FiTag,
+  FiAlertTriangle,
 } from 'react-icons/fi';
 
 import { useTicketStore } from '@/lib/stores/ticket-store';
+import { getActiveTechnicians } from '@/lib/config/ticket-settings';
+import { SLA_STATE_COLORS, SLA_STATE_LABELS } from '@/types/sla';
 import { TICKET_PRIORITY_LABELS, TICKET_STATUS_LABELS } from '@/types/ticket';
 
 const filtersVariants = {
@@ -51,8 +56,11 @@ export function TicketFilters() {
     clearFilters,
     pipelines,
     owners,
+    settings,
   } = useTicketStore();
 
+  const technicians = getActiveTechnicians(settings);
+
   // Aplicar busca quando Enter é pressionado
   const handleSearchSubmit = () => {
     setSearchQuery(localSearch);
@@ -208,10 +216,12 @@ export function TicketFilters() {
                 setFilters({ ownerId: value });
               }}
             >
-              <SelectItem key="1514631054">Felipe Teixeira</SelectItem>
-              <SelectItem key="360834054">Tiago Triani</SelectItem>
-              <SelectItem key="1727693927">Guilherme Souza</SelectItem>
-              <SelectItem key="unassigned">Não Atribuído</SelectItem>
+              {[
+                ...technicians.map(technician => (
+                  <SelectItem key={technician.id}>{technician.name}</SelectItem>
+                )),
+                <SelectItem key="unassigned">Não Atribuído</SelectItem>,
+              ]}
             </Select>
 
             {/* Categoria */}
@@ -289,6 +299,28 @@ export function TicketFilters() {
                 </Select>
               )}
 
+              {/* SLA */}
+              <Select
+                label="SLA"
+                placeholder="Todos"
+                selectedKeys={filters.slaState ? [filters.slaState] : []}
+                size="sm"
+                startContent={<FiAlertTriangle className="text-sm" />}
+                onSelectionChange={keys => {
+                  const selectedKeys = Array.from(keys);
+                  const value =
+                    selectedKeys.length > 0
+                      ? (String(selectedKeys[0]) as SlaState)
+                      : undefined;
+
+                  setFilters({ slaState: value });
+                }}
+              >
+                {Object.entries(SLA_STATE_LABELS).map(([key, label]) => (
+                  <SelectItem key={key}>{label}</SelectItem>
+                ))}
+              </Select>
+
               {/* Tags */}
               <Input
                 label="Tags"
@@ -366,13 +398,20 @@ export function TicketFilters() {
                     onClose={() => setFilters({ ownerId: undefined })}
                   >
                     Técnico:{' '}
-                    {filters.ownerId === '1514631054'
-                      ? 'Felipe Teixeira'
-                      : filters.ownerId === '360834054'
-                        ? 'Tiago Triani'
-                        : filters.ownerId === '1727693927'
-                          ? 'Guilherme Souza'
-                          : 'Não Atribuído'}
+                    {settings.technicians.find(
+                      technician => technician.id === filters.ownerId
+                    )?.name || 'Não Atribuído'}
+                  </Chip>
+                )}
+
+                {filters.slaState && (
+                  <Chip
+                    color={SLA_STATE_COLORS[filters.slaState]}
+                    size="sm"
+                    variant="flat"
+                    onClose={() => setFilters({ slaState: undefined })}
+                  >
+                    SLA: {SLA_STATE_LABELS[filters.slaState]}
                   </Chip>
                 )}
               </div>
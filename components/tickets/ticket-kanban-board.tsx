@@ -8,17 +8,32 @@
 
 'use client';
 
+import type { UpdateTicketData } from '@/types/ticket';
+
 import { useState, useMemo, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { Button } from '@heroui/button';
 import { Card, CardBody } from '@heroui/card';
 import { Spinner } from '@heroui/spinner';
-import { FiColumns, FiUser, FiCalendar } from 'react-icons/fi';
+import {
+  FiColumns,
+  FiUser,
+  FiCalendar,
+  FiShuffle,
+  FiCheckSquare,
+} from 'react-icons/fi';
+import { toast } from 'react-hot-toast';
 
 import { EmptyState } from './empty-state';
+import { TicketBulkActionBar } from './ticket-bulk-action-bar';
 import { TicketCard } from './ticket-card';
 import { TicketKanbanColumn } from './ticket-kanban-column';
 
 import { useTicketStore } from '@/lib/stores/ticket-store';
+import {
+  getStageSettingsMap,
+  getTechnicianSettingsMap,
+} from '@/lib/config/ticket-settings';
 
 // Tipos para visualização
 type ViewMode = 'stage' | 'owner' | 'priority';
@@ -47,144 +62,60 @@ const columnVariants = {
   },
 };
 
-// Configurações dos técnicos especificados
-const TECHNICIANS = {
-  '1514631054': {
-    name: 'Felipe Teixeira',
-    role: 'Analista N2 Eventos',
-    color: 'primary',
-    avatar: 'FT',
-  },
-  '360834054': {
-    name: 'Tiago Triani',
-    role: 'Analista N2',
-    color: 'secondary',
-    avatar: 'TT',
-  },
-  '1727693927': {
-    name: 'Guilherme Souza',
-    role: 'Analista N2',
-    color: 'success',
-    avatar: 'GS',
-  },
-} as const;
-
-// Configuração específica dos stages do sistema inPatch
-const INPATCH_STAGES_CONFIG: Record<
-  string,
-  {
-    label: string;
-    color: string;
-    displayOrder: number;
-    description: string;
-  }
-> = {
-  // Triagem N2 - stageId = 1110524173 (Aguardando triagem do time N2)
-  '1110524173': {
-    label: 'Triagem N2',
-    color: 'bg-blue-500',
-    displayOrder: 1,
-    description: 'Aguardando triagem do time N2',
-  },
-  // P0|Crítico - stageId = 1060950860 (Tickets com prioridade Urgente)
-  '1060950860': {
-    label: 'P0|Crítico',
-    color: 'bg-red-600',
-    displayOrder: 2,
-    description: 'Tickets com prioridade Urgente',
-  },
-  // P1|Alta - stageId = 1060950861 (Tickets com prioridade Alta)
-  '1060950861': {
-    label: 'P1|Alta',
-    color: 'bg-orange-500',
-    displayOrder: 3,
-    description: 'Tickets com prioridade Alta',
-  },
-  // P2|Média - stageId = 1060950862 (Tickets com prioridade Normal)
-  '1060950862': {
-    label: 'P2|Média',
-    color: 'bg-yellow-500',
-    displayOrder: 4,
-    description: 'Tickets com prioridade Normal',
-  },
-  // P3|Baixa - stageId = 1060950863 (Tickets com prioridade Baixa)
-  '1060950863': {
-    label: 'P3|Baixa',
-    color: 'bg-green-500',
-    displayOrder: 5,
-    description: 'Tickets com prioridade Baixa',
-  },
-  // P4|Trivial - stageId = 1060950864 (Tickets com prioridade Lowest)
-  '1060950864': {
-    label: 'P4|Trivial',
-    color: 'bg-gray-400',
-    displayOrder: 6,
-    description: 'Tickets com prioridade Lowest',
-  },
-  // Resolvido - stageId = 936942379 (Tickets resolvidos)
-  '936942379': {
-    label: 'Resolvido',
-    color: 'bg-emerald-600',
-    displayOrder: 7,
-    description: 'Tickets resolvidos',
-  },
-  // Desconsiderado - stageId = 1028692851 (Tickets fechados, fora do padrão ou ilegível)
-  '1028692851': {
-    label: 'Desconsiderado',
-    color: 'bg-slate-500',
-    displayOrder: 8,
-    description: 'Tickets fechados, fora do padrão ou ilegível',
-  },
-};
-
-// Labels para estágios (backward compatibility)
+// Labels genéricos para estágios fora das configurações (backward compatibility)
 const STAGE_LABELS: Record<string, string> = {
-  ...Object.fromEntries(
-    Object.entries(INPATCH_STAGES_CONFIG).map(([id, config]) => [
-      id,
-      config.label,
-    ])
-  ),
-  // Fallbacks genéricos
   new: 'Novo',
   open: 'Aberto',
   in_progress: 'Em Progresso',
   waiting: 'Aguardando',
   resolved: 'Resolvido',
   closed: 'Fechado',
+  unassigned: 'Não Atribuídos',
 };
 
-// Cores para diferentes estágios (backward compatibility)
+// Cores genéricas para estágios fora das configurações (backward compatibility)
 const STAGE_COLORS: Record<string, string> = {
-  ...Object.fromEntries(
-    Object.entries(INPATCH_STAGES_CONFIG).map(([id, config]) => [
-      id,
-      config.color,
-    ])
-  ),
-  // Fallbacks genéricos
   new: 'bg-blue-500',
   open: 'bg-orange-500',
   in_progress: 'bg-purple-500',
   waiting: 'bg-yellow-500',
   resolved: 'bg-green-500',
   closed: 'bg-gray-500',
+  unassigned: 'bg-gray-400',
 };
 
 export function TicketKanbanBoard() {
   const [viewMode, setViewMode] = useState<ViewMode>('stage');
   // Kanbans expandidos por padrão - inicializar vazio e expandir programaticamente
   const [expandedStages, setExpandedStages] = useState<Set<string>>(new Set());
+  const [isAssigning, setIsAssigning] = useState(false);
 
   const {
     loading,
     getFilteredTickets,
     getTicketsByStage,
     getTicketsByOwner,
+    getTicketById,
+    updateTicketById,
+    autoAssignTickets,
+    selectedTicketIds,
+    toggleTicketSelection,
+    setTicketSelection,
     pipelines,
     owners,
+    settings,
   } = useTicketStore();
 
+  // Estágios e técnicos gerenciados em /admin/settings
+  const stageSettings = useMemo(
+    () => getStageSettingsMap(settings),
+    [settings]
+  );
+  const technicianSettings = useMemo(
+    () => getTechnicianSettingsMap(settings),
+    [settings]
+  );
+
   // Dados baseados no modo de visualização
   const ticketGroups = useMemo(() => {
     switch (viewMode) {
@@ -245,6 +176,111 @@ export function TicketKanbanBoard() {
     setExpandedStages(newExpanded);
   };
 
+  // Drop de ticket em outra coluna: estágio (stage) ou técnico (owner)
+  const handleTicketDrop = async (groupId: string, ticketId: string) => {
+    const ticket = getTicketById(ticketId);
+
+    if (!ticket) return;
+
+    let updates: UpdateTicketData;
+
+    if (viewMode === 'stage' && groupId === 'unassigned') {
+      // Devolver à fila de atribuição
+      if (!ticket.hubspotOwnerId) return;
+      updates = { hubspotOwnerId: '' };
+    } else if (viewMode === 'stage') {
+      if (ticket.pipelineStageId === groupId) return;
+      updates = { pipelineStageId: groupId };
+    } else if (viewMode === 'owner') {
+      const hubspotOwnerId = groupId === 'unassigned' ? '' : groupId;
+
+      if ((ticket.hubspotOwnerId || '') === hubspotOwnerId) return;
+      updates = { hubspotOwnerId };
+    } else {
+      return;
+    }
+
+    try {
+      await updateTicketById(ticket.hubspotId, updates, { optimistic: true });
+    } catch (error) {
+      toast.error(
+        `Não foi possível mover o ticket #${ticket.hubspotId.slice(-6)}: ${
+          error instanceof Error ? error.message : 'Erro desconhecido'
+        }`
+      );
+    }
+  };
+
+  // Distribuir os tickets da coluna "Não Atribuídos" entre os técnicos
+  const handleAutoAssign = async (hubspotIds: string[]) => {
+    setIsAssigning(true);
+
+    try {
+      const summary = await autoAssignTickets(hubspotIds);
+
+      if (summary.assigned > 0) {
+        toast.success(`${summary.assigned} ticket(s) atribuído(s)`);
+      }
+      if (summary.skipped > 0) {
+        toast.error(
+          `${summary.skipped} ticket(s) sem técnico disponível no momento`
+        );
+      }
+      if (summary.errors > 0) {
+        toast.error(`${summary.errors} ticket(s) não puderam ser atribuídos`);
+      }
+    } catch (error) {
+      toast.error(
+        `Não foi possível distribuir os tickets: ${
+          error instanceof Error ? error.message : 'Erro desconhecido'
+        }`
+      );
+    } finally {
+      setIsAssigning(false);
+    }
+  };
+
+  // Seleção de um ticket; shift-click seleciona o intervalo desde o último
+  // ticket selecionado na mesma coluna
+  const handleTicketSelect = (
+    columnIds: string[],
+    hubspotId: string,
+    range: boolean
+  ) => {
+    const anchorId = selectedTicketIds[selectedTicketIds.length - 1];
+    const anchorIndex = anchorId ? columnIds.indexOf(anchorId) : -1;
+
+    if (!range || anchorIndex === -1) {
+      toggleTicketSelection(hubspotId);
+
+      return;
+    }
+
+    const targetIndex = columnIds.indexOf(hubspotId);
+    const rangeIds = columnIds.slice(
+      Math.min(anchorIndex, targetIndex),
+      Math.max(anchorIndex, targetIndex) + 1
+    );
+
+    // Manter a âncora por último para encadear novos intervalos
+    setTicketSelection([
+      ...selectedTicketIds.filter(id => id !== anchorId),
+      ...rangeIds.filter(id => id !== anchorId),
+      anchorId,
+    ]);
+  };
+
+  // Selecionar (ou desmarcar) todos os tickets de uma coluna
+  const handleToggleColumnSelection = (columnIds: string[]) => {
+    const allSelected = columnIds.every(id => selectedTicketIds.includes(id));
+
+    setTicketSelection(
+      allSelected
+        ? selectedTicketIds.filter(id => !columnIds.includes(id))
+        : [...selectedTicketIds, ...columnIds]
+    );
+  };
+
   // Inicializar todos os estágios como expandidos ao carregar dados
   useEffect(() => {
     const stageIds = Object.keys(ticketGroups);
@@ -266,11 +302,13 @@ export function TicketKanbanBoard() {
     const groupB = b as any;
 
     if (groupA?.stage && groupB?.stage) {
-      // Usar ordem personalizada da configuração inPatch
-      const orderA =
-        INPATCH_STAGES_CONFIG[groupA.stage.id]?.displayOrder || 999;
-      const orderB =
-        INPATCH_STAGES_CONFIG[groupB.stage.id]?.displayOrder || 999;
+      // Usar ordem personalizada das configurações ("Não Atribuídos" primeiro)
+      const getOrder = (stageId: string) =>
+        stageId === 'unassigned'
+          ? -1
+          : stageSettings[stageId]?.displayOrder || 999;
+      const orderA = getOrder(groupA.stage.id);
+      const orderB = getOrder(groupB.stage.id);
 
       return orderA - orderB;
     }
@@ -409,7 +447,7 @@ export function TicketKanbanBoard() {
 
               if ('stage' in groupData) {
                 const stage = groupData.stage;
-                const stageConfig = INPATCH_STAGES_CONFIG[stage.id];
+                const stageConfig = stageSettings[stage.id];
 
                 columnInfo = {
                   title:
@@ -430,8 +468,7 @@ export function TicketKanbanBoard() {
                 };
               } else if ('owner' in groupData) {
                 const owner = groupData.owner;
-                const techInfo =
-                  TECHNICIANS[owner.id as keyof typeof TECHNICIANS];
+                const techInfo = technicianSettings[owner.id];
 
                 columnInfo = {
                   title: techInfo?.name || owner.fullName || 'Não Atribuído',
@@ -449,6 +486,13 @@ export function TicketKanbanBoard() {
                 };
               }
 
+              const columnTicketIds: string[] = (groupData.tickets || []).map(
+                (ticket: any) => ticket.hubspotId
+              );
+              const isColumnSelected =
+                columnTicketIds.length > 0 &&
+                columnTicketIds.every(id => selectedTicketIds.includes(id));
+
               return (
                 <motion.div
                   key={groupId}
@@ -460,11 +504,50 @@ export function TicketKanbanBoard() {
                     avatar={columnInfo.avatar}
                     color={columnInfo.color}
                     count={columnInfo.count}
+                    headerAction={
+                      <>
+                        {viewMode === 'stage' && groupId === 'unassigned' && (
+                          <Button
+                            color="primary"
+                            isLoading={isAssigning}
+                            size="sm"
+                            startContent={!isAssigning && <FiShuffle />}
+                            variant="flat"
+                            onPress={() => handleAutoAssign(columnTicketIds)}
+                          >
+                            Distribuir
+                          </Button>
+                        )}
+                        {columnTicketIds.length > 0 && (
+                          <Button
+                            isIconOnly
+                            aria-label={
+                              isColumnSelected
+                                ? 'Desmarcar tickets da coluna'
+                                : 'Selecionar todos da coluna'
+                            }
+                            color={isColumnSelected ? 'primary' : 'default'}
+                            size="sm"
+                            variant={isColumnSelected ? 'flat' : 'light'}
+                            onPress={() =>
+                              handleToggleColumnSelection(columnTicketIds)
+                            }
+                          >
+                            <FiCheckSquare className="text-sm" />
+                          </Button>
+                        )}
+                      </>
+                    }
                     id={groupId}
                     isExpanded={isStageExpanded}
                     subtitle={columnInfo.subtitle}
                     title={columnInfo.title}
                     viewMode={viewMode}
+                    onTicketDrop={
+                      viewMode === 'priority'
+                        ? undefined
+                        : ticketId => handleTicketDrop(groupId, ticketId)
+                    }
                     onToggleExpand={() => toggleStageExpansion(groupId)}
                   >
                     <AnimatePresence mode="popLayout">
@@ -490,13 +573,23 @@ export function TicketKanbanBoard() {
                             initial={{ opacity: 0, y: 20 }}
                           >
                             <TicketCard
+                              isDraggable={viewMode !== 'priority'}
+                              isSelected={selectedTicketIds.includes(
+                                ticket.hubspotId
+                              )}
+                              isSelectionActive={selectedTicketIds.length > 0}
                               technicianInfo={
-                                TECHNICIANS[
-                                  ticket.hubspotOwnerId as keyof typeof TECHNICIANS
-                                ]
+                                technicianSettings[ticket.hubspotOwnerId]
                               }
                               ticket={ticket}
                               viewMode={viewMode}
+                              onSelect={range =>
+                                handleTicketSelect(
+                                  columnTicketIds,
+                                  ticket.hubspotId,
+                                  range
+                                )
+                              }
                             />
                           </motion.div>
                         )
@@ -510,6 +603,9 @@ export function TicketKanbanBoard() {
         </motion.div>
       </div>
 
+      {/* Ações em lote para os tickets selecionados */}
+      <TicketBulkActionBar />
+
       {/* Modern Loading overlay */}
       <AnimatePresence>
         {loading && Object.keys(ticketGroups).length > 0 && (
@@ -8,7 +8,7 @@
 
 'use client';
 
-import { ReactNode } from 'react';
+import { DragEvent, ReactNode, useState } from 'react';
 import { motion } from 'framer-motion';
 import { Card, CardHeader, CardBody } from '@heroui/card';
 import { Chip } from '@heroui/chip';
@@ -16,6 +16,8 @@ import { Chip } from '@heroui/chip';
 import { Button } from '@heroui/button';
 import { FiChevronDown, FiMoreHorizontal } from 'react-icons/fi';
 
+import { TICKET_DRAG_TYPE } from './ticket-card';
+
 interface TicketKanbanColumnProps {
   id: string;
   title: string;
@@ -26,6 +28,8 @@ interface TicketKanbanColumnProps {
   isExpanded: boolean;
   onToggleExpand: () => void;
   viewMode: 'stage' | 'owner' | 'priority';
+  onTicketDrop?: (ticketId: string) => void;
+  headerAction?: ReactNode; // Ação extra no header (ex.: distribuir tickets)
   children: ReactNode;
 }
 
@@ -78,8 +82,42 @@ export function TicketKanbanColumn({
   isExpanded,
   onToggleExpand,
   viewMode,
+  onTicketDrop,
+  headerAction,
   children,
 }: TicketKanbanColumnProps) {
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  // Aceitar apenas drags de tickets quando a coluna permite drop
+  const isTicketDrag = (event: DragEvent<HTMLDivElement>) =>
+    !!onTicketDrop && event.dataTransfer.types.includes(TICKET_DRAG_TYPE);
+
+  const handleDragOver = (event: DragEvent<HTMLDivElement>) => {
+    if (!isTicketDrag(event)) return;
+
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'move';
+    if (!isDragOver) setIsDragOver(true);
+  };
+
+  const handleDragLeave = (event: DragEvent<HTMLDivElement>) => {
+    // Ignorar eventos disparados ao passar por elementos filhos
+    if (event.currentTarget.contains(event.relatedTarget as Node)) return;
+
+    setIsDragOver(false);
+  };
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    if (!isTicketDrag(event)) return;
+
+    event.preventDefault();
+    setIsDragOver(false);
+
+    const ticketId = event.dataTransfer.getData(TICKET_DRAG_TYPE);
+
+    if (ticketId) onTicketDrop?.(ticketId);
+  };
+
   // Determinar cor do chip baseada na contagem
   const getCountColor = () => {
     if (count === 0) return 'default';
@@ -90,7 +128,14 @@ export function TicketKanbanColumn({
   };
 
   return (
-    <div className="flex flex-col">
+    <div
+      className={`flex flex-col rounded-xl transition-shadow duration-200 ${
+        isDragOver ? 'ring-2 ring-primary-400/70 shadow-lg' : ''
+      }`}
+      onDragLeave={handleDragLeave}
+      onDragOver={handleDragOver}
+      onDrop={handleDrop}
+    >
       {/* Header da Coluna */}
       <motion.div
         animate={isExpanded ? 'expanded' : 'collapsed'}
@@ -131,6 +176,8 @@ export function TicketKanbanColumn({
 
               {/* Lado Direito - Controles */}
               <div className="flex items-center gap-2 shrink-0">
+                {headerAction}
+
                 {/* Chip de Contagem */}
                 <Chip
                   className="text-xs font-medium"
@@ -184,15 +231,18 @@ export function TicketKanbanColumn({
       >
         <Card className="liquid-glass rounded-t-none border-t-0 min-h-[400px]">
           <CardBody className="p-3 gap-3">
-            {/* Área de Drop Zone (futuro drag & drop) */}
+            {/* Área de Drop Zone */}
             <div
-              className="
+              className={`
                 min-h-[350px] space-y-3
-                border-2 border-dashed border-transparent
+                border-2 border-dashed
                 rounded-lg transition-colors duration-200
-                hover:border-primary-300/50 hover:bg-primary-50/20
-                dark:hover:border-primary-700/50 dark:hover:bg-primary-950/20
-              "
+                ${
+                  isDragOver
+                    ? 'border-primary-400/70 bg-primary-50/30 dark:bg-primary-950/30'
+                    : 'border-transparent'
+                }
+              `}
             >
               {count === 0 ? (
                 <div className="flex flex-col items-center justify-center h-32 text-center">
@@ -0,0 +1,134 @@
+/**
+ * Ticket Stage Timeline - Linha do tempo de estágios do ticket
+ * Transições (sync, webhook, dashboard ou histórico do HubSpot) e a
+ * permanência total em cada estágio
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+'use client';
+
+import type { TicketTimeline } from '@/types/ticket';
+
+import { useEffect, useState } from 'react';
+import { Chip } from '@heroui/chip';
+import { Spinner } from '@heroui/spinner';
+import { FiGitCommit } from 'react-icons/fi';
+
+import { formatDwellMinutes } from '@/lib/utils/ticket-timeline';
+import { TICKET_TRANSITION_SOURCE_LABELS } from '@/types/ticket';
+
+interface TicketStageTimelineProps {
+  hubspotId: string;
+  currentStageId: string;
+  stageLabel: (stageId: string) => string;
+}
+
+export function TicketStageTimeline({
+  hubspotId,
+  currentStageId,
+  stageLabel,
+}: TicketStageTimelineProps) {
+  const [timeline, setTimeline] = useState<TicketTimeline | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Recarrega quando o estágio muda (ex: edição no próprio painel)
+  useEffect(() => {
+    let cancelled = false;
+
+    setIsLoading(true);
+    setError(null);
+
+    fetch(`/api/tickets/${hubspotId}/transitions`)
+      .then(response => response.json())
+      .then(data => {
+        if (cancelled) return;
+        if (!data.success) {
+          throw new Error(data.details || data.error || 'Falha ao carregar');
+        }
+        setTimeline(data.data);
+      })
+      .catch(fetchError => {
+        if (cancelled) return;
+        setError(
+          fetchError instanceof Error
+            ? fetchError.message
+            : 'Erro ao carregar histórico'
+        );
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [hubspotId, currentStageId]);
+
+  const transitions = timeline ? [...timeline.transitions].reverse() : [];
+
+  return (
+    <section>
+      <h3 className="text-sm font-semibold text-foreground/70 mb-2 flex items-center gap-1">
+        <FiGitCommit /> Linha do tempo de estágios
+        {isLoading && <Spinner className="ml-1" size="sm" />}
+      </h3>
+
+      {error && !timeline && <p className="text-sm text-danger-500">{error}</p>}
+
+      {timeline && timeline.transitions.length === 0 && (
+        <p className="text-sm text-foreground/50">
+          Nenhuma transição registrada
+        </p>
+      )}
+
+      {timeline && timeline.dwell.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 mb-3">
+          {timeline.dwell.map(dwell => (
+            <Chip key={dwell.stageId} size="sm" variant="flat">
+              {stageLabel(dwell.stageId)}:{' '}
+              {formatDwellMinutes(dwell.totalMinutes)}
+              {dwell.visits > 1 && ` (${dwell.visits}×)`}
+            </Chip>
+          ))}
+        </div>
+      )}
+
+      {transitions.length > 0 && (
+        <ol className="relative border-l border-default-200 dark:border-default-700 ml-2 space-y-3">
+          {transitions.map(transition => (
+            <li key={transition.id} className="ml-4">
+              <span
+                className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full ${
+                  transition.isCurrent ? 'bg-primary-500' : 'bg-default-300'
+                }`}
+              />
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm font-medium text-foreground">
+                  {stageLabel(transition.toStageId)}
+                </span>
+                {transition.isCurrent && (
+                  <Chip color="primary" size="sm" variant="flat">
+                    Atual
+                  </Chip>
+                )}
+                <span className="text-xs text-foreground/50">
+                  {formatDwellMinutes(transition.durationMinutes)}
+                </span>
+              </div>
+              <p className="text-xs text-foreground/50">
+                {new Date(transition.transitionedAt).toLocaleString('pt-BR')}
+                {transition.fromStageId &&
+                  ` · de ${stageLabel(transition.fromStageId)}`}
+                {` · ${TICKET_TRANSITION_SOURCE_LABELS[transition.source] || transition.source}`}
+                {transition.changedBy && ` · ${transition.changedBy}`}
+              </p>
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+}
@@ -22,6 +22,9 @@ import {
   FiActivity,
 } from 'react-icons/fi';
 
+import { useTicketStore } from '@/lib/stores/ticket-store';
+import { getTechnicianSettingsMap } from '@/lib/config/ticket-settings';
+
 interface TicketStatsProps {
   stats: TicketStatsType;
 }
@@ -51,6 +54,9 @@ const cardVariants = {
 };
 
 export function TicketStats({ stats }: TicketStatsProps) {
+  const { settings } = useTicketStore();
+  const technicianSettings = getTechnicianSettingsMap(settings);
+
   // Calcular percentuais
   const getPercentage = (value: number, total: number) => {
     return total > 0 ? Math.round((value / total) * 100) : 0;
@@ -185,6 +191,8 @@ export function TicketStats({ stats }: TicketStatsProps) {
             </div>
             <p className="text-xs text-foreground/60">
               {stats.closedTickets} de {stats.total} tickets resolvidos
+              {stats.avgTimeToClose !== undefined &&
+                ` • ${stats.avgTimeToClose}h em média até o fechamento`}
             </p>
           </CardBody>
         </Card>
@@ -279,17 +287,12 @@ export function TicketStats({ stats }: TicketStatsProps) {
                 .map(([ownerId, count]) => {
                   const percentage = getPercentage(count, stats.total);
 
-                  // Mapear técnicos conhecidos
-                  const technicianNames = {
-                    '1514631054': 'Felipe Teixeira',
-                    '360834054': 'Tiago Triani',
-                    '1727693927': 'Guilherme Souza',
-                    unassigned: 'Não Atribuído',
-                  };
-
+                  // Mapear técnicos configurados
                   const name =
-                    technicianNames[ownerId as keyof typeof technicianNames] ||
-                    `Técnico ${ownerId.slice(-4)}`;
+                    ownerId === 'unassigned'
+                      ? 'Não Atribuído'
+                      : technicianSettings[ownerId]?.name ||
+                        `Técnico ${ownerId.slice(-4)}`;
 
                   return (
                     <div
@@ -0,0 +1,121 @@
+/**
+ * Ticket Triage Info - Explicação da triagem automática do ticket
+ * Regra que disparou, condições atendidas e alterações (ou simulação)
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+'use client';
+
+import type { TicketTriageResult, TriageChange } from '@/types/triage';
+import type { TicketPriority } from '@/types/ticket';
+
+import { useEffect, useState } from 'react';
+import { Chip } from '@heroui/chip';
+import { FiZap } from 'react-icons/fi';
+
+import { TRIAGE_CHANGE_LABELS } from '@/types/triage';
+import { TICKET_PRIORITY_LABELS } from '@/types/ticket';
+
+interface TicketTriageInfoProps {
+  hubspotId: string;
+  currentStageId: string;
+  stageLabel: (stageId: string) => string;
+  ownerLabel: (ownerId?: string) => string;
+}
+
+export function TicketTriageInfo({
+  hubspotId,
+  currentStageId,
+  stageLabel,
+  ownerLabel,
+}: TicketTriageInfoProps) {
+  const [result, setResult] = useState<TicketTriageResult | null>(null);
+
+  // Recarrega quando o estágio muda (a regra pode ter movido o ticket)
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/tickets/${hubspotId}/triage`)
+      .then(response => response.json())
+      .then(data => {
+        if (!cancelled && data.success) setResult(data.data.result);
+      })
+      .catch(() => {
+        // Explicação é opcional: sem ela o painel segue normalmente
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [hubspotId, currentStageId]);
+
+  if (!result) return null;
+
+  const formatValue = (change: TriageChange, value?: string | string[]) => {
+    if (Array.isArray(value)) return value.join(', ') || '—';
+    if (!value) return '—';
+    if (change.field === 'pipelineStageId') return stageLabel(value);
+    if (change.field === 'hubspotOwnerId') return ownerLabel(value);
+    if (change.field === 'priority') {
+      return TICKET_PRIORITY_LABELS[value as TicketPriority] || value;
+    }
+
+    return value;
+  };
+
+  return (
+    <section>
+      <h3 className="text-sm font-semibold text-foreground/70 mb-2 flex items-center gap-1">
+        <FiZap /> Triagem automática
+      </h3>
+
+      <div className="p-3 bg-content2 rounded-lg space-y-2 text-sm">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-medium text-foreground">{result.ruleName}</span>
+          {result.error ? (
+            <Chip color="danger" size="sm" variant="flat">
+              Falhou
+            </Chip>
+          ) : result.applied ? (
+            <Chip color="success" size="sm" variant="flat">
+              Aplicada
+            </Chip>
+          ) : (
+            <Chip color="warning" size="sm" variant="flat">
+              {result.dryRun ? 'Simulação' : 'Sem alterações'}
+            </Chip>
+          )}
+          <span className="text-xs text-foreground/50">
+            {new Date(result.evaluatedAt).toLocaleString('pt-BR')}
+          </span>
+        </div>
+
+        <p className="text-xs text-foreground/60">
+          Motivo: {result.reasons.join(' • ')}
+        </p>
+
+        {result.changes.length > 0 && (
+          <ul className="space-y-1">
+            {result.changes.map(change => (
+              <li key={change.field} className="text-xs">
+                <span className="text-foreground/60">
+                  {TRIAGE_CHANGE_LABELS[change.field]}:
+                </span>{' '}
+                {formatValue(change, change.from)} →{' '}
+                <span className="font-medium">
+                  {formatValue(change, change.to)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {result.error && (
+          <p className="text-xs text-danger-500">{result.error}</p>
+        )}
+      </div>
+    </section>
+  );
+}
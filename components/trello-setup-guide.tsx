@@ -100,7 +100,7 @@ export const TrelloSetupGuide = () => {
                   variant="light"
                   onClick={() =>
                     copyToClipboard(
-                      'NEXT_PUBLIC_TRELLO_API_KEY=sua_api_key_aqui\nNEXT_PUBLIC_TRELLO_API_TOKEN=seu_token_aqui\nNEXT_PUBLIC_TRELLO_BOARD_ID=RVFcbKeF',
+                      'TRELLO_API_KEY=sua_api_key_aqui\nTRELLO_API_TOKEN=seu_token_aqui\nTRELLO_BOARD_ID=RVFcbKeF',
                       'Configuração'
                     )
                   }
@@ -110,21 +110,22 @@ export const TrelloSetupGuide = () => {
               </div>
               <div className="space-y-1">
                 <div>
-                  NEXT_PUBLIC_TRELLO_API_KEY=
+                  TRELLO_API_KEY=
                   <span className="text-warning">sua_api_key_aqui</span>
                 </div>
                 <div>
-                  NEXT_PUBLIC_TRELLO_API_TOKEN=
+                  TRELLO_API_TOKEN=
                   <span className="text-warning">seu_token_aqui</span>
                 </div>
                 <div>
-                  NEXT_PUBLIC_TRELLO_BOARD_ID=
+                  TRELLO_BOARD_ID=
                   <span className="text-success">RVFcbKeF</span>
                 </div>
               </div>
             </div>
             <p className="text-xs text-default-500">
-              O Board ID já foi extraído da sua URL do Trello
+              O Board ID já foi extraído da sua URL do Trello. As credenciais
+              ficam apenas no servidor (sem prefixo NEXT_PUBLIC_)
             </p>
           </CardBody>
         </Card>
@@ -0,0 +1,61 @@
+'use client';
+
+import type { AuthUser, UserProfile } from '@/types/auth';
+
+import { useEffect, useState } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { Button } from '@heroui/button';
+import { Chip } from '@heroui/chip';
+import { FiLogOut } from 'react-icons/fi';
+
+import { getSession, signOut } from '@/lib/api/client-auth';
+import { USER_ROLE_COLORS, USER_ROLE_LABELS } from '@/types/auth';
+
+export const UserMenu = () => {
+  const router = useRouter();
+  const pathname = usePathname();
+  const [session, setSession] = useState<{
+    user: AuthUser;
+    profile: UserProfile | null;
+  } | null>(null);
+
+  // Recarrega a cada navegação (login/logout trocam de rota)
+  useEffect(() => {
+    getSession()
+      .then(setSession)
+      .catch(() => setSession(null));
+  }, [pathname]);
+
+  if (!session) return null;
+
+  const handleSignOut = async () => {
+    await signOut();
+    setSession(null);
+    router.replace('/login');
+    router.refresh();
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="hidden md:inline text-sm text-default-600">
+        {session.profile?.name || session.user.email}
+      </span>
+      <Chip
+        color={USER_ROLE_COLORS[session.user.role]}
+        size="sm"
+        variant="flat"
+      >
+        {USER_ROLE_LABELS[session.user.role]}
+      </Chip>
+      <Button
+        isIconOnly
+        aria-label="Sair"
+        size="sm"
+        variant="light"
+        onPress={handleSignOut}
+      >
+        <FiLogOut />
+      </Button>
+    </div>
+  );
+};
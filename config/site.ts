@@ -13,6 +13,38 @@ export const siteConfig = {
       label: 'Tickets',
       href: '/tickets',
     },
+    {
+      label: 'Configurações',
+      href: '/admin/settings',
+    },
+    {
+      label: 'Catálogo',
+      href: '/admin/catalog',
+    },
+    {
+      label: 'Triagem',
+      href: '/admin/triage',
+    },
+    {
+      label: 'Atribuição',
+      href: '/admin/assignment',
+    },
+    {
+      label: 'SLA',
+      href: '/admin/sla',
+    },
+    {
+      label: 'Webhooks',
+      href: '/admin/webhooks',
+    },
+    {
+      label: 'Usuários',
+      href: '/admin/users',
+    },
+    {
+      label: 'Auditoria',
+      href: '/admin/audit',
+    },
   ],
   navMenuItems: [
     {
@@ -23,6 +55,38 @@ export const siteConfig = {
       label: 'Tickets',
       href: '/tickets',
     },
+    {
+      label: 'Configurações',
+      href: '/admin/settings',
+    },
+    {
+      label: 'Catálogo',
+      href: '/admin/catalog',
+    },
+    {
+      label: 'Triagem',
+      href: '/admin/triage',
+    },
+    {
+      label: 'Atribuição',
+      href: '/admin/assignment',
+    },
+    {
+      label: 'SLA',
+      href: '/admin/sla',
+    },
+    {
+      label: 'Webhooks',
+      href: '/admin/webhooks',
+    },
+    {
+      label: 'Usuários',
+      href: '/admin/users',
+    },
+    {
+      label: 'Auditoria',
+      href: '/admin/audit',
+    },
   ],
   links: {
     github: 'https://github.com/inChurch',
@@ -0,0 +1,56 @@
+import type { AuthUser, UserProfile, UserProfileUpdate } from '@/types/auth';
+
+export async function signIn(email: string, password: string) {
+  const res = await fetch('/api/auth/session', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password }),
+  });
+  const json = await res.json();
+
+  if (!res.ok || !json.success)
+    throw new Error(json.details || json.error || 'Falha no login');
+
+  return json.data.profile as UserProfile;
+}
+
+export async function signOut() {
+  await fetch('/api/auth/session', { method: 'DELETE' });
+}
+
+export async function getSession() {
+  const res = await fetch('/api/auth/session', { cache: 'no-store' });
+
+  if (res.status === 401) return null;
+
+  if (!res.ok)
+    throw new Error((await res.json()).error || 'Falha ao carregar sessão');
+
+  return (await res.json()).data as {
+    user: AuthUser;
+    profile: UserProfile | null;
+  };
+}
+
+export async function getUsers() {
+  const res = await fetch('/api/auth/users');
+
+  if (!res.ok)
+    throw new Error((await res.json()).error || 'Falha ao carregar usuários');
+
+  return (await res.json()).data as UserProfile[];
+}
+
+export async function updateUser(userId: string, update: UserProfileUpdate) {
+  const res = await fetch('/api/auth/users', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ userId, ...update }),
+  });
+  const json = await res.json();
+
+  if (!res.ok || !json.success)
+    throw new Error(json.details || json.error || 'Falha ao atualizar usuário');
+
+  return json.data as UserProfile;
+}
@@ -1,8 +1,51 @@
-import type { Project } from '@/types/project';
+import type {
+  CheckItemState,
+  Project,
+  ProjectActivityFeed,
+  ProjectActivityItem,
+  ProjectAttachment,
+  ProjectDependencies,
+  ProjectDependencyRef,
+} from '@/types/project';
+import type {
+  ConflictResolution,
+  ProjectBoardSyncResult,
+  ProjectDataSource,
+  ProjectSyncConflict,
+} from '@/types/project-sync';
 
-export async function createProject(
-  input: Pick<Project, 'title' | 'description' | 'status' | 'estimatedEndDate'>
-) {
+export async function fetchProjects() {
+  const res = await fetch('/api/projects', { cache: 'no-store' });
+
+  if (!res.ok)
+    throw new Error((await res.json()).error || 'Falha ao carregar projetos');
+
+  return (await res.json()) as {
+    projects: Project[];
+    source: ProjectDataSource;
+  };
+}
+
+export async function syncProjects() {
+  const res = await fetch('/api/projects/sync', { method: 'POST' });
+  const json = await res.json();
+
+  if (!res.ok || !json.success)
+    throw new Error(json.details || json.error || 'Falha na sincronização');
+
+  return json.data as ProjectBoardSyncResult;
+}
+
+// Campos omitidos recebem os padrões do servidor (Backoffice, prioridade média...)
+export type CreateProjectInput = Pick<Project, 'title'> &
+  Partial<
+    Omit<
+      Project,
+      'id' | 'trelloCardId' | 'trelloUpdatedAt' | 'createdAt' | 'updatedAt'
+    >
+  >;
+
+export async function createProject(input: CreateProjectInput) {
   const res = await fetch('/api/projects', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
@@ -41,3 +84,162 @@ export async function deleteProject(cardId: string) {
 
   return (await res.json()) as { success: boolean };
 }
+
+export async function getProjectConflicts(cardId: string) {
+  const params = new URLSearchParams({ trelloCardId: cardId });
+  const res = await fetch(`/api/projects/conflicts?${params.toString()}`);
+
+  if (!res.ok)
+    throw new Error((await res.json()).error || 'Falha ao carregar conflitos');
+
+  return (await res.json()).data as ProjectSyncConflict[];
+}
+
+export async function resolveProjectConflict(
+  conflictId: string,
+  resolution: ConflictResolution
+) {
+  const res = await fetch('/api/projects/conflicts', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ conflictId, resolution }),
+  });
+
+  if (!res.ok)
+    throw new Error((await res.json()).error || 'Falha ao resolver conflito');
+
+  return (await res.json()).data as ProjectSyncConflict;
+}
+
+export async function getProjectDependencies(cardId: string) {
+  const params = new URLSearchParams({ trelloCardId: cardId });
+  const res = await fetch(`/api/projects/dependencies?${params.toString()}`);
+  const json = await res.json();
+
+  if (!res.ok)
+    throw new Error(
+      json.details || json.error || 'Falha ao carregar dependências'
+    );
+
+  return json.data as ProjectDependencies;
+}
+
+export async function addProjectDependency(
+  blockerCardId: string,
+  blockedCardId: string
+) {
+  const res = await fetch('/api/projects/dependencies', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ blockerCardId, blockedCardId }),
+  });
+  const json = await res.json();
+
+  if (!res.ok)
+    throw new Error(json.details || json.error || 'Falha ao criar dependência');
+
+  return json.data as ProjectDependencyRef;
+}
+
+export async function removeProjectDependency(
+  blockerCardId: string,
+  blockedCardId: string
+) {
+  const params = new URLSearchParams({ blockerCardId, blockedCardId });
+  const res = await fetch(`/api/projects/dependencies?${params.toString()}`, {
+    method: 'DELETE',
+  });
+  const json = await res.json();
+
+  if (!res.ok)
+    throw new Error(
+      json.details || json.error || 'Falha ao remover dependência'
+    );
+}
+
+export async function toggleProjectCheckItem(
+  cardId: string,
+  checkItemId: string,
+  state: CheckItemState
+) {
+  const res = await fetch('/api/projects/checklists', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ trelloCardId: cardId, checkItemId, state }),
+  });
+  const json = await res.json();
+
+  if (!res.ok)
+    throw new Error(
+      json.details || json.error || 'Falha ao atualizar checklist'
+    );
+
+  return json.data as Project;
+}
+
+export async function getProjectActivity(cardId: string) {
+  const params = new URLSearchParams({ trelloCardId: cardId });
+  const res = await fetch(`/api/projects/activity?${params.toString()}`, {
+    cache: 'no-store',
+  });
+  const json = await res.json();
+
+  if (!res.ok)
+    throw new Error(
+      json.details || json.error || 'Falha ao carregar atividades'
+    );
+
+  return json.data as ProjectActivityFeed;
+}
+
+export async function postProjectComment(cardId: string, text: string) {
+  const res = await fetch('/api/projects/activity', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ trelloCardId: cardId, text }),
+  });
+  const json = await res.json();
+
+  if (!res.ok)
+    throw new Error(
+      json.details || json.error || 'Falha ao publicar comentário'
+    );
+
+  return json.data as ProjectActivityItem;
+}
+
+export async function getProjectAttachments(cardId: string) {
+  const params = new URLSearchParams({ trelloCardId: cardId });
+  const res = await fetch(`/api/projects/attachments?${params.toString()}`, {
+    cache: 'no-store',
+  });
+  const json = await res.json();
+
+  if (!res.ok)
+    throw new Error(json.details || json.error || 'Falha ao carregar anexos');
+
+  return json.data as ProjectAttachment[];
+}
+
+export async function uploadProjectAttachment(
+  cardId: string,
+  file: File,
+  setCover = false
+) {
+  const form = new FormData();
+
+  form.append('trelloCardId', cardId);
+  form.append('file', file);
+  form.append('setCover', String(setCover));
+
+  const res = await fetch('/api/projects/attachments', {
+    method: 'POST',
+    body: form,
+  });
+  const json = await res.json();
+
+  if (!res.ok)
+    throw new Error(json.details || json.error || 'Falha ao enviar anexo');
+
+  return json.data as ProjectAttachment;
+}
@@ -1,5 +1,12 @@
-import { Project, Platform, TeamMember } from '@/types/project';
+import type { ProjectCatalog } from '@/types/catalog';
+
+import { Project } from '@/types/project';
 import { TrelloAPI } from '@/lib/trello';
+import {
+  DEFAULT_PROJECT_CATALOG,
+  getDefaultMemberNames,
+  getDefaultPlatformNames,
+} from '@/lib/config/project-catalog';
 import { getAPIConfig } from '@/lib/config/api';
 import { APIError, sanitizeString } from '@/lib/utils/validation';
 
@@ -335,6 +342,7 @@ export class EnhancedTrelloAPI extends TrelloAPI {
         events: [
           'commentCard',
           'addAttachmentToCard',
+          'deleteAttachmentFromCard',
           'updateCheckItemStateOnCard',
         ],
         description: 'inPatch Suporte - Card Events',
@@ -564,7 +572,10 @@ export class EnhancedTrelloAPI extends TrelloAPI {
   /**
    * Enhanced card transformation with better error handling
    */
-  transformCardsToProjectsEnhanced(cards: TrelloCard[]): Project[] {
+  transformCardsToProjectsEnhanced(
+    cards: TrelloCard[],
+    catalog: ProjectCatalog = DEFAULT_PROJECT_CATALOG
+  ): Project[] {
     const validCards = cards.filter(card => {
       try {
         // More robust validation
@@ -592,7 +603,7 @@ export class EnhancedTrelloAPI extends TrelloAPI {
 
     return validCards.map(card => {
       try {
-        return this.transformCardsToProjects([card])[0];
+        return this.transformCardsToProjects([card], catalog)[0];
       } catch (error) {
         console.warn('Error transforming card:', card.id, error);
 
@@ -602,8 +613,8 @@ export class EnhancedTrelloAPI extends TrelloAPI {
           title: sanitizeString(card.name || 'Untitled'),
           description: '',
           progress: 0,
-          platforms: ['Backoffice'] as Platform[],
-          responsible: ['Guilherme Souza'] as TeamMember[],
+          platforms: getDefaultPlatformNames(catalog),
+          responsible: getDefaultMemberNames(catalog),
           startDate: new Date().toISOString(),
           estimatedEndDate: new Date(
             Date.now() + 30 * 24 * 60 * 60 * 1000
@@ -0,0 +1,69 @@
+/**
+ * Auth Guards - Checagem de papel dentro dos route handlers
+ * Lê o usuário repassado pelo middleware; rotas sensíveis chamam
+ * `requireRole` mesmo já cobertas pelas regras do middleware
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type { AuthUser, UserRole } from '@/types/auth';
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import {
+  AUTH_USER_EMAIL_HEADER,
+  AUTH_USER_ID_HEADER,
+  AUTH_USER_ROLE_HEADER,
+  hasRole,
+  toUserRole,
+} from '@/lib/config/auth';
+
+/**
+ * Usuário autenticado da requisição (null se anônimo)
+ */
+export function getRequestUser(request: NextRequest): AuthUser | null {
+  const id = request.headers.get(AUTH_USER_ID_HEADER);
+
+  if (!id) return null;
+
+  return {
+    id,
+    email: request.headers.get(AUTH_USER_EMAIL_HEADER) || '',
+    role: toUserRole(request.headers.get(AUTH_USER_ROLE_HEADER)),
+  };
+}
+
+/**
+ * Retorna a resposta de erro quando o usuário não tem o papel exigido
+ */
+export function requireRole(
+  request: NextRequest,
+  role: UserRole
+): NextResponse | null {
+  const user = getRequestUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Não autenticado',
+        details: 'Faça login para continuar',
+      },
+      { status: 401 }
+    );
+  }
+
+  if (!hasRole(user.role, role)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Acesso negado',
+        details: `Esta ação exige o papel "${role}"`,
+      },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,98 @@
+/**
+ * Auth Session - Sessão do Supabase Auth em cookies httpOnly
+ * Compatível com o runtime edge: usado pelo middleware e pelas rotas de auth
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type { AuthUser } from '@/types/auth';
+import type { Session, SupabaseClient, User } from '@supabase/supabase-js';
+import type { NextRequest, NextResponse } from 'next/server';
+
+import { createClient } from '@supabase/supabase-js';
+
+import {
+  ACCESS_TOKEN_COOKIE,
+  REFRESH_TOKEN_COOKIE,
+  SESSION_MAX_AGE_SECONDS,
+  toUserRole,
+} from '@/lib/config/auth';
+
+export interface ResolvedSession {
+  user: AuthUser | null;
+  refreshed?: Session; // Presente quando o access token foi renovado
+}
+
+/**
+ * Cliente sem persistência: cada requisição informa seus próprios tokens
+ */
+export function createAuthClient(): SupabaseClient | null {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+  if (!url || !anonKey) return null;
+
+  return createClient(url, anonKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
+
+// O papel vive em app_metadata, que só o servidor consegue alterar
+export function toAuthUser(user: User): AuthUser {
+  return {
+    id: user.id,
+    email: user.email || '',
+    role: toUserRole(user.app_metadata?.role),
+  };
+}
+
+/**
+ * Resolve o usuário da requisição, renovando o access token expirado
+ */
+export async function resolveSession(
+  request: NextRequest
+): Promise<ResolvedSession> {
+  const client = createAuthClient();
+  const accessToken = request.cookies.get(ACCESS_TOKEN_COOKIE)?.value;
+  const refreshToken = request.cookies.get(REFRESH_TOKEN_COOKIE)?.value;
+
+  if (!client || (!accessToken && !refreshToken)) return { user: null };
+
+  if (accessToken) {
+    const { data, error } = await client.auth.getUser(accessToken);
+
+    if (!error && data.user) return { user: toAuthUser(data.user) };
+  }
+
+  if (!refreshToken) return { user: null };
+
+  const { data, error } = await client.auth.refreshSession({
+    refresh_token: refreshToken,
+  });
+
+  if (error || !data.session?.user) return { user: null };
+
+  return { user: toAuthUser(data.session.user), refreshed: data.session };
+}
+
+export function setSessionCookies(
+  response: NextResponse,
+  session: Pick<Session, 'access_token' | 'refresh_token'>
+): void {
+  const options = {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    path: '/',
+    maxAge: SESSION_MAX_AGE_SECONDS,
+  };
+
+  response.cookies.set(ACCESS_TOKEN_COOKIE, session.access_token, options);
+  response.cookies.set(REFRESH_TOKEN_COOKIE, session.refresh_token, options);
+}
+
+export function clearSessionCookies(response: NextResponse): void {
+  response.cookies.delete(ACCESS_TOKEN_COOKIE);
+  response.cookies.delete(REFRESH_TOKEN_COOKIE);
+}
@@ -274,9 +274,17 @@ export class CacheService {
         this.cache.delete('trello-board-lists');
         break;
 
-      case 'commentCard':
       case 'addAttachmentToCard':
-        // These don't affect our project data, so no invalidation needed
+      case 'deleteAttachmentFromCard':
+        // Attachments and cover are part of the project data
+        await this.invalidateProjects();
+        if (data?.card?.id) {
+          this.cache.delete(`trello-card-${data.card.id}`);
+        }
+        break;
+
+      case 'commentCard':
+        // Comments don't affect our project data, so no invalidation needed
         break;
 
       default:
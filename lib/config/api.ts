@@ -30,19 +30,16 @@ function validateEnvVar(
 }
 
 // Get API configuration with validation
+// Trello credentials are server-only: never expose them with NEXT_PUBLIC_
 export function getAPIConfig(): APIConfig {
   return {
     trello: {
-      apiKey: validateEnvVar(
-        'NEXT_PUBLIC_TRELLO_API_KEY',
-        process.env.NEXT_PUBLIC_TRELLO_API_KEY
-      ),
+      apiKey: validateEnvVar('TRELLO_API_KEY', process.env.TRELLO_API_KEY),
       apiToken: validateEnvVar(
-        'NEXT_PUBLIC_TRELLO_API_TOKEN',
-        process.env.NEXT_PUBLIC_TRELLO_API_TOKEN
+        'TRELLO_API_TOKEN',
+        process.env.TRELLO_API_TOKEN
       ),
-      boardId:
-        process.env.NEXT_PUBLIC_TRELLO_BOARD_ID || '6807e4880c33aea54daabd5c',
+      boardId: process.env.TRELLO_BOARD_ID || '6807e4880c33aea54daabd5c',
       baseUrl: 'https://api.trello.com/1',
     },
     supabase: {
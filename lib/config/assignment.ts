@@ -0,0 +1,37 @@
+/**
+ * Assignment Configuration - Valores iniciais da atribuição automática
+ * Usado como padrão enquanto as configurações não forem salvas no painel
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type {
+  AssignmentSettings,
+  TechnicianSchedule,
+} from '@/types/assignment';
+
+import { DEFAULT_BUSINESS_HOURS } from '@/lib/config/sla';
+
+// Tickets por execução (cada atribuição consome uma requisição ao HubSpot)
+export const ASSIGNMENT_RUN_LIMIT = 100;
+
+// Turno padrão: horário comercial do time N2
+export const getDefaultSchedule = (
+  technicianId: string
+): TechnicianSchedule => ({
+  technicianId,
+  skills: [],
+  workDays: [...DEFAULT_BUSINESS_HOURS.workingDays],
+  shiftStartHour: DEFAULT_BUSINESS_HOURS.startHour,
+  shiftEndHour: DEFAULT_BUSINESS_HOURS.endHour,
+});
+
+// Sem turnos salvos, cada técnico ativo (ticketSettingsService) usa
+// getDefaultSchedule
+export const DEFAULT_ASSIGNMENT_SETTINGS: AssignmentSettings = {
+  strategy: 'least_open',
+  autoAssign: false,
+  schedules: [],
+  absences: [],
+};
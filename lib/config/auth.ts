@@ -0,0 +1,93 @@
+/**
+ * Auth Configuration - Papéis e regras de acesso por rota
+ * Avaliadas pelo middleware; rotas sensíveis repetem a checagem no handler
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type { UserRole } from '@/types/auth';
+
+export const ACCESS_TOKEN_COOKIE = 'inpatch-access-token';
+export const REFRESH_TOKEN_COOKIE = 'inpatch-refresh-token';
+
+// Cabeçalhos preenchidos pelo middleware para os handlers
+export const AUTH_USER_ID_HEADER = 'x-inpatch-user-id';
+export const AUTH_USER_EMAIL_HEADER = 'x-inpatch-user-email';
+export const AUTH_USER_ROLE_HEADER = 'x-inpatch-user-role';
+
+export const LOGIN_PATH = '/login';
+
+// Refresh token do Supabase dura até o logout; a sessão local expira antes
+export const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 7;
+
+const ROLE_RANK: Record<UserRole, number> = {
+  viewer: 0,
+  analyst: 1,
+  admin: 2,
+};
+
+const WRITE_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+interface RouteAccessRule {
+  pattern: RegExp;
+  methods?: string[];
+  role: UserRole | null; // null = rota pública
+}
+
+// Primeira regra compatível vence; sem regra, leitura exige 'viewer'
+const ROUTE_ACCESS_RULES: RouteAccessRule[] = [
+  { pattern: /^\/api\/trello-webhook\/register$/, role: 'admin' },
+  // Webhooks validam assinatura; o worker exige CRON_SECRET (recusa sem ele)
+  { pattern: /^\/api\/(trello-webhook|hubspot-webhook)(\/|$)/, role: null },
+  { pattern: /^\/api\/webhooks\/worker$/, role: null },
+  { pattern: /^\/api\/auth\/session$/, role: null },
+  { pattern: /^\/login$/, role: null },
+  { pattern: /^\/admin(\/|$)/, role: 'admin' },
+  {
+    pattern: /^\/api\/(debug-env|auth\/users|webhooks|audit)(\/|$)/,
+    role: 'admin',
+  },
+  { pattern: /^\/api\/settings(\/|$)/, methods: WRITE_METHODS, role: 'admin' },
+  {
+    pattern: /^\/api\/(tickets|projects)(\/|$)/,
+    methods: ['DELETE'],
+    role: 'admin',
+  },
+  { pattern: /^\/api\//, methods: WRITE_METHODS, role: 'analyst' },
+];
+
+/**
+ * Papel mínimo exigido por uma rota (null = pública)
+ */
+export function getRequiredRole(
+  pathname: string,
+  method: string
+): UserRole | null {
+  const rule = ROUTE_ACCESS_RULES.find(
+    candidate =>
+      candidate.pattern.test(pathname) &&
+      (!candidate.methods || candidate.methods.includes(method.toUpperCase()))
+  );
+
+  return rule ? rule.role : 'viewer';
+}
+
+export function hasRole(role: UserRole, required: UserRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+export function toUserRole(value: unknown): UserRole {
+  return value === 'admin' || value === 'analyst' ? value : 'viewer';
+}
+
+/**
+ * E-mails promovidos a admin no login (bootstrap do primeiro acesso)
+ * Ex: AUTH_ADMIN_EMAILS='ana@inchurch.com.br,joao@inchurch.com.br'
+ */
+export function getBootstrapAdminEmails(): string[] {
+  return (process.env.AUTH_ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+}
@@ -0,0 +1,149 @@
+/**
+ * Project Catalog - Valores iniciais e seletores de plataformas e membros
+ * Usado como seed do banco e como fallback quando o banco não está disponível
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type {
+  CatalogMember,
+  CatalogPlatform,
+  ProjectCatalog,
+} from '@/types/catalog';
+
+import { PLATFORM_BADGE_CLASSES } from '@/types/catalog';
+
+// Seed inicial (plataformas e time históricos do inPatch)
+export const DEFAULT_PROJECT_CATALOG: ProjectCatalog = {
+  platforms: [
+    {
+      id: 'n8n',
+      name: 'N8N',
+      keywords: ['n8n'],
+      color: 'purple',
+      isDefault: false,
+      isActive: true,
+      displayOrder: 1,
+    },
+    {
+      id: 'jira',
+      name: 'Jira',
+      keywords: ['jira'],
+      color: 'blue',
+      isDefault: false,
+      isActive: true,
+      displayOrder: 2,
+    },
+    {
+      id: 'hubspot',
+      name: 'Hubspot',
+      keywords: ['hubspot'],
+      color: 'orange',
+      isDefault: false,
+      isActive: true,
+      displayOrder: 3,
+    },
+    {
+      id: 'backoffice',
+      name: 'Backoffice',
+      keywords: ['backoffice', 'back-office', 'back office'],
+      color: 'sky',
+      isDefault: true,
+      isActive: true,
+      displayOrder: 4,
+    },
+    {
+      id: 'google-workspace',
+      name: 'Google Workspace',
+      keywords: ['google', 'workspace'],
+      color: 'pink',
+      isDefault: false,
+      isActive: true,
+      displayOrder: 5,
+    },
+  ],
+  members: [
+    {
+      id: 'guilherme-souza',
+      name: 'Guilherme Souza',
+      hubspotOwnerId: '1727693927',
+      keywords: ['guilherme', 'gui'],
+      isDefault: true,
+      isActive: true,
+      displayOrder: 1,
+    },
+    {
+      id: 'felipe-braat',
+      name: 'Felipe Braat',
+      keywords: ['felipe', 'braat'],
+      isDefault: false,
+      isActive: true,
+      displayOrder: 2,
+    },
+    {
+      id: 'tiago-triani',
+      name: 'Tiago Triani',
+      hubspotOwnerId: '360834054',
+      keywords: ['tiago', 'triani'],
+      isDefault: false,
+      isActive: true,
+      displayOrder: 3,
+    },
+  ],
+};
+
+// ============================================================================
+// SELETORES (compartilhados entre client e server)
+// ============================================================================
+
+export function getActivePlatforms(catalog: ProjectCatalog): CatalogPlatform[] {
+  return catalog.platforms
+    .filter(platform => platform.isActive)
+    .sort((a, b) => a.displayOrder - b.displayOrder);
+}
+
+export function getActiveMembers(catalog: ProjectCatalog): CatalogMember[] {
+  return catalog.members
+    .filter(member => member.isActive)
+    .sort((a, b) => a.displayOrder - b.displayOrder);
+}
+
+// Plataforma/membro atribuídos a cards sem label ou membro reconhecido
+export function getDefaultPlatformNames(catalog: ProjectCatalog): string[] {
+  return getActivePlatforms(catalog)
+    .filter(platform => platform.isDefault)
+    .map(platform => platform.name);
+}
+
+export function getDefaultMemberNames(catalog: ProjectCatalog): string[] {
+  return getActiveMembers(catalog)
+    .filter(member => member.isDefault)
+    .map(member => member.name);
+}
+
+export function findPlatform(
+  catalog: ProjectCatalog,
+  name: string
+): CatalogPlatform | undefined {
+  return catalog.platforms.find(platform => platform.name === name);
+}
+
+// Badge da plataforma na cor do label; plataformas fora do catálogo ficam neutras
+export function getPlatformBadgeClass(
+  catalog: ProjectCatalog,
+  name: string
+): string {
+  const color = findPlatform(catalog, name)?.color;
+
+  return (
+    (color && PLATFORM_BADGE_CLASSES[color]) || 'bg-default-500/80 text-white'
+  );
+}
+
+export function findMember(
+  catalog: ProjectCatalog,
+  name: string
+): CatalogMember | undefined {
+  return catalog.members.find(member => member.name === name);
+}
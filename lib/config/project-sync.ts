@@ -0,0 +1,74 @@
+/**
+ * Project Sync Configuration - Política de conflitos por campo
+ * Define quem prevalece quando Trello e inPatch alteram o mesmo campo
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type {
+  FieldSyncPolicy,
+  ProjectFieldPolicyMap,
+  SyncableProjectField,
+} from '@/types/project-sync';
+
+export const SYNCABLE_PROJECT_FIELDS: SyncableProjectField[] = [
+  'title',
+  'description',
+  'status',
+  'estimatedEndDate',
+  'startDate',
+  'priority',
+  'progress',
+  'platforms',
+  'responsible',
+  'labels',
+  'imageUrl',
+];
+
+// Texto livre e classificação exigem decisão humana; o quadro do Trello é a
+// fonte do status e as datas seguem o planejamento feito no inPatch
+export const DEFAULT_PROJECT_FIELD_POLICY: ProjectFieldPolicyMap = {
+  title: 'manual',
+  description: 'manual',
+  status: 'trello',
+  estimatedEndDate: 'local',
+  startDate: 'local',
+  priority: 'manual',
+  progress: 'manual',
+  platforms: 'manual',
+  responsible: 'manual',
+  labels: 'manual',
+  imageUrl: 'manual',
+};
+
+const VALID_POLICIES: FieldSyncPolicy[] = ['trello', 'local', 'manual'];
+
+/**
+ * Política efetiva: padrão sobrescrito por PROJECT_SYNC_FIELD_POLICY
+ * Ex: PROJECT_SYNC_FIELD_POLICY='{"status":"manual","title":"trello"}'
+ */
+export function getProjectFieldPolicy(): ProjectFieldPolicyMap {
+  const policy = { ...DEFAULT_PROJECT_FIELD_POLICY };
+  const raw = process.env.PROJECT_SYNC_FIELD_POLICY;
+
+  if (!raw) return policy;
+
+  try {
+    const overrides = JSON.parse(raw) as Record<string, string>;
+
+    for (const field of SYNCABLE_PROJECT_FIELDS) {
+      const value = overrides[field] as FieldSyncPolicy;
+
+      if (VALID_POLICIES.includes(value)) {
+        policy[field] = value;
+      }
+    }
+  } catch {
+    console.warn(
+      '⚠️ PROJECT_SYNC_FIELD_POLICY inválido, usando política padrão'
+    );
+  }
+
+  return policy;
+}
@@ -0,0 +1,54 @@
+/**
+ * SLA Configuration - Política padrão de SLA do inPatch
+ * Metas de primeira resposta e resolução por prioridade; usada até a política
+ * ser salva no painel admin
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type { SlaPolicy } from '@/types/sla';
+
+// Horário comercial do time N2 (America/Sao_Paulo, seg-sex 09h-18h)
+export const DEFAULT_BUSINESS_HOURS: SlaPolicy['businessHours'] = {
+  utcOffsetMinutes: -180,
+  workingDays: [1, 2, 3, 4, 5],
+  startHour: 9,
+  endHour: 18,
+  holidays: [],
+};
+
+// Política inicial enquanto nenhuma for salva no painel. Metas por estágio e
+// estágios de pausa são configurados com os IDs do HubSpot em /admin/sla
+export const DEFAULT_SLA_POLICY: SlaPolicy = {
+  name: 'SLA Padrão N2',
+  businessHours: DEFAULT_BUSINESS_HOURS,
+  atRiskThreshold: 0.75,
+  // Relógio pausado enquanto aguardamos retorno do cliente
+  pauseStatuses: ['WAITING'],
+  pauseStageIds: [],
+  closedStatuses: ['CLOSED', 'RESOLVED'],
+  priorityTargets: {
+    URGENT: {
+      firstResponseHours: 1,
+      resolutionHours: 8,
+      useBusinessHours: false,
+    },
+    HIGH: {
+      firstResponseHours: 4,
+      resolutionHours: 24,
+      useBusinessHours: true,
+    },
+    MEDIUM: {
+      firstResponseHours: 8,
+      resolutionHours: 45,
+      useBusinessHours: true,
+    },
+    LOW: {
+      firstResponseHours: 18,
+      resolutionHours: 90,
+      useBusinessHours: true,
+    },
+  },
+  stageTargets: {},
+};
@@ -0,0 +1,13 @@
+/**
+ * Ticket Batch Configuration - Limites das ações em lote
+ * Seleção múltipla do Kanban aplicada via batch update do HubSpot
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+// Tickets por requisição ao /api/tickets/batch
+export const BATCH_TICKET_LIMIT = 500;
+
+// Tickets por chamada ao batch update do HubSpot (limite da API)
+export const HUBSPOT_BATCH_SIZE = 100;
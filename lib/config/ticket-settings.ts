@@ -0,0 +1,261 @@
+/**
+ * Ticket Settings - Valores iniciais e seletores das configurações
+ * Usado como seed do banco e como fallback quando o banco não está disponível
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type { SlaStageIds } from '@/types/sla';
+import type { TicketStatus } from '@/types/ticket';
+import type {
+  PipelineSetting,
+  StageRole,
+  StageSetting,
+  TechnicianSetting,
+  TicketSystemSettings,
+} from '@/types/settings';
+
+// Seed inicial (configuração histórica do sistema inPatch)
+export const DEFAULT_TICKET_SETTINGS: TicketSystemSettings = {
+  pipelines: [
+    {
+      id: '634240100',
+      label: 'Suporte N2',
+      isActive: true,
+      stages: [
+        {
+          id: '1110524173',
+          pipelineId: '634240100',
+          label: 'Triagem N2',
+          description: 'Aguardando triagem do time N2',
+          color: 'bg-blue-500',
+          displayOrder: 1,
+          isVisible: true,
+          isClosed: false,
+          excludeFromSync: false,
+          role: 'triage',
+        },
+        {
+          id: '1060950860',
+          pipelineId: '634240100',
+          label: 'P0|Crítico',
+          description: 'Tickets com prioridade Urgente',
+          color: 'bg-red-600',
+          displayOrder: 2,
+          isVisible: true,
+          isClosed: false,
+          excludeFromSync: false,
+        },
+        {
+          id: '1060950861',
+          pipelineId: '634240100',
+          label: 'P1|Alta',
+          description: 'Tickets com prioridade Alta',
+          color: 'bg-orange-500',
+          displayOrder: 3,
+          isVisible: true,
+          isClosed: false,
+          excludeFromSync: false,
+        },
+        {
+          id: '1060950862',
+          pipelineId: '634240100',
+          label: 'P2|Média',
+          description: 'Tickets com prioridade Normal',
+          color: 'bg-yellow-500',
+          displayOrder: 4,
+          isVisible: true,
+          isClosed: false,
+          excludeFromSync: false,
+        },
+        {
+          id: '1060950863',
+          pipelineId: '634240100',
+          label: 'P3|Baixa',
+          description: 'Tickets com prioridade Baixa',
+          color: 'bg-green-500',
+          displayOrder: 5,
+          isVisible: true,
+          isClosed: false,
+          excludeFromSync: false,
+        },
+        {
+          id: '1060950864',
+          pipelineId: '634240100',
+          label: 'P4|Trivial',
+          description: 'Tickets com prioridade Lowest',
+          color: 'bg-gray-400',
+          displayOrder: 6,
+          isVisible: true,
+          isClosed: false,
+          excludeFromSync: false,
+        },
+        {
+          id: '936942379',
+          pipelineId: '634240100',
+          label: 'Resolvido',
+          description: 'Tickets resolvidos',
+          color: 'bg-emerald-600',
+          displayOrder: 7,
+          isVisible: true,
+          isClosed: true,
+          excludeFromSync: false,
+        },
+        {
+          id: '1028692851',
+          pipelineId: '634240100',
+          label: 'Desconsiderado',
+          description: 'Tickets fechados, fora do padrão ou ilegível',
+          color: 'bg-slate-500',
+          displayOrder: 8,
+          isVisible: true,
+          isClosed: true,
+          excludeFromSync: true,
+          role: 'discarded',
+        },
+      ],
+    },
+  ],
+  technicians: [
+    {
+      id: '1514631054',
+      name: 'Felipe Teixeira',
+      role: 'Analista N2 Eventos',
+      color: 'primary',
+      avatar: 'FT',
+      displayOrder: 1,
+      isActive: true,
+    },
+    {
+      id: '360834054',
+      name: 'Tiago Triani',
+      role: 'Analista N2',
+      color: 'secondary',
+      avatar: 'TT',
+      displayOrder: 2,
+      isActive: true,
+    },
+    {
+      id: '1727693927',
+      name: 'Guilherme Souza',
+      role: 'Analista N2',
+      color: 'success',
+      avatar: 'GS',
+      displayOrder: 3,
+      isActive: true,
+    },
+  ],
+};
+
+// ============================================================================
+// SELETORES (compartilhados entre client e server)
+// ============================================================================
+
+export function getActivePipelines(
+  settings: TicketSystemSettings
+): PipelineSetting[] {
+  return settings.pipelines.filter(pipeline => pipeline.isActive);
+}
+
+export function getActivePipelineIds(settings: TicketSystemSettings): string[] {
+  return getActivePipelines(settings).map(pipeline => pipeline.id);
+}
+
+export function getActiveStages(
+  settings: TicketSystemSettings
+): StageSetting[] {
+  return getActivePipelines(settings)
+    .flatMap(pipeline => pipeline.stages)
+    .sort((a, b) => a.displayOrder - b.displayOrder);
+}
+
+// Stages exibidos no Kanban (antigo ALLOWED_STAGES)
+export function getVisibleStageIds(settings: TicketSystemSettings): string[] {
+  return getActiveStages(settings)
+    .filter(stage => stage.isVisible)
+    .map(stage => stage.id);
+}
+
+// Stages ignorados na sincronização (antigo CLOSED_TICKETS_STAGE_ID)
+export function getSyncExcludedStageIds(
+  settings: TicketSystemSettings
+): string[] {
+  return getActiveStages(settings)
+    .filter(stage => stage.excludeFromSync)
+    .map(stage => stage.id);
+}
+
+// Stages de encerramento (Resolvido, Desconsiderado)
+export function getClosedStageIds(settings: TicketSystemSettings): string[] {
+  return getActiveStages(settings)
+    .filter(stage => stage.isClosed)
+    .map(stage => stage.id);
+}
+
+// Stages em que o ticket aguarda o cliente (status WAITING, SLA pausado)
+export function getWaitingStageIds(settings: TicketSystemSettings): string[] {
+  return getActiveStages(settings)
+    .filter(stage => stage.role === 'waiting')
+    .map(stage => stage.id);
+}
+
+// Estágios fechados e de espera usados no cálculo de SLA
+export function getSlaStageIds(settings: TicketSystemSettings): SlaStageIds {
+  return {
+    closed: getClosedStageIds(settings),
+    waiting: getWaitingStageIds(settings),
+  };
+}
+
+// Status local derivado do estágio (o HubSpot não tem status próprio)
+export function getTicketStatusForStage(
+  settings: TicketSystemSettings,
+  stageId: string
+): TicketStatus {
+  const stage = getActiveStages(settings).find(item => item.id === stageId);
+
+  if (stage?.isClosed) return 'CLOSED';
+  if (stage?.role === 'waiting') return 'WAITING';
+
+  return 'OPEN';
+}
+
+// Estágio com papel nas automações (Triagem N2, Desconsiderado)
+export function getStageIdByRole(
+  settings: TicketSystemSettings,
+  role: StageRole
+): string | undefined {
+  return getActiveStages(settings).find(stage => stage.role === role)?.id;
+}
+
+export function getActiveTechnicians(
+  settings: TicketSystemSettings
+): TechnicianSetting[] {
+  return settings.technicians
+    .filter(technician => technician.isActive)
+    .sort((a, b) => a.displayOrder - b.displayOrder);
+}
+
+// Técnicos autorizados (antigo AUTHORIZED_OWNERS)
+export function getAuthorizedOwnerIds(
+  settings: TicketSystemSettings
+): string[] {
+  return getActiveTechnicians(settings).map(technician => technician.id);
+}
+
+export function getStageSettingsMap(
+  settings: TicketSystemSettings
+): Record<string, StageSetting> {
+  return Object.fromEntries(
+    getActiveStages(settings).map(stage => [stage.id, stage])
+  );
+}
+
+export function getTechnicianSettingsMap(
+  settings: TicketSystemSettings
+): Record<string, TechnicianSetting> {
+  return Object.fromEntries(
+    settings.technicians.map(technician => [technician.id, technician])
+  );
+}
@@ -0,0 +1,14 @@
+/**
+ * Triage Configuration - Escopo da triagem automática
+ * Apenas tickets parados no estágio com papel "triage" (Triagem N2,
+ * definido em Configurações) passam pelas regras
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+// Tickets por execução manual (cada ticket com regra ativa consome uma requisição)
+export const TRIAGE_RUN_LIMIT = 200;
+
+// Autor gravado na transição de estágio feita por uma regra
+export const getTriageActor = (ruleName: string) => `Regra: ${ruleName}`;
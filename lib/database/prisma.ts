@@ -1,12 +1,44 @@
-import type { Project, SyncHistory } from '@prisma/client';
-import type { Project as TrelloProject } from '@/types/project';
+import type { Prisma, Project, SyncHistory } from '@prisma/client';
+import type { ProjectCatalog } from '@/types/catalog';
+import type {
+  ProjectAttachment,
+  ProjectChecklist,
+  Project as TrelloProject,
+} from '@/types/project';
+import type {
+  ConflictResolution,
+  FieldWriter,
+  PendingTrelloPush,
+  ProjectFieldMergeResult,
+  ProjectFieldSyncState,
+  ProjectSyncConflict,
+  ProjectSyncConflictStatus,
+  SyncableProjectField,
+  SyncFieldValues,
+} from '@/types/project-sync';
 
 import { PrismaClient, $Enums } from '@prisma/client';
 
+import { DEFAULT_PROJECT_CATALOG } from '@/lib/config/project-catalog';
+import {
+  getProjectFieldPolicy,
+  SYNCABLE_PROJECT_FIELDS,
+} from '@/lib/config/project-sync';
 import {
   supabaseMCPService,
   type ProjectAnalytics,
 } from '@/lib/services/supabase-mcp';
+import {
+  deserializeProjectField,
+  markFieldsSynced,
+  mergeFreeLabels,
+  parseSyncList,
+  reconcileProjectFields,
+  recordLocalEdits,
+  serializeProjectFields,
+  type ProjectFieldSource,
+} from '@/lib/utils/project-field-sync';
+import { getFreeLabels } from '@/lib/utils/trello-fields';
 
 // Re-exportar enums e tipos do Prisma gerado
 export { $Enums } from '@prisma/client';
@@ -14,8 +46,8 @@ export { $Enums } from '@prisma/client';
 // Tipos para TypeScript
 export type ProjectStatus = $Enums.ProjectStatus;
 export type ProjectPriority = $Enums.ProjectPriority;
-export type Platform = $Enums.Platform;
-export type TeamMember = $Enums.TeamMember;
+export type Platform = string; // Nome de uma plataforma do catálogo
+export type TeamMember = string; // Nome de um membro do catálogo
 export type SyncAction = $Enums.SyncAction;
 
 // Extend Prisma types for better type safety
@@ -23,9 +55,25 @@ export type ProjectWithHistory = Project & {
   syncHistory: SyncHistory[];
 };
 
-export type CreateProjectData = Omit<Project, 'id' | 'createdAt' | 'updatedAt'>;
+export type CreateProjectData = Omit<
+  Project,
+  'id' | 'createdAt' | 'updatedAt' | 'trelloUpdatedAt' | 'fieldSync'
+>;
 export type UpdateProjectData = Partial<CreateProjectData>;
 
+// Cliente padrão ou de transação (as operações de sync aceitam os dois)
+export type DatabaseClient = Prisma.TransactionClient | PrismaClient;
+
+type ProjectSyncConflictRow = Prisma.ProjectSyncConflictGetPayload<object>;
+
+// Resultado da reconciliação de um projeto com o card do Trello
+export interface ProjectReconcileResult {
+  project: Project;
+  operation: 'created' | 'updated';
+  conflicts: number;
+  pendingPush: Partial<SyncFieldValues>;
+}
+
 // Global Prisma instance following Next.js best practices
 const globalForPrisma = globalThis as unknown as {
   prisma: PrismaClient | undefined;
@@ -81,6 +129,18 @@ export class DatabaseService {
             orderBy: { timestamp: 'desc' },
             take: 5, // Últimas 5 sincronizações
           },
+          // Vínculos de dependência (cards do outro lado)
+          blocks: {
+            select: { blocked: { select: { id: true, trelloCardId: true } } },
+          },
+          blockedBy: {
+            select: { blocker: { select: { id: true, trelloCardId: true } } },
+          },
+          checklists: {
+            orderBy: { position: 'asc' },
+            include: { checkItems: { orderBy: { position: 'asc' } } },
+          },
+          attachments: { orderBy: { attachedAt: 'desc' } },
         },
         orderBy: { updatedAt: 'desc' },
       })) as unknown as ProjectWithHistory[];
@@ -271,46 +331,551 @@ export class DatabaseService {
   }
 
   /**
-   * Sincronização em lote de projetos do Trello
+   * Sincronização em lote de projetos do Trello (reconciliação por campo)
+   * Retorna as edições locais que ainda precisam ser enviadas ao Trello
    */
-  async syncFromTrello(trelloProjects: CreateProjectData[]): Promise<void> {
+  async syncFromTrello(
+    trelloProjects: CreateProjectData[]
+  ): Promise<PendingTrelloPush[]> {
     try {
-      await this.prisma.$transaction(async (tx: any) => {
+      const pending: PendingTrelloPush[] = [];
+
+      await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
         for (const project of trelloProjects) {
           if (!project.trelloCardId) continue;
 
-          await tx.project.upsert({
-            where: { trelloCardId: project.trelloCardId },
-            update: {
-              ...project,
-              syncHistory: {
-                create: {
-                  action: $Enums.SyncAction.SYNCED,
-                  source: 'trello',
-                  success: true,
-                  details: { batchSync: true },
-                },
-              },
-            },
-            create: {
-              ...project,
-              syncHistory: {
-                create: {
-                  action: $Enums.SyncAction.CREATED,
-                  source: 'trello',
-                  success: true,
-                  details: { batchSync: true },
-                },
-              },
-            },
+          const result = await this.reconcileFromTrello(project, {
+            source: 'trello',
+            client: tx,
           });
+
+          if (Object.keys(result.pendingPush).length > 0) {
+            pending.push({
+              projectId: result.project.id,
+              trelloCardId: project.trelloCardId,
+              values: result.pendingPush,
+            });
+          }
         }
       });
+
+      return pending;
     } catch {
       throw new Error('Falha na sincronização em lote com Trello');
     }
   }
 
+  /**
+   * Reconcilia um projeto vindo do Trello com o estado local campo a campo
+   * Edições locais pendentes não são sobrescritas; conflitos seguem a política
+   * configurada e, quando manuais, entram na fila de conflitos
+   */
+  async reconcileFromTrello(
+    data: CreateProjectData,
+    options: {
+      trelloUpdatedAt?: string;
+      source?: string;
+      client?: DatabaseClient;
+      catalog?: ProjectCatalog;
+    } = {}
+  ): Promise<ProjectReconcileResult> {
+    const {
+      source = 'trello',
+      client = this.prisma,
+      catalog = DEFAULT_PROJECT_CATALOG,
+    } = options;
+    const { trelloCardId } = data;
+
+    if (!trelloCardId) {
+      throw new Error('trelloCardId é obrigatório para reconciliação');
+    }
+
+    const trelloUpdatedAt = options.trelloUpdatedAt
+      ? new Date(options.trelloUpdatedAt)
+      : null;
+    const existing = await client.project.findUnique({
+      where: { trelloCardId },
+    });
+    const local = existing ? serializeProjectFields(existing, catalog) : null;
+
+    const merge = reconcileProjectFields({
+      local,
+      trello: serializeProjectFields(data, catalog),
+      state: (existing?.fieldSync || {}) as ProjectFieldSyncState,
+      policy: getProjectFieldPolicy(),
+      trelloUpdatedAt: trelloUpdatedAt?.toISOString(),
+      localUpdatedAt: existing?.updatedAt?.toISOString(),
+    });
+
+    // Campos bidirecionais só recebem o valor do Trello quando o merge permite
+    const projectData: Prisma.ProjectUncheckedCreateInput = { ...data };
+
+    if (existing) {
+      for (const field of SYNCABLE_PROJECT_FIELDS) {
+        if (!merge.applyFromTrello.includes(field)) delete projectData[field];
+      }
+
+      // Labels livres locais pendentes convivem com as controladas do card
+      if (!merge.applyFromTrello.includes('labels')) {
+        projectData.labels = mergeFreeLabels(
+          data.labels,
+          getFreeLabels(existing.labels, catalog),
+          catalog
+        );
+      }
+    }
+
+    // dateLastActivity nunca retrocede (snapshots em cache podem ser antigos)
+    if (
+      trelloUpdatedAt &&
+      (!existing?.trelloUpdatedAt || trelloUpdatedAt > existing.trelloUpdatedAt)
+    ) {
+      projectData.trelloUpdatedAt = trelloUpdatedAt;
+    }
+
+    const details = {
+      trelloCardId,
+      applied: merge.applyFromTrello,
+      pendingPush: merge.pushToTrello,
+      conflicts: merge.conflicts.map(conflict => conflict.field),
+      overwritten: merge.overwritten,
+    };
+
+    const project = existing
+      ? await client.project.update({
+          where: { id: existing.id },
+          data: {
+            ...projectData,
+            fieldSync: merge.state,
+            syncHistory: {
+              create: {
+                action: $Enums.SyncAction.SYNCED,
+                source,
+                success: true,
+                details,
+              },
+            },
+          },
+        })
+      : await client.project.create({
+          data: {
+            ...projectData,
+            fieldSync: merge.state,
+            syncHistory: {
+              create: {
+                action: $Enums.SyncAction.CREATED,
+                source,
+                success: true,
+                details,
+              },
+            },
+          },
+        });
+
+    await this.updateConflictQueue(client, project.id, merge);
+
+    if (merge.conflicts.length > 0) {
+      console.warn(
+        `⚠️ ${merge.conflicts.length} conflito(s) de sincronização no card ${trelloCardId}`
+      );
+    }
+
+    return {
+      project: project as Project,
+      operation: existing ? 'updated' : 'created',
+      conflicts: merge.conflicts.length,
+      pendingPush: Object.fromEntries(
+        merge.pushToTrello.map(field => [field, local![field]])
+      ),
+    };
+  }
+
+  /**
+   * Substitui os checklists do projeto pelos lidos do card
+   * Itens removidos no Trello são apagados; os demais mantêm createdAt
+   */
+  async replaceProjectChecklists(
+    projectId: string,
+    checklists: ProjectChecklist[],
+    client: DatabaseClient = this.prisma
+  ): Promise<void> {
+    await client.projectChecklist.deleteMany({
+      where: {
+        projectId,
+        id: { notIn: checklists.map(checklist => checklist.id) },
+      },
+    });
+
+    for (const checklist of checklists) {
+      const checklistData = {
+        name: checklist.name,
+        position: checklist.position,
+      };
+
+      await client.projectChecklist.upsert({
+        where: { id: checklist.id },
+        create: { id: checklist.id, projectId, ...checklistData },
+        update: { projectId, ...checklistData },
+      });
+      await client.projectCheckItem.deleteMany({
+        where: {
+          checklistId: checklist.id,
+          id: { notIn: checklist.checkItems.map(item => item.id) },
+        },
+      });
+
+      for (const item of checklist.checkItems) {
+        const itemData = {
+          name: item.name,
+          state: item.state,
+          position: item.position,
+          dueDate: item.dueDate ? new Date(item.dueDate) : null,
+          trelloMemberId: item.trelloMemberId || null,
+          assignee: item.assignee || null,
+        };
+
+        await client.projectCheckItem.upsert({
+          where: { id: item.id },
+          create: { id: item.id, checklistId: checklist.id, ...itemData },
+          update: { checklistId: checklist.id, ...itemData },
+        });
+      }
+    }
+  }
+
+  /**
+   * Substitui os anexos do projeto pelos lidos do card
+   * Cópias já armazenadas são mantidas; retorna os caminhos das cópias de
+   * anexos removidos no Trello, para exclusão no armazenamento
+   */
+  async replaceProjectAttachments(
+    projectId: string,
+    attachments: ProjectAttachment[],
+    client: DatabaseClient = this.prisma
+  ): Promise<string[]> {
+    const removed = await client.projectAttachment.findMany({
+      where: {
+        projectId,
+        id: { notIn: attachments.map(attachment => attachment.id) },
+      },
+      select: { storagePath: true },
+    });
+
+    await client.projectAttachment.deleteMany({
+      where: {
+        projectId,
+        id: { notIn: attachments.map(attachment => attachment.id) },
+      },
+    });
+
+    for (const attachment of attachments) {
+      const attachmentData = {
+        name: attachment.name,
+        url: attachment.url,
+        mimeType: attachment.mimeType || null,
+        bytes: attachment.bytes ?? null,
+        isUpload: attachment.isUpload,
+        isCover: attachment.isCover,
+        attachedAt: new Date(attachment.attachedAt),
+      };
+
+      await client.projectAttachment.upsert({
+        where: { id: attachment.id },
+        create: {
+          id: attachment.id,
+          projectId,
+          uploadedBy: attachment.uploadedBy || null,
+          ...attachmentData,
+        },
+        update: { projectId, ...attachmentData },
+      });
+    }
+
+    return removed
+      .map(row => row.storagePath)
+      .filter((storagePath): storagePath is string => !!storagePath);
+  }
+
+  /**
+   * Abre/atualiza conflitos detectados e encerra os que deixaram de existir
+   */
+  private async updateConflictQueue(
+    client: DatabaseClient,
+    projectId: string,
+    merge: ProjectFieldMergeResult
+  ): Promise<void> {
+    for (const draft of merge.conflicts) {
+      const values = {
+        baseValue: draft.baseValue,
+        localValue: draft.localValue,
+        trelloValue: draft.trelloValue,
+        localUpdatedAt: draft.localUpdatedAt
+          ? new Date(draft.localUpdatedAt)
+          : null,
+        trelloUpdatedAt: draft.trelloUpdatedAt
+          ? new Date(draft.trelloUpdatedAt)
+          : null,
+      };
+      const open = await client.projectSyncConflict.findFirst({
+        where: { projectId, field: draft.field, status: 'OPEN' },
+      });
+
+      if (open) {
+        await client.projectSyncConflict.update({
+          where: { id: open.id },
+          data: values,
+        });
+      } else {
+        await client.projectSyncConflict.create({
+          data: { ...values, projectId, field: draft.field },
+        });
+      }
+    }
+
+    // Lados voltaram a concordar ou o Trello prevaleceu pela política
+    const settled = [...merge.converged, ...merge.applyFromTrello];
+
+    if (settled.length > 0) {
+      await client.projectSyncConflict.updateMany({
+        where: { projectId, field: { in: settled }, status: 'OPEN' },
+        data: {
+          status: 'RESOLVED',
+          resolution: 'trello',
+          resolvedBy: 'sync',
+          resolvedAt: new Date(),
+        },
+      });
+    }
+  }
+
+  /**
+   * Registra edições locais de campos sincronizados (pendentes no Trello)
+   * Retorna null quando o card ainda não existe no banco
+   */
+  async applyLocalEdits(
+    trelloCardId: string,
+    updates: Partial<ProjectFieldSource>,
+    source: string = 'manual',
+    catalog?: ProjectCatalog
+  ): Promise<{
+    project: Project;
+    values: Partial<SyncFieldValues>;
+  } | null> {
+    const existing = await this.prisma.project.findUnique({
+      where: { trelloCardId },
+    });
+
+    if (!existing) return null;
+
+    const previous = serializeProjectFields(existing, catalog);
+    const next = serializeProjectFields({ ...existing, ...updates }, catalog);
+    const fields = SYNCABLE_PROJECT_FIELDS.filter(
+      field => field in updates && next[field] !== previous[field]
+    );
+
+    if (fields.length === 0) {
+      return { project: existing as Project, values: {} };
+    }
+
+    const data: Prisma.ProjectUpdateInput = {};
+
+    for (const field of fields) {
+      Object.assign(data, { [field]: updates[field] });
+    }
+
+    // A edição traz só as labels livres; as controladas pelos campos ficam
+    if (updates.labels && fields.includes('labels')) {
+      data.labels = mergeFreeLabels(existing.labels, updates.labels, catalog);
+    }
+
+    const project = await this.prisma.project.update({
+      where: { id: existing.id },
+      data: {
+        ...data,
+        fieldSync: recordLocalEdits(
+          (existing.fieldSync || {}) as ProjectFieldSyncState,
+          previous,
+          fields,
+          new Date().toISOString()
+        ),
+        syncHistory: {
+          create: {
+            action: $Enums.SyncAction.UPDATED,
+            source,
+            success: true,
+            details: { changes: fields, trelloCardId },
+          },
+        },
+      },
+    });
+
+    return {
+      project: project as Project,
+      values: Object.fromEntries(fields.map(field => [field, next[field]])),
+    };
+  }
+
+  /**
+   * Marca campos como em acordo com o Trello após envio bem-sucedido
+   */
+  async markProjectFieldsSynced(
+    projectId: string,
+    values: Partial<SyncFieldValues>,
+    writer: FieldWriter,
+    trelloUpdatedAt?: string
+  ): Promise<void> {
+    const project = await this.prisma.project.findUnique({
+      where: { id: projectId },
+      select: { fieldSync: true, trelloUpdatedAt: true },
+    });
+
+    if (!project) return;
+
+    const activity = trelloUpdatedAt ? new Date(trelloUpdatedAt) : null;
+
+    await this.prisma.project.update({
+      where: { id: projectId },
+      data: {
+        fieldSync: markFieldsSynced(
+          (project.fieldSync || {}) as ProjectFieldSyncState,
+          values,
+          writer,
+          activity?.toISOString()
+        ),
+        ...(activity &&
+        (!project.trelloUpdatedAt || activity > project.trelloUpdatedAt)
+          ? { trelloUpdatedAt: activity }
+          : {}),
+      },
+    });
+  }
+
+  /**
+   * Conflitos de sincronização por projeto ou card
+   */
+  async getSyncConflicts(
+    filters: {
+      projectId?: string;
+      trelloCardId?: string;
+      status?: ProjectSyncConflictStatus;
+    } = {}
+  ): Promise<ProjectSyncConflict[]> {
+    const { projectId, trelloCardId, status = 'OPEN' } = filters;
+
+    const rows = await this.prisma.projectSyncConflict.findMany({
+      where: {
+        status,
+        ...(projectId ? { projectId } : {}),
+        ...(trelloCardId ? { project: { trelloCardId } } : {}),
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return rows.map((row: ProjectSyncConflictRow) => this.toSyncConflict(row));
+  }
+
+  /**
+   * Conflito com o projeto vinculado
+   */
+  async getSyncConflict(
+    id: string
+  ): Promise<(ProjectSyncConflict & { project: Project }) | null> {
+    const row = await this.prisma.projectSyncConflict.findUnique({
+      where: { id },
+      include: { project: true },
+    });
+
+    return row ? { ...this.toSyncConflict(row), project: row.project } : null;
+  }
+
+  /**
+   * Encerra um conflito gravando o valor escolhido como nova base
+   * "trello" aplica o valor do Trello no banco; "local" assume que o valor
+   * local já foi enviado ao card
+   */
+  async closeSyncConflict(
+    id: string,
+    resolution: ConflictResolution,
+    options: {
+      value: SyncFieldValues[SyncableProjectField];
+      resolvedBy?: string;
+      trelloUpdatedAt?: string;
+      catalog?: ProjectCatalog;
+    }
+  ): Promise<ProjectSyncConflict> {
+    const conflict = await this.getSyncConflict(id);
+
+    if (!conflict) throw new Error('Conflito não encontrado');
+
+    const { project, field } = conflict;
+    const state = markFieldsSynced(
+      (project.fieldSync || {}) as ProjectFieldSyncState,
+      { [field]: options.value },
+      resolution,
+      options.trelloUpdatedAt
+    );
+    // Labels: o valor do conflito traz só as livres
+    const value =
+      field === 'labels'
+        ? mergeFreeLabels(
+            project.labels,
+            parseSyncList(options.value),
+            options.catalog
+          )
+        : deserializeProjectField(field, options.value);
+
+    const [row] = await this.prisma.$transaction([
+      this.prisma.projectSyncConflict.update({
+        where: { id },
+        data: {
+          status: 'RESOLVED',
+          resolution,
+          resolvedBy: options.resolvedBy || null,
+          resolvedAt: new Date(),
+        },
+      }),
+      this.prisma.project.update({
+        where: { id: project.id },
+        data: {
+          ...(resolution === 'trello' ? { [field]: value } : {}),
+          fieldSync: state,
+          syncHistory: {
+            create: {
+              action: $Enums.SyncAction.UPDATED,
+              source: 'conflict-resolution',
+              success: true,
+              details: { conflictId: id, field, resolution },
+            },
+          },
+        },
+      }),
+    ]);
+
+    return this.toSyncConflict(row);
+  }
+
+  /**
+   * Converte a linha do banco para o formato da API
+   */
+  private toSyncConflict(row: ProjectSyncConflictRow): ProjectSyncConflict {
+    return {
+      id: row.id,
+      projectId: row.projectId,
+      field: row.field as SyncableProjectField,
+      baseValue: row.baseValue,
+      localValue: row.localValue,
+      trelloValue: row.trelloValue,
+      localUpdatedAt: row.localUpdatedAt?.toISOString(),
+      trelloUpdatedAt: row.trelloUpdatedAt?.toISOString(),
+      status: row.status,
+      resolution: (row.resolution as ConflictResolution) || undefined,
+      resolvedBy: row.resolvedBy || undefined,
+      resolvedAt: row.resolvedAt?.toISOString(),
+      createdAt: row.createdAt.toISOString(),
+      updatedAt: row.updatedAt.toISOString(),
+    };
+  }
+
   /**
    * Remove projeto
    */
@@ -458,41 +1023,16 @@ export class DatabaseService {
         concluido: $Enums.ProjectStatus.CONCLUIDO,
       };
 
-      // Mapeamento de plataformas
-      const platformMapping: Record<string, Platform> = {
-        N8N: $Enums.Platform.N8N,
-        Jira: $Enums.Platform.JIRA,
-        Hubspot: $Enums.Platform.HUBSPOT,
-        Backoffice: $Enums.Platform.BACKOFFICE,
-        'Google Workspace': $Enums.Platform.GOOGLE_WORKSPACE,
-      };
-
-      // Mapeamento de membros
-      const memberMapping: Record<string, TeamMember> = {
-        'Guilherme Souza': $Enums.TeamMember.GUILHERME_SOUZA,
-        'Felipe Braat': $Enums.TeamMember.FELIPE_BRAAT,
-        'Tiago Triani': $Enums.TeamMember.TIAGO_TRIANI,
-      };
-
-      // Transformação de dados
-      const platforms = trelloProject.platforms
-        .map(p => platformMapping[p])
-        .filter(Boolean) as Platform[];
-
-      const responsible = trelloProject.responsible
-        .map(r => memberMapping[r])
-        .filter(Boolean) as TeamMember[];
+      // Plataformas e responsáveis já chegam resolvidos pelo catálogo
+      const platforms = trelloProject.platforms.filter(Boolean);
+      const responsible = trelloProject.responsible.filter(Boolean);
 
       const transformedProject: CreateProjectData = {
         title,
         description,
         progress: Math.max(0, Math.min(100, trelloProject.progress)),
-        platforms:
-          platforms.length > 0 ? platforms : [$Enums.Platform.BACKOFFICE],
-        responsible:
-          responsible.length > 0
-            ? responsible
-            : [$Enums.TeamMember.GUILHERME_SOUZA],
+        platforms,
+        responsible,
         imageUrl: trelloProject.imageUrl || null,
         startDate: new Date(trelloProject.startDate),
         estimatedEndDate: new Date(trelloProject.estimatedEndDate),
@@ -516,20 +1056,28 @@ export class DatabaseService {
 
   /**
    * Sincronização em lote com transformação e validação MCP
+   * Cada card é reconciliado campo a campo com o estado local
    */
-  async syncFromTrelloWithMCP(trelloProjects: TrelloProject[]): Promise<{
+  async syncFromTrelloWithMCP(
+    trelloProjects: TrelloProject[],
+    catalog?: ProjectCatalog
+  ): Promise<{
     success: number;
+    conflicts: number;
+    pendingPushes: PendingTrelloPush[];
     errors: { project: string; error: string }[];
   }> {
     await this.initialize();
 
     const results = {
       success: 0,
+      conflicts: 0,
+      pendingPushes: [] as PendingTrelloPush[],
       errors: [] as { project: string; error: string }[],
     };
 
     try {
-      await this.prisma.$transaction(async (tx: any) => {
+      await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
         for (const trelloProject of trelloProjects) {
           try {
             const transformedProject =
@@ -539,40 +1087,32 @@ export class DatabaseService {
               throw new Error('trelloCardId é obrigatório');
             }
 
-            await tx.project.upsert({
-              where: { trelloCardId: transformedProject.trelloCardId },
-              update: {
-                ...transformedProject,
-                syncHistory: {
-                  create: {
-                    action: $Enums.SyncAction.SYNCED,
-                    source: 'trello-mcp',
-                    success: true,
-                    details: {
-                      batchSync: true,
-                      mcpEnabled:
-                        this.mcpService.getConnectionStatus().connected,
-                    },
-                  },
-                },
-              },
-              create: {
-                ...transformedProject,
-                syncHistory: {
-                  create: {
-                    action: $Enums.SyncAction.CREATED,
-                    source: 'trello-mcp',
-                    success: true,
-                    details: {
-                      batchSync: true,
-                      mcpEnabled:
-                        this.mcpService.getConnectionStatus().connected,
-                    },
-                  },
-                },
-              },
+            const result = await this.reconcileFromTrello(transformedProject, {
+              trelloUpdatedAt: trelloProject.trelloUpdatedAt,
+              source: 'trello-mcp',
+              client: tx,
+              catalog,
             });
 
+            // Cards lidos sem checklists não apagam os já persistidos
+            if (trelloProject.checklists) {
+              await this.replaceProjectChecklists(
+                result.project.id,
+                trelloProject.checklists,
+                tx
+              );
+            }
+
+            results.conflicts += result.conflicts;
+
+            if (Object.keys(result.pendingPush).length > 0) {
+              results.pendingPushes.push({
+                projectId: result.project.id,
+                trelloCardId: transformedProject.trelloCardId,
+                values: result.pendingPush,
+              });
+            }
+
             results.success++;
           } catch (error) {
             const errorMsg =
@@ -0,0 +1,288 @@
+/**
+ * Audit Log Service - Registro de mutações feitas pelo dashboard
+ * Guarda autor, diferença campo a campo, IP de origem e a resposta do
+ * Trello/HubSpot para cada criação, alteração ou exclusão
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type {
+  AuditAction,
+  AuditChanges,
+  AuditEntityType,
+  AuditLogEntry,
+  AuditLogFilters,
+  AuditUpstreamSystem,
+} from '@/types/audit';
+import type { AuditLog, Prisma } from '@prisma/client';
+import type { NextRequest } from 'next/server';
+
+import { $Enums } from '@prisma/client';
+
+import { getRequestUser } from '@/lib/auth/guards';
+import { prisma } from '@/lib/database/prisma';
+
+// Estado de um projeto/ticket antes ou depois da mutação
+type AuditSnapshot = object | null | undefined;
+
+export interface AuditRecordInput {
+  entityType: AuditEntityType;
+  entityId: string;
+  action: AuditAction;
+  before?: AuditSnapshot;
+  after?: AuditSnapshot;
+  upstreamSystem: AuditUpstreamSystem;
+  upstreamResponse?: unknown;
+  error?: unknown;
+}
+
+// Campos comparados em cada entidade (metadados de sincronização ficam de fora)
+const AUDITED_FIELDS: Record<AuditEntityType, string[]> = {
+  project: [
+    'title',
+    'description',
+    'status',
+    'priority',
+    'progress',
+    'platforms',
+    'responsible',
+    'labels',
+    'startDate',
+    'estimatedEndDate',
+    'blockedBy',
+    'comment',
+    'attachment',
+    'imageUrl',
+  ],
+  ticket: [
+    'subject',
+    'content',
+    'status',
+    'priority',
+    'category',
+    'pipelineId',
+    'pipelineStageId',
+    'hubspotOwnerId',
+    'sourceType',
+    'tags',
+    'closedAt',
+  ],
+};
+
+// Valores da API para os enums do banco (e de volta na leitura)
+const ENTITY_TYPE_TO_PRISMA: Record<AuditEntityType, $Enums.AuditEntityType> = {
+  project: $Enums.AuditEntityType.PROJECT,
+  ticket: $Enums.AuditEntityType.TICKET,
+};
+
+const ACTION_TO_PRISMA: Record<AuditAction, $Enums.AuditAction> = {
+  create: $Enums.AuditAction.CREATE,
+  update: $Enums.AuditAction.UPDATE,
+  delete: $Enums.AuditAction.DELETE,
+};
+
+const ENTITY_TYPE_FROM_PRISMA: Record<$Enums.AuditEntityType, AuditEntityType> =
+  {
+    PROJECT: 'project',
+    TICKET: 'ticket',
+  };
+
+const ACTION_FROM_PRISMA: Record<$Enums.AuditAction, AuditAction> = {
+  CREATE: 'create',
+  UPDATE: 'update',
+  DELETE: 'delete',
+};
+
+export function isAuditEntityType(value: unknown): value is AuditEntityType {
+  return (
+    typeof value === 'string' &&
+    Object.keys(ENTITY_TYPE_TO_PRISMA).includes(value)
+  );
+}
+
+export function isAuditAction(value: unknown): value is AuditAction {
+  return (
+    typeof value === 'string' && Object.keys(ACTION_TO_PRISMA).includes(value)
+  );
+}
+
+const isUpstreamSystem = (value: string | null): value is AuditUpstreamSystem =>
+  value === 'trello' || value === 'hubspot';
+
+// Valores sem representação em JSON (undefined, funções) são descartados
+const toJsonInput = (value: unknown): Prisma.InputJsonValue =>
+  JSON.parse(JSON.stringify(value ?? null));
+
+// Lê o JSON gravado mantendo apenas entradas no formato { before, after }
+function parseAuditChanges(value: Prisma.JsonValue): AuditChanges {
+  const changes: AuditChanges = {};
+
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return changes;
+  }
+
+  for (const [field, change] of Object.entries(value)) {
+    if (
+      change &&
+      typeof change === 'object' &&
+      !Array.isArray(change) &&
+      'before' in change &&
+      'after' in change
+    ) {
+      changes[field] = { before: change.before, after: change.after };
+    }
+  }
+
+  return changes;
+}
+
+const normalizeValue = (value: unknown) =>
+  value === undefined || value === '' ? null : value;
+
+/**
+ * Diferença entre dois estados; criação e exclusão registram todos os campos
+ */
+export function diffAuditFields(
+  entityType: AuditEntityType,
+  before: AuditSnapshot,
+  after: AuditSnapshot
+): AuditChanges {
+  const changes: AuditChanges = {};
+
+  for (const field of AUDITED_FIELDS[entityType]) {
+    const previous = normalizeValue(
+      (before as Record<string, unknown> | null | undefined)?.[field]
+    );
+    const next = normalizeValue(
+      (after as Record<string, unknown> | null | undefined)?.[field]
+    );
+
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes[field] = { before: previous, after: next };
+    }
+  }
+
+  return changes;
+}
+
+// Primeiro IP da cadeia de proxies (Vercel/Supabase preenchem x-forwarded-for)
+function getClientIp(request: NextRequest): string | null {
+  const forwarded = request.headers.get('x-forwarded-for');
+
+  if (forwarded) return forwarded.split(',')[0].trim();
+
+  return request.headers.get('x-real-ip');
+}
+
+export class AuditLogService {
+  private static instance: AuditLogService;
+
+  static getInstance(): AuditLogService {
+    if (!AuditLogService.instance) {
+      AuditLogService.instance = new AuditLogService();
+    }
+
+    return AuditLogService.instance;
+  }
+
+  /**
+   * Registra uma mutação; falhas de auditoria nunca derrubam a requisição
+   */
+  async record(request: NextRequest, input: AuditRecordInput): Promise<void> {
+    if (!process.env.DATABASE_URL) return;
+
+    const actor = getRequestUser(request);
+
+    try {
+      await prisma.auditLog.create({
+        data: {
+          entityType: ENTITY_TYPE_TO_PRISMA[input.entityType],
+          entityId: input.entityId,
+          action: ACTION_TO_PRISMA[input.action],
+          actorId: actor?.id,
+          actorEmail: actor?.email,
+          changes: toJsonInput(
+            diffAuditFields(input.entityType, input.before, input.after)
+          ),
+          ipAddress: getClientIp(request),
+          userAgent: request.headers.get('user-agent'),
+          upstreamSystem: input.upstreamSystem,
+          upstreamResponse:
+            input.upstreamResponse === undefined
+              ? undefined
+              : toJsonInput(input.upstreamResponse),
+          success: !input.error,
+          error: input.error
+            ? input.error instanceof Error
+              ? input.error.message
+              : String(input.error)
+            : null,
+        },
+      });
+    } catch (error) {
+      console.error(
+        `❌ Falha ao registrar auditoria (${input.entityType} ${input.entityId}):`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Busca entradas por entidade, autor e período
+   */
+  async search(
+    filters: AuditLogFilters = {}
+  ): Promise<{ entries: AuditLogEntry[]; total: number }> {
+    const createdAt = {
+      ...(filters.dateFrom ? { gte: new Date(filters.dateFrom) } : {}),
+      ...(filters.dateTo ? { lte: new Date(filters.dateTo) } : {}),
+    };
+    const where: Prisma.AuditLogWhereInput = {
+      ...(filters.entityType
+        ? { entityType: ENTITY_TYPE_TO_PRISMA[filters.entityType] }
+        : {}),
+      ...(filters.entityId ? { entityId: filters.entityId } : {}),
+      ...(filters.action ? { action: ACTION_TO_PRISMA[filters.action] } : {}),
+      ...(filters.actor
+        ? { actorEmail: { contains: filters.actor, mode: 'insensitive' } }
+        : {}),
+      ...(Object.keys(createdAt).length > 0 ? { createdAt } : {}),
+    };
+
+    const [rows, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: filters.limit || 50,
+        skip: filters.offset || 0,
+      }),
+      prisma.auditLog.count({ where }),
+    ]);
+
+    return { entries: rows.map(this.mapPrismaToEntry), total };
+  }
+
+  private mapPrismaToEntry(row: AuditLog): AuditLogEntry {
+    return {
+      id: row.id,
+      entityType: ENTITY_TYPE_FROM_PRISMA[row.entityType],
+      entityId: row.entityId,
+      action: ACTION_FROM_PRISMA[row.action],
+      actorId: row.actorId || undefined,
+      actorEmail: row.actorEmail || undefined,
+      changes: parseAuditChanges(row.changes),
+      ipAddress: row.ipAddress || undefined,
+      userAgent: row.userAgent || undefined,
+      upstreamSystem: isUpstreamSystem(row.upstreamSystem)
+        ? row.upstreamSystem
+        : undefined,
+      upstreamResponse: row.upstreamResponse ?? undefined,
+      success: row.success,
+      error: row.error || undefined,
+      createdAt: row.createdAt.toISOString(),
+    };
+  }
+}
+
+export const auditLogService = AuditLogService.getInstance();
@@ -15,6 +15,32 @@
 
 import { toast } from 'react-hot-toast';
 
+import { ticketSettingsService } from '@/lib/services/ticket-settings';
+import {
+  getActivePipelineIds,
+  getActiveTechnicians,
+  getSyncExcludedStageIds,
+} from '@/lib/config/ticket-settings';
+import { HUBSPOT_BATCH_SIZE } from '@/lib/config/ticket-batch';
+
+// Propriedades de ticket buscadas por padrão
+const TICKET_PROPERTIES = [
+  'hs_object_id',
+  'subject',
+  'content',
+  'hs_pipeline',
+  'hs_pipeline_stage',
+  'hs_ticket_priority',
+  'hs_ticket_category',
+  'hubspot_owner_id',
+  'source_type',
+  'createdate',
+  'hs_lastmodifieddate',
+  'closedate',
+  'first_agent_reply_date',
+  'tags',
+];
+
 // Interfaces e tipos para HubSpot Tickets
 export interface HubSpotTicket {
   id: string;
@@ -32,6 +58,7 @@ export interface HubSpotTicket {
     source_type?: string;
     createdate?: string;
     closedate?: string;
+    first_agent_reply_date?: string;
     time_to_close?: string;
     hs_num_times_contacted?: string;
     hs_num_associated_contacts?: string;
@@ -156,6 +183,32 @@ export interface UpdateTicketRequest {
   properties: Partial<CreateTicketRequest['properties']>;
 }
 
+// Entrada do batch update: ID do ticket + propriedades alteradas
+export interface BatchUpdateTicketInput extends UpdateTicketRequest {
+  id: string;
+}
+
+// Resultado do batch update por ticket (falhas parciais vêm em errors)
+export interface BatchUpdateTicketsResult {
+  results: HubSpotTicket[];
+  errors: Array<{ id: string; message: string }>;
+}
+
+// Erro de item do batch; os IDs afetados vêm em context.ids (ou context.id)
+interface HubSpotBatchError {
+  message: string;
+  context?: { ids?: string[]; id?: string[] };
+}
+
+// Versão de uma propriedade no histórico (propertiesWithHistory)
+export interface HubSpotPropertyVersion {
+  value: string;
+  timestamp: string;
+  sourceType: string;
+  sourceId?: string;
+  updatedByUserId?: number;
+}
+
 // Rate Limiter específico para HubSpot API
 class HubSpotRateLimiter {
   private requests: number[] = [];
@@ -182,21 +235,16 @@ class HubSpotRateLimiter {
   }
 }
 
-// Constantes de configuração do sistema
-const SYSTEM_CONFIG = {
-  // Pipeline específica para tickets do sistema
-  TICKETS_PIPELINE_ID: '634240100',
-  // Stage de tickets fechados que devem ser excluídos
-  CLOSED_TICKETS_STAGE_ID: '1028692851',
-  // Técnicos autorizados do sistema
-  AUTHORIZED_OWNERS: ['1514631054', '360834054', '1727693927'],
-  // Informações dos técnicos autorizados
-  AUTHORIZED_OWNERS_INFO: {
-    '1514631054': { name: 'Felipe Teixeira', role: 'Analista N2 Eventos' },
-    '360834054': { name: 'Tiago Triani', role: 'Analista N2' },
-    '1727693927': { name: 'Guilherme Souza', role: 'Analista N2' },
-  },
-} as const;
+// Resposta não-2xx da API (corpo preservado para extrair erros por item)
+export class HubSpotRequestError extends Error {
+  constructor(
+    public status: number,
+    public body: string
+  ) {
+    super(`HubSpot API Error ${status}: ${body}`);
+    this.name = 'HubSpotRequestError';
+  }
+}
 
 // Classe principal do serviço HubSpot
 export class HubSpotApiService {
@@ -267,7 +315,7 @@ export class HubSpotApiService {
       if (!response.ok) {
         const errorText = await response.text();
 
-        throw new Error(`HubSpot API Error ${response.status}: ${errorText}`);
+        throw new HubSpotRequestError(response.status, errorText);
       }
 
       const data = await response.json();
@@ -357,22 +405,27 @@ export class HubSpotApiService {
   ): Promise<HubSpotSearchResponse<HubSpotTicket>> {
     console.log('🎫 Fetching HubSpot tickets...');
 
-    // Filtros obrigatórios do sistema
+    // Filtros obrigatórios do sistema (configurações gerenciadas)
+    const settings = await ticketSettingsService.getSettings();
+    const excludedStageIds = getSyncExcludedStageIds(settings);
     const systemFilters: HubSpotSearchFilter[] = [
-      // Apenas pipeline específica
+      // Apenas pipelines ativas
       {
         propertyName: 'hs_pipeline',
-        operator: 'EQ',
-        value: SYSTEM_CONFIG.TICKETS_PIPELINE_ID,
-      },
-      // Excluir tickets fechados
-      {
-        propertyName: 'hs_pipeline_stage',
-        operator: 'NEQ',
-        value: SYSTEM_CONFIG.CLOSED_TICKETS_STAGE_ID,
+        operator: 'IN',
+        values: getActivePipelineIds(settings),
       },
     ];
 
+    // Excluir stages marcados como fora da sincronização
+    if (excludedStageIds.length > 0) {
+      systemFilters.push({
+        propertyName: 'hs_pipeline_stage',
+        operator: 'NOT_IN',
+        values: excludedStageIds,
+      });
+    }
+
     // Combinar filtros do sistema com filtros customizados
     const allFilterGroups = [
       { filters: systemFilters },
@@ -387,21 +440,7 @@ export class HubSpotApiService {
       sorts: filters?.sorts || [
         { propertyName: 'hs_lastmodifieddate', direction: 'DESCENDING' },
       ],
-      properties: filters?.properties || [
-        'hs_object_id',
-        'subject',
-        'content',
-        'hs_pipeline',
-        'hs_pipeline_stage',
-        'hs_ticket_priority',
-        'hs_ticket_category',
-        'hubspot_owner_id',
-        'source_type',
-        'createdate',
-        'hs_lastmodifieddate',
-        'closedate',
-        'tags',
-      ],
+      properties: filters?.properties || TICKET_PROPERTIES,
       limit: filters?.limit || 100,
       after: filters?.after,
     };
@@ -419,28 +458,95 @@ export class HubSpotApiService {
     );
   }
 
+  /**
+   * Buscar todos os tickets que atendem aos filtros (AND), seguindo paging.after
+   * Ordena por hs_lastmodifieddate crescente para contornar o limite de 10.000
+   * resultados da Search API reiniciando a busca a partir do último visto
+   */
+  async searchAllTickets(
+    filters: HubSpotSearchFilter[],
+    properties: string[] = TICKET_PROPERTIES
+  ): Promise<HubSpotTicket[]> {
+    const ticketsById = new Map<string, HubSpotTicket>();
+    let modifiedSince: string | undefined;
+    let after: string | undefined;
+    let pages = 0;
+
+    console.log('🎫 Searching all HubSpot tickets (paginated)...');
+
+    while (true) {
+      const pageFilters = [...filters];
+
+      if (modifiedSince) {
+        pageFilters.push({
+          propertyName: 'hs_lastmodifieddate',
+          operator: 'GTE',
+          value: modifiedSince,
+        });
+      }
+
+      const [group] = this.sanitizeFilters([{ filters: pageFilters }]);
+      const response = await this.makeRequest<
+        HubSpotSearchResponse<HubSpotTicket>
+      >(
+        '/crm/v3/objects/tickets/search',
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            filterGroups: group.filters.length > 0 ? [group] : [],
+            sorts: [
+              { propertyName: 'hs_lastmodifieddate', direction: 'ASCENDING' },
+            ],
+            properties: Array.from(
+              new Set([...properties, 'hs_lastmodifieddate'])
+            ),
+            limit: 200,
+            after,
+          }),
+        },
+        false
+      );
+
+      pages++;
+      response.results.forEach(ticket => ticketsById.set(ticket.id, ticket));
+
+      const nextAfter = response.paging?.next?.after;
+
+      if (!nextAfter) break;
+
+      if (Number(nextAfter) >= 10000) {
+        // Limite da Search API: reiniciar a partir do último timestamp visto
+        const lastTicket = response.results[response.results.length - 1];
+        const lastModified = lastTicket?.properties.hs_lastmodifieddate;
+        const lastModifiedMs = lastModified
+          ? String(new Date(lastModified).getTime())
+          : undefined;
+
+        if (!lastModifiedMs || lastModifiedMs === modifiedSince) break;
+
+        modifiedSince = lastModifiedMs;
+        after = undefined;
+      } else {
+        after = nextAfter;
+      }
+    }
+
+    console.log(
+      `📥 ${ticketsById.size} tickets encontrados em ${pages} página(s)`
+    );
+
+    return Array.from(ticketsById.values());
+  }
+
   /**
    * Buscar ticket por ID
    */
   async getTicketById(
     ticketId: string,
-    properties?: string[]
+    properties?: string[],
+    useCache = true
   ): Promise<HubSpotTicket> {
-    const props = properties || [
-      'hs_object_id',
-      'subject',
-      'content',
-      'hs_pipeline',
-      'hs_pipeline_stage',
-      'hs_ticket_priority',
-      'hs_ticket_category',
-      'hubspot_owner_id',
-      'source_type',
-      'createdate',
-      'hs_lastmodifieddate',
-      'closedate',
-      'tags',
-    ];
+    const props = properties || TICKET_PROPERTIES;
 
     const queryParams = new URLSearchParams({
       properties: props.join(','),
@@ -448,10 +554,84 @@ export class HubSpotApiService {
 
     return this.makeRequest<HubSpotTicket>(
       `/crm/v3/objects/tickets/${ticketId}?${queryParams}`,
-      { method: 'GET' }
+      { method: 'GET' },
+      useCache
     );
   }
 
+  /**
+   * Buscar vários tickets por ID em uma única requisição (batch read)
+   * IDs inexistentes ou arquivados são omitidos do resultado
+   */
+  async getTicketsByIds(
+    ticketIds: string[],
+    properties?: string[]
+  ): Promise<HubSpotTicket[]> {
+    if (ticketIds.length === 0) return [];
+
+    console.log(`🎫 Batch reading ${ticketIds.length} HubSpot tickets...`);
+
+    const tickets: HubSpotTicket[] = [];
+
+    // O endpoint aceita no máximo 100 IDs por requisição
+    for (let index = 0; index < ticketIds.length; index += 100) {
+      const result = await this.makeRequest<{ results: HubSpotTicket[] }>(
+        '/crm/v3/objects/tickets/batch/read',
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            properties: properties || TICKET_PROPERTIES,
+            inputs: ticketIds.slice(index, index + 100).map(id => ({ id })),
+          }),
+        },
+        false
+      );
+
+      tickets.push(...(result.results || []));
+    }
+
+    return tickets;
+  }
+
+  /**
+   * Histórico de estágios de vários tickets (versão mais recente primeiro)
+   * Leituras com histórico aceitam no máximo 50 IDs por requisição
+   */
+  async getTicketStageHistory(
+    ticketIds: string[]
+  ): Promise<Map<string, HubSpotPropertyVersion[]>> {
+    const history = new Map<string, HubSpotPropertyVersion[]>();
+
+    for (let index = 0; index < ticketIds.length; index += 50) {
+      const result = await this.makeRequest<{
+        results: Array<{
+          id: string;
+          propertiesWithHistory?: Record<string, HubSpotPropertyVersion[]>;
+        }>;
+      }>(
+        '/crm/v3/objects/tickets/batch/read',
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            properties: ['hs_pipeline_stage'],
+            propertiesWithHistory: ['hs_pipeline_stage'],
+            inputs: ticketIds.slice(index, index + 50).map(id => ({ id })),
+          }),
+        },
+        false
+      );
+
+      for (const ticket of result.results || []) {
+        history.set(
+          ticket.id,
+          ticket.propertiesWithHistory?.hs_pipeline_stage || []
+        );
+      }
+    }
+
+    return history;
+  }
+
   /**
    * Criar novo ticket
    */
@@ -505,6 +685,106 @@ export class HubSpotApiService {
     return result;
   }
 
+  /**
+   * Atualizar vários tickets (batch update), em lotes de 100
+   * Falhas parciais (resposta 207) e lotes rejeitados inteiros são
+   * devolvidos por ticket em errors, sem interromper os lotes seguintes
+   */
+  async batchUpdateTickets(
+    inputs: BatchUpdateTicketInput[]
+  ): Promise<BatchUpdateTicketsResult> {
+    const outcome: BatchUpdateTicketsResult = { results: [], errors: [] };
+
+    if (inputs.length === 0) return outcome;
+
+    console.log(`🎫 Batch updating ${inputs.length} HubSpot tickets...`);
+
+    for (let index = 0; index < inputs.length; index += HUBSPOT_BATCH_SIZE) {
+      const batch = inputs.slice(index, index + HUBSPOT_BATCH_SIZE);
+
+      try {
+        const result = await this.makeRequest<{
+          results?: HubSpotTicket[];
+          errors?: HubSpotBatchError[];
+        }>(
+          '/crm/v3/objects/tickets/batch/update',
+          {
+            method: 'POST',
+            body: JSON.stringify({ inputs: batch }),
+          },
+          false
+        );
+
+        outcome.results.push(...(result.results || []));
+        outcome.errors.push(...this.mapBatchErrors(result.errors || []));
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : 'Erro desconhecido';
+        const itemErrors =
+          error instanceof HubSpotRequestError
+            ? this.parseBatchErrorBody(error.body)
+            : { message, errors: [] };
+        const failed = this.mapBatchErrors(itemErrors.errors);
+        const failedIds = new Set(failed.map(item => item.id));
+
+        // Lote rejeitado inteiro: os demais tickets não foram alterados
+        outcome.errors.push(
+          ...failed,
+          ...batch
+            .filter(input => !failedIds.has(input.id))
+            .map(input => ({
+              id: input.id,
+              message:
+                failed.length > 0
+                  ? `Lote rejeitado pelo HubSpot: ${itemErrors.message}`
+                  : itemErrors.message,
+            }))
+        );
+      }
+    }
+
+    // Invalidate cache
+    this.invalidateCache('tickets');
+
+    return outcome;
+  }
+
+  // Um erro por ticket afetado
+  private mapBatchErrors(
+    errors: HubSpotBatchError[]
+  ): BatchUpdateTicketsResult['errors'] {
+    return errors.flatMap(error =>
+      (error.context?.ids || error.context?.id || []).map(id => ({
+        id,
+        message: error.message,
+      }))
+    );
+  }
+
+  // Corpo de erro do HubSpot: { message, errors?: [...], context?: { ids } }
+  private parseBatchErrorBody(body: string): {
+    message: string;
+    errors: HubSpotBatchError[];
+  } {
+    try {
+      const parsed = JSON.parse(body);
+      const message =
+        typeof parsed?.message === 'string' ? parsed.message : body;
+      const errors: HubSpotBatchError[] = Array.isArray(parsed?.errors)
+        ? parsed.errors.map((error: Partial<HubSpotBatchError>) => ({
+            message: error.message || message,
+            context: error.context,
+          }))
+        : [];
+
+      if (parsed?.context) errors.push({ message, context: parsed.context });
+
+      return { message, errors };
+    } catch {
+      return { message: body || 'Erro desconhecido', errors: [] };
+    }
+  }
+
   /**
    * Deletar ticket
    */
@@ -544,16 +824,31 @@ export class HubSpotApiService {
   }
 
   /**
-   * Buscar apenas a pipeline específica do sistema
+   * Buscar a pipeline principal do sistema (primeira pipeline ativa)
    */
   async getSystemPipeline(): Promise<HubSpotPipeline> {
-    console.log('🚰 Fetching system pipeline...');
+    const [pipeline] = await this.getSystemPipelines();
 
-    return this.makeRequest<HubSpotPipeline>(
-      `/crm/v3/pipelines/tickets/${SYSTEM_CONFIG.TICKETS_PIPELINE_ID}`,
-      { method: 'GET' },
-      true,
-      60 * 60 * 1000 // 1 hour cache for system pipeline
+    return pipeline;
+  }
+
+  /**
+   * Buscar todas as pipelines ativas nas configurações do sistema
+   */
+  async getSystemPipelines(): Promise<HubSpotPipeline[]> {
+    console.log('🚰 Fetching system pipelines...');
+
+    const settings = await ticketSettingsService.getSettings();
+
+    return Promise.all(
+      getActivePipelineIds(settings).map(pipelineId =>
+        this.makeRequest<HubSpotPipeline>(
+          `/crm/v3/pipelines/tickets/${pipelineId}`,
+          { method: 'GET' },
+          true,
+          60 * 60 * 1000 // 1 hour cache for system pipelines
+        )
+      )
     );
   }
 
@@ -595,6 +890,9 @@ export class HubSpotApiService {
   }> {
     console.log('👥 Fetching authorized owners...');
 
+    const settings = await ticketSettingsService.getSettings();
+    const technicians = getActiveTechnicians(settings);
+
     try {
       // Buscar todos os owners primeiro
       const allOwnersResponse = await this.getOwners();
@@ -602,13 +900,12 @@ export class HubSpotApiService {
       // Filtrar apenas os autorizados e adicionar informações extras
       const authorizedOwners = allOwnersResponse.results
         .filter(owner =>
-          SYSTEM_CONFIG.AUTHORIZED_OWNERS.includes(owner.id as any)
+          technicians.some(technician => technician.id === owner.id)
         )
         .map(owner => ({
           ...owner,
-          role: SYSTEM_CONFIG.AUTHORIZED_OWNERS_INFO[
-            owner.id as keyof typeof SYSTEM_CONFIG.AUTHORIZED_OWNERS_INFO
-          ]?.role,
+          role: technicians.find(technician => technician.id === owner.id)
+            ?.role,
         }));
 
       return { results: authorizedOwners };
@@ -619,22 +916,14 @@ export class HubSpotApiService {
       );
 
       // Fallback: Retornar dados locais dos técnicos autorizados
-      const fallbackOwners = SYSTEM_CONFIG.AUTHORIZED_OWNERS.map(ownerId => ({
-        id: ownerId,
-        email: `${SYSTEM_CONFIG.AUTHORIZED_OWNERS_INFO[ownerId as keyof typeof SYSTEM_CONFIG.AUTHORIZED_OWNERS_INFO].name.toLowerCase().replace(' ', '.')}@inpatch.com`,
-        firstName:
-          SYSTEM_CONFIG.AUTHORIZED_OWNERS_INFO[
-            ownerId as keyof typeof SYSTEM_CONFIG.AUTHORIZED_OWNERS_INFO
-          ].name.split(' ')[0],
-        lastName: SYSTEM_CONFIG.AUTHORIZED_OWNERS_INFO[
-          ownerId as keyof typeof SYSTEM_CONFIG.AUTHORIZED_OWNERS_INFO
-        ].name
-          .split(' ')
-          .slice(1)
-          .join(' '),
-        role: SYSTEM_CONFIG.AUTHORIZED_OWNERS_INFO[
-          ownerId as keyof typeof SYSTEM_CONFIG.AUTHORIZED_OWNERS_INFO
-        ].role,
+      const fallbackOwners = technicians.map(technician => ({
+        id: technician.id,
+        email:
+          technician.email ||
+          `${technician.name.toLowerCase().replace(' ', '.')}@inpatch.com`,
+        firstName: technician.name.split(' ')[0],
+        lastName: technician.name.split(' ').slice(1).join(' '),
+        role: technician.role,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
         archived: false,
@@ -0,0 +1,337 @@
+/**
+ * HubSpot Webhook Service - Receptor de eventos de tickets
+ * Valida a assinatura v3 do HubSpot e aplica os eventos no banco local
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type {
+  HubSpotWebhookEvent,
+  HubSpotWebhookEventOutcome,
+  HubSpotWebhookEventResult,
+  HubSpotWebhookProcessSummary,
+} from '@/types/hubspot-webhook';
+import type { Ticket } from '@/types/ticket';
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+import { hubspotApi } from '@/lib/services/hubspot-api';
+import { ticketDatabaseService } from '@/lib/services/ticket-database';
+import { ticketSettingsService } from '@/lib/services/ticket-settings';
+import { ticketTriageService } from '@/lib/services/ticket-triage';
+import { ticketAssignmentService } from '@/lib/services/ticket-assignment';
+import {
+  getActivePipelineIds,
+  getSyncExcludedStageIds,
+} from '@/lib/config/ticket-settings';
+
+// Requisições com timestamp mais antigo que isso são rejeitadas (replay)
+const MAX_SIGNATURE_AGE_MS = 5 * 60 * 1000;
+
+// Caracteres que o HubSpot decodifica na URI antes de assinar
+const URI_DECODE_MAP: Record<string, string> = {
+  '%3A': ':',
+  '%2F': '/',
+  '%3F': '?',
+  '%40': '@',
+  '%21': '!',
+  '%24': '$',
+  '%27': "'",
+  '%28': '(',
+  '%29': ')',
+  '%2A': '*',
+  '%2C': ',',
+  '%3B': ';',
+};
+
+const WEBHOOK_SOURCE = 'hubspot-webhook';
+
+const HISTORY_ACTIONS = {
+  created: 'CREATED',
+  updated: 'UPDATED',
+  deleted: 'DELETED',
+  ignored: 'SYNCED',
+  error: 'ERROR',
+} as const;
+
+export interface SignatureVerificationInput {
+  method: string;
+  uri: string;
+  body: string;
+  signature: string | null;
+  timestamp: string | null;
+}
+
+export class HubSpotWebhookService {
+  private static instance: HubSpotWebhookService;
+
+  static getInstance(): HubSpotWebhookService {
+    if (!HubSpotWebhookService.instance) {
+      HubSpotWebhookService.instance = new HubSpotWebhookService();
+    }
+
+    return HubSpotWebhookService.instance;
+  }
+
+  isConfigured(): boolean {
+    return !!process.env.HUBSPOT_CLIENT_SECRET;
+  }
+
+  /**
+   * Validar assinatura v3 (X-HubSpot-Signature-v3)
+   * HMAC-SHA256 em base64 de: método + URI + corpo + timestamp
+   */
+  verifySignature(input: SignatureVerificationInput): {
+    valid: boolean;
+    reason?: string;
+  } {
+    const secret = process.env.HUBSPOT_CLIENT_SECRET;
+
+    if (!secret) {
+      return { valid: false, reason: 'HUBSPOT_CLIENT_SECRET não configurado' };
+    }
+
+    if (!input.signature || !input.timestamp) {
+      return { valid: false, reason: 'Cabeçalhos de assinatura ausentes' };
+    }
+
+    const timestamp = Number(input.timestamp);
+
+    if (
+      !Number.isFinite(timestamp) ||
+      Math.abs(Date.now() - timestamp) > MAX_SIGNATURE_AGE_MS
+    ) {
+      return { valid: false, reason: 'Timestamp da requisição expirado' };
+    }
+
+    const uri = input.uri.replace(
+      /%3A|%2F|%3F|%40|%21|%24|%27|%28|%29|%2A|%2C|%3B/gi,
+      match => URI_DECODE_MAP[match.toUpperCase()]
+    );
+    const source = `${input.method.toUpperCase()}${uri}${input.body}${input.timestamp}`;
+    const expected = createHmac('sha256', secret).update(source).digest();
+    const received = Buffer.from(input.signature, 'base64');
+
+    if (
+      received.length !== expected.length ||
+      !timingSafeEqual(received, expected)
+    ) {
+      return { valid: false, reason: 'Assinatura inválida' };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Processar lote de eventos de tickets
+   * Tickets alterados são relidos do HubSpot em uma única chamada batch
+   */
+  async processEvents(
+    events: HubSpotWebhookEvent[]
+  ): Promise<HubSpotWebhookProcessSummary> {
+    console.log(`📨 Processando ${events.length} evento(s) do HubSpot...`);
+
+    const outcomes = new Map<
+      string,
+      { outcome: HubSpotWebhookEventOutcome; ticket?: Ticket; error?: string }
+    >();
+
+    const ticketEvents = events.filter(event =>
+      event.subscriptionType?.startsWith('ticket.')
+    );
+    const deletedIds = new Set(
+      ticketEvents
+        .filter(event => event.subscriptionType === 'ticket.deletion')
+        .map(event => String(event.objectId))
+    );
+    const changedIds = [
+      ...new Set(
+        ticketEvents
+          .filter(
+            event =>
+              event.subscriptionType === 'ticket.creation' ||
+              event.subscriptionType === 'ticket.propertyChange'
+          )
+          .map(event => String(event.objectId))
+          .filter(objectId => !deletedIds.has(objectId))
+      ),
+    ];
+
+    // Momento exato da última mudança de estágio de cada ticket
+    const stageChangedAt = new Map<string, Date>();
+
+    for (const event of ticketEvents) {
+      if (event.propertyName !== 'hs_pipeline_stage') continue;
+
+      const objectId = String(event.objectId);
+      const occurredAt = stageChangedAt.get(objectId);
+
+      if (!occurredAt || occurredAt.getTime() < event.occurredAt) {
+        stageChangedAt.set(objectId, new Date(event.occurredAt));
+      }
+    }
+
+    // Exclusões: marcar como excluído apenas no banco local
+    for (const objectId of deletedIds) {
+      outcomes.set(objectId, await this.markDeleted(objectId));
+    }
+
+    if (changedIds.length > 0) {
+      try {
+        const settings = await ticketSettingsService.getSettings();
+        const activePipelineIds = getActivePipelineIds(settings);
+        const excludedStageIds = getSyncExcludedStageIds(settings);
+        const hubspotTickets = await hubspotApi.getTicketsByIds(changedIds);
+        const ticketsById = new Map(
+          hubspotTickets.map(ticket => [ticket.id, ticket])
+        );
+
+        for (const objectId of changedIds) {
+          const hubspotTicket = ticketsById.get(objectId);
+
+          // Ticket arquivado ou fora das pipelines/stages sincronizados
+          if (
+            !hubspotTicket ||
+            hubspotTicket.archived ||
+            !activePipelineIds.includes(hubspotTicket.properties.hs_pipeline) ||
+            excludedStageIds.includes(
+              hubspotTicket.properties.hs_pipeline_stage
+            )
+          ) {
+            outcomes.set(objectId, await this.markDeleted(objectId));
+            continue;
+          }
+
+          try {
+            const { ticket, operation } =
+              await ticketDatabaseService.upsertFromHubSpot(hubspotTicket, {
+                source: 'webhook',
+                transitionedAt: stageChangedAt.get(objectId),
+              });
+
+            outcomes.set(objectId, {
+              outcome: operation === 'create' ? 'created' : 'updated',
+              ticket,
+            });
+          } catch (error) {
+            outcomes.set(objectId, {
+              outcome: 'error',
+              error:
+                error instanceof Error ? error.message : 'Erro desconhecido',
+            });
+          }
+        }
+
+        const upsertedIds = changedIds.filter(
+          objectId => !!outcomes.get(objectId)?.ticket
+        );
+
+        // Tickets que chegaram na Triagem N2 passam pelas regras
+        await ticketTriageService.triageTickets(upsertedIds, {
+          source: 'webhook',
+        });
+
+        // Sem responsável depois da triagem: distribuir entre os técnicos
+        await ticketAssignmentService.assignTickets(upsertedIds, {
+          source: 'webhook',
+        });
+      } catch (error) {
+        console.error('❌ Erro ao buscar tickets do webhook:', error);
+
+        changedIds.forEach(objectId =>
+          outcomes.set(objectId, {
+            outcome: 'error',
+            error: error instanceof Error ? error.message : 'Erro desconhecido',
+          })
+        );
+      }
+    }
+
+    const summary: HubSpotWebhookProcessSummary = {
+      received: events.length,
+      created: 0,
+      updated: 0,
+      deleted: 0,
+      ignored: 0,
+      errors: 0,
+      results: [],
+    };
+
+    // Um registro de histórico por evento recebido
+    for (const event of events) {
+      const objectId = String(event.objectId);
+      const { outcome, ticket, error } = outcomes.get(objectId) || {
+        outcome: 'ignored' as const,
+      };
+      const result: HubSpotWebhookEventResult = {
+        eventId: event.eventId,
+        objectId,
+        subscriptionType: event.subscriptionType,
+        outcome,
+        error,
+      };
+
+      await ticketDatabaseService.recordSyncHistory({
+        ticketId: ticket?.id,
+        action: HISTORY_ACTIONS[outcome],
+        source: WEBHOOK_SOURCE,
+        details: {
+          hubspotId: objectId,
+          eventId: event.eventId,
+          subscriptionType: event.subscriptionType,
+          propertyName: event.propertyName,
+          propertyValue: event.propertyValue,
+          changeSource: event.changeSource,
+          occurredAt: new Date(event.occurredAt).toISOString(),
+          attemptNumber: event.attemptNumber,
+          outcome,
+        },
+        errorMessage: error,
+      });
+
+      summary.results.push(result);
+      if (outcome === 'error') {
+        summary.errors++;
+      } else {
+        summary[outcome]++;
+      }
+    }
+
+    // Próximas leituras devem refletir as alterações recebidas
+    hubspotApi.clearCache();
+
+    console.log('🎯 Webhook HubSpot processado:', {
+      received: summary.received,
+      created: summary.created,
+      updated: summary.updated,
+      deleted: summary.deleted,
+      ignored: summary.ignored,
+      errors: summary.errors,
+    });
+
+    return summary;
+  }
+
+  // Métodos auxiliares
+  private async markDeleted(objectId: string): Promise<{
+    outcome: HubSpotWebhookEventOutcome;
+    error?: string;
+  }> {
+    try {
+      const removed = await ticketDatabaseService.markTicketsDeleted([
+        objectId,
+      ]);
+
+      return { outcome: removed > 0 ? 'deleted' : 'ignored' };
+    } catch (error) {
+      return {
+        outcome: 'error',
+        error: error instanceof Error ? error.message : 'Erro desconhecido',
+      };
+    }
+  }
+}
+
+// Export da instância singleton
+export const hubspotWebhookService = HubSpotWebhookService.getInstance();
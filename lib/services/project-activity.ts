@@ -0,0 +1,240 @@
+/**
+ * Project Activity Service - Histórico de atividades de um projeto
+ * Combina as ações do card no Trello (comentários, movimentações, checklists
+ * e anexos) com as linhas de SyncHistory registradas pelo inPatch
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type { SyncHistory } from '@prisma/client';
+import type { ProjectActivityFeed, ProjectActivityItem } from '@/types/project';
+import type { TrelloAction } from '@/types/webhook-pipeline';
+
+import { prisma } from '@/lib/database/prisma';
+import { trelloApi } from '@/lib/trello';
+import { APIError } from '@/lib/utils/validation';
+
+const ENDPOINT = '/api/projects/activity';
+
+const MAX_COMMENT_LENGTH = 16384; // Limite do Trello para comentários
+const LOCAL_HISTORY_LIMIT = 50;
+
+const isDatabaseConfigured = () => !!process.env.DATABASE_URL;
+
+// Rótulos das origens gravadas em SyncHistory.source
+const SYNC_SOURCE_LABELS: Record<string, string> = {
+  trello: 'Sincronização com o Trello',
+  'trello-mcp': 'Sincronização com o Trello',
+  'trello-dependency': 'Dependência no Trello',
+  webhook: 'Webhook do Trello',
+  database: 'inPatch',
+  manual: 'inPatch',
+  api: 'inPatch',
+  checklist: 'Checklist',
+  'conflict-resolution': 'Resolução de conflito',
+};
+
+export class ProjectActivityService {
+  private static instance: ProjectActivityService;
+
+  static getInstance(): ProjectActivityService {
+    if (!ProjectActivityService.instance) {
+      ProjectActivityService.instance = new ProjectActivityService();
+    }
+
+    return ProjectActivityService.instance;
+  }
+
+  /**
+   * Atividades do card e sincronizações locais, das mais recentes às mais antigas
+   * Falhas em uma das origens não impedem a exibição da outra
+   */
+  async getActivity(cardId: string): Promise<ProjectActivityFeed> {
+    const [trelloItems, localItems] = await Promise.all([
+      this.getTrelloActivity(cardId),
+      this.getLocalActivity(cardId),
+    ]);
+
+    const items = [...(trelloItems || []), ...localItems].sort(
+      (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
+    );
+
+    return { items, trelloAvailable: trelloItems !== null };
+  }
+
+  /**
+   * Publica um comentário no card; o autor do inPatch é citado no texto,
+   * já que o Trello registra o dono do token como criador
+   */
+  async addComment(
+    cardId: string,
+    text: string,
+    author?: string
+  ): Promise<ProjectActivityItem> {
+    const body = text.trim();
+
+    if (!body) {
+      throw new APIError('O comentário não pode ficar vazio', 400, ENDPOINT);
+    }
+
+    if (body.length > MAX_COMMENT_LENGTH) {
+      throw new APIError(
+        `O comentário excede ${MAX_COMMENT_LENGTH} caracteres`,
+        400,
+        ENDPOINT
+      );
+    }
+
+    const action = await trelloApi.addComment(
+      cardId,
+      author ? `${body}\n\n— ${author} (via inPatch)` : body
+    );
+
+    console.log(`💬 Comentário publicado no card ${cardId}`);
+
+    return this.mapTrelloAction(action)!;
+  }
+
+  private async getTrelloActivity(
+    cardId: string
+  ): Promise<ProjectActivityItem[] | null> {
+    try {
+      const actions = await trelloApi.getCardActions(cardId);
+
+      return actions
+        .map(action => this.mapTrelloAction(action))
+        .filter((item): item is ProjectActivityItem => item !== null);
+    } catch (error) {
+      console.warn(
+        `⚠️ Falha ao ler ações do card ${cardId}:`,
+        error instanceof Error ? error.message : error
+      );
+
+      return null;
+    }
+  }
+
+  private async getLocalActivity(
+    cardId: string
+  ): Promise<ProjectActivityItem[]> {
+    if (!isDatabaseConfigured()) return [];
+
+    try {
+      const rows = await prisma.syncHistory.findMany({
+        where: {
+          project: { OR: [{ trelloCardId: cardId }, { id: cardId }] },
+        },
+        orderBy: { timestamp: 'desc' },
+        take: LOCAL_HISTORY_LIMIT,
+      });
+
+      return rows.map(row => this.mapSyncHistory(row));
+    } catch (error) {
+      console.warn('⚠️ Falha ao ler histórico de sincronização:', error);
+
+      return [];
+    }
+  }
+
+  // Métodos auxiliares de mapeamento
+  private mapTrelloAction(action: TrelloAction): ProjectActivityItem | null {
+    const data = action.data || {};
+    const base = {
+      id: action.id,
+      source: 'trello' as const,
+      author: action.memberCreator?.fullName,
+      date: action.date,
+    };
+
+    switch (action.type) {
+      case 'commentCard':
+        return { ...base, type: 'comment', text: data.text || '' };
+
+      case 'createCard':
+        return {
+          ...base,
+          type: 'created',
+          text: data.list?.name
+            ? `Criou o card em "${data.list.name}"`
+            : 'Criou o card',
+        };
+
+      case 'updateCard':
+        // Apenas movimentações entre listas chegam pelo filtro updateCard:idList
+        if (!data.listBefore || !data.listAfter) return null;
+
+        return {
+          ...base,
+          type: 'move',
+          text: `Moveu de "${data.listBefore.name}" para "${data.listAfter.name}"`,
+        };
+
+      case 'updateCheckItemStateOnCard':
+        return {
+          ...base,
+          type: 'checklist',
+          text: `${data.checkItem?.state === 'complete' ? 'Concluiu' : 'Reabriu'} "${data.checkItem?.name}"${data.checklist?.name ? ` em ${data.checklist.name}` : ''}`,
+        };
+
+      case 'addAttachmentToCard':
+        return {
+          ...base,
+          type: 'attachment',
+          text: `Anexou "${data.attachment?.name || 'arquivo'}"`,
+          url: data.attachment?.url,
+        };
+
+      case 'deleteAttachmentFromCard':
+        return {
+          ...base,
+          type: 'attachment',
+          text: `Removeu o anexo "${data.attachment?.name || 'arquivo'}"`,
+        };
+
+      default:
+        return null;
+    }
+  }
+
+  private mapSyncHistory(row: SyncHistory): ProjectActivityItem {
+    const details = (row.details || {}) as Record<string, unknown>;
+    const changes = Array.isArray(details.changes)
+      ? details.changes.map(String)
+      : [];
+    let text: string;
+
+    switch (row.action) {
+      case 'CREATED':
+        text = 'Projeto criado no banco';
+        break;
+      case 'DELETED':
+        text = 'Projeto removido';
+        break;
+      case 'ERROR':
+        text = `Falha na sincronização: ${row.errorMessage || 'erro desconhecido'}`;
+        break;
+      default:
+        if (details.conflictId) {
+          text = `Conflito em "${details.field}" resolvido (${details.resolution})`;
+        } else if (changes.length > 0) {
+          text = `Campos atualizados: ${changes.join(', ')}`;
+        } else {
+          text = 'Projeto sincronizado';
+        }
+    }
+
+    return {
+      id: row.id,
+      type: 'sync',
+      source: 'local',
+      author: SYNC_SOURCE_LABELS[row.source] || row.source,
+      text,
+      date: new Date(row.timestamp).toISOString(),
+      success: row.success,
+    };
+  }
+}
+
+// Export da instância singleton
+export const projectActivityService = ProjectActivityService.getInstance();
@@ -0,0 +1,286 @@
+/**
+ * Project Attachment Service - Anexos e capas dos cards do Trello
+ * Persiste a lista de anexos de cada projeto e copia as imagens enviadas ao
+ * Trello (que exigem autenticação) para o armazenamento configurado, de onde
+ * são exibidas as miniaturas e a capa (imageUrl)
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type { Project, ProjectAttachment } from '@/types/project';
+
+import { databaseService, prisma } from '@/lib/database/prisma';
+import { getFileStorage } from '@/lib/storage/file-storage';
+import { trelloApi } from '@/lib/trello';
+import { convertPrismaAttachment } from '@/lib/utils/transformers';
+import {
+  getAttachmentStoragePath,
+  isImageAttachment,
+  mapTrelloAttachments,
+  MAX_ATTACHMENT_BYTES,
+  shouldMirrorAttachment,
+} from '@/lib/utils/trello-fields';
+import { APIError } from '@/lib/utils/validation';
+
+const ENDPOINT = '/api/projects/attachments';
+
+const isDatabaseConfigured = () => !!process.env.DATABASE_URL;
+
+export interface AttachmentUploadInput {
+  file: Blob;
+  name: string;
+  setCover?: boolean;
+  uploadedBy?: string;
+}
+
+export class ProjectAttachmentService {
+  private static instance: ProjectAttachmentService;
+
+  static getInstance(): ProjectAttachmentService {
+    if (!ProjectAttachmentService.instance) {
+      ProjectAttachmentService.instance = new ProjectAttachmentService();
+    }
+
+    return ProjectAttachmentService.instance;
+  }
+
+  /**
+   * Anexos do projeto: do banco (com as cópias armazenadas) ou direto do card
+   */
+  async getAttachments(cardId: string): Promise<ProjectAttachment[]> {
+    if (isDatabaseConfigured()) {
+      const project = await prisma.project.findFirst({
+        where: { OR: [{ trelloCardId: cardId }, { id: cardId }] },
+        select: {
+          attachments: { orderBy: { attachedAt: 'desc' } },
+        },
+      });
+
+      if (project) return project.attachments.map(convertPrismaAttachment);
+    }
+
+    const card = await trelloApi.getCard(cardId);
+
+    return mapTrelloAttachments(card.attachments || [], card.idAttachmentCover);
+  }
+
+  /**
+   * Aplica os anexos lidos do card e copia as imagens pendentes
+   * Cards lidos sem anexos não apagam os já persistidos
+   */
+  async syncFromTrello(project: Project, projectId?: string): Promise<number> {
+    if (!project.attachments || !project.trelloCardId) return 0;
+
+    const id =
+      projectId ||
+      (await databaseService.getProjectByTrelloId(project.trelloCardId))?.id;
+
+    if (!id) return 0;
+
+    const removedPaths = await databaseService.replaceProjectAttachments(
+      id,
+      project.attachments
+    );
+
+    for (const storagePath of removedPaths) {
+      await this.removeStoredFile(storagePath);
+    }
+
+    return this.mirrorPendingImages(id, project.trelloCardId);
+  }
+
+  /**
+   * Sincronização do quadro: falhas em um card não interrompem os demais
+   */
+  async syncBoard(projects: Project[]): Promise<number> {
+    let mirrored = 0;
+
+    for (const project of projects) {
+      try {
+        mirrored += await this.syncFromTrello(project);
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : 'Erro desconhecido';
+
+        console.warn(
+          `⚠️ Falha ao sincronizar anexos do card ${project.trelloCardId}:`,
+          message
+        );
+      }
+    }
+
+    if (mirrored > 0) console.log(`🖼️ ${mirrored} imagem(ns) copiada(s)`);
+
+    return mirrored;
+  }
+
+  /**
+   * Envia um arquivo ao card; imagens também vão para o armazenamento
+   */
+  async uploadAttachment(
+    cardId: string,
+    input: AttachmentUploadInput
+  ): Promise<ProjectAttachment> {
+    if (input.file.size === 0) {
+      throw new APIError('Arquivo vazio', 400, ENDPOINT);
+    }
+
+    if (input.file.size > MAX_ATTACHMENT_BYTES) {
+      throw new APIError(
+        `Arquivo excede ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`,
+        413,
+        ENDPOINT
+      );
+    }
+
+    const [trelloAttachment] = mapTrelloAttachments([
+      await trelloApi.addFileAttachment(
+        cardId,
+        input.file,
+        input.name,
+        input.setCover
+      ),
+    ]);
+    const attachment: ProjectAttachment = {
+      ...trelloAttachment,
+      mimeType: trelloAttachment.mimeType || input.file.type || undefined,
+      isCover: !!input.setCover,
+      uploadedBy: input.uploadedBy,
+    };
+
+    console.log(`📎 Anexo "${attachment.name}" enviado ao card ${cardId}`);
+
+    // A cópia usa o arquivo recebido; se falhar, a próxima sincronização baixa
+    let stored: { path: string; url: string } | null = null;
+
+    if (isImageAttachment(attachment)) {
+      try {
+        stored = await getFileStorage().put(
+          getAttachmentStoragePath(cardId, attachment),
+          await input.file.arrayBuffer(),
+          attachment.mimeType || 'application/octet-stream'
+        );
+        attachment.previewUrl = stored.url;
+      } catch (error) {
+        console.warn(
+          '⚠️ Falha ao armazenar cópia do anexo:',
+          error instanceof Error ? error.message : error
+        );
+      }
+    }
+
+    if (isDatabaseConfigured()) {
+      try {
+        await this.persistUpload(cardId, attachment, stored);
+      } catch (error) {
+        console.warn(
+          '⚠️ Banco indisponível, anexo registrado apenas no Trello:',
+          error
+        );
+      }
+    }
+
+    return attachment;
+  }
+
+  // Grava o anexo enviado; a capa anterior deixa de ser capa
+  private async persistUpload(
+    cardId: string,
+    attachment: ProjectAttachment,
+    stored: { path: string; url: string } | null
+  ): Promise<void> {
+    const project = await databaseService.getProjectByTrelloId(cardId);
+
+    if (!project) return;
+
+    if (attachment.isCover) {
+      await prisma.projectAttachment.updateMany({
+        where: { projectId: project.id, isCover: true },
+        data: { isCover: false },
+      });
+      await prisma.project.update({
+        where: { id: project.id },
+        data: { imageUrl: attachment.url },
+      });
+    }
+
+    const data = {
+      name: attachment.name,
+      url: attachment.url,
+      mimeType: attachment.mimeType || null,
+      bytes: attachment.bytes ?? null,
+      isUpload: attachment.isUpload,
+      isCover: attachment.isCover,
+      storagePath: stored?.path || null,
+      storageUrl: stored?.url || null,
+      uploadedBy: attachment.uploadedBy || null,
+      attachedAt: new Date(attachment.attachedAt),
+    };
+
+    // O webhook addAttachmentToCard pode ter gravado o anexo antes
+    await prisma.projectAttachment.upsert({
+      where: { id: attachment.id },
+      create: { id: attachment.id, projectId: project.id, ...data },
+      update: data,
+    });
+  }
+
+  /**
+   * Baixa do Trello as imagens ainda sem cópia e as grava no armazenamento
+   */
+  private async mirrorPendingImages(
+    projectId: string,
+    cardId: string
+  ): Promise<number> {
+    const rows = await prisma.projectAttachment.findMany({
+      where: { projectId, storagePath: null, isUpload: true },
+    });
+    let mirrored = 0;
+
+    for (const row of rows) {
+      const attachment = convertPrismaAttachment(row);
+
+      if (!shouldMirrorAttachment(attachment)) continue;
+
+      try {
+        const { data, contentType } = await trelloApi.downloadAttachment(
+          attachment.url
+        );
+        const stored = await getFileStorage().put(
+          getAttachmentStoragePath(cardId, attachment),
+          data,
+          attachment.mimeType || contentType || 'application/octet-stream'
+        );
+
+        await prisma.projectAttachment.update({
+          where: { id: row.id },
+          data: { storagePath: stored.path, storageUrl: stored.url },
+        });
+        mirrored++;
+      } catch (error) {
+        // Sem registro em SyncHistory: a cópia é tentada a cada sincronização
+        console.warn(
+          `⚠️ Falha ao copiar anexo ${row.id}:`,
+          error instanceof Error ? error.message : error
+        );
+      }
+    }
+
+    return mirrored;
+  }
+
+  private async removeStoredFile(storagePath: string): Promise<void> {
+    try {
+      await getFileStorage().remove(storagePath);
+    } catch (error) {
+      console.warn(
+        `⚠️ Falha ao remover cópia ${storagePath}:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+}
+
+// Export da instância singleton
+export const projectAttachmentService = ProjectAttachmentService.getInstance();
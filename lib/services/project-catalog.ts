@@ -0,0 +1,177 @@
+/**
+ * Project Catalog Service - Plataformas e membros do time de projetos
+ * Catálogo persistido no Prisma com cache em memória; substitui os enums fixos
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type {
+  CatalogMember,
+  CatalogPlatform,
+  ProjectCatalog,
+} from '@/types/catalog';
+
+import { prisma } from '@/lib/database/prisma';
+import { DEFAULT_PROJECT_CATALOG } from '@/lib/config/project-catalog';
+
+export class ProjectCatalogService {
+  private static instance: ProjectCatalogService;
+  private cache: { data: ProjectCatalog; timestamp: number } | null = null;
+  private readonly cacheTTL = 60 * 1000; // 1 minuto
+
+  static getInstance(): ProjectCatalogService {
+    if (!ProjectCatalogService.instance) {
+      ProjectCatalogService.instance = new ProjectCatalogService();
+    }
+
+    return ProjectCatalogService.instance;
+  }
+
+  /**
+   * Buscar catálogo (banco → seed padrão → fallback em memória)
+   */
+  async getCatalog(useCache = true): Promise<ProjectCatalog> {
+    if (
+      useCache &&
+      this.cache &&
+      Date.now() - this.cache.timestamp < this.cacheTTL
+    ) {
+      return this.cache.data;
+    }
+
+    if (!process.env.DATABASE_URL) {
+      return DEFAULT_PROJECT_CATALOG;
+    }
+
+    try {
+      const [platforms, members] = await Promise.all([
+        prisma.platform.findMany({ orderBy: { displayOrder: 'asc' } }),
+        prisma.member.findMany({ orderBy: { displayOrder: 'asc' } }),
+      ]);
+
+      // Primeira execução: popular o banco com plataformas e time históricos
+      if (platforms.length === 0 && members.length === 0) {
+        console.log('🌱 Populando catálogo de projetos com valores padrão');
+
+        return this.saveCatalog(DEFAULT_PROJECT_CATALOG);
+      }
+
+      const catalog = this.mapPrismaToCatalog(platforms, members);
+
+      this.cache = { data: catalog, timestamp: Date.now() };
+
+      return catalog;
+    } catch (error) {
+      console.error('❌ Erro ao carregar catálogo de projetos:', error);
+
+      return this.cache?.data || DEFAULT_PROJECT_CATALOG;
+    }
+  }
+
+  /**
+   * Salvar catálogo completo (substitui o estado atual)
+   */
+  async saveCatalog(catalog: ProjectCatalog): Promise<ProjectCatalog> {
+    const platformIds = catalog.platforms.map(platform => platform.id);
+    const memberIds = catalog.members.map(member => member.id);
+
+    try {
+      await prisma.$transaction([
+        // Remover registros que saíram do catálogo
+        prisma.platform.deleteMany({ where: { id: { notIn: platformIds } } }),
+        prisma.member.deleteMany({ where: { id: { notIn: memberIds } } }),
+        ...catalog.platforms.map(platform => {
+          const data = {
+            name: platform.name,
+            trelloLabel: platform.trelloLabel || null,
+            keywords: platform.keywords,
+            color: platform.color,
+            isDefault: platform.isDefault,
+            isActive: platform.isActive,
+            displayOrder: platform.displayOrder,
+          };
+
+          return prisma.platform.upsert({
+            where: { id: platform.id },
+            create: { id: platform.id, ...data },
+            update: data,
+          });
+        }),
+        ...catalog.members.map(member => {
+          const data = {
+            name: member.name,
+            email: member.email || null,
+            trelloMemberId: member.trelloMemberId || null,
+            trelloUsername: member.trelloUsername || null,
+            hubspotOwnerId: member.hubspotOwnerId || null,
+            keywords: member.keywords,
+            isDefault: member.isDefault,
+            isActive: member.isActive,
+            displayOrder: member.displayOrder,
+          };
+
+          return prisma.member.upsert({
+            where: { id: member.id },
+            create: { id: member.id, ...data },
+            update: data,
+          });
+        }),
+      ]);
+
+      this.invalidateCache();
+      console.log('✅ Catálogo de projetos salvo');
+
+      return this.getCatalog(false);
+    } catch (error) {
+      console.error('❌ Erro ao salvar catálogo de projetos:', error);
+      throw new Error('Falha ao salvar catálogo de projetos');
+    }
+  }
+
+  invalidateCache(): void {
+    this.cache = null;
+  }
+
+  // Métodos auxiliares de mapeamento
+  private mapPrismaToCatalog(platforms: any[], members: any[]): ProjectCatalog {
+    const mappedPlatforms: CatalogPlatform[] = platforms.map(platform => ({
+      id: platform.id,
+      name: platform.name,
+      trelloLabel: platform.trelloLabel || undefined,
+      keywords: platform.keywords || [],
+      color: platform.color,
+      isDefault: platform.isDefault,
+      isActive: platform.isActive,
+      displayOrder: platform.displayOrder,
+    }));
+
+    const mappedMembers: CatalogMember[] = members.map(member => ({
+      id: member.id,
+      name: member.name,
+      email: member.email || undefined,
+      trelloMemberId: member.trelloMemberId || undefined,
+      trelloUsername: member.trelloUsername || undefined,
+      hubspotOwnerId: member.hubspotOwnerId || undefined,
+      keywords: member.keywords || [],
+      isDefault: member.isDefault,
+      isActive: member.isActive,
+      displayOrder: member.displayOrder,
+    }));
+
+    const timestamps = [...platforms, ...members]
+      .map(item => item.updatedAt?.getTime?.() || 0)
+      .filter(Boolean);
+
+    return {
+      platforms: mappedPlatforms,
+      members: mappedMembers,
+      updatedAt: timestamps.length
+        ? new Date(Math.max(...timestamps)).toISOString()
+        : undefined,
+    };
+  }
+}
+
+// Export da instância singleton
+export const projectCatalogService = ProjectCatalogService.getInstance();
@@ -0,0 +1,291 @@
+/**
+ * Project Dependency Service - Vínculos "bloqueia / bloqueado por" entre projetos
+ * Persistidos no Prisma e espelhados no Trello como anexos de link nos dois
+ * cards; projetos são identificados pelo card (trelloCardId)
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type { Prisma, Project, ProjectDependency } from '@prisma/client';
+import type {
+  ProjectDependencies,
+  ProjectDependencyRef,
+  ProjectStatus,
+} from '@/types/project';
+
+import { $Enums, databaseService, prisma } from '@/lib/database/prisma';
+import { trelloApi } from '@/lib/trello';
+import { APIError } from '@/lib/utils/validation';
+
+const ENDPOINT = '/api/projects/dependencies';
+
+// Projeto lido com os campos necessários para exibir o vínculo
+const PROJECT_REF_SELECT = {
+  id: true,
+  title: true,
+  status: true,
+  estimatedEndDate: true,
+  trelloCardId: true,
+} satisfies Prisma.ProjectSelect;
+
+type ProjectRef = Pick<Project, keyof typeof PROJECT_REF_SELECT>;
+
+type DependencyWithProject<K extends 'blocker' | 'blocked'> =
+  Prisma.ProjectDependencyGetPayload<{
+    include: { [P in K]: { select: typeof PROJECT_REF_SELECT } };
+  }>;
+
+const trelloCardUrl = (cardId: string) => `https://trello.com/c/${cardId}`;
+
+export class ProjectDependencyService {
+  private static instance: ProjectDependencyService;
+
+  static getInstance(): ProjectDependencyService {
+    if (!ProjectDependencyService.instance) {
+      ProjectDependencyService.instance = new ProjectDependencyService();
+    }
+
+    return ProjectDependencyService.instance;
+  }
+
+  /**
+   * Vínculos de um projeto nos dois sentidos
+   */
+  async getDependencies(cardId: string): Promise<ProjectDependencies> {
+    const project = await this.findProject(cardId);
+
+    const [blocks, blockedBy] = await Promise.all([
+      prisma.projectDependency.findMany({
+        where: { blockerId: project.id },
+        include: { blocked: { select: PROJECT_REF_SELECT } },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.projectDependency.findMany({
+        where: { blockedId: project.id },
+        include: { blocker: { select: PROJECT_REF_SELECT } },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+
+    return {
+      blocks: blocks.map((link: DependencyWithProject<'blocked'>) =>
+        this.toRef(link, link.blocked)
+      ),
+      blockedBy: blockedBy.map((link: DependencyWithProject<'blocker'>) =>
+        this.toRef(link, link.blocker)
+      ),
+    };
+  }
+
+  /**
+   * Cria o vínculo "blocker bloqueia blocked" e o espelha no Trello
+   * Falhas no Trello não desfazem o vínculo (fica sem anexos e é registrado)
+   */
+  async addDependency(
+    blockerCardId: string,
+    blockedCardId: string,
+    createdBy?: string
+  ): Promise<ProjectDependencyRef> {
+    if (blockerCardId === blockedCardId) {
+      throw new APIError(
+        'Um projeto não pode bloquear a si mesmo',
+        400,
+        ENDPOINT
+      );
+    }
+
+    const [blocker, blocked] = await Promise.all([
+      this.findProject(blockerCardId),
+      this.findProject(blockedCardId),
+    ]);
+
+    const existing = await prisma.projectDependency.findUnique({
+      where: {
+        blockerId_blockedId: { blockerId: blocker.id, blockedId: blocked.id },
+      },
+    });
+
+    if (existing) {
+      throw new APIError('Dependência já cadastrada', 409, ENDPOINT);
+    }
+
+    if (await this.createsCycle(blocker.id, blocked.id)) {
+      throw new APIError(
+        `"${blocked.title}" já bloqueia "${blocker.title}" (dependência circular)`,
+        409,
+        ENDPOINT
+      );
+    }
+
+    const link = await prisma.projectDependency.create({
+      data: { blockerId: blocker.id, blockedId: blocked.id, createdBy },
+    });
+
+    console.log(`🔗 Dependência criada: ${blocker.title} → ${blocked.title}`);
+
+    const mirrored = await this.mirrorToTrello(link.id, blocker, blocked);
+
+    return { ...this.toRef(link, blocker), mirrored };
+  }
+
+  /**
+   * Remove o vínculo e os anexos correspondentes nos cards
+   */
+  async removeDependency(
+    blockerCardId: string,
+    blockedCardId: string
+  ): Promise<boolean> {
+    const [blocker, blocked] = await Promise.all([
+      this.findProject(blockerCardId),
+      this.findProject(blockedCardId),
+    ]);
+
+    const link = await prisma.projectDependency.findUnique({
+      where: {
+        blockerId_blockedId: { blockerId: blocker.id, blockedId: blocked.id },
+      },
+    });
+
+    if (!link) return false;
+
+    // Anexo já removido à mão no Trello não impede a exclusão
+    const attachments: [string | null, string | null][] = [
+      [blocker.trelloCardId, link.blockerAttachmentId],
+      [blocked.trelloCardId, link.blockedAttachmentId],
+    ];
+
+    for (const [cardId, attachmentId] of attachments) {
+      if (!cardId || !attachmentId) continue;
+
+      try {
+        await trelloApi.deleteAttachment(cardId, attachmentId);
+      } catch (error) {
+        console.warn(
+          `⚠️ Falha ao remover anexo ${attachmentId} do card ${cardId}:`,
+          error instanceof Error ? error.message : error
+        );
+      }
+    }
+
+    await prisma.projectDependency.delete({ where: { id: link.id } });
+    console.log(`🔗 Dependência removida: ${blocker.title} → ${blocked.title}`);
+
+    return true;
+  }
+
+  // Projeto pelo card do Trello (ou ID interno, para projetos sem card)
+  private async findProject(cardId: string): Promise<ProjectRef> {
+    const project = await prisma.project.findFirst({
+      where: { OR: [{ trelloCardId: cardId }, { id: cardId }] },
+      select: PROJECT_REF_SELECT,
+    });
+
+    if (!project) {
+      throw new APIError(`Projeto ${cardId} não encontrado`, 404, ENDPOINT);
+    }
+
+    return project;
+  }
+
+  // O novo vínculo fecha um ciclo se "blocked" já bloqueia "blocker",
+  // direta ou indiretamente
+  private async createsCycle(
+    blockerId: string,
+    blockedId: string
+  ): Promise<boolean> {
+    const links: { blockerId: string; blockedId: string }[] =
+      await prisma.projectDependency.findMany({
+        select: { blockerId: true, blockedId: true },
+      });
+    const queue = [blockedId];
+    const visited = new Set(queue);
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+
+      if (current === blockerId) return true;
+
+      for (const link of links) {
+        if (link.blockerId === current && !visited.has(link.blockedId)) {
+          visited.add(link.blockedId);
+          queue.push(link.blockedId);
+        }
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Anexa a referência cruzada nos dois cards, gravando cada anexo criado
+   */
+  private async mirrorToTrello(
+    dependencyId: string,
+    blocker: ProjectRef,
+    blocked: ProjectRef
+  ): Promise<boolean> {
+    if (!blocker.trelloCardId || !blocked.trelloCardId) return false;
+
+    try {
+      const blockedAttachment = await trelloApi.addLinkAttachment(
+        blocked.trelloCardId,
+        trelloCardUrl(blocker.trelloCardId),
+        `Bloqueado por: ${blocker.title}`
+      );
+
+      await prisma.projectDependency.update({
+        where: { id: dependencyId },
+        data: { blockedAttachmentId: blockedAttachment.id },
+      });
+
+      const blockerAttachment = await trelloApi.addLinkAttachment(
+        blocker.trelloCardId,
+        trelloCardUrl(blocked.trelloCardId),
+        `Bloqueia: ${blocked.title}`
+      );
+
+      await prisma.projectDependency.update({
+        where: { id: dependencyId },
+        data: { blockerAttachmentId: blockerAttachment.id },
+      });
+
+      return true;
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : 'Erro desconhecido';
+
+      console.error('❌ Falha ao espelhar dependência no Trello:', message);
+      await databaseService.logSyncError(
+        blocked.id,
+        $Enums.SyncAction.ERROR,
+        'trello-dependency',
+        message,
+        {
+          blockerCardId: blocker.trelloCardId,
+          blockedCardId: blocked.trelloCardId,
+        }
+      );
+
+      return false;
+    }
+  }
+
+  // Métodos auxiliares de mapeamento
+  private toRef(
+    link: ProjectDependency,
+    project: ProjectRef
+  ): ProjectDependencyRef {
+    return {
+      dependencyId: link.id,
+      trelloCardId: project.trelloCardId || project.id,
+      title: project.title,
+      status: project.status.toLowerCase().replace('_', '-') as ProjectStatus,
+      estimatedEndDate: project.estimatedEndDate.toISOString(),
+      mirrored: !!(link.blockerAttachmentId && link.blockedAttachmentId),
+    };
+  }
+}
+
+// Export da instância singleton
+export const projectDependencyService = ProjectDependencyService.getInstance();
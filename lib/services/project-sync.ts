@@ -0,0 +1,365 @@
+/**
+ * Project Sync Service - Sincronização bidirecional de campos de projetos
+ * Envia edições locais ao Trello, aplica snapshots do Trello campo a campo
+ * e resolve a fila de conflitos
+ * Gateway do Trello no servidor: as rotas /api/projects usam este serviço e
+ * o navegador nunca recebe as credenciais do quadro
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type { CheckItemState, Project } from '@/types/project';
+import type {
+  ConflictResolution,
+  PendingTrelloPush,
+  ProjectBoardSyncResult,
+  ProjectDataSource,
+  ProjectSyncConflict,
+} from '@/types/project-sync';
+
+import { enhancedTrelloApi } from '@/lib/api/trello-enhanced';
+import { $Enums, databaseService } from '@/lib/database/prisma';
+import { projectAttachmentService } from '@/lib/services/project-attachments';
+import { projectCatalogService } from '@/lib/services/project-catalog';
+import { trelloApi } from '@/lib/trello';
+import {
+  serializeProjectFields,
+  toProjectFieldSource,
+  toTrelloUpdates,
+} from '@/lib/utils/project-field-sync';
+import { convertPrismaToLegacyProject } from '@/lib/utils/transformers';
+import { APIError } from '@/lib/utils/validation';
+
+// Cache curto para leituras diretas do Trello quando não há banco
+const TRELLO_READ_CACHE_MS = 30000;
+
+const isDatabaseConfigured = () => !!process.env.DATABASE_URL;
+
+// Cards vazios, templates e exemplos não viram projetos
+const isValidProject = (project: Project) =>
+  !!project.title &&
+  project.title.trim() !== '' &&
+  !project.title.toLowerCase().includes('template') &&
+  !project.title.toLowerCase().includes('exemplo');
+
+export class ProjectSyncService {
+  private static instance: ProjectSyncService;
+
+  static getInstance(): ProjectSyncService {
+    if (!ProjectSyncService.instance) {
+      ProjectSyncService.instance = new ProjectSyncService();
+    }
+
+    return ProjectSyncService.instance;
+  }
+
+  /**
+   * Projetos para GET /api/projects, servidos do banco
+   * Banco vazio dispara a primeira sincronização; sem banco, lê do Trello
+   */
+  async listProjects(): Promise<{
+    projects: Project[];
+    source: ProjectDataSource;
+  }> {
+    if (isDatabaseConfigured()) {
+      try {
+        const rows = await databaseService.getProjects();
+
+        if (rows.length > 0) {
+          return {
+            projects: rows.map(convertPrismaToLegacyProject),
+            source: 'database',
+          };
+        }
+
+        const { projects, source } = await this.syncBoard();
+
+        return { projects, source };
+      } catch (error) {
+        console.warn('⚠️ Banco indisponível, lendo projetos do Trello:', error);
+      }
+    }
+
+    const [cards, catalog] = await Promise.all([
+      enhancedTrelloApi.getCachedBoardCards(TRELLO_READ_CACHE_MS),
+      projectCatalogService.getCatalog(),
+    ]);
+
+    return {
+      projects: enhancedTrelloApi
+        .transformCardsToProjects(cards, catalog)
+        .filter(isValidProject),
+      source: 'trello',
+    };
+  }
+
+  /**
+   * Sincronização completa do quadro (POST /api/projects/sync)
+   * Reconcilia cada card com o banco e reenvia edições locais pendentes
+   */
+  async syncBoard(): Promise<ProjectBoardSyncResult> {
+    const startTime = Date.now();
+    const [cards, catalog] = await Promise.all([
+      trelloApi.getBoardCards(),
+      projectCatalogService.getCatalog(),
+    ]);
+    const trelloProjects = trelloApi
+      .transformCardsToProjects(cards, catalog)
+      .filter(isValidProject);
+
+    console.log(`🔄 Sincronizando ${trelloProjects.length} projetos do Trello`);
+
+    if (isDatabaseConfigured()) {
+      try {
+        const results = await databaseService.syncFromTrelloWithMCP(
+          trelloProjects,
+          catalog
+        );
+
+        await projectAttachmentService.syncBoard(trelloProjects);
+        const pushed = await this.pushPendingEdits(results.pendingPushes);
+        const rows = await databaseService.getProjects();
+
+        return {
+          projects: rows.map(convertPrismaToLegacyProject),
+          source: 'database',
+          synced: results.success,
+          conflicts: results.conflicts,
+          pushed,
+          errors: results.errors,
+          duration: Date.now() - startTime,
+        };
+      } catch (error) {
+        console.warn(
+          '⚠️ Falha ao sincronizar com o banco, usando dados do Trello:',
+          error
+        );
+      }
+    }
+
+    return {
+      projects: trelloProjects,
+      source: 'trello',
+      synced: trelloProjects.length,
+      conflicts: 0,
+      pushed: 0,
+      errors: [],
+      duration: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Atualiza um projeto a partir do inPatch
+   * A edição é registrada no banco antes do envio: se o Trello falhar ela
+   * continua pendente e é reenviada na próxima sincronização
+   */
+  async updateProject(trelloCardId: string, updates: Partial<Project>) {
+    let edit: Awaited<ReturnType<typeof databaseService.applyLocalEdits>> =
+      null;
+
+    try {
+      edit = await databaseService.applyLocalEdits(
+        trelloCardId,
+        toProjectFieldSource(updates),
+        'api',
+        await projectCatalogService.getCatalog()
+      );
+    } catch (error) {
+      console.warn(
+        '⚠️ Banco indisponível, edição enviada apenas ao Trello:',
+        error
+      );
+    }
+
+    const card = await trelloApi.updateCard(trelloCardId, updates);
+
+    if (edit && Object.keys(edit.values).length > 0) {
+      await databaseService.markProjectFieldsSynced(
+        edit.project.id,
+        edit.values,
+        'local',
+        card.dateLastActivity
+      );
+    }
+
+    return card;
+  }
+
+  /**
+   * Aplica um projeto lido do Trello (webhook) e reenvia edições pendentes
+   */
+  async applyTrelloProject(
+    project: Project,
+    source: string
+  ): Promise<'created' | 'updated'> {
+    const result = await databaseService.reconcileFromTrello(
+      databaseService.transformTrelloToProject(project),
+      {
+        trelloUpdatedAt: project.trelloUpdatedAt,
+        source,
+        catalog: await projectCatalogService.getCatalog(),
+      }
+    );
+
+    if (project.checklists) {
+      await databaseService.replaceProjectChecklists(
+        result.project.id,
+        project.checklists
+      );
+    }
+
+    await projectAttachmentService.syncFromTrello(project, result.project.id);
+
+    if (project.trelloCardId && Object.keys(result.pendingPush).length > 0) {
+      await this.pushPendingEdits([
+        {
+          projectId: result.project.id,
+          trelloCardId: project.trelloCardId,
+          values: result.pendingPush,
+        },
+      ]);
+    }
+
+    return result.operation;
+  }
+
+  /**
+   * Marca/desmarca um item de checklist no card e recalcula o progresso
+   * O card é relido após a alteração; com banco, checklists e progresso são
+   * persistidos pela mesma reconciliação dos webhooks
+   */
+  async toggleCheckItem(
+    trelloCardId: string,
+    checkItemId: string,
+    state: CheckItemState
+  ): Promise<{ before: Project; project: Project }> {
+    const catalog = await projectCatalogService.getCatalog();
+    const [before] = trelloApi.transformCardsToProjects(
+      [await trelloApi.getCard(trelloCardId)],
+      catalog
+    );
+    const item = before?.checklists
+      ?.flatMap(checklist => checklist.checkItems)
+      .find(checkItem => checkItem.id === checkItemId);
+
+    if (!before || !item) {
+      throw new APIError(
+        `Item ${checkItemId} não pertence ao card ${trelloCardId}`,
+        404,
+        `/cards/${trelloCardId}/checkItem/${checkItemId}`
+      );
+    }
+
+    await trelloApi.updateCheckItemState(trelloCardId, checkItemId, state);
+
+    const [project] = trelloApi.transformCardsToProjects(
+      [await trelloApi.getCard(trelloCardId)],
+      catalog
+    );
+
+    if (isDatabaseConfigured()) {
+      try {
+        await this.applyTrelloProject(project, 'checklist');
+      } catch (error) {
+        console.warn(
+          '⚠️ Banco indisponível, checklist atualizado apenas no Trello:',
+          error
+        );
+      }
+    }
+
+    return { before, project };
+  }
+
+  /**
+   * Envia ao Trello edições locais que ainda não chegaram ao card
+   */
+  async pushPendingEdits(pending: PendingTrelloPush[]): Promise<number> {
+    let pushed = 0;
+
+    for (const item of pending) {
+      try {
+        const card = await trelloApi.updateCard(
+          item.trelloCardId,
+          toTrelloUpdates(item.values)
+        );
+
+        await databaseService.markProjectFieldsSynced(
+          item.projectId,
+          item.values,
+          'local',
+          card.dateLastActivity
+        );
+        pushed++;
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : 'Erro desconhecido';
+
+        console.error(
+          `❌ Falha ao enviar edição pendente ao card ${item.trelloCardId}:`,
+          message
+        );
+        await databaseService.logSyncError(
+          item.projectId,
+          $Enums.SyncAction.ERROR,
+          'trello-push',
+          message,
+          { trelloCardId: item.trelloCardId, fields: Object.keys(item.values) }
+        );
+      }
+    }
+
+    return pushed;
+  }
+
+  /**
+   * Resolve um conflito mantendo o valor local (enviado ao card) ou o do Trello
+   */
+  async resolveConflict(
+    conflictId: string,
+    resolution: ConflictResolution,
+    resolvedBy?: string
+  ): Promise<ProjectSyncConflict | null> {
+    const conflict = await databaseService.getSyncConflict(conflictId);
+
+    if (!conflict) return null;
+
+    if (conflict.status !== 'OPEN') {
+      throw new Error('Conflito já resolvido');
+    }
+
+    const catalog = await projectCatalogService.getCatalog();
+
+    if (resolution === 'trello') {
+      return databaseService.closeSyncConflict(conflictId, 'trello', {
+        value: conflict.trelloValue,
+        resolvedBy,
+        trelloUpdatedAt: conflict.trelloUpdatedAt,
+        catalog,
+      });
+    }
+
+    const { project, field } = conflict;
+
+    if (!project.trelloCardId) {
+      throw new Error('Projeto sem card do Trello vinculado');
+    }
+
+    // Valor local atual (pode ter sido editado desde a detecção)
+    const value = serializeProjectFields(project, catalog)[field];
+    const card = await trelloApi.updateCard(
+      project.trelloCardId,
+      toTrelloUpdates({ [field]: value })
+    );
+
+    return databaseService.closeSyncConflict(conflictId, 'local', {
+      value,
+      resolvedBy,
+      trelloUpdatedAt: card.dateLastActivity,
+      catalog,
+    });
+  }
+}
+
+export const projectSyncService = ProjectSyncService.getInstance();
@@ -5,7 +5,7 @@
  */
 
 import { supabaseMCPService } from '@/lib/services/supabase-mcp';
-import { webhookHandler } from '@/lib/services/webhook-handler';
+import { webhookHandler } from '@/lib/api/webhook-handler';
 import { databaseService } from '@/lib/database/prisma';
 
 /**
@@ -258,23 +258,33 @@ export class RealtimeManager {
    */
   async processWebhookRealtime(webhookPayload: any): Promise<void> {
     try {
-      const result = await webhookHandler.processWebhook(webhookPayload);
-
-      if (result.success) {
-        this.emit({
-          type:
-            result.action === 'createCard'
-              ? 'project-created'
-              : 'project-updated',
-          data: {
-            projectId: result.projectId,
-            action: result.action,
-            details: result.details,
-          },
-          timestamp: new Date().toISOString(),
-          source: 'webhook',
+      const result = await webhookHandler.processTrelloPayload(webhookPayload);
+
+      result.results
+        .filter(
+          item =>
+            item.success &&
+            (item.outcome === 'created' ||
+              item.outcome === 'updated' ||
+              item.outcome === 'deleted')
+        )
+        .forEach(item => {
+          this.emit({
+            type:
+              item.outcome === 'created'
+                ? 'project-created'
+                : item.outcome === 'deleted'
+                  ? 'project-deleted'
+                  : 'project-updated',
+            data: {
+              projectId: item.entityId,
+              action: item.outcome,
+              details: result,
+            },
+            timestamp: new Date().toISOString(),
+            source: 'webhook',
+          });
         });
-      }
     } catch {
       console.error('Erro ao processar webhook real-time:');
     }
@@ -322,7 +332,7 @@ export class RealtimeManager {
       eventQueue: this.eventQueue.length,
       processingQueue: this.processingQueue,
       mcpStatus: supabaseMCPService.getConnectionStatus(),
-      webhookStats: webhookHandler.getQueueStats(),
+      webhookStats: webhookHandler.getHealthStatus(),
     };
   }
 
@@ -0,0 +1,124 @@
+/**
+ * SLA Policy Service - Política de SLA configurável
+ * Metas por prioridade e por estágio, horário comercial e estágios de pausa
+ * gravados no banco e editados pelo painel admin
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type { SlaPolicySetting } from '@prisma/client';
+import type { SlaPolicy } from '@/types/sla';
+
+import { prisma } from '@/lib/database/prisma';
+import { DEFAULT_SLA_POLICY } from '@/lib/config/sla';
+import {
+  businessHoursToJson,
+  parseBusinessHours,
+  parsePriorityTargets,
+  parseStageTargets,
+  slaTargetsToJson,
+} from '@/lib/utils/sla-engine';
+
+const isDatabaseConfigured = () => !!process.env.DATABASE_URL;
+
+const POLICY_ID = 'default';
+
+export class SlaPolicyService {
+  private static instance: SlaPolicyService;
+  private cache: { data: SlaPolicy; timestamp: number } | null = null;
+  private readonly cacheTTL = 60 * 1000; // 1 minuto
+
+  static getInstance(): SlaPolicyService {
+    if (!SlaPolicyService.instance) {
+      SlaPolicyService.instance = new SlaPolicyService();
+    }
+
+    return SlaPolicyService.instance;
+  }
+
+  /**
+   * Política atual (padrão enquanto nenhuma for salva)
+   */
+  async getPolicy(useCache = true): Promise<SlaPolicy> {
+    if (
+      useCache &&
+      this.cache &&
+      Date.now() - this.cache.timestamp < this.cacheTTL
+    ) {
+      return this.cache.data;
+    }
+
+    if (!isDatabaseConfigured()) {
+      return DEFAULT_SLA_POLICY;
+    }
+
+    try {
+      const setting = await prisma.slaPolicySetting.findUnique({
+        where: { id: POLICY_ID },
+      });
+      const policy = setting
+        ? this.mapPrismaToPolicy(setting)
+        : DEFAULT_SLA_POLICY;
+
+      this.cache = { data: policy, timestamp: Date.now() };
+
+      return policy;
+    } catch (error) {
+      console.error('❌ Erro ao carregar política de SLA:', error);
+
+      return this.cache?.data || DEFAULT_SLA_POLICY;
+    }
+  }
+
+  /**
+   * Salvar política (substitui a atual)
+   */
+  async savePolicy(policy: SlaPolicy): Promise<SlaPolicy> {
+    const data = {
+      name: policy.name,
+      atRiskThreshold: policy.atRiskThreshold,
+      businessHours: businessHoursToJson(policy.businessHours),
+      priorityTargets: slaTargetsToJson(policy.priorityTargets),
+      stageTargets: slaTargetsToJson(policy.stageTargets),
+      pauseStageIds: policy.pauseStageIds,
+    };
+
+    try {
+      await prisma.slaPolicySetting.upsert({
+        where: { id: POLICY_ID },
+        create: { id: POLICY_ID, ...data },
+        update: data,
+      });
+
+      this.invalidateCache();
+      console.log('✅ Política de SLA salva');
+
+      return this.getPolicy(false);
+    } catch (error) {
+      console.error('❌ Erro ao salvar política de SLA:', error);
+      throw new Error('Falha ao salvar política de SLA');
+    }
+  }
+
+  invalidateCache(): void {
+    this.cache = null;
+  }
+
+  // Métodos auxiliares de mapeamento
+  private mapPrismaToPolicy(setting: SlaPolicySetting): SlaPolicy {
+    return {
+      ...DEFAULT_SLA_POLICY,
+      name: setting.name,
+      atRiskThreshold: setting.atRiskThreshold,
+      businessHours: parseBusinessHours(setting.businessHours),
+      priorityTargets: parsePriorityTargets(setting.priorityTargets),
+      stageTargets: parseStageTargets(setting.stageTargets),
+      pauseStageIds: setting.pauseStageIds,
+      updatedAt: setting.updatedAt.toISOString(),
+    };
+  }
+}
+
+// Export da instância singleton
+export const slaPolicyService = SlaPolicyService.getInstance();
@@ -7,13 +7,9 @@
 // Local enum types aligned with Prisma schema (avoid circular deps and $Enums differences)
 export type ProjectStatus = 'A_FAZER' | 'EM_ANDAMENTO' | 'CONCLUIDO';
 export type ProjectPriority = 'LOW' | 'MEDIUM' | 'HIGH';
-export type Platform =
-  | 'N8N'
-  | 'JIRA'
-  | 'HUBSPOT'
-  | 'BACKOFFICE'
-  | 'GOOGLE_WORKSPACE';
-export type TeamMember = 'GUILHERME_SOUZA' | 'FELIPE_BRAAT' | 'TIAGO_TRIANI';
+// Plataformas e membros são nomes do catálogo (tabelas platforms/members)
+export type Platform = string;
+export type TeamMember = string;
 
 // MCP Types para integração real com Supabase
 interface MCPExecuteResult {
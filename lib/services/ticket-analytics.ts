@@ -0,0 +1,297 @@
+/**
+ * Ticket Analytics Service - Métricas agregadas no servidor
+ * Vazão, tempo até o fechamento (média, mediana e p90), idade do backlog e
+ * reaberturas calculados sobre a cópia local dos tickets (Ticket e
+ * TicketStageTransition)
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type { TicketPriority } from '@/types/ticket';
+import type {
+  ReopenedTicket,
+  TicketAnalytics,
+  TicketAnalyticsFilters,
+} from '@/types/ticket-analytics';
+
+import { DEFAULT_BUSINESS_HOURS } from '@/lib/config/sla';
+import {
+  getActivePipelineIds,
+  getClosedStageIds,
+} from '@/lib/config/ticket-settings';
+import { prisma } from '@/lib/database/prisma';
+import { ticketSettingsService } from '@/lib/services/ticket-settings';
+import { ticketStageHistoryService } from '@/lib/services/ticket-stage-history';
+import {
+  buildBacklogAge,
+  getPeriodStart,
+  getTimeToCloseHours,
+  listPeriods,
+  summarizeTimeToClose,
+} from '@/lib/utils/ticket-analytics';
+import { APIError } from '@/lib/utils/validation';
+
+const ENDPOINT = '/api/tickets/analytics';
+
+const isDatabaseConfigured = () => !!process.env.DATABASE_URL;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+const REOPENED_LIST_LIMIT = 20;
+
+const PRIORITIES: TicketPriority[] = ['URGENT', 'HIGH', 'MEDIUM', 'LOW'];
+
+// Períodos são agrupados no fuso do time N2
+const UTC_OFFSET_MINUTES = DEFAULT_BUSINESS_HOURS.utcOffsetMinutes;
+
+export class TicketAnalyticsService {
+  private static instance: TicketAnalyticsService;
+
+  static getInstance(): TicketAnalyticsService {
+    if (!TicketAnalyticsService.instance) {
+      TicketAnalyticsService.instance = new TicketAnalyticsService();
+    }
+
+    return TicketAnalyticsService.instance;
+  }
+
+  /**
+   * Métricas do período; o backlog é sempre o retrato atual
+   * Resolvido = closedAt no período; reaberto = saída de um estágio de
+   * encerramento registrada em TicketStageTransition
+   */
+  async getAnalytics(
+    filters: TicketAnalyticsFilters = {}
+  ): Promise<TicketAnalytics> {
+    if (!isDatabaseConfigured()) {
+      throw new APIError('DATABASE_URL não configurado', 503, ENDPOINT);
+    }
+
+    const { from, to } = this.resolveRange(filters);
+    const granularity = filters.granularity === 'week' ? 'week' : 'day';
+    const settings = await ticketSettingsService.getSettings();
+    const closedStageIds = getClosedStageIds(settings);
+    const ownerWhere = filters.ownerId
+      ? {
+          hubspotOwnerId:
+            filters.ownerId === 'unassigned' ? null : filters.ownerId,
+        }
+      : {};
+    const scope = {
+      deletedAt: null,
+      pipelineId: { in: getActivePipelineIds(settings) },
+      ...ownerWhere,
+    };
+    const range = { gte: from, lte: to };
+
+    const [created, resolved, open, reopenTransitions, stageDwell] =
+      await Promise.all([
+        prisma.ticket.findMany({
+          where: { ...scope, createdAt: range },
+          select: { createdAt: true },
+        }),
+        prisma.ticket.findMany({
+          where: { ...scope, closedAt: range },
+          select: {
+            createdAt: true,
+            closedAt: true,
+            priority: true,
+            hubspotOwnerId: true,
+          },
+        }),
+        prisma.ticket.findMany({
+          where: { ...scope, pipelineStageId: { notIn: closedStageIds } },
+          select: { createdAt: true },
+        }),
+        prisma.ticketStageTransition.findMany({
+          where: {
+            transitionedAt: range,
+            fromStageId: { in: closedStageIds },
+            toStageId: { notIn: closedStageIds },
+            ticket: scope,
+          },
+          select: {
+            transitionedAt: true,
+            ticket: {
+              select: { hubspotId: true, subject: true, hubspotOwnerId: true },
+            },
+          },
+        }),
+        ticketStageHistoryService.getStageDwellStats({
+          dateFrom: from.toISOString(),
+          dateTo: to.toISOString(),
+          ownerId: filters.ownerId,
+        }),
+      ]);
+
+    // Vazão por período
+    const throughput = new Map(
+      listPeriods(from, to, granularity, UTC_OFFSET_MINUTES).map(period => [
+        period,
+        { period, created: 0, resolved: 0 },
+      ])
+    );
+
+    for (const ticket of created) {
+      const point = throughput.get(
+        getPeriodStart(ticket.createdAt, granularity, UTC_OFFSET_MINUTES)
+      );
+
+      if (point) point.created++;
+    }
+
+    for (const ticket of resolved) {
+      if (!ticket.closedAt) continue;
+
+      const point = throughput.get(
+        getPeriodStart(ticket.closedAt, granularity, UTC_OFFSET_MINUTES)
+      );
+
+      if (point) point.resolved++;
+    }
+
+    // Tempo até o fechamento por prioridade e por técnico
+    const allHours: number[] = [];
+    const hoursByPriority = new Map<string, number[]>();
+    const hoursByOwner = new Map<string, number[]>();
+
+    for (const ticket of resolved) {
+      const hours = getTimeToCloseHours(ticket);
+
+      if (hours === null) continue;
+
+      const ownerId = ticket.hubspotOwnerId || 'unassigned';
+
+      allHours.push(hours);
+      hoursByPriority.set(ticket.priority, [
+        ...(hoursByPriority.get(ticket.priority) || []),
+        hours,
+      ]);
+      hoursByOwner.set(ownerId, [...(hoursByOwner.get(ownerId) || []), hours]);
+    }
+
+    const now = Date.now();
+    const overall = summarizeTimeToClose('all', allHours);
+    const reopened = this.groupReopened(reopenTransitions);
+
+    return {
+      range: {
+        dateFrom: from.toISOString(),
+        dateTo: to.toISOString(),
+        granularity,
+      },
+      totals: {
+        created: created.length,
+        resolved: resolved.length,
+        reopened: reopened.length,
+        backlog: open.length,
+        timeToClose: {
+          count: overall.count,
+          avgHours: overall.avgHours,
+          medianHours: overall.medianHours,
+          p90Hours: overall.p90Hours,
+        },
+      },
+      throughput: Array.from(throughput.values()),
+      timeToCloseByPriority: PRIORITIES.map(priority => ({
+        ...summarizeTimeToClose(priority, hoursByPriority.get(priority) || []),
+        key: priority,
+      })),
+      timeToCloseByOwner: Array.from(hoursByOwner.entries())
+        .map(([ownerId, hours]) => summarizeTimeToClose(ownerId, hours))
+        .sort((a, b) => b.count - a.count),
+      backlogAge: buildBacklogAge(
+        open.map(ticket => (now - ticket.createdAt.getTime()) / DAY_MS)
+      ),
+      reopened: reopened.slice(0, REOPENED_LIST_LIMIT),
+      stageDwell,
+      generatedAt: new Date().toISOString(),
+    };
+  }
+
+  // Métodos auxiliares
+  private resolveRange(filters: TicketAnalyticsFilters): {
+    from: Date;
+    to: Date;
+  } {
+    const to = filters.dateTo
+      ? this.parseRangeDate(filters.dateTo, true)
+      : new Date();
+    const from = filters.dateFrom
+      ? this.parseRangeDate(filters.dateFrom, false)
+      : new Date(to.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      throw new APIError('Período inválido', 400, ENDPOINT);
+    }
+
+    if (from.getTime() > to.getTime()) {
+      throw new APIError(
+        '"dateFrom" deve ser anterior a "dateTo"',
+        400,
+        ENDPOINT
+      );
+    }
+
+    if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+      throw new APIError(
+        `Período máximo de ${MAX_RANGE_DAYS} dias`,
+        400,
+        ENDPOINT
+      );
+    }
+
+    return { from, to };
+  }
+
+  // Datas sem horário (YYYY-MM-DD) cobrem o dia inteiro no fuso do time
+  private parseRangeDate(value: string, endOfDay: boolean): Date {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return new Date(value);
+
+    const dayStart =
+      new Date(`${value}T00:00:00Z`).getTime() - UTC_OFFSET_MINUTES * 60 * 1000;
+
+    return new Date(endOfDay ? dayStart + DAY_MS - 1 : dayStart);
+  }
+
+  private groupReopened(
+    transitions: Array<{
+      transitionedAt: Date;
+      ticket: {
+        hubspotId: string;
+        subject: string;
+        hubspotOwnerId: string | null;
+      };
+    }>
+  ): ReopenedTicket[] {
+    const byTicket = new Map<string, ReopenedTicket>();
+
+    for (const transition of transitions) {
+      const { ticket } = transition;
+      const entry = byTicket.get(ticket.hubspotId) || {
+        hubspotId: ticket.hubspotId,
+        subject: ticket.subject,
+        hubspotOwnerId: ticket.hubspotOwnerId || undefined,
+        reopenCount: 0,
+        lastReopenedAt: transition.transitionedAt.toISOString(),
+      };
+
+      entry.reopenCount++;
+      if (transition.transitionedAt.toISOString() > entry.lastReopenedAt) {
+        entry.lastReopenedAt = transition.transitionedAt.toISOString();
+      }
+      byTicket.set(ticket.hubspotId, entry);
+    }
+
+    return Array.from(byTicket.values()).sort(
+      (a, b) =>
+        b.reopenCount - a.reopenCount ||
+        b.lastReopenedAt.localeCompare(a.lastReopenedAt)
+    );
+  }
+}
+
+// Export da instância singleton
+export const ticketAnalyticsService = TicketAnalyticsService.getInstance();
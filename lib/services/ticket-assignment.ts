@@ -0,0 +1,442 @@
+/**
+ * Ticket Assignment Service - Atribuição automática de tickets
+ * Distribui tickets abertos sem responsável entre os técnicos autorizados,
+ * respeitando turnos e ausências, e grava o responsável no HubSpot
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type {
+  AssignmentSetting,
+  TechnicianAbsence as PrismaTechnicianAbsence,
+  TechnicianSchedule as PrismaTechnicianSchedule,
+} from '@prisma/client';
+import type { TicketSystemSettings } from '@/types/settings';
+import type {
+  AssignmentRunOptions,
+  AssignmentRunSummary,
+  AssignmentSettings,
+  AssignmentStrategy,
+  TechnicianAbsence,
+  TechnicianAbsenceType,
+  TechnicianAvailability,
+} from '@/types/assignment';
+import type { AssignmentCandidate } from '@/lib/utils/ticket-assignment';
+
+import { prisma } from '@/lib/database/prisma';
+import { hubspotApi } from '@/lib/services/hubspot-api';
+import { ticketSettingsService } from '@/lib/services/ticket-settings';
+import {
+  ASSIGNMENT_RUN_LIMIT,
+  DEFAULT_ASSIGNMENT_SETTINGS,
+  getDefaultSchedule,
+} from '@/lib/config/assignment';
+import {
+  getActivePipelineIds,
+  getActiveTechnicians,
+  getClosedStageIds,
+} from '@/lib/config/ticket-settings';
+import {
+  getTechnicianAvailability,
+  pickAssignee,
+} from '@/lib/utils/ticket-assignment';
+
+const isDatabaseConfigured = () => !!process.env.DATABASE_URL;
+
+const SETTINGS_ID = 'default';
+
+const emptySummary = (): AssignmentRunSummary => ({
+  evaluated: 0,
+  assigned: 0,
+  skipped: 0,
+  errors: 0,
+  items: [],
+});
+
+export class TicketAssignmentService {
+  private static instance: TicketAssignmentService;
+  private cache: { data: AssignmentSettings; timestamp: number } | null = null;
+  private readonly cacheTTL = 60 * 1000; // 1 minuto
+
+  static getInstance(): TicketAssignmentService {
+    if (!TicketAssignmentService.instance) {
+      TicketAssignmentService.instance = new TicketAssignmentService();
+    }
+
+    return TicketAssignmentService.instance;
+  }
+
+  /**
+   * Configurações de atribuição (ausências já encerradas ficam de fora)
+   */
+  async getSettings(useCache = true): Promise<AssignmentSettings> {
+    if (
+      useCache &&
+      this.cache &&
+      Date.now() - this.cache.timestamp < this.cacheTTL
+    ) {
+      return this.cache.data;
+    }
+
+    if (!isDatabaseConfigured()) {
+      return DEFAULT_ASSIGNMENT_SETTINGS;
+    }
+
+    try {
+      const [setting, schedules, absences] = await Promise.all([
+        prisma.assignmentSetting.findUnique({ where: { id: SETTINGS_ID } }),
+        prisma.technicianSchedule.findMany(),
+        prisma.technicianAbsence.findMany({
+          where: { endsAt: { gt: new Date() } },
+          orderBy: { startsAt: 'asc' },
+        }),
+      ]);
+
+      const settings = this.mapPrismaToSettings(setting, schedules, absences);
+
+      this.cache = { data: settings, timestamp: Date.now() };
+
+      return settings;
+    } catch (error) {
+      console.error('❌ Erro ao carregar configurações de atribuição:', error);
+
+      return this.cache?.data || DEFAULT_ASSIGNMENT_SETTINGS;
+    }
+  }
+
+  /**
+   * Salvar configurações (turnos e ausências substituem o estado atual)
+   */
+  async saveSettings(
+    settings: AssignmentSettings
+  ): Promise<AssignmentSettings> {
+    const keptAbsenceIds = settings.absences
+      .map(absence => absence.id)
+      .filter(Boolean);
+
+    try {
+      await prisma.$transaction([
+        prisma.assignmentSetting.upsert({
+          where: { id: SETTINGS_ID },
+          create: {
+            id: SETTINGS_ID,
+            strategy: settings.strategy,
+            autoAssign: settings.autoAssign,
+          },
+          update: {
+            strategy: settings.strategy,
+            autoAssign: settings.autoAssign,
+          },
+        }),
+        prisma.technicianSchedule.deleteMany({
+          where: {
+            technicianId: {
+              notIn: settings.schedules.map(schedule => schedule.technicianId),
+            },
+          },
+        }),
+        ...settings.schedules.map(schedule => {
+          const data = {
+            skills: schedule.skills,
+            workDays: schedule.workDays,
+            shiftStartHour: schedule.shiftStartHour,
+            shiftEndHour: schedule.shiftEndHour,
+          };
+
+          return prisma.technicianSchedule.upsert({
+            where: { technicianId: schedule.technicianId },
+            create: { technicianId: schedule.technicianId, ...data },
+            update: data,
+          });
+        }),
+        prisma.technicianAbsence.deleteMany({
+          where: { id: { notIn: keptAbsenceIds } },
+        }),
+        ...settings.absences.map(absence => {
+          const data = {
+            technicianId: absence.technicianId,
+            type: absence.type,
+            startsAt: new Date(absence.startsAt),
+            endsAt: new Date(absence.endsAt),
+            note: absence.note || null,
+          };
+
+          return absence.id
+            ? prisma.technicianAbsence.upsert({
+                where: { id: absence.id },
+                create: { id: absence.id, ...data },
+                update: data,
+              })
+            : prisma.technicianAbsence.create({ data });
+        }),
+      ]);
+
+      this.invalidateCache();
+      console.log('✅ Configurações de atribuição salvas');
+
+      return this.getSettings(false);
+    } catch (error) {
+      console.error('❌ Erro ao salvar configurações de atribuição:', error);
+      throw new Error('Falha ao salvar configurações de atribuição');
+    }
+  }
+
+  invalidateCache(): void {
+    this.cache = null;
+  }
+
+  /**
+   * Situação atual de cada técnico ativo: disponibilidade e carga aberta
+   */
+  async getAvailability(): Promise<TechnicianAvailability[]> {
+    const [settings, ticketSettings] = await Promise.all([
+      this.getSettings(),
+      ticketSettingsService.getSettings(),
+    ]);
+    const candidates = await this.buildCandidates(settings, ticketSettings);
+    const technicians = getActiveTechnicians(ticketSettings);
+
+    return candidates.map(candidate => ({
+      technicianId: candidate.technicianId,
+      name:
+        technicians.find(technician => technician.id === candidate.technicianId)
+          ?.name || candidate.technicianId,
+      available: candidate.available,
+      reason: candidate.reason,
+      openTickets: candidate.openTickets,
+      skills: candidate.schedule.skills,
+    }));
+  }
+
+  /**
+   * Atribuir tickets abertos sem responsável
+   * Sem IDs, considera todos os tickets sem responsável (fila acumulada fora
+   * do turno). Na chegada só roda com a atribuição automática ligada.
+   * Falhas ficam registradas no resumo e nunca derrubam o chamador
+   */
+  async assignTickets(
+    hubspotIds: string[] | undefined,
+    options: AssignmentRunOptions
+  ): Promise<AssignmentRunSummary> {
+    const summary = emptySummary();
+
+    if (!isDatabaseConfigured() || hubspotIds?.length === 0) return summary;
+
+    try {
+      const settings = await this.getSettings();
+
+      if (options.source !== 'manual' && !settings.autoAssign) return summary;
+
+      const ticketSettings = await ticketSettingsService.getSettings();
+      const tickets = await prisma.ticket.findMany({
+        where: {
+          ...this.buildOpenScope(ticketSettings),
+          OR: [{ hubspotOwnerId: null }, { hubspotOwnerId: '' }],
+          ...(hubspotIds ? { hubspotId: { in: hubspotIds } } : {}),
+        },
+        orderBy: { createdAt: 'asc' },
+        take: ASSIGNMENT_RUN_LIMIT,
+      });
+
+      if (tickets.length === 0) return summary;
+
+      const candidates = await this.buildCandidates(settings, ticketSettings);
+      const strategy: AssignmentStrategy =
+        options.strategy || settings.strategy;
+      let lastAssignedOwnerId = settings.lastAssignedOwnerId;
+
+      for (const ticket of tickets) {
+        summary.evaluated++;
+
+        const pick = pickAssignee(
+          {
+            subject: ticket.subject,
+            content: ticket.content || undefined,
+            category: ticket.category || undefined,
+          },
+          candidates,
+          strategy,
+          lastAssignedOwnerId
+        );
+
+        if (!pick) {
+          summary.skipped++;
+          summary.items.push({
+            hubspotId: ticket.hubspotId,
+            subject: ticket.subject,
+            reason: 'Nenhum técnico disponível',
+          });
+          continue;
+        }
+
+        try {
+          await hubspotApi.updateTicket(ticket.hubspotId, {
+            properties: { hubspot_owner_id: pick.technicianId },
+          });
+
+          // Cópia local já com o responsável: a próxima execução não repete
+          await prisma.ticket.update({
+            where: { id: ticket.id },
+            data: { hubspotOwnerId: pick.technicianId },
+          });
+        } catch (error) {
+          console.error(
+            `❌ Erro ao atribuir ticket ${ticket.hubspotId} a ${pick.technicianId}:`,
+            error
+          );
+          summary.errors++;
+          summary.items.push({
+            hubspotId: ticket.hubspotId,
+            subject: ticket.subject,
+            technicianId: pick.technicianId,
+            reason: pick.reason,
+            error: error instanceof Error ? error.message : 'Erro desconhecido',
+          });
+          continue;
+        }
+
+        const assignee = candidates.find(
+          candidate => candidate.technicianId === pick.technicianId
+        );
+
+        if (assignee) assignee.openTickets++;
+        lastAssignedOwnerId = pick.technicianId;
+        summary.assigned++;
+        summary.items.push({
+          hubspotId: ticket.hubspotId,
+          subject: ticket.subject,
+          technicianId: pick.technicianId,
+          reason: pick.reason,
+        });
+      }
+
+      if (lastAssignedOwnerId !== settings.lastAssignedOwnerId) {
+        await prisma.assignmentSetting.upsert({
+          where: { id: SETTINGS_ID },
+          create: {
+            id: SETTINGS_ID,
+            strategy: settings.strategy,
+            autoAssign: settings.autoAssign,
+            lastAssignedOwnerId,
+          },
+          update: { lastAssignedOwnerId },
+        });
+        this.invalidateCache();
+      }
+
+      console.log(`👥 Atribuição automática (${options.source}):`, {
+        strategy,
+        evaluated: summary.evaluated,
+        assigned: summary.assigned,
+        skipped: summary.skipped,
+        errors: summary.errors,
+      });
+    } catch (error) {
+      console.error('❌ Erro na atribuição automática:', error);
+      summary.errors++;
+    }
+
+    return summary;
+  }
+
+  // Métodos auxiliares
+  private buildOpenScope(ticketSettings: TicketSystemSettings) {
+    return {
+      deletedAt: null,
+      pipelineId: { in: getActivePipelineIds(ticketSettings) },
+      pipelineStageId: { notIn: getClosedStageIds(ticketSettings) },
+    };
+  }
+
+  /**
+   * Técnicos ativos na ordem das configurações, com turno, disponibilidade
+   * e quantidade de tickets abertos
+   */
+  private async buildCandidates(
+    settings: AssignmentSettings,
+    ticketSettings: TicketSystemSettings
+  ): Promise<Array<AssignmentCandidate & { reason?: string }>> {
+    const technicians = getActiveTechnicians(ticketSettings);
+    const openCounts = new Map<string, number>();
+
+    if (isDatabaseConfigured()) {
+      const groups = await prisma.ticket.groupBy({
+        by: ['hubspotOwnerId'],
+        where: {
+          ...this.buildOpenScope(ticketSettings),
+          hubspotOwnerId: { in: technicians.map(technician => technician.id) },
+        },
+        _count: { _all: true },
+      });
+
+      groups.forEach((group: any) =>
+        openCounts.set(group.hubspotOwnerId, group._count._all)
+      );
+    }
+
+    const now = new Date();
+
+    return technicians.map(technician => {
+      const schedule =
+        settings.schedules.find(item => item.technicianId === technician.id) ||
+        getDefaultSchedule(technician.id);
+      const availability = getTechnicianAvailability(
+        schedule,
+        settings.absences,
+        now
+      );
+
+      return {
+        technicianId: technician.id,
+        schedule,
+        openTickets: openCounts.get(technician.id) || 0,
+        available: availability.available,
+        reason: availability.reason,
+      };
+    });
+  }
+
+  // Métodos auxiliares de mapeamento
+  private mapPrismaToSettings(
+    setting: AssignmentSetting | null,
+    schedules: PrismaTechnicianSchedule[],
+    absences: PrismaTechnicianAbsence[]
+  ): AssignmentSettings {
+    const timestamps = [setting, ...schedules, ...absences]
+      .map(item => item?.updatedAt?.getTime?.() || 0)
+      .filter(Boolean);
+
+    return {
+      strategy:
+        (setting?.strategy as AssignmentStrategy) ||
+        DEFAULT_ASSIGNMENT_SETTINGS.strategy,
+      autoAssign: setting?.autoAssign ?? DEFAULT_ASSIGNMENT_SETTINGS.autoAssign,
+      // Técnicos sem turno salvo usam getDefaultSchedule
+      schedules: schedules.map(schedule => ({
+        technicianId: schedule.technicianId,
+        skills: schedule.skills || [],
+        workDays: schedule.workDays || [],
+        shiftStartHour: schedule.shiftStartHour,
+        shiftEndHour: schedule.shiftEndHour,
+      })),
+      absences: absences.map(
+        (absence): TechnicianAbsence => ({
+          id: absence.id,
+          technicianId: absence.technicianId,
+          type: absence.type as TechnicianAbsenceType,
+          startsAt: absence.startsAt.toISOString(),
+          endsAt: absence.endsAt.toISOString(),
+          note: absence.note || undefined,
+        })
+      ),
+      lastAssignedOwnerId: setting?.lastAssignedOwnerId || undefined,
+      updatedAt: timestamps.length
+        ? new Date(Math.max(...timestamps)).toISOString()
+        : undefined,
+    };
+  }
+}
+
+// Export da instância singleton
+export const ticketAssignmentService = TicketAssignmentService.getInstance();
@@ -6,21 +6,70 @@
  * @version 1.0.0
  */
 
+import type { Ticket as PrismaTicket, TicketSyncState } from '@prisma/client';
 import type {
   Ticket,
   CreateTicketData,
   UpdateTicketData,
   TicketFilters,
+  TicketTransitionSource,
+  HubSpotTicketData,
 } from '@/types/ticket';
+import type { HubSpotSearchFilter } from '@/lib/services/hubspot-api';
 
-import { PrismaClient } from '@prisma/client';
+import { $Enums, Prisma, PrismaClient } from '@prisma/client';
 
 import { transformHubSpotToLocal } from '@/types/ticket';
 import { hubspotApi } from '@/lib/services/hubspot-api';
+import { ticketSettingsService } from '@/lib/services/ticket-settings';
+import { ticketTriageService } from '@/lib/services/ticket-triage';
+import { ticketAssignmentService } from '@/lib/services/ticket-assignment';
+import {
+  getActivePipelineIds,
+  getSyncExcludedStageIds,
+} from '@/lib/config/ticket-settings';
 
 // Instância do Prisma (singleton)
 const prisma = new PrismaClient();
 
+// Tickets por transação na sincronização
+const SYNC_BATCH_SIZE = 50;
+
+export type TicketSyncMode = 'full' | 'incremental';
+
+export interface TicketSyncOptions {
+  mode?: TicketSyncMode;
+  // Detectar tickets excluídos/arquivados (lista os IDs do escopo no HubSpot)
+  reconcile?: boolean;
+}
+
+// Como a mudança de estágio chegou ao banco local
+export interface StageTransitionContext {
+  source: TicketTransitionSource;
+  transitionedAt?: Date; // Momento exato, quando conhecido (evento do webhook)
+  changedBy?: string;
+}
+
+export interface TicketSyncStats {
+  mode: TicketSyncMode;
+  synced: number;
+  created: number;
+  updated: number;
+  deleted: number;
+  errors: number;
+  triaged: number; // Tickets alterados pelas regras de triagem
+  assigned: number; // Tickets atribuídos automaticamente
+  pipelines: Array<{
+    pipelineId: string;
+    fetched: number;
+    created: number;
+    updated: number;
+    deleted: number;
+    errors: number;
+    watermark?: string;
+  }>;
+}
+
 export class TicketDatabaseService {
   private static instance: TicketDatabaseService;
 
@@ -34,143 +83,193 @@ export class TicketDatabaseService {
 
   /**
    * Sincronizar tickets do HubSpot para o banco local
+   *
+   * Modo incremental: busca por pipeline apenas os tickets modificados desde a
+   * marca d'água salva em TicketSyncState. Modo full: relê todos os tickets.
+   * Sem filtros customizados, tickets que sumiram do escopo são marcados como
+   * excluídos localmente.
    */
-  async syncFromHubSpot(_filters?: TicketFilters): Promise<{
-    synced: number;
-    created: number;
-    updated: number;
-    errors: number;
-  }> {
-    console.log('🔄 Sincronizando tickets do HubSpot para banco local...');
-
-    const stats = { synced: 0, created: 0, updated: 0, errors: 0 };
+  async syncFromHubSpot(
+    filters?: TicketFilters,
+    options: TicketSyncOptions = {}
+  ): Promise<TicketSyncStats> {
+    const mode = options.mode || 'incremental';
+    const reconcile = options.reconcile ?? true;
+    const customFilters = this.buildHubSpotFilters(filters);
+    // Sincronização parcial não move a marca d'água nem detecta exclusões
+    const isScoped = customFilters.length > 0;
+
+    console.log(
+      `🔄 Sincronizando tickets do HubSpot para banco local (${mode}${isScoped ? ', filtrado' : ''})...`
+    );
+
+    const stats: TicketSyncStats = {
+      mode,
+      synced: 0,
+      created: 0,
+      updated: 0,
+      deleted: 0,
+      errors: 0,
+      triaged: 0,
+      assigned: 0,
+      pipelines: [],
+    };
 
     try {
-      // Buscar todos os tickets do HubSpot (usando os filtros padrão do sistema)
-      const hubspotResponse = await hubspotApi.getTickets();
-
-      console.log(
-        `📥 ${hubspotResponse.results.length} tickets encontrados no HubSpot`
-      );
+      const settings = await ticketSettingsService.getSettings();
+      const excludedStageIds = getSyncExcludedStageIds(settings);
+
+      for (const pipelineId of getActivePipelineIds(settings)) {
+        const pipelineStats = {
+          pipelineId,
+          fetched: 0,
+          created: 0,
+          updated: 0,
+          deleted: 0,
+          errors: 0,
+          watermark: undefined as string | undefined,
+        };
+
+        const state = await prisma.ticketSyncState.findUnique({
+          where: { pipelineId },
+        });
+        const since: Date | null =
+          mode === 'incremental' ? state?.lastModifiedAt || null : null;
+
+        // Escopo do sistema: pipeline ativa sem stages fora da sincronização
+        const scopeFilters: HubSpotSearchFilter[] = [
+          { propertyName: 'hs_pipeline', operator: 'EQ', value: pipelineId },
+        ];
+
+        if (excludedStageIds.length > 0) {
+          scopeFilters.push({
+            propertyName: 'hs_pipeline_stage',
+            operator: 'NOT_IN',
+            values: excludedStageIds,
+          });
+        }
 
-      // Processar cada ticket
-      for (const hubspotTicket of hubspotResponse.results) {
-        try {
-          const localTicket = transformHubSpotToLocal(hubspotTicket);
+        const hubspotTickets = await hubspotApi.searchAllTickets([
+          ...scopeFilters,
+          ...customFilters,
+          ...(since
+            ? [
+                {
+                  propertyName: 'hs_lastmodifieddate',
+                  operator: 'GTE' as const,
+                  value: String(since.getTime()),
+                },
+              ]
+            : []),
+        ]);
+
+        pipelineStats.fetched = hubspotTickets.length;
+        console.log(
+          `📥 Pipeline ${pipelineId}: ${hubspotTickets.length} ticket(s) ${since ? `modificados desde ${since.toISOString()}` : 'encontrados'}`
+        );
+
+        // Upserts em lotes transacionais
+        for (
+          let index = 0;
+          index < hubspotTickets.length;
+          index += SYNC_BATCH_SIZE
+        ) {
+          const batchStats = await this.applyHubSpotBatch(
+            hubspotTickets.slice(index, index + SYNC_BATCH_SIZE),
+            'hubspot'
+          );
 
-          // Verificar se o ticket já existe no banco local
-          const existingTicket = await prisma.ticket.findUnique({
-            where: { hubspotId: localTicket.hubspotId },
-          });
+          pipelineStats.created += batchStats.created;
+          pipelineStats.updated += batchStats.updated;
+          pipelineStats.errors += batchStats.errors;
+        }
 
-          if (existingTicket) {
-            // Atualizar ticket existente
-            await prisma.ticket.update({
-              where: { id: existingTicket.id },
-              data: {
-                subject: localTicket.subject,
-                content: localTicket.content,
-                priority: localTicket.priority,
-                status: this.mapStatusToPrisma(localTicket.status),
-                category: localTicket.category,
-                pipelineId: localTicket.pipelineId,
-                pipelineStageId: localTicket.pipelineStageId,
-                hubspotOwnerId: localTicket.hubspotOwnerId,
-                sourceType: localTicket.sourceType,
-                tags: localTicket.tags || [],
-                updatedAt: new Date(localTicket.updatedAt),
-                closedAt: localTicket.closedAt
-                  ? new Date(localTicket.closedAt)
-                  : null,
-                hubspotUpdatedAt: localTicket.hubspotUpdatedAt
-                  ? new Date(localTicket.hubspotUpdatedAt)
-                  : null,
-              },
-            });
-
-            stats.updated++;
-            console.log(`✅ Ticket atualizado: ${localTicket.subject}`);
-          } else {
-            // Criar novo ticket
-            await prisma.ticket.create({
-              data: {
-                hubspotId: localTicket.hubspotId,
-                subject: localTicket.subject,
-                content: localTicket.content,
-                priority: localTicket.priority,
-                status: this.mapStatusToPrisma(localTicket.status),
-                category: localTicket.category,
-                pipelineId: localTicket.pipelineId,
-                pipelineStageId: localTicket.pipelineStageId,
-                hubspotOwnerId: localTicket.hubspotOwnerId,
-                sourceType: localTicket.sourceType,
-                tags: localTicket.tags || [],
-                createdAt: new Date(localTicket.createdAt),
-                updatedAt: new Date(localTicket.updatedAt),
-                closedAt: localTicket.closedAt
-                  ? new Date(localTicket.closedAt)
-                  : null,
-                hubspotCreatedAt: localTicket.hubspotCreatedAt
-                  ? new Date(localTicket.hubspotCreatedAt)
-                  : null,
-                hubspotUpdatedAt: localTicket.hubspotUpdatedAt
-                  ? new Date(localTicket.hubspotUpdatedAt)
-                  : null,
-              },
-            });
-
-            stats.created++;
-            console.log(`✅ Ticket criado: ${localTicket.subject}`);
+        // Tickets que chegaram na Triagem N2 passam pelas regras
+        const triage = await ticketTriageService.triageTickets(
+          hubspotTickets.map(ticket => ticket.id),
+          { source: 'sync' }
+        );
+
+        stats.triaged += triage.applied;
+
+        if (!isScoped) {
+          if (reconcile) {
+            // Incremental não vê todos os tickets: listar apenas os IDs do escopo
+            const inScopeIds = new Set(
+              (mode === 'full'
+                ? hubspotTickets
+                : await hubspotApi.searchAllTickets(scopeFilters, [
+                    'hs_object_id',
+                  ])
+              ).map(ticket => ticket.id)
+            );
+
+            pipelineStats.deleted = await this.detectRemovedTickets(
+              pipelineId,
+              inScopeIds
+            );
           }
 
-          // Registrar histórico de sincronização
-          await prisma.ticketSyncHistory.create({
-            data: {
-              ticketId: existingTicket?.id,
-              action: 'SYNCED',
-              source: 'hubspot',
-              details: {
-                hubspotId: localTicket.hubspotId,
-                operation: existingTicket ? 'update' : 'create',
-              },
-              success: true,
+          // Avançar marca d'água apenas se o lote inteiro foi aplicado
+          const latestModifiedAt = this.getLatestModifiedAt(hubspotTickets);
+          const watermark =
+            pipelineStats.errors > 0
+              ? state?.lastModifiedAt || null
+              : [state?.lastModifiedAt, latestModifiedAt]
+                  .filter((date): date is Date => !!date)
+                  .sort((a, b) => b.getTime() - a.getTime())[0] || null;
+          const now = new Date();
+          const stateData = {
+            lastModifiedAt: watermark,
+            lastRunAt: now,
+            lastMode: mode,
+            lastStats: {
+              fetched: pipelineStats.fetched,
+              created: pipelineStats.created,
+              updated: pipelineStats.updated,
+              deleted: pipelineStats.deleted,
+              errors: pipelineStats.errors,
             },
+            ...(mode === 'full' && pipelineStats.errors === 0
+              ? { lastFullSyncAt: now }
+              : {}),
+          };
+
+          await prisma.ticketSyncState.upsert({
+            where: { pipelineId },
+            create: { pipelineId, ...stateData },
+            update: stateData,
           });
 
-          stats.synced++;
-        } catch (error) {
-          console.error(
-            `❌ Erro ao processar ticket ${hubspotTicket.id}:`,
-            error
-          );
-
-          // Registrar erro no histórico (sem ticketId, pois não foi criado)
-          try {
-            await prisma.ticketSyncHistory.create({
-              data: {
-                action: 'ERROR',
-                source: 'hubspot',
-                details: {
-                  hubspotId: hubspotTicket.id,
-                  error:
-                    error instanceof Error
-                      ? error.message
-                      : 'Erro desconhecido',
-                },
-                success: false,
-                errorMessage:
-                  error instanceof Error ? error.message : 'Erro desconhecido',
-              },
-            });
-          } catch (historyError) {
-            console.warn('⚠️ Erro ao registrar histórico:', historyError);
-          }
-
-          stats.errors++;
+          pipelineStats.watermark = watermark?.toISOString();
         }
+
+        stats.created += pipelineStats.created;
+        stats.updated += pipelineStats.updated;
+        stats.deleted += pipelineStats.deleted;
+        stats.errors += pipelineStats.errors;
+        stats.synced += pipelineStats.created + pipelineStats.updated;
+        stats.pipelines.push(pipelineStats);
       }
 
-      console.log(`🎯 Sincronização concluída:`, stats);
+      // Fila sem responsável (inclusive a acumulada fora do turno)
+      const assignment = await ticketAssignmentService.assignTickets(
+        undefined,
+        { source: 'sync' }
+      );
+
+      stats.assigned = assignment.assigned;
+
+      console.log(`🎯 Sincronização concluída:`, {
+        mode: stats.mode,
+        synced: stats.synced,
+        created: stats.created,
+        updated: stats.updated,
+        deleted: stats.deleted,
+        errors: stats.errors,
+        triaged: stats.triaged,
+        assigned: stats.assigned,
+      });
 
       return stats;
     } catch (error) {
@@ -179,6 +278,173 @@ export class TicketDatabaseService {
     }
   }
 
+  /**
+   * Estado da sincronização incremental por pipeline
+   */
+  async getSyncStates(): Promise<
+    Array<{
+      pipelineId: string;
+      lastModifiedAt?: string;
+      lastRunAt?: string;
+      lastFullSyncAt?: string;
+      lastMode?: string;
+      lastStats?: Record<string, number>;
+    }>
+  > {
+    const states = await prisma.ticketSyncState.findMany({
+      orderBy: { pipelineId: 'asc' },
+    });
+
+    return states.map((state: TicketSyncState) => ({
+      pipelineId: state.pipelineId,
+      lastModifiedAt: state.lastModifiedAt?.toISOString(),
+      lastRunAt: state.lastRunAt?.toISOString(),
+      lastFullSyncAt: state.lastFullSyncAt?.toISOString(),
+      lastMode: state.lastMode || undefined,
+      lastStats: this.parseSyncStats(state.lastStats),
+    }));
+  }
+
+  /**
+   * Inserir ou atualizar ticket do HubSpot no banco local
+   */
+  async upsertFromHubSpot(
+    hubspotTicket: HubSpotTicketData,
+    transition: StageTransitionContext = { source: 'sync' }
+  ): Promise<{
+    ticket: Ticket;
+    operation: 'create' | 'update';
+  }> {
+    const localTicket = transformHubSpotToLocal(
+      hubspotTicket,
+      await ticketSettingsService.getSettings()
+    );
+    const { data, createData } = this.buildTicketData(localTicket);
+
+    // Verificar se o ticket já existe no banco local
+    const existingTicket = await prisma.ticket.findUnique({
+      where: { hubspotId: localTicket.hubspotId },
+    });
+
+    if (existingTicket) {
+      const prismaTicket = await prisma.ticket.update({
+        where: { id: existingTicket.id },
+        data: {
+          ...data,
+          ...this.buildStageTransition(
+            localTicket,
+            existingTicket.pipelineStageId,
+            transition
+          ),
+        },
+      });
+
+      return {
+        ticket: this.mapPrismaToLocal(prismaTicket),
+        operation: 'update',
+      };
+    }
+
+    const prismaTicket = await prisma.ticket.create({
+      data: {
+        ...data,
+        ...createData,
+        ...this.buildStageTransition(localTicket, null, transition),
+      },
+    });
+
+    return { ticket: this.mapPrismaToLocal(prismaTicket), operation: 'create' };
+  }
+
+  /**
+   * Marcar tickets como excluídos localmente (excluídos/arquivados no HubSpot)
+   */
+  async markTicketsDeleted(hubspotIds: string[]): Promise<number> {
+    if (hubspotIds.length === 0) return 0;
+
+    const result = await prisma.ticket.updateMany({
+      where: { hubspotId: { in: hubspotIds }, deletedAt: null },
+      data: { deletedAt: new Date() },
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Aplicar na cópia local técnico, prioridade e tags já gravados no HubSpot
+   * O estágio passa por ticketStageHistoryService.recordTransition
+   */
+  async applyLocalChanges(
+    hubspotId: string,
+    changes: Pick<Partial<Ticket>, 'hubspotOwnerId' | 'priority' | 'tags'>
+  ): Promise<boolean> {
+    if (!process.env.DATABASE_URL) return false;
+
+    const data: Prisma.TicketUpdateManyMutationInput = {
+      ...('hubspotOwnerId' in changes
+        ? { hubspotOwnerId: changes.hubspotOwnerId || null }
+        : {}),
+      ...(changes.priority ? { priority: changes.priority } : {}),
+      ...(changes.tags ? { tags: changes.tags } : {}),
+    };
+
+    if (Object.keys(data).length === 0) return false;
+
+    try {
+      const result = await prisma.ticket.updateMany({
+        where: { hubspotId, deletedAt: null },
+        data,
+      });
+
+      return result.count > 0;
+    } catch (error) {
+      console.warn(
+        `⚠️ Falha ao atualizar a cópia local do ticket ${hubspotId}:`,
+        error instanceof Error ? error.message : error
+      );
+
+      return false;
+    }
+  }
+
+  /**
+   * Buscar ticket local pelo ID do HubSpot
+   */
+  async getLocalTicketByHubSpotId(hubspotId: string): Promise<Ticket | null> {
+    const prismaTicket = await prisma.ticket.findUnique({
+      where: { hubspotId },
+    });
+
+    return prismaTicket ? this.mapPrismaToLocal(prismaTicket) : null;
+  }
+
+  /**
+   * Registrar entrada no histórico de sincronização
+   * Falhas no histórico não interrompem o fluxo principal
+   */
+  async recordSyncHistory(entry: {
+    ticketId?: string;
+    action: 'CREATED' | 'UPDATED' | 'DELETED' | 'SYNCED' | 'ERROR';
+    source: string;
+    details?: Prisma.InputJsonValue;
+    errorMessage?: string;
+  }): Promise<void> {
+    try {
+      await prisma.ticketSyncHistory.create({
+        data: {
+          ticketId: entry.ticketId,
+          action: entry.action,
+          source: entry.source,
+          details: entry.details,
+          success: entry.action !== 'ERROR',
+          errorMessage: entry.errorMessage,
+        },
+      });
+    } catch (historyError) {
+      console.warn('⚠️ Erro ao registrar histórico:', historyError);
+    }
+  }
+
   /**
    * Buscar tickets do banco local com filtros
    */
@@ -188,7 +454,8 @@ export class TicketDatabaseService {
       throw new Error('DATABASE_URL não configurado');
     }
 
-    const where: any = {};
+    // Tickets excluídos no HubSpot permanecem apenas para histórico
+    const where: Prisma.TicketWhereInput = { deletedAt: null };
 
     // Aplicar filtros
     if (filters?.status && typeof filters.status === 'string') {
@@ -200,11 +467,18 @@ export class TicketDatabaseService {
     }
 
     if (filters?.ownerId) {
-      where.hubspotOwnerId = filters.ownerId;
+      where.hubspotOwnerId =
+        filters.ownerId === 'unassigned'
+          ? null
+          : Array.isArray(filters.ownerId)
+            ? { in: filters.ownerId }
+            : filters.ownerId;
     }
 
     if (filters?.pipelineStageId) {
-      where.pipelineStageId = filters.pipelineStageId;
+      where.pipelineStageId = Array.isArray(filters.pipelineStageId)
+        ? { in: filters.pipelineStageId }
+        : filters.pipelineStageId;
     }
 
     if (filters?.category) {
@@ -218,26 +492,33 @@ export class TicketDatabaseService {
       ];
     }
 
-    if (filters?.dateFrom) {
-      where.createdAt = { gte: new Date(filters.dateFrom) };
-    }
-
-    if (filters?.dateTo) {
-      if (where.createdAt) {
-        where.createdAt.lte = new Date(filters.dateTo);
-      } else {
-        where.createdAt = { lte: new Date(filters.dateTo) };
-      }
+    if (filters?.dateFrom || filters?.dateTo) {
+      where.createdAt = {
+        ...(filters.dateFrom && { gte: new Date(filters.dateFrom) }),
+        ...(filters.dateTo && { lte: new Date(filters.dateTo) }),
+      };
     }
 
     // Buscar tickets no banco
     const prismaTickets = await prisma.ticket.findMany({
       where,
+      include: {
+        stageTransitions: {
+          select: { toStageId: true, transitionedAt: true },
+          orderBy: { transitionedAt: 'asc' },
+        },
+      },
       orderBy: { updatedAt: 'desc' },
     });
 
-    // Transformar para formato da aplicação
-    return prismaTickets.map(this.mapPrismaToLocal);
+    // Transformar para formato da aplicação (histórico usado nas pausas do SLA)
+    return prismaTickets.map(({ stageTransitions, ...prismaTicket }) => ({
+      ...this.mapPrismaToLocal(prismaTicket),
+      stageHistory: stageTransitions.map(transition => ({
+        stageId: transition.toStageId,
+        enteredAt: transition.transitionedAt.toISOString(),
+      })),
+    }));
   }
 
   /**
@@ -263,7 +544,10 @@ export class TicketDatabaseService {
       });
 
       // Transformar dados do HubSpot
-      const localTicket = transformHubSpotToLocal(hubspotTicket);
+      const localTicket = transformHubSpotToLocal(
+        hubspotTicket,
+        await ticketSettingsService.getSettings()
+      );
 
       // Salvar no banco local
       const prismaTicket = await prisma.ticket.create({
@@ -287,6 +571,9 @@ export class TicketDatabaseService {
           hubspotUpdatedAt: localTicket.hubspotUpdatedAt
             ? new Date(localTicket.hubspotUpdatedAt)
             : null,
+          ...this.buildStageTransition(localTicket, null, {
+            source: 'dashboard',
+          }),
         },
       });
 
@@ -487,42 +774,341 @@ export class TicketDatabaseService {
     }
   }
 
+  // Métodos auxiliares de sincronização
+  private async applyHubSpotBatch(
+    hubspotTickets: HubSpotTicketData[],
+    source: string
+  ): Promise<{ created: number; updated: number; errors: number }> {
+    const settings = await ticketSettingsService.getSettings();
+    const localTickets = hubspotTickets.map(hubspotTicket =>
+      transformHubSpotToLocal(hubspotTicket, settings)
+    );
+    const existingTickets = await prisma.ticket.findMany({
+      where: {
+        hubspotId: { in: localTickets.map(ticket => ticket.hubspotId) },
+      },
+      select: { id: true, hubspotId: true, pipelineStageId: true },
+    });
+    const existingById = new Map<
+      string,
+      { id: string; pipelineStageId: string }
+    >(existingTickets.map(ticket => [ticket.hubspotId, ticket]));
+
+    const operations = localTickets.map(localTicket => {
+      const { data, createData } = this.buildTicketData(localTicket);
+      const existing = existingById.get(localTicket.hubspotId);
+      const existingId = existing?.id;
+      const stageTransition = this.buildStageTransition(
+        localTicket,
+        existing ? existing.pipelineStageId : null,
+        { source: 'sync' }
+      );
+      const ticketSyncHistory = {
+        create: {
+          action: $Enums.SyncAction.SYNCED,
+          source,
+          details: {
+            hubspotId: localTicket.hubspotId,
+            operation: existingId ? 'update' : 'create',
+          },
+          success: true,
+        },
+      };
+
+      return existingId
+        ? prisma.ticket.update({
+            where: { id: existingId },
+            data: { ...data, ...stageTransition, ticketSyncHistory },
+          })
+        : prisma.ticket.create({
+            data: {
+              ...data,
+              ...createData,
+              ...stageTransition,
+              ticketSyncHistory,
+            },
+          });
+    });
+
+    try {
+      await prisma.$transaction(operations);
+
+      return {
+        created: localTickets.length - existingById.size,
+        updated: existingById.size,
+        errors: 0,
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Erro desconhecido';
+
+      console.error(
+        `❌ Erro ao aplicar lote de ${localTickets.length} ticket(s):`,
+        error
+      );
+
+      await this.recordSyncHistory({
+        action: 'ERROR',
+        source,
+        details: {
+          operation: 'batch',
+          hubspotIds: localTickets.map(ticket => ticket.hubspotId),
+          error: errorMessage,
+        },
+        errorMessage,
+      });
+
+      return { created: 0, updated: 0, errors: localTickets.length };
+    }
+  }
+
+  // Tickets locais ativos da pipeline que não estão mais no escopo do HubSpot
+  private async detectRemovedTickets(
+    pipelineId: string,
+    inScopeIds: Set<string>
+  ): Promise<number> {
+    const localTickets = await prisma.ticket.findMany({
+      where: { pipelineId, deletedAt: null },
+      select: { id: true, hubspotId: true },
+    });
+    const missingTickets = localTickets.filter(
+      ticket => !inScopeIds.has(ticket.hubspotId)
+    );
+
+    if (missingTickets.length === 0) return 0;
+
+    // Batch read omite tickets excluídos ou arquivados
+    const stillExisting = new Set(
+      (
+        await hubspotApi.getTicketsByIds(
+          missingTickets.map(ticket => ticket.hubspotId),
+          ['hs_pipeline', 'hs_pipeline_stage']
+        )
+      ).map(ticket => ticket.id)
+    );
+
+    const deletedAt = new Date();
+
+    await prisma.$transaction([
+      prisma.ticket.updateMany({
+        where: {
+          id: { in: missingTickets.map(ticket => ticket.id) },
+        },
+        data: { deletedAt },
+      }),
+      ...missingTickets.map(ticket =>
+        prisma.ticketSyncHistory.create({
+          data: {
+            ticketId: ticket.id,
+            action: 'DELETED',
+            source: 'hubspot',
+            details: {
+              hubspotId: ticket.hubspotId,
+              reason: stillExisting.has(ticket.hubspotId)
+                ? 'out_of_scope'
+                : 'archived_or_deleted',
+            },
+            success: true,
+          },
+        })
+      ),
+    ]);
+
+    console.log(
+      `🗑️ Pipeline ${pipelineId}: ${missingTickets.length} ticket(s) marcados como excluídos`
+    );
+
+    return missingTickets.length;
+  }
+
+  private getLatestModifiedAt(hubspotTickets: HubSpotTicketData[]) {
+    const timestamps = hubspotTickets
+      .map(ticket =>
+        new Date(
+          ticket.properties.hs_lastmodifieddate || ticket.updatedAt
+        ).getTime()
+      )
+      .filter(timestamp => Number.isFinite(timestamp));
+
+    return timestamps.length > 0 ? new Date(Math.max(...timestamps)) : null;
+  }
+
+  // Converter filtros da aplicação em filtros da Search API
+  private buildHubSpotFilters(filters?: TicketFilters): HubSpotSearchFilter[] {
+    const hubspotFilters: HubSpotSearchFilter[] = [];
+
+    if (!filters) return hubspotFilters;
+
+    // Valores múltiplos viram IN, valor único vira EQ
+    const matchFilter = (
+      propertyName: string,
+      value: string | string[]
+    ): HubSpotSearchFilter =>
+      Array.isArray(value)
+        ? { propertyName, operator: 'IN', values: value }
+        : { propertyName, operator: 'EQ', value };
+
+    if (filters.priority) {
+      hubspotFilters.push(matchFilter('hs_ticket_priority', filters.priority));
+    }
+
+    if (filters.ownerId) {
+      hubspotFilters.push(
+        filters.ownerId === 'unassigned'
+          ? { propertyName: 'hubspot_owner_id', operator: 'NOT_HAS_PROPERTY' }
+          : matchFilter('hubspot_owner_id', filters.ownerId)
+      );
+    }
+
+    if (filters.pipelineStageId) {
+      hubspotFilters.push(
+        matchFilter('hs_pipeline_stage', filters.pipelineStageId)
+      );
+    }
+
+    if (filters.category) {
+      hubspotFilters.push({
+        propertyName: 'hs_ticket_category',
+        operator: 'EQ',
+        value: filters.category,
+      });
+    }
+
+    if (filters.dateFrom) {
+      hubspotFilters.push({
+        propertyName: 'createdate',
+        operator: 'GTE',
+        value: String(new Date(filters.dateFrom).getTime()),
+      });
+    }
+
+    if (filters.dateTo) {
+      hubspotFilters.push({
+        propertyName: 'createdate',
+        operator: 'LTE',
+        value: String(new Date(filters.dateTo).getTime()),
+      });
+    }
+
+    return hubspotFilters;
+  }
+
+  private buildTicketData(localTicket: Ticket) {
+    const data = {
+      subject: localTicket.subject,
+      content: localTicket.content,
+      priority: localTicket.priority,
+      status: this.mapStatusToPrisma(localTicket.status),
+      category: localTicket.category,
+      pipelineId: localTicket.pipelineId,
+      pipelineStageId: localTicket.pipelineStageId,
+      hubspotOwnerId: localTicket.hubspotOwnerId,
+      sourceType: localTicket.sourceType,
+      tags: localTicket.tags || [],
+      updatedAt: new Date(localTicket.updatedAt),
+      closedAt: localTicket.closedAt ? new Date(localTicket.closedAt) : null,
+      firstResponseAt: localTicket.firstResponseAt
+        ? new Date(localTicket.firstResponseAt)
+        : null,
+      hubspotUpdatedAt: localTicket.hubspotUpdatedAt
+        ? new Date(localTicket.hubspotUpdatedAt)
+        : null,
+      // Ticket voltou ao escopo: restaurar
+      deletedAt: null,
+    };
+    const createData = {
+      hubspotId: localTicket.hubspotId,
+      createdAt: new Date(localTicket.createdAt),
+      hubspotCreatedAt: localTicket.hubspotCreatedAt
+        ? new Date(localTicket.hubspotCreatedAt)
+        : null,
+    };
+
+    return { data, createData };
+  }
+
+  /**
+   * Transição a gravar junto com o ticket (nested create)
+   * Criação registra a entrada no estágio atual; atualização só se o estágio mudou.
+   * Sem o momento exato, usa hs_lastmodifieddate; o backfill corrige com o
+   * histórico do HubSpot
+   */
+  private buildStageTransition(
+    localTicket: Ticket,
+    previousStageId: string | null,
+    context: StageTransitionContext
+  ) {
+    if (previousStageId === localTicket.pipelineStageId) return {};
+
+    const transitionedAt = previousStageId
+      ? context.transitionedAt || new Date(localTicket.updatedAt)
+      : new Date(localTicket.createdAt);
+
+    return {
+      stageTransitions: {
+        create: {
+          fromStageId: previousStageId,
+          toStageId: localTicket.pipelineStageId,
+          transitionedAt,
+          source: context.source,
+          changedBy: context.changedBy || null,
+        },
+      },
+    };
+  }
+
   // Métodos auxiliares de mapeamento
-  private mapStatusToPrisma(status: string) {
+  private mapStatusToPrisma(status: string): $Enums.TicketStatus {
     // Mapear para enum correto do Prisma
     switch (status?.toUpperCase()) {
       case 'NEW':
-        return 'NEW';
+        return $Enums.TicketStatus.NEW;
       case 'OPEN':
-        return 'OPEN';
+        return $Enums.TicketStatus.OPEN;
       case 'WAITING':
-        return 'WAITING';
+        return $Enums.TicketStatus.WAITING;
       case 'CLOSED':
-        return 'CLOSED';
+        return $Enums.TicketStatus.CLOSED;
       case 'RESOLVED':
-        return 'RESOLVED';
+        return $Enums.TicketStatus.RESOLVED;
       default:
-        return 'OPEN'; // Default seguro
+        return $Enums.TicketStatus.OPEN; // Default seguro
     }
   }
 
-  private mapPrismaToLocal(prismaTicket: any): Ticket {
+  // Contadores da última execução (JSON livre no banco)
+  private parseSyncStats(
+    value: Prisma.JsonValue
+  ): Record<string, number> | undefined {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return undefined;
+    }
+
+    return Object.fromEntries(
+      Object.entries(value).filter(
+        (entry): entry is [string, number] => typeof entry[1] === 'number'
+      )
+    );
+  }
+
+  private mapPrismaToLocal(prismaTicket: PrismaTicket): Ticket {
     return {
       id: prismaTicket.id,
       hubspotId: prismaTicket.hubspotId,
       subject: prismaTicket.subject,
-      content: prismaTicket.content,
+      content: prismaTicket.content || undefined,
       priority: prismaTicket.priority,
       status: prismaTicket.status,
-      category: prismaTicket.category,
+      category: prismaTicket.category || undefined,
       pipelineId: prismaTicket.pipelineId,
       pipelineStageId: prismaTicket.pipelineStageId,
-      hubspotOwnerId: prismaTicket.hubspotOwnerId,
-      sourceType: prismaTicket.sourceType,
+      hubspotOwnerId: prismaTicket.hubspotOwnerId || undefined,
+      sourceType: prismaTicket.sourceType || undefined,
       tags: prismaTicket.tags || [],
       createdAt: prismaTicket.createdAt.toISOString(),
       updatedAt: prismaTicket.updatedAt.toISOString(),
       closedAt: prismaTicket.closedAt?.toISOString(),
+      firstResponseAt: prismaTicket.firstResponseAt?.toISOString(),
       hubspotCreatedAt: prismaTicket.hubspotCreatedAt?.toISOString(),
       hubspotUpdatedAt: prismaTicket.hubspotUpdatedAt?.toISOString(),
     };
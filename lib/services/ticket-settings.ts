@@ -0,0 +1,223 @@
+/**
+ * Ticket Settings Service - Configurações gerenciadas do sistema de tickets
+ * Pipelines, estágios e técnicos persistidos no Prisma com cache em memória
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type {
+  PipelineSetting,
+  TechnicianSetting,
+  TicketSystemSettings,
+} from '@/types/settings';
+
+import { prisma } from '@/lib/database/prisma';
+import { DEFAULT_TICKET_SETTINGS } from '@/lib/config/ticket-settings';
+import { STAGE_ROLES } from '@/types/settings';
+
+export class TicketSettingsService {
+  private static instance: TicketSettingsService;
+  private cache: { data: TicketSystemSettings; timestamp: number } | null =
+    null;
+  private readonly cacheTTL = 60 * 1000; // 1 minuto
+
+  static getInstance(): TicketSettingsService {
+    if (!TicketSettingsService.instance) {
+      TicketSettingsService.instance = new TicketSettingsService();
+    }
+
+    return TicketSettingsService.instance;
+  }
+
+  /**
+   * Buscar configurações (banco → seed padrão → fallback em memória)
+   */
+  async getSettings(useCache = true): Promise<TicketSystemSettings> {
+    if (
+      useCache &&
+      this.cache &&
+      Date.now() - this.cache.timestamp < this.cacheTTL
+    ) {
+      return this.cache.data;
+    }
+
+    if (!process.env.DATABASE_URL) {
+      console.warn(
+        '⚠️ DATABASE_URL não configurado, usando configurações padrão'
+      );
+
+      return DEFAULT_TICKET_SETTINGS;
+    }
+
+    try {
+      const [pipelines, technicians] = await Promise.all([
+        prisma.ticketPipelineSetting.findMany({
+          include: { stages: { orderBy: { displayOrder: 'asc' } } },
+          orderBy: { createdAt: 'asc' },
+        }),
+        prisma.technicianSetting.findMany({
+          orderBy: { displayOrder: 'asc' },
+        }),
+      ]);
+
+      // Primeira execução: popular o banco com a configuração histórica
+      if (pipelines.length === 0 && technicians.length === 0) {
+        console.log('🌱 Populando configurações de tickets com valores padrão');
+
+        return this.saveSettings(DEFAULT_TICKET_SETTINGS);
+      }
+
+      const settings = this.mapPrismaToSettings(pipelines, technicians);
+
+      this.cache = { data: settings, timestamp: Date.now() };
+
+      return settings;
+    } catch (error) {
+      console.error('❌ Erro ao carregar configurações de tickets:', error);
+
+      return this.cache?.data || DEFAULT_TICKET_SETTINGS;
+    }
+  }
+
+  /**
+   * Salvar documento completo de configurações (substitui o estado atual)
+   */
+  async saveSettings(
+    settings: TicketSystemSettings
+  ): Promise<TicketSystemSettings> {
+    const pipelineIds = settings.pipelines.map(pipeline => pipeline.id);
+    const stageIds = settings.pipelines.flatMap(pipeline =>
+      pipeline.stages.map(stage => stage.id)
+    );
+    const technicianIds = settings.technicians.map(technician => technician.id);
+
+    try {
+      await prisma.$transaction([
+        // Remover registros que saíram da configuração
+        prisma.ticketStageSetting.deleteMany({
+          where: { id: { notIn: stageIds } },
+        }),
+        prisma.ticketPipelineSetting.deleteMany({
+          where: { id: { notIn: pipelineIds } },
+        }),
+        prisma.technicianSetting.deleteMany({
+          where: { id: { notIn: technicianIds } },
+        }),
+        ...settings.pipelines.map(pipeline =>
+          prisma.ticketPipelineSetting.upsert({
+            where: { id: pipeline.id },
+            create: {
+              id: pipeline.id,
+              label: pipeline.label,
+              isActive: pipeline.isActive,
+            },
+            update: { label: pipeline.label, isActive: pipeline.isActive },
+          })
+        ),
+        ...settings.pipelines.flatMap(pipeline =>
+          pipeline.stages.map(stage => {
+            const data = {
+              pipelineId: pipeline.id,
+              label: stage.label,
+              description: stage.description || null,
+              color: stage.color,
+              displayOrder: stage.displayOrder,
+              isVisible: stage.isVisible,
+              isClosed: stage.isClosed,
+              excludeFromSync: stage.excludeFromSync,
+              role: stage.role || null,
+            };
+
+            return prisma.ticketStageSetting.upsert({
+              where: { id: stage.id },
+              create: { id: stage.id, ...data },
+              update: data,
+            });
+          })
+        ),
+        ...settings.technicians.map(technician => {
+          const data = {
+            name: technician.name,
+            role: technician.role,
+            email: technician.email || null,
+            color: technician.color,
+            avatar: technician.avatar,
+            displayOrder: technician.displayOrder,
+            isActive: technician.isActive,
+          };
+
+          return prisma.technicianSetting.upsert({
+            where: { id: technician.id },
+            create: { id: technician.id, ...data },
+            update: data,
+          });
+        }),
+      ]);
+
+      this.invalidateCache();
+      console.log('✅ Configurações de tickets salvas');
+
+      return this.getSettings(false);
+    } catch (error) {
+      console.error('❌ Erro ao salvar configurações de tickets:', error);
+      throw new Error('Falha ao salvar configurações de tickets');
+    }
+  }
+
+  invalidateCache(): void {
+    this.cache = null;
+  }
+
+  // Métodos auxiliares de mapeamento
+  private mapPrismaToSettings(
+    pipelines: any[],
+    technicians: any[]
+  ): TicketSystemSettings {
+    const mappedPipelines: PipelineSetting[] = pipelines.map(pipeline => ({
+      id: pipeline.id,
+      label: pipeline.label,
+      isActive: pipeline.isActive,
+      stages: (pipeline.stages || []).map((stage: any) => ({
+        id: stage.id,
+        pipelineId: stage.pipelineId,
+        label: stage.label,
+        description: stage.description || undefined,
+        color: stage.color,
+        displayOrder: stage.displayOrder,
+        isVisible: stage.isVisible,
+        isClosed: stage.isClosed,
+        excludeFromSync: stage.excludeFromSync,
+        role: STAGE_ROLES.find(role => role === stage.role),
+      })),
+    }));
+
+    const mappedTechnicians: TechnicianSetting[] = technicians.map(
+      technician => ({
+        id: technician.id,
+        name: technician.name,
+        role: technician.role,
+        email: technician.email || undefined,
+        color: technician.color,
+        avatar: technician.avatar,
+        displayOrder: technician.displayOrder,
+        isActive: technician.isActive,
+      })
+    );
+
+    const timestamps = [...pipelines, ...technicians]
+      .map(item => item.updatedAt?.getTime?.() || 0)
+      .filter(Boolean);
+
+    return {
+      pipelines: mappedPipelines,
+      technicians: mappedTechnicians,
+      updatedAt: timestamps.length
+        ? new Date(Math.max(...timestamps)).toISOString()
+        : undefined,
+    };
+  }
+}
+
+// Export da instância singleton
+export const ticketSettingsService = TicketSettingsService.getInstance();
@@ -0,0 +1,410 @@
+/**
+ * Ticket Stage History Service - Transições de estágio dos tickets
+ * Registra os movimentos feitos pelo dashboard, reconstrói o histórico a
+ * partir do HubSpot (propertiesWithHistory) e calcula a permanência por estágio
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type {
+  StageDwellFilters,
+  StageDwellStats,
+  TicketTimeline,
+  TicketTransitionSource,
+} from '@/types/ticket';
+import type { HubSpotPropertyVersion } from '@/lib/services/hubspot-api';
+import type { StageTransitionRecord } from '@/lib/utils/ticket-timeline';
+
+import { $Enums } from '@prisma/client';
+
+import { getActivePipelineIds } from '@/lib/config/ticket-settings';
+import { prisma } from '@/lib/database/prisma';
+import { hubspotApi } from '@/lib/services/hubspot-api';
+import { ticketSettingsService } from '@/lib/services/ticket-settings';
+import {
+  aggregateStageDwell,
+  buildStageTimeline,
+  clipStageTimeline,
+  summarizeStageDwell,
+} from '@/lib/utils/ticket-timeline';
+import { APIError } from '@/lib/utils/validation';
+
+const ENDPOINT = '/api/tickets/transitions';
+
+const isDatabaseConfigured = () => !!process.env.DATABASE_URL;
+
+// Tickets por execução do backfill (cada 50 consomem uma requisição)
+const BACKFILL_LIMIT = 500;
+const HISTORY_BATCH_SIZE = 50;
+
+// Origem no TicketSyncHistory que marca o ticket como já reconstruído
+const BACKFILL_HISTORY_SOURCE = 'stage-backfill';
+
+// Tolerância para reaproveitar o autor de um movimento feito pelo dashboard
+const AUTHOR_MATCH_WINDOW_MS = 5 * 60 * 1000;
+
+type TransitionData = Omit<StageTransitionRecord, 'id'>;
+
+export interface StageTransitionInput {
+  hubspotId: string;
+  toStageId: string;
+  source: TicketTransitionSource;
+  changedBy?: string;
+  transitionedAt?: Date;
+}
+
+export interface StageBackfillOptions {
+  hubspotIds?: string[];
+  force?: boolean; // Refaz tickets já reconstruídos
+  limit?: number;
+}
+
+export interface StageBackfillStats {
+  tickets: number;
+  transitions: number;
+  skipped: number;
+  errors: number;
+}
+
+export class TicketStageHistoryService {
+  private static instance: TicketStageHistoryService;
+
+  static getInstance(): TicketStageHistoryService {
+    if (!TicketStageHistoryService.instance) {
+      TicketStageHistoryService.instance = new TicketStageHistoryService();
+    }
+
+    return TicketStageHistoryService.instance;
+  }
+
+  /**
+   * Registra um movimento e atualiza o estágio da cópia local
+   * Com a cópia já no estágio novo, o webhook seguinte não duplica a transição.
+   * Falhas nunca derrubam a requisição
+   */
+  async recordTransition(input: StageTransitionInput): Promise<boolean> {
+    if (!isDatabaseConfigured()) return false;
+
+    try {
+      const ticket = await prisma.ticket.findUnique({
+        where: { hubspotId: input.hubspotId },
+        select: { id: true, pipelineStageId: true },
+      });
+
+      // Sem cópia local: a sincronização registra a entrada ao criar o ticket
+      if (!ticket || ticket.pipelineStageId === input.toStageId) return false;
+
+      await prisma.ticket.update({
+        where: { id: ticket.id },
+        data: {
+          pipelineStageId: input.toStageId,
+          stageTransitions: {
+            create: {
+              fromStageId: ticket.pipelineStageId,
+              toStageId: input.toStageId,
+              transitionedAt: input.transitionedAt || new Date(),
+              source: input.source,
+              changedBy: input.changedBy || null,
+            },
+          },
+        },
+      });
+
+      return true;
+    } catch (error) {
+      console.warn(
+        `⚠️ Falha ao registrar transição do ticket ${input.hubspotId}:`,
+        error instanceof Error ? error.message : error
+      );
+
+      return false;
+    }
+  }
+
+  /**
+   * Linha do tempo de estágios de um ticket
+   * Tickets sem transições locais são reconstruídos com o histórico do HubSpot
+   * (uma única vez: a reconstrução fica registrada no histórico de sincronização)
+   */
+  async getTimeline(hubspotId: string): Promise<TicketTimeline> {
+    if (isDatabaseConfigured()) {
+      let records = await this.findTransitions(hubspotId);
+
+      if (records && records.length === 0) {
+        await this.backfillFromHubSpot({ hubspotIds: [hubspotId] });
+        records = await this.findTransitions(hubspotId);
+      }
+
+      if (records) return this.toTimeline(hubspotId, records);
+    }
+
+    // Sem banco ou ticket fora da cópia local: direto do HubSpot
+    const history = await hubspotApi.getTicketStageHistory([hubspotId]);
+
+    return this.toTimeline(
+      hubspotId,
+      this.buildTransitionsFromHistory(history.get(hubspotId) || []).map(
+        (transition, index) => ({ id: `${hubspotId}:${index}`, ...transition })
+      )
+    );
+  }
+
+  /**
+   * Reconstrói as transições com o histórico de hs_pipeline_stage
+   * O HubSpot é a fonte da verdade: as transições do ticket são substituídas,
+   * preservando o autor dos movimentos feitos pelo dashboard
+   */
+  async backfillFromHubSpot(
+    options: StageBackfillOptions = {}
+  ): Promise<StageBackfillStats> {
+    if (!isDatabaseConfigured()) {
+      throw new APIError('DATABASE_URL não configurado', 503, ENDPOINT);
+    }
+
+    const tickets = await prisma.ticket.findMany({
+      where: {
+        deletedAt: null,
+        ...(options.hubspotIds
+          ? { hubspotId: { in: options.hubspotIds } }
+          : {}),
+        // Reconstrução registrada no histórico roda uma única vez por ticket,
+        // mesmo quando o HubSpot não devolveu nenhuma transição
+        ...(options.force
+          ? {}
+          : {
+              stageTransitions: { none: { source: 'backfill' } },
+              ticketSyncHistory: { none: { source: BACKFILL_HISTORY_SOURCE } },
+            }),
+      },
+      select: {
+        id: true,
+        hubspotId: true,
+        stageTransitions: {
+          where: { source: 'dashboard' },
+          select: { toStageId: true, transitionedAt: true, changedBy: true },
+        },
+      },
+      orderBy: { updatedAt: 'desc' },
+      take: options.limit || BACKFILL_LIMIT,
+    });
+    const stats: StageBackfillStats = {
+      tickets: 0,
+      transitions: 0,
+      skipped: 0,
+      errors: 0,
+    };
+
+    console.log(
+      `🕓 Reconstruindo histórico de estágios de ${tickets.length} ticket(s)...`
+    );
+
+    for (let index = 0; index < tickets.length; index += HISTORY_BATCH_SIZE) {
+      const batch = tickets.slice(index, index + HISTORY_BATCH_SIZE);
+      let history: Map<string, HubSpotPropertyVersion[]>;
+
+      try {
+        history = await hubspotApi.getTicketStageHistory(
+          batch.map(ticket => ticket.hubspotId)
+        );
+      } catch (error) {
+        console.error('❌ Erro ao buscar histórico de estágios:', error);
+        stats.errors += batch.length;
+        continue;
+      }
+
+      for (const ticket of batch) {
+        const transitions = this.buildTransitionsFromHistory(
+          history.get(ticket.hubspotId) || []
+        ).map(transition => ({
+          ...transition,
+          changedBy: this.findDashboardAuthor(
+            ticket.stageTransitions,
+            transition
+          ),
+        }));
+
+        const marker = prisma.ticketSyncHistory.create({
+          data: {
+            ticketId: ticket.id,
+            action: $Enums.SyncAction.SYNCED,
+            source: BACKFILL_HISTORY_SOURCE,
+            details: { transitions: transitions.length },
+          },
+        });
+
+        try {
+          // Ticket excluído no HubSpot ou sem histórico: mantém o registro local
+          if (transitions.length === 0) {
+            await marker;
+            stats.skipped++;
+            continue;
+          }
+
+          await prisma.$transaction([
+            prisma.ticketStageTransition.deleteMany({
+              where: { ticketId: ticket.id },
+            }),
+            prisma.ticketStageTransition.createMany({
+              data: transitions.map(transition => ({
+                ticketId: ticket.id,
+                ...transition,
+              })),
+            }),
+            marker,
+          ]);
+          stats.tickets++;
+          stats.transitions += transitions.length;
+        } catch (error) {
+          console.error(
+            `❌ Erro ao gravar histórico do ticket ${ticket.hubspotId}:`,
+            error
+          );
+          stats.errors++;
+        }
+      }
+    }
+
+    console.log('🎯 Histórico de estágios reconstruído:', stats);
+
+    return stats;
+  }
+
+  /**
+   * Permanência por estágio dos tickets ativos (analytics)
+   * Conta só o tempo dentro do período: a última transição anterior ao início
+   * entra a partir de `from` e as durações são cortadas em `to`
+   */
+  async getStageDwellStats(
+    filters: StageDwellFilters = {}
+  ): Promise<StageDwellStats[]> {
+    if (!isDatabaseConfigured()) {
+      throw new APIError('DATABASE_URL não configurado', 503, ENDPOINT);
+    }
+
+    const from = filters.dateFrom ? new Date(filters.dateFrom) : null;
+    const to = filters.dateTo ? new Date(filters.dateTo) : null;
+    const settings = await ticketSettingsService.getSettings();
+
+    const tickets = await prisma.ticket.findMany({
+      where: {
+        deletedAt: null,
+        pipelineId: { in: getActivePipelineIds(settings) },
+        ...(filters.ownerId
+          ? {
+              hubspotOwnerId:
+                filters.ownerId === 'unassigned' ? null : filters.ownerId,
+            }
+          : {}),
+        // Qualquer transição até o fim indica um estágio durante o período
+        stageTransitions: { some: to ? { transitionedAt: { lte: to } } : {} },
+      },
+      select: {
+        id: true,
+        stageTransitions: {
+          where: from ? { transitionedAt: { gte: from } } : undefined,
+        },
+      },
+    });
+
+    // Estágio em que cada ticket estava no início do período
+    const previous = from
+      ? await prisma.ticketStageTransition.findMany({
+          where: {
+            ticketId: { in: tickets.map(ticket => ticket.id) },
+            transitionedAt: { lt: from },
+          },
+          orderBy: [{ ticketId: 'asc' }, { transitionedAt: 'desc' }],
+          distinct: ['ticketId'],
+        })
+      : [];
+    const previousByTicket = new Map(
+      previous.map(record => [record.ticketId, record])
+    );
+    const now = new Date();
+
+    return aggregateStageDwell(
+      tickets.map(ticket => {
+        const entry = previousByTicket.get(ticket.id);
+        const records = entry
+          ? [entry, ...ticket.stageTransitions]
+          : ticket.stageTransitions;
+
+        return clipStageTimeline(buildStageTimeline(records, now), from, to);
+      })
+    );
+  }
+
+  // Métodos auxiliares
+  private async findTransitions(
+    hubspotId: string
+  ): Promise<StageTransitionRecord[] | null> {
+    const ticket = await prisma.ticket.findUnique({
+      where: { hubspotId },
+      select: { stageTransitions: true },
+    });
+
+    return ticket ? ticket.stageTransitions : null;
+  }
+
+  private toTimeline(
+    hubspotId: string,
+    records: StageTransitionRecord[]
+  ): TicketTimeline {
+    const transitions = buildStageTimeline(records);
+
+    return { hubspotId, transitions, dwell: summarizeStageDwell(transitions) };
+  }
+
+  // Versões do HubSpot vêm da mais recente para a mais antiga
+  private buildTransitionsFromHistory(
+    versions: HubSpotPropertyVersion[]
+  ): TransitionData[] {
+    const ordered = versions
+      .filter(version => version.value)
+      .sort(
+        (a, b) =>
+          new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+      );
+    const transitions: TransitionData[] = [];
+    let previousStageId: string | null = null;
+
+    for (const version of ordered) {
+      if (version.value === previousStageId) continue;
+
+      transitions.push({
+        fromStageId: previousStageId,
+        toStageId: version.value,
+        transitionedAt: new Date(version.timestamp),
+        source: 'backfill',
+        changedBy: null,
+      });
+      previousStageId = version.value;
+    }
+
+    return transitions;
+  }
+
+  private findDashboardAuthor(
+    dashboardMoves: Array<{
+      toStageId: string;
+      transitionedAt: Date;
+      changedBy: string | null;
+    }>,
+    transition: TransitionData
+  ): string | null {
+    const match = dashboardMoves.find(
+      move =>
+        move.toStageId === transition.toStageId &&
+        Math.abs(
+          move.transitionedAt.getTime() - transition.transitionedAt.getTime()
+        ) <= AUTHOR_MATCH_WINDOW_MS
+    );
+
+    return match?.changedBy || null;
+  }
+}
+
+// Export da instância singleton
+export const ticketStageHistoryService =
+  TicketStageHistoryService.getInstance();
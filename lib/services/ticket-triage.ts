@@ -0,0 +1,411 @@
+/**
+ * Ticket Triage Service - Triagem automática da Triagem N2
+ * Avalia as regras nos tickets que chegam pelo webhook ou pela sincronização,
+ * grava as alterações no HubSpot e guarda no ticket a explicação da regra
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type {
+  Ticket as PrismaTicket,
+  TriageRule as PrismaTriageRule,
+} from '@prisma/client';
+import type { Ticket } from '@/types/ticket';
+import type {
+  TicketTriageResult,
+  TriageChange,
+  TriageRule,
+  TriageRuleSet,
+  TriageRunOptions,
+  TriageRunSummary,
+} from '@/types/triage';
+import type { UpdateTicketRequest } from '@/lib/services/hubspot-api';
+
+import { prisma } from '@/lib/database/prisma';
+import { hubspotApi } from '@/lib/services/hubspot-api';
+import { ticketSettingsService } from '@/lib/services/ticket-settings';
+import { TRIAGE_RUN_LIMIT, getTriageActor } from '@/lib/config/triage';
+import { getStageIdByRole } from '@/lib/config/ticket-settings';
+import {
+  findTriageMatch,
+  parseTriageActions,
+  parseTriageConditions,
+  parseTriageResult,
+  triageActionsToJson,
+  triageConditionsToJson,
+  triageResultToJson,
+} from '@/lib/utils/ticket-triage';
+
+const isDatabaseConfigured = () => !!process.env.DATABASE_URL;
+
+const emptySummary = (): TriageRunSummary => ({
+  evaluated: 0,
+  matched: 0,
+  applied: 0,
+  simulated: 0,
+  errors: 0,
+  items: [],
+});
+
+export class TicketTriageService {
+  private static instance: TicketTriageService;
+  private cache: { data: TriageRuleSet; timestamp: number } | null = null;
+  private readonly cacheTTL = 60 * 1000; // 1 minuto
+
+  static getInstance(): TicketTriageService {
+    if (!TicketTriageService.instance) {
+      TicketTriageService.instance = new TicketTriageService();
+    }
+
+    return TicketTriageService.instance;
+  }
+
+  /**
+   * Regras cadastradas, na ordem de avaliação
+   */
+  async getRules(useCache = true): Promise<TriageRuleSet> {
+    if (
+      useCache &&
+      this.cache &&
+      Date.now() - this.cache.timestamp < this.cacheTTL
+    ) {
+      return this.cache.data;
+    }
+
+    if (!isDatabaseConfigured()) {
+      return { rules: [] };
+    }
+
+    try {
+      const rules = await prisma.triageRule.findMany({
+        orderBy: { displayOrder: 'asc' },
+      });
+      const ruleSet: TriageRuleSet = {
+        rules: rules.map(this.mapPrismaToRule),
+        updatedAt: rules
+          .map(rule => rule.updatedAt.toISOString())
+          .sort()
+          .pop(),
+      };
+
+      this.cache = { data: ruleSet, timestamp: Date.now() };
+
+      return ruleSet;
+    } catch (error) {
+      console.error('❌ Erro ao carregar regras de triagem:', error);
+
+      return this.cache?.data || { rules: [] };
+    }
+  }
+
+  /**
+   * Salvar regras (substitui o conjunto atual)
+   * Tickets ainda na Triagem N2 são reavaliados com as regras alteradas
+   */
+  async saveRules(ruleSet: TriageRuleSet): Promise<TriageRuleSet> {
+    const keptIds = ruleSet.rules.map(rule => rule.id).filter(Boolean);
+
+    try {
+      await prisma.$transaction([
+        prisma.triageRule.deleteMany({ where: { id: { notIn: keptIds } } }),
+        ...ruleSet.rules.map(rule => {
+          const data = {
+            name: rule.name,
+            description: rule.description || null,
+            conditions: triageConditionsToJson(rule.conditions),
+            actions: triageActionsToJson(rule.actions),
+            isActive: rule.isActive,
+            dryRun: rule.dryRun,
+            displayOrder: rule.displayOrder,
+          };
+
+          return rule.id
+            ? prisma.triageRule.upsert({
+                where: { id: rule.id },
+                create: { id: rule.id, ...data },
+                update: data,
+              })
+            : prisma.triageRule.create({ data });
+        }),
+      ]);
+
+      this.invalidateCache();
+      console.log(`✅ ${ruleSet.rules.length} regra(s) de triagem salva(s)`);
+
+      return this.getRules(false);
+    } catch (error) {
+      console.error('❌ Erro ao salvar regras de triagem:', error);
+      throw new Error('Falha ao salvar regras de triagem');
+    }
+  }
+
+  invalidateCache(): void {
+    this.cache = null;
+  }
+
+  /**
+   * Triar tickets da Triagem N2
+   * Sem IDs, avalia todos os tickets do estágio (execução manual). Tickets já
+   * triados só voltam a ser avaliados se as regras mudaram desde então.
+   * Falhas ficam registradas no resultado e nunca derrubam o chamador
+   */
+  async triageTickets(
+    hubspotIds: string[] | undefined,
+    options: TriageRunOptions
+  ): Promise<TriageRunSummary> {
+    const summary = emptySummary();
+
+    if (!isDatabaseConfigured() || hubspotIds?.length === 0) return summary;
+
+    try {
+      const { rules, updatedAt } = await this.getRules();
+
+      if (!rules.some(rule => rule.isActive)) return summary;
+
+      const triageStageId = getStageIdByRole(
+        await ticketSettingsService.getSettings(),
+        'triage'
+      );
+
+      if (!triageStageId) {
+        console.warn('⚠️ Nenhum estágio de triagem configurado');
+
+        return summary;
+      }
+
+      const tickets = await prisma.ticket.findMany({
+        where: {
+          deletedAt: null,
+          pipelineStageId: triageStageId,
+          ...(hubspotIds ? { hubspotId: { in: hubspotIds } } : {}),
+          ...(options.force
+            ? {}
+            : {
+                OR: [
+                  { triagedAt: null },
+                  ...(updatedAt
+                    ? [{ triagedAt: { lt: new Date(updatedAt) } }]
+                    : []),
+                ],
+              }),
+        },
+        orderBy: { createdAt: 'asc' },
+        take: TRIAGE_RUN_LIMIT,
+      });
+
+      for (const row of tickets) {
+        const ticket = this.mapPrismaToTicket(row);
+        const result = await this.triageTicket(row.id, ticket, rules, options);
+
+        summary.evaluated++;
+        summary.items.push({
+          hubspotId: ticket.hubspotId,
+          subject: ticket.subject,
+          result,
+        });
+
+        if (!result) continue;
+
+        summary.matched++;
+        if (result.error) summary.errors++;
+        else if (result.applied) summary.applied++;
+        else if (result.dryRun) summary.simulated++;
+      }
+
+      if (summary.evaluated > 0) {
+        console.log(`🧭 Triagem automática (${options.source}):`, {
+          evaluated: summary.evaluated,
+          matched: summary.matched,
+          applied: summary.applied,
+          simulated: summary.simulated,
+          errors: summary.errors,
+        });
+      }
+    } catch (error) {
+      console.error('❌ Erro na triagem automática:', error);
+      summary.errors++;
+    }
+
+    return summary;
+  }
+
+  /**
+   * Explicação da triagem gravada no ticket
+   */
+  async getTicketTriage(hubspotId: string): Promise<{
+    result: TicketTriageResult | null;
+    triagedAt?: string;
+  }> {
+    if (!isDatabaseConfigured()) return { result: null };
+
+    const ticket = await prisma.ticket.findUnique({
+      where: { hubspotId },
+      select: { triageResult: true, triagedAt: true },
+    });
+
+    return {
+      result: ticket ? parseTriageResult(ticket.triageResult) : null,
+      triagedAt: ticket?.triagedAt?.toISOString(),
+    };
+  }
+
+  // Métodos auxiliares
+  private async triageTicket(
+    ticketId: string,
+    ticket: Ticket,
+    rules: TriageRule[],
+    options: TriageRunOptions
+  ): Promise<TicketTriageResult | null> {
+    const match = findTriageMatch(ticket, rules);
+    const now = new Date();
+
+    if (!match) {
+      if (!options.dryRun) {
+        await prisma.ticket.update({
+          where: { id: ticketId },
+          data: { triagedAt: now },
+        });
+      }
+
+      return null;
+    }
+
+    const result: TicketTriageResult = {
+      ruleId: match.rule.id,
+      ruleName: match.rule.name,
+      reasons: match.reasons,
+      changes: match.changes,
+      dryRun: !!options.dryRun || match.rule.dryRun,
+      applied: false,
+      source: options.source,
+      evaluatedAt: now.toISOString(),
+    };
+
+    // Simulação pelo painel não grava nada
+    if (options.dryRun) return result;
+
+    if (result.dryRun || result.changes.length === 0) {
+      await prisma.ticket.update({
+        where: { id: ticketId },
+        data: { triageResult: triageResultToJson(result), triagedAt: now },
+      });
+
+      return result;
+    }
+
+    try {
+      await hubspotApi.updateTicket(ticket.hubspotId, {
+        properties: this.buildHubSpotProperties(result.changes),
+      });
+      result.applied = true;
+    } catch (error) {
+      result.error =
+        error instanceof Error ? error.message : 'Erro desconhecido';
+      console.error(
+        `❌ Erro ao aplicar regra "${match.rule.name}" no ticket ${ticket.hubspotId}:`,
+        error
+      );
+
+      // Sem triagedAt: a próxima chegada do ticket tenta de novo
+      await prisma.ticket.update({
+        where: { id: ticketId },
+        data: { triageResult: triageResultToJson(result) },
+      });
+
+      return result;
+    }
+
+    // Cópia local já no estado novo: o webhook seguinte não duplica a transição
+    const stageChange = result.changes.find(
+      change => change.field === 'pipelineStageId'
+    );
+
+    await prisma.ticket.update({
+      where: { id: ticketId },
+      data: {
+        ...this.buildLocalUpdate(result.changes),
+        triageResult: triageResultToJson(result),
+        triagedAt: now,
+        ...(stageChange
+          ? {
+              stageTransitions: {
+                create: {
+                  fromStageId: ticket.pipelineStageId,
+                  toStageId: stageChange.to as string,
+                  transitionedAt: now,
+                  source: 'triage',
+                  changedBy: getTriageActor(match.rule.name),
+                },
+              },
+            }
+          : {}),
+      },
+    });
+
+    return result;
+  }
+
+  private buildHubSpotProperties(
+    changes: TriageChange[]
+  ): UpdateTicketRequest['properties'] {
+    const properties: UpdateTicketRequest['properties'] = {};
+
+    for (const change of changes) {
+      if (change.field === 'pipelineStageId') {
+        properties.hs_pipeline_stage = change.to as string;
+      } else if (change.field === 'priority') {
+        properties.hs_ticket_priority = change.to as NonNullable<
+          UpdateTicketRequest['properties']['hs_ticket_priority']
+        >;
+      } else if (change.field === 'hubspotOwnerId') {
+        properties.hubspot_owner_id = change.to as string;
+      } else if (change.field === 'tags') {
+        properties.tags = (change.to as string[]).join(', ');
+      }
+    }
+
+    return properties;
+  }
+
+  private buildLocalUpdate(changes: TriageChange[]): Record<string, unknown> {
+    return Object.fromEntries(changes.map(change => [change.field, change.to]));
+  }
+
+  // Métodos auxiliares de mapeamento
+  private mapPrismaToRule(rule: PrismaTriageRule): TriageRule {
+    return {
+      id: rule.id,
+      name: rule.name,
+      description: rule.description || undefined,
+      conditions: parseTriageConditions(rule.conditions),
+      actions: parseTriageActions(rule.actions),
+      isActive: rule.isActive,
+      dryRun: rule.dryRun,
+      displayOrder: rule.displayOrder,
+      updatedAt: rule.updatedAt.toISOString(),
+    };
+  }
+
+  private mapPrismaToTicket(prismaTicket: PrismaTicket): Ticket {
+    return {
+      id: prismaTicket.id,
+      hubspotId: prismaTicket.hubspotId,
+      subject: prismaTicket.subject,
+      content: prismaTicket.content || undefined,
+      priority: prismaTicket.priority,
+      status: prismaTicket.status,
+      category: prismaTicket.category || undefined,
+      pipelineId: prismaTicket.pipelineId,
+      pipelineStageId: prismaTicket.pipelineStageId,
+      hubspotOwnerId: prismaTicket.hubspotOwnerId || undefined,
+      sourceType: prismaTicket.sourceType || undefined,
+      tags: prismaTicket.tags || [],
+      createdAt: prismaTicket.createdAt.toISOString(),
+      updatedAt: prismaTicket.updatedAt.toISOString(),
+    };
+  }
+}
+
+// Export da instância singleton
+export const ticketTriageService = TicketTriageService.getInstance();
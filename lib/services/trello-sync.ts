@@ -1,13 +1,17 @@
 import toast from 'react-hot-toast';
 
-import { trelloApi } from '@/lib/trello';
-import { projectsApi } from '@/lib/supabase';
+import {
+  createProject,
+  syncProjects,
+  updateProject,
+} from '@/lib/api/client-projects';
+import { syncOrchestrator } from '@/lib/services/sync-orchestrator-v2';
 import { Project } from '@/types/project';
 
 export class TrelloSyncService {
   private static instance: TrelloSyncService;
   private syncInProgress = false;
-  private isPollingActive = false;
+  private unsubscribePolling: (() => void) | null = null;
 
   static getInstance(): TrelloSyncService {
     if (!TrelloSyncService.instance) {
@@ -28,41 +32,17 @@ export class TrelloSyncService {
     try {
       toast.loading('Sincronizando com Trello...', { id: 'trello-sync' });
 
-      // Fetch cards from Trello
-      const trelloCards = await trelloApi.getBoardCards();
+      // Leitura do Trello e gravação no banco acontecem no servidor
+      const result = await syncProjects();
 
-      // Transform to Project format
-      const projects = trelloApi.transformCardsToProjects(trelloCards);
-
-      // Filter out cards without proper content (empty or template cards)
-      const validProjects = projects.filter(
-        project =>
-          project.title &&
-          project.title.trim() !== '' &&
-          !project.title.toLowerCase().includes('template') &&
-          !project.title.toLowerCase().includes('exemplo')
+      toast.success(
+        result.source === 'database'
+          ? `${result.synced} projetos sincronizados com o banco!`
+          : `${result.synced} projetos carregados do Trello!`,
+        { id: 'trello-sync' }
       );
 
-      // Try to sync with Supabase (if available) or return projects directly
-      let syncedProjects: Project[];
-
-      try {
-        syncedProjects = await projectsApi.syncFromTrello(trelloCards);
-        toast.success(
-          `${syncedProjects.length} projetos sincronizados com Supabase!`,
-          { id: 'trello-sync' }
-        );
-      } catch {
-        // If Supabase is not available, return Trello data directly
-        // Supabase not available, using Trello data directly
-        syncedProjects = validProjects;
-        toast.success(
-          `${validProjects.length} projetos carregados do Trello!`,
-          { id: 'trello-sync' }
-        );
-      }
-
-      return syncedProjects;
+      return result.projects;
     } catch (error) {
       const message =
         error instanceof Error ? error.message : 'Erro desconhecido';
@@ -78,20 +58,13 @@ export class TrelloSyncService {
     try {
       toast.loading('Criando projeto no Trello...', { id: 'create-trello' });
 
-      // Get board lists to find appropriate list
-      const lists = await trelloApi.getBoardLists();
-      const planningList = lists.find(
-        list =>
-          list.name.toLowerCase().includes('planning') ||
-          list.name.toLowerCase().includes('backlog')
-      );
-
-      if (!planningList) {
-        throw new Error('Lista de planejamento não encontrada no Trello');
-      }
-
-      // Create card in Trello
-      await trelloApi.createCard(planningList.id, project);
+      // A rota escolhe a lista do Trello pelo status do projeto
+      await createProject({
+        title: project.title,
+        description: project.description,
+        status: project.status,
+        estimatedEndDate: project.estimatedEndDate,
+      });
 
       toast.success('Projeto criado no Trello!', { id: 'create-trello' });
     } catch (error) {
@@ -112,7 +85,8 @@ export class TrelloSyncService {
         id: 'update-trello',
       });
 
-      await trelloApi.updateCard(projectId, updates);
+      // Via API para que a edição seja registrada no rastreamento por campo
+      await updateProject({ ...updates, trelloCardId: projectId });
 
       toast.success('Projeto atualizado no Trello!', { id: 'update-trello' });
     } catch (error) {
@@ -131,51 +105,47 @@ export class TrelloSyncService {
   }
 
   startRealTimeSync(onUpdate: (projects: Project[]) => void): void {
-    if (this.isPollingActive) {
+    if (this.unsubscribePolling) {
       // Real-time sync already active
 
       return;
     }
 
-    // Starting real-time sync with Trello
-    this.isPollingActive = true;
-
-    trelloApi.startPolling(30000, projects => {
-      // Real-time sync update received
-      onUpdate(projects);
-    });
+    // Polling da API de projetos; o Trello é consultado apenas no servidor
+    this.unsubscribePolling = syncOrchestrator.subscribe(onUpdate);
+    syncOrchestrator.startPolling(30000);
   }
 
   stopRealTimeSync(): void {
-    if (!this.isPollingActive) {
+    if (!this.unsubscribePolling) {
       return;
     }
 
     // Stopping real-time sync
-    this.isPollingActive = false;
-    trelloApi.stopPolling();
+    this.unsubscribePolling();
+    this.unsubscribePolling = null;
+    syncOrchestrator.stopPolling();
   }
 
   isRealTimeSyncActive(): boolean {
-    return this.isPollingActive;
+    return this.unsubscribePolling !== null;
   }
 
-  async setupWebhook(callbackURL: string): Promise<void> {
+  // O callback é definido no servidor (TRELLO_WEBHOOK_CALLBACK_URL)
+  async setupWebhook(): Promise<void> {
     try {
-      // Check existing webhooks
-      const webhooks = await trelloApi.getWebhooks();
-      const existingWebhook = webhooks.find(w => w.callbackURL === callbackURL);
+      const res = await fetch('/api/trello-webhook/register', {
+        method: 'POST',
+      });
+      const json = await res.json();
 
-      if (existingWebhook) {
-        // Webhook already exists
-        return;
+      if (!res.ok) {
+        throw new Error(json.error || 'Falha ao registrar webhook');
       }
 
-      // Create new webhook
-      await trelloApi.createWebhook(callbackURL);
-
-      // Sync completed successfully
-      toast.success('Webhook configurado com sucesso!');
+      if (json.created) {
+        toast.success('Webhook configurado com sucesso!');
+      }
     } catch (error) {
       // Log errors only in development
       if (process.env.NODE_ENV === 'development') {
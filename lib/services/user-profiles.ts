@@ -0,0 +1,320 @@
+/**
+ * User Profile Service - Usuários do Supabase Auth no inPatch
+ * Login, papéis (app_metadata.role) e vínculo de cada usuário a um owner
+ * do HubSpot e a um membro do time de projetos
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type { UserProfile, UserProfileUpdate, UserRole } from '@/types/auth';
+import type { TeamMember } from '@/types/project';
+import type { Session, User } from '@supabase/supabase-js';
+
+import { $Enums, Prisma } from '@prisma/client';
+import { createClient } from '@supabase/supabase-js';
+
+import { getBootstrapAdminEmails, toUserRole } from '@/lib/config/auth';
+import { findMember, getActiveMembers } from '@/lib/config/project-catalog';
+import { createAuthClient } from '@/lib/auth/session';
+import { prisma } from '@/lib/database/prisma';
+import { USER_ROLES } from '@/types/auth';
+import { hubspotApi } from '@/lib/services/hubspot-api';
+import { projectCatalogService } from '@/lib/services/project-catalog';
+
+// Papéis da aplicação para o enum do banco (e de volta na leitura)
+const ROLE_TO_PRISMA: Record<UserRole, $Enums.UserRole> = {
+  viewer: $Enums.UserRole.VIEWER,
+  analyst: $Enums.UserRole.ANALYST,
+  admin: $Enums.UserRole.ADMIN,
+};
+
+const ROLE_FROM_PRISMA: Record<$Enums.UserRole, UserRole> = {
+  VIEWER: 'viewer',
+  ANALYST: 'analyst',
+  ADMIN: 'admin',
+};
+
+// Membro do catálogo vinculado ao perfil (nome exibido em `teamMember`)
+const withMember = { member: true } as const;
+
+type UserProfileRow = Prisma.UserProfileGetPayload<{
+  include: typeof withMember;
+}>;
+
+export class UserProfileService {
+  private static instance: UserProfileService;
+
+  static getInstance(): UserProfileService {
+    if (!UserProfileService.instance) {
+      UserProfileService.instance = new UserProfileService();
+    }
+
+    return UserProfileService.instance;
+  }
+
+  /**
+   * Login com e-mail e senha; retorna a sessão e o perfil sincronizado
+   */
+  async signIn(
+    email: string,
+    password: string
+  ): Promise<{ session: Session; profile: UserProfile }> {
+    const client = createAuthClient();
+
+    if (!client) {
+      throw new Error('Supabase Auth não configurado');
+    }
+
+    const { data, error } = await client.auth.signInWithPassword({
+      email,
+      password,
+    });
+
+    if (error || !data.session) {
+      throw new Error(error?.message || 'Credenciais inválidas');
+    }
+
+    let session = data.session;
+    const profile = await this.syncProfile(data.session.user);
+
+    // Papel alterado no bootstrap: renova o token para refletir o novo claim
+    if (profile.role !== toUserRole(data.session.user.app_metadata?.role)) {
+      const refreshed = await client.auth.refreshSession({
+        refresh_token: data.session.refresh_token,
+      });
+
+      if (refreshed.data.session) session = refreshed.data.session;
+    }
+
+    return { session, profile };
+  }
+
+  async getProfile(id: string): Promise<UserProfile | null> {
+    const row = await prisma.userProfile.findUnique({
+      where: { id },
+      include: withMember,
+    });
+
+    return row ? this.toUserProfile(row) : null;
+  }
+
+  async listProfiles(): Promise<UserProfile[]> {
+    const rows = await prisma.userProfile.findMany({
+      include: withMember,
+      orderBy: { email: 'asc' },
+    });
+
+    return rows.map(row => this.toUserProfile(row));
+  }
+
+  /**
+   * Owner do HubSpot vinculado ao usuário ("meus tickets")
+   * Sem vínculo direto, usa o owner do membro do catálogo
+   */
+  async getHubspotOwnerId(userId: string): Promise<string | null> {
+    const row = await prisma.userProfile.findUnique({
+      where: { id: userId },
+      include: withMember,
+    });
+
+    return row?.hubspotOwnerId || row?.member?.hubspotOwnerId || null;
+  }
+
+  /**
+   * Membro do time vinculado ao usuário ("meus projetos")
+   */
+  async getTeamMember(userId: string): Promise<TeamMember | null> {
+    const profile = await this.getProfile(userId);
+
+    return profile?.teamMember || null;
+  }
+
+  /**
+   * Alteração administrativa de papel e vínculos
+   */
+  async updateProfile(
+    id: string,
+    update: UserProfileUpdate
+  ): Promise<UserProfile | null> {
+    if (update.role !== undefined && !USER_ROLES.includes(update.role)) {
+      throw new Error(`Papel inválido: ${String(update.role)}`);
+    }
+
+    const existing = await prisma.userProfile.findUnique({ where: { id } });
+
+    if (!existing) return null;
+
+    if (update.role) {
+      await this.setAuthRole(id, update.role);
+    }
+
+    const data: Prisma.UserProfileUncheckedUpdateInput = {};
+
+    if (update.role) data.role = ROLE_TO_PRISMA[update.role];
+    if (update.hubspotOwnerId !== undefined) {
+      data.hubspotOwnerId = update.hubspotOwnerId || null;
+    }
+    if (update.teamMember !== undefined) {
+      data.memberId = update.teamMember
+        ? await this.resolveMemberId(update.teamMember)
+        : null;
+    }
+
+    try {
+      const row = await prisma.userProfile.update({
+        where: { id },
+        data,
+        include: withMember,
+      });
+
+      return this.toUserProfile(row);
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new Error('Owner ou membro do time já vinculado a outro usuário');
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Cria/atualiza o perfil no login, vinculando owner e membro automaticamente
+   */
+  private async syncProfile(user: User): Promise<UserProfile> {
+    const email = (user.email || '').toLowerCase();
+    const name: string | undefined =
+      user.user_metadata?.full_name || user.user_metadata?.name;
+    let role = toUserRole(user.app_metadata?.role);
+
+    if (role !== 'admin' && getBootstrapAdminEmails().includes(email)) {
+      console.log(`🔑 Promovendo ${email} a admin (AUTH_ADMIN_EMAILS)`);
+      await this.setAuthRole(user.id, 'admin');
+      role = 'admin';
+    }
+
+    const existing = await prisma.userProfile.findUnique({
+      where: { id: user.id },
+    });
+    const hubspotOwnerId =
+      existing?.hubspotOwnerId ?? (await this.findHubspotOwnerId(email));
+    const memberId = existing?.memberId ?? (await this.findMemberId(email));
+
+    const row = await prisma.userProfile.upsert({
+      where: { id: user.id },
+      create: {
+        id: user.id,
+        email,
+        name,
+        role: ROLE_TO_PRISMA[role],
+        hubspotOwnerId,
+        memberId,
+        lastSignInAt: new Date(),
+      },
+      update: {
+        email,
+        name: name ?? existing?.name,
+        role: ROLE_TO_PRISMA[role],
+        hubspotOwnerId,
+        memberId,
+        lastSignInAt: new Date(),
+      },
+      include: withMember,
+    });
+
+    return this.toUserProfile(row);
+  }
+
+  // Owner do HubSpot com o mesmo e-mail, se ainda não vinculado
+  private async findHubspotOwnerId(email: string): Promise<string | null> {
+    try {
+      const { results } = await hubspotApi.getAuthorizedOwners();
+      const owner = results.find(
+        candidate => candidate.email?.toLowerCase() === email
+      );
+
+      if (!owner) return null;
+
+      const linked = await prisma.userProfile.findUnique({
+        where: { hubspotOwnerId: owner.id },
+      });
+
+      return linked ? null : owner.id;
+    } catch (error) {
+      console.warn('⚠️ Não foi possível vincular owner do HubSpot:', error);
+
+      return null;
+    }
+  }
+
+  // Membro do catálogo com o mesmo e-mail, se ainda não vinculado
+  // Sem e-mail cadastrado no membro, o vínculo fica a cargo de um admin
+  private async findMemberId(email: string): Promise<string | null> {
+    if (!email) return null;
+
+    const members = getActiveMembers(await projectCatalogService.getCatalog());
+    const member = members.find(
+      candidate => candidate.email?.toLowerCase() === email
+    );
+
+    if (!member) return null;
+
+    const linked = await prisma.userProfile.findUnique({
+      where: { memberId: member.id },
+    });
+
+    return linked ? null : member.id;
+  }
+
+  // Nome do membro (valor de `project.responsible`) → ID no catálogo
+  private async resolveMemberId(teamMember: TeamMember): Promise<string> {
+    const member = findMember(
+      await projectCatalogService.getCatalog(),
+      teamMember
+    );
+
+    if (!member) {
+      throw new Error(`Membro "${teamMember}" não existe no catálogo`);
+    }
+
+    return member.id;
+  }
+
+  // app_metadata só pode ser alterado com a service role key
+  private async setAuthRole(userId: string, role: UserRole): Promise<void> {
+    const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!url || !serviceRoleKey) {
+      throw new Error('SUPABASE_SERVICE_ROLE_KEY não configurado');
+    }
+
+    const admin = createClient(url, serviceRoleKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+    const { error } = await admin.auth.admin.updateUserById(userId, {
+      app_metadata: { role },
+    });
+
+    if (error) throw new Error(error.message);
+  }
+
+  private toUserProfile(row: UserProfileRow): UserProfile {
+    return {
+      id: row.id,
+      email: row.email,
+      name: row.name || undefined,
+      role: ROLE_FROM_PRISMA[row.role],
+      hubspotOwnerId: row.hubspotOwnerId || undefined,
+      teamMember: row.member?.name || undefined,
+      lastSignInAt: row.lastSignInAt?.toISOString(),
+      createdAt: row.createdAt.toISOString(),
+      updatedAt: row.updatedAt.toISOString(),
+    };
+  }
+}
+
+export const userProfileService = UserProfileService.getInstance();
@@ -0,0 +1,359 @@
+/**
+ * Webhook Queue Service - Fila persistida de eventos de webhook
+ * Eventos do Trello e do HubSpot são gravados antes do processamento e
+ * drenados por um worker com backoff exponencial e dead-letter
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type { WebhookEvent } from '@prisma/client';
+import type { DomainEvent } from '@/types/webhook-pipeline';
+import type {
+  WebhookDrainResult,
+  WebhookEnqueueInput,
+  WebhookEventStatus,
+  WebhookQueueEvent,
+  WebhookQueueStats,
+  WebhookSource,
+} from '@/types/webhook-queue';
+
+import { prisma } from '@/lib/database/prisma';
+import { webhookHandler } from '@/lib/api/webhook-handler';
+import { webhookAdapters } from '@/lib/webhooks/adapters';
+import { advancedRateLimiter } from '@/lib/utils/advanced-rate-limiter';
+
+const WEBHOOK_STATUSES: WebhookEventStatus[] = [
+  'PENDING',
+  'PROCESSING',
+  'SUCCEEDED',
+  'FAILED',
+  'DEAD',
+];
+
+// Evento em PROCESSING há mais tempo que isso é considerado abandonado
+const STALE_LOCK_MS = 5 * 60 * 1000;
+
+const DEFAULT_DRAIN_LIMIT = 50;
+
+type ProcessOutcome = { success: boolean; error?: string };
+
+export class WebhookQueueService {
+  private static instance: WebhookQueueService;
+
+  static getInstance(): WebhookQueueService {
+    if (!WebhookQueueService.instance) {
+      WebhookQueueService.instance = new WebhookQueueService();
+    }
+
+    return WebhookQueueService.instance;
+  }
+
+  /**
+   * Persistir eventos recebidos (duplicados pela origem são ignorados)
+   */
+  async enqueue(inputs: WebhookEnqueueInput[]): Promise<number> {
+    if (inputs.length === 0) return 0;
+
+    const result = await prisma.webhookEvent.createMany({
+      data: inputs.map(input => ({
+        source: input.source,
+        externalId: input.externalId || null,
+        eventType: input.eventType || null,
+        payload: input.payload,
+      })),
+      skipDuplicates: true,
+    });
+
+    console.log(`📥 ${result.count} evento(s) de webhook enfileirado(s)`);
+
+    return result.count;
+  }
+
+  /**
+   * Drenar eventos vencidos (pendentes, em retry ou com lock abandonado)
+   */
+  async drain(
+    options: { limit?: number; ids?: string[] } = {}
+  ): Promise<WebhookDrainResult> {
+    const now = new Date();
+    const result: WebhookDrainResult = {
+      claimed: 0,
+      succeeded: 0,
+      failed: 0,
+      dead: 0,
+    };
+
+    const candidates = await prisma.webhookEvent.findMany({
+      where: {
+        ...(options.ids ? { id: { in: options.ids } } : {}),
+        OR: [
+          {
+            status: { in: ['PENDING', 'FAILED'] },
+            nextAttemptAt: { lte: now },
+          },
+          {
+            status: 'PROCESSING',
+            lockedAt: { lt: new Date(now.getTime() - STALE_LOCK_MS) },
+          },
+        ],
+      },
+      orderBy: { createdAt: 'asc' },
+      take: options.limit || DEFAULT_DRAIN_LIMIT,
+    });
+
+    // Claim otimista: só processa quem conseguiu trocar o status
+    const claimed: WebhookEvent[] = [];
+
+    for (const candidate of candidates) {
+      const { count } = await prisma.webhookEvent.updateMany({
+        where: { id: candidate.id, updatedAt: candidate.updatedAt },
+        data: { status: 'PROCESSING', lockedAt: now },
+      });
+
+      if (count === 1) claimed.push(candidate);
+    }
+
+    result.claimed = claimed.length;
+
+    if (claimed.length === 0) return result;
+
+    console.log(`⚙️ Processando ${claimed.length} evento(s) de webhook...`);
+
+    const outcomes = await this.processClaimed(claimed);
+
+    const { maxRetries } = advancedRateLimiter.getRetryConfig();
+
+    for (const event of claimed) {
+      const outcome = outcomes.get(event.id) || {
+        success: false,
+        error: 'Evento não processado',
+      };
+      const attempts = event.attempts + 1;
+
+      if (outcome.success) {
+        await prisma.webhookEvent.update({
+          where: { id: event.id },
+          data: {
+            status: 'SUCCEEDED',
+            attempts,
+            lastError: null,
+            lockedAt: null,
+            processedAt: new Date(),
+          },
+        });
+        result.succeeded++;
+        continue;
+      }
+
+      const isDead = attempts >= maxRetries;
+
+      await prisma.webhookEvent.update({
+        where: { id: event.id },
+        data: {
+          status: isDead ? 'DEAD' : 'FAILED',
+          attempts,
+          lastError: outcome.error || 'Erro desconhecido',
+          lockedAt: null,
+          nextAttemptAt: new Date(
+            Date.now() + advancedRateLimiter.getRetryDelay(attempts - 1)
+          ),
+        },
+      });
+
+      if (isDead) {
+        result.dead++;
+        console.warn(
+          `☠️ Webhook ${event.id} movido para dead-letter após ${attempts} tentativa(s)`
+        );
+      } else {
+        result.failed++;
+      }
+    }
+
+    console.log('🎯 Fila de webhooks drenada:', result);
+
+    return result;
+  }
+
+  /**
+   * Reenfileirar eventos com falha e processá-los imediatamente
+   */
+  async replay(ids: string[]): Promise<WebhookDrainResult> {
+    const { count } = await prisma.webhookEvent.updateMany({
+      where: { id: { in: ids }, status: { in: ['FAILED', 'DEAD'] } },
+      data: {
+        status: 'PENDING',
+        attempts: 0,
+        lockedAt: null,
+        nextAttemptAt: new Date(),
+      },
+    });
+
+    console.log(`🔁 ${count} evento(s) de webhook reenfileirado(s)`);
+
+    return this.drain({ ids, limit: ids.length });
+  }
+
+  /**
+   * Listar eventos para o painel admin
+   */
+  async listEvents(
+    filters: {
+      status?: WebhookEventStatus[];
+      source?: WebhookSource;
+      limit?: number;
+      offset?: number;
+    } = {}
+  ): Promise<{ events: WebhookQueueEvent[]; total: number }> {
+    const where = {
+      ...(filters.status?.length ? { status: { in: filters.status } } : {}),
+      ...(filters.source ? { source: filters.source } : {}),
+    };
+
+    const [events, total] = await Promise.all([
+      prisma.webhookEvent.findMany({
+        where,
+        orderBy: { updatedAt: 'desc' },
+        take: filters.limit || 50,
+        skip: filters.offset || 0,
+      }),
+      prisma.webhookEvent.count({ where }),
+    ]);
+
+    return { events: events.map(this.mapPrismaToEvent), total };
+  }
+
+  /**
+   * Contagens por status e origem
+   */
+  async getStats(): Promise<WebhookQueueStats> {
+    const [groups, oldestPending] = await Promise.all([
+      prisma.webhookEvent.groupBy({
+        by: ['source', 'status'],
+        _count: { _all: true },
+      }),
+      prisma.webhookEvent.findFirst({
+        where: { status: { in: ['PENDING', 'FAILED'] } },
+        orderBy: { createdAt: 'asc' },
+        select: { createdAt: true },
+      }),
+    ]);
+
+    const emptyCounts = () =>
+      Object.fromEntries(WEBHOOK_STATUSES.map(status => [status, 0])) as Record<
+        WebhookEventStatus,
+        number
+      >;
+
+    const stats: WebhookQueueStats = {
+      byStatus: emptyCounts(),
+      bySource: {},
+      oldestPendingAt: oldestPending?.createdAt?.toISOString(),
+      maxAttempts: advancedRateLimiter.getRetryConfig().maxRetries,
+    };
+
+    groups.forEach(group => {
+      const count = group._count._all;
+
+      stats.byStatus[group.status as WebhookEventStatus] += count;
+      stats.bySource[group.source] =
+        stats.bySource[group.source] || emptyCounts();
+      stats.bySource[group.source][group.status as WebhookEventStatus] += count;
+    });
+
+    return stats;
+  }
+
+  /**
+   * Normalizar os payloads e processá-los em um único lote pelo pipeline
+   * Um registro só é concluído se todos os seus eventos de domínio tiveram sucesso
+   */
+  private async processClaimed(
+    rows: WebhookEvent[]
+  ): Promise<Map<string, ProcessOutcome>> {
+    const outcomes = new Map<string, ProcessOutcome>();
+    const eventsByRow = new Map<string, DomainEvent[]>();
+
+    rows.forEach(row => {
+      const adapter = webhookAdapters[row.source as WebhookSource];
+
+      if (!adapter) {
+        outcomes.set(row.id, {
+          success: false,
+          error: `Origem desconhecida: ${row.source}`,
+        });
+
+        return;
+      }
+
+      try {
+        eventsByRow.set(row.id, adapter.normalize(row.payload));
+      } catch (error) {
+        outcomes.set(row.id, {
+          success: false,
+          error: error instanceof Error ? error.message : 'Payload inválido',
+        });
+      }
+    });
+
+    const events = Array.from(eventsByRow.values()).flat();
+
+    if (events.length === 0) return outcomes;
+
+    try {
+      const { results } = await webhookHandler.processEvents(events);
+      const resultsById = new Map(
+        results.map(result => [result.eventId, result])
+      );
+
+      eventsByRow.forEach((rowEvents, rowId) => {
+        const failed = rowEvents.filter(
+          event => !resultsById.get(event.id)?.success
+        );
+
+        outcomes.set(
+          rowId,
+          failed.length === 0
+            ? { success: true }
+            : {
+                success: false,
+                error:
+                  resultsById.get(failed[0].id)?.error ||
+                  'Evento não processado',
+              }
+        );
+      });
+    } catch (error) {
+      eventsByRow.forEach((_, rowId) =>
+        outcomes.set(rowId, {
+          success: false,
+          error: error instanceof Error ? error.message : 'Erro desconhecido',
+        })
+      );
+    }
+
+    return outcomes;
+  }
+
+  // Métodos auxiliares de mapeamento
+  private mapPrismaToEvent(event: WebhookEvent): WebhookQueueEvent {
+    return {
+      id: event.id,
+      source: event.source as WebhookSource,
+      externalId: event.externalId || undefined,
+      eventType: event.eventType || undefined,
+      payload: event.payload,
+      status: event.status,
+      attempts: event.attempts,
+      lastError: event.lastError || undefined,
+      nextAttemptAt: event.nextAttemptAt.toISOString(),
+      processedAt: event.processedAt?.toISOString(),
+      createdAt: event.createdAt.toISOString(),
+      updatedAt: event.updatedAt.toISOString(),
+    };
+  }
+}
+
+// Export da instância singleton
+export const webhookQueueService = WebhookQueueService.getInstance();
@@ -0,0 +1,205 @@
+/**
+ * File Storage - Adaptadores de armazenamento dos anexos de projetos
+ * Supabase Storage quando a service role key está configurada; caso contrário
+ * (ou com PROJECT_STORAGE_DRIVER=local) os arquivos ficam em disco e são
+ * servidos por /api/projects/attachments/file. Em produção o disco só é
+ * usado com PROJECT_STORAGE_DRIVER=local
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type {
+  FileStorageAdapter,
+  StorageDriver,
+  StoredFile,
+  StoredFileContent,
+} from '@/types/storage';
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+import { createClient } from '@supabase/supabase-js';
+
+const DEFAULT_BUCKET = 'project-attachments';
+const DEFAULT_LOCAL_DIR = '.storage/project-attachments';
+const LOCAL_FILE_ENDPOINT = '/api/projects/attachments/file';
+
+// Extensões servidas pelo adaptador local (o tipo não fica gravado em disco)
+// SVG fica de fora: pode conter scripts e seria servido pela origem do app
+const CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.pdf': 'application/pdf',
+};
+
+/**
+ * Supabase Storage (bucket público: a URL é usada diretamente nas miniaturas)
+ */
+export class SupabaseFileStorage implements FileStorageAdapter {
+  readonly driver = 'supabase' as const;
+  private client;
+
+  constructor(
+    url: string,
+    serviceRoleKey: string,
+    private bucket: string = DEFAULT_BUCKET
+  ) {
+    this.client = createClient(url, serviceRoleKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+  }
+
+  async put(
+    filePath: string,
+    data: ArrayBuffer,
+    contentType: string
+  ): Promise<StoredFile> {
+    const storage = this.client.storage.from(this.bucket);
+    const { error } = await storage.upload(filePath, data, {
+      contentType,
+      upsert: true,
+    });
+
+    if (error) throw new Error(`Supabase Storage: ${error.message}`);
+
+    return {
+      path: filePath,
+      url: storage.getPublicUrl(filePath).data.publicUrl,
+    };
+  }
+
+  async read(filePath: string): Promise<StoredFileContent | null> {
+    const { data, error } = await this.client.storage
+      .from(this.bucket)
+      .download(filePath);
+
+    if (error || !data) return null;
+
+    return {
+      data: await data.arrayBuffer(),
+      contentType: data.type || 'application/octet-stream',
+    };
+  }
+
+  async remove(filePath: string): Promise<void> {
+    const { error } = await this.client.storage
+      .from(this.bucket)
+      .remove([filePath]);
+
+    if (error) throw new Error(`Supabase Storage: ${error.message}`);
+  }
+}
+
+/**
+ * Sistema de arquivos local (desenvolvimento e testes)
+ */
+export class LocalFileStorage implements FileStorageAdapter {
+  readonly driver = 'local' as const;
+
+  constructor(private baseDir: string) {}
+
+  async put(
+    filePath: string,
+    data: ArrayBuffer,
+    _contentType: string
+  ): Promise<StoredFile> {
+    const target = this.resolve(filePath);
+
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, Buffer.from(data));
+
+    return {
+      path: filePath,
+      url: `${LOCAL_FILE_ENDPOINT}?path=${encodeURIComponent(filePath)}`,
+    };
+  }
+
+  async read(filePath: string): Promise<StoredFileContent | null> {
+    try {
+      const buffer = await fs.readFile(this.resolve(filePath));
+
+      return {
+        data: buffer.buffer.slice(
+          buffer.byteOffset,
+          buffer.byteOffset + buffer.byteLength
+        ) as ArrayBuffer,
+        contentType:
+          CONTENT_TYPES[path.extname(filePath).toLowerCase()] ||
+          'application/octet-stream',
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  async remove(filePath: string): Promise<void> {
+    await fs.rm(this.resolve(filePath), { force: true });
+  }
+
+  // Caminhos são relativos ao diretório base; "../" é recusado
+  private resolve(filePath: string): string {
+    const root = path.resolve(this.baseDir);
+    const target = path.resolve(root, filePath);
+
+    if (!target.startsWith(root + path.sep)) {
+      throw new Error(`Caminho de arquivo inválido: ${filePath}`);
+    }
+
+    return target;
+  }
+}
+
+let storage: FileStorageAdapter | null = null;
+
+/**
+ * Adaptador configurado pelo ambiente (instância única por processo)
+ */
+export function getFileStorage(): FileStorageAdapter {
+  if (storage) return storage;
+
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  const configuredDriver = process.env.PROJECT_STORAGE_DRIVER as
+    | StorageDriver
+    | undefined;
+  const driver: StorageDriver =
+    configuredDriver || (url && serviceRoleKey ? 'supabase' : 'local');
+
+  // Em produção (Vercel) o disco é efêmero e não compartilhado entre
+  // instâncias: o disco local só é usado quando escolhido explicitamente
+  if (
+    !configuredDriver &&
+    driver === 'local' &&
+    process.env.NODE_ENV === 'production'
+  ) {
+    throw new Error(
+      'Armazenamento de anexos não configurado: defina NEXT_PUBLIC_SUPABASE_URL e SUPABASE_SERVICE_ROLE_KEY (ou PROJECT_STORAGE_DRIVER=local com disco persistente)'
+    );
+  }
+
+  if (driver === 'supabase') {
+    if (!url || !serviceRoleKey) {
+      throw new Error(
+        'PROJECT_STORAGE_DRIVER=supabase requer NEXT_PUBLIC_SUPABASE_URL e SUPABASE_SERVICE_ROLE_KEY'
+      );
+    }
+
+    storage = new SupabaseFileStorage(
+      url,
+      serviceRoleKey,
+      process.env.PROJECT_STORAGE_BUCKET || DEFAULT_BUCKET
+    );
+  } else {
+    storage = new LocalFileStorage(
+      process.env.PROJECT_STORAGE_LOCAL_DIR || DEFAULT_LOCAL_DIR
+    );
+  }
+
+  console.log(`🗂️ Armazenamento de anexos: ${storage.driver}`);
+
+  return storage;
+}
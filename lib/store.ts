@@ -49,6 +49,9 @@ interface ProjectStore {
   isRealTimeSyncActive: () => boolean;
 }
 
+// Assinatura ativa do polling em tempo real
+let unsubscribeRealTime: (() => void) | null = null;
+
 export const useProjectStore = create<ProjectStore>()(
   devtools(
     persist(
@@ -205,39 +208,11 @@ export const useProjectStore = create<ProjectStore>()(
           set({ loading: true, error: null });
 
           try {
-            console.log(
-              '🔄 Store: Calling syncOrchestrator.performFullSync()...'
-            );
-
-            // Subscribe to real-time updates first
-            console.log('📡 Store: Subscribing to SyncOrchestrator updates...');
-            syncOrchestrator.subscribe((projects: Project[]) => {
-              console.log(
-                '📡 Store: Received update from SyncOrchestrator:',
-                projects.length,
-                'projects'
-              );
-              set({
-                projects,
-                lastUpdated: new Date().toLocaleString('pt-BR'),
-                error: null,
-                loading: false,
-              });
-            });
-
-            // Use new SyncOrchestrator for enhanced sync
-            const result = await syncOrchestrator.performFullSync();
+            // Leitura servida pelo banco em GET /api/projects
+            const projects = await syncOrchestrator.loadProjects();
 
-            console.log('✅ Store: Sync completed successfully!');
-            console.log('Result:', {
-              projectCount: result.projects.length,
-              metrics: result.metrics,
-              sampleProject: result.projects[0],
-            });
-
-            // Set data directly AND through subscription
             set({
-              projects: result.projects,
+              projects,
               loading: false,
               lastUpdated: new Date().toLocaleString('pt-BR'),
               error: null,
@@ -245,12 +220,12 @@ export const useProjectStore = create<ProjectStore>()(
 
             console.log(
               '💾 Store: State updated with',
-              result.projects.length,
+              projects.length,
               'projects'
             );
           } catch (error) {
-            console.error('❌ Store: Sync failed with error:', error);
-            // If sync fails, show empty state with error message
+            console.error('❌ Store: Fetch failed with error:', error);
+            // If fetch fails, show empty state with error message
             set({
               projects: [],
               error:
@@ -263,9 +238,28 @@ export const useProjectStore = create<ProjectStore>()(
         },
 
         refreshProjects: async () => {
-          const { fetchProjects } = get();
+          set({ loading: true, error: null });
 
-          await fetchProjects();
+          try {
+            // Sincronização completa Trello → banco executada no servidor
+            const result = await syncOrchestrator.performFullSync();
+
+            set({
+              projects: result.projects,
+              loading: false,
+              lastUpdated: new Date().toLocaleString('pt-BR'),
+              error: null,
+            });
+          } catch (error) {
+            console.error('❌ Store: Sync failed with error:', error);
+            set({
+              error:
+                error instanceof Error
+                  ? error.message
+                  : 'Erro ao sincronizar projetos',
+              loading: false,
+            });
+          }
         },
 
         clearFilters: () =>
@@ -277,27 +271,27 @@ export const useProjectStore = create<ProjectStore>()(
           }),
 
         startRealTimeSync: () => {
-          // Subscribe to SyncOrchestrator updates
-          syncOrchestrator.subscribe((projects: Project[]) => {
-            set({
-              projects,
-              lastUpdated: new Date().toLocaleString('pt-BR'),
-              error: null,
-            });
-          });
+          if (unsubscribeRealTime) return;
+
+          unsubscribeRealTime = syncOrchestrator.subscribe(
+            (projects: Project[]) => {
+              set({
+                projects,
+                lastUpdated: new Date().toLocaleString('pt-BR'),
+                error: null,
+              });
+            }
+          );
+          syncOrchestrator.startPolling();
         },
 
         stopRealTimeSync: () => {
-          // Real-time sync is managed by SyncOrchestrator subscriptions
-          // Individual unsubscribe would need to be implemented
+          syncOrchestrator.stopPolling();
+          unsubscribeRealTime?.();
+          unsubscribeRealTime = null;
         },
 
-        isRealTimeSyncActive: () => {
-          // Check if SyncOrchestrator has active subscriptions
-          const status = syncOrchestrator.getSystemStatus();
-
-          return status.orchestrator.subscribersCount > 0;
-        },
+        isRealTimeSyncActive: () => syncOrchestrator.isPolling(),
       }),
       {
         name: 'project-store',
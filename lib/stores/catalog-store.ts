@@ -0,0 +1,88 @@
+/**
+ * Catalog Store - Zustand State Management
+ * Catálogo de plataformas e membros compartilhado pelos componentes de projetos
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type { ProjectCatalog } from '@/types/catalog';
+
+import { useEffect } from 'react';
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+
+import { DEFAULT_PROJECT_CATALOG } from '@/lib/config/project-catalog';
+
+interface CatalogStore {
+  catalog: ProjectCatalog;
+  isLoaded: boolean;
+
+  setCatalog: (catalog: ProjectCatalog) => void;
+  fetchCatalog: (refresh?: boolean) => Promise<void>;
+}
+
+// Evita uma requisição por componente montado (cards, filtros, modais)
+let pendingFetch: Promise<void> | null = null;
+
+export const useCatalogStore = create<CatalogStore>()(
+  devtools(
+    persist(
+      (set, get) => ({
+        catalog: DEFAULT_PROJECT_CATALOG,
+        isLoaded: false,
+
+        setCatalog: catalog => set({ catalog, isLoaded: true }),
+
+        fetchCatalog: async (refresh = false) => {
+          if (get().isLoaded && !refresh) return;
+          if (pendingFetch) return pendingFetch;
+
+          pendingFetch = (async () => {
+            try {
+              const response = await fetch('/api/settings/catalog');
+
+              if (!response.ok) {
+                throw new Error('Falha ao buscar catálogo');
+              }
+
+              const data = await response.json();
+
+              if (data.success) {
+                set({ catalog: data.data, isLoaded: true });
+              } else {
+                throw new Error(data.error || 'Erro ao buscar catálogo');
+              }
+            } catch (error) {
+              // Mantém o catálogo atual (padrão ou persistido)
+              console.error('❌ Store: Erro ao buscar catálogo:', error);
+            } finally {
+              pendingFetch = null;
+            }
+          })();
+
+          return pendingFetch;
+        },
+      }),
+      {
+        name: 'catalog-store',
+        partialize: state => ({ catalog: state.catalog }),
+      }
+    ),
+    { name: 'catalog-store' }
+  )
+);
+
+/**
+ * Catálogo atual, carregado do servidor na primeira utilização
+ */
+export function useProjectCatalog(): ProjectCatalog {
+  const catalog = useCatalogStore(state => state.catalog);
+  const fetchCatalog = useCatalogStore(state => state.fetchCatalog);
+
+  useEffect(() => {
+    fetchCatalog();
+  }, [fetchCatalog]);
+
+  return catalog;
+}
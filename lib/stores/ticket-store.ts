@@ -7,6 +7,8 @@
  */
 
 import type {
+  BatchTicketResponse,
+  BatchTicketUpdate,
   Ticket,
   TicketFilters,
   CreateTicketData,
@@ -17,16 +19,35 @@ import type {
   TicketsByStage,
   TicketsByOwner,
 } from '@/types/ticket';
+import type { TicketSystemSettings } from '@/types/settings';
+import type { AssignmentRunSummary } from '@/types/assignment';
+import type { SlaPolicy, TicketSlaStatus } from '@/types/sla';
 
 import { create } from 'zustand';
 import { devtools, persist } from 'zustand/middleware';
 
+import {
+  DEFAULT_TICKET_SETTINGS,
+  getClosedStageIds,
+  getSlaStageIds,
+} from '@/lib/config/ticket-settings';
+import { DEFAULT_SLA_POLICY } from '@/lib/config/sla';
+import { evaluateTicketSla } from '@/lib/utils/sla-engine';
+import { getTimeToCloseHours } from '@/lib/utils/ticket-analytics';
+
+// Opções de atualização (optimistic = aplica localmente antes do HubSpot)
+interface UpdateTicketOptions {
+  optimistic?: boolean;
+}
+
 // Interface do store
 interface TicketStore {
   // Estado principal
   tickets: Ticket[];
   pipelines: Pipeline[];
   owners: Owner[];
+  settings: TicketSystemSettings;
+  slaPolicy: SlaPolicy;
   loading: boolean;
   error: string | null;
   lastUpdated: string | null;
@@ -39,6 +60,9 @@ interface TicketStore {
   hasMore: boolean;
   nextCursor?: string;
 
+  // Seleção múltipla no Kanban (hubspotIds, não persistida)
+  selectedTicketIds: string[];
+
   // Actions - Estado
   setTickets: (tickets: Ticket[]) => void;
   addTicket: (ticket: Ticket) => void;
@@ -46,6 +70,7 @@ interface TicketStore {
   removeTicket: (ticketId: string) => void;
   setPipelines: (pipelines: Pipeline[]) => void;
   setOwners: (owners: Owner[]) => void;
+  setSettings: (settings: TicketSystemSettings) => void;
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
   setLastUpdated: (timestamp: string) => void;
@@ -55,23 +80,37 @@ interface TicketStore {
   setSearchQuery: (query: string) => void;
   clearFilters: () => void;
 
+  // Actions - Seleção
+  toggleTicketSelection: (hubspotId: string) => void;
+  setTicketSelection: (hubspotIds: string[]) => void;
+  clearTicketSelection: () => void;
+
   // Actions - API
   fetchTickets: (refresh?: boolean) => Promise<void>;
   fetchMoreTickets: () => Promise<void>;
   fetchPipelines: () => Promise<void>;
   fetchOwners: () => Promise<void>;
+  fetchSettings: () => Promise<void>;
+  fetchSlaPolicy: () => Promise<void>;
   createTicket: (ticketData: CreateTicketData) => Promise<Ticket>;
   updateTicketById: (
     ticketId: string,
-    updates: UpdateTicketData
+    updates: UpdateTicketData,
+    options?: UpdateTicketOptions
   ) => Promise<Ticket>;
   deleteTicketById: (ticketId: string) => Promise<void>;
+  autoAssignTickets: (hubspotIds?: string[]) => Promise<AssignmentRunSummary>;
+  batchUpdateTickets: (
+    hubspotIds: string[],
+    updates: BatchTicketUpdate
+  ) => Promise<BatchTicketResponse>;
 
   // Getters computados
   getFilteredTickets: () => Ticket[];
   getTicketsByStage: () => TicketsByStage;
   getTicketsByOwner: () => TicketsByOwner;
   getTicketStats: () => TicketStats;
+  getTicketSla: (ticket: Ticket) => TicketSlaStatus;
   getTicketById: (id: string) => Ticket | undefined;
   getPipelineById: (id: string) => Pipeline | undefined;
   getOwnerById: (id: string) => Owner | undefined;
@@ -89,6 +128,8 @@ export const useTicketStore = create<TicketStore>()(
         tickets: [],
         pipelines: [],
         owners: [],
+        settings: DEFAULT_TICKET_SETTINGS,
+        slaPolicy: DEFAULT_SLA_POLICY,
         loading: false,
         error: null,
         lastUpdated: null,
@@ -101,6 +142,9 @@ export const useTicketStore = create<TicketStore>()(
         hasMore: false,
         nextCursor: undefined,
 
+        // Seleção inicial
+        selectedTicketIds: [],
+
         // Actions - Estado
         setTickets: tickets => set({ tickets, error: null }),
 
@@ -112,7 +156,9 @@ export const useTicketStore = create<TicketStore>()(
         updateTicket: (ticketId, updates) =>
           set(state => ({
             tickets: state.tickets.map(ticket =>
-              ticket.id === ticketId ? { ...ticket, ...updates } : ticket
+              ticket.id === ticketId || ticket.hubspotId === ticketId
+                ? { ...ticket, ...updates }
+                : ticket
             ),
           })),
 
@@ -123,6 +169,7 @@ export const useTicketStore = create<TicketStore>()(
 
         setPipelines: pipelines => set({ pipelines }),
         setOwners: owners => set({ owners }),
+        setSettings: settings => set({ settings }),
         setLoading: loading => set({ loading }),
         setError: error => set({ error, loading: false }),
         setLastUpdated: timestamp => set({ lastUpdated: timestamp }),
@@ -141,6 +188,19 @@ export const useTicketStore = create<TicketStore>()(
             searchQuery: '',
           }),
 
+        // Actions - Seleção
+        toggleTicketSelection: hubspotId =>
+          set(state => ({
+            selectedTicketIds: state.selectedTicketIds.includes(hubspotId)
+              ? state.selectedTicketIds.filter(id => id !== hubspotId)
+              : [...state.selectedTicketIds, hubspotId],
+          })),
+
+        setTicketSelection: hubspotIds =>
+          set({ selectedTicketIds: [...new Set(hubspotIds)] }),
+
+        clearTicketSelection: () => set({ selectedTicketIds: [] }),
+
         // Actions - API
         fetchTickets: async (refresh = false) => {
           const { filters, searchQuery } = get();
@@ -306,6 +366,54 @@ export const useTicketStore = create<TicketStore>()(
           }
         },
 
+        fetchSettings: async () => {
+          console.log('⚙️ Store: Fetching settings...');
+
+          try {
+            const response = await fetch('/api/settings/tickets');
+
+            if (!response.ok) {
+              throw new Error('Falha ao buscar configurações');
+            }
+
+            const data = await response.json();
+
+            if (data.success) {
+              set({ settings: data.data });
+              console.log('✅ Store: Configurações carregadas');
+            } else {
+              throw new Error(data.error || 'Erro ao buscar configurações');
+            }
+          } catch (error) {
+            // Mantém as configurações atuais (padrão ou persistidas)
+            console.error('❌ Store: Erro ao buscar configurações:', error);
+          }
+        },
+
+        fetchSlaPolicy: async () => {
+          console.log('⏱️ Store: Fetching SLA policy...');
+
+          try {
+            const response = await fetch('/api/settings/sla');
+
+            if (!response.ok) {
+              throw new Error('Falha ao buscar política de SLA');
+            }
+
+            const data = await response.json();
+
+            if (data.success) {
+              set({ slaPolicy: data.data });
+              console.log('✅ Store: Política de SLA carregada');
+            } else {
+              throw new Error(data.error || 'Erro ao buscar política de SLA');
+            }
+          } catch (error) {
+            // Mantém a política atual (padrão ou persistida)
+            console.error('❌ Store: Erro ao buscar política de SLA:', error);
+          }
+        },
+
         createTicket: async ticketData => {
           console.log('🎫 Store: Creating ticket...', ticketData);
 
@@ -346,44 +454,59 @@ export const useTicketStore = create<TicketStore>()(
           }
         },
 
-        updateTicketById: async (ticketId, updates) => {
+        updateTicketById: async (ticketId, updates, options = {}) => {
+          const { optimistic = false } = options;
+
           console.log(`🎫 Store: Updating ticket ${ticketId}...`, updates);
 
-          set({ loading: true });
+          // Snapshot para rollback caso o HubSpot rejeite a alteração
+          const previousTicket = get().getTicketById(ticketId);
+          const hubspotId = previousTicket?.hubspotId || ticketId;
+
+          if (optimistic && previousTicket) {
+            get().updateTicket(hubspotId, updates as Partial<Ticket>);
+          } else {
+            set({ loading: true });
+          }
 
           try {
-            const response = await fetch(`/api/tickets/${ticketId}`, {
+            const response = await fetch(`/api/tickets/${hubspotId}`, {
               method: 'PATCH',
               headers: { 'Content-Type': 'application/json' },
               body: JSON.stringify(updates),
             });
 
-            if (!response.ok) {
-              throw new Error('Falha ao atualizar ticket');
+            const data = await response.json().catch(() => null);
+
+            if (!response.ok || !data?.success) {
+              throw new Error(data?.error || 'Falha ao atualizar ticket');
             }
 
-            const data = await response.json();
+            const updatedTicket: Ticket = {
+              ...data.data,
+              id: previousTicket?.id || data.data.id,
+            };
 
-            if (data.success) {
-              const updatedTicket = data.data;
+            get().updateTicket(hubspotId, updatedTicket);
+            set({ loading: false });
+            console.log('✅ Store: Ticket atualizado com sucesso');
 
-              get().updateTicket(ticketId, updatedTicket);
-              set({ loading: false });
-              console.log('✅ Store: Ticket atualizado com sucesso');
+            return updatedTicket;
+          } catch (error) {
+            console.error('❌ Store: Erro ao atualizar ticket:', error);
 
-              return updatedTicket;
+            if (optimistic && previousTicket) {
+              // Rollback: restaurar estado anterior sem bloquear o board
+              get().updateTicket(hubspotId, previousTicket);
             } else {
-              throw new Error(data.error || 'Erro ao atualizar ticket');
+              set({
+                error:
+                  error instanceof Error
+                    ? error.message
+                    : 'Erro ao atualizar ticket',
+                loading: false,
+              });
             }
-          } catch (error) {
-            console.error('❌ Store: Erro ao atualizar ticket:', error);
-            set({
-              error:
-                error instanceof Error
-                  ? error.message
-                  : 'Erro ao atualizar ticket',
-              loading: false,
-            });
             throw error;
           }
         },
@@ -424,9 +547,84 @@ export const useTicketStore = create<TicketStore>()(
           }
         },
 
+        autoAssignTickets: async hubspotIds => {
+          console.log('🎫 Store: Distribuindo tickets sem responsável...');
+
+          const response = await fetch('/api/tickets/assignment', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ hubspotIds }),
+          });
+
+          const data = await response.json().catch(() => null);
+
+          if (!response.ok || !data?.success) {
+            throw new Error(
+              data?.details || data?.error || 'Falha ao atribuir tickets'
+            );
+          }
+
+          const summary: AssignmentRunSummary = data.data;
+
+          // Refletir no board os responsáveis gravados no HubSpot
+          summary.items.forEach(item => {
+            if (item.technicianId && !item.error) {
+              get().updateTicket(item.hubspotId, {
+                hubspotOwnerId: item.technicianId,
+              });
+            }
+          });
+
+          return summary;
+        },
+
+        batchUpdateTickets: async (hubspotIds, updates) => {
+          console.log(
+            `🎫 Store: Atualizando ${hubspotIds.length} ticket(s) em lote...`,
+            updates
+          );
+
+          const response = await fetch('/api/tickets/batch', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ hubspotIds, updates }),
+          });
+
+          const data = await response.json().catch(() => null);
+
+          if (!response.ok || !data?.success) {
+            throw new Error(
+              data?.details?.[0]?.message ||
+                data?.error ||
+                'Falha ao atualizar tickets'
+            );
+          }
+
+          const batch: BatchTicketResponse = data.data;
+
+          batch.results.forEach(result => {
+            if (result.success && result.ticket) {
+              get().updateTicket(result.hubspotId, {
+                ...result.ticket,
+                id:
+                  get().getTicketById(result.hubspotId)?.id || result.ticket.id,
+              });
+            }
+          });
+
+          // Manter selecionados apenas os que falharam, para nova tentativa
+          set({
+            selectedTicketIds: batch.results
+              .filter(result => !result.success)
+              .map(result => result.hubspotId),
+          });
+
+          return batch;
+        },
+
         // Getters computados
         getFilteredTickets: () => {
-          const { tickets, filters, searchQuery } = get();
+          const { tickets, filters, searchQuery, getTicketSla } = get();
 
           return tickets.filter(ticket => {
             // Filtro por busca textual
@@ -445,7 +643,12 @@ export const useTicketStore = create<TicketStore>()(
               return false;
             if (filters.priority && ticket.priority !== filters.priority)
               return false;
-            if (filters.ownerId && ticket.hubspotOwnerId !== filters.ownerId)
+            if (filters.ownerId === 'unassigned') {
+              if (ticket.hubspotOwnerId) return false;
+            } else if (
+              filters.ownerId &&
+              ticket.hubspotOwnerId !== filters.ownerId
+            )
               return false;
             if (
               filters.pipelineStageId &&
@@ -454,19 +657,30 @@ export const useTicketStore = create<TicketStore>()(
               return false;
             if (filters.category && ticket.category !== filters.category)
               return false;
+            if (
+              filters.slaState &&
+              getTicketSla(ticket).state !== filters.slaState
+            )
+              return false;
 
             return true;
           });
         },
 
         getTicketsByStage: () => {
-          const { getFilteredTickets, pipelines } = get();
+          const { getFilteredTickets, pipelines, settings } = get();
           const tickets = getFilteredTickets();
+          const closedStageIds = getClosedStageIds(settings);
           const ticketsByStage: TicketsByStage = {};
 
-          // Agrupar por pipeline stage
+          // Agrupar por pipeline stage; abertos sem responsável ficam na
+          // coluna "Não Atribuídos" até serem distribuídos
           tickets.forEach(ticket => {
-            const stageId = ticket.pipelineStageId;
+            const stageId =
+              !ticket.hubspotOwnerId &&
+              !closedStageIds.includes(ticket.pipelineStageId)
+                ? 'unassigned'
+                : ticket.pipelineStageId;
 
             if (!ticketsByStage[stageId]) {
               // Encontrar informações do stage
@@ -484,7 +698,10 @@ export const useTicketStore = create<TicketStore>()(
               ticketsByStage[stageId] = {
                 stage: stage || {
                   id: stageId,
-                  label: `Stage ${stageId}`,
+                  label:
+                    stageId === 'unassigned'
+                      ? 'Não Atribuídos'
+                      : `Stage ${stageId}`,
                   displayOrder: 0,
                   metadata: { isClosed: false },
                   createdAt: '',
@@ -539,7 +756,7 @@ export const useTicketStore = create<TicketStore>()(
         },
 
         getTicketStats: () => {
-          const { getFilteredTickets } = get();
+          const { getFilteredTickets, getTicketSla } = get();
           const tickets = getFilteredTickets();
 
           const stats: TicketStats = {
@@ -561,7 +778,9 @@ export const useTicketStore = create<TicketStore>()(
             openTickets: 0,
             closedTickets: 0,
             overdueTickets: 0,
+            atRiskTickets: 0,
           };
+          const closeHours: number[] = [];
 
           tickets.forEach(ticket => {
             // Por status
@@ -581,11 +800,38 @@ export const useTicketStore = create<TicketStore>()(
             } else {
               stats.closedTickets += 1;
             }
+
+            // SLA (mesma avaliação usada pelos cards e filtros)
+            const slaState = getTicketSla(ticket).state;
+
+            if (slaState === 'breached') stats.overdueTickets += 1;
+            if (slaState === 'at_risk') stats.atRiskTickets += 1;
+
+            const hours = getTimeToCloseHours(ticket);
+
+            if (hours !== null) closeHours.push(hours);
           });
 
+          // Média dos tickets carregados; o histórico completo fica em /tickets/analytics
+          if (closeHours.length > 0) {
+            stats.avgTimeToClose =
+              Math.round(
+                (closeHours.reduce((sum, hours) => sum + hours, 0) /
+                  closeHours.length) *
+                  10
+              ) / 10;
+          }
+
           return stats;
         },
 
+        // Política configurada + estágios fechados e de espera das configurações
+        getTicketSla: ticket => {
+          const { slaPolicy, settings } = get();
+
+          return evaluateTicketSla(ticket, slaPolicy, getSlaStageIds(settings));
+        },
+
         getTicketById: id => {
           const { tickets } = get();
 
@@ -608,11 +854,19 @@ export const useTicketStore = create<TicketStore>()(
 
         // Utility actions
         refreshData: async () => {
-          const { fetchTickets, fetchPipelines, fetchOwners } = get();
+          const {
+            fetchTickets,
+            fetchPipelines,
+            fetchOwners,
+            fetchSettings,
+            fetchSlaPolicy,
+          } = get();
 
           console.log('🔄 Store: Refreshing all data...');
 
           await Promise.all([
+            fetchSettings(),
+            fetchSlaPolicy(),
             fetchTickets(true),
             fetchPipelines(),
             fetchOwners(),
@@ -627,6 +881,8 @@ export const useTicketStore = create<TicketStore>()(
           tickets: state.tickets,
           pipelines: state.pipelines,
           owners: state.owners,
+          settings: state.settings,
+          slaPolicy: state.slaPolicy,
           lastUpdated: state.lastUpdated,
         }),
       }
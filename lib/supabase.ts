@@ -1,6 +1,13 @@
+import type { ProjectCatalog } from '@/types/catalog';
+
 import { createClient } from '@supabase/supabase-js';
 
 import { Project } from '@/types/project';
+import { DEFAULT_PROJECT_CATALOG } from '@/lib/config/project-catalog';
+import {
+  mapTrelloLabelsToPlattforms,
+  mapTrelloMembersToTeam,
+} from '@/lib/utils/transformers';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
@@ -108,7 +115,10 @@ export const projectsApi = {
   },
 
   // Sync with Trello
-  async syncFromTrello(trelloData: any[]): Promise<Project[]> {
+  async syncFromTrello(
+    trelloData: any[],
+    catalog: ProjectCatalog = DEFAULT_PROJECT_CATALOG
+  ): Promise<Project[]> {
     if (!supabase) throw new Error('Supabase not configured');
 
     const projects = trelloData.map(card => ({
@@ -116,8 +126,11 @@ export const projectsApi = {
       title: card.name,
       description: card.desc || '',
       progress: calculateProgressFromTrello(card),
-      platforms: extractPlatformsFromTrello(card),
-      responsible: extractResponsibleFromTrello(card),
+      platforms: mapTrelloLabelsToPlattforms(card.labels || [], catalog),
+      responsible: mapTrelloMembersToTeam(card.members || [], catalog).slice(
+        0,
+        1
+      ),
       startDate: card.dateLastActivity || new Date().toISOString(),
       estimatedEndDate:
         card.due ||
@@ -198,40 +211,6 @@ function calculateProgressFromTrello(card: any): number {
   return 0;
 }
 
-function extractPlatformsFromTrello(card: any): string[] {
-  const labels = card.labels || [];
-  const platforms: string[] = [];
-
-  labels.forEach((label: any) => {
-    const name = label.name?.toLowerCase() || '';
-
-    if (name.includes('n8n')) platforms.push('N8N');
-    if (name.includes('jira')) platforms.push('Jira');
-    if (name.includes('hubspot')) platforms.push('Hubspot');
-    if (name.includes('backoffice')) platforms.push('Backoffice');
-    if (name.includes('google') || name.includes('workspace'))
-      platforms.push('Google Workspace');
-  });
-
-  return platforms.length > 0 ? platforms : ['Backoffice'];
-}
-
-function extractResponsibleFromTrello(card: any): string {
-  const members = card.members || [];
-
-  if (members.length > 0) {
-    const member = members[0];
-    const fullName = member.fullName || member.username || '';
-
-    // Map Trello users to team members
-    if (fullName.toLowerCase().includes('guilherme')) return 'Guilherme Souza';
-    if (fullName.toLowerCase().includes('felipe')) return 'Felipe Braat';
-    if (fullName.toLowerCase().includes('tiago')) return 'Tiago Triani';
-  }
-
-  return 'Guilherme Souza'; // Default
-}
-
 function mapTrelloStatusToProject(listName?: string): string {
   if (!listName) return 'planning';
 
@@ -1,16 +1,56 @@
-import { Project, Platform, TeamMember } from '@/types/project';
+import type { ProjectCatalog } from '@/types/catalog';
+import type { TrelloAction } from '@/types/webhook-pipeline';
+
+import {
+  Project,
+  Platform,
+  ProjectChecklist,
+  TeamMember,
+} from '@/types/project';
 import {
   getAPIConfig,
   isTrelloConfigured,
   RATE_LIMITS,
 } from '@/lib/config/api';
 import { RateLimiter, APIError, sanitizeString } from '@/lib/utils/validation';
+import {
+  DEFAULT_PROJECT_CATALOG,
+  findPlatform,
+  getDefaultMemberNames,
+  getDefaultPlatformNames,
+} from '@/lib/config/project-catalog';
+import { projectCatalogService } from '@/lib/services/project-catalog';
+import {
+  calculateChecklistProgress,
+  findTrelloMember,
+  getCoverUrl,
+  formatProgressLabel,
+  getFreeLabels,
+  getPlatformLabelName,
+  isManagedLabel,
+  mapTrelloAttachments,
+  mapTrelloChecklists,
+  matchPlatformLabel,
+  matchPriorityLabel,
+  matchTeamMembers,
+  parseProgressLabel,
+  PRIORITY_LABELS,
+  resolvePriorityFromLabels,
+  resolveProgressFromLabels,
+  type TrelloAttachmentLike,
+  type TrelloChecklistLike,
+} from '@/lib/utils/trello-fields';
+
+// Anexos lidos com o card (lista completa; a capa é idAttachmentCover)
+const CARD_ATTACHMENT_PARAMS =
+  'attachments=true&attachment_fields=name,url,mimeType,bytes,isUpload,date';
 
 interface TrelloCard {
   id: string;
   name: string;
   desc: string;
   due: string | null;
+  start?: string | null;
   dateLastActivity: string;
   list: {
     id: string;
@@ -30,6 +70,11 @@ interface TrelloCard {
     checkItems: number;
     checkItemsChecked: number;
   };
+  // Presente quando lido com checklists=all
+  checklists?: TrelloChecklistLike[];
+  // Presente quando lido com CARD_ATTACHMENT_PARAMS
+  attachments?: TrelloAttachmentLike[];
+  idAttachmentCover?: string | null;
   // Additional fields that might be present in the real API response
   idList?: string;
   idBoard?: string;
@@ -46,6 +91,18 @@ interface TrelloList {
   pos: number;
 }
 
+interface TrelloBoardLabel {
+  id: string;
+  name: string;
+  color: string | null;
+}
+
+interface TrelloBoardMember {
+  id: string;
+  fullName: string;
+  username: string;
+}
+
 export class TrelloAPI {
   private lastSync: Date | null = null;
   private syncInterval: ReturnType<typeof setTimeout> | null = null;
@@ -59,7 +116,7 @@ export class TrelloAPI {
   ): Promise<any> {
     if (!isTrelloConfigured()) {
       throw new APIError(
-        'Trello API credentials not configured. Please set NEXT_PUBLIC_TRELLO_API_KEY and NEXT_PUBLIC_TRELLO_API_TOKEN in your .env.local file.',
+        'Trello API credentials not configured. Please set TRELLO_API_KEY and TRELLO_API_TOKEN in your .env.local file.',
         401,
         endpoint
       );
@@ -87,11 +144,14 @@ export class TrelloAPI {
     url.searchParams.append('key', this.config.trello.apiKey!);
     url.searchParams.append('token', this.config.trello.apiToken!);
 
+    // Uploads (multipart) definem o próprio Content-Type com o boundary
+    const isMultipart = options.body instanceof FormData;
+
     try {
       const response = await fetch(url.toString(), {
         ...options,
         headers: {
-          'Content-Type': 'application/json',
+          ...(isMultipart ? {} : { 'Content-Type': 'application/json' }),
           'User-Agent': 'inPatch-Suporte/1.0',
           ...options.headers,
         },
@@ -131,6 +191,18 @@ export class TrelloAPI {
     return lists;
   }
 
+  async getBoardLabels(): Promise<TrelloBoardLabel[]> {
+    return this.makeRequest(
+      `/boards/${this.config.trello.boardId}/labels?fields=name,color&limit=1000`
+    );
+  }
+
+  async getBoardMembers(): Promise<TrelloBoardMember[]> {
+    return this.makeRequest(
+      `/boards/${this.config.trello.boardId}/members?fields=fullName,username`
+    );
+  }
+
   /**
    * Resolve a Trello list ID from an inPatch Project status using flexible name matching.
    * Caches results for future lookups.
@@ -202,6 +274,9 @@ export class TrelloAPI {
       'labels=true&' +
       'list=true&' +
       'badges=true&' +
+      'checklists=all&' +
+      'checklist_fields=name,pos&' +
+      `${CARD_ATTACHMENT_PARAMS}&` +
       'lists=open';
 
     if (since) {
@@ -259,7 +334,11 @@ export class TrelloAPI {
         'member_fields=fullName,username&' +
         'labels=true&' +
         'list=true&' +
-        'badges=true'
+        'badges=true&' +
+        'checklists=all&' +
+        'checklist_fields=name,pos&' +
+        'checkItem_fields=name,state,pos,due,idMember&' +
+        CARD_ATTACHMENT_PARAMS
     );
   }
 
@@ -274,6 +353,17 @@ export class TrelloAPI {
       due: project.estimatedEndDate
         ? new Date(project.estimatedEndDate).toISOString()
         : null,
+      start: project.startDate
+        ? new Date(project.startDate).toISOString()
+        : null,
+      // Progresso 0 é o padrão de card novo; não precisa de label
+      idLabels: (
+        await this.resolveLabelIds({
+          ...project,
+          progress: project.progress || undefined,
+        })
+      ).join(','),
+      idMembers: (await this.resolveMemberIds(project.responsible)).join(','),
     };
 
     const newCard = await this.makeRequest('/cards', {
@@ -281,20 +371,27 @@ export class TrelloAPI {
       body: JSON.stringify(cardData),
     });
 
-    // Ensure list, labels, members and badges are included in the response
+    if (project.imageUrl) {
+      await this.setCoverImage(newCard.id, project.imageUrl);
+    }
+
+    // Ensure list, labels, members, badges and cover are included in the response
     if (
       !newCard.list ||
       !newCard.labels ||
       !newCard.members ||
-      !newCard.badges
+      !newCard.badges ||
+      !newCard.attachments
     ) {
       const fullCard = await this.makeRequest(
-        `/cards/${newCard.id}?list=true&labels=all&members=true&badges=true`
+        `/cards/${newCard.id}?list=true&labels=all&members=true&badges=true&${CARD_ATTACHMENT_PARAMS}`
       );
 
       if (!newCard.list) newCard.list = fullCard.list;
       if (!newCard.labels) newCard.labels = fullCard.labels || [];
       if (!newCard.members) newCard.members = fullCard.members || [];
+      if (!newCard.attachments)
+        newCard.attachments = fullCard.attachments || [];
       if (!newCard.badges)
         newCard.badges = fullCard.badges || {
           checkItems: 0,
@@ -310,18 +407,55 @@ export class TrelloAPI {
     updates: Partial<Project>
   ): Promise<TrelloCard> {
     const cardData: any = {};
+    const touchesLabels =
+      !!updates.platforms ||
+      !!updates.priority ||
+      !!updates.labels ||
+      updates.progress !== undefined;
 
     if (updates.title) cardData.name = updates.title;
-    if (updates.description) cardData.desc = updates.description;
+    if (updates.description !== undefined) {
+      cardData.desc = updates.description;
+    }
     if (updates.estimatedEndDate) {
       cardData.due = new Date(updates.estimatedEndDate).toISOString();
     }
+    if (updates.startDate) {
+      cardData.start = new Date(updates.startDate).toISOString();
+    }
+
+    // Labels e membros são substituídos em bloco; o estado atual preserva
+    // o que não foi editado
+    const current =
+      touchesLabels || updates.responsible || updates.imageUrl
+        ? await this.getCard(cardId)
+        : null;
+
+    if (touchesLabels) {
+      cardData.idLabels = (
+        await this.resolveLabelIds(updates, current?.labels)
+      ).join(',');
+    }
+    if (updates.responsible) {
+      cardData.idMembers = (
+        await this.resolveMemberIds(updates.responsible, current?.members)
+      ).join(',');
+    }
+    if (updates.imageUrl === '') cardData.idAttachmentCover = null;
 
     const updatedCard = await this.makeRequest(`/cards/${cardId}`, {
       method: 'PUT',
       body: JSON.stringify(cardData),
     });
 
+    if (
+      updates.imageUrl &&
+      getCoverUrl(current?.attachments, current?.idAttachmentCover) !==
+        updates.imageUrl
+    ) {
+      await this.setCoverImage(cardId, updates.imageUrl);
+    }
+
     // If status change requested, move card to corresponding list
     if (updates.status) {
       try {
@@ -339,20 +473,24 @@ export class TrelloAPI {
       }
     }
 
-    // Ensure list, labels, members and badges are included in the response
+    // Ensure list, labels, members, badges and cover are included in the response
     if (
       !updatedCard.list ||
       !updatedCard.labels ||
       !updatedCard.members ||
-      !updatedCard.badges
+      !updatedCard.badges ||
+      !updatedCard.attachments
     ) {
       const fullCard = await this.makeRequest(
-        `/cards/${cardId}?list=true&labels=all&members=true&badges=true`
+        `/cards/${cardId}?list=true&labels=all&members=true&badges=true&${CARD_ATTACHMENT_PARAMS}`
       );
 
       if (!updatedCard.list) updatedCard.list = fullCard.list;
       if (!updatedCard.labels) updatedCard.labels = fullCard.labels || [];
       if (!updatedCard.members) updatedCard.members = fullCard.members || [];
+      if (!updatedCard.attachments) {
+        updatedCard.attachments = fullCard.attachments || [];
+      }
       if (!updatedCard.badges)
         updatedCard.badges = fullCard.badges || {
           checkItems: 0,
@@ -363,6 +501,274 @@ export class TrelloAPI {
     return updatedCard;
   }
 
+  /**
+   * IDs das labels do card: plataformas, prioridade, progresso e labels livres
+   * Campos ausentes em `fields` mantêm as labels atuais da categoria
+   */
+  private async resolveLabelIds(
+    fields: Partial<Project>,
+    current: TrelloCard['labels'] = []
+  ): Promise<string[]> {
+    const [boardLabels, catalog] = await Promise.all([
+      this.getBoardLabels(),
+      projectCatalogService.getCatalog(),
+    ]);
+    const labelIds = current
+      .filter(label => {
+        const name = label?.name || '';
+
+        if (fields.platforms && matchPlatformLabel(name, catalog).length > 0) {
+          return false;
+        }
+        if (
+          fields.priority &&
+          (matchPriorityLabel(name) ||
+            (!name && resolvePriorityFromLabels([label], catalog)))
+        ) {
+          return false;
+        }
+        if (
+          fields.progress !== undefined &&
+          parseProgressLabel(name) !== null
+        ) {
+          return false;
+        }
+
+        return !(fields.labels && name && !isManagedLabel(name, catalog));
+      })
+      .map(label => label.id);
+
+    for (const platform of fields.platforms || []) {
+      labelIds.push(
+        await this.ensureBoardLabel(
+          boardLabels,
+          getPlatformLabelName(platform, catalog),
+          findPlatform(catalog, platform)?.color || null,
+          label =>
+            matchPlatformLabel(label.name || '', catalog).includes(platform)
+        )
+      );
+    }
+
+    if (fields.priority) {
+      const { name, color } = PRIORITY_LABELS[fields.priority];
+
+      labelIds.push(
+        await this.ensureBoardLabel(
+          boardLabels,
+          name,
+          color,
+          label => matchPriorityLabel(label.name || '') === fields.priority
+        )
+      );
+    }
+
+    if (fields.progress !== undefined) {
+      labelIds.push(
+        await this.ensureBoardLabel(
+          boardLabels,
+          formatProgressLabel(fields.progress),
+          null
+        )
+      );
+    }
+
+    for (const name of getFreeLabels(fields.labels, catalog)) {
+      labelIds.push(
+        await this.ensureBoardLabel(boardLabels, name.trim(), null)
+      );
+    }
+
+    return Array.from(new Set(labelIds));
+  }
+
+  /**
+   * Label do quadro com o nome informado (ou compatível), criada se não existir
+   */
+  private async ensureBoardLabel(
+    boardLabels: TrelloBoardLabel[],
+    name: string,
+    color: string | null,
+    matches?: (label: TrelloBoardLabel) => boolean
+  ): Promise<string> {
+    const normalized = name.toLowerCase();
+    const existing =
+      boardLabels.find(
+        label => (label.name || '').toLowerCase() === normalized
+      ) || (matches ? boardLabels.find(matches) : undefined);
+
+    if (existing) return existing.id;
+
+    const created: TrelloBoardLabel = await this.makeRequest('/labels', {
+      method: 'POST',
+      body: JSON.stringify({
+        name,
+        color,
+        idBoard: this.config.trello.boardId,
+      }),
+    });
+
+    console.log('🏷️ Created Trello label:', name);
+    boardLabels.push(created);
+
+    return created.id;
+  }
+
+  /**
+   * IDs dos membros do card; membros de fora do time são preservados
+   */
+  private async resolveMemberIds(
+    responsible: TeamMember[],
+    current: TrelloCard['members'] = []
+  ): Promise<string[]> {
+    const [boardMembers, catalog] = await Promise.all([
+      this.getBoardMembers(),
+      projectCatalogService.getCatalog(),
+    ]);
+    const memberIds = current
+      .filter(member => matchTeamMembers(member, catalog).length === 0)
+      .map(member => member.id);
+
+    for (const teamMember of responsible) {
+      const boardMember = findTrelloMember(teamMember, boardMembers, catalog);
+
+      if (!boardMember) {
+        throw new APIError(
+          `Responsável "${teamMember}" não é membro do quadro do Trello`,
+          422,
+          `/boards/${this.config.trello.boardId}/members`
+        );
+      }
+
+      memberIds.push(boardMember.id);
+    }
+
+    return Array.from(new Set(memberIds));
+  }
+
+  /**
+   * Anexa a imagem ao card e a define como capa
+   */
+  private async setCoverImage(cardId: string, imageUrl: string): Promise<void> {
+    await this.makeRequest(`/cards/${cardId}/attachments`, {
+      method: 'POST',
+      body: JSON.stringify({ url: imageUrl, setCover: true }),
+    });
+  }
+
+  /**
+   * Anexa um link ao card (ex.: referência a outro card) e retorna o anexo
+   */
+  async addLinkAttachment(
+    cardId: string,
+    url: string,
+    name: string
+  ): Promise<{ id: string; url: string; name: string }> {
+    return this.makeRequest(`/cards/${cardId}/attachments`, {
+      method: 'POST',
+      body: JSON.stringify({ url, name: sanitizeString(name) }),
+    });
+  }
+
+  /**
+   * Envia um arquivo como anexo do card (opcionalmente definido como capa)
+   */
+  async addFileAttachment(
+    cardId: string,
+    file: Blob,
+    name: string,
+    setCover: boolean = false
+  ): Promise<TrelloAttachmentLike> {
+    const form = new FormData();
+
+    form.append('file', file, name);
+    form.append('name', sanitizeString(name));
+    form.append('setCover', String(setCover));
+
+    return this.makeRequest(`/cards/${cardId}/attachments`, {
+      method: 'POST',
+      body: form,
+    });
+  }
+
+  /**
+   * Baixa um anexo enviado ao Trello (o download exige o cabeçalho OAuth)
+   */
+  async downloadAttachment(
+    url: string
+  ): Promise<{ data: ArrayBuffer; contentType: string | null }> {
+    if (!isTrelloConfigured()) {
+      throw new APIError('Trello API credentials not configured.', 401, url);
+    }
+
+    const { apiKey, apiToken } = this.config.trello;
+    const response = await fetch(url, {
+      headers: {
+        Authorization: `OAuth oauth_consumer_key="${apiKey}", oauth_token="${apiToken}"`,
+        'User-Agent': 'inPatch-Suporte/1.0',
+      },
+    });
+
+    if (!response.ok) {
+      throw new APIError(
+        `Trello download error: ${response.status} ${response.statusText}`,
+        response.status,
+        url
+      );
+    }
+
+    return {
+      data: await response.arrayBuffer(),
+      contentType: response.headers.get('content-type'),
+    };
+  }
+
+  /**
+   * Marca/desmarca um item de checklist (gera a ação updateCheckItemStateOnCard)
+   */
+  async updateCheckItemState(
+    cardId: string,
+    checkItemId: string,
+    state: 'complete' | 'incomplete'
+  ): Promise<void> {
+    await this.makeRequest(`/cards/${cardId}/checkItem/${checkItemId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ state }),
+    });
+  }
+
+  /**
+   * Ações de um card para o histórico de atividades (mais recentes primeiro)
+   */
+  async getCardActions(
+    cardId: string,
+    limit: number = 50
+  ): Promise<TrelloAction[]> {
+    const endpoint =
+      `/cards/${cardId}/actions?` +
+      'filter=commentCard,createCard,updateCard:idList,updateCheckItemStateOnCard,' +
+      'addAttachmentToCard,deleteAttachmentFromCard&' +
+      `limit=${limit}`;
+
+    return this.makeRequest(endpoint);
+  }
+
+  /**
+   * Publica um comentário no card e retorna a ação commentCard criada
+   */
+  async addComment(cardId: string, text: string): Promise<TrelloAction> {
+    return this.makeRequest(`/cards/${cardId}/actions/comments`, {
+      method: 'POST',
+      body: JSON.stringify({ text: sanitizeString(text) }),
+    });
+  }
+
+  async deleteAttachment(cardId: string, attachmentId: string): Promise<void> {
+    await this.makeRequest(`/cards/${cardId}/attachments/${attachmentId}`, {
+      method: 'DELETE',
+    });
+  }
+
   async deleteCard(cardId: string): Promise<void> {
     await this.makeRequest(`/cards/${cardId}`, {
       method: 'DELETE',
@@ -441,8 +847,11 @@ export class TrelloAPI {
         const actions = await this.getBoardActions(since);
 
         if (actions.length > 0) {
-          const cards = await this.getBoardCards();
-          const projects = this.transformCardsToProjects(cards);
+          const [cards, catalog] = await Promise.all([
+            this.getBoardCards(),
+            projectCatalogService.getCatalog(),
+          ]);
+          const projects = this.transformCardsToProjects(cards, catalog);
 
           this.lastSync = new Date();
           onUpdate?.(projects);
@@ -472,7 +881,11 @@ export class TrelloAPI {
   }
 
   // Convert Trello cards to Project format with validation
-  transformCardsToProjects(cards: TrelloCard[]): Project[] {
+  // Plataformas e responsáveis são resolvidos pelo catálogo informado
+  transformCardsToProjects(
+    cards: TrelloCard[],
+    catalog: ProjectCatalog = DEFAULT_PROJECT_CATALOG
+  ): Project[] {
     console.log('🔄 Starting transformation of', cards.length, 'cards');
 
     const transformedProjects = cards
@@ -541,10 +954,13 @@ export class TrelloAPI {
         );
 
         const status = this.mapListToStatus(listName);
-        const platforms = this.extractPlatforms(card);
-        const responsible = this.extractResponsible(card);
-        const priority = this.extractPriority(card);
-        const progress = this.calculateProgress(card);
+        const platforms = this.extractPlatforms(card, catalog);
+        const responsible = this.extractResponsible(card, catalog);
+        const priority = this.extractPriority(card, catalog);
+        const checklists = card.checklists
+          ? mapTrelloChecklists(card.checklists, catalog)
+          : undefined;
+        const progress = this.calculateProgress(card, checklists);
 
         const project = {
           id: card.id,
@@ -553,7 +969,9 @@ export class TrelloAPI {
           progress,
           platforms,
           responsible,
-          startDate: card.dateLastActivity || new Date().toISOString(),
+          imageUrl: getCoverUrl(card.attachments, card.idAttachmentCover),
+          startDate:
+            card.start || card.dateLastActivity || new Date().toISOString(),
           estimatedEndDate:
             card.due ||
             new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
@@ -564,6 +982,11 @@ export class TrelloAPI {
             .map(label => sanitizeString(label?.name || ''))
             .filter(name => name && name.trim() !== '')
             .filter((name, index, array) => array.indexOf(name) === index), // Remove duplicates
+          trelloUpdatedAt: card.dateLastActivity,
+          checklists,
+          attachments: card.attachments
+            ? mapTrelloAttachments(card.attachments, card.idAttachmentCover)
+            : undefined,
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString(),
         };
@@ -591,14 +1014,27 @@ export class TrelloAPI {
     return transformedProjects;
   }
 
-  private calculateProgress(card: TrelloCard): number {
-    // Primary: Use checklist progress if available
+  private calculateProgress(
+    card: TrelloCard,
+    checklists?: ProjectChecklist[]
+  ): number {
+    // Primary: checklist items, when the card was read with its checklists
+    const checklistProgress = calculateChecklistProgress(checklists);
+
+    if (checklistProgress !== null) return checklistProgress;
+
+    // Card read without checklists: use the badge counters
     if (card.badges?.checkItems && card.badges.checkItems > 0) {
       const checkedItems = card.badges.checkItemsChecked || 0;
 
       return Math.round((checkedItems / card.badges.checkItems) * 100);
     }
 
+    // Manual progress set from the dashboard ("Progresso 60%" label)
+    const labelProgress = resolveProgressFromLabels(card.labels || []);
+
+    if (labelProgress !== null) return labelProgress;
+
     // Secondary: Use card position in list as progress indicator
     const listName = card.list?.name?.toLowerCase() || '';
 
@@ -629,7 +1065,10 @@ export class TrelloAPI {
     return 10;
   }
 
-  private extractPlatforms(card: TrelloCard): Platform[] {
+  private extractPlatforms(
+    card: TrelloCard,
+    catalog: ProjectCatalog
+  ): Platform[] {
     const labels = card.labels || [];
     const platforms: Set<Platform> = new Set();
 
@@ -649,37 +1088,26 @@ export class TrelloAPI {
 
       if (!name) return;
 
-      if (name.includes('n8n')) {
-        platforms.add('N8N');
-        console.log('✅ Added N8N platform');
-      }
-      if (name.includes('jira')) {
-        platforms.add('Jira');
-        console.log('✅ Added Jira platform');
-      }
-      if (name.includes('hubspot')) {
-        platforms.add('Hubspot');
-        console.log('✅ Added Hubspot platform');
-      }
-      if (name.includes('backoffice') || name.includes('back-office')) {
-        platforms.add('Backoffice');
-        console.log('✅ Added Backoffice platform');
-      }
-      if (name.includes('google') || name.includes('workspace')) {
-        platforms.add('Google Workspace');
-        console.log('✅ Added Google Workspace platform');
-      }
+      matchPlatformLabel(name, catalog).forEach(platform => {
+        platforms.add(platform);
+        console.log(`✅ Added ${platform} platform`);
+      });
     });
 
     const result: Platform[] =
-      platforms.size > 0 ? Array.from(platforms) : ['Backoffice'];
+      platforms.size > 0
+        ? Array.from(platforms)
+        : getDefaultPlatformNames(catalog);
 
     console.log('🏷️ Final platforms:', result);
 
     return result;
   }
 
-  private extractResponsible(card: TrelloCard): TeamMember[] {
+  private extractResponsible(
+    card: TrelloCard,
+    catalog: ProjectCatalog
+  ): TeamMember[] {
     const members = card.members || [];
     const responsibleMembers: TeamMember[] = [];
 
@@ -693,33 +1121,21 @@ export class TrelloAPI {
     members.forEach(member => {
       if (!member) return;
 
-      const fullName = (member.fullName || member.username || '').toLowerCase();
-
-      console.log('🔍 Checking member:', fullName);
+      console.log('🔍 Checking member:', member.fullName || member.username);
 
-      // Map Trello users to team members with more flexible matching
-      if (fullName.includes('guilherme') || fullName.includes('gui')) {
-        if (!responsibleMembers.includes('Guilherme Souza')) {
-          responsibleMembers.push('Guilherme Souza');
-          console.log('✅ Added Guilherme Souza');
-        }
-      }
-      if (fullName.includes('felipe') || fullName.includes('braat')) {
-        if (!responsibleMembers.includes('Felipe Braat')) {
-          responsibleMembers.push('Felipe Braat');
-          console.log('✅ Added Felipe Braat');
+      // Map Trello users to team members (ID, username, then name keywords)
+      matchTeamMembers(member, catalog).forEach(teamMember => {
+        if (!responsibleMembers.includes(teamMember)) {
+          responsibleMembers.push(teamMember);
+          console.log(`✅ Added ${teamMember}`);
         }
-      }
-      if (fullName.includes('tiago') || fullName.includes('triani')) {
-        if (!responsibleMembers.includes('Tiago Triani')) {
-          responsibleMembers.push('Tiago Triani');
-          console.log('✅ Added Tiago Triani');
-        }
-      }
+      });
     });
 
     const result: TeamMember[] =
-      responsibleMembers.length > 0 ? responsibleMembers : ['Guilherme Souza'];
+      responsibleMembers.length > 0
+        ? responsibleMembers
+        : getDefaultMemberNames(catalog);
 
     console.log('👥 Final responsible:', result);
 
@@ -801,22 +1217,12 @@ export class TrelloAPI {
     return 'a-fazer';
   }
 
-  private extractPriority(card: TrelloCard): Project['priority'] {
-    const labels = card.labels || [];
-
-    for (const label of labels) {
-      if (!label) continue;
-
-      const name = (label.name || '').toLowerCase();
-      const color = (label.color || '').toLowerCase();
-
-      if (name.includes('high') || name.includes('urgent') || color === 'red')
-        return 'high';
-      if (name.includes('medium') || color === 'yellow') return 'medium';
-      if (name.includes('low') || color === 'green') return 'low';
-    }
-
-    return 'medium'; // Default
+  private extractPriority(
+    card: TrelloCard,
+    catalog: ProjectCatalog
+  ): Project['priority'] {
+    // Label names (High/Urgent, Medium, Low) win over red/yellow/green colors
+    return resolvePriorityFromLabels(card.labels || [], catalog) || 'medium'; // Default
   }
 }
 
@@ -46,19 +46,9 @@ export enum ProjectPriority {
   HIGH = 'HIGH',
 }
 
-export enum Platform {
-  N8N = 'N8N',
-  JIRA = 'JIRA',
-  HUBSPOT = 'HUBSPOT',
-  BACKOFFICE = 'BACKOFFICE',
-  GOOGLE_WORKSPACE = 'GOOGLE_WORKSPACE',
-}
-
-export enum TeamMember {
-  GUILHERME_SOUZA = 'GUILHERME_SOUZA',
-  FELIPE_BRAAT = 'FELIPE_BRAAT',
-  TIAGO_TRIANI = 'TIAGO_TRIANI',
-}
+// Nomes do catálogo (tabelas platforms/members)
+export type Platform = string;
+export type TeamMember = string;
 
 export enum SyncAction {
   CREATED = 'CREATED',
@@ -14,7 +14,7 @@ interface RateLimitState {
   blockUntil: number;
 }
 
-interface RetryConfig {
+export interface RetryConfig {
   maxRetries: number;
   baseDelay: number;
   maxDelay: number;
@@ -159,6 +159,20 @@ export class AdvancedRateLimiter {
     }
   }
 
+  /**
+   * Retry configuration (shared with the webhook queue worker)
+   */
+  getRetryConfig(): RetryConfig {
+    return { ...this.retryConfig };
+  }
+
+  /**
+   * Backoff delay for a given retry attempt (0-based)
+   */
+  getRetryDelay(attempt: number): number {
+    return this.calculateDelay(attempt);
+  }
+
   /**
    * Calculate delay with exponential backoff and jitter
    */
@@ -0,0 +1,381 @@
+/**
+ * Project Field Sync - Reconciliação campo a campo entre Trello e banco
+ * Merge de três vias: valor base (último acordo), valor local e valor do Trello
+ * Sem dependências de runtime (compartilhado por sync completo e webhooks)
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type { ProjectCatalog } from '@/types/catalog';
+import type { Project } from '@/types/project';
+import type {
+  FieldWriter,
+  ProjectFieldMergeResult,
+  ProjectFieldPolicyMap,
+  ProjectFieldSyncState,
+  SyncableProjectField,
+  SyncFieldValue,
+  SyncFieldValues,
+} from '@/types/project-sync';
+
+import { DEFAULT_PROJECT_CATALOG } from '@/lib/config/project-catalog';
+import { SYNCABLE_PROJECT_FIELDS } from '@/lib/config/project-sync';
+import { getFreeLabels, isManagedLabel } from '@/lib/utils/trello-fields';
+
+// Campos no formato do banco (enums Prisma, datas como Date)
+// `labels` traz todas as labels do card; só as livres são comparadas
+export interface ProjectFieldSource {
+  title: string;
+  description: string | null;
+  status: string;
+  estimatedEndDate: Date | string;
+  startDate: Date | string;
+  priority: string;
+  progress: number;
+  platforms: string[];
+  responsible: string[];
+  labels: string[];
+  imageUrl: string | null;
+}
+
+// Campos cujo valor serializado é uma lista em JSON
+const LIST_FIELDS: SyncableProjectField[] = [
+  'platforms',
+  'responsible',
+  'labels',
+];
+
+const sameValue = (a: SyncFieldValue, b: SyncFieldValue) =>
+  (a ?? null) === (b ?? null);
+
+const isBefore = (value?: string, reference?: string) =>
+  !!value &&
+  !!reference &&
+  new Date(value).getTime() < new Date(reference).getTime();
+
+// Datas comparadas por dia (o Trello guarda hora, o editor não)
+const serializeDay = (value?: Date | string | null) => {
+  const date = value ? new Date(value) : null;
+
+  return date && !isNaN(date.getTime())
+    ? date.toISOString().slice(0, 10)
+    : null;
+};
+
+// Meio-dia UTC mantém o mesmo dia no fuso de São Paulo
+const parseDay = (value: SyncFieldValue) =>
+  value ? new Date(`${value}T12:00:00.000Z`) : null;
+
+// Listas comparadas sem ordem nem duplicados
+const serializeList = (values?: string[]) => {
+  const items = [...new Set((values || []).map(item => item.trim()))]
+    .filter(Boolean)
+    .sort();
+
+  return items.length > 0 ? JSON.stringify(items) : null;
+};
+
+export function parseSyncList(value: SyncFieldValue): string[] {
+  if (!value) return [];
+
+  try {
+    const items = JSON.parse(value);
+
+    return Array.isArray(items) ? items.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Serializa os campos sincronizados para comparação
+ * Labels de plataforma, prioridade e progresso pertencem aos seus campos:
+ * `labels` compara apenas as livres, segundo o catálogo
+ */
+export function serializeProjectFields(
+  project: ProjectFieldSource,
+  catalog: ProjectCatalog = DEFAULT_PROJECT_CATALOG
+): SyncFieldValues {
+  return {
+    title: project.title?.trim() || null,
+    description: project.description?.trim() || null,
+    status: project.status || null,
+    estimatedEndDate: serializeDay(project.estimatedEndDate),
+    startDate: serializeDay(project.startDate),
+    priority: project.priority || null,
+    progress:
+      typeof project.progress === 'number' ? String(project.progress) : null,
+    platforms: serializeList(project.platforms),
+    responsible: serializeList(project.responsible),
+    labels: serializeList(getFreeLabels(project.labels, catalog)),
+    imageUrl: project.imageUrl?.trim() || null,
+  };
+}
+
+/**
+ * Converte um valor serializado de volta para o formato do banco
+ * Para `labels` retorna só as livres (ver mergeFreeLabels)
+ */
+export function deserializeProjectField(
+  field: SyncableProjectField,
+  value: SyncFieldValue
+): string | number | string[] | Date | null {
+  if (field === 'estimatedEndDate' || field === 'startDate') {
+    return parseDay(value);
+  }
+
+  if (LIST_FIELDS.includes(field)) return parseSyncList(value);
+
+  if (field === 'progress') return value ? Number(value) : 0;
+
+  if (field === 'title') return value || '';
+
+  return value;
+}
+
+/**
+ * Labels completas do projeto: as controladas pelos outros campos são
+ * mantidas e as livres substituídas
+ */
+export function mergeFreeLabels(
+  current: string[],
+  freeLabels: string[],
+  catalog: ProjectCatalog = DEFAULT_PROJECT_CATALOG
+): string[] {
+  return [
+    ...new Set([
+      ...current.filter(label => isManagedLabel(label, catalog)),
+      ...freeLabels,
+    ]),
+  ];
+}
+
+/**
+ * Converte valores serializados em atualizações para trelloApi.updateCard
+ */
+export function toTrelloUpdates(
+  values: Partial<SyncFieldValues>
+): Partial<Project> {
+  const updates: Partial<Project> = {};
+
+  if (values.title) updates.title = values.title;
+  if (values.description !== undefined) {
+    updates.description = values.description || '';
+  }
+  if (values.status) {
+    updates.status = values.status
+      .toLowerCase()
+      .replace('_', '-') as Project['status'];
+  }
+  if (values.estimatedEndDate) {
+    updates.estimatedEndDate = `${values.estimatedEndDate}T12:00:00.000Z`;
+  }
+  if (values.startDate) {
+    updates.startDate = `${values.startDate}T12:00:00.000Z`;
+  }
+  if (values.priority) {
+    updates.priority = values.priority.toLowerCase() as Project['priority'];
+  }
+  if (values.progress !== undefined) {
+    updates.progress = Number(values.progress) || 0;
+  }
+  if (values.platforms !== undefined) {
+    updates.platforms = parseSyncList(values.platforms);
+  }
+  if (values.responsible !== undefined) {
+    updates.responsible = parseSyncList(values.responsible);
+  }
+  if (values.labels !== undefined) {
+    updates.labels = parseSyncList(values.labels);
+  }
+  if (values.imageUrl !== undefined) updates.imageUrl = values.imageUrl || '';
+
+  return updates;
+}
+
+/**
+ * Converte uma edição no formato da aplicação para o formato do banco
+ */
+export function toProjectFieldSource(
+  updates: Partial<Project>
+): Partial<ProjectFieldSource> {
+  const source: Partial<ProjectFieldSource> = {};
+
+  if (updates.title !== undefined) source.title = updates.title;
+  if (updates.description !== undefined) {
+    source.description = updates.description || null;
+  }
+  if (updates.status) {
+    source.status = updates.status.toUpperCase().replace('-', '_');
+  }
+  if (updates.estimatedEndDate) {
+    source.estimatedEndDate = new Date(updates.estimatedEndDate);
+  }
+  if (updates.startDate) source.startDate = new Date(updates.startDate);
+  if (updates.priority) source.priority = updates.priority.toUpperCase();
+  if (updates.progress !== undefined) source.progress = updates.progress;
+  if (updates.platforms) source.platforms = updates.platforms;
+  if (updates.responsible) source.responsible = updates.responsible;
+  // Só as labels livres (as demais vêm dos outros campos)
+  if (updates.labels) source.labels = updates.labels;
+  if (updates.imageUrl !== undefined) {
+    source.imageUrl = updates.imageUrl || null;
+  }
+
+  return source;
+}
+
+/**
+ * Reconcilia o estado local com o snapshot do card
+ * - só o Trello mudou: aplica o valor do Trello
+ * - só o local mudou: edição pendente, reenviada ao Trello
+ * - ambos mudaram para valores diferentes: aplica a política do campo
+ * Snapshots mais antigos que o último dateLastActivity conhecido são ignorados
+ */
+export function reconcileProjectFields({
+  local,
+  trello,
+  state,
+  policy,
+  trelloUpdatedAt,
+  localUpdatedAt,
+}: {
+  local: SyncFieldValues | null;
+  trello: SyncFieldValues;
+  state: ProjectFieldSyncState;
+  policy: ProjectFieldPolicyMap;
+  trelloUpdatedAt?: string;
+  localUpdatedAt?: string;
+}): ProjectFieldMergeResult {
+  const result: ProjectFieldMergeResult = {
+    applyFromTrello: [],
+    state: { ...state },
+    conflicts: [],
+    pushToTrello: [],
+    converged: [],
+    overwritten: [],
+  };
+
+  const acceptTrello = (field: SyncableProjectField) => {
+    result.applyFromTrello.push(field);
+    result.state[field] = {
+      ...state[field],
+      value: trello[field],
+      lastWriter: 'trello',
+      trelloUpdatedAt: trelloUpdatedAt || state[field]?.trelloUpdatedAt,
+    };
+  };
+
+  for (const field of SYNCABLE_PROJECT_FIELDS) {
+    const entry = state[field];
+    const trelloValue = trello[field];
+
+    // Projeto novo ou campo sem rastreamento: o Trello define a base
+    if (!local || !entry) {
+      if (!local || !sameValue(local[field], trelloValue)) {
+        acceptTrello(field);
+      } else {
+        result.state[field] = {
+          value: trelloValue,
+          lastWriter: 'trello',
+          trelloUpdatedAt,
+        };
+      }
+      continue;
+    }
+
+    const localValue = local[field];
+    const localChanged = !sameValue(localValue, entry.value);
+    const trelloChanged =
+      !sameValue(trelloValue, entry.value) &&
+      !isBefore(trelloUpdatedAt, entry.trelloUpdatedAt);
+
+    if (!trelloChanged) {
+      if (localChanged) result.pushToTrello.push(field);
+      continue;
+    }
+
+    if (!localChanged) {
+      acceptTrello(field);
+      continue;
+    }
+
+    if (sameValue(localValue, trelloValue)) {
+      result.state[field] = {
+        ...entry,
+        value: trelloValue,
+        trelloUpdatedAt: trelloUpdatedAt || entry.trelloUpdatedAt,
+      };
+      result.converged.push(field);
+      continue;
+    }
+
+    switch (policy[field]) {
+      case 'trello':
+        acceptTrello(field);
+        result.overwritten.push(field);
+        break;
+      case 'local':
+        result.pushToTrello.push(field);
+        break;
+      default:
+        result.conflicts.push({
+          field,
+          baseValue: entry.value,
+          localValue,
+          trelloValue,
+          localUpdatedAt: entry.localUpdatedAt || localUpdatedAt,
+          trelloUpdatedAt,
+        });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Registra edições locais (a base continua sendo o último acordo)
+ */
+export function recordLocalEdits(
+  state: ProjectFieldSyncState,
+  previous: SyncFieldValues,
+  fields: SyncableProjectField[],
+  editedAt: string
+): ProjectFieldSyncState {
+  const next = { ...state };
+
+  for (const field of fields) {
+    next[field] = {
+      ...next[field],
+      value: next[field] ? next[field]!.value : previous[field],
+      lastWriter: 'local',
+      localUpdatedAt: editedAt,
+    };
+  }
+
+  return next;
+}
+
+/**
+ * Marca campos como em acordo com o Trello (após push ou resolução)
+ */
+export function markFieldsSynced(
+  state: ProjectFieldSyncState,
+  values: Partial<SyncFieldValues>,
+  writer: FieldWriter,
+  trelloUpdatedAt?: string
+): ProjectFieldSyncState {
+  const next = { ...state };
+
+  for (const field of Object.keys(values) as SyncableProjectField[]) {
+    next[field] = {
+      ...next[field],
+      value: values[field] ?? null,
+      lastWriter: writer,
+      trelloUpdatedAt: trelloUpdatedAt || next[field]?.trelloUpdatedAt,
+    };
+  }
+
+  return next;
+}
@@ -0,0 +1,221 @@
+/**
+ * Project Timeline - Cálculos da linha do tempo (Gantt) de projetos
+ * Intervalo visível, posição das barras, marcações por escala e atrasos
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type { Project } from '@/types/project';
+import type {
+  TimelineRange,
+  TimelineScale,
+  TimelineScaleConfig,
+  TimelineTick,
+} from '@/types/timeline';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const TIMELINE_SCALES: Record<TimelineScale, TimelineScaleConfig> = {
+  week: { label: 'Semana', dayWidth: 48, paddingDays: 3 },
+  month: { label: 'Mês', dayWidth: 16, paddingDays: 7 },
+  quarter: { label: 'Trimestre', dayWidth: 5, paddingDays: 14 },
+};
+
+const startOfDay = (date: Date) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const toTime = (value: string) => {
+  const time = new Date(value).getTime();
+
+  return isNaN(time) ? null : time;
+};
+
+/**
+ * Dias (fracionários) entre o início do intervalo e a data informada
+ * Arredonda para compensar horário de verão entre as duas datas
+ */
+export function daysFromStart(range: TimelineRange, date: Date): number {
+  return (
+    Math.round(((date.getTime() - range.start.getTime()) / DAY_MS) * 24) / 24
+  );
+}
+
+/**
+ * Projeto atrasado: prazo vencido sem estar concluído
+ */
+export function isProjectOverdue(project: Project, now = new Date()): boolean {
+  const end = toTime(project.estimatedEndDate);
+
+  return project.status !== 'concluido' && end !== null && end < now.getTime();
+}
+
+/**
+ * Intervalo que cobre todos os projetos e o dia de hoje, com folga da escala
+ */
+export function getTimelineRange(
+  projects: Project[],
+  scale: TimelineScale,
+  today = new Date()
+): TimelineRange {
+  const times = projects
+    .flatMap(project => [
+      toTime(project.startDate),
+      toTime(project.estimatedEndDate),
+    ])
+    .filter((time): time is number => time !== null);
+  const { paddingDays } = TIMELINE_SCALES[scale];
+  const start = addDays(
+    startOfDay(new Date(Math.min(today.getTime(), ...times))),
+    -paddingDays
+  );
+  const end = addDays(
+    startOfDay(new Date(Math.max(today.getTime(), ...times))),
+    paddingDays + 1
+  );
+
+  return {
+    start,
+    end,
+    days: Math.round(daysFromStart({ start, end, days: 0 }, end)),
+  };
+}
+
+/**
+ * Posição da barra em dias: início e duração (mínimo de meio dia)
+ */
+export function getBarGeometry(
+  project: Project,
+  range: TimelineRange,
+  endOverride?: Date
+): { offsetDays: number; spanDays: number } {
+  const start = new Date(project.startDate);
+  const end = endOverride || new Date(project.estimatedEndDate);
+  const offsetDays = daysFromStart(range, start);
+
+  return {
+    offsetDays,
+    spanDays: Math.max(0.5, daysFromStart(range, end) - offsetDays),
+  };
+}
+
+/**
+ * Marcações do cabeçalho: dias (semana), semanas (mês) ou meses (trimestre)
+ */
+export function buildTimelineTicks(
+  range: TimelineRange,
+  scale: TimelineScale
+): TimelineTick[] {
+  const ticks: TimelineTick[] = [];
+  let cursor = range.start;
+
+  while (cursor < range.end) {
+    let next: Date;
+    let label: string;
+
+    if (scale === 'week') {
+      next = addDays(cursor, 1);
+      label = cursor.toLocaleDateString('pt-BR', {
+        weekday: 'short',
+        day: '2-digit',
+      });
+    } else if (scale === 'month') {
+      // Semanas começando na segunda-feira
+      next = addDays(cursor, (8 - cursor.getDay()) % 7 || 7);
+      label = cursor.toLocaleDateString('pt-BR', {
+        day: '2-digit',
+        month: 'short',
+      });
+    } else {
+      next = new Date(cursor.getFullYear(), cursor.getMonth() + 1, 1);
+      label = cursor.toLocaleDateString('pt-BR', {
+        month: 'short',
+        year: '2-digit',
+      });
+    }
+
+    if (next > range.end) next = range.end;
+
+    const offsetDays = daysFromStart(range, cursor);
+
+    ticks.push({
+      key: cursor.toISOString(),
+      label,
+      offsetDays,
+      spanDays: daysFromStart(range, next) - offsetDays,
+    });
+    cursor = next;
+  }
+
+  return ticks;
+}
+
+/**
+ * Novo prazo após arrastar o fim da barra: passos de um dia, mantendo o
+ * horário original e sem ultrapassar a data de início
+ */
+export function shiftDueDate(project: Project, days: number): Date {
+  const start = new Date(project.startDate);
+  const date = new Date(project.estimatedEndDate);
+
+  date.setDate(date.getDate() + days);
+
+  while (!isNaN(start.getTime()) && date < start) {
+    date.setDate(date.getDate() + 1);
+  }
+
+  return date;
+}
+
+// Chave usada nos vínculos de dependência (mesma das rotas /api/projects)
+export const getProjectKey = (project: Project) =>
+  project.trelloCardId || project.id;
+
+type ScheduledItem = Pick<Project, 'status' | 'estimatedEndDate'>;
+
+/**
+ * Projeto bloqueado com prazo anterior ao do bloqueador (ainda não concluído)
+ */
+export function finishesBeforeBlocker(
+  blocked: ScheduledItem,
+  blocker: ScheduledItem
+): boolean {
+  if (blocked.status === 'concluido' || blocker.status === 'concluido') {
+    return false;
+  }
+
+  const blockedEnd = toTime(blocked.estimatedEndDate);
+  const blockerEnd = toTime(blocker.estimatedEndDate);
+
+  return blockedEnd !== null && blockerEnd !== null && blockedEnd < blockerEnd;
+}
+
+/**
+ * Bloqueadores que terminam depois de cada projeto bloqueado, por chave
+ * `lookup` inclui projetos fora dos filtros atuais, que ainda bloqueiam
+ */
+export function getDependencyWarnings(
+  projects: Project[],
+  lookup: Project[] = projects
+): Map<string, Project[]> {
+  const byKey = new Map(
+    lookup.map(project => [getProjectKey(project), project])
+  );
+  const warnings = new Map<string, Project[]>();
+
+  for (const project of projects) {
+    const blockers = (project.blockedBy || [])
+      .map(key => byKey.get(key))
+      .filter(
+        (blocker): blocker is Project =>
+          !!blocker && finishesBeforeBlocker(project, blocker)
+      );
+
+    if (blockers.length > 0) warnings.set(getProjectKey(project), blockers);
+  }
+
+  return warnings;
+}
@@ -0,0 +1,412 @@
+/**
+ * SLA Engine - Cálculo de SLA de tickets
+ * Avalia primeira resposta e resolução com horário comercial, descontando os
+ * períodos em que o ticket ficou pausado (estágios de espera ou de pausa)
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type { Prisma } from '@prisma/client';
+import type { Ticket, TicketPriority } from '@/types/ticket';
+import type {
+  BusinessHoursCalendar,
+  SlaClock,
+  SlaPauseInterval,
+  SlaPolicy,
+  SlaStageIds,
+  SlaState,
+  SlaTarget,
+  TicketSlaStatus,
+} from '@/types/sla';
+
+import { DEFAULT_BUSINESS_HOURS, DEFAULT_SLA_POLICY } from '@/lib/config/sla';
+import { VALID_PRIORITIES } from '@/lib/validations/ticket-schemas';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Limite de segurança para tickets muito antigos (evita loops longos)
+const MAX_CALENDAR_DAYS = 730;
+
+// Ordem de severidade para consolidar os relógios
+const STATE_SEVERITY: Record<SlaState, number> = {
+  breached: 4,
+  at_risk: 3,
+  paused: 2,
+  ok: 1,
+  met: 0,
+};
+
+const toDate = (value?: string) => {
+  if (!value) return null;
+
+  const date = new Date(value);
+
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Minutos úteis entre duas datas segundo o calendário informado
+ */
+export function calculateBusinessMinutes(
+  start: Date,
+  end: Date,
+  calendar: BusinessHoursCalendar
+): number {
+  if (end.getTime() <= start.getTime()) return 0;
+
+  const offsetMs = calendar.utcOffsetMinutes * MINUTE_MS;
+  // Trabalhar em "horário local" deslocando os timestamps pelo offset
+  const localStart = start.getTime() + offsetMs;
+  const localEnd = end.getTime() + offsetMs;
+
+  let dayStart = Math.floor(localStart / DAY_MS) * DAY_MS;
+  let totalMs = 0;
+
+  for (
+    let day = 0;
+    dayStart < localEnd && day < MAX_CALENDAR_DAYS;
+    day++, dayStart += DAY_MS
+  ) {
+    const date = new Date(dayStart);
+    const isoDay = date.toISOString().substring(0, 10);
+
+    if (
+      !calendar.workingDays.includes(date.getUTCDay()) ||
+      calendar.holidays.includes(isoDay)
+    ) {
+      continue;
+    }
+
+    const windowStart = dayStart + calendar.startHour * 60 * MINUTE_MS;
+    const windowEnd = dayStart + calendar.endHour * 60 * MINUTE_MS;
+    const overlapStart = Math.max(windowStart, localStart);
+    const overlapEnd = Math.min(windowEnd, localEnd);
+
+    if (overlapEnd > overlapStart) {
+      totalMs += overlapEnd - overlapStart;
+    }
+  }
+
+  return Math.floor(totalMs / MINUTE_MS);
+}
+
+/**
+ * Meta aplicável ao ticket: estágio inPatch tem precedência sobre prioridade
+ */
+export function getSlaTarget(
+  ticket: Pick<Ticket, 'pipelineStageId' | 'priority'>,
+  policy: SlaPolicy
+): SlaTarget {
+  return (
+    policy.stageTargets[ticket.pipelineStageId] ||
+    policy.priorityTargets[ticket.priority] ||
+    policy.priorityTargets.MEDIUM
+  );
+}
+
+export function isTicketClosed(
+  ticket: Pick<Ticket, 'status' | 'pipelineStageId' | 'closedAt'>,
+  policy: SlaPolicy,
+  closedStageIds: string[]
+): boolean {
+  return (
+    policy.closedStatuses.includes(ticket.status) ||
+    closedStageIds.includes(ticket.pipelineStageId) ||
+    !!ticket.closedAt
+  );
+}
+
+/**
+ * Períodos pausados segundo o histórico de estágios
+ * Cada entrada em um estágio de pausa (da política ou com papel "waiting")
+ * vale até a transição seguinte. Em pausa sem entrada registrada, a pausa
+ * começa na última modificação
+ */
+export function getSlaPauseIntervals(
+  ticket: Pick<
+    Ticket,
+    'status' | 'pipelineStageId' | 'updatedAt' | 'stageHistory'
+  >,
+  policy: SlaPolicy,
+  waitingStageIds: string[] = []
+): SlaPauseInterval[] {
+  const pauseStageIds = [...policy.pauseStageIds, ...waitingStageIds];
+  const entries = (ticket.stageHistory || [])
+    .map(entry => ({ stageId: entry.stageId, at: toDate(entry.enteredAt) }))
+    .filter((entry): entry is { stageId: string; at: Date } => !!entry.at)
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+  const intervals: SlaPauseInterval[] = [];
+
+  entries.forEach((entry, index) => {
+    if (pauseStageIds.includes(entry.stageId)) {
+      intervals.push({ start: entry.at, end: entries[index + 1]?.at });
+    }
+  });
+
+  const isOpen = intervals.some(interval => !interval.end);
+  const updatedAt = toDate(ticket.updatedAt);
+
+  if (
+    !isOpen &&
+    updatedAt &&
+    (policy.pauseStatuses.includes(ticket.status) ||
+      pauseStageIds.includes(ticket.pipelineStageId))
+  ) {
+    intervals.push({ start: updatedAt });
+  }
+
+  return intervals;
+}
+
+function measureMinutes(
+  start: Date,
+  end: Date,
+  useBusinessHours: boolean,
+  policy: SlaPolicy
+): number {
+  return useBusinessHours
+    ? calculateBusinessMinutes(start, end, policy.businessHours)
+    : Math.max(0, Math.floor((end.getTime() - start.getTime()) / MINUTE_MS));
+}
+
+function evaluateClock(
+  start: Date,
+  end: Date,
+  targetHours: number,
+  useBusinessHours: boolean,
+  isCompleted: boolean,
+  isPaused: boolean,
+  pauses: SlaPauseInterval[],
+  policy: SlaPolicy
+): SlaClock {
+  const targetMinutes = Math.round(targetHours * 60);
+  const pausedMinutes = pauses.reduce(
+    (total, pause) =>
+      total +
+      measureMinutes(
+        new Date(Math.max(pause.start.getTime(), start.getTime())),
+        new Date(Math.min((pause.end || end).getTime(), end.getTime())),
+        useBusinessHours,
+        policy
+      ),
+    0
+  );
+  const elapsedMinutes = Math.max(
+    0,
+    measureMinutes(start, end, useBusinessHours, policy) - pausedMinutes
+  );
+  const remainingMinutes = targetMinutes - elapsedMinutes;
+
+  let state: SlaState;
+
+  if (isCompleted) {
+    state = remainingMinutes >= 0 ? 'met' : 'breached';
+  } else if (remainingMinutes < 0) {
+    state = 'breached';
+  } else if (isPaused) {
+    state = 'paused';
+  } else if (elapsedMinutes >= targetMinutes * policy.atRiskThreshold) {
+    state = 'at_risk';
+  } else {
+    state = 'ok';
+  }
+
+  return {
+    state,
+    targetMinutes,
+    elapsedMinutes,
+    pausedMinutes,
+    remainingMinutes,
+  };
+}
+
+/**
+ * Avaliar o SLA de um ticket
+ *
+ * Os períodos pausados do histórico de estágios são descontados dos dois
+ * relógios; enquanto a pausa atual não termina, o relógio não avança.
+ */
+export function evaluateTicketSla(
+  ticket: Ticket,
+  policy: SlaPolicy,
+  stageIds: SlaStageIds,
+  now: Date = new Date()
+): TicketSlaStatus {
+  const target = getSlaTarget(ticket, policy);
+  const isClosed = isTicketClosed(ticket, policy, stageIds.closed);
+  const pauses = getSlaPauseIntervals(ticket, policy, stageIds.waiting);
+  const isPaused = !isClosed && pauses.some(pause => !pause.end);
+
+  const createdAt = toDate(ticket.createdAt) || now;
+  const closedAt = toDate(ticket.closedAt);
+  const firstResponseAt = toDate(ticket.firstResponseAt);
+
+  // Fim do relógio: fechamento ou agora
+  const clockEnd = (isClosed && closedAt) || now;
+
+  const firstResponse = evaluateClock(
+    createdAt,
+    firstResponseAt || clockEnd,
+    target.firstResponseHours,
+    target.useBusinessHours,
+    !!firstResponseAt || isClosed,
+    isPaused,
+    pauses,
+    policy
+  );
+
+  const resolution = evaluateClock(
+    createdAt,
+    clockEnd,
+    target.resolutionHours,
+    target.useBusinessHours,
+    isClosed,
+    isPaused,
+    pauses,
+    policy
+  );
+
+  const state =
+    STATE_SEVERITY[firstResponse.state] >= STATE_SEVERITY[resolution.state]
+      ? firstResponse.state
+      : resolution.state;
+
+  return { state, isPaused, isClosed, target, firstResponse, resolution };
+}
+
+// Serialização da política nas colunas JSON do banco
+const asJsonObject = (
+  value: Prisma.JsonValue | undefined
+): Prisma.JsonObject | null =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value : null;
+
+const asNumber = (value: Prisma.JsonValue | undefined, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+const asNumberList = (
+  value: Prisma.JsonValue | undefined,
+  fallback: number[]
+): number[] =>
+  Array.isArray(value)
+    ? value.filter((item): item is number => typeof item === 'number')
+    : fallback;
+
+const parseSlaTarget = (
+  value: Prisma.JsonValue | undefined
+): SlaTarget | null => {
+  const target = asJsonObject(value);
+
+  if (
+    typeof target?.firstResponseHours !== 'number' ||
+    typeof target.resolutionHours !== 'number'
+  ) {
+    return null;
+  }
+
+  return {
+    firstResponseHours: target.firstResponseHours,
+    resolutionHours: target.resolutionHours,
+    useBusinessHours: target.useBusinessHours !== false,
+  };
+};
+
+export function slaTargetsToJson(
+  targets: Record<string, SlaTarget>
+): Prisma.InputJsonObject {
+  return Object.fromEntries(
+    Object.entries(targets).map(([key, target]) => [
+      key,
+      {
+        firstResponseHours: target.firstResponseHours,
+        resolutionHours: target.resolutionHours,
+        useBusinessHours: target.useBusinessHours,
+      },
+    ])
+  );
+}
+
+export function businessHoursToJson(
+  calendar: BusinessHoursCalendar
+): Prisma.InputJsonObject {
+  return {
+    utcOffsetMinutes: calendar.utcOffsetMinutes,
+    workingDays: calendar.workingDays,
+    startHour: calendar.startHour,
+    endHour: calendar.endHour,
+    holidays: calendar.holidays,
+  };
+}
+
+/**
+ * Metas por estágio gravadas; entradas inválidas são descartadas
+ */
+export function parseStageTargets(
+  value: Prisma.JsonValue
+): Record<string, SlaTarget> {
+  const targets: Record<string, SlaTarget> = {};
+
+  Object.entries(asJsonObject(value) || {}).forEach(([stageId, item]) => {
+    const target = parseSlaTarget(item);
+
+    if (target) targets[stageId] = target;
+  });
+
+  return targets;
+}
+
+/**
+ * Metas por prioridade gravadas; prioridades ausentes usam a política padrão
+ */
+export function parsePriorityTargets(
+  value: Prisma.JsonValue
+): Record<TicketPriority, SlaTarget> {
+  const targets = asJsonObject(value);
+
+  return Object.fromEntries(
+    VALID_PRIORITIES.map(priority => [
+      priority,
+      parseSlaTarget(targets?.[priority]) ||
+        DEFAULT_SLA_POLICY.priorityTargets[priority],
+    ])
+  ) as Record<TicketPriority, SlaTarget>;
+}
+
+export function parseBusinessHours(
+  value: Prisma.JsonValue
+): BusinessHoursCalendar {
+  const calendar = asJsonObject(value);
+
+  return {
+    utcOffsetMinutes: asNumber(
+      calendar?.utcOffsetMinutes,
+      DEFAULT_BUSINESS_HOURS.utcOffsetMinutes
+    ),
+    workingDays: asNumberList(
+      calendar?.workingDays,
+      DEFAULT_BUSINESS_HOURS.workingDays
+    ),
+    startHour: asNumber(calendar?.startHour, DEFAULT_BUSINESS_HOURS.startHour),
+    endHour: asNumber(calendar?.endHour, DEFAULT_BUSINESS_HOURS.endHour),
+    holidays: Array.isArray(calendar?.holidays)
+      ? calendar.holidays.filter(
+          (item): item is string => typeof item === 'string'
+        )
+      : [],
+  };
+}
+
+/**
+ * Formatar minutos restantes/excedidos para exibição (ex: "3h 20min")
+ */
+export function formatSlaDuration(minutes: number): string {
+  const absolute = Math.abs(minutes);
+  const hours = Math.floor(absolute / 60);
+  const rest = absolute % 60;
+
+  if (hours === 0) return `${rest}min`;
+  if (rest === 0) return `${hours}h`;
+
+  return `${hours}h ${rest}min`;
+}
@@ -0,0 +1,140 @@
+/**
+ * Ticket Analytics - Cálculos de vazão, tempo até o fechamento e backlog
+ * Funções puras compartilhadas pelo serviço de analytics e pelo store
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type {
+  AnalyticsGranularity,
+  BacklogAgeBucket,
+  TimeToCloseStats,
+} from '@/types/ticket-analytics';
+
+import { percentile } from '@/lib/utils/ticket-timeline';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Faixas de idade do backlog (limite superior exclusivo, em dias)
+export const BACKLOG_AGE_BUCKETS: Array<{
+  key: string;
+  label: string;
+  maxDays: number;
+}> = [
+  { key: 'lt1d', label: '< 1 dia', maxDays: 1 },
+  { key: '1-3d', label: '1–3 dias', maxDays: 3 },
+  { key: '3-7d', label: '3–7 dias', maxDays: 7 },
+  { key: '7-14d', label: '1–2 semanas', maxDays: 14 },
+  { key: '14-30d', label: '2–4 semanas', maxDays: 30 },
+  { key: 'gt30d', label: '> 30 dias', maxDays: Infinity },
+];
+
+const roundHours = (hours: number) => Math.round(hours * 10) / 10;
+
+/**
+ * Horas corridas entre a criação e o fechamento (null se ainda aberto)
+ */
+export function getTimeToCloseHours(ticket: {
+  createdAt: string | Date;
+  closedAt?: string | Date | null;
+}): number | null {
+  if (!ticket.closedAt) return null;
+
+  const hours =
+    (new Date(ticket.closedAt).getTime() -
+      new Date(ticket.createdAt).getTime()) /
+    HOUR_MS;
+
+  return Number.isFinite(hours) && hours >= 0 ? hours : null;
+}
+
+/**
+ * Média, mediana e p90 de um grupo de tempos até o fechamento
+ */
+export function summarizeTimeToClose(
+  key: string,
+  hours: number[]
+): TimeToCloseStats {
+  return {
+    key,
+    count: hours.length,
+    avgHours:
+      hours.length > 0
+        ? roundHours(
+            hours.reduce((sum, value) => sum + value, 0) / hours.length
+          )
+        : 0,
+    medianHours: roundHours(percentile(hours, 50)),
+    p90Hours: roundHours(percentile(hours, 90)),
+  };
+}
+
+/**
+ * Distribui as idades (em dias) dos tickets abertos pelas faixas
+ */
+export function buildBacklogAge(ages: number[]): BacklogAgeBucket[] {
+  const buckets = BACKLOG_AGE_BUCKETS.map(bucket => ({
+    key: bucket.key,
+    label: bucket.label,
+    count: 0,
+  }));
+
+  for (const age of ages) {
+    const index = BACKLOG_AGE_BUCKETS.findIndex(bucket => age < bucket.maxDays);
+
+    buckets[index === -1 ? buckets.length - 1 : index].count++;
+  }
+
+  return buckets;
+}
+
+/**
+ * Início do período (YYYY-MM-DD) no fuso informado; semanas começam na segunda
+ */
+export function getPeriodStart(
+  date: Date,
+  granularity: AnalyticsGranularity,
+  utcOffsetMinutes: number
+): string {
+  // Deslocar para o "horário local" e truncar no dia
+  const local = new Date(date.getTime() + utcOffsetMinutes * 60 * 1000);
+  let dayStart = Math.floor(local.getTime() / DAY_MS) * DAY_MS;
+
+  if (granularity === 'week') {
+    const weekday = (new Date(dayStart).getUTCDay() + 6) % 7;
+
+    dayStart -= weekday * DAY_MS;
+  }
+
+  return new Date(dayStart).toISOString().substring(0, 10);
+}
+
+/**
+ * Todos os períodos do intervalo, para o gráfico exibir períodos vazios
+ */
+export function listPeriods(
+  from: Date,
+  to: Date,
+  granularity: AnalyticsGranularity,
+  utcOffsetMinutes: number
+): string[] {
+  const periods: string[] = [];
+  const last = getPeriodStart(to, granularity, utcOffsetMinutes);
+  let cursor = new Date(
+    `${getPeriodStart(from, granularity, utcOffsetMinutes)}T00:00:00Z`
+  );
+
+  while (periods.length < 1000) {
+    const period = cursor.toISOString().substring(0, 10);
+
+    periods.push(period);
+    if (period >= last) break;
+    cursor = new Date(
+      cursor.getTime() + (granularity === 'week' ? 7 : 1) * DAY_MS
+    );
+  }
+
+  return periods;
+}
@@ -0,0 +1,158 @@
+/**
+ * Ticket Assignment - Escolha do técnico para tickets sem responsável
+ * Funções puras de disponibilidade (turno e ausências) e das estratégias
+ * de distribuição, usadas pelo serviço de atribuição
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type { Ticket } from '@/types/ticket';
+import type {
+  AssignmentStrategy,
+  TechnicianAbsence,
+  TechnicianSchedule,
+} from '@/types/assignment';
+
+import { TECHNICIAN_ABSENCE_LABELS } from '@/types/assignment';
+import { DEFAULT_BUSINESS_HOURS } from '@/lib/config/sla';
+import { normalizeTriageText } from '@/lib/utils/ticket-triage';
+
+const MINUTE_MS = 60 * 1000;
+
+export interface AssignmentCandidate {
+  technicianId: string;
+  schedule: TechnicianSchedule;
+  openTickets: number;
+  available: boolean;
+}
+
+export interface AssignmentPick {
+  technicianId: string;
+  reason: string;
+}
+
+/**
+ * Disponibilidade do técnico no instante informado
+ * Ausências têm precedência sobre o turno semanal
+ */
+export function getTechnicianAvailability(
+  schedule: TechnicianSchedule,
+  absences: TechnicianAbsence[],
+  at: Date = new Date(),
+  utcOffsetMinutes: number = DEFAULT_BUSINESS_HOURS.utcOffsetMinutes
+): { available: boolean; reason?: string } {
+  const absence = absences.find(
+    item =>
+      item.technicianId === schedule.technicianId &&
+      new Date(item.startsAt) <= at &&
+      new Date(item.endsAt) > at
+  );
+
+  if (absence) {
+    return {
+      available: false,
+      reason: `${TECHNICIAN_ABSENCE_LABELS[absence.type]} até ${new Date(
+        absence.endsAt
+      ).toLocaleDateString('pt-BR')}`,
+    };
+  }
+
+  // Dia e hora no fuso do time
+  const local = new Date(at.getTime() + utcOffsetMinutes * MINUTE_MS);
+  const hour = local.getUTCHours() + local.getUTCMinutes() / 60;
+
+  if (!schedule.workDays.includes(local.getUTCDay())) {
+    return { available: false, reason: 'Fora dos dias de trabalho' };
+  }
+
+  if (hour < schedule.shiftStartHour || hour >= schedule.shiftEndHour) {
+    return {
+      available: false,
+      reason: `Fora do turno (${schedule.shiftStartHour}h-${schedule.shiftEndHour}h)`,
+    };
+  }
+
+  return { available: true };
+}
+
+/**
+ * Especialidade do técnico encontrada no assunto, descrição ou categoria
+ */
+export function matchTechnicianSkill(
+  ticket: Pick<Ticket, 'subject' | 'content' | 'category'>,
+  skills: string[]
+): string | undefined {
+  const text = normalizeTriageText(
+    [ticket.subject, ticket.content, ticket.category].join(' ')
+  );
+
+  return skills.find(skill => {
+    const normalized = normalizeTriageText(skill);
+
+    return normalized.length > 0 && text.includes(normalized);
+  });
+}
+
+// Menor carga; empate resolvido pela ordem dos técnicos nas configurações
+const pickLeastOpen = (candidates: AssignmentCandidate[]) =>
+  candidates.reduce((best, candidate) =>
+    candidate.openTickets < best.openTickets ? candidate : best
+  );
+
+/**
+ * Técnico escolhido pela estratégia entre os candidatos disponíveis
+ * (na ordem das configurações). Null quando ninguém está disponível
+ */
+export function pickAssignee(
+  ticket: Pick<Ticket, 'subject' | 'content' | 'category'>,
+  technicians: AssignmentCandidate[],
+  strategy: AssignmentStrategy,
+  lastAssignedOwnerId?: string
+): AssignmentPick | null {
+  const candidates = technicians.filter(candidate => candidate.available);
+
+  if (candidates.length === 0) return null;
+
+  if (strategy === 'round_robin') {
+    // Rodízio segue a ordem completa, pulando quem está indisponível
+    const lastIndex = technicians.findIndex(
+      candidate => candidate.technicianId === lastAssignedOwnerId
+    );
+    const next = [
+      ...technicians.slice(lastIndex + 1),
+      ...technicians.slice(0, lastIndex + 1),
+    ].find(candidate => candidate.available) as AssignmentCandidate;
+
+    return { technicianId: next.technicianId, reason: 'Próximo do rodízio' };
+  }
+
+  if (strategy === 'skill') {
+    const skilled = candidates
+      .map(candidate => ({
+        candidate,
+        skill: matchTechnicianSkill(ticket, candidate.schedule.skills),
+      }))
+      .filter(item => item.skill);
+
+    if (skilled.length > 0) {
+      const best = pickLeastOpen(skilled.map(item => item.candidate));
+      const skill = skilled.find(item => item.candidate === best)?.skill;
+
+      return {
+        technicianId: best.technicianId,
+        reason: `Especialidade "${skill}"`,
+      };
+    }
+  }
+
+  const best = pickLeastOpen(candidates);
+
+  return {
+    technicianId: best.technicianId,
+    reason:
+      strategy === 'skill'
+        ? `Nenhuma especialidade compatível; menor carga (${best.openTickets} aberto(s))`
+        : `Menor carga (${best.openTickets} aberto(s))`,
+  };
+}
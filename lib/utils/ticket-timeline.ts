@@ -0,0 +1,195 @@
+/**
+ * Ticket Timeline - Permanência dos tickets em cada estágio
+ * Durações entre transições, totais por estágio e percentis para analytics
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type {
+  StageDwellStats,
+  TicketStageDwell,
+  TicketStageTransition,
+  TicketTransitionSource,
+} from '@/types/ticket';
+
+const MINUTE_MS = 60 * 1000;
+
+// Transição como gravada em TicketStageTransition
+export interface StageTransitionRecord {
+  id: string;
+  fromStageId?: string | null;
+  toStageId: string;
+  transitionedAt: Date;
+  source: string;
+  changedBy?: string | null;
+}
+
+/**
+ * Duração legível: "2d 4h", "3h 15min", "12min"
+ */
+export function formatDwellMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes}min`;
+
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+
+  if (days > 0) return hours > 0 ? `${days}d ${hours}h` : `${days}d`;
+
+  const rest = minutes % 60;
+
+  return rest > 0 ? `${hours}h ${rest}min` : `${hours}h`;
+}
+
+/**
+ * Ordena as transições e calcula a permanência de cada uma
+ * A última continua aberta: sua duração vai até `now`
+ */
+export function buildStageTimeline(
+  records: StageTransitionRecord[],
+  now = new Date()
+): TicketStageTransition[] {
+  const sorted = [...records].sort(
+    (a, b) => a.transitionedAt.getTime() - b.transitionedAt.getTime()
+  );
+
+  return sorted.map((record, index) => {
+    const next = sorted[index + 1];
+    const end = next ? next.transitionedAt : now;
+
+    return {
+      id: record.id,
+      fromStageId: record.fromStageId || undefined,
+      toStageId: record.toStageId,
+      transitionedAt: record.transitionedAt.toISOString(),
+      source: record.source as TicketTransitionSource,
+      changedBy: record.changedBy || undefined,
+      durationMinutes: Math.max(
+        0,
+        Math.round(
+          (end.getTime() - record.transitionedAt.getTime()) / MINUTE_MS
+        )
+      ),
+      isCurrent: !next,
+    };
+  });
+}
+
+/**
+ * Recorta a linha do tempo ao período: cada permanência conta só o trecho
+ * entre `from` e `to`, e passagens fora do período são descartadas
+ */
+export function clipStageTimeline(
+  timeline: TicketStageTransition[],
+  from: Date | null,
+  to: Date | null
+): TicketStageTransition[] {
+  return timeline.flatMap(transition => {
+    const enteredAt = new Date(transition.transitionedAt).getTime();
+    const leftAt = enteredAt + transition.durationMinutes * MINUTE_MS;
+
+    if (
+      (to && enteredAt > to.getTime()) ||
+      (from && leftAt <= from.getTime())
+    ) {
+      return [];
+    }
+
+    const start = from ? Math.max(enteredAt, from.getTime()) : enteredAt;
+    const end = to ? Math.min(leftAt, to.getTime()) : leftAt;
+
+    return [
+      {
+        ...transition,
+        durationMinutes: Math.max(0, Math.round((end - start) / MINUTE_MS)),
+      },
+    ];
+  });
+}
+
+/**
+ * Tempo total por estágio (um ticket pode voltar a um estágio)
+ */
+export function summarizeStageDwell(
+  transitions: TicketStageTransition[]
+): TicketStageDwell[] {
+  const byStage = new Map<string, TicketStageDwell>();
+
+  for (const transition of transitions) {
+    const dwell = byStage.get(transition.toStageId) || {
+      stageId: transition.toStageId,
+      visits: 0,
+      totalMinutes: 0,
+    };
+
+    dwell.visits++;
+    dwell.totalMinutes += transition.durationMinutes;
+    byStage.set(transition.toStageId, dwell);
+  }
+
+  return Array.from(byStage.values()).sort(
+    (a, b) => b.totalMinutes - a.totalMinutes
+  );
+}
+
+/**
+ * Percentil (0-100) com interpolação linear; 0 para listas vazias
+ */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Permanência por estágio considerando apenas passagens concluídas
+ * Recebe a linha do tempo de cada ticket
+ */
+export function aggregateStageDwell(
+  timelines: TicketStageTransition[][]
+): StageDwellStats[] {
+  const byStage = new Map<
+    string,
+    { tickets: Set<number>; durations: number[]; current: number }
+  >();
+
+  timelines.forEach((timeline, ticketIndex) => {
+    for (const transition of timeline) {
+      const entry = byStage.get(transition.toStageId) || {
+        tickets: new Set<number>(),
+        durations: [],
+        current: 0,
+      };
+
+      if (transition.isCurrent) {
+        entry.current++;
+      } else {
+        entry.tickets.add(ticketIndex);
+        entry.durations.push(transition.durationMinutes);
+      }
+
+      byStage.set(transition.toStageId, entry);
+    }
+  });
+
+  return Array.from(byStage.entries()).map(([stageId, entry]) => ({
+    stageId,
+    tickets: entry.tickets.size,
+    visits: entry.durations.length,
+    currentTickets: entry.current,
+    avgMinutes:
+      entry.durations.length > 0
+        ? Math.round(
+            entry.durations.reduce((sum, value) => sum + value, 0) /
+              entry.durations.length
+          )
+        : 0,
+    medianMinutes: Math.round(percentile(entry.durations, 50)),
+    p90Minutes: Math.round(percentile(entry.durations, 90)),
+  }));
+}
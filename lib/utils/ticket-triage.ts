@@ -0,0 +1,324 @@
+/**
+ * Ticket Triage - Avaliação das regras de triagem automática
+ * Funções puras usadas pelo serviço de triagem e pela simulação do painel
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type { Prisma } from '@prisma/client';
+import type { Ticket, TicketPriority } from '@/types/ticket';
+import type {
+  TicketTriageResult,
+  TriageActions,
+  TriageChange,
+  TriageChangeField,
+  TriageConditions,
+  TriageRule,
+} from '@/types/triage';
+
+export interface TriageMatch {
+  rule: TriageRule;
+  reasons: string[];
+  changes: TriageChange[];
+}
+
+// Comparação sem acentos e sem diferenciar maiúsculas
+export const normalizeTriageText = (value: string | undefined | null) =>
+  (value || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+
+/**
+ * Motivos pelos quais a regra se aplica ao ticket (null se não se aplica)
+ */
+export function matchTriageRule(
+  ticket: Ticket,
+  rule: TriageRule
+): string[] | null {
+  const { keywords, categories, sourceTypes, tags } = rule.conditions;
+  const reasons: string[] = [];
+
+  if (keywords.length > 0) {
+    const subject = normalizeTriageText(ticket.subject);
+    const content = normalizeTriageText(ticket.content);
+    const keyword = keywords.find(
+      item =>
+        subject.includes(normalizeTriageText(item)) ||
+        content.includes(normalizeTriageText(item))
+    );
+
+    if (!keyword) return null;
+
+    reasons.push(
+      `Palavra-chave "${keyword}" ${subject.includes(normalizeTriageText(keyword)) ? 'no assunto' : 'na descrição'}`
+    );
+  }
+
+  if (categories.length > 0) {
+    const category = categories.find(
+      item => normalizeTriageText(item) === normalizeTriageText(ticket.category)
+    );
+
+    if (!category) return null;
+
+    reasons.push(`Categoria "${ticket.category}"`);
+  }
+
+  if (sourceTypes.length > 0) {
+    const sourceType = sourceTypes.find(
+      item =>
+        normalizeTriageText(item) === normalizeTriageText(ticket.sourceType)
+    );
+
+    if (!sourceType) return null;
+
+    reasons.push(`Origem "${ticket.sourceType}"`);
+  }
+
+  if (tags.length > 0) {
+    const ticketTags = (ticket.tags || []).map(normalizeTriageText);
+    const tag = tags.find(item =>
+      ticketTags.includes(normalizeTriageText(item))
+    );
+
+    if (!tag) return null;
+
+    reasons.push(`Tag "${tag}"`);
+  }
+
+  // Regra sem nenhuma condição nunca dispara
+  return reasons.length > 0 ? reasons : null;
+}
+
+/**
+ * Alterações que as ações da regra fariam no ticket (apenas diferenças)
+ */
+export function buildTriageChanges(
+  ticket: Ticket,
+  rule: TriageRule
+): TriageChange[] {
+  const { actions } = rule;
+  const changes: TriageChange[] = [];
+
+  if (
+    actions.pipelineStageId &&
+    actions.pipelineStageId !== ticket.pipelineStageId
+  ) {
+    changes.push({
+      field: 'pipelineStageId',
+      from: ticket.pipelineStageId,
+      to: actions.pipelineStageId,
+    });
+  }
+
+  if (actions.priority && actions.priority !== ticket.priority) {
+    changes.push({
+      field: 'priority',
+      from: ticket.priority,
+      to: actions.priority,
+    });
+  }
+
+  if (
+    actions.hubspotOwnerId &&
+    actions.hubspotOwnerId !== ticket.hubspotOwnerId
+  ) {
+    changes.push({
+      field: 'hubspotOwnerId',
+      from: ticket.hubspotOwnerId,
+      to: actions.hubspotOwnerId,
+    });
+  }
+
+  const currentTags = ticket.tags || [];
+  const normalizedTags = currentTags.map(normalizeTriageText);
+  const newTags = actions.addTags.filter(
+    tag => !normalizedTags.includes(normalizeTriageText(tag))
+  );
+
+  if (newTags.length > 0) {
+    changes.push({
+      field: 'tags',
+      from: currentTags,
+      to: [...currentTags, ...newTags],
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Primeira regra ativa (pela ordem) compatível com o ticket
+ */
+export function findTriageMatch(
+  ticket: Ticket,
+  rules: TriageRule[]
+): TriageMatch | null {
+  const candidates = rules
+    .filter(rule => rule.isActive)
+    .sort((a, b) => a.displayOrder - b.displayOrder);
+
+  for (const rule of candidates) {
+    const reasons = matchTriageRule(ticket, rule);
+
+    if (reasons) {
+      return { rule, reasons, changes: buildTriageChanges(ticket, rule) };
+    }
+  }
+
+  return null;
+}
+
+// Conversão de/para o JSON gravado em TriageRule e Ticket.triageResult
+
+const TRIAGE_PRIORITIES: TicketPriority[] = ['LOW', 'MEDIUM', 'HIGH', 'URGENT'];
+const TRIAGE_CHANGE_FIELDS: TriageChangeField[] = [
+  'pipelineStageId',
+  'priority',
+  'hubspotOwnerId',
+  'tags',
+];
+const TRIAGE_SOURCES: TicketTriageResult['source'][] = [
+  'webhook',
+  'sync',
+  'manual',
+];
+
+const asJsonObject = (
+  value: Prisma.JsonValue | undefined
+): Prisma.JsonObject | null =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value : null;
+
+const asString = (value: Prisma.JsonValue | undefined): string | undefined =>
+  typeof value === 'string' && value ? value : undefined;
+
+const asStringList = (value: Prisma.JsonValue | undefined): string[] =>
+  Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string')
+    : [];
+
+const asChangeValue = (
+  value: Prisma.JsonValue | undefined
+): string | string[] | undefined =>
+  Array.isArray(value) ? asStringList(value) : asString(value);
+
+export function triageConditionsToJson(
+  conditions: TriageConditions
+): Prisma.InputJsonObject {
+  return {
+    keywords: conditions.keywords,
+    categories: conditions.categories,
+    sourceTypes: conditions.sourceTypes,
+    tags: conditions.tags,
+  };
+}
+
+export function triageActionsToJson(
+  actions: TriageActions
+): Prisma.InputJsonObject {
+  return {
+    ...(actions.pipelineStageId
+      ? { pipelineStageId: actions.pipelineStageId }
+      : {}),
+    ...(actions.priority ? { priority: actions.priority } : {}),
+    ...(actions.hubspotOwnerId
+      ? { hubspotOwnerId: actions.hubspotOwnerId }
+      : {}),
+    addTags: actions.addTags,
+  };
+}
+
+export function triageResultToJson(
+  result: TicketTriageResult
+): Prisma.InputJsonObject {
+  return {
+    ruleId: result.ruleId,
+    ruleName: result.ruleName,
+    reasons: result.reasons,
+    changes: result.changes.map(change => ({
+      field: change.field,
+      ...(change.from !== undefined ? { from: change.from } : {}),
+      to: change.to,
+    })),
+    dryRun: result.dryRun,
+    applied: result.applied,
+    source: result.source,
+    evaluatedAt: result.evaluatedAt,
+    ...(result.error ? { error: result.error } : {}),
+  };
+}
+
+/**
+ * Condições gravadas; grupos ausentes ou inválidos ficam vazios
+ */
+export function parseTriageConditions(
+  value: Prisma.JsonValue
+): TriageConditions {
+  const conditions = asJsonObject(value);
+
+  return {
+    keywords: asStringList(conditions?.keywords),
+    categories: asStringList(conditions?.categories),
+    sourceTypes: asStringList(conditions?.sourceTypes),
+    tags: asStringList(conditions?.tags),
+  };
+}
+
+/**
+ * Ações gravadas; valores inválidos são descartados
+ */
+export function parseTriageActions(value: Prisma.JsonValue): TriageActions {
+  const actions = asJsonObject(value);
+  const priority = TRIAGE_PRIORITIES.find(item => item === actions?.priority);
+
+  return {
+    pipelineStageId: asString(actions?.pipelineStageId),
+    priority,
+    hubspotOwnerId: asString(actions?.hubspotOwnerId),
+    addTags: asStringList(actions?.addTags),
+  };
+}
+
+/**
+ * Explicação gravada no ticket (null se ausente ou em formato desconhecido)
+ */
+export function parseTriageResult(
+  value: Prisma.JsonValue
+): TicketTriageResult | null {
+  const result = asJsonObject(value);
+  const ruleId = asString(result?.ruleId);
+  const ruleName = asString(result?.ruleName);
+  const evaluatedAt = asString(result?.evaluatedAt);
+  const source = TRIAGE_SOURCES.find(item => item === result?.source);
+
+  if (!result || !ruleId || !ruleName || !evaluatedAt || !source) return null;
+
+  const changes: TriageChange[] = [];
+
+  for (const item of Array.isArray(result.changes) ? result.changes : []) {
+    const change = asJsonObject(item);
+    const field = TRIAGE_CHANGE_FIELDS.find(
+      candidate => candidate === change?.field
+    );
+    const to = asChangeValue(change?.to);
+
+    if (field && to !== undefined) {
+      changes.push({ field, from: asChangeValue(change?.from), to });
+    }
+  }
+
+  return {
+    ruleId,
+    ruleName,
+    reasons: asStringList(result.reasons),
+    changes,
+    dryRun: result.dryRun === true,
+    applied: result.applied === true,
+    source,
+    evaluatedAt,
+    error: asString(result.error),
+  };
+}
@@ -3,21 +3,43 @@
  * Converte dados do Trello para formato compatível com Prisma
  */
 
+import type { ProjectCatalog } from '@/types/catalog';
 import type {
   Project,
   Platform,
+  ProjectAttachment,
   TeamMember,
   ProjectStatus,
   ProjectPriority,
 } from '@/types/project';
 
+import {
+  DEFAULT_PROJECT_CATALOG,
+  getDefaultMemberNames,
+  getDefaultPlatformNames,
+} from '@/lib/config/project-catalog';
+import {
+  calculateChecklistProgress,
+  getCoverUrl,
+  isImageAttachment,
+  mapTrelloAttachments,
+  mapTrelloChecklists,
+  matchPlatformLabel,
+  matchTeamMembers,
+  resolveProgressFromLabels,
+  type TrelloAttachmentLike,
+  type TrelloChecklistLike,
+} from '@/lib/utils/trello-fields';
+
 // Tipos temporários até o Prisma Client ser gerado
 export interface TrelloCard {
   id: string;
   name: string;
   desc: string;
   due: string | null;
+  start?: string | null;
   dateLastActivity: string;
+  closed?: boolean;
   list: {
     id: string;
     name: string;
@@ -30,17 +52,17 @@ export interface TrelloCard {
   members: Array<{
     id: string;
     fullName: string;
-    username: string;
-  }>;
-  checklists: Array<{
-    id: string;
-    name: string;
-    checkItems: Array<{
-      id: string;
-      name: string;
-      state: 'complete' | 'incomplete';
-    }>;
+    username?: string;
   }>;
+  // Cards lidos sem checklists trazem apenas os contadores em `badges`
+  checklists?: TrelloChecklistLike[];
+  badges?: {
+    checkItems: number;
+    checkItemsChecked: number;
+  };
+  // Presente quando lido com attachments=true; a capa é idAttachmentCover
+  attachments?: TrelloAttachmentLike[];
+  idAttachmentCover?: string | null;
 }
 
 export interface PrismaProjectData {
@@ -87,69 +109,39 @@ export function mapTrelloStatusToProject(listName: string): ProjectStatus {
 }
 
 /**
- * Mapeia membros do Trello para TeamMembers
+ * Mapeia membros do Trello para membros do catálogo
  */
 export function mapTrelloMembersToTeam(
-  trelloMembers: TrelloCard['members']
+  trelloMembers: TrelloCard['members'],
+  catalog: ProjectCatalog = DEFAULT_PROJECT_CATALOG
 ): TeamMember[] {
-  const memberMapping: Record<string, TeamMember> = {
-    guilherme: 'Guilherme Souza',
-    gui: 'Guilherme Souza',
-    'guilherme souza': 'Guilherme Souza',
-    felipe: 'Felipe Braat',
-    braat: 'Felipe Braat',
-    'felipe braat': 'Felipe Braat',
-    tiago: 'Tiago Triani',
-    triani: 'Tiago Triani',
-    'tiago triani': 'Tiago Triani',
-  };
-
-  const mappedMembers: TeamMember[] = [];
-
-  for (const member of trelloMembers) {
-    const normalizedName = member.fullName.toLowerCase().trim();
-    const normalizedUsername = member.username.toLowerCase().trim();
-
-    const mappedMember =
-      memberMapping[normalizedName] || memberMapping[normalizedUsername];
-
-    if (mappedMember && !mappedMembers.includes(mappedMember)) {
-      mappedMembers.push(mappedMember);
-    }
-  }
-
-  return mappedMembers.length > 0 ? mappedMembers : ['Guilherme Souza'];
+  const mappedMembers = [
+    ...new Set(
+      trelloMembers.flatMap(member => matchTeamMembers(member, catalog))
+    ),
+  ];
+
+  return mappedMembers.length > 0
+    ? mappedMembers
+    : getDefaultMemberNames(catalog);
 }
 
 /**
- * Mapeia labels do Trello para Platforms
+ * Mapeia labels do Trello para plataformas do catálogo
  */
 export function mapTrelloLabelsToPlattforms(
-  trelloLabels: TrelloCard['labels']
+  trelloLabels: TrelloCard['labels'],
+  catalog: ProjectCatalog = DEFAULT_PROJECT_CATALOG
 ): Platform[] {
-  const platformMapping: Record<string, Platform> = {
-    n8n: 'N8N',
-    jira: 'Jira',
-    hubspot: 'Hubspot',
-    backoffice: 'Backoffice',
-    'back office': 'Backoffice',
-    'google workspace': 'Google Workspace',
-    google: 'Google Workspace',
-    workspace: 'Google Workspace',
-  };
-
-  const mappedPlatforms: Platform[] = [];
-
-  for (const label of trelloLabels) {
-    const normalizedName = label.name.toLowerCase().trim();
-    const mappedPlatform = platformMapping[normalizedName];
-
-    if (mappedPlatform && !mappedPlatforms.includes(mappedPlatform)) {
-      mappedPlatforms.push(mappedPlatform);
-    }
-  }
-
-  return mappedPlatforms.length > 0 ? mappedPlatforms : ['Backoffice'];
+  const mappedPlatforms = [
+    ...new Set(
+      trelloLabels.flatMap(label => matchPlatformLabel(label.name, catalog))
+    ),
+  ];
+
+  return mappedPlatforms.length > 0
+    ? mappedPlatforms
+    : getDefaultPlatformNames(catalog);
 }
 
 /**
@@ -194,57 +186,26 @@ export function detectPriorityFromLabels(
   return 'medium'; // Padrão
 }
 
-/**
- * Calcula progresso baseado nos checklists do Trello
- */
-export function calculateProgressFromChecklists(
-  checklists: TrelloCard['checklists']
-): number {
-  if (!checklists || checklists.length === 0) {
-    return 0;
-  }
-
-  let totalItems = 0;
-  let completedItems = 0;
-
-  for (const checklist of checklists) {
-    for (const item of checklist.checkItems) {
-      totalItems++;
-      if (item.state === 'complete') {
-        completedItems++;
-      }
-    }
-  }
-
-  if (totalItems === 0) return 0;
-
-  return Math.round((completedItems / totalItems) * 100);
-}
-
 /**
  * Transforma card do Trello em dados compatíveis com Prisma
  */
 export function transformTrelloCardToPrismaProject(
-  card: TrelloCard
+  card: TrelloCard,
+  catalog: ProjectCatalog = DEFAULT_PROJECT_CATALOG
 ): PrismaProjectData {
-  const progress = calculateProgressFromChecklists(card.checklists);
   const status = mapTrelloStatusToProject(card.list.name);
-  const platforms = mapTrelloLabelsToPlattforms(card.labels);
-  const responsible = mapTrelloMembersToTeam(card.members);
+  const platforms = mapTrelloLabelsToPlattforms(card.labels, catalog);
+  const responsible = mapTrelloMembersToTeam(card.members, catalog);
   const priority = detectPriorityFromLabels(card.labels);
 
-  // Inferir progresso por status se não houver checklists
-  const inferredProgress =
-    progress > 0 ? progress : getDefaultProgressByStatus(status);
-
   return {
     title: card.name.trim(),
     description: card.desc || null,
-    progress: Math.min(100, Math.max(0, inferredProgress)),
+    progress: resolveProgress(card, status, catalog),
     platforms,
     responsible,
-    imageUrl: null, // Trello não fornece imagem diretamente
-    startDate: new Date(card.dateLastActivity),
+    imageUrl: getCoverUrl(card.attachments, card.idAttachmentCover) || null,
+    startDate: new Date(card.start || card.dateLastActivity),
     estimatedEndDate: card.due ? new Date(card.due) : getDefaultEndDate(),
     status,
     priority,
@@ -255,6 +216,96 @@ export function transformTrelloCardToPrismaProject(
   };
 }
 
+/**
+ * Transforma card do Trello no formato de projeto usado pela aplicação
+ * Mapeamento único usado pelo pipeline de webhooks
+ * Retorna null para cards arquivados, sem título ou de template
+ */
+export function mapTrelloCardToProject(
+  card: TrelloCard,
+  catalog: ProjectCatalog = DEFAULT_PROJECT_CATALOG
+): Project | null {
+  const title = sanitizeString(card.name || '');
+  const normalizedTitle = title.toLowerCase();
+
+  if (
+    !card.id ||
+    !title ||
+    card.closed === true ||
+    normalizedTitle.includes('template') ||
+    normalizedTitle.includes('exemplo')
+  ) {
+    return null;
+  }
+
+  const status = mapTrelloStatusToProject(card.list?.name || '');
+  const labels = card.labels || [];
+  const checklists = card.checklists
+    ? mapTrelloChecklists(card.checklists, catalog)
+    : undefined;
+  const now = new Date().toISOString();
+
+  return {
+    id: card.id,
+    title: title.substring(0, 255),
+    description: sanitizeString(card.desc || '').substring(0, 1000),
+    progress: resolveProgress(card, status, catalog),
+    platforms: mapTrelloLabelsToPlattforms(labels, catalog),
+    responsible: mapTrelloMembersToTeam(card.members || [], catalog),
+    imageUrl: getCoverUrl(card.attachments, card.idAttachmentCover),
+    startDate: card.start || card.dateLastActivity || now,
+    estimatedEndDate: card.due
+      ? new Date(card.due).toISOString()
+      : getDefaultEndDate().toISOString(),
+    status,
+    priority: detectPriorityFromLabels(labels),
+    trelloCardId: card.id,
+    labels: [
+      ...new Set(
+        labels
+          .map(label => sanitizeString(label.name || ''))
+          .filter(name => name.length > 0)
+      ),
+    ],
+    trelloUpdatedAt: card.dateLastActivity,
+    checklists,
+    attachments: card.attachments
+      ? mapTrelloAttachments(card.attachments, card.idAttachmentCover)
+      : undefined,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Progresso pelos itens de checklist, pelos contadores do card, pela label
+ * "Progresso N%" definida no dashboard ou inferido pelo status
+ */
+function resolveProgress(
+  card: TrelloCard,
+  status: ProjectStatus,
+  catalog: ProjectCatalog
+): number {
+  const checklistProgress = calculateChecklistProgress(
+    card.checklists ? mapTrelloChecklists(card.checklists, catalog) : undefined
+  );
+
+  if (checklistProgress !== null) return checklistProgress;
+
+  if (card.badges?.checkItems) {
+    return Math.round(
+      ((card.badges.checkItemsChecked || 0) / card.badges.checkItems) * 100
+    );
+  }
+
+  // Inferir progresso por status se não houver checklists nem label
+  const progress =
+    resolveProgressFromLabels(card.labels || []) ??
+    getDefaultProgressByStatus(status);
+
+  return Math.min(100, Math.max(0, progress));
+}
+
 /**
  * Progresso padrão baseado no status
  */
@@ -317,14 +368,22 @@ function sanitizeString(input: string): string {
  * Converte dados Prisma para formato legacy (compatibilidade)
  */
 export function convertPrismaToLegacyProject(prismaProject: any): Project {
+  const attachments = prismaProject.attachments?.map(
+    convertPrismaAttachment
+  ) as ProjectAttachment[] | undefined;
+
   return {
     id: prismaProject.id,
     title: prismaProject.title,
     description: prismaProject.description || '',
     progress: prismaProject.progress,
-    platforms: prismaProject.platforms,
-    responsible: prismaProject.responsible,
-    imageUrl: prismaProject.imageUrl,
+    // Plataformas e responsáveis são gravados pelo nome do catálogo
+    platforms: prismaProject.platforms || [],
+    responsible: prismaProject.responsible || [],
+    // Capa copiada para o armazenamento; uploads do Trello exigem autenticação
+    imageUrl:
+      attachments?.find(attachment => attachment.isCover)?.previewUrl ||
+      prismaProject.imageUrl,
     startDate: prismaProject.startDate.toISOString(),
     estimatedEndDate: prismaProject.estimatedEndDate.toISOString(),
     status: prismaProject.status
@@ -333,7 +392,54 @@ export function convertPrismaToLegacyProject(prismaProject: any): Project {
     priority: prismaProject.priority.toLowerCase() as ProjectPriority,
     trelloCardId: prismaProject.trelloCardId,
     labels: prismaProject.labels,
+    trelloUpdatedAt: prismaProject.trelloUpdatedAt?.toISOString(),
+    // Dependências identificadas pelo card (mesma chave das rotas /api/projects)
+    blocks: prismaProject.blocks?.map(
+      (link: any) => link.blocked.trelloCardId || link.blocked.id
+    ),
+    blockedBy: prismaProject.blockedBy?.map(
+      (link: any) => link.blocker.trelloCardId || link.blocker.id
+    ),
+    checklists: prismaProject.checklists?.map((checklist: any) => ({
+      id: checklist.id,
+      name: checklist.name,
+      position: checklist.position,
+      checkItems: (checklist.checkItems || []).map((item: any) => ({
+        id: item.id,
+        name: item.name,
+        state: item.state === 'complete' ? 'complete' : 'incomplete',
+        position: item.position,
+        dueDate: item.dueDate?.toISOString(),
+        trelloMemberId: item.trelloMemberId || undefined,
+        assignee: item.assignee || undefined,
+      })),
+    })),
+    attachments,
     createdAt: prismaProject.createdAt?.toISOString(),
     updatedAt: prismaProject.updatedAt?.toISOString(),
   };
 }
+
+/**
+ * Converte uma linha de project_attachments (previewUrl = cópia armazenada)
+ */
+export function convertPrismaAttachment(row: any): ProjectAttachment {
+  const attachment: ProjectAttachment = {
+    id: row.id,
+    name: row.name,
+    url: row.url,
+    mimeType: row.mimeType || undefined,
+    bytes: row.bytes ?? undefined,
+    isUpload: row.isUpload,
+    isCover: row.isCover,
+    previewUrl: row.storageUrl || undefined,
+    uploadedBy: row.uploadedBy || undefined,
+    attachedAt: row.attachedAt.toISOString(),
+  };
+
+  if (!attachment.previewUrl && !row.isUpload && isImageAttachment(row)) {
+    attachment.previewUrl = row.url;
+  }
+
+  return attachment;
+}
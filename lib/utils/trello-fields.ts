@@ -0,0 +1,384 @@
+/**
+ * Trello Fields - Convenções de mapeamento Projeto ↔ card do Trello
+ * Plataformas, prioridade e progresso viram labels; responsáveis viram membros
+ * Plataformas e membros são resolvidos pelo catálogo (tabelas platforms/members)
+ * Checklists do card são o detalhe do progresso; a capa do card é a imagem
+ * Usadas tanto na leitura (extract*) quanto na escrita dos cards, para que os
+ * valores editados no dashboard voltem iguais na próxima sincronização
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type { CatalogMember, ProjectCatalog } from '@/types/catalog';
+import type {
+  Platform,
+  ProjectAttachment,
+  ProjectChecklist,
+  ProjectPriority,
+  TeamMember,
+} from '@/types/project';
+
+import {
+  getActiveMembers,
+  getActivePlatforms,
+} from '@/lib/config/project-catalog';
+
+// Labels de prioridade usam red/yellow/green; evite essas cores nas plataformas
+export const PRIORITY_LABELS: Record<
+  ProjectPriority,
+  { name: string; color: string }
+> = {
+  high: { name: 'High', color: 'red' },
+  medium: { name: 'Medium', color: 'yellow' },
+  low: { name: 'Low', color: 'green' },
+};
+
+// Ordem importa: 'high' é avaliado antes de 'medium' e 'low'
+const PRIORITY_KEYWORDS: [ProjectPriority, string[]][] = [
+  ['high', ['high', 'urgent']],
+  ['medium', ['medium']],
+  ['low', ['low']],
+];
+
+const PRIORITY_BY_COLOR: Record<string, ProjectPriority> = {
+  red: 'high',
+  yellow: 'medium',
+  green: 'low',
+};
+
+// Progresso manual (cards sem checklist): label "Progresso 60%"
+const PROGRESS_LABEL_PATTERN = /^progresso\s+(\d{1,3})\s*%$/i;
+
+// Links externos exibidos diretamente quando apontam para uma imagem
+const IMAGE_URL_PATTERN = /\.(png|jpe?g|gif|webp|svg)(\?.*)?$/i;
+
+// Limite de upload do Trello (plano gratuito); vale para o envio pelo modal
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+interface TrelloLabelLike {
+  name?: string | null;
+  color?: string | null;
+}
+
+interface TrelloMemberLike {
+  id?: string;
+  fullName?: string | null;
+  username?: string | null;
+}
+
+// Checklist como retornado com checklists=all
+export interface TrelloChecklistLike {
+  id: string;
+  name: string;
+  pos?: number;
+  checkItems?: Array<{
+    id: string;
+    name: string;
+    state: 'complete' | 'incomplete';
+    pos?: number;
+    due?: string | null;
+    idMember?: string | null;
+  }>;
+}
+
+// Anexo como retornado com attachments=true
+export interface TrelloAttachmentLike {
+  id: string;
+  name?: string | null;
+  url: string;
+  mimeType?: string | null;
+  bytes?: number | null;
+  isUpload?: boolean;
+  date?: string;
+}
+
+/**
+ * Plataformas do catálogo representadas por um label (nome exato ou trecho)
+ */
+export function matchPlatformLabel(
+  name: string,
+  catalog: ProjectCatalog
+): Platform[] {
+  const normalized = name.toLowerCase().trim();
+
+  if (!normalized) return [];
+
+  return getActivePlatforms(catalog)
+    .filter(
+      platform =>
+        (platform.trelloLabel || platform.name).toLowerCase() === normalized ||
+        platform.keywords.some(
+          keyword => keyword && normalized.includes(keyword.toLowerCase())
+        )
+    )
+    .map(platform => platform.name);
+}
+
+// Nome do label usado ao gravar a plataforma no card
+export function getPlatformLabelName(
+  platform: Platform,
+  catalog: ProjectCatalog
+): string {
+  const entry = catalog.platforms.find(item => item.name === platform);
+
+  return entry?.trelloLabel || platform;
+}
+
+export function matchPriorityLabel(name: string): ProjectPriority | null {
+  const normalized = name.toLowerCase().trim();
+
+  if (!normalized) return null;
+
+  const match = PRIORITY_KEYWORDS.find(([, keywords]) =>
+    keywords.some(keyword => normalized.includes(keyword))
+  );
+
+  return match ? match[0] : null;
+}
+
+// ID e username do Trello são exatos; palavras-chave cobrem membros sem vínculo
+function isSameTrelloMember(
+  entry: CatalogMember,
+  member: TrelloMemberLike
+): boolean {
+  if (entry.trelloMemberId && member.id) {
+    return entry.trelloMemberId === member.id;
+  }
+
+  const username = (member.username || '').toLowerCase().trim();
+
+  if (entry.trelloUsername && username) {
+    return entry.trelloUsername.toLowerCase() === username;
+  }
+
+  const name = (member.fullName || member.username || '').toLowerCase().trim();
+
+  return (
+    !!name &&
+    (entry.name.toLowerCase() === name ||
+      entry.keywords.some(
+        keyword => keyword && name.includes(keyword.toLowerCase())
+      ))
+  );
+}
+
+/**
+ * Membros do catálogo correspondentes a um membro do Trello
+ */
+export function matchTeamMembers(
+  member: TrelloMemberLike,
+  catalog: ProjectCatalog
+): TeamMember[] {
+  return getActiveMembers(catalog)
+    .filter(entry => isSameTrelloMember(entry, member))
+    .map(entry => entry.name);
+}
+
+/**
+ * Membro do quadro do Trello que representa um membro do catálogo
+ */
+export function findTrelloMember<T extends TrelloMemberLike>(
+  teamMember: TeamMember,
+  boardMembers: T[],
+  catalog: ProjectCatalog
+): T | undefined {
+  const entry = catalog.members.find(item => item.name === teamMember);
+
+  return entry
+    ? boardMembers.find(member => isSameTrelloMember(entry, member))
+    : undefined;
+}
+
+export function formatProgressLabel(progress: number): string {
+  return `Progresso ${Math.max(0, Math.min(100, Math.round(progress)))}%`;
+}
+
+export function parseProgressLabel(name: string): number | null {
+  const match = PROGRESS_LABEL_PATTERN.exec(name.trim());
+
+  return match ? Math.min(100, Number(match[1])) : null;
+}
+
+/**
+ * Prioridade das labels do card: nome tem precedência sobre cor, e labels
+ * de plataforma/progresso não contam pela cor
+ */
+export function resolvePriorityFromLabels(
+  labels: TrelloLabelLike[],
+  catalog: ProjectCatalog
+): ProjectPriority | null {
+  for (const label of labels) {
+    const priority = matchPriorityLabel(label?.name || '');
+
+    if (priority) return priority;
+  }
+
+  for (const label of labels) {
+    if (!label || isManagedLabel(label.name || '', catalog)) continue;
+
+    const priority = PRIORITY_BY_COLOR[(label.color || '').toLowerCase()];
+
+    if (priority) return priority;
+  }
+
+  return null;
+}
+
+export function resolveProgressFromLabels(
+  labels: TrelloLabelLike[]
+): number | null {
+  for (const label of labels) {
+    const progress = parseProgressLabel(label?.name || '');
+
+    if (progress !== null) return progress;
+  }
+
+  return null;
+}
+
+/**
+ * Labels controladas pelos campos do projeto (plataforma, prioridade, progresso)
+ */
+export function isManagedLabel(name: string, catalog: ProjectCatalog): boolean {
+  return (
+    matchPlatformLabel(name, catalog).length > 0 ||
+    matchPriorityLabel(name) !== null ||
+    parseProgressLabel(name) !== null
+  );
+}
+
+/**
+ * Labels livres: as que não representam plataforma, prioridade ou progresso
+ */
+export function getFreeLabels(
+  labels: string[] = [],
+  catalog: ProjectCatalog
+): string[] {
+  return labels.filter(
+    label => label.trim() && !isManagedLabel(label, catalog)
+  );
+}
+
+/**
+ * Checklists do card ordenados como no Trello, com responsável pelo catálogo
+ */
+export function mapTrelloChecklists(
+  checklists: TrelloChecklistLike[],
+  catalog: ProjectCatalog
+): ProjectChecklist[] {
+  return [...checklists]
+    .sort((a, b) => (a.pos ?? 0) - (b.pos ?? 0))
+    .map((checklist, index) => ({
+      id: checklist.id,
+      name: checklist.name || 'Checklist',
+      position: checklist.pos ?? index,
+      checkItems: [...(checklist.checkItems || [])]
+        .sort((a, b) => (a.pos ?? 0) - (b.pos ?? 0))
+        .map((item, itemIndex) => ({
+          id: item.id,
+          name: item.name,
+          state: item.state === 'complete' ? 'complete' : 'incomplete',
+          position: item.pos ?? itemIndex,
+          dueDate: item.due || undefined,
+          trelloMemberId: item.idMember || undefined,
+          assignee: item.idMember
+            ? matchTeamMembers({ id: item.idMember }, catalog)[0]
+            : undefined,
+        })),
+    }));
+}
+
+/**
+ * Progresso pelos itens de checklist; null quando o card não tem itens
+ * (0% é um valor real e não cai nos fallbacks)
+ */
+export function calculateChecklistProgress(
+  checklists: ProjectChecklist[] | undefined
+): number | null {
+  const items = (checklists || []).flatMap(checklist => checklist.checkItems);
+
+  if (items.length === 0) return null;
+
+  const completed = items.filter(item => item.state === 'complete').length;
+
+  return Math.round((completed / items.length) * 100);
+}
+
+// URL da capa do card (anexo apontado por idAttachmentCover)
+export function getCoverUrl(
+  attachments: TrelloAttachmentLike[] | undefined,
+  coverId: string | null | undefined
+): string | undefined {
+  if (!coverId) return undefined;
+
+  return attachments?.find(attachment => attachment.id === coverId)?.url;
+}
+
+// Imagens são copiadas para o armazenamento e usadas como miniatura
+export function isImageAttachment(
+  attachment: Pick<ProjectAttachment, 'mimeType' | 'url'>
+): boolean {
+  return (
+    !!attachment.mimeType?.startsWith('image/') ||
+    IMAGE_URL_PATTERN.test(attachment.url)
+  );
+}
+
+/**
+ * Anexos do card, do mais recente ao mais antigo; a capa é marcada por
+ * idAttachmentCover. Uploads do Trello só ganham previewUrl quando copiados
+ */
+export function mapTrelloAttachments(
+  attachments: TrelloAttachmentLike[],
+  coverId?: string | null
+): ProjectAttachment[] {
+  return attachments
+    .map(attachment => {
+      const mapped: ProjectAttachment = {
+        id: attachment.id,
+        name: attachment.name || attachment.url,
+        url: attachment.url,
+        mimeType: attachment.mimeType || undefined,
+        bytes: attachment.bytes ?? undefined,
+        isUpload: !!attachment.isUpload,
+        isCover: attachment.id === coverId,
+        attachedAt: attachment.date || new Date(0).toISOString(),
+      };
+
+      if (!mapped.isUpload && isImageAttachment(mapped)) {
+        mapped.previewUrl = mapped.url;
+      }
+
+      return mapped;
+    })
+    .sort(
+      (a, b) =>
+        new Date(b.attachedAt).getTime() - new Date(a.attachedAt).getTime()
+    );
+}
+
+// Uploads de imagem ainda sem cópia exibível
+export function shouldMirrorAttachment(attachment: ProjectAttachment): boolean {
+  return (
+    attachment.isUpload &&
+    !!attachment.mimeType?.startsWith('image/') &&
+    (attachment.bytes ?? 0) <= MAX_ATTACHMENT_BYTES
+  );
+}
+
+/**
+ * Caminho da cópia no armazenamento: <card>/<anexo>.<extensão>
+ */
+export function getAttachmentStoragePath(
+  cardId: string,
+  attachment: Pick<ProjectAttachment, 'id' | 'name' | 'mimeType'>
+): string {
+  const fromName = attachment.name.match(/\.[a-z0-9]{1,5}$/i)?.[0];
+  const fromMime = attachment.mimeType?.split('/')[1]?.replace('+xml', '');
+  const extension = (
+    fromName || (fromMime ? `.${fromMime.replace('jpeg', 'jpg')}` : '')
+  ).toLowerCase();
+
+  return `${cardId}/${attachment.id}${extension}`;
+}
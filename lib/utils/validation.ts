@@ -1,3 +1,5 @@
+import type { ProjectCatalog } from '@/types/catalog';
+
 import {
   Project,
   Platform,
@@ -5,6 +7,11 @@ import {
   ProjectStatus,
   ProjectPriority,
 } from '@/types/project';
+import {
+  DEFAULT_PROJECT_CATALOG,
+  findMember,
+  findPlatform,
+} from '@/lib/config/project-catalog';
 
 // Validation schemas
 export const ValidationRules = {
@@ -35,8 +42,11 @@ export function sanitizeString(input: string): string {
     .replace(/on\w+=/gi, ''); // Remove event handlers
 }
 
-// Validate project data
-export function validateProject(project: Partial<Project>): {
+// Validate project data (plataformas e responsáveis devem existir no catálogo)
+export function validateProject(
+  project: Partial<Project>,
+  catalog: ProjectCatalog = DEFAULT_PROJECT_CATALOG
+): {
   isValid: boolean;
   errors: string[];
 } {
@@ -76,23 +86,52 @@ export function validateProject(project: Partial<Project>): {
   // Platforms validation
   if (project.platforms && project.platforms.length === 0) {
     errors.push('Pelo menos uma plataforma deve ser selecionada');
+  } else if (
+    project.platforms?.some(platform => !isValidPlatform(platform, catalog))
+  ) {
+    errors.push('Plataforma inválida');
   }
 
   // Responsible validation
   if (project.responsible && project.responsible.length === 0) {
     errors.push('Pelo menos um responsável deve ser atribuído');
+  } else if (
+    project.responsible?.some(member => !isValidTeamMember(member, catalog))
+  ) {
+    errors.push('Responsável inválido');
+  }
+
+  // Status and priority validation
+  if (project.status !== undefined && !isValidStatus(project.status)) {
+    errors.push('Status inválido');
+  }
+  if (project.priority !== undefined && !isValidPriority(project.priority)) {
+    errors.push('Prioridade inválida');
   }
 
   // Date validation
+  if (project.startDate && isNaN(Date.parse(project.startDate))) {
+    errors.push('Data de início inválida');
+  }
+
   if (project.estimatedEndDate) {
     const endDate = new Date(project.estimatedEndDate);
     const now = new Date();
 
-    if (endDate < now) {
+    if (isNaN(endDate.getTime())) {
+      errors.push('Data de conclusão inválida');
+    } else if (endDate < now) {
       errors.push('Data de conclusão não pode ser no passado');
+    } else if (project.startDate && new Date(project.startDate) > endDate) {
+      errors.push('Data de início deve ser anterior à data de conclusão');
     }
   }
 
+  // Image validation (capa do card no Trello)
+  if (project.imageUrl && !/^https?:\/\/\S+$/i.test(project.imageUrl)) {
+    errors.push('URL da imagem deve começar com http:// ou https://');
+  }
+
   return {
     isValid: errors.length === 0,
     errors,
@@ -114,26 +153,18 @@ export function sanitizeProject(project: Partial<Project>): Partial<Project> {
 }
 
 // Type guards
-export function isValidPlatform(platform: string): platform is Platform {
-  const validPlatforms: Platform[] = [
-    'N8N',
-    'Jira',
-    'Hubspot',
-    'Backoffice',
-    'Google Workspace',
-  ];
-
-  return validPlatforms.includes(platform as Platform);
+export function isValidPlatform(
+  platform: string,
+  catalog: ProjectCatalog = DEFAULT_PROJECT_CATALOG
+): platform is Platform {
+  return !!findPlatform(catalog, platform);
 }
 
-export function isValidTeamMember(member: string): member is TeamMember {
-  const validMembers: TeamMember[] = [
-    'Guilherme Souza',
-    'Felipe Braat',
-    'Tiago Triani',
-  ];
-
-  return validMembers.includes(member as TeamMember);
+export function isValidTeamMember(
+  member: string,
+  catalog: ProjectCatalog = DEFAULT_PROJECT_CATALOG
+): member is TeamMember {
+  return !!findMember(catalog, member);
 }
 
 export function isValidStatus(status: string): status is ProjectStatus {
@@ -0,0 +1,1009 @@
+/**
+ * Settings Validation Schemas - Validação das configurações do painel admin
+ * Valida pipelines, estágios e técnicos de tickets, o catálogo de projetos,
+ * as regras de triagem automática, a atribuição automática e a política de SLA
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type {
+  AssignmentSettings,
+  AssignmentStrategy,
+  TechnicianAbsence,
+  TechnicianAbsenceType,
+  TechnicianSchedule,
+} from '@/types/assignment';
+import type {
+  CatalogMember,
+  CatalogPlatform,
+  ProjectCatalog,
+} from '@/types/catalog';
+import type {
+  PipelineSetting,
+  StageSetting,
+  TechnicianSetting,
+  TicketSystemSettings,
+} from '@/types/settings';
+import type { BusinessHoursCalendar, SlaPolicy, SlaTarget } from '@/types/sla';
+import type { TicketPriority } from '@/types/ticket';
+import type { TriageRule, TriageRuleSet } from '@/types/triage';
+import type {
+  ValidationError,
+  ValidationResult,
+} from '@/lib/validations/ticket-schemas';
+
+import { TRELLO_LABEL_COLORS } from '@/types/catalog';
+import { MULTI_STAGE_ROLES, STAGE_ROLES } from '@/types/settings';
+import { DEFAULT_SLA_POLICY } from '@/lib/config/sla';
+import { sanitizeString } from '@/lib/validations/ticket-schemas';
+
+// IDs do HubSpot são numéricos
+const HUBSPOT_ID_REGEX = /^\d+$/;
+
+const toBoolean = (value: unknown, fallback: boolean) =>
+  typeof value === 'boolean' ? value : fallback;
+
+const toOrder = (value: unknown, fallback: number) => {
+  const order = Number(value);
+
+  return Number.isFinite(order) ? Math.round(order) : fallback;
+};
+
+// Palavras-chave chegam como lista ou texto separado por vírgulas
+const toKeywords = (value: unknown): string[] => {
+  const items = Array.isArray(value)
+    ? value
+    : typeof value === 'string'
+      ? value.split(',')
+      : [];
+
+  return [
+    ...new Set(
+      items.map(item => sanitizeString(item).toLowerCase()).filter(Boolean)
+    ),
+  ];
+};
+
+// Valores livres (tags, categorias) preservam a grafia original
+const toValueList = (value: unknown): string[] => {
+  const items = Array.isArray(value)
+    ? value
+    : typeof value === 'string'
+      ? value.split(',')
+      : [];
+
+  return [...new Set(items.map(item => sanitizeString(item)).filter(Boolean))];
+};
+
+const TICKET_PRIORITIES: TicketPriority[] = ['LOW', 'MEDIUM', 'HIGH', 'URGENT'];
+
+// ID estável derivado do nome para itens novos do catálogo
+const toCatalogId = (value: unknown, name: string) =>
+  sanitizeString(value) ||
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+function validateStage(
+  data: Record<string, unknown>,
+  pipelineId: string,
+  path: string,
+  index: number,
+  errors: ValidationError[]
+): StageSetting {
+  const id = sanitizeString(data.id);
+  const label = sanitizeString(data.label);
+  const role = STAGE_ROLES.find(item => item === data.role);
+
+  if (!HUBSPOT_ID_REGEX.test(id)) {
+    errors.push({
+      field: `${path}.id`,
+      message: 'ID do estágio deve ser o ID numérico do HubSpot',
+      value: data.id,
+    });
+  }
+
+  if (data.role && !role) {
+    errors.push({
+      field: `${path}.role`,
+      message: `Papel deve ser uma das opções: ${STAGE_ROLES.join(', ')}`,
+      value: data.role,
+    });
+  }
+
+  if (!label) {
+    errors.push({
+      field: `${path}.label`,
+      message: 'Nome do estágio é obrigatório',
+      value: data.label,
+    });
+  }
+
+  return {
+    id,
+    pipelineId,
+    label,
+    description: sanitizeString(data.description) || undefined,
+    color: sanitizeString(data.color) || 'bg-gray-500',
+    displayOrder: toOrder(data.displayOrder, index + 1),
+    isVisible: toBoolean(data.isVisible, true),
+    isClosed: toBoolean(data.isClosed, false),
+    excludeFromSync: toBoolean(data.excludeFromSync, false),
+    role,
+  };
+}
+
+function validatePipeline(
+  data: Record<string, unknown>,
+  path: string,
+  errors: ValidationError[]
+): PipelineSetting {
+  const id = sanitizeString(data.id);
+  const label = sanitizeString(data.label);
+
+  if (!HUBSPOT_ID_REGEX.test(id)) {
+    errors.push({
+      field: `${path}.id`,
+      message: 'ID da pipeline deve ser o ID numérico do HubSpot',
+      value: data.id,
+    });
+  }
+
+  if (!label) {
+    errors.push({
+      field: `${path}.label`,
+      message: 'Nome da pipeline é obrigatório',
+      value: data.label,
+    });
+  }
+
+  const rawStages = Array.isArray(data.stages) ? data.stages : [];
+
+  return {
+    id,
+    label,
+    isActive: toBoolean(data.isActive, true),
+    stages: rawStages.map((stage, index) =>
+      validateStage(
+        (stage || {}) as Record<string, unknown>,
+        id,
+        `${path}.stages[${index}]`,
+        index,
+        errors
+      )
+    ),
+  };
+}
+
+function validateTechnician(
+  data: Record<string, unknown>,
+  path: string,
+  index: number,
+  errors: ValidationError[]
+): TechnicianSetting {
+  const id = sanitizeString(data.id);
+  const name = sanitizeString(data.name);
+
+  if (!HUBSPOT_ID_REGEX.test(id)) {
+    errors.push({
+      field: `${path}.id`,
+      message: 'ID do técnico deve ser o ID numérico do owner no HubSpot',
+      value: data.id,
+    });
+  }
+
+  if (!name) {
+    errors.push({
+      field: `${path}.name`,
+      message: 'Nome do técnico é obrigatório',
+      value: data.name,
+    });
+  }
+
+  // Iniciais derivadas do nome quando não informadas
+  const avatar =
+    sanitizeString(data.avatar) ||
+    name
+      .split(' ')
+      .map(part => part.charAt(0))
+      .join('')
+      .slice(0, 2)
+      .toUpperCase();
+
+  return {
+    id,
+    name,
+    role: sanitizeString(data.role) || 'Analista N2',
+    email: sanitizeString(data.email) || undefined,
+    color: sanitizeString(data.color) || 'primary',
+    avatar,
+    displayOrder: toOrder(data.displayOrder, index + 1),
+    isActive: toBoolean(data.isActive, true),
+  };
+}
+
+// Validação do documento completo de configurações
+export function validateTicketSettings(
+  data: unknown
+): ValidationResult<TicketSystemSettings> {
+  if (!data || typeof data !== 'object') {
+    return {
+      success: false,
+      error: 'Configurações devem ser um objeto válido',
+    };
+  }
+
+  const input = data as Record<string, unknown>;
+  const errors: ValidationError[] = [];
+
+  if (!Array.isArray(input.pipelines) || input.pipelines.length === 0) {
+    errors.push({
+      field: 'pipelines',
+      message: 'Pelo menos uma pipeline deve ser configurada',
+      value: input.pipelines,
+    });
+  }
+
+  const pipelines = (Array.isArray(input.pipelines) ? input.pipelines : []).map(
+    (pipeline, index) =>
+      validatePipeline(
+        (pipeline || {}) as Record<string, unknown>,
+        `pipelines[${index}]`,
+        errors
+      )
+  );
+
+  const technicians = (
+    Array.isArray(input.technicians) ? input.technicians : []
+  ).map((technician, index) =>
+    validateTechnician(
+      (technician || {}) as Record<string, unknown>,
+      `technicians[${index}]`,
+      index,
+      errors
+    )
+  );
+
+  if (pipelines.length > 0 && !pipelines.some(pipeline => pipeline.isActive)) {
+    errors.push({
+      field: 'pipelines',
+      message: 'Pelo menos uma pipeline deve estar ativa',
+      value: null,
+    });
+  }
+
+  // IDs duplicados quebrariam o upsert
+  const idGroups: Record<string, string[]> = {
+    pipelines: pipelines.map(pipeline => pipeline.id),
+    stages: pipelines.flatMap(pipeline =>
+      pipeline.stages.map(stage => stage.id)
+    ),
+    technicians: technicians.map(technician => technician.id),
+  };
+
+  Object.entries(idGroups).forEach(([field, ids]) => {
+    const duplicated = ids.filter(
+      (id, index) => id && ids.indexOf(id) !== index
+    );
+
+    if (duplicated.length > 0) {
+      errors.push({
+        field,
+        message: `IDs duplicados: ${[...new Set(duplicated)].join(', ')}`,
+        value: duplicated,
+      });
+    }
+  });
+
+  // Cada papel aponta para um único estágio (exceto os de vários estágios)
+  STAGE_ROLES.forEach(role => {
+    if (MULTI_STAGE_ROLES.includes(role)) return;
+
+    const stageIds = pipelines
+      .flatMap(pipeline => pipeline.stages)
+      .filter(stage => stage.role === role)
+      .map(stage => stage.id);
+
+    if (stageIds.length > 1) {
+      errors.push({
+        field: 'stages',
+        message: `Papel "${role}" atribuído a mais de um estágio: ${stageIds.join(', ')}`,
+        value: stageIds,
+      });
+    }
+  });
+
+  if (errors.length > 0) {
+    return {
+      success: false,
+      error: `${errors.length} erro(s) de validação encontrado(s)`,
+      errors,
+    };
+  }
+
+  return { success: true, data: { pipelines, technicians } };
+}
+
+function validateCatalogPlatform(
+  data: Record<string, unknown>,
+  path: string,
+  index: number,
+  errors: ValidationError[]
+): CatalogPlatform {
+  const name = sanitizeString(data.name);
+  const color = sanitizeString(data.color).toLowerCase() || 'blue';
+
+  if (!name) {
+    errors.push({
+      field: `${path}.name`,
+      message: 'Nome da plataforma é obrigatório',
+      value: data.name,
+    });
+  }
+
+  if (!(TRELLO_LABEL_COLORS as readonly string[]).includes(color)) {
+    errors.push({
+      field: `${path}.color`,
+      message: `Cor deve ser uma cor de label do Trello (${TRELLO_LABEL_COLORS.join(', ')})`,
+      value: data.color,
+    });
+  }
+
+  return {
+    id: toCatalogId(data.id, name),
+    name,
+    trelloLabel: sanitizeString(data.trelloLabel) || undefined,
+    keywords: toKeywords(data.keywords),
+    color,
+    isDefault: toBoolean(data.isDefault, false),
+    isActive: toBoolean(data.isActive, true),
+    displayOrder: toOrder(data.displayOrder, index + 1),
+  };
+}
+
+function validateCatalogMember(
+  data: Record<string, unknown>,
+  path: string,
+  index: number,
+  errors: ValidationError[]
+): CatalogMember {
+  const name = sanitizeString(data.name);
+  const hubspotOwnerId = sanitizeString(data.hubspotOwnerId);
+
+  if (!name) {
+    errors.push({
+      field: `${path}.name`,
+      message: 'Nome do membro é obrigatório',
+      value: data.name,
+    });
+  }
+
+  if (hubspotOwnerId && !HUBSPOT_ID_REGEX.test(hubspotOwnerId)) {
+    errors.push({
+      field: `${path}.hubspotOwnerId`,
+      message: 'Owner do HubSpot deve ser o ID numérico',
+      value: data.hubspotOwnerId,
+    });
+  }
+
+  return {
+    id: toCatalogId(data.id, name),
+    name,
+    email: sanitizeString(data.email).toLowerCase() || undefined,
+    trelloMemberId: sanitizeString(data.trelloMemberId) || undefined,
+    trelloUsername:
+      sanitizeString(data.trelloUsername).replace(/^@/, '') || undefined,
+    hubspotOwnerId: hubspotOwnerId || undefined,
+    keywords: toKeywords(data.keywords),
+    isDefault: toBoolean(data.isDefault, false),
+    isActive: toBoolean(data.isActive, true),
+    displayOrder: toOrder(data.displayOrder, index + 1),
+  };
+}
+
+// Validação do catálogo de plataformas e membros de projetos
+export function validateProjectCatalog(
+  data: unknown
+): ValidationResult<ProjectCatalog> {
+  if (!data || typeof data !== 'object') {
+    return {
+      success: false,
+      error: 'Catálogo deve ser um objeto válido',
+    };
+  }
+
+  const input = data as Record<string, unknown>;
+  const errors: ValidationError[] = [];
+
+  const platforms = (Array.isArray(input.platforms) ? input.platforms : []).map(
+    (platform, index) =>
+      validateCatalogPlatform(
+        (platform || {}) as Record<string, unknown>,
+        `platforms[${index}]`,
+        index,
+        errors
+      )
+  );
+
+  const members = (Array.isArray(input.members) ? input.members : []).map(
+    (member, index) =>
+      validateCatalogMember(
+        (member || {}) as Record<string, unknown>,
+        `members[${index}]`,
+        index,
+        errors
+      )
+  );
+
+  if (!platforms.some(platform => platform.isActive)) {
+    errors.push({
+      field: 'platforms',
+      message: 'Pelo menos uma plataforma deve estar ativa',
+      value: null,
+    });
+  }
+
+  // Nomes e vínculos externos são únicos no banco e nos mapeamentos
+  const uniqueGroups: Record<string, (string | undefined)[]> = {
+    'platforms.id': platforms.map(platform => platform.id),
+    'platforms.name': platforms.map(platform => platform.name.toLowerCase()),
+    'platforms.trelloLabel': platforms.map(platform =>
+      (platform.trelloLabel || platform.name).toLowerCase()
+    ),
+    'members.id': members.map(member => member.id),
+    'members.name': members.map(member => member.name.toLowerCase()),
+    'members.email': members.map(member => member.email),
+    'members.trelloMemberId': members.map(member => member.trelloMemberId),
+    'members.hubspotOwnerId': members.map(member => member.hubspotOwnerId),
+  };
+
+  Object.entries(uniqueGroups).forEach(([field, values]) => {
+    const duplicated = values.filter(
+      (value, index) => value && values.indexOf(value) !== index
+    );
+
+    if (duplicated.length > 0) {
+      errors.push({
+        field,
+        message: `Valores duplicados: ${[...new Set(duplicated)].join(', ')}`,
+        value: duplicated,
+      });
+    }
+  });
+
+  if (errors.length > 0) {
+    return {
+      success: false,
+      error: `${errors.length} erro(s) de validação encontrado(s)`,
+      errors,
+    };
+  }
+
+  return { success: true, data: { platforms, members } };
+}
+
+function validateTriageRule(
+  data: Record<string, unknown>,
+  path: string,
+  index: number,
+  errors: ValidationError[]
+): TriageRule {
+  const name = sanitizeString(data.name);
+  const conditions = (data.conditions || {}) as Record<string, unknown>;
+  const actions = (data.actions || {}) as Record<string, unknown>;
+  const pipelineStageId = sanitizeString(actions.pipelineStageId);
+  const hubspotOwnerId = sanitizeString(actions.hubspotOwnerId);
+  const priority = sanitizeString(actions.priority).toUpperCase();
+
+  if (!name) {
+    errors.push({
+      field: `${path}.name`,
+      message: 'Nome da regra é obrigatório',
+      value: data.name,
+    });
+  }
+
+  const rule: TriageRule = {
+    id: sanitizeString(data.id),
+    name,
+    description: sanitizeString(data.description) || undefined,
+    conditions: {
+      keywords: toKeywords(conditions.keywords),
+      categories: toValueList(conditions.categories),
+      sourceTypes: toValueList(conditions.sourceTypes),
+      tags: toValueList(conditions.tags),
+    },
+    actions: {
+      pipelineStageId: pipelineStageId || undefined,
+      priority: (priority as TicketPriority) || undefined,
+      hubspotOwnerId: hubspotOwnerId || undefined,
+      addTags: toValueList(actions.addTags),
+    },
+    isActive: toBoolean(data.isActive, true),
+    dryRun: toBoolean(data.dryRun, true),
+    displayOrder: toOrder(data.displayOrder, index + 1),
+  };
+
+  if (Object.values(rule.conditions).every(values => values.length === 0)) {
+    errors.push({
+      field: `${path}.conditions`,
+      message: 'Defina pelo menos uma condição',
+      value: data.conditions,
+    });
+  }
+
+  if (pipelineStageId && !HUBSPOT_ID_REGEX.test(pipelineStageId)) {
+    errors.push({
+      field: `${path}.actions.pipelineStageId`,
+      message: 'Estágio deve ser o ID numérico do HubSpot',
+      value: actions.pipelineStageId,
+    });
+  }
+
+  if (hubspotOwnerId && !HUBSPOT_ID_REGEX.test(hubspotOwnerId)) {
+    errors.push({
+      field: `${path}.actions.hubspotOwnerId`,
+      message: 'Técnico deve ser o ID numérico do owner no HubSpot',
+      value: actions.hubspotOwnerId,
+    });
+  }
+
+  if (priority && !TICKET_PRIORITIES.includes(priority as TicketPriority)) {
+    errors.push({
+      field: `${path}.actions.priority`,
+      message: `Prioridade deve ser uma das opções: ${TICKET_PRIORITIES.join(', ')}`,
+      value: actions.priority,
+    });
+  }
+
+  if (
+    !rule.actions.pipelineStageId &&
+    !rule.actions.priority &&
+    !rule.actions.hubspotOwnerId &&
+    rule.actions.addTags.length === 0
+  ) {
+    errors.push({
+      field: `${path}.actions`,
+      message: 'Defina pelo menos uma ação',
+      value: data.actions,
+    });
+  }
+
+  return rule;
+}
+
+// Validação do conjunto de regras de triagem
+export function validateTriageRules(
+  data: unknown
+): ValidationResult<TriageRuleSet> {
+  if (!data || typeof data !== 'object') {
+    return {
+      success: false,
+      error: 'Regras de triagem devem ser um objeto válido',
+    };
+  }
+
+  const input = data as Record<string, unknown>;
+  const errors: ValidationError[] = [];
+
+  const rules = (Array.isArray(input.rules) ? input.rules : []).map(
+    (rule, index) =>
+      validateTriageRule(
+        (rule || {}) as Record<string, unknown>,
+        `rules[${index}]`,
+        index,
+        errors
+      )
+  );
+
+  const ids = rules.map(rule => rule.id).filter(Boolean);
+  const duplicated = ids.filter((id, index) => ids.indexOf(id) !== index);
+
+  if (duplicated.length > 0) {
+    errors.push({
+      field: 'rules',
+      message: `IDs duplicados: ${[...new Set(duplicated)].join(', ')}`,
+      value: duplicated,
+    });
+  }
+
+  if (errors.length > 0) {
+    return {
+      success: false,
+      error: `${errors.length} erro(s) de validação encontrado(s)`,
+      errors,
+    };
+  }
+
+  return { success: true, data: { rules } };
+}
+
+const ASSIGNMENT_STRATEGIES: AssignmentStrategy[] = [
+  'round_robin',
+  'least_open',
+  'skill',
+];
+
+const ABSENCE_TYPES: TechnicianAbsenceType[] = [
+  'vacation',
+  'off_shift',
+  'leave',
+];
+
+function validateTechnicianSchedule(
+  data: Record<string, unknown>,
+  path: string,
+  errors: ValidationError[]
+): TechnicianSchedule {
+  const technicianId = sanitizeString(data.technicianId);
+  const workDays = [
+    ...new Set((Array.isArray(data.workDays) ? data.workDays : []).map(Number)),
+  ].sort();
+  const schedule: TechnicianSchedule = {
+    technicianId,
+    skills: toValueList(data.skills),
+    workDays,
+    shiftStartHour: toOrder(data.shiftStartHour, 9),
+    shiftEndHour: toOrder(data.shiftEndHour, 18),
+  };
+
+  if (!HUBSPOT_ID_REGEX.test(technicianId)) {
+    errors.push({
+      field: `${path}.technicianId`,
+      message: 'Técnico deve ser o ID numérico do owner no HubSpot',
+      value: data.technicianId,
+    });
+  }
+
+  if (workDays.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+    errors.push({
+      field: `${path}.workDays`,
+      message: 'Dias de trabalho devem estar entre 0 (domingo) e 6 (sábado)',
+      value: data.workDays,
+    });
+  }
+
+  if (
+    schedule.shiftStartHour < 0 ||
+    schedule.shiftEndHour > 24 ||
+    schedule.shiftStartHour >= schedule.shiftEndHour
+  ) {
+    errors.push({
+      field: `${path}.shiftEndHour`,
+      message: 'Turno deve terminar depois do início (0h a 24h)',
+      value: data.shiftEndHour,
+    });
+  }
+
+  return schedule;
+}
+
+function validateTechnicianAbsence(
+  data: Record<string, unknown>,
+  path: string,
+  errors: ValidationError[]
+): TechnicianAbsence {
+  const type = sanitizeString(data.type) as TechnicianAbsenceType;
+  const startsAt = new Date(sanitizeString(data.startsAt));
+  const endsAt = new Date(sanitizeString(data.endsAt));
+  const absence: TechnicianAbsence = {
+    id: sanitizeString(data.id),
+    technicianId: sanitizeString(data.technicianId),
+    type,
+    startsAt: Number.isNaN(startsAt.getTime()) ? '' : startsAt.toISOString(),
+    endsAt: Number.isNaN(endsAt.getTime()) ? '' : endsAt.toISOString(),
+    note: sanitizeString(data.note) || undefined,
+  };
+
+  if (!HUBSPOT_ID_REGEX.test(absence.technicianId)) {
+    errors.push({
+      field: `${path}.technicianId`,
+      message: 'Selecione o técnico',
+      value: data.technicianId,
+    });
+  }
+
+  if (!ABSENCE_TYPES.includes(type)) {
+    errors.push({
+      field: `${path}.type`,
+      message: `Tipo deve ser uma das opções: ${ABSENCE_TYPES.join(', ')}`,
+      value: data.type,
+    });
+  }
+
+  if (!absence.startsAt) {
+    errors.push({
+      field: `${path}.startsAt`,
+      message: 'Data de início inválida',
+      value: data.startsAt,
+    });
+  }
+
+  if (!absence.endsAt || absence.endsAt <= absence.startsAt) {
+    errors.push({
+      field: `${path}.endsAt`,
+      message: 'Data de término deve ser posterior ao início',
+      value: data.endsAt,
+    });
+  }
+
+  return absence;
+}
+
+// Validação das configurações de atribuição automática
+export function validateAssignmentSettings(
+  data: unknown
+): ValidationResult<AssignmentSettings> {
+  if (!data || typeof data !== 'object') {
+    return {
+      success: false,
+      error: 'Configurações de atribuição devem ser um objeto válido',
+    };
+  }
+
+  const input = data as Record<string, unknown>;
+  const errors: ValidationError[] = [];
+  const strategy = sanitizeString(input.strategy) as AssignmentStrategy;
+
+  if (!ASSIGNMENT_STRATEGIES.includes(strategy)) {
+    errors.push({
+      field: 'strategy',
+      message: `Estratégia deve ser uma das opções: ${ASSIGNMENT_STRATEGIES.join(', ')}`,
+      value: input.strategy,
+    });
+  }
+
+  const schedules = (Array.isArray(input.schedules) ? input.schedules : []).map(
+    (schedule, index) =>
+      validateTechnicianSchedule(
+        (schedule || {}) as Record<string, unknown>,
+        `schedules[${index}]`,
+        errors
+      )
+  );
+
+  const technicianIds = schedules.map(schedule => schedule.technicianId);
+  const duplicated = technicianIds.filter(
+    (id, index) => technicianIds.indexOf(id) !== index
+  );
+
+  if (duplicated.length > 0) {
+    errors.push({
+      field: 'schedules',
+      message: `Técnicos duplicados: ${[...new Set(duplicated)].join(', ')}`,
+      value: duplicated,
+    });
+  }
+
+  const absences = (Array.isArray(input.absences) ? input.absences : []).map(
+    (absence, index) =>
+      validateTechnicianAbsence(
+        (absence || {}) as Record<string, unknown>,
+        `absences[${index}]`,
+        errors
+      )
+  );
+
+  if (errors.length > 0) {
+    return {
+      success: false,
+      error: `${errors.length} erro(s) de validação encontrado(s)`,
+      errors,
+    };
+  }
+
+  return {
+    success: true,
+    data: {
+      strategy,
+      autoAssign: toBoolean(input.autoAssign, false),
+      schedules,
+      absences,
+    },
+  };
+}
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+function validateSlaTarget(
+  data: Record<string, unknown>,
+  path: string,
+  errors: ValidationError[]
+): SlaTarget {
+  const target: SlaTarget = {
+    firstResponseHours: Number(data.firstResponseHours),
+    resolutionHours: Number(data.resolutionHours),
+    useBusinessHours: toBoolean(data.useBusinessHours, true),
+  };
+
+  if (
+    !Number.isFinite(target.firstResponseHours) ||
+    target.firstResponseHours <= 0
+  ) {
+    errors.push({
+      field: `${path}.firstResponseHours`,
+      message: 'Meta de primeira resposta deve ser maior que zero',
+      value: data.firstResponseHours,
+    });
+  }
+
+  if (
+    !Number.isFinite(target.resolutionHours) ||
+    target.resolutionHours < target.firstResponseHours
+  ) {
+    errors.push({
+      field: `${path}.resolutionHours`,
+      message:
+        'Meta de resolução não pode ser menor que a de primeira resposta',
+      value: data.resolutionHours,
+    });
+  }
+
+  return target;
+}
+
+function validateBusinessHours(
+  data: Record<string, unknown>,
+  errors: ValidationError[]
+): BusinessHoursCalendar {
+  const workingDays = [
+    ...new Set(
+      (Array.isArray(data.workingDays) ? data.workingDays : []).map(Number)
+    ),
+  ].sort();
+  const calendar: BusinessHoursCalendar = {
+    utcOffsetMinutes: Number(data.utcOffsetMinutes ?? -180),
+    workingDays,
+    startHour: toOrder(data.startHour, 9),
+    endHour: toOrder(data.endHour, 18),
+    holidays: toValueList(data.holidays),
+  };
+
+  if (
+    !Number.isInteger(calendar.utcOffsetMinutes) ||
+    Math.abs(calendar.utcOffsetMinutes) > 14 * 60
+  ) {
+    errors.push({
+      field: 'businessHours.utcOffsetMinutes',
+      message: 'Fuso deve estar entre -840 e 840 minutos',
+      value: data.utcOffsetMinutes,
+    });
+  }
+
+  if (
+    workingDays.length === 0 ||
+    workingDays.some(day => !Number.isInteger(day) || day < 0 || day > 6)
+  ) {
+    errors.push({
+      field: 'businessHours.workingDays',
+      message: 'Selecione dias úteis entre 0 (domingo) e 6 (sábado)',
+      value: data.workingDays,
+    });
+  }
+
+  if (
+    calendar.startHour < 0 ||
+    calendar.endHour > 24 ||
+    calendar.startHour >= calendar.endHour
+  ) {
+    errors.push({
+      field: 'businessHours.endHour',
+      message: 'Expediente deve terminar depois do início (0h a 24h)',
+      value: data.endHour,
+    });
+  }
+
+  if (calendar.holidays.some(holiday => !DATE_REGEX.test(holiday))) {
+    errors.push({
+      field: 'businessHours.holidays',
+      message: 'Feriados devem estar no formato AAAA-MM-DD',
+      value: data.holidays,
+    });
+  }
+
+  return calendar;
+}
+
+// Validação da política de SLA
+export function validateSlaPolicy(data: unknown): ValidationResult<SlaPolicy> {
+  if (!data || typeof data !== 'object') {
+    return {
+      success: false,
+      error: 'Política de SLA deve ser um objeto válido',
+    };
+  }
+
+  const input = data as Record<string, unknown>;
+  const errors: ValidationError[] = [];
+  const priorityInput = (input.priorityTargets || {}) as Record<
+    string,
+    unknown
+  >;
+  const stageInput = (input.stageTargets || {}) as Record<string, unknown>;
+
+  const priorityTargets = Object.fromEntries(
+    TICKET_PRIORITIES.map(priority => [
+      priority,
+      validateSlaTarget(
+        (priorityInput[priority] || {}) as Record<string, unknown>,
+        `priorityTargets.${priority}`,
+        errors
+      ),
+    ])
+  ) as Record<TicketPriority, SlaTarget>;
+
+  const stageTargets = Object.fromEntries(
+    Object.entries(stageInput).map(([stageId, target]) => {
+      if (!HUBSPOT_ID_REGEX.test(stageId)) {
+        errors.push({
+          field: `stageTargets.${stageId}`,
+          message: 'Estágio deve ser o ID numérico do HubSpot',
+          value: stageId,
+        });
+      }
+
+      return [
+        stageId,
+        validateSlaTarget(
+          (target || {}) as Record<string, unknown>,
+          `stageTargets.${stageId}`,
+          errors
+        ),
+      ];
+    })
+  );
+
+  const pauseStageIds = toValueList(input.pauseStageIds);
+
+  if (pauseStageIds.some(stageId => !HUBSPOT_ID_REGEX.test(stageId))) {
+    errors.push({
+      field: 'pauseStageIds',
+      message: 'Estágios de pausa devem ser IDs numéricos do HubSpot',
+      value: input.pauseStageIds,
+    });
+  }
+
+  const atRiskThreshold = Number(input.atRiskThreshold);
+
+  if (
+    !Number.isFinite(atRiskThreshold) ||
+    atRiskThreshold <= 0 ||
+    atRiskThreshold >= 1
+  ) {
+    errors.push({
+      field: 'atRiskThreshold',
+      message: 'Limite de risco deve ser uma fração entre 0 e 1',
+      value: input.atRiskThreshold,
+    });
+  }
+
+  const businessHours = validateBusinessHours(
+    (input.businessHours || {}) as Record<string, unknown>,
+    errors
+  );
+
+  if (errors.length > 0) {
+    return {
+      success: false,
+      error: `${errors.length} erro(s) de validação encontrado(s)`,
+      errors,
+    };
+  }
+
+  return {
+    success: true,
+    data: {
+      ...DEFAULT_SLA_POLICY,
+      name: sanitizeString(input.name) || DEFAULT_SLA_POLICY.name,
+      businessHours,
+      atRiskThreshold,
+      pauseStageIds,
+      priorityTargets,
+      stageTargets,
+    },
+  };
+}
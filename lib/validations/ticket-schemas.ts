@@ -12,8 +12,12 @@ import type {
   CreateTicketData,
   UpdateTicketData,
   TicketFilters,
+  BatchTicketRequest,
+  BatchTicketUpdate,
 } from '@/types/ticket';
 
+import { BATCH_TICKET_LIMIT } from '@/lib/config/ticket-batch';
+
 // Constantes para validação
 export const VALID_PRIORITIES: TicketPriority[] = [
   'LOW',
@@ -50,6 +54,22 @@ export function sanitizeString(value: unknown): string {
   return value.trim().replace(/\s+/g, ' ');
 }
 
+// Campos de texto livre: mantêm as quebras de linha da descrição
+export const MULTILINE_TICKET_FIELDS = ['content'];
+
+// Função utilitária para sanitizar texto com várias linhas
+export function sanitizeMultilineString(value: unknown): string {
+  if (typeof value !== 'string') return '';
+
+  return value
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => line.replace(/[^\S\n]+/g, ' ').trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
 // Função utilitária para sanitizar arrays
 export function sanitizeArray(value: unknown): string[] {
   if (!Array.isArray(value)) return [];
@@ -213,7 +233,7 @@ export function validateCreateTicket(
   // Construir objeto validado
   const validTicket: CreateTicketData = {
     subject,
-    content: sanitizeString(ticket.content) || undefined,
+    content: sanitizeMultilineString(ticket.content) || undefined,
     priority: priorityResult.data!,
     status: statusResult.data!,
     category: sanitizeString(ticket.category) || undefined,
@@ -247,9 +267,9 @@ export function validateUpdateTicket(
   if (updates.subject !== undefined) {
     const subject = sanitizeString(updates.subject);
 
-    if (subject && subject.length >= 3 && subject.length <= 200) {
+    if (subject.length >= 3 && subject.length <= 200) {
       validUpdates.subject = subject;
-    } else if (subject) {
+    } else {
       errors.push({
         field: 'subject',
         message: 'Título deve ter entre 3 e 200 caracteres',
@@ -291,19 +311,53 @@ export function validateUpdateTicket(
     }
   }
 
-  // Outros campos opcionais
+  // Outros campos opcionais (string vazia limpa o campo no HubSpot)
   if (updates.content !== undefined) {
-    validUpdates.content = sanitizeString(updates.content) || undefined;
+    validUpdates.content = sanitizeMultilineString(updates.content);
   }
 
   if (updates.category !== undefined) {
-    validUpdates.category = sanitizeString(updates.category) || undefined;
+    validUpdates.category = sanitizeString(updates.category);
   }
 
   if (updates.tags !== undefined) {
     validUpdates.tags = sanitizeArray(updates.tags);
   }
 
+  if (updates.pipelineStageId !== undefined) {
+    const pipelineStageId = sanitizeString(updates.pipelineStageId);
+
+    if (pipelineStageId) {
+      validUpdates.pipelineStageId = pipelineStageId;
+    } else {
+      errors.push({
+        field: 'pipelineStageId',
+        message: 'Estágio da pipeline não pode ser vazio',
+        value: updates.pipelineStageId,
+      });
+    }
+  }
+
+  // String vazia remove a atribuição do técnico
+  if (updates.hubspotOwnerId !== undefined) {
+    if (
+      updates.hubspotOwnerId === null ||
+      typeof updates.hubspotOwnerId === 'string'
+    ) {
+      validUpdates.hubspotOwnerId = sanitizeString(updates.hubspotOwnerId);
+    } else {
+      errors.push({
+        field: 'hubspotOwnerId',
+        message: 'Técnico deve ser um ID válido',
+        value: updates.hubspotOwnerId,
+      });
+    }
+  }
+
+  if (updates.sourceType !== undefined) {
+    validUpdates.sourceType = sanitizeString(updates.sourceType);
+  }
+
   if (updates.closedAt !== undefined && typeof updates.closedAt === 'string') {
     if (validateISODate(updates.closedAt)) {
       validUpdates.closedAt = updates.closedAt;
@@ -327,6 +381,132 @@ export function validateUpdateTicket(
   return { success: true, data: validUpdates as UpdateTicketData };
 }
 
+// Validação de ações em lote (IDs selecionados + uma ou mais alterações)
+export function validateBatchTicketRequest(
+  data: unknown
+): ValidationResult<BatchTicketRequest> {
+  if (!data || typeof data !== 'object') {
+    return {
+      success: false,
+      error: 'Ação em lote deve ser um objeto válido',
+    };
+  }
+
+  const input = data as Record<string, unknown>;
+  const updates = (input.updates || {}) as Record<string, unknown>;
+  const errors: ValidationError[] = [];
+  const hubspotIds = [...new Set(sanitizeArray(input.hubspotIds))];
+  const validUpdates: BatchTicketUpdate = {};
+
+  if (hubspotIds.length === 0) {
+    errors.push({
+      field: 'hubspotIds',
+      message: 'Selecione pelo menos um ticket',
+      value: input.hubspotIds,
+    });
+  } else if (hubspotIds.length > BATCH_TICKET_LIMIT) {
+    errors.push({
+      field: 'hubspotIds',
+      message: `Máximo de ${BATCH_TICKET_LIMIT} tickets por ação em lote`,
+      value: hubspotIds.length,
+    });
+  } else if (hubspotIds.some(id => !/^\d+$/.test(id))) {
+    errors.push({
+      field: 'hubspotIds',
+      message: 'IDs devem ser os IDs numéricos do HubSpot',
+      value: input.hubspotIds,
+    });
+  }
+
+  if (updates.pipelineStageId !== undefined) {
+    const pipelineStageId = sanitizeString(updates.pipelineStageId);
+
+    if (pipelineStageId) {
+      validUpdates.pipelineStageId = pipelineStageId;
+    } else {
+      errors.push({
+        field: 'updates.pipelineStageId',
+        message: 'Estágio da pipeline não pode ser vazio',
+        value: updates.pipelineStageId,
+      });
+    }
+  }
+
+  // String vazia remove a atribuição do técnico
+  if (updates.hubspotOwnerId !== undefined) {
+    if (
+      updates.hubspotOwnerId === null ||
+      typeof updates.hubspotOwnerId === 'string'
+    ) {
+      validUpdates.hubspotOwnerId = sanitizeString(updates.hubspotOwnerId);
+    } else {
+      errors.push({
+        field: 'updates.hubspotOwnerId',
+        message: 'Técnico deve ser um ID válido',
+        value: updates.hubspotOwnerId,
+      });
+    }
+  }
+
+  if (updates.priority !== undefined) {
+    const priorityResult = validatePriority(updates.priority);
+
+    if (priorityResult.success) {
+      validUpdates.priority = priorityResult.data;
+    } else {
+      errors.push({
+        field: 'updates.priority',
+        message: priorityResult.error || 'Prioridade inválida',
+        value: updates.priority,
+      });
+    }
+  }
+
+  if (updates.addTags !== undefined) {
+    const addTags = sanitizeArray(updates.addTags);
+
+    if (addTags.length > 0) {
+      validUpdates.addTags = addTags;
+    } else {
+      errors.push({
+        field: 'updates.addTags',
+        message: 'Informe pelo menos uma tag',
+        value: updates.addTags,
+      });
+    }
+  }
+
+  if (updates.discard === true) {
+    if (validUpdates.pipelineStageId) {
+      errors.push({
+        field: 'updates.discard',
+        message: 'Desconsiderar já define o estágio; não envie os dois',
+        value: updates.discard,
+      });
+    }
+
+    validUpdates.discard = true;
+  }
+
+  if (errors.length === 0 && Object.keys(validUpdates).length === 0) {
+    errors.push({
+      field: 'updates',
+      message: 'Informe pelo menos uma alteração',
+      value: input.updates,
+    });
+  }
+
+  if (errors.length > 0) {
+    return {
+      success: false,
+      error: `${errors.length} erro(s) de validação encontrado(s)`,
+      errors,
+    };
+  }
+
+  return { success: true, data: { hubspotIds, updates: validUpdates } };
+}
+
 // Validação de filtros de busca
 export function validateTicketFilters(
   data: unknown
@@ -388,20 +568,22 @@ export function validateTicketFilters(
 }
 
 // Função para sanitizar entrada geral
-export function sanitizeTicketInput(input: unknown): unknown {
+export function sanitizeTicketInput(input: unknown, field?: string): unknown {
   if (typeof input === 'string') {
-    return sanitizeString(input);
+    return field && MULTILINE_TICKET_FIELDS.includes(field)
+      ? sanitizeMultilineString(input)
+      : sanitizeString(input);
   }
 
   if (Array.isArray(input)) {
-    return input.map(sanitizeTicketInput);
+    return input.map(item => sanitizeTicketInput(item));
   }
 
   if (input && typeof input === 'object') {
     const sanitized: Record<string, unknown> = {};
 
     for (const [key, value] of Object.entries(input)) {
-      sanitized[key] = sanitizeTicketInput(value);
+      sanitized[key] = sanitizeTicketInput(value, key);
     }
 
     return sanitized;
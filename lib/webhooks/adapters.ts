@@ -0,0 +1,161 @@
+/**
+ * Webhook Adapters - Normalização dos payloads de cada origem
+ * Convertem ações do Trello e eventos do HubSpot em eventos de domínio
+ * Sem dependências de runtime (a Edge Function também filtra ações com eles)
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type { HubSpotWebhookEvent } from '@/types/hubspot-webhook';
+import type {
+  DomainEventType,
+  TrelloWebhookPayload,
+  WebhookSourceAdapter,
+} from '@/types/webhook-pipeline';
+import type { WebhookSource } from '@/types/webhook-queue';
+
+// Ações do Trello por tipo de evento de domínio
+const TRELLO_ACTION_TYPES: Record<string, DomainEventType> = {
+  createCard: 'project.changed',
+  updateCard: 'project.changed',
+  moveCard: 'project.changed',
+  moveCardToBoard: 'project.changed',
+  addLabelToCard: 'project.changed',
+  removeLabelFromCard: 'project.changed',
+  addMemberToCard: 'project.changed',
+  removeMemberFromCard: 'project.changed',
+  addChecklistToCard: 'project.changed',
+  removeChecklistFromCard: 'project.changed',
+  createCheckItem: 'project.changed',
+  deleteCheckItem: 'project.changed',
+  updateCheckItemStateOnCard: 'project.changed',
+  addAttachmentToCard: 'project.changed',
+  deleteAttachmentFromCard: 'project.changed',
+  deleteCard: 'project.removed',
+  moveCardFromBoard: 'project.removed',
+  commentCard: 'project.activity',
+  createList: 'board.lists_changed',
+  updateList: 'board.lists_changed',
+};
+
+const HUBSPOT_SUBSCRIPTION_TYPES: Record<string, DomainEventType> = {
+  'ticket.creation': 'ticket.changed',
+  'ticket.propertyChange': 'ticket.changed',
+  'ticket.deletion': 'ticket.removed',
+};
+
+// Payloads chegam da fila como JSON sem tipo; os adaptadores validam o formato
+function isTrelloWebhookPayload(
+  payload: unknown
+): payload is TrelloWebhookPayload {
+  const action = (payload as Partial<TrelloWebhookPayload> | null)?.action;
+
+  return !!action?.id && !!action.type;
+}
+
+function isHubSpotWebhookEvent(event: unknown): event is HubSpotWebhookEvent {
+  const candidate = event as Partial<HubSpotWebhookEvent> | null;
+
+  return candidate?.eventId !== undefined && candidate.objectId !== undefined;
+}
+
+/**
+ * Campos alterados em um updateCard (o Trello envia os valores anteriores em `old`)
+ */
+export function detectTrelloCardChanges(
+  payload: TrelloWebhookPayload
+): string[] {
+  const { type, data } = payload.action;
+
+  if (type !== 'updateCard') return [type];
+
+  const changes: string[] = [];
+  const old = data.old;
+  const current = data.card;
+
+  if (!old || !current) return changes;
+
+  if ('name' in old && old.name !== current.name) changes.push('title_changed');
+  if ('desc' in old && old.desc !== current.desc) {
+    changes.push('description_changed');
+  }
+  if ('due' in old && old.due !== current.due) changes.push('due_date_changed');
+  if ('closed' in old && old.closed !== current.closed) {
+    changes.push('archived_changed');
+  }
+  if (old.pos !== undefined) changes.push('position_changed');
+  if (old.idList !== undefined || data.listAfter) {
+    changes.push('status_changed');
+  }
+
+  // Qualquer outro campo informado como alterado (labels, capa, datas...)
+  if (changes.length === 0 && Object.keys(old).length > 0) {
+    changes.push('card_changed');
+  }
+
+  return changes;
+}
+
+export const trelloWebhookAdapter: WebhookSourceAdapter<unknown> = {
+  source: 'trello',
+  normalize(payload) {
+    if (!isTrelloWebhookPayload(payload)) {
+      throw new Error('Payload do Trello sem ação válida');
+    }
+
+    const { action } = payload;
+
+    return [
+      {
+        id: `trello:${action.id}`,
+        type: TRELLO_ACTION_TYPES[action.type] || 'unsupported',
+        source: 'trello',
+        sourceEventId: action.id,
+        sourceEventType: action.type,
+        entityId: action.data?.card?.id || action.data?.list?.id,
+        occurredAt: action.date || new Date().toISOString(),
+        actor: action.memberCreator?.fullName,
+        changes: detectTrelloCardChanges(payload),
+        raw: payload,
+      },
+    ];
+  },
+};
+
+// Aceita um evento ou o array enviado pelo HubSpot
+export const hubspotWebhookAdapter: WebhookSourceAdapter<unknown> = {
+  source: 'hubspot',
+  normalize(payload) {
+    const events: unknown[] = Array.isArray(payload) ? payload : [payload];
+
+    return events.map(event => {
+      if (!isHubSpotWebhookEvent(event)) {
+        throw new Error('Evento do HubSpot sem eventId/objectId');
+      }
+
+      return {
+        id: `hubspot:${event.eventId}`,
+        type:
+          HUBSPOT_SUBSCRIPTION_TYPES[event.subscriptionType] || 'unsupported',
+        source: 'hubspot',
+        sourceEventId: String(event.eventId),
+        sourceEventType: event.subscriptionType,
+        entityId: String(event.objectId),
+        occurredAt: new Date(event.occurredAt || Date.now()).toISOString(),
+        actor: event.changeSource,
+        changes: event.propertyName ? [event.propertyName] : [],
+        raw: event,
+      };
+    });
+  },
+};
+
+// Adaptador por origem (usado pela fila de webhooks)
+export const webhookAdapters: Record<
+  WebhookSource,
+  WebhookSourceAdapter<unknown>
+> = {
+  trello: trelloWebhookAdapter,
+  hubspot: hubspotWebhookAdapter,
+};
@@ -0,0 +1,202 @@
+/**
+ * Webhook Pipeline - Registro de handlers para eventos de domínio
+ * Núcleo sem dependências de runtime; os handlers do servidor são
+ * registrados em lib/webhooks/server-handlers.ts
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type {
+  DomainEvent,
+  DomainEventHandler,
+  DomainEventResult,
+  DomainEventType,
+  WebhookPipelineResult,
+} from '@/types/webhook-pipeline';
+
+interface HandlerRegistration {
+  name: string;
+  types: DomainEventType[];
+  handler: DomainEventHandler;
+}
+
+export class WebhookPipeline {
+  private registrations: HandlerRegistration[] = [];
+
+  /**
+   * Registrar handler para um ou mais tipos de evento
+   * O mesmo handler recebe os eventos de todos os seus tipos em um único lote
+   */
+  register(
+    name: string,
+    types: DomainEventType | DomainEventType[],
+    handler: DomainEventHandler
+  ): this {
+    this.registrations.push({
+      name,
+      types: Array.isArray(types) ? types : [types],
+      handler,
+    });
+
+    return this;
+  }
+
+  /**
+   * Tipos com ao menos um handler registrado
+   */
+  getHandledTypes(): DomainEventType[] {
+    return [...new Set(this.registrations.flatMap(entry => entry.types))];
+  }
+
+  /**
+   * Despachar eventos para os handlers registrados
+   * Um evento só é considerado processado se todos os seus handlers tiveram sucesso
+   */
+  async process(events: DomainEvent[]): Promise<WebhookPipelineResult> {
+    const startTime = Date.now();
+    const resultsByEvent = new Map<string, DomainEventResult[]>();
+
+    for (const registration of this.registrations) {
+      const batch = events.filter(event =>
+        registration.types.includes(event.type)
+      );
+
+      if (batch.length === 0) continue;
+
+      let results: DomainEventResult[];
+
+      try {
+        results = await registration.handler(batch);
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : 'Erro desconhecido';
+
+        results = batch.map(event =>
+          toEventResult(event, {
+            success: false,
+            outcome: 'error',
+            error: `${registration.name}: ${message}`,
+          })
+        );
+      }
+
+      // Eventos sem resposta do handler contam como falha
+      batch.forEach(event => {
+        const result =
+          results.find(item => item.eventId === event.id) ||
+          toEventResult(event, {
+            success: false,
+            outcome: 'error',
+            error: `${registration.name}: evento sem resultado`,
+          });
+
+        resultsByEvent.set(event.id, [
+          ...(resultsByEvent.get(event.id) || []),
+          result,
+        ]);
+      });
+    }
+
+    const summary: WebhookPipelineResult = {
+      received: events.length,
+      succeeded: 0,
+      failed: 0,
+      ignored: 0,
+      results: [],
+      processingTime: 0,
+    };
+
+    events.forEach(event => {
+      const results = resultsByEvent.get(event.id);
+
+      // Nenhum handler para o tipo: evento ignorado sem erro
+      if (!results) {
+        summary.ignored++;
+        summary.results.push(
+          toEventResult(event, { success: true, outcome: 'ignored' })
+        );
+
+        return;
+      }
+
+      const failure = results.find(result => !result.success);
+
+      if (failure) {
+        summary.failed++;
+        summary.results.push(failure);
+      } else {
+        summary.succeeded++;
+        summary.results.push(results[0]);
+      }
+    });
+
+    summary.processingTime = Date.now() - startTime;
+
+    return summary;
+  }
+}
+
+/**
+ * Resultado de um evento a partir do próprio evento (para uso nos handlers)
+ */
+export function toEventResult(
+  event: DomainEvent,
+  result: Pick<DomainEventResult, 'success' | 'outcome' | 'error'>
+): DomainEventResult {
+  return {
+    eventId: event.id,
+    type: event.type,
+    source: event.source,
+    entityId: event.entityId,
+    ...result,
+  };
+}
+
+/**
+ * Aplicar uma operação por entidade e replicar o resultado para todos os seus eventos
+ * Vários eventos do mesmo card/ticket no lote resultam em uma única execução
+ */
+export async function applyPerEntity(
+  events: DomainEvent[],
+  operation: (entityId: string) => Promise<string>
+): Promise<DomainEventResult[]> {
+  const results: DomainEventResult[] = [];
+  const entityIds = [
+    ...new Set(events.map(event => event.entityId).filter(Boolean)),
+  ] as string[];
+
+  for (const entityId of entityIds) {
+    const entityEvents = events.filter(event => event.entityId === entityId);
+
+    try {
+      const outcome = await operation(entityId);
+
+      entityEvents.forEach(event =>
+        results.push(toEventResult(event, { success: true, outcome }))
+      );
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : 'Erro desconhecido';
+
+      entityEvents.forEach(event =>
+        results.push(
+          toEventResult(event, {
+            success: false,
+            outcome: 'error',
+            error: message,
+          })
+        )
+      );
+    }
+  }
+
+  // Eventos sem entidade associada não têm o que aplicar
+  events
+    .filter(event => !event.entityId)
+    .forEach(event =>
+      results.push(toEventResult(event, { success: true, outcome: 'ignored' }))
+    );
+
+  return results;
+}
@@ -0,0 +1,121 @@
+/**
+ * Webhook Server Handlers - Handlers do pipeline no runtime Node.js
+ * Persistem projetos (Trello) e tickets (HubSpot) via Prisma e invalidam caches
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type { HubSpotWebhookEvent } from '@/types/hubspot-webhook';
+import type { DomainEvent, DomainEventResult } from '@/types/webhook-pipeline';
+
+import { applyPerEntity, toEventResult, WebhookPipeline } from './pipeline';
+
+import { cacheService } from '@/lib/cache/cache-service';
+import { enhancedTrelloApi } from '@/lib/api/trello-enhanced';
+import { databaseService } from '@/lib/database/prisma';
+import { hubspotWebhookService } from '@/lib/services/hubspot-webhook';
+import { projectCatalogService } from '@/lib/services/project-catalog';
+import { projectSyncService } from '@/lib/services/project-sync';
+import { mapTrelloCardToProject } from '@/lib/utils/transformers';
+
+const TRELLO_WEBHOOK_SOURCE = 'trello-webhook';
+
+/**
+ * Reler o card e persistir seu projeto (ou removê-lo se saiu do escopo)
+ */
+async function syncProjectFromCard(
+  cardId: string
+): Promise<'created' | 'updated' | 'deleted' | 'ignored'> {
+  const [card, catalog] = await Promise.all([
+    enhancedTrelloApi.getCard(cardId),
+    projectCatalogService.getCatalog(),
+  ]);
+  const project = mapTrelloCardToProject(card, catalog);
+
+  if (!project) {
+    return (await removeProjectForCard(cardId)) ? 'deleted' : 'ignored';
+  }
+
+  // Reconciliação por campo: edições locais pendentes não são sobrescritas
+  return projectSyncService.applyTrelloProject(project, TRELLO_WEBHOOK_SOURCE);
+}
+
+/**
+ * Remover o projeto local vinculado a um card, se houver
+ */
+async function removeProjectForCard(cardId: string): Promise<boolean> {
+  const project = await databaseService.getProjectByTrelloId(cardId);
+
+  if (!project) return false;
+
+  await databaseService.deleteProject(project.id);
+
+  return true;
+}
+
+/**
+ * Operação por card seguida da invalidação dos caches de projetos
+ */
+async function applyPerCard(
+  events: DomainEvent[],
+  operation: (cardId: string) => Promise<string>
+): Promise<DomainEventResult[]> {
+  const results = await applyPerEntity(events, async cardId => {
+    const outcome = await operation(cardId);
+
+    await cacheService.invalidateByPattern(`.*${cardId}.*`);
+
+    return outcome;
+  });
+
+  await cacheService.invalidateProjects();
+
+  return results;
+}
+
+/**
+ * Pipeline com os handlers do servidor registrados
+ */
+export function createServerWebhookPipeline(): WebhookPipeline {
+  return new WebhookPipeline()
+    .register('trello-projects', 'project.changed', events =>
+      applyPerCard(events, syncProjectFromCard)
+    )
+    .register('trello-projects-removal', 'project.removed', events =>
+      applyPerCard(events, async cardId =>
+        (await removeProjectForCard(cardId)) ? 'deleted' : 'ignored'
+      )
+    )
+    .register('trello-lists', 'board.lists_changed', async events => {
+      // Renomear listas pode alterar o mapeamento de status
+      await cacheService.invalidateByPattern('trello-board-lists');
+      await cacheService.invalidateProjects();
+
+      return events.map(event =>
+        toEventResult(event, { success: true, outcome: 'cache_invalidated' })
+      );
+    })
+    .register(
+      'hubspot-tickets',
+      ['ticket.changed', 'ticket.removed'],
+      async events => {
+        // Lote único para aproveitar o batch read do HubSpot
+        const summary = await hubspotWebhookService.processEvents(
+          events.map(event => event.raw as HubSpotWebhookEvent)
+        );
+
+        return events.map(event => {
+          const result = summary.results.find(
+            item => String(item.eventId) === event.sourceEventId
+          );
+
+          return toEventResult(event, {
+            success: !!result && result.outcome !== 'error',
+            outcome: result?.outcome || 'error',
+            error: result ? result.error : 'Evento não processado',
+          });
+        });
+      }
+    );
+}
@@ -0,0 +1,109 @@
+/**
+ * Middleware de Autenticação - Sessão Supabase Auth e papéis por rota
+ * Repassa o usuário aos handlers via cabeçalhos internos
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import {
+  AUTH_USER_EMAIL_HEADER,
+  AUTH_USER_ID_HEADER,
+  AUTH_USER_ROLE_HEADER,
+  LOGIN_PATH,
+  getRequiredRole,
+  hasRole,
+} from '@/lib/config/auth';
+import {
+  clearSessionCookies,
+  resolveSession,
+  setSessionCookies,
+} from '@/lib/auth/session';
+
+const isApiRoute = (pathname: string) => pathname.startsWith('/api/');
+
+function denyApi(status: 401 | 403 | 503, error: string, details: string) {
+  return NextResponse.json({ success: false, error, details }, { status });
+}
+
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const requiredRole = getRequiredRole(pathname, request.method);
+
+  // Cabeçalhos de usuário nunca são aceitos do cliente
+  const headers = new Headers(request.headers);
+
+  headers.delete(AUTH_USER_ID_HEADER);
+  headers.delete(AUTH_USER_EMAIL_HEADER);
+  headers.delete(AUTH_USER_ROLE_HEADER);
+
+  let session: Awaited<ReturnType<typeof resolveSession>> = { user: null };
+
+  try {
+    session = await resolveSession(request);
+  } catch (error) {
+    console.error('❌ Erro ao validar sessão:', error);
+  }
+
+  const { user, refreshed } = session;
+
+  if (requiredRole && !user) {
+    if (
+      !process.env.NEXT_PUBLIC_SUPABASE_URL ||
+      !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+    ) {
+      return denyApi(
+        503,
+        'Autenticação não configurada',
+        'Defina NEXT_PUBLIC_SUPABASE_URL e NEXT_PUBLIC_SUPABASE_ANON_KEY'
+      );
+    }
+
+    if (isApiRoute(pathname)) {
+      return denyApi(401, 'Não autenticado', 'Faça login para continuar');
+    }
+
+    const loginUrl = new URL(LOGIN_PATH, request.url);
+
+    loginUrl.searchParams.set('redirect', `${pathname}${search}`);
+
+    const redirect = NextResponse.redirect(loginUrl);
+
+    // Tokens inválidos: limpa para não revalidar a cada requisição
+    clearSessionCookies(redirect);
+
+    return redirect;
+  }
+
+  if (requiredRole && user && !hasRole(user.role, requiredRole)) {
+    if (isApiRoute(pathname)) {
+      return denyApi(
+        403,
+        'Acesso negado',
+        `Esta ação exige o papel "${requiredRole}"`
+      );
+    }
+
+    return NextResponse.redirect(new URL('/', request.url));
+  }
+
+  if (user) {
+    headers.set(AUTH_USER_ID_HEADER, user.id);
+    headers.set(AUTH_USER_EMAIL_HEADER, user.email);
+    headers.set(AUTH_USER_ROLE_HEADER, user.role);
+  }
+
+  const response = NextResponse.next({ request: { headers } });
+
+  if (refreshed) setSessionCookies(response, refreshed);
+
+  return response;
+}
+
+export const config = {
+  matcher: [
+    '/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp|ico)$).*)',
+  ],
+};
@@ -0,0 +1,96 @@
+-- Tabelas de tickets criadas direto no banco antes de entrarem nas migrations
+-- (baseline aplicado via SQL). Idempotente para não falhar onde já existem.
+
+-- CreateEnum
+DO $$ BEGIN
+  CREATE TYPE "public"."TicketPriority" AS ENUM ('low', 'medium', 'high', 'urgent');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- CreateEnum
+DO $$ BEGIN
+  CREATE TYPE "public"."TicketStatus" AS ENUM ('new', 'open', 'waiting', 'closed', 'resolved');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "public"."tickets" (
+    "id" TEXT NOT NULL,
+    "hubspot_id" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "content" TEXT,
+    "priority" "public"."TicketPriority" NOT NULL DEFAULT 'medium',
+    "status" "public"."TicketStatus" NOT NULL DEFAULT 'new',
+    "category" TEXT,
+    "pipeline_id" TEXT NOT NULL,
+    "pipeline_stage_id" TEXT NOT NULL,
+    "hubspot_owner_id" TEXT,
+    "source_type" TEXT,
+    "tags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "closed_at" TIMESTAMP(3),
+    "hubspot_created_at" TIMESTAMP(3),
+    "hubspot_updated_at" TIMESTAMP(3),
+
+    CONSTRAINT "tickets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "public"."ticket_sync_history" (
+    "id" TEXT NOT NULL,
+    "ticket_id" TEXT,
+    "action" "public"."SyncAction" NOT NULL,
+    "timestamp" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "source" TEXT NOT NULL,
+    "details" JSONB,
+    "success" BOOLEAN NOT NULL DEFAULT true,
+    "error_message" TEXT,
+
+    CONSTRAINT "ticket_sync_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "tickets_hubspot_id_key" ON "public"."tickets"("hubspot_id");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "tickets_hubspot_id_idx" ON "public"."tickets"("hubspot_id");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "tickets_status_idx" ON "public"."tickets"("status");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "tickets_priority_idx" ON "public"."tickets"("priority");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "tickets_pipeline_id_idx" ON "public"."tickets"("pipeline_id");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "tickets_pipeline_stage_id_idx" ON "public"."tickets"("pipeline_stage_id");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "tickets_hubspot_owner_id_idx" ON "public"."tickets"("hubspot_owner_id");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "tickets_created_at_idx" ON "public"."tickets"("created_at");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "tickets_updated_at_idx" ON "public"."tickets"("updated_at");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "ticket_sync_history_ticket_id_idx" ON "public"."ticket_sync_history"("ticket_id");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "ticket_sync_history_timestamp_idx" ON "public"."ticket_sync_history"("timestamp");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "ticket_sync_history_source_idx" ON "public"."ticket_sync_history"("source");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "ticket_sync_history_success_idx" ON "public"."ticket_sync_history"("success");
+
+-- AddForeignKey
+DO $$ BEGIN
+  ALTER TABLE "public"."ticket_sync_history" ADD CONSTRAINT "ticket_sync_history_ticket_id_fkey" FOREIGN KEY ("ticket_id") REFERENCES "public"."tickets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
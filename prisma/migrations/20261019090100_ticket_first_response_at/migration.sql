@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."tickets" ADD COLUMN     "first_response_at" TIMESTAMP(3);
@@ -0,0 +1,58 @@
+-- CreateTable
+CREATE TABLE "public"."ticket_pipeline_settings" (
+    "id" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ticket_pipeline_settings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."ticket_stage_settings" (
+    "id" TEXT NOT NULL,
+    "pipeline_id" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "description" TEXT,
+    "color" TEXT NOT NULL DEFAULT 'bg-gray-500',
+    "display_order" INTEGER NOT NULL DEFAULT 0,
+    "is_visible" BOOLEAN NOT NULL DEFAULT true,
+    "is_closed" BOOLEAN NOT NULL DEFAULT false,
+    "exclude_from_sync" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ticket_stage_settings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."technician_settings" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'Analista N2',
+    "email" TEXT,
+    "color" TEXT NOT NULL DEFAULT 'primary',
+    "avatar" TEXT NOT NULL,
+    "display_order" INTEGER NOT NULL DEFAULT 0,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "technician_settings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ticket_pipeline_settings_is_active_idx" ON "public"."ticket_pipeline_settings"("is_active");
+
+-- CreateIndex
+CREATE INDEX "ticket_stage_settings_pipeline_id_idx" ON "public"."ticket_stage_settings"("pipeline_id");
+
+-- CreateIndex
+CREATE INDEX "ticket_stage_settings_display_order_idx" ON "public"."ticket_stage_settings"("display_order");
+
+-- CreateIndex
+CREATE INDEX "technician_settings_is_active_idx" ON "public"."technician_settings"("is_active");
+
+-- AddForeignKey
+ALTER TABLE "public"."ticket_stage_settings" ADD CONSTRAINT "ticket_stage_settings_pipeline_id_fkey" FOREIGN KEY ("pipeline_id") REFERENCES "public"."ticket_pipeline_settings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "public"."tickets" ADD COLUMN     "deleted_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."ticket_sync_state" (
+    "pipeline_id" TEXT NOT NULL,
+    "last_modified_at" TIMESTAMP(3),
+    "last_run_at" TIMESTAMP(3),
+    "last_full_sync_at" TIMESTAMP(3),
+    "last_mode" TEXT,
+    "last_stats" JSONB,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ticket_sync_state_pkey" PRIMARY KEY ("pipeline_id")
+);
+
+-- CreateIndex
+CREATE INDEX "tickets_deleted_at_idx" ON "public"."tickets"("deleted_at");
@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "public"."WebhookEventStatus" AS ENUM ('PENDING', 'PROCESSING', 'SUCCEEDED', 'FAILED', 'DEAD');
+
+-- CreateTable
+CREATE TABLE "public"."webhook_events" (
+    "id" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "external_id" TEXT,
+    "event_type" TEXT,
+    "payload" JSONB NOT NULL,
+    "status" "public"."WebhookEventStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "last_error" TEXT,
+    "next_attempt_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "locked_at" TIMESTAMP(3),
+    "processed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "webhook_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "webhook_events_status_next_attempt_at_idx" ON "public"."webhook_events"("status", "next_attempt_at");
+
+-- CreateIndex
+CREATE INDEX "webhook_events_source_idx" ON "public"."webhook_events"("source");
+
+-- CreateIndex
+CREATE INDEX "webhook_events_created_at_idx" ON "public"."webhook_events"("created_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "webhook_events_source_external_id_key" ON "public"."webhook_events"("source", "external_id");
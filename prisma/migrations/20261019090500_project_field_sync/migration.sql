@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "public"."ProjectSyncConflictStatus" AS ENUM ('OPEN', 'RESOLVED');
+
+-- AlterTable
+ALTER TABLE "public"."projects" ADD COLUMN     "field_sync" JSONB NOT NULL DEFAULT '{}',
+ADD COLUMN     "trello_updated_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."project_sync_conflicts" (
+    "id" TEXT NOT NULL,
+    "project_id" TEXT NOT NULL,
+    "field" TEXT NOT NULL,
+    "base_value" TEXT,
+    "local_value" TEXT,
+    "trello_value" TEXT,
+    "local_updated_at" TIMESTAMP(3),
+    "trello_updated_at" TIMESTAMP(3),
+    "status" "public"."ProjectSyncConflictStatus" NOT NULL DEFAULT 'OPEN',
+    "resolution" TEXT,
+    "resolved_by" TEXT,
+    "resolved_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "project_sync_conflicts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "project_sync_conflicts_project_id_status_idx" ON "public"."project_sync_conflicts"("project_id", "status");
+
+-- CreateIndex
+CREATE INDEX "project_sync_conflicts_status_idx" ON "public"."project_sync_conflicts"("status");
+
+-- AddForeignKey
+ALTER TABLE "public"."project_sync_conflicts" ADD CONSTRAINT "project_sync_conflicts_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
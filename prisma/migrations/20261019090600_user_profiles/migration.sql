@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "public"."UserRole" AS ENUM ('viewer', 'analyst', 'admin');
+
+-- CreateTable
+CREATE TABLE "public"."user_profiles" (
+    "id" UUID NOT NULL,
+    "email" TEXT NOT NULL,
+    "name" TEXT,
+    "role" "public"."UserRole" NOT NULL DEFAULT 'viewer',
+    "hubspot_owner_id" TEXT,
+    "team_member" "public"."TeamMember",
+    "last_sign_in_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "user_profiles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_profiles_email_key" ON "public"."user_profiles"("email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_profiles_hubspot_owner_id_key" ON "public"."user_profiles"("hubspot_owner_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_profiles_team_member_key" ON "public"."user_profiles"("team_member");
+
+-- CreateIndex
+CREATE INDEX "user_profiles_role_idx" ON "public"."user_profiles"("role");
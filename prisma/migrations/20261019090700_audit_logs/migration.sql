@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "public"."AuditEntityType" AS ENUM ('project', 'ticket');
+
+-- CreateEnum
+CREATE TYPE "public"."AuditAction" AS ENUM ('create', 'update', 'delete');
+
+-- CreateTable
+CREATE TABLE "public"."audit_logs" (
+    "id" TEXT NOT NULL,
+    "entity_type" "public"."AuditEntityType" NOT NULL,
+    "entity_id" TEXT NOT NULL,
+    "action" "public"."AuditAction" NOT NULL,
+    "actor_id" UUID,
+    "actor_email" TEXT,
+    "changes" JSONB NOT NULL DEFAULT '{}',
+    "ip_address" TEXT,
+    "user_agent" TEXT,
+    "upstream_system" TEXT,
+    "upstream_response" JSONB,
+    "success" BOOLEAN NOT NULL DEFAULT true,
+    "error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "audit_logs_entity_type_entity_id_idx" ON "public"."audit_logs"("entity_type", "entity_id");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_actor_email_idx" ON "public"."audit_logs"("actor_email");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_created_at_idx" ON "public"."audit_logs"("created_at");
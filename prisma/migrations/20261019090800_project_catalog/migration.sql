@@ -0,0 +1,102 @@
+-- Substitui os enums Platform/TeamMember pelas tabelas de catálogo.
+-- Os valores gravados continuam os mesmos (nome exibido), só muda o tipo
+-- da coluna; o seed abaixo é o mesmo de DEFAULT_PROJECT_CATALOG.
+
+-- CreateTable
+CREATE TABLE "public"."platforms" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "trello_label" TEXT,
+    "keywords" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "color" TEXT NOT NULL DEFAULT 'blue',
+    "is_default" BOOLEAN NOT NULL DEFAULT false,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "display_order" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "platforms_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."members" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "email" TEXT,
+    "trello_member_id" TEXT,
+    "trello_username" TEXT,
+    "hubspot_owner_id" TEXT,
+    "keywords" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "is_default" BOOLEAN NOT NULL DEFAULT false,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "display_order" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "platforms_name_key" ON "public"."platforms"("name");
+
+-- CreateIndex
+CREATE INDEX "platforms_is_active_idx" ON "public"."platforms"("is_active");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "members_name_key" ON "public"."members"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "members_email_key" ON "public"."members"("email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "members_trello_member_id_key" ON "public"."members"("trello_member_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "members_hubspot_owner_id_key" ON "public"."members"("hubspot_owner_id");
+
+-- CreateIndex
+CREATE INDEX "members_is_active_idx" ON "public"."members"("is_active");
+
+-- Seed: valores dos antigos enums
+INSERT INTO "public"."platforms" ("id", "name", "keywords", "color", "is_default", "display_order", "updated_at") VALUES
+    ('n8n', 'N8N', ARRAY['n8n'], 'purple', false, 1, CURRENT_TIMESTAMP),
+    ('jira', 'Jira', ARRAY['jira'], 'blue', false, 2, CURRENT_TIMESTAMP),
+    ('hubspot', 'Hubspot', ARRAY['hubspot'], 'orange', false, 3, CURRENT_TIMESTAMP),
+    ('backoffice', 'Backoffice', ARRAY['backoffice', 'back-office', 'back office'], 'sky', true, 4, CURRENT_TIMESTAMP),
+    ('google-workspace', 'Google Workspace', ARRAY['google', 'workspace'], 'pink', false, 5, CURRENT_TIMESTAMP);
+
+INSERT INTO "public"."members" ("id", "name", "hubspot_owner_id", "keywords", "is_default", "display_order", "updated_at") VALUES
+    ('guilherme-souza', 'Guilherme Souza', '1727693927', ARRAY['guilherme', 'gui'], true, 1, CURRENT_TIMESTAMP),
+    ('felipe-braat', 'Felipe Braat', NULL, ARRAY['felipe', 'braat'], false, 2, CURRENT_TIMESTAMP),
+    ('tiago-triani', 'Tiago Triani', '360834054', ARRAY['tiago', 'triani'], false, 3, CURRENT_TIMESTAMP);
+
+-- AlterTable: enum[] -> TEXT[] preservando os valores
+ALTER TABLE "public"."projects" ALTER COLUMN "platforms" SET DATA TYPE TEXT[] USING "platforms"::TEXT[],
+ALTER COLUMN "platforms" SET DEFAULT ARRAY[]::TEXT[],
+ALTER COLUMN "responsible" SET DATA TYPE TEXT[] USING "responsible"::TEXT[],
+ALTER COLUMN "responsible" SET DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable: team_member (enum) -> member_id (FK para members)
+ALTER TABLE "public"."user_profiles" ADD COLUMN     "member_id" TEXT;
+
+UPDATE "public"."user_profiles" AS profile
+SET "member_id" = member."id"
+FROM "public"."members" AS member
+WHERE member."name" = profile."team_member"::TEXT;
+
+-- DropIndex
+DROP INDEX "public"."user_profiles_team_member_key";
+
+ALTER TABLE "public"."user_profiles" DROP COLUMN "team_member";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_profiles_member_id_key" ON "public"."user_profiles"("member_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."user_profiles" ADD CONSTRAINT "user_profiles_member_id_fkey" FOREIGN KEY ("member_id") REFERENCES "public"."members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- DropEnum
+DROP TYPE "public"."Platform";
+
+-- DropEnum
+DROP TYPE "public"."TeamMember";
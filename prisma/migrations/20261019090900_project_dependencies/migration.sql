@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "public"."project_dependencies" (
+    "id" TEXT NOT NULL,
+    "blocker_id" TEXT NOT NULL,
+    "blocked_id" TEXT NOT NULL,
+    "blocker_attachment_id" TEXT,
+    "blocked_attachment_id" TEXT,
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "project_dependencies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "project_dependencies_blocked_id_idx" ON "public"."project_dependencies"("blocked_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "project_dependencies_blocker_id_blocked_id_key" ON "public"."project_dependencies"("blocker_id", "blocked_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."project_dependencies" ADD CONSTRAINT "project_dependencies_blocker_id_fkey" FOREIGN KEY ("blocker_id") REFERENCES "public"."projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."project_dependencies" ADD CONSTRAINT "project_dependencies_blocked_id_fkey" FOREIGN KEY ("blocked_id") REFERENCES "public"."projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
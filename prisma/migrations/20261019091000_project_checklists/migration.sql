@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "public"."project_checklists" (
+    "id" TEXT NOT NULL,
+    "project_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "position" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "project_checklists_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."project_check_items" (
+    "id" TEXT NOT NULL,
+    "checklist_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "state" TEXT NOT NULL DEFAULT 'incomplete',
+    "position" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "due_date" TIMESTAMP(3),
+    "trello_member_id" TEXT,
+    "assignee" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "project_check_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "project_checklists_project_id_idx" ON "public"."project_checklists"("project_id");
+
+-- CreateIndex
+CREATE INDEX "project_check_items_checklist_id_idx" ON "public"."project_check_items"("checklist_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."project_checklists" ADD CONSTRAINT "project_checklists_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."project_check_items" ADD CONSTRAINT "project_check_items_checklist_id_fkey" FOREIGN KEY ("checklist_id") REFERENCES "public"."project_checklists"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "public"."project_attachments" (
+    "id" TEXT NOT NULL,
+    "project_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "mime_type" TEXT,
+    "bytes" INTEGER,
+    "is_upload" BOOLEAN NOT NULL DEFAULT false,
+    "is_cover" BOOLEAN NOT NULL DEFAULT false,
+    "storage_path" TEXT,
+    "storage_url" TEXT,
+    "uploaded_by" TEXT,
+    "attached_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "project_attachments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "project_attachments_project_id_idx" ON "public"."project_attachments"("project_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."project_attachments" ADD CONSTRAINT "project_attachments_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
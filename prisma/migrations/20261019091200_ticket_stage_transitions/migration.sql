@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "public"."ticket_stage_transitions" (
+    "id" TEXT NOT NULL,
+    "ticket_id" TEXT NOT NULL,
+    "from_stage_id" TEXT,
+    "to_stage_id" TEXT NOT NULL,
+    "transitioned_at" TIMESTAMP(3) NOT NULL,
+    "source" TEXT NOT NULL,
+    "changed_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ticket_stage_transitions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ticket_stage_transitions_ticket_id_transitioned_at_idx" ON "public"."ticket_stage_transitions"("ticket_id", "transitioned_at");
+
+-- CreateIndex
+CREATE INDEX "ticket_stage_transitions_to_stage_id_idx" ON "public"."ticket_stage_transitions"("to_stage_id");
+
+-- CreateIndex
+CREATE INDEX "ticket_stage_transitions_transitioned_at_idx" ON "public"."ticket_stage_transitions"("transitioned_at");
+
+-- CreateIndex
+CREATE INDEX "ticket_stage_transitions_source_idx" ON "public"."ticket_stage_transitions"("source");
+
+-- AddForeignKey
+ALTER TABLE "public"."ticket_stage_transitions" ADD CONSTRAINT "ticket_stage_transitions_ticket_id_fkey" FOREIGN KEY ("ticket_id") REFERENCES "public"."tickets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "public"."tickets" ADD COLUMN     "triage_result" JSONB,
+ADD COLUMN     "triaged_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."triage_rules" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "conditions" JSONB NOT NULL DEFAULT '{}',
+    "actions" JSONB NOT NULL DEFAULT '{}',
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "dry_run" BOOLEAN NOT NULL DEFAULT true,
+    "display_order" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "triage_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "triage_rules_is_active_idx" ON "public"."triage_rules"("is_active");
+
+-- CreateIndex
+CREATE INDEX "triage_rules_display_order_idx" ON "public"."triage_rules"("display_order");
@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "public"."assignment_settings" (
+    "id" TEXT NOT NULL DEFAULT 'default',
+    "strategy" TEXT NOT NULL DEFAULT 'least_open',
+    "auto_assign" BOOLEAN NOT NULL DEFAULT false,
+    "last_assigned_owner_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "assignment_settings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."technician_schedules" (
+    "technician_id" TEXT NOT NULL,
+    "skills" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "work_days" INTEGER[] DEFAULT ARRAY[1, 2, 3, 4, 5]::INTEGER[],
+    "shift_start_hour" INTEGER NOT NULL DEFAULT 9,
+    "shift_end_hour" INTEGER NOT NULL DEFAULT 18,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "technician_schedules_pkey" PRIMARY KEY ("technician_id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."technician_absences" (
+    "id" TEXT NOT NULL,
+    "technician_id" TEXT NOT NULL,
+    "type" TEXT NOT NULL DEFAULT 'vacation',
+    "starts_at" TIMESTAMP(3) NOT NULL,
+    "ends_at" TIMESTAMP(3) NOT NULL,
+    "note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "technician_absences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "technician_absences_technician_id_idx" ON "public"."technician_absences"("technician_id");
+
+-- CreateIndex
+CREATE INDEX "technician_absences_starts_at_ends_at_idx" ON "public"."technician_absences"("starts_at", "ends_at");
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "public"."ticket_stage_settings" ADD COLUMN     "role" TEXT;
+
+-- Papéis antes fixos no código: Triagem N2 e Desconsiderado
+UPDATE "public"."ticket_stage_settings" SET "role" = 'triage' WHERE "id" = '1110524173';
+
+UPDATE "public"."ticket_stage_settings" SET "role" = 'discarded' WHERE "id" = '1028692851';
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "public"."sla_policy_settings" (
+    "id" TEXT NOT NULL DEFAULT 'default',
+    "name" TEXT NOT NULL,
+    "at_risk_threshold" DOUBLE PRECISION NOT NULL DEFAULT 0.75,
+    "business_hours" JSONB NOT NULL,
+    "priority_targets" JSONB NOT NULL,
+    "stage_targets" JSONB NOT NULL DEFAULT '{}',
+    "pause_stage_ids" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "sla_policy_settings_pkey" PRIMARY KEY ("id")
+);
@@ -0,0 +1,259 @@
+/**
+ * Project Field Sync - Serialização e merge de três vias entre Trello e banco
+ * Labels comparadas só pelas livres (catálogo padrão)
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type { ProjectFieldSource } from '@/lib/utils/project-field-sync';
+import type {
+  ProjectFieldSyncState,
+  SyncFieldValues,
+} from '@/types/project-sync';
+
+import { describe, expect, it } from 'vitest';
+
+import { DEFAULT_PROJECT_FIELD_POLICY } from '@/lib/config/project-sync';
+import {
+  deserializeProjectField,
+  markFieldsSynced,
+  mergeFreeLabels,
+  reconcileProjectFields,
+  recordLocalEdits,
+  serializeProjectFields,
+  toProjectFieldSource,
+  toTrelloUpdates,
+} from '@/lib/utils/project-field-sync';
+
+const TRELLO_AT = '2026-10-19T12:00:00.000Z';
+
+function buildSource(
+  overrides: Partial<ProjectFieldSource> = {}
+): ProjectFieldSource {
+  return {
+    title: 'Portal do cliente',
+    description: 'Nova área logada',
+    status: 'EM_ANDAMENTO',
+    estimatedEndDate: new Date('2026-11-30T15:00:00.000Z'),
+    startDate: new Date('2026-10-01T12:00:00.000Z'),
+    priority: 'HIGH',
+    progress: 40,
+    platforms: ['Jira', 'N8N'],
+    responsible: ['Ana'],
+    labels: ['N8N', 'High', 'Progresso 40%', 'Cliente VIP'],
+    imageUrl: null,
+    ...overrides,
+  };
+}
+
+// Estado em acordo com os valores informados (última leitura do Trello)
+function syncedState(values: SyncFieldValues): ProjectFieldSyncState {
+  return markFieldsSynced({}, values, 'trello', TRELLO_AT);
+}
+
+describe('serializeProjectFields', () => {
+  it('normaliza datas por dia, listas sem ordem e só as labels livres', () => {
+    expect(
+      serializeProjectFields(
+        buildSource({ platforms: ['N8N', 'Jira', 'N8N'], description: '  ' })
+      )
+    ).toEqual({
+      title: 'Portal do cliente',
+      description: null,
+      status: 'EM_ANDAMENTO',
+      estimatedEndDate: '2026-11-30',
+      startDate: '2026-10-01',
+      priority: 'HIGH',
+      progress: '40',
+      platforms: '["Jira","N8N"]',
+      responsible: '["Ana"]',
+      labels: '["Cliente VIP"]',
+      imageUrl: null,
+    });
+  });
+
+  it('trata listas vazias como ausência de valor', () => {
+    expect(
+      serializeProjectFields(buildSource({ responsible: [] }))
+    ).toMatchObject({ responsible: null });
+  });
+});
+
+describe('deserializeProjectField', () => {
+  it('converte cada tipo de campo para o formato do banco', () => {
+    expect(deserializeProjectField('platforms', '["Jira","N8N"]')).toEqual([
+      'Jira',
+      'N8N',
+    ]);
+    expect(deserializeProjectField('progress', '75')).toBe(75);
+    expect(deserializeProjectField('startDate', '2026-10-01')).toEqual(
+      new Date('2026-10-01T12:00:00.000Z')
+    );
+    expect(deserializeProjectField('labels', null)).toEqual([]);
+  });
+});
+
+describe('mergeFreeLabels', () => {
+  it('mantém as labels controladas e substitui as livres', () => {
+    expect(
+      mergeFreeLabels(['N8N', 'Progresso 40%', 'Cliente VIP'], ['Piloto'])
+    ).toEqual(['N8N', 'Progresso 40%', 'Piloto']);
+  });
+});
+
+describe('reconcileProjectFields', () => {
+  const base = serializeProjectFields(buildSource());
+
+  function reconcile(
+    local: Partial<SyncFieldValues>,
+    trello: Partial<SyncFieldValues>,
+    trelloUpdatedAt = '2026-10-19T15:00:00.000Z'
+  ) {
+    return reconcileProjectFields({
+      local: { ...base, ...local },
+      trello: { ...base, ...trello },
+      state: syncedState(base),
+      policy: DEFAULT_PROJECT_FIELD_POLICY,
+      trelloUpdatedAt,
+      localUpdatedAt: '2026-10-19T14:00:00.000Z',
+    });
+  }
+
+  it('aplica o valor do Trello quando só o Trello mudou', () => {
+    const result = reconcile({}, { progress: '60' });
+
+    expect(result.applyFromTrello).toEqual(['progress']);
+    expect(result.state.progress).toMatchObject({
+      value: '60',
+      lastWriter: 'trello',
+      trelloUpdatedAt: '2026-10-19T15:00:00.000Z',
+    });
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it('reenvia ao Trello a edição feita só no inPatch', () => {
+    const result = reconcile({ responsible: '["Ana","Bruno"]' }, {});
+
+    expect(result.pushToTrello).toEqual(['responsible']);
+    expect(result.applyFromTrello).toEqual([]);
+  });
+
+  it('registra conflito quando os dois lados mudam um campo manual', () => {
+    const result = reconcile(
+      { platforms: '["Jira"]' },
+      { platforms: '["Hubspot","Jira"]' }
+    );
+
+    expect(result.conflicts).toEqual([
+      {
+        field: 'platforms',
+        baseValue: '["Jira","N8N"]',
+        localValue: '["Jira"]',
+        trelloValue: '["Hubspot","Jira"]',
+        localUpdatedAt: '2026-10-19T14:00:00.000Z',
+        trelloUpdatedAt: '2026-10-19T15:00:00.000Z',
+      },
+    ]);
+  });
+
+  it('segue a política do campo quando ela não é manual', () => {
+    const result = reconcile(
+      { status: 'CONCLUIDO', startDate: '2026-10-05' },
+      { status: 'A_FAZER', startDate: '2026-10-02' }
+    );
+
+    expect(result.applyFromTrello).toEqual(['status']);
+    expect(result.overwritten).toEqual(['status']);
+    expect(result.pushToTrello).toEqual(['startDate']);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it('aceita sem conflito quando os dois lados chegam ao mesmo valor', () => {
+    const result = reconcile({ labels: null }, { labels: null });
+
+    expect(result.converged).toEqual(['labels']);
+    expect(result.state.labels?.value).toBe(null);
+  });
+
+  it('ignora snapshots mais antigos que o último conhecido', () => {
+    const result = reconcile(
+      { title: 'Portal v2' },
+      { title: 'Portal antigo' },
+      '2026-10-19T11:00:00.000Z'
+    );
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.applyFromTrello).toEqual([]);
+    expect(result.pushToTrello).toEqual(['title']);
+  });
+
+  it('usa o Trello como base para projetos novos', () => {
+    const result = reconcileProjectFields({
+      local: null,
+      trello: base,
+      state: {},
+      policy: DEFAULT_PROJECT_FIELD_POLICY,
+      trelloUpdatedAt: TRELLO_AT,
+    });
+
+    expect(result.applyFromTrello).toHaveLength(Object.keys(base).length);
+  });
+});
+
+describe('recordLocalEdits', () => {
+  it('marca a edição local mantendo o último acordo como base', () => {
+    const base = serializeProjectFields(buildSource());
+    const state = recordLocalEdits(
+      syncedState(base),
+      base,
+      ['priority'],
+      '2026-10-19T14:00:00.000Z'
+    );
+
+    expect(state.priority).toEqual({
+      value: 'HIGH',
+      lastWriter: 'local',
+      localUpdatedAt: '2026-10-19T14:00:00.000Z',
+      trelloUpdatedAt: TRELLO_AT,
+    });
+  });
+});
+
+describe('conversões entre Trello e banco', () => {
+  it('converte valores serializados em atualizações do card', () => {
+    expect(
+      toTrelloUpdates({
+        status: 'EM_ANDAMENTO',
+        priority: 'LOW',
+        startDate: '2026-10-01',
+        platforms: '["Jira"]',
+        progress: '55',
+        imageUrl: null,
+      })
+    ).toEqual({
+      status: 'em-andamento',
+      priority: 'low',
+      startDate: '2026-10-01T12:00:00.000Z',
+      platforms: ['Jira'],
+      progress: 55,
+      imageUrl: '',
+    });
+  });
+
+  it('converte a edição da aplicação para o formato do banco', () => {
+    expect(
+      toProjectFieldSource({
+        status: 'concluido',
+        priority: 'medium',
+        description: '',
+        labels: ['Cliente VIP'],
+      })
+    ).toEqual({
+      status: 'CONCLUIDO',
+      priority: 'MEDIUM',
+      description: null,
+      labels: ['Cliente VIP'],
+    });
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * SLA Engine - Horário comercial, pausas e avaliação dos relógios
+ * Datas em UTC; o calendário padrão é America/Sao_Paulo (UTC-3), 09h-18h
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type { Ticket } from '@/types/ticket';
+import type { SlaPolicy } from '@/types/sla';
+
+import { describe, expect, it } from 'vitest';
+
+import { DEFAULT_BUSINESS_HOURS, DEFAULT_SLA_POLICY } from '@/lib/config/sla';
+import {
+  calculateBusinessMinutes,
+  evaluateTicketSla,
+  formatSlaDuration,
+  getSlaPauseIntervals,
+  getSlaTarget,
+  parseBusinessHours,
+  parsePriorityTargets,
+} from '@/lib/utils/sla-engine';
+
+const WAITING_STAGE = 'stage-waiting';
+const CLOSED_STAGE = 'stage-closed';
+const OPEN_STAGE = 'stage-open';
+
+function buildTicket(overrides: Partial<Ticket> = {}): Ticket {
+  return {
+    id: 'ticket-1',
+    hubspotId: '1001',
+    subject: 'Integração fora do ar',
+    priority: 'URGENT',
+    status: 'OPEN',
+    pipelineId: '0',
+    pipelineStageId: OPEN_STAGE,
+    createdAt: '2026-10-19T10:00:00.000Z',
+    updatedAt: '2026-10-19T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('calculateBusinessMinutes', () => {
+  it('conta o dia útil inteiro no fuso do calendário', () => {
+    expect(
+      calculateBusinessMinutes(
+        new Date('2026-10-19T12:00:00.000Z'),
+        new Date('2026-10-19T21:00:00.000Z'),
+        DEFAULT_BUSINESS_HOURS
+      )
+    ).toBe(540);
+  });
+
+  it('ignora o fim de semana e o horário fora do expediente', () => {
+    // Sexta 17h → segunda 10h (horário de Brasília)
+    expect(
+      calculateBusinessMinutes(
+        new Date('2026-10-16T20:00:00.000Z'),
+        new Date('2026-10-19T13:00:00.000Z'),
+        DEFAULT_BUSINESS_HOURS
+      )
+    ).toBe(120);
+  });
+
+  it('ignora feriados', () => {
+    expect(
+      calculateBusinessMinutes(
+        new Date('2026-10-19T12:00:00.000Z'),
+        new Date('2026-10-19T21:00:00.000Z'),
+        { ...DEFAULT_BUSINESS_HOURS, holidays: ['2026-10-19'] }
+      )
+    ).toBe(0);
+  });
+
+  it('retorna 0 quando o fim não é posterior ao início', () => {
+    const date = new Date('2026-10-19T15:00:00.000Z');
+
+    expect(calculateBusinessMinutes(date, date, DEFAULT_BUSINESS_HOURS)).toBe(
+      0
+    );
+  });
+});
+
+describe('getSlaTarget', () => {
+  it('prioriza a meta do estágio sobre a da prioridade', () => {
+    const stageTarget = {
+      firstResponseHours: 2,
+      resolutionHours: 4,
+      useBusinessHours: false,
+    };
+    const policy: SlaPolicy = {
+      ...DEFAULT_SLA_POLICY,
+      stageTargets: { [OPEN_STAGE]: stageTarget },
+    };
+
+    expect(getSlaTarget(buildTicket(), policy)).toBe(stageTarget);
+    expect(
+      getSlaTarget(buildTicket({ pipelineStageId: 'outro' }), policy)
+    ).toBe(DEFAULT_SLA_POLICY.priorityTargets.URGENT);
+  });
+});
+
+describe('getSlaPauseIntervals', () => {
+  it('fecha a pausa na transição seguinte ao estágio de espera', () => {
+    const intervals = getSlaPauseIntervals(
+      buildTicket({
+        stageHistory: [
+          { stageId: OPEN_STAGE, enteredAt: '2026-10-19T10:00:00.000Z' },
+          { stageId: OPEN_STAGE, enteredAt: '2026-10-19T13:00:00.000Z' },
+          { stageId: WAITING_STAGE, enteredAt: '2026-10-19T11:00:00.000Z' },
+        ],
+      }),
+      DEFAULT_SLA_POLICY,
+      [WAITING_STAGE]
+    );
+
+    expect(intervals).toEqual([
+      {
+        start: new Date('2026-10-19T11:00:00.000Z'),
+        end: new Date('2026-10-19T13:00:00.000Z'),
+      },
+    ]);
+  });
+
+  it('pausa a partir da última modificação quando não há entrada registrada', () => {
+    const intervals = getSlaPauseIntervals(
+      buildTicket({
+        status: 'WAITING',
+        updatedAt: '2026-10-19T12:00:00.000Z',
+      }),
+      DEFAULT_SLA_POLICY
+    );
+
+    expect(intervals).toEqual([
+      { start: new Date('2026-10-19T12:00:00.000Z') },
+    ]);
+  });
+});
+
+describe('evaluateTicketSla', () => {
+  const stageIds = { closed: [CLOSED_STAGE], waiting: [WAITING_STAGE] };
+
+  it('desconta do relógio o tempo no estágio de espera', () => {
+    const sla = evaluateTicketSla(
+      buildTicket({
+        firstResponseAt: '2026-10-19T10:30:00.000Z',
+        stageHistory: [
+          { stageId: OPEN_STAGE, enteredAt: '2026-10-19T10:00:00.000Z' },
+          { stageId: WAITING_STAGE, enteredAt: '2026-10-19T11:00:00.000Z' },
+          { stageId: OPEN_STAGE, enteredAt: '2026-10-19T13:00:00.000Z' },
+        ],
+      }),
+      DEFAULT_SLA_POLICY,
+      stageIds,
+      new Date('2026-10-19T14:00:00.000Z')
+    );
+
+    expect(sla.isPaused).toBe(false);
+    expect(sla.firstResponse).toMatchObject({
+      state: 'met',
+      elapsedMinutes: 30,
+      pausedMinutes: 0,
+    });
+    expect(sla.resolution).toMatchObject({
+      state: 'ok',
+      elapsedMinutes: 120,
+      pausedMinutes: 120,
+      remainingMinutes: 360,
+    });
+    expect(sla.state).toBe('ok');
+  });
+
+  it('fica pausado enquanto o ticket está no estágio de espera', () => {
+    const sla = evaluateTicketSla(
+      buildTicket({
+        firstResponseAt: '2026-10-19T10:30:00.000Z',
+        pipelineStageId: WAITING_STAGE,
+        stageHistory: [
+          { stageId: OPEN_STAGE, enteredAt: '2026-10-19T10:00:00.000Z' },
+          { stageId: WAITING_STAGE, enteredAt: '2026-10-19T11:00:00.000Z' },
+        ],
+      }),
+      DEFAULT_SLA_POLICY,
+      stageIds,
+      new Date('2026-10-20T11:00:00.000Z')
+    );
+
+    expect(sla.isPaused).toBe(true);
+    expect(sla.resolution).toMatchObject({
+      state: 'paused',
+      elapsedMinutes: 60,
+    });
+    expect(sla.state).toBe('paused');
+  });
+
+  it('estoura a meta de resolução sem pausas', () => {
+    const sla = evaluateTicketSla(
+      buildTicket({ firstResponseAt: '2026-10-19T10:30:00.000Z' }),
+      DEFAULT_SLA_POLICY,
+      stageIds,
+      new Date('2026-10-19T19:00:00.000Z')
+    );
+
+    expect(sla.resolution).toMatchObject({
+      state: 'breached',
+      remainingMinutes: -60,
+    });
+    expect(sla.state).toBe('breached');
+  });
+
+  it('considera fechado o ticket em estágio fechado das configurações', () => {
+    const sla = evaluateTicketSla(
+      buildTicket({
+        pipelineStageId: CLOSED_STAGE,
+        closedAt: '2026-10-19T12:00:00.000Z',
+      }),
+      DEFAULT_SLA_POLICY,
+      stageIds,
+      new Date('2026-10-25T12:00:00.000Z')
+    );
+
+    expect(sla.isClosed).toBe(true);
+    expect(sla.resolution).toMatchObject({ state: 'met', elapsedMinutes: 120 });
+  });
+});
+
+describe('parsers da política', () => {
+  it('usa a meta padrão para prioridades ausentes ou inválidas', () => {
+    const targets = parsePriorityTargets({
+      HIGH: { firstResponseHours: 2, resolutionHours: 12 },
+      LOW: { firstResponseHours: 'x' },
+    });
+
+    expect(targets.HIGH).toEqual({
+      firstResponseHours: 2,
+      resolutionHours: 12,
+      useBusinessHours: true,
+    });
+    expect(targets.LOW).toBe(DEFAULT_SLA_POLICY.priorityTargets.LOW);
+  });
+
+  it('completa o calendário com o horário padrão', () => {
+    expect(
+      parseBusinessHours({ startHour: 8, holidays: ['2026-12-25', 1] })
+    ).toEqual({
+      ...DEFAULT_BUSINESS_HOURS,
+      startHour: 8,
+      holidays: ['2026-12-25'],
+    });
+  });
+});
+
+describe('formatSlaDuration', () => {
+  it.each([
+    [45, '45min'],
+    [120, '2h'],
+    [200, '3h 20min'],
+    [-90, '1h 30min'],
+  ])('%i minutos → %s', (minutes, expected) => {
+    expect(formatSlaDuration(minutes)).toBe(expected);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Ticket Analytics - Tempo até o fechamento, idade do backlog e períodos
+ * Períodos calculados no fuso de São Paulo (UTC-3); semanas começam na segunda
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import {
+  buildBacklogAge,
+  getPeriodStart,
+  getTimeToCloseHours,
+  listPeriods,
+  summarizeTimeToClose,
+} from '@/lib/utils/ticket-analytics';
+
+const SAO_PAULO_OFFSET = -180;
+
+describe('getTimeToCloseHours', () => {
+  it('mede as horas entre criação e fechamento', () => {
+    expect(
+      getTimeToCloseHours({
+        createdAt: '2026-10-19T10:00:00.000Z',
+        closedAt: '2026-10-20T16:00:00.000Z',
+      })
+    ).toBe(30);
+  });
+
+  it('ignora tickets abertos e fechamentos anteriores à criação', () => {
+    expect(getTimeToCloseHours({ createdAt: '2026-10-19T10:00:00.000Z' })).toBe(
+      null
+    );
+    expect(
+      getTimeToCloseHours({
+        createdAt: '2026-10-19T10:00:00.000Z',
+        closedAt: '2026-10-18T10:00:00.000Z',
+      })
+    ).toBe(null);
+  });
+});
+
+describe('summarizeTimeToClose', () => {
+  it('arredonda média, mediana e p90 em uma casa', () => {
+    expect(summarizeTimeToClose('HIGH', [1, 2, 3, 4, 10])).toEqual({
+      key: 'HIGH',
+      count: 5,
+      avgHours: 4,
+      medianHours: 3,
+      p90Hours: 7.6,
+    });
+  });
+
+  it('retorna zeros para grupos vazios', () => {
+    expect(summarizeTimeToClose('LOW', [])).toMatchObject({
+      count: 0,
+      avgHours: 0,
+      medianHours: 0,
+      p90Hours: 0,
+    });
+  });
+});
+
+describe('buildBacklogAge', () => {
+  it('distribui as idades pelas faixas com limite superior exclusivo', () => {
+    const buckets = buildBacklogAge([0.5, 1, 2.9, 3, 10, 30, 45]);
+
+    expect(buckets.map(bucket => [bucket.key, bucket.count])).toEqual([
+      ['lt1d', 1],
+      ['1-3d', 2],
+      ['3-7d', 1],
+      ['7-14d', 1],
+      ['14-30d', 0],
+      ['gt30d', 2],
+    ]);
+  });
+
+  it('mantém todas as faixas quando o backlog está vazio', () => {
+    expect(buildBacklogAge([]).every(bucket => bucket.count === 0)).toBe(true);
+  });
+});
+
+describe('getPeriodStart', () => {
+  // Segunda 02h UTC ainda é domingo 23h em São Paulo
+  const date = new Date('2026-10-19T02:00:00.000Z');
+
+  it('trunca o dia no fuso informado', () => {
+    expect(getPeriodStart(date, 'day', SAO_PAULO_OFFSET)).toBe('2026-10-18');
+    expect(getPeriodStart(date, 'day', 0)).toBe('2026-10-19');
+  });
+
+  it('agrupa por semana a partir da segunda-feira', () => {
+    expect(getPeriodStart(date, 'week', SAO_PAULO_OFFSET)).toBe('2026-10-12');
+    expect(getPeriodStart(date, 'week', 0)).toBe('2026-10-19');
+  });
+});
+
+describe('listPeriods', () => {
+  it('inclui os períodos vazios entre as extremidades', () => {
+    expect(
+      listPeriods(
+        new Date('2026-10-14T12:00:00.000Z'),
+        new Date('2026-10-28T12:00:00.000Z'),
+        'week',
+        SAO_PAULO_OFFSET
+      )
+    ).toEqual(['2026-10-12', '2026-10-19', '2026-10-26']);
+  });
+
+  it('lista os dias do intervalo', () => {
+    expect(
+      listPeriods(
+        new Date('2026-10-18T12:00:00.000Z'),
+        new Date('2026-10-20T12:00:00.000Z'),
+        'day',
+        SAO_PAULO_OFFSET
+      )
+    ).toEqual(['2026-10-18', '2026-10-19', '2026-10-20']);
+  });
+});
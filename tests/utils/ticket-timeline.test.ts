@@ -0,0 +1,209 @@
+/**
+ * Ticket Timeline - Permanência por estágio a partir das transições gravadas
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type { StageTransitionRecord } from '@/lib/utils/ticket-timeline';
+
+import { describe, expect, it } from 'vitest';
+
+import {
+  aggregateStageDwell,
+  buildStageTimeline,
+  clipStageTimeline,
+  formatDwellMinutes,
+  percentile,
+  summarizeStageDwell,
+} from '@/lib/utils/ticket-timeline';
+
+function transition(
+  id: string,
+  toStageId: string,
+  transitionedAt: string,
+  fromStageId?: string
+): StageTransitionRecord {
+  return {
+    id,
+    fromStageId,
+    toStageId,
+    transitionedAt: new Date(transitionedAt),
+    source: 'webhook',
+    changedBy: null,
+  };
+}
+
+const NOW = new Date('2026-10-19T18:00:00.000Z');
+
+describe('buildStageTimeline', () => {
+  it('ordena as transições e mede cada permanência até a seguinte', () => {
+    const timeline = buildStageTimeline(
+      [
+        transition('t2', 'analise', '2026-10-19T12:00:00.000Z', 'novo'),
+        transition('t1', 'novo', '2026-10-19T10:00:00.000Z'),
+        transition('t3', 'aguardando', '2026-10-19T15:30:00.000Z', 'analise'),
+      ],
+      NOW
+    );
+
+    expect(
+      timeline.map(item => [item.id, item.durationMinutes, item.isCurrent])
+    ).toEqual([
+      ['t1', 120, false],
+      ['t2', 210, false],
+      ['t3', 150, true],
+    ]);
+    expect(timeline[0]).toMatchObject({
+      fromStageId: undefined,
+      changedBy: undefined,
+      transitionedAt: '2026-10-19T10:00:00.000Z',
+    });
+  });
+
+  it('não gera duração negativa para transições futuras', () => {
+    const [current] = buildStageTimeline(
+      [transition('t1', 'novo', '2026-10-19T19:00:00.000Z')],
+      NOW
+    );
+
+    expect(current.durationMinutes).toBe(0);
+  });
+});
+
+describe('clipStageTimeline', () => {
+  const timeline = buildStageTimeline(
+    [
+      transition('t1', 'novo', '2026-10-18T10:00:00.000Z'),
+      transition('t2', 'analise', '2026-10-19T12:00:00.000Z', 'novo'),
+      transition('t3', 'aguardando', '2026-10-19T16:00:00.000Z', 'analise'),
+    ],
+    NOW
+  );
+
+  it('conta a partir do início do período o estágio em que o ticket já estava', () => {
+    const clipped = clipStageTimeline(
+      timeline,
+      new Date('2026-10-19T09:00:00.000Z'),
+      null
+    );
+
+    expect(clipped.map(item => [item.id, item.durationMinutes])).toEqual([
+      ['t1', 180],
+      ['t2', 240],
+      ['t3', 120],
+    ]);
+  });
+
+  it('corta as permanências no fim do período e descarta as posteriores', () => {
+    const clipped = clipStageTimeline(
+      timeline,
+      new Date('2026-10-19T09:00:00.000Z'),
+      new Date('2026-10-19T14:00:00.000Z')
+    );
+
+    expect(
+      clipped.map(item => [item.id, item.durationMinutes, item.isCurrent])
+    ).toEqual([
+      ['t1', 180, false],
+      ['t2', 120, false],
+    ]);
+  });
+
+  it('descarta passagens encerradas antes do período', () => {
+    const clipped = clipStageTimeline(
+      timeline,
+      new Date('2026-10-19T13:00:00.000Z'),
+      null
+    );
+
+    expect(clipped.map(item => item.id)).toEqual(['t2', 't3']);
+    expect(clipped[0].durationMinutes).toBe(180);
+  });
+});
+
+describe('summarizeStageDwell', () => {
+  it('soma as visitas repetidas ao mesmo estágio', () => {
+    const timeline = buildStageTimeline(
+      [
+        transition('t1', 'novo', '2026-10-19T10:00:00.000Z'),
+        transition('t2', 'analise', '2026-10-19T11:00:00.000Z'),
+        transition('t3', 'novo', '2026-10-19T12:00:00.000Z'),
+        transition('t4', 'analise', '2026-10-19T12:30:00.000Z'),
+      ],
+      NOW
+    );
+
+    expect(summarizeStageDwell(timeline)).toEqual([
+      { stageId: 'analise', visits: 2, totalMinutes: 390 },
+      { stageId: 'novo', visits: 2, totalMinutes: 90 },
+    ]);
+  });
+});
+
+describe('percentile', () => {
+  it('interpola entre os valores vizinhos', () => {
+    expect(percentile([10, 40, 20, 30], 50)).toBe(25);
+    expect(percentile([10, 20, 30, 40], 90)).toBeCloseTo(37);
+  });
+
+  it('retorna 0 para listas vazias', () => {
+    expect(percentile([], 90)).toBe(0);
+  });
+});
+
+describe('aggregateStageDwell', () => {
+  it('considera só passagens concluídas e conta os tickets ainda no estágio', () => {
+    const first = buildStageTimeline(
+      [
+        transition('a1', 'novo', '2026-10-19T10:00:00.000Z'),
+        transition('a2', 'analise', '2026-10-19T11:00:00.000Z'),
+      ],
+      NOW
+    );
+    const second = buildStageTimeline(
+      [
+        transition('b1', 'novo', '2026-10-19T10:00:00.000Z'),
+        transition('b2', 'analise', '2026-10-19T13:00:00.000Z'),
+        transition('b3', 'fechado', '2026-10-19T14:00:00.000Z'),
+      ],
+      NOW
+    );
+
+    const stats = aggregateStageDwell([first, second]);
+
+    expect(stats.find(stat => stat.stageId === 'novo')).toEqual({
+      stageId: 'novo',
+      tickets: 2,
+      visits: 2,
+      currentTickets: 0,
+      avgMinutes: 120,
+      medianMinutes: 120,
+      p90Minutes: 168,
+    });
+    expect(stats.find(stat => stat.stageId === 'analise')).toMatchObject({
+      tickets: 1,
+      visits: 1,
+      currentTickets: 1,
+      avgMinutes: 60,
+    });
+    expect(stats.find(stat => stat.stageId === 'fechado')).toMatchObject({
+      tickets: 0,
+      visits: 0,
+      currentTickets: 1,
+      avgMinutes: 0,
+    });
+  });
+});
+
+describe('formatDwellMinutes', () => {
+  it.each([
+    [12, '12min'],
+    [60, '1h'],
+    [195, '3h 15min'],
+    [1440, '1d'],
+    [3120, '2d 4h'],
+  ])('%i minutos → %s', (minutes, expected) => {
+    expect(formatDwellMinutes(minutes)).toBe(expected);
+  });
+});
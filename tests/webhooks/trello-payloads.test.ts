@@ -0,0 +1,224 @@
+/**
+ * Trello Webhook Payloads - Normalização e roteamento de ações reais do Trello
+ * Fixtures em tests/fixtures/trello (payloads como enviados pelo webhook)
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type {
+  DomainEvent,
+  TrelloWebhookPayload,
+} from '@/types/webhook-pipeline';
+import type { TrelloCard } from '@/lib/utils/transformers';
+
+import { readFileSync } from 'fs';
+
+import { describe, expect, it } from 'vitest';
+
+import {
+  detectTrelloCardChanges,
+  trelloWebhookAdapter,
+} from '@/lib/webhooks/adapters';
+import { applyPerEntity, WebhookPipeline } from '@/lib/webhooks/pipeline';
+import { mapTrelloCardToProject } from '@/lib/utils/transformers';
+
+function loadFixture<T = TrelloWebhookPayload>(name: string): T {
+  return JSON.parse(
+    readFileSync(
+      new URL(`../fixtures/trello/${name}.json`, import.meta.url),
+      'utf-8'
+    )
+  );
+}
+
+function normalizeFixture(name: string): DomainEvent {
+  const events = trelloWebhookAdapter.normalize(loadFixture(name));
+
+  expect(events).toHaveLength(1);
+
+  return events[0];
+}
+
+describe('trelloWebhookAdapter', () => {
+  it('normaliza createCard como alteração de projeto', () => {
+    const event = normalizeFixture('create-card');
+
+    expect(event).toMatchObject({
+      id: 'trello:66f1a2b3c4d5e6f708192a3b',
+      type: 'project.changed',
+      source: 'trello',
+      sourceEventId: '66f1a2b3c4d5e6f708192a3b',
+      sourceEventType: 'createCard',
+      entityId: '66f1a2b3c4d5e6f708192a40',
+      occurredAt: '2026-10-01T12:00:00.000Z',
+      actor: 'Felipe Braat',
+      changes: ['createCard'],
+    });
+  });
+
+  it('normaliza deleteCard como remoção de projeto', () => {
+    const event = normalizeFixture('delete-card');
+
+    expect(event.type).toBe('project.removed');
+    expect(event.entityId).toBe('66f1a2b3c4d5e6f708192a40');
+  });
+
+  it('normaliza comentários como atividade', () => {
+    expect(normalizeFixture('comment-card').type).toBe('project.activity');
+  });
+
+  it('usa a lista como entidade das ações de lista', () => {
+    const event = normalizeFixture('update-list');
+
+    expect(event.type).toBe('board.lists_changed');
+    expect(event.entityId).toBe('5f0c1d2e3f4a5b6c7d8e9f11');
+  });
+
+  it('marca ações sem mapeamento como não suportadas', () => {
+    const event = normalizeFixture('add-member-to-board');
+
+    expect(event.type).toBe('unsupported');
+    expect(event.entityId).toBeUndefined();
+  });
+
+  it('rejeita payloads sem ação', () => {
+    expect(() =>
+      trelloWebhookAdapter.normalize({
+        model: { id: 'board', name: 'Board' },
+      } as TrelloWebhookPayload)
+    ).toThrow('Payload do Trello sem ação válida');
+  });
+});
+
+describe('detectTrelloCardChanges', () => {
+  it('detecta mudança de lista pelo old.idList', () => {
+    expect(
+      detectTrelloCardChanges(loadFixture('update-card-move-list'))
+    ).toEqual(['status_changed']);
+  });
+
+  it('detecta título, descrição e prazo alterados juntos', () => {
+    expect(detectTrelloCardChanges(loadFixture('update-card-details'))).toEqual(
+      ['title_changed', 'description_changed', 'due_date_changed']
+    );
+  });
+
+  it('detecta arquivamento', () => {
+    expect(detectTrelloCardChanges(loadFixture('update-card-archive'))).toEqual(
+      ['archived_changed']
+    );
+  });
+
+  it('agrupa campos sem mapeamento próprio em card_changed', () => {
+    expect(detectTrelloCardChanges(loadFixture('update-card-cover'))).toEqual([
+      'card_changed',
+    ]);
+  });
+
+  it('usa o tipo da ação fora de updateCard', () => {
+    expect(detectTrelloCardChanges(loadFixture('create-card'))).toEqual([
+      'createCard',
+    ]);
+  });
+});
+
+describe('WebhookPipeline com eventos do Trello', () => {
+  const fixtures = [
+    'create-card',
+    'update-card-move-list',
+    'update-card-details',
+    'delete-card',
+    'comment-card',
+    'add-member-to-board',
+  ];
+
+  it('aplica uma vez por card e ignora tipos sem handler', async () => {
+    const changed: string[] = [];
+    const removed: string[] = [];
+    const pipeline = new WebhookPipeline()
+      .register('projects', 'project.changed', events =>
+        applyPerEntity(events, async cardId => {
+          changed.push(cardId);
+
+          return 'updated';
+        })
+      )
+      .register('projects-removal', 'project.removed', events =>
+        applyPerEntity(events, async cardId => {
+          removed.push(cardId);
+
+          return 'deleted';
+        })
+      );
+
+    const result = await pipeline.process(
+      fixtures.flatMap(name =>
+        trelloWebhookAdapter.normalize(loadFixture(name))
+      )
+    );
+
+    expect(changed).toEqual(['66f1a2b3c4d5e6f708192a40']);
+    expect(removed).toEqual(['66f1a2b3c4d5e6f708192a40']);
+    expect(result).toMatchObject({
+      received: 6,
+      succeeded: 4,
+      failed: 0,
+      ignored: 2,
+    });
+  });
+
+  it('marca como falha apenas os eventos do card com erro', async () => {
+    const pipeline = new WebhookPipeline().register(
+      'projects',
+      'project.changed',
+      events =>
+        applyPerEntity(events, async () => {
+          throw new Error('Trello API 404 ao ler card');
+        })
+    );
+
+    const result = await pipeline.process(
+      ['create-card', 'comment-card'].flatMap(name =>
+        trelloWebhookAdapter.normalize(loadFixture(name))
+      )
+    );
+
+    expect(result.failed).toBe(1);
+    expect(result.ignored).toBe(1);
+    expect(result.results[0]).toMatchObject({
+      eventId: 'trello:66f1a2b3c4d5e6f708192a3b',
+      success: false,
+      error: 'Trello API 404 ao ler card',
+    });
+  });
+});
+
+describe('mapTrelloCardToProject', () => {
+  it('mapeia o card completo lido após o webhook', () => {
+    const project = mapTrelloCardToProject(loadFixture<TrelloCard>('card'));
+
+    expect(project).toMatchObject({
+      id: '66f1a2b3c4d5e6f708192a40',
+      trelloCardId: '66f1a2b3c4d5e6f708192a40',
+      title: 'Integração N8N com HubSpot (fase 2)',
+      description: 'Sincronizar tickets e negócios',
+      status: 'em-andamento',
+      priority: 'high',
+      progress: 25,
+      platforms: ['N8N', 'Hubspot'],
+      responsible: ['Felipe Braat'],
+      startDate: '2026-10-01T12:00:00.000Z',
+      estimatedEndDate: '2026-11-15T18:00:00.000Z',
+    });
+  });
+
+  it('ignora cards arquivados e de template', () => {
+    const card = loadFixture<TrelloCard>('card');
+
+    expect(mapTrelloCardToProject({ ...card, closed: true })).toBeNull();
+    expect(
+      mapTrelloCardToProject({ ...card, name: 'Template de projeto' })
+    ).toBeNull();
+  });
+});
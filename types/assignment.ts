@@ -0,0 +1,84 @@
+/**
+ * Assignment Types - Atribuição automática de tickets
+ * Estratégias de distribuição entre os técnicos autorizados, turnos e
+ * calendário de ausências
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+export type AssignmentStrategy = 'round_robin' | 'least_open' | 'skill';
+
+export type TechnicianAbsenceType = 'vacation' | 'off_shift' | 'leave';
+
+// Turno semanal e especialidades de um técnico (horas no fuso do time)
+export interface TechnicianSchedule {
+  technicianId: string; // ID do owner no HubSpot
+  skills: string[]; // Trechos procurados no assunto, descrição e categoria
+  workDays: number[]; // 0 = domingo ... 6 = sábado
+  shiftStartHour: number;
+  shiftEndHour: number;
+}
+
+// Período em que o técnico não recebe tickets (férias, folga, licença)
+export interface TechnicianAbsence {
+  id: string;
+  technicianId: string;
+  type: TechnicianAbsenceType;
+  startsAt: string;
+  endsAt: string;
+  note?: string;
+}
+
+export interface AssignmentSettings {
+  strategy: AssignmentStrategy;
+  autoAssign: boolean; // Atribuir na chegada (webhook e sincronização)
+  schedules: TechnicianSchedule[];
+  absences: TechnicianAbsence[];
+  lastAssignedOwnerId?: string; // Ponteiro do rodízio
+  updatedAt?: string;
+}
+
+// Situação atual de um técnico para a distribuição
+export interface TechnicianAvailability {
+  technicianId: string;
+  name: string;
+  available: boolean;
+  reason?: string; // Motivo da indisponibilidade
+  openTickets: number;
+  skills: string[];
+}
+
+export interface AssignmentRunOptions {
+  source: 'webhook' | 'sync' | 'manual';
+  strategy?: AssignmentStrategy; // Sobrescreve a estratégia configurada
+}
+
+export interface AssignmentRunItem {
+  hubspotId: string;
+  subject: string;
+  technicianId?: string;
+  reason?: string; // Por que este técnico (ou por que ninguém)
+  error?: string;
+}
+
+export interface AssignmentRunSummary {
+  evaluated: number;
+  assigned: number;
+  skipped: number; // Nenhum técnico disponível
+  errors: number;
+  items: AssignmentRunItem[];
+}
+
+export const ASSIGNMENT_STRATEGY_LABELS: Record<AssignmentStrategy, string> = {
+  round_robin: 'Rodízio',
+  least_open: 'Menos tickets abertos',
+  skill: 'Por especialidade',
+};
+
+export const TECHNICIAN_ABSENCE_LABELS: Record<TechnicianAbsenceType, string> =
+  {
+    vacation: 'Férias',
+    off_shift: 'Folga',
+    leave: 'Licença',
+  };
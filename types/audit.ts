@@ -0,0 +1,70 @@
+/**
+ * Audit Types - Registro de alterações feitas pelo dashboard
+ * Quem alterou o quê em projetos e tickets, com a resposta do sistema de origem
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+export type AuditEntityType = 'project' | 'ticket';
+
+export type AuditAction = 'create' | 'update' | 'delete';
+
+export type AuditUpstreamSystem = 'trello' | 'hubspot';
+
+// Diferença de um campo entre o estado anterior e o posterior
+export interface AuditFieldChange {
+  before: unknown;
+  after: unknown;
+}
+
+export type AuditChanges = Record<string, AuditFieldChange>;
+
+// Entrada como exposta pela API
+export interface AuditLogEntry {
+  id: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: AuditAction;
+  actorId?: string;
+  actorEmail?: string;
+  changes: AuditChanges;
+  ipAddress?: string;
+  userAgent?: string;
+  upstreamSystem?: AuditUpstreamSystem;
+  upstreamResponse?: unknown;
+  success: boolean;
+  error?: string;
+  createdAt: string;
+}
+
+export interface AuditLogFilters {
+  entityType?: AuditEntityType;
+  entityId?: string;
+  action?: AuditAction;
+  actor?: string; // Trecho do e-mail do autor
+  dateFrom?: string;
+  dateTo?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  project: 'Projeto',
+  ticket: 'Ticket',
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Criação',
+  update: 'Alteração',
+  delete: 'Exclusão',
+};
+
+export const AUDIT_ACTION_COLORS: Record<
+  AuditAction,
+  'success' | 'primary' | 'danger'
+> = {
+  create: 'success',
+  update: 'primary',
+  delete: 'danger',
+};
@@ -0,0 +1,55 @@
+/**
+ * Auth Types - Usuários autenticados e papéis de acesso
+ * Compartilhados entre o middleware, as rotas de API e a interface
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type { TeamMember } from './project';
+
+export type UserRole = 'viewer' | 'analyst' | 'admin';
+
+// Usuário resolvido a partir da sessão do Supabase Auth
+export interface AuthUser {
+  id: string;
+  email: string;
+  role: UserRole;
+}
+
+// Perfil do usuário com o vínculo ao HubSpot e ao time de projetos
+export interface UserProfile {
+  id: string;
+  email: string;
+  name?: string;
+  role: UserRole;
+  hubspotOwnerId?: string;
+  teamMember?: TeamMember;
+  lastSignInAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Alterações permitidas a um administrador
+export interface UserProfileUpdate {
+  role?: UserRole;
+  hubspotOwnerId?: string | null;
+  teamMember?: TeamMember | null;
+}
+
+export const USER_ROLES: UserRole[] = ['viewer', 'analyst', 'admin'];
+
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  viewer: 'Leitor',
+  analyst: 'Analista',
+  admin: 'Administrador',
+};
+
+export const USER_ROLE_COLORS: Record<
+  UserRole,
+  'default' | 'primary' | 'danger'
+> = {
+  viewer: 'default',
+  analyst: 'primary',
+  admin: 'danger',
+};
@@ -0,0 +1,68 @@
+/**
+ * Catalog Types - Plataformas e membros do time de projetos
+ * Cadastros gerenciados pelo painel admin; cada item traz o mapeamento para
+ * labels e membros do Trello e para owners do HubSpot
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+// Plataforma de automação (N8N, Jira...) representada por um label no Trello
+export interface CatalogPlatform {
+  id: string;
+  name: string; // Valor gravado em `project.platforms`
+  trelloLabel?: string; // Nome exato do label no quadro (padrão: `name`)
+  keywords: string[]; // Trechos alternativos reconhecidos no nome do label
+  color: string; // Cor do label no Trello (purple, blue, orange...)
+  isDefault: boolean; // Usada quando o card não tem label reconhecido
+  isActive: boolean;
+  displayOrder: number;
+}
+
+// Membro do time de projetos (responsável por cards no Trello)
+export interface CatalogMember {
+  id: string;
+  name: string; // Valor gravado em `project.responsible`
+  email?: string;
+  trelloMemberId?: string;
+  trelloUsername?: string;
+  hubspotOwnerId?: string;
+  keywords: string[]; // Trechos reconhecidos no nome/username do Trello
+  isDefault: boolean; // Usado quando o card não tem membro reconhecido
+  isActive: boolean;
+  displayOrder: number;
+}
+
+export interface ProjectCatalog {
+  platforms: CatalogPlatform[];
+  members: CatalogMember[];
+  updatedAt?: string;
+}
+
+// Cores de label aceitas pelo Trello
+export const TRELLO_LABEL_COLORS = [
+  'green',
+  'yellow',
+  'orange',
+  'red',
+  'purple',
+  'blue',
+  'sky',
+  'lime',
+  'pink',
+  'black',
+] as const;
+
+// Classes dos badges de plataforma por cor do label
+export const PLATFORM_BADGE_CLASSES: Record<string, string> = {
+  green: 'bg-green-500/80 text-white',
+  yellow: 'bg-yellow-500/80 text-black',
+  orange: 'bg-orange-500/80 text-white',
+  red: 'bg-red-500/80 text-white',
+  purple: 'bg-purple-500/80 text-white',
+  blue: 'bg-blue-500/80 text-white',
+  sky: 'bg-sky-500/80 text-white',
+  lime: 'bg-lime-500/80 text-black',
+  pink: 'bg-pink-500/80 text-white',
+  black: 'bg-gray-800/80 text-white',
+};
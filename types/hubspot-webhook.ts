@@ -0,0 +1,55 @@
+/**
+ * HubSpot Webhook Types - Eventos de tickets enviados pelo HubSpot
+ * Formato dos payloads da Webhooks API (assinaturas de objeto ticket)
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+// Assinaturas de ticket tratadas pelo receptor
+export type HubSpotWebhookSubscriptionType =
+  | 'ticket.creation'
+  | 'ticket.propertyChange'
+  | 'ticket.deletion';
+
+// Evento individual (o HubSpot envia um array de até 100 eventos)
+export interface HubSpotWebhookEvent {
+  eventId: number;
+  subscriptionId: number;
+  portalId: number;
+  appId: number;
+  occurredAt: number;
+  subscriptionType: HubSpotWebhookSubscriptionType | string;
+  attemptNumber: number;
+  objectId: number;
+  propertyName?: string;
+  propertyValue?: string;
+  changeSource?: string;
+  sourceId?: string;
+}
+
+// Resultado do processamento de um evento
+export type HubSpotWebhookEventOutcome =
+  | 'created'
+  | 'updated'
+  | 'deleted'
+  | 'ignored'
+  | 'error';
+
+export interface HubSpotWebhookEventResult {
+  eventId: number;
+  objectId: string;
+  subscriptionType: string;
+  outcome: HubSpotWebhookEventOutcome;
+  error?: string;
+}
+
+export interface HubSpotWebhookProcessSummary {
+  received: number;
+  created: number;
+  updated: number;
+  deleted: number;
+  ignored: number;
+  errors: number;
+  results: HubSpotWebhookEventResult[];
+}
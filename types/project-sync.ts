@@ -0,0 +1,133 @@
+/**
+ * Tipos para a sincronização bidirecional de campos de projetos
+ * Rastreamento do último escritor por campo e fila de conflitos Trello × local
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type { Project } from './project';
+
+// Campos editáveis nos dois lados (ProjectEditor e Trello)
+export type SyncableProjectField =
+  | 'title'
+  | 'description'
+  | 'status'
+  | 'estimatedEndDate'
+  | 'startDate'
+  | 'priority'
+  | 'progress'
+  | 'platforms'
+  | 'responsible'
+  | 'labels' // Apenas as labels livres do card
+  | 'imageUrl';
+
+// Política aplicada quando os dois lados alteraram o mesmo campo
+export type FieldSyncPolicy = 'trello' | 'local' | 'manual';
+
+export type ProjectFieldPolicyMap = Record<
+  SyncableProjectField,
+  FieldSyncPolicy
+>;
+
+export type FieldWriter = 'trello' | 'local';
+
+// Valor serializado de um campo (string normalizada ou null; listas em JSON)
+export type SyncFieldValue = string | null;
+
+export type SyncFieldValues = Record<SyncableProjectField, SyncFieldValue>;
+
+// Estado por campo persistido em Project.fieldSync
+export interface ProjectFieldSyncEntry {
+  value: SyncFieldValue; // Último valor em acordo entre Trello e banco
+  lastWriter: FieldWriter;
+  localUpdatedAt?: string; // Última edição local (ISO)
+  trelloUpdatedAt?: string; // dateLastActivity do card quando o valor mudou
+}
+
+export type ProjectFieldSyncState = Partial<
+  Record<SyncableProjectField, ProjectFieldSyncEntry>
+>;
+
+// Conflito detectado antes de ser persistido
+export interface ProjectFieldConflictDraft {
+  field: SyncableProjectField;
+  baseValue: SyncFieldValue;
+  localValue: SyncFieldValue;
+  trelloValue: SyncFieldValue;
+  localUpdatedAt?: string;
+  trelloUpdatedAt?: string;
+}
+
+// Resultado da reconciliação de um projeto com o card do Trello
+export interface ProjectFieldMergeResult {
+  applyFromTrello: SyncableProjectField[]; // Campos a gravar com o valor do Trello
+  state: ProjectFieldSyncState;
+  conflicts: ProjectFieldConflictDraft[];
+  pushToTrello: SyncableProjectField[]; // Edições locais pendentes no Trello
+  converged: SyncableProjectField[]; // Campos em que os lados voltaram a concordar
+  overwritten: SyncableProjectField[]; // Edições locais descartadas pela política
+}
+
+// Edição local ainda não refletida no card
+export interface PendingTrelloPush {
+  projectId: string;
+  trelloCardId: string;
+  values: Partial<SyncFieldValues>;
+}
+
+// Origem dos projetos servidos pela API
+export type ProjectDataSource = 'database' | 'trello';
+
+// Resultado da sincronização completa do quadro (POST /api/projects/sync)
+export interface ProjectBoardSyncResult {
+  projects: Project[];
+  source: ProjectDataSource;
+  synced: number;
+  conflicts: number;
+  pushed: number; // Edições locais pendentes enviadas ao Trello
+  errors: { project: string; error: string }[];
+  duration: number;
+}
+
+export type ProjectSyncConflictStatus = 'OPEN' | 'RESOLVED';
+
+export type ConflictResolution = 'trello' | 'local';
+
+// Conflito exposto pela API
+export interface ProjectSyncConflict {
+  id: string;
+  projectId: string;
+  field: SyncableProjectField;
+  baseValue: SyncFieldValue;
+  localValue: SyncFieldValue;
+  trelloValue: SyncFieldValue;
+  localUpdatedAt?: string;
+  trelloUpdatedAt?: string;
+  status: ProjectSyncConflictStatus;
+  resolution?: ConflictResolution;
+  resolvedBy?: string;
+  resolvedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const SYNC_FIELD_LABELS: Record<SyncableProjectField, string> = {
+  title: 'Título',
+  description: 'Descrição',
+  status: 'Status',
+  estimatedEndDate: 'Prazo estimado',
+  startDate: 'Data de início',
+  priority: 'Prioridade',
+  progress: 'Progresso',
+  platforms: 'Plataformas',
+  responsible: 'Responsáveis',
+  labels: 'Labels',
+  imageUrl: 'Imagem de capa',
+};
+
+export const FIELD_SYNC_POLICY_LABELS: Record<FieldSyncPolicy, string> = {
+  trello: 'Trello prevalece',
+  local: 'Local prevalece',
+  manual: 'Resolução manual',
+};
@@ -4,18 +4,46 @@ import type {
   SyncHistory,
 } from '@/lib/database/prisma';
 
-// Legacy types for backward compatibility
-export type Platform =
-  | 'N8N'
-  | 'Jira'
-  | 'Hubspot'
-  | 'Backoffice'
-  | 'Google Workspace';
-
-export type TeamMember = 'Guilherme Souza' | 'Felipe Braat' | 'Tiago Triani';
+// Plataformas e membros vêm do catálogo (tabelas platforms/members)
+export type Platform = string; // Nome de uma plataforma do catálogo
+export type TeamMember = string; // Nome de um membro do catálogo
 export type ProjectStatus = 'a-fazer' | 'em-andamento' | 'concluido';
 export type ProjectPriority = 'low' | 'medium' | 'high';
 
+export type CheckItemState = 'complete' | 'incomplete';
+
+// Item de checklist do card (IDs são os do Trello)
+export interface ProjectCheckItem {
+  id: string;
+  name: string;
+  state: CheckItemState;
+  position: number;
+  dueDate?: string;
+  trelloMemberId?: string;
+  assignee?: TeamMember; // Membro do catálogo vinculado a trelloMemberId
+}
+
+export interface ProjectChecklist {
+  id: string;
+  name: string;
+  position: number;
+  checkItems: ProjectCheckItem[];
+}
+
+// Anexo do card (ID do Trello); imagens ganham uma cópia no armazenamento
+export interface ProjectAttachment {
+  id: string;
+  name: string;
+  url: string; // URL no Trello (uploads exigem autenticação para download)
+  mimeType?: string;
+  bytes?: number;
+  isUpload: boolean; // false: link externo
+  isCover: boolean;
+  previewUrl?: string; // Imagem exibível sem credenciais do Trello
+  uploadedBy?: string;
+  attachedAt: string;
+}
+
 // Enhanced Project interface with Prisma compatibility
 export interface Project {
   id: string;
@@ -31,10 +59,55 @@ export interface Project {
   priority: ProjectPriority;
   trelloCardId?: string;
   labels?: string[];
+  trelloUpdatedAt?: string; // dateLastActivity do card no Trello
+  blocks?: string[]; // Cards (trelloCardId) que este projeto bloqueia
+  blockedBy?: string[]; // Cards (trelloCardId) que bloqueiam este projeto
+  checklists?: ProjectChecklist[]; // Ausente quando o card foi lido sem checklists
+  attachments?: ProjectAttachment[]; // Ausente quando o card foi lido sem anexos
   createdAt?: string;
   updatedAt?: string;
 }
 
+// Outro lado de um vínculo de dependência, como exibido no detalhe do projeto
+export interface ProjectDependencyRef {
+  dependencyId: string;
+  trelloCardId: string;
+  title: string;
+  status: ProjectStatus;
+  estimatedEndDate: string;
+  mirrored: boolean; // Anexos criados nos cards do Trello
+}
+
+export interface ProjectDependencies {
+  blocks: ProjectDependencyRef[];
+  blockedBy: ProjectDependencyRef[];
+}
+
+// Entrada do histórico de atividades exibido no detalhe do projeto
+export type ProjectActivityType =
+  | 'comment'
+  | 'move'
+  | 'checklist'
+  | 'attachment'
+  | 'created'
+  | 'sync';
+
+export interface ProjectActivityItem {
+  id: string;
+  type: ProjectActivityType;
+  source: 'trello' | 'local'; // Ação do card ou linha de SyncHistory
+  author?: string;
+  text: string;
+  date: string;
+  url?: string; // Anexo ou link relacionado
+  success?: boolean; // Apenas sincronizações locais
+}
+
+export interface ProjectActivityFeed {
+  items: ProjectActivityItem[];
+  trelloAvailable: boolean; // false quando as ações do card não puderam ser lidas
+}
+
 // Prisma-enhanced types
 export type ProjectWithHistory = PrismaProject & {
   syncHistory: SyncHistory[];
@@ -42,7 +115,7 @@ export type ProjectWithHistory = PrismaProject & {
 
 export type CreateProjectData = Omit<
   PrismaProject,
-  'id' | 'createdAt' | 'updatedAt'
+  'id' | 'createdAt' | 'updatedAt' | 'trelloUpdatedAt' | 'fieldSync'
 >;
 export type UpdateProjectData = Partial<CreateProjectData>;
 
@@ -0,0 +1,63 @@
+/**
+ * Tipos e interfaces para as configurações do sistema de Tickets
+ * Pipelines, estágios e técnicos gerenciados via banco (admin)
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+// Estágio com papel fixo nas automações (no máximo um por papel, exceto
+// "waiting": todo estágio em que o ticket aguarda o cliente)
+export type StageRole = 'triage' | 'discarded' | 'waiting';
+
+export const STAGE_ROLES: StageRole[] = ['triage', 'discarded', 'waiting'];
+
+// Papéis que podem ser atribuídos a vários estágios
+export const MULTI_STAGE_ROLES: StageRole[] = ['waiting'];
+
+export const STAGE_ROLE_LABELS: Record<StageRole, string> = {
+  triage: 'Triagem automática',
+  discarded: 'Desconsiderados',
+  waiting: 'Aguardando cliente (pausa o SLA)',
+};
+
+// Estágio de pipeline com configuração visual do Kanban
+export interface StageSetting {
+  id: string; // ID do stage no HubSpot
+  pipelineId: string;
+  label: string;
+  description?: string;
+  color: string; // Classe Tailwind (ex: bg-blue-500)
+  displayOrder: number;
+  isVisible: boolean; // Exibido no Kanban / permitido no sistema
+  isClosed: boolean;
+  excludeFromSync: boolean; // Ignorado na sincronização com HubSpot
+  role?: StageRole;
+}
+
+// Pipeline de tickets do HubSpot usada pelo sistema
+export interface PipelineSetting {
+  id: string; // ID da pipeline no HubSpot
+  label: string;
+  isActive: boolean;
+  stages: StageSetting[];
+}
+
+// Técnico autorizado (owner do HubSpot)
+export interface TechnicianSetting {
+  id: string; // ID do owner no HubSpot
+  name: string;
+  role: string;
+  email?: string;
+  color: string; // Cor HeroUI (primary, secondary, success...)
+  avatar: string; // Iniciais
+  displayOrder: number;
+  isActive: boolean;
+}
+
+// Documento completo de configurações
+export interface TicketSystemSettings {
+  pipelines: PipelineSetting[];
+  technicians: TechnicianSetting[];
+  updatedAt?: string;
+}
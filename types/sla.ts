@@ -0,0 +1,94 @@
+/**
+ * Tipos e interfaces para o motor de SLA de Tickets
+ * Políticas com metas de primeira resposta e resolução por prioridade/estágio
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type { TicketPriority, TicketStatus } from './ticket';
+
+// Estados de SLA compartilhados por cards, filtros e estatísticas
+export type SlaState = 'ok' | 'at_risk' | 'breached' | 'paused' | 'met';
+
+// Calendário de horário comercial (horas no fuso do calendário)
+export interface BusinessHoursCalendar {
+  utcOffsetMinutes: number; // Ex: -180 para America/Sao_Paulo
+  workingDays: number[]; // 0 = domingo ... 6 = sábado
+  startHour: number;
+  endHour: number;
+  holidays: string[]; // Datas no formato YYYY-MM-DD
+}
+
+// Meta de SLA (valores em horas)
+export interface SlaTarget {
+  firstResponseHours: number;
+  resolutionHours: number;
+  useBusinessHours: boolean;
+}
+
+// Política de SLA completa (configurada no painel admin)
+// Estágios fechados e de espera vêm das configurações de tickets
+export interface SlaPolicy {
+  name: string;
+  businessHours: BusinessHoursCalendar;
+  atRiskThreshold: number; // Fração consumida da meta (0-1) para "em risco"
+  pauseStatuses: TicketStatus[];
+  pauseStageIds: string[]; // Estágios em que o relógio fica pausado
+  closedStatuses: TicketStatus[];
+  priorityTargets: Record<TicketPriority, SlaTarget>;
+  stageTargets: Record<string, SlaTarget>; // Sobrescreve a meta por prioridade
+  updatedAt?: string;
+}
+
+// Estágios das configurações de tickets relevantes para o SLA
+export interface SlaStageIds {
+  closed: string[]; // isClosed
+  waiting: string[]; // Papel "waiting": relógio pausado
+}
+
+// Intervalo em que o relógio ficou pausado (end ausente = ainda pausado)
+export interface SlaPauseInterval {
+  start: Date;
+  end?: Date;
+}
+
+// Resultado de um relógio de SLA (primeira resposta ou resolução)
+export interface SlaClock {
+  state: SlaState;
+  targetMinutes: number;
+  elapsedMinutes: number;
+  pausedMinutes: number; // Descontados do decorrido pelas pausas
+  remainingMinutes: number;
+}
+
+// Resultado consolidado para um ticket
+export interface TicketSlaStatus {
+  state: SlaState;
+  isPaused: boolean;
+  isClosed: boolean;
+  target: SlaTarget;
+  firstResponse: SlaClock;
+  resolution: SlaClock;
+}
+
+// Labels para exibição na UI
+export const SLA_STATE_LABELS: Record<SlaState, string> = {
+  ok: 'No prazo',
+  at_risk: 'Em risco',
+  breached: 'Estourado',
+  paused: 'Pausado',
+  met: 'Cumprido',
+};
+
+// Cores (HeroUI) para os estados
+export const SLA_STATE_COLORS: Record<
+  SlaState,
+  'success' | 'warning' | 'danger' | 'default' | 'primary'
+> = {
+  ok: 'success',
+  at_risk: 'warning',
+  breached: 'danger',
+  paused: 'default',
+  met: 'primary',
+};
@@ -0,0 +1,32 @@
+/**
+ * Storage Types - Armazenamento de arquivos dos projetos
+ * Contrato comum ao Supabase Storage (produção) e ao sistema de arquivos local
+ * (desenvolvimento e testes)
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+export type StorageDriver = 'supabase' | 'local';
+
+// Arquivo gravado: caminho relativo ao bucket/diretório e URL exibível
+export interface StoredFile {
+  path: string;
+  url: string;
+}
+
+export interface StoredFileContent {
+  data: ArrayBuffer;
+  contentType: string;
+}
+
+export interface FileStorageAdapter {
+  driver: StorageDriver;
+  put(
+    path: string,
+    data: ArrayBuffer,
+    contentType: string
+  ): Promise<StoredFile>;
+  read(path: string): Promise<StoredFileContent | null>;
+  remove(path: string): Promise<void>;
+}
@@ -0,0 +1,71 @@
+/**
+ * Tipos e interfaces para o Analytics de Tickets
+ * Vazão (criados x resolvidos), tempo até o fechamento, idade do backlog e
+ * reaberturas calculados no servidor sobre a cópia local dos tickets
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type { StageDwellStats, TicketPriority } from './ticket';
+
+export type AnalyticsGranularity = 'day' | 'week';
+
+export interface TicketAnalyticsFilters {
+  dateFrom?: string; // Padrão: últimos 30 dias
+  dateTo?: string;
+  ownerId?: string; // 'unassigned' para tickets sem técnico
+  granularity?: AnalyticsGranularity;
+}
+
+// Um período do gráfico de vazão (início do dia ou da semana, YYYY-MM-DD)
+export interface ThroughputPoint {
+  period: string;
+  created: number;
+  resolved: number;
+}
+
+// Tempo até o fechamento (horas corridas) de um grupo de tickets
+export interface TimeToCloseStats {
+  key: string; // Prioridade ou ID do técnico ('unassigned' sem técnico)
+  count: number;
+  avgHours: number;
+  medianHours: number;
+  p90Hours: number;
+}
+
+export interface BacklogAgeBucket {
+  key: string;
+  label: string;
+  count: number;
+}
+
+export interface ReopenedTicket {
+  hubspotId: string;
+  subject: string;
+  hubspotOwnerId?: string;
+  reopenCount: number;
+  lastReopenedAt: string;
+}
+
+export interface TicketAnalytics {
+  range: {
+    dateFrom: string;
+    dateTo: string;
+    granularity: AnalyticsGranularity;
+  };
+  totals: {
+    created: number;
+    resolved: number;
+    reopened: number;
+    backlog: number; // Abertos agora (independe do período)
+    timeToClose: Omit<TimeToCloseStats, 'key'>;
+  };
+  throughput: ThroughputPoint[];
+  timeToCloseByPriority: Array<TimeToCloseStats & { key: TicketPriority }>;
+  timeToCloseByOwner: TimeToCloseStats[];
+  backlogAge: BacklogAgeBucket[];
+  reopened: ReopenedTicket[];
+  stageDwell: StageDwellStats[];
+  generatedAt: string;
+}
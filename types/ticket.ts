@@ -6,6 +6,11 @@
  * @version 1.0.0
  */
 
+import type { SlaState } from './sla';
+import type { TicketSystemSettings } from './settings';
+
+import { getTicketStatusForStage } from '@/lib/config/ticket-settings';
+
 // Tipos básicos para tickets (compatível com Prisma enums)
 export type TicketPriority = 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
 export type TicketStatus = 'NEW' | 'OPEN' | 'WAITING' | 'CLOSED' | 'RESOLVED';
@@ -29,10 +34,20 @@ export interface Ticket {
   createdAt: string;
   updatedAt: string;
   closedAt?: string;
+  firstResponseAt?: string;
 
   // HubSpot specific fields
   hubspotCreatedAt?: string;
   hubspotUpdatedAt?: string;
+
+  // Entradas em estágios (cópia local), usadas nas pausas do SLA
+  stageHistory?: TicketStageEntry[];
+}
+
+// Entrada do ticket em um estágio, em ordem cronológica
+export interface TicketStageEntry {
+  stageId: string;
+  enteredAt: string;
 }
 
 // Interface para criação de tickets
@@ -112,6 +127,7 @@ export interface TicketFilters {
   search?: string; // Busca por subject ou content
   dateFrom?: string;
   dateTo?: string;
+  slaState?: SlaState;
 }
 
 // Interface para agrupamento de tickets (Kanban)
@@ -140,7 +156,85 @@ export interface TicketStats {
   avgTimeToClose?: number; // em horas
   openTickets: number;
   closedTickets: number;
-  overdueTickets: number;
+  overdueTickets: number; // SLA estourado
+  atRiskTickets: number; // SLA em risco
+}
+
+// Origem de uma transição de estágio
+export type TicketTransitionSource =
+  | 'sync'
+  | 'webhook'
+  | 'dashboard'
+  | 'backfill'
+  | 'triage';
+
+// Entrada do ticket em um estágio (durações em minutos corridos)
+export interface TicketStageTransition {
+  id: string;
+  fromStageId?: string;
+  toStageId: string;
+  transitionedAt: string;
+  source: TicketTransitionSource;
+  changedBy?: string;
+  durationMinutes: number; // Até a próxima transição ou até agora
+  isCurrent: boolean;
+}
+
+// Tempo total do ticket em cada estágio
+export interface TicketStageDwell {
+  stageId: string;
+  visits: number;
+  totalMinutes: number;
+}
+
+export interface TicketTimeline {
+  hubspotId: string;
+  transitions: TicketStageTransition[]; // Ordem cronológica
+  dwell: TicketStageDwell[];
+}
+
+// Permanência agregada por estágio (apenas passagens concluídas)
+export interface StageDwellStats {
+  stageId: string;
+  tickets: number;
+  visits: number;
+  currentTickets: number; // Tickets ainda no estágio
+  avgMinutes: number;
+  medianMinutes: number;
+  p90Minutes: number;
+}
+
+export interface StageDwellFilters {
+  dateFrom?: string; // Início do período (permanências cortadas nele)
+  dateTo?: string;
+  ownerId?: string;
+}
+
+// Ações em lote sobre tickets selecionados (POST /api/tickets/batch)
+export interface BatchTicketUpdate {
+  pipelineStageId?: string;
+  hubspotOwnerId?: string; // String vazia remove a atribuição do técnico
+  priority?: TicketPriority;
+  addTags?: string[]; // Somadas às tags atuais de cada ticket
+  discard?: boolean; // Encerrar como Desconsiderado
+}
+
+export interface BatchTicketRequest {
+  hubspotIds: string[];
+  updates: BatchTicketUpdate;
+}
+
+export interface BatchTicketResult {
+  hubspotId: string;
+  success: boolean;
+  ticket?: Ticket;
+  error?: string;
+}
+
+export interface BatchTicketResponse {
+  results: BatchTicketResult[];
+  succeeded: number;
+  failed: number;
 }
 
 // Labels para exibição na UI
@@ -176,6 +270,17 @@ export const TICKET_PRIORITY_COLORS: Record<TicketPriority, string> = {
   URGENT: 'bg-red-500',
 };
 
+export const TICKET_TRANSITION_SOURCE_LABELS: Record<
+  TicketTransitionSource,
+  string
+> = {
+  sync: 'Sincronização',
+  webhook: 'HubSpot (tempo real)',
+  dashboard: 'Dashboard',
+  backfill: 'Histórico HubSpot',
+  triage: 'Triagem automática',
+};
+
 // Mapeamentos para HubSpot
 export const HUBSPOT_PRIORITY_MAPPING: Record<TicketPriority, string> = {
   LOW: 'LOW',
@@ -206,6 +311,7 @@ export type HubSpotTicketProperties = {
   createdate?: string;
   hs_lastmodifieddate?: string;
   closedate?: string;
+  first_agent_reply_date?: string;
   tags?: string;
 };
 
@@ -219,8 +325,10 @@ export interface HubSpotTicketData {
 }
 
 // Funções utilitárias para transformação
+// Status derivado do estágio pelas configurações (getTicketStatusForStage)
 export const transformHubSpotToLocal = (
-  hubspotTicket: HubSpotTicketData
+  hubspotTicket: HubSpotTicketData,
+  settings: TicketSystemSettings
 ): Ticket => {
   const properties = hubspotTicket.properties;
 
@@ -232,7 +340,7 @@ export const transformHubSpotToLocal = (
     priority:
       REVERSE_HUBSPOT_PRIORITY_MAPPING[properties.hs_ticket_priority] ||
       'MEDIUM',
-    status: 'OPEN', // Será mapeado baseado no pipeline stage
+    status: getTicketStatusForStage(settings, properties.hs_pipeline_stage),
     category: properties.hs_ticket_category,
     pipelineId: properties.hs_pipeline,
     pipelineStageId: properties.hs_pipeline_stage,
@@ -244,6 +352,7 @@ export const transformHubSpotToLocal = (
     createdAt: properties.createdate || hubspotTicket.createdAt,
     updatedAt: properties.hs_lastmodifieddate || hubspotTicket.updatedAt,
     closedAt: properties.closedate,
+    firstResponseAt: properties.first_agent_reply_date,
     hubspotCreatedAt: hubspotTicket.createdAt,
     hubspotUpdatedAt: hubspotTicket.updatedAt,
   };
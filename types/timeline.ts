@@ -0,0 +1,30 @@
+/**
+ * Timeline Types - Linha do tempo (Gantt) de projetos
+ * Escalas de zoom, intervalo visível e marcações do cabeçalho
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+export type TimelineScale = 'week' | 'month' | 'quarter';
+
+export interface TimelineScaleConfig {
+  label: string;
+  dayWidth: number; // Pixels por dia
+  paddingDays: number; // Folga antes do primeiro início e após o último prazo
+}
+
+// Intervalo visível, sempre iniciado à meia-noite local
+export interface TimelineRange {
+  start: Date;
+  end: Date;
+  days: number;
+}
+
+// Marcação do cabeçalho (dia, semana ou mês conforme a escala)
+export interface TimelineTick {
+  key: string;
+  label: string;
+  offsetDays: number;
+  spanDays: number;
+}
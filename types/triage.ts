@@ -0,0 +1,96 @@
+/**
+ * Triage Types - Regras de triagem automática dos tickets
+ * Tickets que chegam na Triagem N2 são avaliados pelas regras em ordem; a
+ * primeira regra compatível define estágio, prioridade, técnico e tags
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type { TicketPriority } from './ticket';
+
+// Grupos vazios são ignorados; grupos preenchidos precisam bater (E),
+// bastando um valor de cada grupo (OU)
+export interface TriageConditions {
+  keywords: string[]; // Trechos procurados no assunto e na descrição
+  categories: string[]; // hs_ticket_category
+  sourceTypes: string[]; // source_type (EMAIL, CHAT, FORM...)
+  tags: string[];
+}
+
+export interface TriageActions {
+  pipelineStageId?: string;
+  priority?: TicketPriority;
+  hubspotOwnerId?: string;
+  addTags: string[];
+}
+
+export interface TriageRule {
+  id: string;
+  name: string;
+  description?: string;
+  conditions: TriageConditions;
+  actions: TriageActions;
+  isActive: boolean;
+  dryRun: boolean; // Apenas registra o que faria, sem alterar o HubSpot
+  displayOrder: number;
+  updatedAt?: string;
+}
+
+export interface TriageRuleSet {
+  rules: TriageRule[];
+  updatedAt?: string; // Alteração mais recente entre as regras
+}
+
+export type TriageChangeField =
+  | 'pipelineStageId'
+  | 'priority'
+  | 'hubspotOwnerId'
+  | 'tags';
+
+export interface TriageChange {
+  field: TriageChangeField;
+  from?: string | string[];
+  to: string | string[];
+}
+
+// Explicação gravada no ticket: qual regra disparou, por quê e o que mudou
+export interface TicketTriageResult {
+  ruleId: string;
+  ruleName: string;
+  reasons: string[];
+  changes: TriageChange[];
+  dryRun: boolean;
+  applied: boolean;
+  source: 'webhook' | 'sync' | 'manual';
+  evaluatedAt: string;
+  error?: string;
+}
+
+export interface TriageRunOptions {
+  source: TicketTriageResult['source'];
+  dryRun?: boolean; // Simula todas as regras, inclusive as ativas
+  force?: boolean; // Reavalia tickets já triados
+}
+
+export interface TriageRunItem {
+  hubspotId: string;
+  subject: string;
+  result: TicketTriageResult | null; // null = nenhuma regra compatível
+}
+
+export interface TriageRunSummary {
+  evaluated: number;
+  matched: number;
+  applied: number;
+  simulated: number;
+  errors: number;
+  items: TriageRunItem[];
+}
+
+export const TRIAGE_CHANGE_LABELS: Record<TriageChangeField, string> = {
+  pipelineStageId: 'Estágio',
+  priority: 'Prioridade',
+  hubspotOwnerId: 'Técnico',
+  tags: 'Tags',
+};
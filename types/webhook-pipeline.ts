@@ -0,0 +1,111 @@
+/**
+ * Webhook Pipeline Types - Eventos de domínio normalizados
+ * Contrato entre os adaptadores de origem (Trello, HubSpot), o registro de
+ * handlers e os pontos de entrada (rotas Next.js e worker da fila)
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type { WebhookSource } from '@/types/webhook-queue';
+
+// Ação do Trello, como chega no webhook e em /cards/{id}/actions
+export interface TrelloAction {
+  id: string;
+  type: string;
+  date: string;
+  memberCreator?: {
+    id: string;
+    fullName: string;
+    username: string;
+  };
+  data: {
+    text?: string; // commentCard
+    board?: { id: string; name: string };
+    list?: { id: string; name: string };
+    card?: {
+      id: string;
+      name: string;
+      desc?: string;
+      due?: string | null;
+      closed?: boolean;
+      idList?: string;
+    };
+    listBefore?: { id: string; name: string };
+    listAfter?: { id: string; name: string };
+    checklist?: { id: string; name: string };
+    checkItem?: { id: string; name: string; state: 'complete' | 'incomplete' };
+    attachment?: { id: string; name?: string; url?: string };
+    old?: {
+      name?: string;
+      desc?: string;
+      due?: string | null;
+      pos?: number;
+      closed?: boolean;
+      idList?: string;
+      [key: string]: unknown;
+    };
+  };
+}
+
+// Payload bruto enviado pelo Trello (dados da ação aninhados em `action`)
+export interface TrelloWebhookPayload {
+  action: TrelloAction;
+  model: {
+    id: string;
+    name: string;
+  };
+}
+
+// Eventos de domínio independentes da origem
+export type DomainEventType =
+  | 'project.changed' // Card criado/alterado: reler e persistir
+  | 'project.removed' // Card excluído ou movido para fora do board
+  | 'project.activity' // Comentários (não alteram o projeto)
+  | 'board.lists_changed' // Listas criadas/renomeadas
+  | 'ticket.changed' // Ticket criado/alterado no HubSpot
+  | 'ticket.removed' // Ticket excluído no HubSpot
+  | 'unsupported'; // Ação sem mapeamento
+
+export interface DomainEvent {
+  id: string; // `${source}:${sourceEventId}`
+  type: DomainEventType;
+  source: WebhookSource;
+  sourceEventId: string; // action.id (Trello) / eventId (HubSpot)
+  sourceEventType: string; // updateCard, ticket.propertyChange...
+  entityId?: string; // ID do card ou do ticket na origem
+  occurredAt: string;
+  actor?: string;
+  changes: string[];
+  raw: unknown;
+}
+
+// Converte o payload de uma origem em eventos de domínio
+export interface WebhookSourceAdapter<TPayload = unknown> {
+  source: WebhookSource;
+  normalize(payload: TPayload): DomainEvent[];
+}
+
+export interface DomainEventResult {
+  eventId: string;
+  type: DomainEventType;
+  source: WebhookSource;
+  entityId?: string;
+  success: boolean;
+  outcome: string; // created, updated, deleted, ignored...
+  error?: string;
+}
+
+// Handler recebe todos os eventos dos tipos registrados em um único lote
+export type DomainEventHandler = (
+  events: DomainEvent[]
+) => Promise<DomainEventResult[]>;
+
+export interface WebhookPipelineResult {
+  received: number;
+  succeeded: number;
+  failed: number;
+  ignored: number;
+  results: DomainEventResult[];
+  processingTime: number;
+}
@@ -0,0 +1,75 @@
+/**
+ * Webhook Queue Types - Fila persistida de eventos de webhook
+ * Compartilhados entre o worker, as rotas de API e o painel admin
+ *
+ * @author inPatch Team
+ * @version 1.0.0
+ */
+
+import type { Prisma } from '@prisma/client';
+
+export type WebhookSource = 'trello' | 'hubspot';
+
+export type WebhookEventStatus =
+  | 'PENDING'
+  | 'PROCESSING'
+  | 'SUCCEEDED'
+  | 'FAILED'
+  | 'DEAD';
+
+// Evento como exposto pela API admin
+export interface WebhookQueueEvent {
+  id: string;
+  source: WebhookSource;
+  externalId?: string;
+  eventType?: string;
+  payload: unknown;
+  status: WebhookEventStatus;
+  attempts: number;
+  lastError?: string;
+  nextAttemptAt: string;
+  processedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Evento a ser enfileirado
+export interface WebhookEnqueueInput {
+  source: WebhookSource;
+  externalId?: string;
+  eventType?: string;
+  payload: Prisma.InputJsonValue; // Corpo recebido, gravado como JSON
+}
+
+export interface WebhookDrainResult {
+  claimed: number;
+  succeeded: number;
+  failed: number;
+  dead: number;
+}
+
+export interface WebhookQueueStats {
+  byStatus: Record<WebhookEventStatus, number>;
+  bySource: Record<string, Record<WebhookEventStatus, number>>;
+  oldestPendingAt?: string;
+  maxAttempts: number;
+}
+
+export const WEBHOOK_STATUS_LABELS: Record<WebhookEventStatus, string> = {
+  PENDING: 'Pendente',
+  PROCESSING: 'Processando',
+  SUCCEEDED: 'Processado',
+  FAILED: 'Falhou (retry)',
+  DEAD: 'Dead-letter',
+};
+
+export const WEBHOOK_STATUS_COLORS: Record<
+  WebhookEventStatus,
+  'default' | 'primary' | 'success' | 'warning' | 'danger'
+> = {
+  PENDING: 'default',
+  PROCESSING: 'primary',
+  SUCCEEDED: 'success',
+  FAILED: 'warning',
+  DEAD: 'danger',
+};